@@ -3,93 +3,32 @@ import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
 import { CheckSquare, PlusCircle, ClipboardList, CheckCircle, ArrowUpRight } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
+import { splitActionItem } from "@shared/action-items";
+import { actionItemService, PlanItem } from "@/services/actionItemService";
 
 export interface ActionItemsProps {
   items: string[];
   onGenerate?: () => void;
   onChange?: (items: string[]) => void;
   isGenerating?: boolean;
-  conversationId?: string;
-  conversationTitle?: string;
+  /** The saved conversation the items were generated for */
+  conversationId?: number;
 }
 
-interface PersonalActionItem {
-  id: string;
-  text: string;
-  context: string;
-  conversationId: string;
-  conversationTitle: string;
-  timestamp: number;
-  completed: boolean;
-}
-
-// Helper function to generate a unique ID
-function generateId(): string {
-  return Date.now().toString() + Math.random().toString(36).substr(2, 9);
-}
-
-// Helper function to split an action item into action and context
-function splitActionItem(item: string): { action: string; context: string } {
-  // Look for patterns like "...action. Context..." or common transition phrases
-  const transitions = ['. This', '. The', '. In Islam', '. According', '. Based on', '. As'];
-  
-  for (const transition of transitions) {
-    const index = item.indexOf(transition);
-    if (index !== -1) {
-      return {
-        action: item.substring(0, index + 1), // Include the period
-        context: item.substring(index + 1).trim()
-      };
-    }
-  }
-  
-  // If no transition found, check for a period around the middle of the text
-  const midPoint = Math.floor(item.length / 2);
-  const firstHalf = item.substring(0, midPoint);
-  const lastPeriodInFirstHalf = firstHalf.lastIndexOf('.');
-  
-  if (lastPeriodInFirstHalf !== -1 && lastPeriodInFirstHalf > item.length / 4) {
-    return {
-      action: item.substring(0, lastPeriodInFirstHalf + 1),
-      context: item.substring(lastPeriodInFirstHalf + 1).trim()
-    };
-  }
-  
-  // If still no clear separation, return the whole string as action
-  return {
-    action: item,
-    context: ''
-  };
-}
-
-export function ActionItems({ items, onGenerate, onChange, isGenerating = false, conversationId = "", conversationTitle = "Reflection" }: ActionItemsProps) {
+export function ActionItems({ items, onGenerate, onChange, isGenerating = false, conversationId }: ActionItemsProps) {
   const hasItems = items && items.length > 0;
-  const [savedItems, setSavedItems] = useState<Record<string, boolean>>({});
+  // Plan items for this conversation, by their text
+  const [savedItems, setSavedItems] = useState<Record<string, PlanItem>>({});
   const { toast } = useToast();
 
-  // On mount, load the saved state from localStorage
+  // Generated items are put on the plan automatically; show which still are
   useEffect(() => {
     if (!conversationId) return;
-    
-    try {
-      const savedPlan = localStorage.getItem("personalActionPlan");
-      if (savedPlan) {
-        const planItems: PersonalActionItem[] = JSON.parse(savedPlan);
-        
-        // Create a map of saved items for this conversation
-        const itemsMap: Record<string, boolean> = {};
-        planItems.forEach(item => {
-          if (item.conversationId === conversationId) {
-            itemsMap[item.text] = true;
-          }
-        });
-        
-        setSavedItems(itemsMap);
-      }
-    } catch (error) {
-      console.error("Error loading saved action items:", error);
-    }
-  }, [conversationId]);
+
+    actionItemService.list({ sourceType: "conversation", sourceId: String(conversationId) })
+      .then((planItems) => setSavedItems(Object.fromEntries(planItems.map((item) => [item.text, item]))))
+      .catch((error) => console.error("Error loading saved action items:", error));
+  }, [conversationId, items]);
 
   const handleGenerateClick = () => {
     if (onGenerate) {
@@ -97,51 +36,30 @@ export function ActionItems({ items, onGenerate, onChange, isGenerating = false,
     }
   };
 
-  const toggleSaveToActionPlan = (item: string) => {
+  const toggleSaveToActionPlan = async (item: string) => {
+    if (!conversationId) return;
     const { action, context } = splitActionItem(item);
-    
+    const saved = savedItems[action];
+
     try {
-      // Get existing action plan
-      const savedPlan = localStorage.getItem("personalActionPlan") || "[]";
-      const planItems: PersonalActionItem[] = JSON.parse(savedPlan);
-      
-      // Check if item is already saved
-      const isSaved = savedItems[item];
-      
-      if (isSaved) {
-        // Remove item
-        const updatedPlan = planItems.filter(planItem => 
-          !(planItem.conversationId === conversationId && planItem.text === action)
-        );
-        localStorage.setItem("personalActionPlan", JSON.stringify(updatedPlan));
+      if (saved) {
+        await actionItemService.remove(saved.id);
+        setSavedItems(({ [action]: _, ...rest }) => rest);
         toast({
           description: "Removed from your Personal Action Plan",
         });
       } else {
-        // Add item
-        const newItem: PersonalActionItem = {
-          id: generateId(),
+        const created = await actionItemService.create({
           text: action,
-          context: context,
-          conversationId,
-          conversationTitle,
-          timestamp: Date.now(),
-          completed: false
-        };
-        
-        planItems.push(newItem);
-        localStorage.setItem("personalActionPlan", JSON.stringify(planItems));
+          context: context || null,
+          sourceType: "conversation",
+          sourceId: conversationId,
+        });
+        setSavedItems((current) => ({ ...current, [action]: created }));
         toast({
           description: "Added to your Personal Action Plan",
         });
       }
-      
-      // Update local state
-      setSavedItems(prev => ({
-        ...prev,
-        [item]: !isSaved
-      }));
-      
     } catch (error) {
       console.error("Error updating action plan:", error);
       toast({
@@ -183,7 +101,7 @@ export function ActionItems({ items, onGenerate, onChange, isGenerating = false,
           <ul className="space-y-4 md:space-y-6">
             {items.map((item, index) => {
               const { action, context } = splitActionItem(item);
-              const isSaved = !!savedItems[item];
+              const isSaved = !!savedItems[action];
               
               return (
                 <li key={index} className="flex flex-col">
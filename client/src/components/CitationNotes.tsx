@@ -0,0 +1,46 @@
+import type { CitationCheck } from "@shared/schema";
+import { Badge } from "@/components/ui/badge";
+
+const STATUS_LABELS: Record<Exclude<CitationCheck["status"], "verified">, string> = {
+  mismatched: "Citation doesn't match",
+  unknown: "Couldn't verify",
+};
+
+/**
+ * Marks the Quran and hadith citations in a generated reply that the server
+ * couldn't verify, with the reason and, where known, the actual source text.
+ * Renders nothing when every citation checked out.
+ */
+export function CitationNotes({ citations }: { citations?: CitationCheck[] }) {
+  const unverified = (citations ?? []).filter(citation => citation.status !== "verified");
+  if (unverified.length === 0) return null;
+
+  return (
+    <div className="mt-3 space-y-2 border-t border-border/60 pt-2">
+      {unverified.map((citation, index) => (
+        <div key={`${citation.text}-${index}`} className="text-xs">
+          <div className="flex flex-wrap items-center gap-2">
+            <Badge
+              variant={citation.status === "mismatched" ? "destructive" : "outline"}
+              className="px-2 py-0 text-[10px]"
+            >
+              {STATUS_LABELS[citation.status as keyof typeof STATUS_LABELS]}
+            </Badge>
+            <span className="font-medium">{citation.text}</span>
+          </div>
+          {citation.reason && (
+            <p className="mt-1 text-muted-foreground">{citation.reason}</p>
+          )}
+          {citation.sourceText && citation.status === "mismatched" && (
+            <p className="mt-1 text-muted-foreground italic">
+              {citation.reference}: "{citation.sourceText}"
+            </p>
+          )}
+        </div>
+      ))}
+      <p className="text-[10px] text-muted-foreground">
+        Please check these references against the Quran or hadith collection before relying on them.
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,120 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+
+interface ConversationSummary {
+  text: string;
+  messageCount: number;
+  updatedAt: string;
+}
+
+interface SummaryDetails {
+  summary: ConversationSummary | null;
+  messageCount: number;
+  estimatedTokens: number;
+  thresholdTokens: number;
+}
+
+/**
+ * Shows the running summary the guide sees in place of a long conversation's
+ * older messages, and lets the user rebuild it
+ */
+export function ConversationSummaryDialog({ conversationId }: { conversationId: number }) {
+  const [details, setDetails] = useState<SummaryDetails | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [regenerating, setRegenerating] = useState(false);
+  const { toast } = useToast();
+
+  const loadSummary = async () => {
+    setLoading(true);
+    try {
+      const res = await apiRequest("GET", `/api/conversation/${conversationId}/summary`);
+      setDetails(await res.json());
+    } catch (error) {
+      console.error("Error loading conversation summary:", error);
+      toast({
+        title: "Error",
+        description: "Failed to load the conversation summary.",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const regenerate = async () => {
+    setRegenerating(true);
+    try {
+      const res = await apiRequest("POST", `/api/conversation/${conversationId}/summary/regenerate`);
+      const { summary } = await res.json();
+      setDetails(current => current && { ...current, summary });
+    } catch (error) {
+      console.error("Error regenerating conversation summary:", error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to regenerate the summary.",
+        variant: "destructive",
+      });
+    } finally {
+      setRegenerating(false);
+    }
+  };
+
+  return (
+    <Dialog onOpenChange={(open) => open && loadSummary()}>
+      <DialogTrigger asChild>
+        <Button variant="ghost" size="sm" type="button">
+          Conversation summary
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Conversation summary</DialogTitle>
+          <DialogDescription>
+            In long conversations, earlier messages are condensed into this summary when asking for
+            follow-up questions. All of your messages are still saved.
+          </DialogDescription>
+        </DialogHeader>
+
+        {loading && <p className="text-sm text-muted-foreground">Loading…</p>}
+
+        {details && !loading && (
+          details.summary ? (
+            <div className="space-y-2">
+              <p className="text-sm whitespace-pre-wrap">{details.summary.text}</p>
+              <p className="text-xs text-muted-foreground">
+                Covers the first {details.summary.messageCount} of {details.messageCount} messages
+                · updated {new Date(details.summary.updatedAt).toLocaleString()}
+              </p>
+            </div>
+          ) : (
+            <p className="text-sm text-muted-foreground">
+              This conversation is short enough to be sent in full
+              (about {details.estimatedTokens} of {details.thresholdTokens} tokens), so it has no summary yet.
+            </p>
+          )
+        )}
+
+        <DialogFooter>
+          <Button
+            variant="outline"
+            onClick={regenerate}
+            disabled={loading || regenerating || !details}
+          >
+            {regenerating ? "Regenerating…" : "Regenerate summary"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -4,14 +4,27 @@ import { ScrollArea } from "@/components/ui/scroll-area";
 import { Card, CardContent } from "@/components/ui/card";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest } from "@/lib/queryClient";
+import { postEventStream } from "@/lib/eventStream";
+import { v4 as uuidv4 } from "uuid";
 import { MasjidLoadingAnimation } from "@/components/MasjidLoadingAnimation";
+import { ConversationSummaryDialog } from "@/components/ConversationSummaryDialog";
 import React from "react";
 import { Textarea } from "@/components/ui/textarea";
+import { CitationNotes } from "@/components/CitationNotes";
+import type { CitationCheck } from "@shared/schema";
+import { ChevronLeft, ChevronRight, Pencil, RefreshCw } from "lucide-react";
 
 // Define Message type directly
 export interface Message {
+  /** Set by the server; messages form a tree through their parents */
+  id?: string;
+  parentId?: string | null;
   role: "user" | "assistant";
   content: string;
+  /** Set by the server when canned questions were used */
+  fallback?: boolean;
+  /** Quran and hadith citations in the reply, as checked by the server */
+  citations?: CitationCheck[];
 }
 
 interface ConversationViewProps {
@@ -23,6 +36,13 @@ interface ConversationViewProps {
   onSelectedQuestion?: (question: string) => void;
   isFirstSubmission?: boolean;
   selectedQuestion?: string | null;
+  /** Alternatives for each message of the branch shown, by message id */
+  siblings?: Record<string, string[]>;
+  onSwitchBranch?: (messageId: string) => void;
+  onRegenerate?: (messageId: string) => void;
+  onFork?: (messageId: string, content: string) => void;
+  /** A reply is being regenerated or a branch started */
+  isBranching?: boolean;
 }
 
 // Memoized Follow-up Questions component
@@ -99,19 +119,81 @@ const formatQAMessage = (content: string) => {
   }
 };
 
+// Arrows between the alternatives at one place in the conversation
+const BranchSwitcher = ({
+  messageId,
+  siblingIds,
+  onSwitch,
+  disabled,
+}: {
+  messageId: string;
+  siblingIds: string[];
+  onSwitch: (messageId: string) => void;
+  disabled?: boolean;
+}) => {
+  const index = siblingIds.indexOf(messageId);
+  return (
+    <div className="flex items-center gap-1 text-xs text-muted-foreground">
+      <Button
+        variant="ghost"
+        size="icon"
+        className="h-6 w-6"
+        disabled={disabled || index <= 0}
+        onClick={() => onSwitch(siblingIds[index - 1])}
+        aria-label="Previous version"
+      >
+        <ChevronLeft className="h-3 w-3" />
+      </Button>
+      <span>{index + 1} / {siblingIds.length}</span>
+      <Button
+        variant="ghost"
+        size="icon"
+        className="h-6 w-6"
+        disabled={disabled || index >= siblingIds.length - 1}
+        onClick={() => onSwitch(siblingIds[index + 1])}
+        aria-label="Next version"
+      >
+        <ChevronRight className="h-3 w-3" />
+      </Button>
+    </div>
+  );
+};
+
 // Single message component
 const MessageItem = React.memo(({ 
   message,
   role,
   content,
+  siblingIds,
+  onSwitchBranch,
+  onRegenerate,
+  onFork,
+  disabled,
 }: { 
   message: Message;
   role: "user" | "assistant";
   content: string;
+  siblingIds?: string[];
+  onSwitchBranch?: (messageId: string) => void;
+  onRegenerate?: (messageId: string) => void;
+  onFork?: (messageId: string, content: string) => void;
+  disabled?: boolean;
 }) => {
+  const [editing, setEditing] = useState(false);
+  const [draft, setDraft] = useState(content);
   const formattedContent = role === "user" 
     ? formatQAMessage(content)
     : formatAssistantMessage(content);
+
+  const hasAlternatives = !!message.id && !!siblingIds && siblingIds.length > 1 && !!onSwitchBranch;
+  const canRegenerate = role === "assistant" && !!message.id && !!message.parentId && !!onRegenerate;
+  const canFork = role === "user" && !!message.id && !!onFork;
+
+  const submitFork = () => {
+    if (!draft.trim() || draft === content) return;
+    onFork!(message.id!, draft);
+    setEditing(false);
+  };
   
   return (
     <div className={`flex ${role === "user" ? "justify-end" : "justify-start"}`}>
@@ -123,9 +205,71 @@ const MessageItem = React.memo(({
         } animate-fade-in`}
       >
         <CardContent className="p-3 md:p-4 text-sm md:text-base">
-          <div className="whitespace-pre-wrap">
-            {formattedContent}
-          </div>
+          {editing ? (
+            <div className="space-y-2">
+              <Textarea
+                value={draft}
+                onChange={(e) => setDraft(e.target.value)}
+                className="min-h-20 resize-none text-sm md:text-base"
+              />
+              <div className="flex justify-end gap-2">
+                <Button variant="ghost" size="sm" onClick={() => { setEditing(false); setDraft(content); }}>
+                  Cancel
+                </Button>
+                <Button size="sm" onClick={submitFork} disabled={disabled || !draft.trim() || draft === content}>
+                  Send as new branch
+                </Button>
+              </div>
+            </div>
+          ) : (
+            <div className="whitespace-pre-wrap">
+              {formattedContent}
+            </div>
+          )}
+          {message.fallback && (
+            <p className="mt-2 text-xs text-muted-foreground italic">
+              A personalized reply couldn't be generated, so these are general reflection questions.
+            </p>
+          )}
+          {role === "assistant" && <CitationNotes citations={message.citations} />}
+          {(hasAlternatives || canRegenerate || (canFork && !editing)) && (
+            <div className="mt-2 flex items-center justify-end gap-2">
+              {hasAlternatives && (
+                <BranchSwitcher
+                  messageId={message.id!}
+                  siblingIds={siblingIds!}
+                  onSwitch={onSwitchBranch!}
+                  disabled={disabled}
+                />
+              )}
+              {canRegenerate && (
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-6 w-6"
+                  disabled={disabled}
+                  onClick={() => onRegenerate!(message.id!)}
+                  aria-label="Regenerate reply"
+                  title="Regenerate reply"
+                >
+                  <RefreshCw className="h-3 w-3" />
+                </Button>
+              )}
+              {canFork && !editing && (
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-6 w-6"
+                  disabled={disabled}
+                  onClick={() => { setDraft(content); setEditing(true); }}
+                  aria-label="Edit and start a new branch"
+                  title="Edit and start a new branch"
+                >
+                  <Pencil className="h-3 w-3" />
+                </Button>
+              )}
+            </div>
+          )}
         </CardContent>
       </Card>
     </div>
@@ -141,11 +285,18 @@ export function ConversationView({
   onSelectedQuestion,
   isFirstSubmission = true,
   selectedQuestion: propSelectedQuestion = null,
+  siblings,
+  onSwitchBranch,
+  onRegenerate,
+  onFork,
+  isBranching = false,
 }: ConversationViewProps) {
   // Basic state
   const [response, setResponse] = useState("");
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [selectedQuestion, setSelectedQuestion] = useState<string | null>(propSelectedQuestion);
+  // Partial assistant reply while a streamed response is in flight
+  const [streamingText, setStreamingText] = useState<string | null>(null);
   
   // Debug logging for questions
   useEffect(() => {
@@ -158,6 +309,7 @@ export function ConversationView({
   
   // Refs
   const scrollRef = useRef<HTMLDivElement>(null);
+  const streamAbortRef = useRef<AbortController | null>(null);
   
   // Hooks
   const { toast } = useToast();
@@ -167,7 +319,12 @@ export function ConversationView({
     if (scrollRef.current) {
       scrollRef.current.scrollTop = scrollRef.current.scrollHeight;
     }
-  }, [messages, questions]);
+  }, [messages, questions, streamingText]);
+
+  // Stop any in-flight stream when the view unmounts
+  useEffect(() => {
+    return () => streamAbortRef.current?.abort();
+  }, []);
 
   // Handle question selection
   const handleQuestionSelect = useCallback((question: string) => {
@@ -219,21 +376,61 @@ export function ConversationView({
         onNewMessage(updatedMessages);
       }
       
-      // Make API call to get LLM response
-      let apiResponse;
+      // Sent with both attempts so the server can tell a retry from a new turn
+      const clientMessageId = uuidv4();
+
+      // Stream the LLM response, rendering partial text as it arrives
+      const controller = new AbortController();
+      streamAbortRef.current = controller;
+      setStreamingText("");
+
+      let data: any = null;
       try {
-        console.log(`[ConversationView Debug] Submitting response for conversation ${conversationId}`);
-        apiResponse = await apiRequest(
-          "POST",
+        console.log(`[ConversationView Debug] Streaming response for conversation ${conversationId}`);
+        await postEventStream(
           `/api/conversation/${conversationId}/respond`,
-          { content: messageContent }
+          { content: messageContent, clientMessageId },
+          {
+            signal: controller.signal,
+            onEvent: ({ event, data: payload }) => {
+              if (event === "token") {
+                setStreamingText(prev => (prev || "") + payload.delta);
+              } else if (event === "done") {
+                data = payload;
+              } else if (event === "error") {
+                console.error("[ConversationView Debug] Stream error event:", payload);
+              }
+            },
+          }
         );
-      } catch (respondError) {
-        console.error("[ConversationView Debug] Error with /respond endpoint:", respondError);
-        throw new Error("Failed to get response from server");
+      } catch (streamError) {
+        console.error("[ConversationView Debug] Stream interrupted:", streamError);
+      }
+
+      // Component unmounted mid-stream; nothing left to update
+      if (controller.signal.aborted) return;
+
+      // If the stream dropped before "done", retry with a regular request. The
+      // reply may already have been saved; the server then returns it rather
+      // than adding the turn again.
+      if (!data) {
+        console.warn("[ConversationView Debug] Stream ended without a result, falling back to /respond");
+        setStreamingText(null);
+        
+        let apiResponse;
+        try {
+          apiResponse = await apiRequest(
+            "POST",
+            `/api/conversation/${conversationId}/respond`,
+            { content: messageContent, clientMessageId }
+          );
+        } catch (respondError) {
+          console.error("[ConversationView Debug] Error with /respond endpoint:", respondError);
+          throw new Error("Failed to get response from server");
+        }
+        
+        data = await apiResponse.json();
       }
-      
-      const data = await apiResponse.json();
       console.log("[ConversationView Debug] Response data:", data);
       
       if (!data || (!data.conversation && !data.messages)) {
@@ -255,9 +452,10 @@ export function ConversationView({
       
       // Create assistant message with parsed content
       let parsedUnderstanding = "";
+      let lastAssistantMessage: Message | undefined;
       if (data.conversation?.messages) {
         // Get the last assistant message from the conversation
-        const lastAssistantMessage = data.conversation.messages
+        lastAssistantMessage = data.conversation.messages
           .filter((msg: Message) => msg.role === "assistant")
           .pop();
         
@@ -267,14 +465,16 @@ export function ConversationView({
             parsedUnderstanding = parsedContent.understanding || "";
           } catch (e) {
             console.error("[ConversationView Debug] Error parsing assistant message content:", e);
-            parsedUnderstanding = lastAssistantMessage.content;
+            parsedUnderstanding = lastAssistantMessage!.content;
           }
         }
       }
       
       const assistantMessage: Message = {
         role: "assistant" as const,
-        content: parsedUnderstanding || understanding || ""
+        content: parsedUnderstanding || understanding || "",
+        fallback: lastAssistantMessage?.fallback ?? data.fallback,
+        citations: lastAssistantMessage?.citations ?? data.citations
       };
       
       // Update messages and questions
@@ -294,6 +494,8 @@ export function ConversationView({
             id: conversationId,
             messages: furtherUpdatedMessages
           },
+          // The saved conversation, with the ids that place the new turns in the tree
+          storedConversation: data.conversation,
           questions: newQuestions,
           understanding: understanding
         });
@@ -326,6 +528,8 @@ export function ConversationView({
         onNewMessage(messages);
       }
     } finally {
+      streamAbortRef.current = null;
+      setStreamingText(null);
       setIsSubmitting(false);
     }
   };
@@ -336,14 +540,30 @@ export function ConversationView({
         <div className="flex flex-col space-y-4 md:space-y-5 py-2 md:py-4 mb-2 md:mb-4">
           {messages.map((message, index) => (
             <MessageItem
-              key={`${conversationId}-${index}-${message.role}`}
+              key={message.id ?? `${conversationId}-${index}-${message.role}`}
               message={message}
               role={message.role}
               content={message.content}
+              siblingIds={message.id ? siblings?.[message.id] : undefined}
+              onSwitchBranch={onSwitchBranch}
+              onRegenerate={onRegenerate}
+              onFork={onFork}
+              disabled={isSubmitting || isBranching}
             />
           ))}
 
-          {isSubmitting && !isFirstSubmission && (
+          {isSubmitting && streamingText ? (
+            <div className="flex justify-start">
+              <Card className="max-w-[90%] sm:max-w-[80%] bg-muted">
+                <CardContent className="p-3 md:p-4 text-sm md:text-base">
+                  <div className="whitespace-pre-wrap">
+                    {streamingText}
+                    <span className="inline-block w-2 h-4 ml-0.5 align-text-bottom bg-primary/50 animate-pulse" />
+                  </div>
+                </CardContent>
+              </Card>
+            </div>
+          ) : (isBranching || (isSubmitting && !isFirstSubmission)) && (
             <div className="flex justify-start w-full mt-2 md:mt-4">
               <MasjidLoadingAnimation />
             </div>
@@ -390,7 +610,8 @@ export function ConversationView({
             }}
           />
           
-          <div className="flex justify-end">
+          <div className="flex justify-end gap-2">
+            {conversationId && <ConversationSummaryDialog conversationId={conversationId} />}
             <Button type="submit" disabled={!response.trim()}>
               Send
             </Button>
@@ -0,0 +1,112 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { useToast } from "@/hooks/use-toast";
+import { reflectionService, StoredConversation } from "@/services/reflectionService";
+
+/**
+ * Lets the user rename a conversation and change its summary and topic tags,
+ * or have them generated again
+ */
+export function EditLabelsDialog({
+  conversation,
+  onSaved,
+}: {
+  conversation: Pick<StoredConversation, "id" | "title" | "synopsis" | "tags">;
+  onSaved: (conversation: StoredConversation) => void;
+}) {
+  const [open, setOpen] = useState(false);
+  const [title, setTitle] = useState("");
+  const [synopsis, setSynopsis] = useState("");
+  // Comma-separated while editing
+  const [tags, setTags] = useState("");
+  const [saving, setSaving] = useState(false);
+  const { toast } = useToast();
+
+  const reset = () => {
+    setTitle(conversation.title ?? "");
+    setSynopsis(conversation.synopsis ?? "");
+    setTags((conversation.tags ?? []).join(", "));
+  };
+
+  const run = async (action: () => Promise<StoredConversation>, failure: string) => {
+    setSaving(true);
+    try {
+      onSaved(await action());
+      setOpen(false);
+    } catch (error) {
+      console.error(failure, error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : `${failure}.`,
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const save = () => run(() => reflectionService.updateLabels(conversation.id, {
+    title,
+    synopsis: synopsis.trim() || null,
+    tags: tags.split(",").map((tag) => tag.trim()).filter(Boolean),
+  }), "Failed to save the title and tags");
+
+  const regenerate = () => run(
+    () => reflectionService.regenerateLabels(conversation.id),
+    "Failed to generate a new title"
+  );
+
+  return (
+    <Dialog open={open} onOpenChange={(next) => { setOpen(next); if (next) reset(); }}>
+      <DialogTrigger asChild>
+        <Button variant="ghost" size="sm" type="button">
+          Rename
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Title and tags</DialogTitle>
+          <DialogDescription>
+            These are suggested as your conversation grows. Anything you change here is kept.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-1">
+            <Label htmlFor="conversation-title">Title</Label>
+            <Input id="conversation-title" value={title} maxLength={120} onChange={(e) => setTitle(e.target.value)} />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="conversation-synopsis">Summary</Label>
+            <Textarea id="conversation-synopsis" value={synopsis} maxLength={500} rows={3} onChange={(e) => setSynopsis(e.target.value)} />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="conversation-tags">Tags</Label>
+            <Input id="conversation-tags" value={tags} placeholder="prayer, patience" onChange={(e) => setTags(e.target.value)} />
+          </div>
+        </div>
+
+        <DialogFooter className="gap-2">
+          <Button type="button" variant="outline" onClick={regenerate} disabled={saving}>
+            Suggest again
+          </Button>
+          <Button type="button" onClick={save} disabled={!title.trim() || saving}>
+            {saving ? "Saving..." : "Save"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
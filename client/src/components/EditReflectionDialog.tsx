@@ -0,0 +1,161 @@
+import { useState } from "react";
+import type { RevisionView } from "@shared/schema";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Textarea } from "@/components/ui/textarea";
+import { RevisionHistory } from "@/components/RevisionHistory";
+import { useToast } from "@/hooks/use-toast";
+import { reflectionService, ReflectionDetail, ReflectionEditResult } from "@/services/reflectionService";
+
+/**
+ * Lets the user correct a reflection (the transcription, for a voice
+ * reflection) and browse or restore earlier versions of it
+ */
+export function EditReflectionDialog({
+  reflectionId,
+  onSaved,
+}: {
+  reflectionId: number;
+  onSaved: (result: ReflectionEditResult) => void;
+}) {
+  const [open, setOpen] = useState(false);
+  const [reflection, setReflection] = useState<ReflectionDetail["reflection"] | null>(null);
+  const [text, setText] = useState("");
+  const [regenerateFollowUp, setRegenerateFollowUp] = useState(false);
+  const [revisions, setRevisions] = useState<RevisionView[]>([]);
+  const [saving, setSaving] = useState(false);
+  const [restoringId, setRestoringId] = useState<number | null>(null);
+  const { toast } = useToast();
+
+  const isAudio = reflection?.type === "audio";
+  // The server refuses edits until the recording has been transcribed
+  const transcribing = reflection?.transcriptionStatus === "pending";
+
+  const load = async () => {
+    try {
+      const [detail, history] = await Promise.all([
+        reflectionService.getReflection(reflectionId),
+        reflectionService.getRevisions(reflectionId),
+      ]);
+      setReflection(detail.reflection);
+      setText(detail.reflection.type === "audio" ? detail.reflection.transcription ?? "" : detail.reflection.content);
+      setRevisions(history);
+    } catch (error) {
+      console.error("Error loading reflection for editing:", error);
+      toast({
+        title: "Error",
+        description: "Failed to load this reflection.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const applyResult = (result: ReflectionEditResult) => {
+    setReflection(result.reflection);
+    setText(result.reflection.type === "audio" ? result.reflection.transcription ?? "" : result.reflection.content);
+    if (result.revision) setRevisions(current => [result.revision!, ...current]);
+    onSaved(result);
+  };
+
+  const save = async () => {
+    setSaving(true);
+    try {
+      const result = await reflectionService.updateReflection(reflectionId, {
+        ...(isAudio ? { transcription: text } : { content: text }),
+        regenerateFollowUp,
+      });
+      applyResult(result);
+      setOpen(false);
+    } catch (error) {
+      console.error("Error saving reflection edit:", error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to save your changes.",
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const restore = async (revision: RevisionView) => {
+    setRestoringId(revision.id);
+    try {
+      applyResult(await reflectionService.restoreRevision(reflectionId, revision.id));
+    } catch (error) {
+      console.error("Error restoring reflection revision:", error);
+      toast({
+        title: "Error",
+        description: "Failed to restore that version.",
+        variant: "destructive",
+      });
+    } finally {
+      setRestoringId(null);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(next) => { setOpen(next); if (next) load(); }}>
+      <DialogTrigger asChild>
+        <Button variant="ghost" size="sm" type="button">
+          Edit reflection
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Edit reflection</DialogTitle>
+          <DialogDescription>
+            {transcribing
+              ? "Your voice reflection is still being transcribed. You can correct it once it has finished."
+              : isAudio
+              ? "Correct the transcription of your voice reflection. Earlier versions are kept."
+              : "Correct your reflection. Earlier versions are kept."}
+          </DialogDescription>
+        </DialogHeader>
+
+        <Tabs defaultValue="edit">
+          <TabsList>
+            <TabsTrigger value="edit">Edit</TabsTrigger>
+            <TabsTrigger value="history">History ({revisions.length})</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="edit" className="space-y-3">
+            <Textarea
+              value={text}
+              onChange={(e) => setText(e.target.value)}
+              rows={8}
+              disabled={!reflection || transcribing}
+            />
+            <label className="flex items-center gap-2 text-sm">
+              <input
+                type="checkbox"
+                checked={regenerateFollowUp}
+                onChange={(e) => setRegenerateFollowUp(e.target.checked)}
+              />
+              Ask new follow-up questions for the edited text
+            </label>
+          </TabsContent>
+
+          <TabsContent value="history" className="max-h-[50vh] overflow-y-auto">
+            <RevisionHistory revisions={revisions} onRestore={restore} restoringId={restoringId} />
+          </TabsContent>
+        </Tabs>
+
+        <DialogFooter>
+          <Button type="button" onClick={save} disabled={!reflection || transcribing || !text.trim() || saving}>
+            {saving ? "Saving..." : "Save changes"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,191 @@
+import { useEffect, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import type { ExportFormat, ExportSource } from "@shared/schema";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { useToast } from "@/hooks/use-toast";
+import { exportService } from "@/services/exportService";
+
+const FORMATS: Array<{ value: ExportFormat; label: string; description: string }> = [
+  { value: "markdown", label: "Markdown", description: "Plain text that opens in any notes app" },
+  { value: "pdf", label: "PDF", description: "Ready to print or keep. Latin script only; use Markdown for Arabic text" },
+  { value: "json", label: "JSON", description: "Everything, for backups and other apps" },
+];
+
+const SOURCES: Array<{ value: ExportSource; label: string }> = [
+  { value: "reflections", label: "Reflections" },
+  { value: "conversations", label: "Conversations" },
+  { value: "halaqas", label: "Halaqas" },
+  { value: "wirds", label: "Wirds" },
+];
+
+/**
+ * Download a conversation (when `conversationId` is given) or everything in a
+ * date range. What exports include follows the user's history and privacy
+ * settings, which are changed on the settings and profile pages.
+ */
+export function ExportDialog({
+  open,
+  onOpenChange,
+  conversationId,
+  initialFrom = "",
+  initialTo = "",
+}: {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  conversationId?: number;
+  /** Inclusive dates, YYYY-MM-DD */
+  initialFrom?: string;
+  initialTo?: string;
+}) {
+  const { toast } = useToast();
+  const [format, setFormat] = useState<ExportFormat>("markdown");
+  const [sources, setSources] = useState<ExportSource[]>(SOURCES.map((source) => source.value));
+  const [from, setFrom] = useState(initialFrom);
+  const [to, setTo] = useState(initialTo);
+  const [isDownloading, setIsDownloading] = useState(false);
+
+  // Start from the history filters each time the dialog opens
+  useEffect(() => {
+    if (open) {
+      setFrom(initialFrom);
+      setTo(initialTo);
+    }
+  }, [open, initialFrom, initialTo]);
+
+  const settings = useQuery({
+    queryKey: ["export", "settings"],
+    queryFn: () => exportService.getSettings(),
+    enabled: open,
+  });
+
+  const toggleSource = (source: ExportSource, checked: boolean) => {
+    setSources(checked ? [...sources, source] : sources.filter((other) => other !== source));
+  };
+
+  const handleDownload = async () => {
+    setIsDownloading(true);
+    try {
+      if (conversationId) {
+        await exportService.downloadConversation(conversationId, format);
+      } else {
+        await exportService.downloadJournal(format, {
+          sources,
+          ...(from && { from }),
+          ...(to && { to }),
+        });
+      }
+      onOpenChange(false);
+    } catch (error) {
+      console.error("Export failed:", error);
+      toast({
+        title: "Export failed",
+        description: error instanceof Error ? error.message : "Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsDownloading(false);
+    }
+  };
+
+  const privacy = settings.data;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>{conversationId ? "Export conversation" : "Export your journal"}</DialogTitle>
+          <DialogDescription>
+            Audio recordings are never included. Exports are made on our server and go straight to your device.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-5 text-sm">
+          <RadioGroup value={format} onValueChange={(value) => setFormat(value as ExportFormat)}>
+            {FORMATS.map((option) => (
+              <div key={option.value} className="flex items-start gap-2">
+                <RadioGroupItem value={option.value} id={`export-format-${option.value}`} className="mt-0.5" />
+                <Label htmlFor={`export-format-${option.value}`} className="font-normal">
+                  <span className="font-medium">{option.label}</span>
+                  <span className="block text-xs text-muted-foreground">{option.description}</span>
+                </Label>
+              </div>
+            ))}
+          </RadioGroup>
+
+          {!conversationId && (
+            <>
+              <div className="grid grid-cols-2 gap-2">
+                {SOURCES.map((source) => (
+                  <div key={source.value} className="flex items-center gap-2">
+                    <Checkbox
+                      id={`export-source-${source.value}`}
+                      checked={sources.includes(source.value)}
+                      onCheckedChange={(checked) => toggleSource(source.value, checked === true)}
+                    />
+                    <Label htmlFor={`export-source-${source.value}`} className="font-normal">{source.label}</Label>
+                  </div>
+                ))}
+              </div>
+
+              <div className="flex flex-wrap items-center gap-4">
+                <label className="flex items-center gap-2">
+                  From
+                  <input
+                    type="date"
+                    value={from}
+                    max={to || undefined}
+                    onChange={(e) => setFrom(e.target.value)}
+                    className="px-2 py-1 rounded-md border bg-white dark:bg-gray-800"
+                  />
+                </label>
+                <label className="flex items-center gap-2">
+                  To
+                  <input
+                    type="date"
+                    value={to}
+                    min={from || undefined}
+                    onChange={(e) => setTo(e.target.value)}
+                    className="px-2 py-1 rounded-md border bg-white dark:bg-gray-800"
+                  />
+                </label>
+              </div>
+              <p className="text-xs text-muted-foreground -mt-3">Leave a date empty to export from the beginning or up to today.</p>
+            </>
+          )}
+
+          {privacy && (!privacy.includeMood || !privacy.includeAssistantReplies) && (
+            <ul className="space-y-1 border-t pt-4 text-xs text-muted-foreground">
+              {!privacy.includeAssistantReplies && (
+                <li>SahabAI's replies are left out because saving conversation history is off.</li>
+              )}
+              {!privacy.includeMood && (
+                <li>Mood check-ins are left out because personalization is off in your privacy settings.</li>
+              )}
+            </ul>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>Cancel</Button>
+          <Button
+            onClick={handleDownload}
+            disabled={isDownloading || !privacy || (!conversationId && sources.length === 0)}
+          >
+            {isDownloading ? "Preparing..." : "Download"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
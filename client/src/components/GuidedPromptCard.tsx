@@ -0,0 +1,53 @@
+import type { GuidedPrompt, PromptSeason } from "@shared/schema";
+import { Button } from "@/components/ui/button";
+
+const SEASON_LABELS: Record<PromptSeason, string> = {
+  ramadan: "Ramadan",
+  "dhul-hijjah": "Dhul Hijjah",
+  muharram: "Muharram",
+};
+
+function categoryLabel(category: GuidedPrompt["category"]): string {
+  return category.charAt(0).toUpperCase() + category.slice(1).replace("-", " ");
+}
+
+/**
+ * A guided prompt offered above the reflection input. Once the user chooses
+ * to reflect on it, it stays shown as the question they're answering until
+ * they clear it.
+ */
+export function GuidedPromptCard({
+  prompt,
+  active,
+  onUse,
+  onClear,
+  disabled = false,
+}: {
+  prompt: GuidedPrompt;
+  active: boolean;
+  onUse: () => void;
+  onClear: () => void;
+  disabled?: boolean;
+}) {
+  return (
+    <div className="rounded-lg border bg-muted/40 p-4 space-y-2">
+      <div className="flex items-center justify-between text-xs text-muted-foreground">
+        <span>
+          {active ? "Reflecting on" : "Prompt of the day"} · {categoryLabel(prompt.category)}
+          {prompt.season && ` · ${SEASON_LABELS[prompt.season]}`}
+        </span>
+        {active && (
+          <button type="button" className="hover:underline" onClick={onClear} disabled={disabled}>
+            Write freely instead
+          </button>
+        )}
+      </div>
+      <p className="text-sm font-medium">{prompt.text}</p>
+      {!active && (
+        <Button variant="outline" size="sm" onClick={onUse} disabled={disabled}>
+          Reflect on this
+        </Button>
+      )}
+    </div>
+  );
+}
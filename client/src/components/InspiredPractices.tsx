@@ -0,0 +1,56 @@
+import { useQuery } from "@tanstack/react-query";
+import { Progress } from "@/components/ui/progress";
+import { reflectionService } from "@/services/reflectionService";
+
+interface InspiredPracticesProps {
+  conversationId: number;
+}
+
+export function inspiredPracticesKey(conversationId: number) {
+  return ["conversation-practices", conversationId];
+}
+
+function formatDay(day: string): string {
+  return new Date(`${day}T00:00:00`).toLocaleDateString();
+}
+
+/**
+ * The wird practices added from this reflection and how consistently they
+ * have been done since
+ */
+export function InspiredPractices({ conversationId }: InspiredPracticesProps) {
+  const { data: practices = [], isLoading } = useQuery({
+    queryKey: inspiredPracticesKey(conversationId),
+    queryFn: () => reflectionService.getInspiredPractices(conversationId),
+  });
+
+  if (isLoading) return null;
+
+  if (practices.length === 0) {
+    return (
+      <p className="text-sm text-muted-foreground">
+        Practices you add to your wird from these suggestions will show here with how consistently you keep them.
+      </p>
+    );
+  }
+
+  return (
+    <ul className="space-y-4">
+      {practices.map((practice) => (
+        <li key={practice.name} className="space-y-1">
+          <div className="flex items-baseline justify-between gap-2">
+            <span className="font-medium text-sm">{practice.name}</span>
+            <span className="text-xs text-muted-foreground whitespace-nowrap">
+              {Math.round(practice.consistency * 100)}%
+            </span>
+          </div>
+          <Progress value={practice.consistency * 100} className="h-2" />
+          <p className="text-xs text-muted-foreground">
+            Done {practice.daysDone} of {practice.days} {practice.days === 1 ? "day" : "days"} since {formatDay(practice.since)}
+            {practice.lastDone && ` · last done ${formatDay(practice.lastDone)}`}
+          </p>
+        </li>
+      ))}
+    </ul>
+  );
+}
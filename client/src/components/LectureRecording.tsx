@@ -0,0 +1,127 @@
+import { useRef, useState } from "react";
+import { useQueryClient } from "@tanstack/react-query";
+import { Upload } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Progress } from "@/components/ui/progress";
+import { TranscriptPlayer } from "@/components/TranscriptPlayer";
+import { useToast } from "@/hooks/use-toast";
+import { halaqaService } from "@/services/halaqaService";
+import { describeProgress, TranscriptionService } from "@/services/transcriptionService";
+import { uploadService } from "@/services/uploadService";
+import type { TranscriptionJobView, TranscriptionStatus } from "@shared/schema";
+
+// A lecture takes a while to transcribe; no need to ask every two seconds
+const transcriptionService = new TranscriptionService(5000);
+// A long lecture waits behind other jobs and is transcribed a part at a time
+const LECTURE_MAX_WAIT_MS = 4 * 60 * 60 * 1000;
+
+type Stage =
+  | { kind: "idle" }
+  | { kind: "uploading"; sent: number; total: number }
+  | { kind: "transcribing"; job: TranscriptionJobView | null };
+
+interface LectureRecordingProps {
+  halaqaId: number;
+  hasRecording: boolean;
+  /** How far the recording's transcription had got when the halaqa was loaded */
+  status?: TranscriptionStatus | null;
+  /** Called once a newly added recording is transcribed */
+  onTranscribed?: () => void;
+}
+
+/**
+ * A recording of the halaqa itself: upload it, however long, and follow its
+ * transcription, then play it back alongside the transcript
+ */
+export function LectureRecording({ halaqaId, hasRecording, status, onTranscribed }: LectureRecordingProps) {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [stage, setStage] = useState<Stage>(status === "pending" ? { kind: "transcribing", job: null } : { kind: "idle" });
+  const [failed, setFailed] = useState(status === "failed");
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  const handleFile = async (file: File) => {
+    setFailed(false);
+    try {
+      setStage({ kind: "uploading", sent: 0, total: file.size });
+      const upload = await uploadService.upload(file, (sent, total) => setStage({ kind: "uploading", sent, total }));
+
+      const job = await halaqaService.attachRecording(halaqaId, upload.id);
+      setStage({ kind: "transcribing", job });
+      await transcriptionService.waitForJob(
+        job.id,
+        (progress) => setStage({ kind: "transcribing", job: progress }),
+        { maxWaitMs: LECTURE_MAX_WAIT_MS }
+      );
+
+      setStage({ kind: "idle" });
+      queryClient.invalidateQueries({ queryKey: ["halaqa-transcript", halaqaId] });
+      queryClient.invalidateQueries({ queryKey: ["halaqa-recording-url", halaqaId] });
+      toast({
+        title: "Lecture transcribed",
+        description: "Your insights can now draw on what was said in the halaqa.",
+      });
+      onTranscribed?.();
+    } catch (error) {
+      console.error("Error recording lecture:", error);
+      setStage({ kind: "idle" });
+      setFailed(true);
+      toast({
+        title: "Recording failed",
+        description: error instanceof Error ? error.message : "Could not add the recording. Choosing the file again resumes the upload.",
+        variant: "destructive",
+      });
+    } finally {
+      if (inputRef.current) inputRef.current.value = "";
+    }
+  };
+
+  const percent = stage.kind === "uploading" && stage.total > 0 ? Math.floor((stage.sent / stage.total) * 100) : 0;
+
+  return (
+    <Card className="mb-8">
+      <CardHeader className="pb-3">
+        <CardTitle>Lecture Recording</CardTitle>
+        <CardDescription>
+          Add a recording of the halaqa and its transcript will inform your insights. Long lectures are fine; if an upload is interrupted, choose the same file again to pick up where it stopped.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <TranscriptPlayer halaqaId={halaqaId} />
+
+        {stage.kind === "uploading" && (
+          <div className="space-y-2">
+            <Progress value={percent} className="h-2" />
+            <p className="text-sm text-muted-foreground">Uploading recording ({percent}%)...</p>
+          </div>
+        )}
+
+        {stage.kind === "transcribing" && (
+          <p className="text-sm text-muted-foreground">
+            {stage.job ? describeProgress(stage.job) : "Transcribing the lecture. Its transcript appears here when it is ready."}
+          </p>
+        )}
+
+        {failed && stage.kind === "idle" && (
+          <p className="text-sm text-destructive">The recording couldn't be transcribed. Try adding it again.</p>
+        )}
+
+        <input
+          ref={inputRef}
+          type="file"
+          accept="audio/*"
+          className="hidden"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            if (file) void handleFile(file);
+          }}
+        />
+        <Button variant="outline" onClick={() => inputRef.current?.click()} disabled={stage.kind === "uploading" || (stage.kind === "transcribing" && stage.job !== null)}>
+          <Upload className="mr-2 h-4 w-4" />
+          {hasRecording ? "Replace recording" : "Add recording"}
+        </Button>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,85 @@
+import type { Mood } from "@shared/schema";
+import { Slider } from "@/components/ui/slider";
+import { MOODS, MOOD_INTENSITY_MAX, MOOD_LABELS } from "@/lib/moods";
+import { cn } from "@/lib/utils";
+
+export interface MoodValue {
+  mood: Mood;
+  intensity: number;
+}
+
+const DEFAULT_INTENSITY = 5;
+
+/**
+ * Mood picker saved with a reflection: a mood and how strongly it's felt.
+ * `suggested` marks a value that was pre-filled from the reflection text
+ * rather than picked by the user.
+ */
+export function MoodCheckIn({
+  value,
+  onChange,
+  suggested = false,
+  disabled = false,
+}: {
+  value: MoodValue | null;
+  onChange: (value: MoodValue | null) => void;
+  suggested?: boolean;
+  disabled?: boolean;
+}) {
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between text-sm">
+        <span className="font-medium">How are you feeling?</span>
+        {value && (
+          <button
+            type="button"
+            className="text-xs text-muted-foreground hover:underline"
+            onClick={() => onChange(null)}
+            disabled={disabled}
+          >
+            Skip
+          </button>
+        )}
+      </div>
+
+      <div className="flex flex-wrap gap-2">
+        {MOODS.map((mood) => (
+          <button
+            key={mood}
+            type="button"
+            disabled={disabled}
+            onClick={() => onChange({ mood, intensity: value?.intensity ?? DEFAULT_INTENSITY })}
+            className={cn(
+              "px-3 py-1 rounded-full border text-sm transition-colors",
+              value?.mood === mood ? "bg-primary text-primary-foreground border-primary" : "hover:bg-muted"
+            )}
+          >
+            {MOOD_LABELS[mood].emoji} {MOOD_LABELS[mood].label}
+          </button>
+        ))}
+      </div>
+
+      {value && (
+        <div className="space-y-1">
+          <div className="flex justify-between text-xs text-muted-foreground">
+            <span>Intensity</span>
+            <span>{value.intensity} / {MOOD_INTENSITY_MAX}</span>
+          </div>
+          <Slider
+            min={1}
+            max={MOOD_INTENSITY_MAX}
+            step={1}
+            value={[value.intensity]}
+            onValueChange={([intensity]) => onChange({ ...value, intensity })}
+            disabled={disabled}
+          />
+          {suggested && (
+            <p className="text-xs text-muted-foreground italic">
+              Suggested from your reflection. Change it if it doesn't fit.
+            </p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,98 @@
+import { Bar, BarChart, CartesianGrid, Line, LineChart, ReferenceLine, XAxis, YAxis } from "recharts";
+import type { MoodAnalytics } from "@shared/schema";
+import { ChartConfig, ChartContainer, ChartTooltip, ChartTooltipContent } from "@/components/ui/chart";
+import { MOOD_INTENSITY_MAX, MOOD_LABELS, MOODS } from "@/lib/moods";
+
+const WEEKDAYS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+const chartConfig = {
+  averageScore: {
+    label: "Mood",
+    color: "hsl(var(--primary))",
+  },
+} satisfies ChartConfig;
+
+function formatScore(score: number | null): string {
+  if (score === null) return "–";
+  return score > 0 ? `+${score}` : String(score);
+}
+
+function describeCorrelation(coefficient: number | null): string {
+  if (coefficient === null) return "Not enough days with both a mood check-in and a wird yet.";
+  const strength = Math.abs(coefficient) >= 0.5 ? "strongly" : Math.abs(coefficient) >= 0.2 ? "somewhat" : "barely";
+  if (strength === "barely") return "Your mood and wird completion barely move together so far.";
+  return coefficient > 0
+    ? `Your mood is ${strength} better on days you complete more of your wird.`
+    : `Your mood is ${strength} lower on days you complete more of your wird.`;
+}
+
+/**
+ * Mood check-ins charted over time and by weekday, with how mood tracks wird
+ * completion. Scores run from -10 (strongly negative) to +10.
+ */
+export function MoodTrends({ analytics }: { analytics: MoodAnalytics }) {
+  const { overTime, byWeekday, counts, wirdCorrelation } = analytics;
+
+  if (overTime.length === 0) {
+    return (
+      <p className="text-gray-600 dark:text-gray-300">
+        No mood check-ins yet. Pick how you're feeling when you write a reflection to see your trends here.
+      </p>
+    );
+  }
+
+  const topMoods = MOODS.filter((mood) => counts[mood] > 0).sort((a, b) => counts[b] - counts[a]).slice(0, 3);
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h3 className="text-sm font-medium mb-2">Mood over time</h3>
+        <ChartContainer config={chartConfig} className="h-48 w-full aspect-auto">
+          <LineChart data={overTime} margin={{ left: 0, right: 8 }}>
+            <CartesianGrid vertical={false} />
+            <XAxis dataKey="date" tickLine={false} axisLine={false} tickFormatter={(date: string) => date.slice(5)} />
+            <YAxis domain={[-MOOD_INTENSITY_MAX, MOOD_INTENSITY_MAX]} tickLine={false} axisLine={false} width={28} />
+            <ReferenceLine y={0} strokeDasharray="3 3" />
+            <ChartTooltip content={<ChartTooltipContent />} />
+            <Line dataKey="averageScore" type="monotone" stroke="var(--color-averageScore)" strokeWidth={2} dot={false} />
+          </LineChart>
+        </ChartContainer>
+      </div>
+
+      <div>
+        <h3 className="text-sm font-medium mb-2">Mood by weekday</h3>
+        <ChartContainer config={chartConfig} className="h-40 w-full aspect-auto">
+          <BarChart data={byWeekday.map((day) => ({ ...day, name: WEEKDAYS[day.weekday] }))}>
+            <CartesianGrid vertical={false} />
+            <XAxis dataKey="name" tickLine={false} axisLine={false} />
+            <YAxis domain={[-MOOD_INTENSITY_MAX, MOOD_INTENSITY_MAX]} tickLine={false} axisLine={false} width={28} />
+            <ReferenceLine y={0} />
+            <ChartTooltip content={<ChartTooltipContent />} />
+            <Bar dataKey="averageScore" fill="var(--color-averageScore)" radius={4} />
+          </BarChart>
+        </ChartContainer>
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-4 text-sm">
+        <div>
+          <h3 className="font-medium mb-1">Most frequent</h3>
+          <ul className="text-gray-600 dark:text-gray-300">
+            {topMoods.map((mood) => (
+              <li key={mood}>
+                {MOOD_LABELS[mood].emoji} {MOOD_LABELS[mood].label} · {counts[mood]}
+              </li>
+            ))}
+          </ul>
+        </div>
+        <div>
+          <h3 className="font-medium mb-1">Mood and wird</h3>
+          <p className="text-gray-600 dark:text-gray-300">{describeCorrelation(wirdCorrelation.coefficient)}</p>
+          <p className="text-xs text-gray-500 mt-1">
+            Average {formatScore(wirdCorrelation.withCompletedWird.averageScore)} on days with every practice completed,{" "}
+            {formatScore(wirdCorrelation.withoutCompletedWird.averageScore)} otherwise.
+          </p>
+        </div>
+      </div>
+    </div>
+  );
+}
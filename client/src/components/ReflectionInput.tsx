@@ -1,11 +1,19 @@
 import { useState, useEffect } from "react";
 import { useLocation } from "wouter"; // Replace Next.js router with wouter
+import { useQuery } from "@tanstack/react-query";
 import { Button } from "@/components/ui/button";
 import { Tabs, TabsList, TabsTrigger, TabsContent } from "@/components/ui/tabs";
 import { Textarea } from "@/components/ui/textarea";
 import { useToast } from "@/hooks/use-toast";
 import { AudioRecorder } from "@/components/AudioRecorder";
 import { useReflectionService } from "@/services/reflectionService";
+import { MoodCheckIn, MoodValue } from "@/components/MoodCheckIn";
+import { suggestMood } from "@/lib/reflectionAnalysis";
+import { GuidedPromptCard } from "@/components/GuidedPromptCard";
+import { promptService } from "@/services/promptService";
+import { TranscriptionService, describeProgress } from "@/services/transcriptionService";
+
+const transcriptionService = new TranscriptionService();
 
 export interface ReflectionInputProps {
   onReflectionComplete: (data: any) => void;
@@ -25,12 +33,27 @@ export function ReflectionInput({
   const [text, setText] = useState("");
   const [activeTab, setActiveTab] = useState("text");
   const [localLoading, setLocalLoading] = useState(false);
+  // undefined until the user picks (or skips) a mood; until then it is
+  // suggested from what they wrote
+  const [moodChoice, setMoodChoice] = useState<MoodValue | null | undefined>(undefined);
+  // Whether the reflection answers the prompt of the day
+  const [usingPrompt, setUsingPrompt] = useState(false);
+  // Where the background transcription of a voice reflection has got to
+  const [transcriptionProgress, setTranscriptionProgress] = useState<string | null>(null);
   const { toast } = useToast();
   const [, setLocation] = useLocation(); // Use wouter's location setter
   
   // Get the personalized reflection service
   const { submitReflection, isPersonalizationEnabled } = useReflectionService();
 
+  // Signed-out users just don't get a prompt
+  const promptOfTheDay = useQuery({
+    queryKey: ["prompts", "today"],
+    queryFn: () => promptService.getPromptOfTheDay(),
+    retry: false,
+  });
+  const activePrompt = usingPrompt ? promptOfTheDay.data?.prompt : undefined;
+
   // Use a single loading state, preferring the external one if provided
   const loading = setIsLoading ? isLoading : localLoading;
   const updateLoading = setIsLoading || setLocalLoading;
@@ -43,6 +66,8 @@ export function ReflectionInput({
     }
   };
 
+  const mood = moodChoice === undefined ? suggestMood(text) : moodChoice;
+
   const handleTextSubmit = async () => {
     if (!text.trim()) {
       toast({
@@ -58,7 +83,7 @@ export function ReflectionInput({
       console.log(`Submitting ${isPersonalizationEnabled() ? "personalized" : "standard"} text reflection`);
       
       // Use our personalized reflection service
-      const response = await submitReflection(text);
+      const response = await submitReflection(text, mood, activePrompt?.id);
       console.log("API response:", response);
       
       // Handle the API response which could be in different formats
@@ -83,6 +108,8 @@ export function ReflectionInput({
       // This ensures that top-level fields like understanding and questions are available
       onReflectionComplete(response);
       setText("");
+      setMoodChoice(undefined);
+      setUsingPrompt(false);
       
       toast({
         title: "Reflection submitted",
@@ -113,20 +140,26 @@ export function ReflectionInput({
     updateLoading(true);
     try {
       console.log("Submitting audio reflection");
-      // Create a FormData object to send the audio
-      const formData = new FormData();
-      formData.append("audio", audioData);
+      // The recording is uploaded as is rather than as base64 in JSON
+      const form = new FormData();
+      form.append("audio", audioData);
+      form.append("type", "audio");
+      if (moodChoice) {
+        form.append("mood", moodChoice.mood);
+        form.append("moodIntensity", String(moodChoice.intensity));
+      }
+      if (activePrompt) form.append("promptId", activePrompt.id);
 
       // Get the auth token from localStorage
       const token = localStorage.getItem('auth_token');
 
-      // Make the API request
-      const response = await fetch("/api/reflection/audio", {
+      // The reflection is saved straight away and transcribed in the background
+      const response = await fetch("/api/reflection", {
         method: "POST",
         headers: {
           'Authorization': token ? `Bearer ${token}` : ''
         },
-        body: formData,
+        body: form
       });
 
       if (!response.ok) {
@@ -134,36 +167,20 @@ export function ReflectionInput({
         throw new Error(errorData.error || "Failed to process audio");
       }
 
-      const data = await response.json();
-      console.log("Audio API response:", data);
-      
-      // Create reflection with transcribed text
-      if (!data.transcription) {
-        throw new Error("No transcription received from server");
-      }
+      const { reflection, transcriptionJob } = await response.json();
+      setTranscriptionProgress(describeProgress(transcriptionJob));
+      const job = await transcriptionService.waitForJob(
+        transcriptionJob.id,
+        job => setTranscriptionProgress(describeProgress(job))
+      );
 
-      // Create the reflection with the transcribed text
-      const reflectionResponse = await fetch("/api/reflection", {
-        method: "POST",
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': token ? `Bearer ${token}` : ''
-        },
-        body: JSON.stringify({
-          content: data.transcription,
-          type: "text", // We store it as text since it's already transcribed
-        })
+      // Pass the transcribed reflection to the parent
+      onReflectionComplete({
+        reflection: { ...reflection, transcription: job.transcription, transcriptionStatus: "completed" },
+        conversationId: job.conversationId,
       });
-
-      if (!reflectionResponse.ok) {
-        const errorData = await reflectionResponse.json();
-        throw new Error(errorData.error || "Failed to save reflection");
-      }
-
-      const reflectionData = await reflectionResponse.json();
-      
-      // Pass the complete reflection data to the parent
-      onReflectionComplete(reflectionData);
+      setMoodChoice(undefined);
+      setUsingPrompt(false);
       
       toast({
         title: "Audio reflection submitted",
@@ -171,11 +188,11 @@ export function ReflectionInput({
       });
       
       // Handle redirection to chat page if enabled
-      if (redirectToChat && reflectionData.id) {
-        console.log(`Redirecting to /chat/${reflectionData.id} in 1 second`);
+      if (redirectToChat && reflection.id) {
+        console.log(`Redirecting to /chat/${reflection.id} in 1 second`);
         // Short delay to allow toast to be visible
         setTimeout(() => {
-          setLocation(`/chat/${reflectionData.id}`);
+          setLocation(`/chat/${reflection.id}`);
         }, 1000);
       }
     } catch (error) {
@@ -186,13 +203,23 @@ export function ReflectionInput({
         variant: "destructive",
       });
     } finally {
+      setTranscriptionProgress(null);
       updateLoading(false);
     }
   };
 
   return (
     <>
-      <div className="w-full max-w-md">
+      <div className="w-full max-w-md space-y-4">
+        {promptOfTheDay.data && (
+          <GuidedPromptCard
+            prompt={promptOfTheDay.data.prompt}
+            active={usingPrompt}
+            onUse={() => setUsingPrompt(true)}
+            onClear={() => setUsingPrompt(false)}
+            disabled={loading}
+          />
+        )}
         <Tabs
           defaultValue="text"
           value={activeTab}
@@ -205,7 +232,9 @@ export function ReflectionInput({
           </TabsList>
           <TabsContent value="text" className="space-y-4 mt-4">
             <Textarea
-              placeholder={isPersonalizationEnabled() 
+              placeholder={activePrompt
+                ? "Write your answer to the prompt above..."
+                : isPersonalizationEnabled()
                 ? "Share your thoughts for a personalized Islamic reflection..."
                 : "Share your Ramadan reflections, thoughts, or experiences..."}
               value={text}
@@ -214,6 +243,12 @@ export function ReflectionInput({
               disabled={loading}
               className="resize-none"
             />
+            <MoodCheckIn
+              value={mood}
+              onChange={setMoodChoice}
+              suggested={moodChoice === undefined && mood !== null}
+              disabled={loading}
+            />
             {isPersonalizationEnabled() && (
               <div className="text-xs text-muted-foreground italic">
                 Your reflection will be personalized based on your preferences.
@@ -228,10 +263,20 @@ export function ReflectionInput({
             </Button>
           </TabsContent>
           <TabsContent value="voice" className="space-y-4 mt-4">
+            <MoodCheckIn
+              value={moodChoice ?? null}
+              onChange={setMoodChoice}
+              disabled={loading}
+            />
             <AudioRecorder 
               onRecordingComplete={handleAudioComplete} 
               disabled={loading}
             />
+            {transcriptionProgress && (
+              <p className="text-sm text-center text-muted-foreground" aria-live="polite">
+                {transcriptionProgress}
+              </p>
+            )}
           </TabsContent>
         </Tabs>
       </div>
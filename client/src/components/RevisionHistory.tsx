@@ -0,0 +1,95 @@
+import type { DiffSegment, RevisionView } from "@shared/schema";
+
+const FIELD_LABELS: Record<string, string> = {
+  content: "Reflection",
+  transcription: "Transcription",
+  title: "Title",
+  speaker: "Speaker",
+  date: "Date",
+  topic: "Topic",
+  keyReflection: "Key reflection",
+  impact: "Impact",
+};
+
+function Diff({ segments }: { segments: DiffSegment[] }) {
+  return (
+    <p className="text-sm whitespace-pre-wrap">
+      {segments.map((segment, index) =>
+        segment.type === "added" ? (
+          <ins key={index} className="bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-100 no-underline rounded px-0.5">
+            {segment.text}
+          </ins>
+        ) : segment.type === "removed" ? (
+          <del key={index} className="bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-100 rounded px-0.5">
+            {segment.text}
+          </del>
+        ) : (
+          <span key={index}>{segment.text}</span>
+        )
+      )}
+    </p>
+  );
+}
+
+/**
+ * Edit history of a reflection or halaqa, newest first. Each revision shows
+ * what changed in every field; restoring one puts the fields back the way
+ * they were before it.
+ */
+export function RevisionHistory({
+  revisions,
+  onRestore,
+  restoringId,
+}: {
+  revisions: RevisionView[];
+  onRestore?: (revision: RevisionView) => void;
+  restoringId?: number | null;
+}) {
+  if (revisions.length === 0) {
+    return <p className="text-sm text-gray-500">No edits yet.</p>;
+  }
+
+  const byId = new Map(revisions.map((revision) => [revision.id, revision]));
+
+  return (
+    <ol className="space-y-4">
+      {revisions.map((revision) => (
+        <li key={revision.id} className="border rounded-lg p-4 bg-white dark:bg-gray-800">
+          <div className="flex justify-between items-center gap-4 mb-2">
+            <span className="text-sm text-gray-500">
+              {new Date(revision.createdAt).toLocaleString()}
+              {revision.restoredFrom && (
+                <>
+                  {" · restored "}
+                  {byId.has(revision.restoredFrom)
+                    ? `from before ${new Date(byId.get(revision.restoredFrom)!.createdAt).toLocaleString()}`
+                    : "an earlier version"}
+                </>
+              )}
+            </span>
+            {onRestore && (
+              <button
+                className="text-sm text-primary hover:underline disabled:opacity-50"
+                disabled={restoringId != null}
+                onClick={() => onRestore(revision)}
+              >
+                {restoringId === revision.id ? "Restoring..." : "Restore previous version"}
+              </button>
+            )}
+          </div>
+
+          <div className="space-y-2">
+            {revision.changes.map((change) => (
+              <div key={change.field}>
+                <h5 className="text-xs font-medium uppercase text-gray-500">
+                  {FIELD_LABELS[change.field] ?? change.field}
+                </h5>
+                <Diff segments={change.diff} />
+              </div>
+            ))}
+          </div>
+        </li>
+      ))}
+    </ol>
+  );
+}
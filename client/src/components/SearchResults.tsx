@@ -0,0 +1,85 @@
+import type { SearchHit, SearchResults as SearchResultsData, SearchSource } from "@shared/schema";
+import { Link } from "wouter";
+
+const SOURCE_LABELS: Record<SearchSource, string> = {
+  reflection: "Reflections",
+  conversation: "Conversations",
+  halaqa: "Halaqa notes",
+  wird: "Wird notes",
+};
+
+const SOURCE_ORDER: SearchSource[] = ["reflection", "conversation", "halaqa", "wird"];
+
+/**
+ * Renders a snippet from the search API, highlighting the words it wrapped
+ * in <mark></mark>. Everything else is rendered as plain text.
+ */
+function Snippet({ text }: { text: string }) {
+  const parts = text.split(/<mark>(.*?)<\/mark>/g);
+  return (
+    <>
+      {parts.map((part, index) =>
+        index % 2 === 1 ? (
+          <mark key={index} className="bg-yellow-200 dark:bg-yellow-700 rounded px-0.5">{part}</mark>
+        ) : (
+          part
+        )
+      )}
+    </>
+  );
+}
+
+function SearchHitItem({ hit }: { hit: SearchHit }) {
+  return (
+    <Link
+      href={hit.link}
+      className="block bg-white dark:bg-gray-800 shadow rounded-lg p-4 hover:ring-1 hover:ring-primary"
+    >
+      <div className="flex justify-between gap-4">
+        <h4 className="font-medium">{hit.title}</h4>
+        <span className="text-sm text-gray-500 shrink-0">
+          {new Date(hit.date).toLocaleDateString()}
+        </span>
+      </div>
+      <p className="text-gray-600 dark:text-gray-300 text-sm mt-1">
+        <Snippet text={hit.snippet} />
+      </p>
+    </Link>
+  );
+}
+
+/**
+ * Search hits grouped by where they came from, best match first within
+ * each group
+ */
+export function SearchResults({ results }: { results: SearchResultsData }) {
+  if (results.total === 0) {
+    return (
+      <div className="text-center py-10">
+        <p className="text-gray-500">Nothing matched "{results.query}".</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {SOURCE_ORDER.map((source) => {
+        const hits = results.hits.filter((hit) => hit.source === source);
+        if (hits.length === 0) return null;
+
+        return (
+          <section key={source}>
+            <h3 className="text-sm font-semibold text-gray-500 uppercase tracking-wide mb-2">
+              {SOURCE_LABELS[source]} ({results.counts[source]})
+            </h3>
+            <div className="space-y-3">
+              {hits.map((hit) => (
+                <SearchHitItem key={`${hit.source}-${hit.id}`} hit={hit} />
+              ))}
+            </div>
+          </section>
+        );
+      })}
+    </div>
+  );
+}
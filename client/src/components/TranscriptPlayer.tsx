@@ -0,0 +1,178 @@
+import { useEffect, useRef, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Download } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { useToast } from "@/hooks/use-toast";
+import { cn } from "@/lib/utils";
+import { exportService } from "@/services/exportService";
+import { halaqaService } from "@/services/halaqaService";
+import { reflectionService } from "@/services/reflectionService";
+import type { TranscriptFormat, TranscriptSegment } from "@shared/schema";
+
+const DOWNLOADS = [
+  { format: "srt", label: "Subtitles (SRT)" },
+  { format: "vtt", label: "Subtitles (WebVTT)" },
+  { format: "txt", label: "Plain text" },
+] as const;
+
+function formatTime(seconds: number): string {
+  const minutes = Math.floor(seconds / 60);
+  return `${minutes}:${String(Math.floor(seconds % 60)).padStart(2, "0")}`;
+}
+
+type TranscriptPlayerProps = { reflectionId: number } | { halaqaId: number };
+
+// Where the transcript and recording come from: a voice reflection, or the
+// lecture recorded for a halaqa
+function transcriptSource(props: TranscriptPlayerProps) {
+  if ("halaqaId" in props) {
+    const id = props.halaqaId;
+    return {
+      transcriptKey: ["halaqa-transcript", id],
+      recordingKey: ["halaqa-recording-url", id],
+      getTranscript: () => halaqaService.getLectureTranscript(id),
+      getRecordingUrl: () => halaqaService.getRecordingUrl(id),
+      download: (format: Exclude<TranscriptFormat, "json">) => exportService.downloadLectureTranscript(id, format),
+    };
+  }
+  const id = props.reflectionId;
+  return {
+    transcriptKey: ["reflection-transcript", id],
+    recordingKey: ["reflection-recording-url", id],
+    getTranscript: () => reflectionService.getTranscript(id),
+    getRecordingUrl: () => reflectionService.getRecordingUrl(id),
+    download: (format: Exclude<TranscriptFormat, "json">) => exportService.downloadTranscript(id, format),
+  };
+}
+
+// The segment being said at a point in the recording; between segments, the
+// one just finished stays highlighted
+function segmentAt(segments: TranscriptSegment[], time: number): number {
+  let current = -1;
+  segments.forEach((segment, index) => {
+    if (segment.start <= time) current = index;
+  });
+  return current;
+}
+
+/**
+ * A voice reflection's or halaqa lecture's recording with its transcript,
+ * each sentence highlighted as it is played. Clicking a sentence plays from
+ * there. Shows nothing without a timed transcript.
+ */
+export function TranscriptPlayer(props: TranscriptPlayerProps) {
+  const source = transcriptSource(props);
+  const audioRef = useRef<HTMLAudioElement>(null);
+  const activeRef = useRef<HTMLButtonElement>(null);
+  const [currentTime, setCurrentTime] = useState(0);
+  const { toast } = useToast();
+
+  // Written reflections have no transcript, which is not an error here
+  const { data: transcript } = useQuery({
+    queryKey: source.transcriptKey,
+    queryFn: source.getTranscript,
+    retry: false,
+  });
+  const segments = transcript?.segments ?? [];
+
+  // Playback links expire after a few hours; a fresh one is fetched when the
+  // player is opened again, but not mid-listen
+  const { data: recording } = useQuery({
+    queryKey: source.recordingKey,
+    queryFn: source.getRecordingUrl,
+    enabled: segments.length > 0,
+    retry: false,
+    staleTime: 60 * 60 * 1000,
+    refetchOnWindowFocus: false,
+  });
+  const audioUrl = recording?.url ?? null;
+
+  const active = segmentAt(segments, currentTime);
+
+  useEffect(() => {
+    activeRef.current?.scrollIntoView({ block: "nearest" });
+  }, [active]);
+
+  if (segments.length === 0) return null;
+
+  const seek = (segment: TranscriptSegment) => {
+    const audio = audioRef.current;
+    if (!audio) return;
+    audio.currentTime = segment.start;
+    setCurrentTime(segment.start);
+    void audio.play().catch(() => undefined);
+  };
+
+  const download = async (format: (typeof DOWNLOADS)[number]["format"]) => {
+    try {
+      await source.download(format);
+    } catch (error) {
+      console.error("Error downloading transcript:", error);
+      toast({
+        title: "Download failed",
+        description: error instanceof Error ? error.message : "Could not download the transcript.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <div className="space-y-3 mb-4">
+      <div className="flex items-center gap-2">
+        {audioUrl ? (
+          <audio
+            ref={audioRef}
+            src={audioUrl}
+            controls
+            className="w-full h-10"
+            onTimeUpdate={(e) => setCurrentTime(e.currentTarget.currentTime)}
+            onSeeked={(e) => setCurrentTime(e.currentTarget.currentTime)}
+          />
+        ) : (
+          <p className="flex-1 text-sm text-muted-foreground">Loading recording...</p>
+        )}
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <Button variant="ghost" size="icon" title="Download transcript">
+              <Download className="h-4 w-4" />
+            </Button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent align="end">
+            {DOWNLOADS.map(({ format, label }) => (
+              <DropdownMenuItem key={format} onSelect={() => download(format)}>
+                {label}
+              </DropdownMenuItem>
+            ))}
+          </DropdownMenuContent>
+        </DropdownMenu>
+      </div>
+
+      <ol className="max-h-64 overflow-y-auto space-y-1">
+        {segments.map((segment, index) => (
+          <li key={`${segment.start}-${index}`}>
+            <button
+              ref={index === active ? activeRef : undefined}
+              type="button"
+              onClick={() => seek(segment)}
+              disabled={!audioUrl}
+              aria-current={index === active ? "true" : undefined}
+              className={cn(
+                "w-full text-left rounded px-2 py-1 text-sm transition-colors hover:bg-muted",
+                index === active && "bg-primary/10 text-primary"
+              )}
+            >
+              <span className="mr-2 text-xs tabular-nums text-muted-foreground">{formatTime(segment.start)}</span>
+              {segment.text}
+            </button>
+          </li>
+        ))}
+      </ol>
+    </div>
+  );
+}
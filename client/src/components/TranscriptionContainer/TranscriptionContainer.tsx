@@ -1,7 +1,7 @@
-import React, { useState, useCallback } from 'react';
+import React, { useState, useCallback, useEffect, useRef } from 'react';
 import { AudioRecorder } from '../AudioRecorder/AudioRecorder';
 import { TranscriptionLoading } from '../TranscriptionLoading/TranscriptionLoading';
-import { TranscriptionService } from '../../services/transcriptionService';
+import { TranscriptionService, describeProgress } from '../../services/transcriptionService';
 import { toast } from 'react-hot-toast';
 
 interface TranscriptionContainerProps {
@@ -14,15 +14,29 @@ export const TranscriptionContainer: React.FC<TranscriptionContainerProps> = ({
   maxDurationMinutes = 15,
 }) => {
   const [isTranscribing, setIsTranscribing] = useState(false);
+  const [progress, setProgress] = useState<string | null>(null);
   const transcriptionService = new TranscriptionService();
+  // Stops the wait for a transcription when a new one starts or the component unmounts
+  const waitRef = useRef<AbortController | null>(null);
+
+  useEffect(() => () => waitRef.current?.abort(), []);
 
   const handleRecordingComplete = useCallback(async (audioBlob: Blob) => {
+    waitRef.current?.abort();
+    const wait = new AbortController();
+    waitRef.current = wait;
+
     try {
       setIsTranscribing(true);
-      const transcribedText = await transcriptionService.transcribeAudio(audioBlob);
+      const transcribedText = await transcriptionService.transcribeAudio(
+        audioBlob,
+        job => setProgress(describeProgress(job)),
+        { signal: wait.signal }
+      );
       onTranscriptionComplete(transcribedText);
       toast.success('Audio transcribed successfully!');
     } catch (error) {
+      if (wait.signal.aborted) return;
       console.error('Transcription error:', error);
       toast.error(
         error instanceof Error 
@@ -30,7 +44,11 @@ export const TranscriptionContainer: React.FC<TranscriptionContainerProps> = ({
           : 'Failed to transcribe audio. Please try again.'
       );
     } finally {
-      setIsTranscribing(false);
+      if (waitRef.current === wait) waitRef.current = null;
+      if (!wait.signal.aborted) {
+        setIsTranscribing(false);
+        setProgress(null);
+      }
     }
   }, [onTranscriptionComplete]);
 
@@ -55,7 +73,7 @@ export const TranscriptionContainer: React.FC<TranscriptionContainerProps> = ({
         </div>
       </div>
 
-      <TranscriptionLoading isVisible={isTranscribing} />
+      <TranscriptionLoading isVisible={isTranscribing} message={progress} />
     </div>
   );
 }; 
\ No newline at end of file
@@ -11,9 +11,11 @@ const loadingMessages = [
 
 interface TranscriptionLoadingProps {
   isVisible: boolean;
+  /** Progress to show instead of the rotating messages */
+  message?: string | null;
 }
 
-export const TranscriptionLoading: React.FC<TranscriptionLoadingProps> = ({ isVisible }) => {
+export const TranscriptionLoading: React.FC<TranscriptionLoadingProps> = ({ isVisible, message }) => {
   const [messageIndex, setMessageIndex] = useState(0);
 
   useEffect(() => {
@@ -36,7 +38,7 @@ export const TranscriptionLoading: React.FC<TranscriptionLoadingProps> = ({ isVi
       <div className="bg-white p-8 rounded-lg shadow-xl flex flex-col items-center space-y-4 max-w-md mx-4">
         <ImSpinner8 className="w-12 h-12 text-blue-500 animate-spin" />
         <p className="text-lg text-center text-gray-700 animate-fade-in">
-          {loadingMessages[messageIndex]}
+          {message || loadingMessages[messageIndex]}
         </p>
       </div>
     </div>
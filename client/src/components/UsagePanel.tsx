@@ -0,0 +1,164 @@
+import { useState, useEffect } from 'react';
+import {
+  Box,
+  Heading,
+  Text,
+  Stack,
+  Card,
+  CardBody,
+  CardHeader,
+  Divider,
+  Progress,
+  Table,
+  Thead,
+  Tbody,
+  Tr,
+  Th,
+  Td,
+  TableContainer,
+  Spinner,
+} from '@chakra-ui/react';
+import { usageService, UsageReport, QuotaWindow } from '../services/usageService';
+
+const numberFormat = new Intl.NumberFormat();
+
+function formatTokens(tokens: number) {
+  return numberFormat.format(tokens);
+}
+
+function QuotaBar({ label, window }: { label: string; window: QuotaWindow }) {
+  if (window.limit === null) {
+    return (
+      <Box>
+        <Text fontWeight="medium">{label}</Text>
+        <Text fontSize="sm" color="gray.500">
+          {formatTokens(window.used)} tokens used · no limit
+        </Text>
+      </Box>
+    );
+  }
+
+  const percent = Math.min((window.used / window.limit) * 100, 100);
+
+  return (
+    <Box>
+      <Text fontWeight="medium">{label}</Text>
+      <Progress
+        value={percent}
+        size="sm"
+        borderRadius="md"
+        colorScheme={window.remaining === 0 ? 'red' : percent >= 80 ? 'orange' : 'green'}
+        my={1}
+      />
+      <Text fontSize="sm" color="gray.500">
+        {formatTokens(window.used)} of {formatTokens(window.limit)} tokens used
+        · resets {new Date(window.resetsAt).toLocaleString()}
+      </Text>
+    </Box>
+  );
+}
+
+/**
+ * Settings panel showing the user's AI quota and usage history
+ */
+export function UsagePanel() {
+  const [usage, setUsage] = useState<UsageReport | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    usageService.getUsage()
+      .then(setUsage)
+      .catch((err) => {
+        console.error('Error loading usage:', err);
+        setError('Failed to load your AI usage.');
+      })
+      .finally(() => setLoading(false));
+  }, []);
+
+  return (
+    <Card>
+      <CardHeader>
+        <Heading size="md">AI Usage</Heading>
+        <Text fontSize="sm" color="gray.500" mt={1}>
+          Tokens used by AI features such as reflection follow-ups and halaqa analysis
+        </Text>
+      </CardHeader>
+      <CardBody>
+        {loading && <Spinner size="sm" />}
+        {error && <Text color="red.500">{error}</Text>}
+        {usage && (
+          <Stack spacing={4}>
+            <QuotaBar label="Today" window={usage.quota.daily} />
+            <QuotaBar label="This month" window={usage.quota.monthly} />
+
+            <Divider />
+
+            <Text fontWeight="medium">
+              Last {usage.days} days: {usage.totals.calls} requests,{' '}
+              {formatTokens(usage.totals.inputTokens + usage.totals.outputTokens)} tokens
+            </Text>
+
+            {usage.byFeature.length > 0 && (
+              <TableContainer>
+                <Table size="sm">
+                  <Thead>
+                    <Tr>
+                      <Th>Feature</Th>
+                      <Th isNumeric>Requests</Th>
+                      <Th isNumeric>Tokens</Th>
+                    </Tr>
+                  </Thead>
+                  <Tbody>
+                    {usage.byFeature.map((feature) => (
+                      <Tr key={feature.feature}>
+                        <Td>{feature.feature}</Td>
+                        <Td isNumeric>{feature.calls}</Td>
+                        <Td isNumeric>{formatTokens(feature.inputTokens + feature.outputTokens)}</Td>
+                      </Tr>
+                    ))}
+                  </Tbody>
+                </Table>
+              </TableContainer>
+            )}
+
+            {usage.history.length > 0 && (
+              <>
+                <Divider />
+                <Text fontWeight="medium">Recent requests</Text>
+                <TableContainer>
+                  <Table size="sm">
+                    <Thead>
+                      <Tr>
+                        <Th>When</Th>
+                        <Th>Feature</Th>
+                        <Th>Model</Th>
+                        <Th isNumeric>In</Th>
+                        <Th isNumeric>Out</Th>
+                      </Tr>
+                    </Thead>
+                    <Tbody>
+                      {usage.history.map((record) => (
+                        <Tr key={record.id}>
+                          <Td>{new Date(record.createdAt).toLocaleString()}</Td>
+                          <Td>{record.feature}</Td>
+                          <Td>{record.model}</Td>
+                          <Td isNumeric>{formatTokens(record.inputTokens)}</Td>
+                          <Td isNumeric>{formatTokens(record.outputTokens)}</Td>
+                        </Tr>
+                      ))}
+                    </Tbody>
+                  </Table>
+                </TableContainer>
+              </>
+            )}
+
+            {usage.totals.calls === 0 && (
+              <Text fontSize="sm" color="gray.500">No AI requests in this period.</Text>
+            )}
+          </Stack>
+        )}
+      </CardBody>
+    </Card>
+  );
+}
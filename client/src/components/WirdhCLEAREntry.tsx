@@ -352,6 +352,11 @@ export default function WirdhCLEAREntry({ wird, practice, onUpdate }: WirdhCLEAR
                       />
 
                       {/* Suggestions */}
+                      {suggestions?.fallback && (
+                        <p className="mt-2 text-xs text-muted-foreground italic">
+                          Personalized suggestions are unavailable right now. Showing general ideas instead.
+                        </p>
+                      )}
                       {suggestions && (
                         <SuggestionSelector 
                           title={title} 
@@ -16,6 +16,8 @@ export interface WirdhSuggestionsProps {
   isGenerating?: boolean;
   conversationId?: string;
   conversationTitle?: string;
+  /** Called after a suggestion is added to or removed from the wird */
+  onWirdChanged?: () => void;
 }
 
 export function WirdhSuggestions({ 
@@ -24,7 +26,8 @@ export function WirdhSuggestions({
   onChange, 
   isGenerating = false, 
   conversationId = "", 
-  conversationTitle = "Reflection" 
+  conversationTitle = "Reflection",
+  onWirdChanged
 }: WirdhSuggestionsProps) {
   const hasSuggestions = suggestions && suggestions.length > 0;
   const [savedSuggestions, setSavedSuggestions] = useState<Record<string, boolean>>({});
@@ -144,6 +147,8 @@ export function WirdhSuggestions({
         console.error('Error updating saved wirds in localStorage:', e);
       }
       
+      onWirdChanged?.();
+      
       toast({
         title: "Added to Today's Wirdh",
         description: `"${preparedSuggestion.name}" has been added to your Wirdh for today.`,
@@ -230,6 +235,8 @@ export function WirdhSuggestions({
         console.error('Error updating saved wirds in localStorage:', e);
       }
       
+      onWirdChanged?.();
+      
       toast({
         title: "Removed from Today's Wirdh",
         description: `"${suggestion.name || suggestion.title}" has been removed from your Wirdh for today.`,
@@ -219,12 +219,40 @@ export const API = {
     return this.requestWithRetry<T>('PUT', endpoint, data, options);
   },
   
+  /**
+   * PATCH request
+   */
+  async patch<T>(endpoint: string, data = {}, options = {}): Promise<T> {
+    return this.requestWithRetry<T>('PATCH', endpoint, data, options);
+  },
+  
   /**
    * DELETE request
    */
   async delete<T>(endpoint: string, options = {}): Promise<T> {
     return this.requestWithRetry<T>('DELETE', endpoint, null, options);
   },
+
+  /**
+   * GET a file as a Blob, with the file name the server suggests
+   */
+  async download(endpoint: string): Promise<{ blob: Blob; filename: string | null }> {
+    const response = await fetch(this.baseUrl + endpoint, {
+      headers: { 'Authorization': `Bearer ${localStorage.getItem('auth_token')}` }
+    });
+
+    if (!response.ok) {
+      const contentType = response.headers.get('content-type');
+      const message = contentType && contentType.includes('application/json')
+        ? (await response.json()).error
+        : null;
+      throw new Error(message || `HTTP error ${response.status}`);
+    }
+
+    const disposition = response.headers.get('content-disposition') || '';
+    const filename = disposition.match(/filename="([^"]+)"/)?.[1] ?? null;
+    return { blob: await response.blob(), filename };
+  },
   
   /**
    * Create a default profile when none exists
@@ -0,0 +1,85 @@
+import { authHeaders } from "./queryClient";
+
+export interface StreamEvent {
+  event: string;
+  data: any;
+}
+
+interface EventStreamOptions {
+  onEvent: (event: StreamEvent) => void;
+  signal?: AbortSignal;
+}
+
+/**
+ * POST JSON and consume a Server-Sent Events response. EventSource only
+ * supports GET, so the stream is read and parsed by hand. Resolves when the
+ * server closes the stream; rejects on HTTP errors, network failures or abort.
+ */
+export async function postEventStream(
+  url: string,
+  data: unknown,
+  { onEvent, signal }: EventStreamOptions,
+): Promise<void> {
+  const res = await fetch(url, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      Accept: "text/event-stream",
+      ...authHeaders(),
+    },
+    body: JSON.stringify(data),
+    credentials: "include",
+    signal,
+  });
+
+  if (!res.ok || !res.body) {
+    throw new Error(`${res.status}: ${res.statusText}`);
+  }
+
+  const reader = res.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  const dispatch = (block: string) => {
+    let event = "message";
+    const dataLines: string[] = [];
+
+    for (const line of block.split("\n")) {
+      // Lines starting with ":" are comments (heartbeats)
+      if (line.startsWith("event:")) {
+        event = line.slice(6).trim();
+      } else if (line.startsWith("data:")) {
+        dataLines.push(line.slice(5).trimStart());
+      }
+    }
+
+    if (dataLines.length === 0) return;
+
+    const raw = dataLines.join("\n");
+    let payload: any = raw;
+    try {
+      payload = JSON.parse(raw);
+    } catch {
+      // Not JSON; pass the raw text through
+    }
+    onEvent({ event, data: payload });
+  };
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    buffer += decoder.decode(value, { stream: true }).replace(/\r\n/g, "\n");
+
+    let boundary = buffer.indexOf("\n\n");
+    while (boundary !== -1) {
+      dispatch(buffer.slice(0, boundary));
+      buffer = buffer.slice(boundary + 2);
+      boundary = buffer.indexOf("\n\n");
+    }
+  }
+
+  if (buffer.trim()) {
+    dispatch(buffer);
+  }
+}
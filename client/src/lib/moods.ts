@@ -0,0 +1,21 @@
+import type { Mood } from '@shared/schema';
+
+/** Moods in the order the check-in picker shows them */
+export const MOODS: Mood[] = [
+  'joy', 'gratitude', 'peace', 'hope', 'confusion', 'sadness', 'fear', 'anger', 'guilt', 'loneliness',
+];
+
+export const MOOD_INTENSITY_MAX = 10;
+
+export const MOOD_LABELS: Record<Mood, { label: string; emoji: string }> = {
+  joy: { label: 'Joyful', emoji: '😊' },
+  gratitude: { label: 'Grateful', emoji: '🤲' },
+  peace: { label: 'At peace', emoji: '😌' },
+  hope: { label: 'Hopeful', emoji: '🌱' },
+  confusion: { label: 'Unsure', emoji: '🤔' },
+  sadness: { label: 'Sad', emoji: '😔' },
+  fear: { label: 'Anxious', emoji: '😟' },
+  anger: { label: 'Frustrated', emoji: '😤' },
+  guilt: { label: 'Regretful', emoji: '😞' },
+  loneliness: { label: 'Lonely', emoji: '🫥' },
+};
@@ -19,6 +19,15 @@ async function throwIfResNotOk(res: Response) {
   }
 }
 
+/**
+ * Bearer header for the signed-in user; the API authenticates by token, not
+ * by cookie
+ */
+export function authHeaders(): Record<string, string> {
+  const token = localStorage.getItem("auth_token");
+  return token ? { Authorization: `Bearer ${token}` } : {};
+}
+
 export async function apiRequest(
   method: string,
   url: string,
@@ -27,7 +36,10 @@ export async function apiRequest(
   try {
     const res = await fetch(url, {
       method,
-      headers: data ? { "Content-Type": "application/json" } : {},
+      headers: {
+        ...(data ? { "Content-Type": "application/json" } : {}),
+        ...authHeaders(),
+      },
       body: data ? JSON.stringify(data) : undefined,
       credentials: "include",
     });
@@ -48,6 +60,7 @@ export const getQueryFn: <T>(options: {
   async ({ queryKey }: { queryKey: QueryKey }) => {
     try {
       const res = await fetch(queryKey[0] as string, {
+        headers: authHeaders(),
         credentials: "include",
       });
 
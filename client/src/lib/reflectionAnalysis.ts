@@ -1,3 +1,6 @@
+import type { Mood } from '@shared/schema';
+import { extractTopics as extractTopicsFromText } from '@shared/topics';
+
 interface ReflectionAnalysis {
   topics: string[];
   referenceTypes?: string[];
@@ -50,36 +53,8 @@ export function analyzeReflection(
  * Extract main topics from user reflection and AI response
  */
 function extractTopics(userReflection: string, aiResponse: any): string[] {
-  const combinedText = `${userReflection} ${JSON.stringify(aiResponse)}`.toLowerCase();
-  
-  // Common Islamic topics to look for
-  const topicMap: Record<string, string[]> = {
-    'prayer': ['prayer', 'salah', 'salat', 'namaz', 'worship'],
-    'quran': ['quran', 'qur\'an', 'ayah', 'surah', 'verse'],
-    'fasting': ['fast', 'fasting', 'ramadan', 'sawm', 'iftar', 'suhoor'],
-    'charity': ['charity', 'zakat', 'sadaqah', 'giving', 'donate'],
-    'pilgrimage': ['hajj', 'umrah', 'pilgrimage', 'mecca', 'kaaba'],
-    'faith': ['iman', 'faith', 'belief', 'doubt', 'trust in allah'],
-    'family': ['family', 'marriage', 'parent', 'child', 'spouse', 'relationship'],
-    'ethics': ['ethics', 'morals', 'character', 'akhlaq', 'behavior', 'conduct'],
-    'spirituality': ['spirituality', 'spiritual', 'soul', 'heart', 'nafs', 'ruh'],
-    'community': ['community', 'ummah', 'brotherhood', 'sisterhood', 'mosque', 'masjid'],
-    'knowledge': ['knowledge', 'learning', 'study', 'education', 'ilm'],
-    'daily-life': ['daily', 'routine', 'lifestyle', 'habit', 'discipline'],
-    'challenges': ['challenge', 'difficulty', 'struggle', 'hardship', 'problem'],
-    'gratitude': ['gratitude', 'thankful', 'shukr', 'blessings', 'appreciate'],
-    'patience': ['patience', 'sabr', 'endurance', 'perseverance'],
-    'repentance': ['repentance', 'tawbah', 'forgiveness', 'mercy', 'istighfar'],
-    'mindfulness': ['mindfulness', 'presence', 'awareness', 'intention', 'niyyah'],
-  };
-  
-  // Identify topics from the map
-  const detectedTopics = Object.entries(topicMap)
-    .filter(([_, keywords]) => 
-      keywords.some(keyword => combinedText.includes(keyword))
-    )
-    .map(([topic]) => topic);
-  
+  const detectedTopics = extractTopicsFromText(`${userReflection} ${JSON.stringify(aiResponse)}`);
+
   // Ensure we return at least one topic
   return detectedTopics.length > 0 ? detectedTopics : ['general'];
 }
@@ -126,6 +101,22 @@ function identifyReferenceTypes(userReflection: string, aiResponse: any): string
   return referenceTypes;
 }
 
+/**
+ * Suggest a mood check-in from the strongest emotion in a reflection, or
+ * null when nothing emotional stands out. Used to pre-fill the mood picker;
+ * the user always has the final say.
+ */
+export function suggestMood(text: string): { mood: Mood; intensity: number } | null {
+  const emotions = analyzeEmotionalContent(text);
+  let strongest: { mood: Mood; intensity: number } | null = null;
+  for (const [emotion, intensity] of Object.entries(emotions)) {
+    if (!strongest || intensity > strongest.intensity) {
+      strongest = { mood: emotion as Mood, intensity };
+    }
+  }
+  return strongest;
+}
+
 /**
  * Basic emotional content analysis
  */
@@ -7,11 +7,30 @@ import { useToast } from "@/hooks/use-toast";
 import { useLocation, useRoute, useParams } from "wouter";
 import { LoadingAnimation } from "@/components/LoadingAnimation";
 import { useAuth } from "@/hooks/useAuth";
-import { wirdService } from "@/services/wirdService";
 import { Button } from "@/components/ui/button";
 import { CalendarCheck } from "lucide-react";
 import { WirdhSuggestions } from "@/components/WirdhSuggestions";
 import { WirdSuggestion } from "@/services/wirdService";
+import { reflectionService, BranchReply, ReflectionEditResult, StoredConversation } from "@/services/reflectionService";
+import { EditReflectionDialog } from "@/components/EditReflectionDialog";
+import { EditLabelsDialog } from "@/components/EditLabelsDialog";
+import { InspiredPractices, inspiredPracticesKey } from "@/components/InspiredPractices";
+import { TranscriptPlayer } from "@/components/TranscriptPlayer";
+import { useQueryClient } from "@tanstack/react-query";
+import { promptService } from "@/services/promptService";
+import type { GuidedPrompt } from "@shared/schema";
+import { describeBranch } from "@shared/message-tree";
+
+// Follow-up questions asked in a reply, if the message is one
+function questionsOf(message: Message | undefined): string[] {
+  if (message?.role !== "assistant") return [];
+  try {
+    const { questions } = JSON.parse(message.content);
+    return Array.isArray(questions) ? questions : [];
+  } catch {
+    return [];
+  }
+}
 import { cn } from "@/lib/utils";
 
 export default function Chat() {
@@ -22,6 +41,7 @@ export default function Chat() {
   const [, navigate] = useLocation();
   const { toast } = useToast();
   const { user } = useAuth();
+  const queryClient = useQueryClient();
   
   // Core data state
   const [messages, setMessages] = useState<Message[]>([]);
@@ -29,12 +49,20 @@ export default function Chat() {
   const [actionItems, setActionItems] = useState<string[]>([]);
   const [insights, setInsights] = useState<string[]>([]);
   const [wirdSuggestions, setWirdSuggestions] = useState<WirdSuggestion[]>([]);
+  const [editedAt, setEditedAt] = useState<string | null>(null);
+  const [answeredPrompt, setAnsweredPrompt] = useState<GuidedPrompt | null>(null);
+  // The saved conversation's id and the alternatives along the branch shown
+  const [conversationId, setConversationId] = useState<number | null>(null);
+  const [siblings, setSiblings] = useState<Record<string, string[]>>({});
+  // Generated (or user-edited) title, summary and tags of the saved conversation
+  const [labels, setLabels] = useState<Pick<StoredConversation, "id" | "title" | "synopsis" | "tags"> | null>(null);
   
   // UI state
   const [isGeneratingItems, setIsGeneratingItems] = useState(false);
   const [isGeneratingInsights, setIsGeneratingInsights] = useState(false);
   const [selectedQuestion, setSelectedQuestion] = useState<string | null>(null);
   const [followUpCount, setFollowUpCount] = useState(0);
+  const [isBranching, setIsBranching] = useState(false);
   const hasDynamicContent = useRef(false);
 
   // Track if insights can be generated (3+ follow-up questions answered)
@@ -81,6 +109,9 @@ export default function Chat() {
           
           // Count existing follow-ups
           countFollowUps();
+
+          // The cached session doesn't know about branches
+          loadBranches(reflectionId);
         } else {
           // If not in localStorage, try to fetch from server
           console.log("[Chat Debug] No data in localStorage, trying server fetch");
@@ -104,42 +135,24 @@ export default function Chat() {
     console.log(`Starting server fetch for reflection ${id}, setting loading=true`);
     setLoading(true);
     try {
-      // First try the new reflection endpoint
-      const response = await fetch(`/api/reflection/${id}`);
-      
-      if (!response.ok) {
-        // If that fails, try the old conversation endpoint
-        console.log(`New reflection endpoint failed, trying conversation endpoint for ${id}`);
-        const oldResponse = await fetch(`/api/conversation/${id}`);
-        
-        if (!oldResponse.ok) {
-          throw new Error("Failed to fetch reflection data");
+      const { reflection, conversation } = await reflectionService.getReflection(id);
+      setEditedAt(reflection.editedAt);
+
+      if (conversation) {
+        applyStoredConversation(conversation);
+        setActionItems(conversation.actionItems || []);
+        if (conversation.promptId) {
+          promptService.getPrompt(conversation.promptId)
+            .then(setAnsweredPrompt)
+            .catch((error) => console.error("Error loading guided prompt:", error));
         }
-        
-        const data = await oldResponse.json();
-        setMessages(data.messages || []);
-        setQuestions(data.questions || []);
-        setActionItems(data.actionItems || []);
-        setInsights(data.insights || []);
-        
-        console.log("Fetched conversation from server:", data);
       } else {
-        // Handle new reflection data format
-        const data = await response.json();
-        
-        // Convert to message format
-        const initialMessages: Message[] = [
-          { role: "user", content: data.original || "" },
-          { role: "assistant", content: data.understanding || "" }
-        ];
-        
-        setMessages(initialMessages);
-        setQuestions(data.questions || []);
-        setActionItems(data.actionItems || []);
-        setInsights(data.insights || []);
-        
-        console.log("Fetched reflection from server:", data);
+        setMessages([
+          { role: "user", content: reflection.transcription || reflection.content }
+        ]);
       }
+
+      console.log("Fetched reflection from server:", reflection.id);
     } catch (error) {
       console.error("Error fetching data:", error);
       toast({
@@ -153,6 +166,34 @@ export default function Chat() {
     }
   };
 
+  // Show the selected branch of the saved conversation, with the
+  // alternatives along it; returns the branch's messages
+  const applyStoredConversation = (conversation: StoredConversation): Message[] => {
+    const branch = describeBranch(conversation.messages, conversation.activeMessageId);
+    const branchMessages = branch.map(({ message }) => message);
+    setConversationId(conversation.id);
+    setLabels({ id: conversation.id, title: conversation.title, synopsis: conversation.synopsis, tags: conversation.tags });
+    if (conversation.wirdSuggestions?.length) {
+      setWirdSuggestions(conversation.wirdSuggestions);
+    }
+    setSiblings(Object.fromEntries(branch.map(({ message, siblingIds }) => [message.id!, siblingIds])));
+    setMessages(branchMessages);
+    saveConversation(branchMessages);
+    return branchMessages;
+  };
+
+  // Pick up the message tree for a session restored from localStorage
+  const loadBranches = async (id: number) => {
+    try {
+      const { conversation } = await reflectionService.getReflection(id);
+      if (conversation) {
+        applyStoredConversation(conversation);
+      }
+    } catch (error) {
+      console.error("Error loading conversation branches:", error);
+    }
+  };
+
   // Count follow-up questions in messages
   const countFollowUps = () => {
     // Find user messages that are responding to follow-up questions
@@ -539,12 +580,9 @@ export default function Chat() {
   };
 
   const handleGenerateWirdSuggestions = async () => {
-    if (!reflectionId || !user?.id) return;
+    if (!conversationId || !user?.id) return;
     
     setIsGeneratingItems(true); // Reuse the loading state
-    console.log("Starting wirdh suggestion generation with messages:", messages.length);
-    console.log("Reflection ID:", reflectionId);
-    console.log("User ID:", user.id);
     
     try {
       // Get personalization context if available
@@ -564,150 +602,19 @@ export default function Chat() {
         console.error("Error getting personalization context:", error);
       }
       
-      // Convert messages to a string representation for the API
-      // Include the full conversation context
-      const conversationText = messages.map(msg => 
-        `${msg.role === 'user' ? 'User' : 'AI'}: ${msg.content}`
-      ).join('\n\n');
-      
-      console.log("Prepared conversation context for wird suggestions:", 
-        conversationText.length > 100 ? 
-        `${conversationText.substring(0, 100)}... (${conversationText.length} chars total)` : 
-        conversationText);
+      // Practices are added to the wird from the suggestions, each recording this reflection
+      const { wirdSuggestions: suggestions, fallback } = await reflectionService.generateWirdSuggestions(
+        conversationId,
+        personalizationContext
+      );
+      storeWirdSuggestionsInLocalStorage(suggestions);
       
-      // Generate fallback suggestions if API call fails
-      const generateFallbackSuggestions = () => {
-        console.log("Using fallback wird suggestions");
-        const fallbackSuggestions = [
-          {
-            id: `wird-${Date.now()}-1`,
-            name: "Daily Quran Reading",
-            title: "Daily Quran Reading",
-            category: "Quran",
-            type: "Quran",
-            target: 5,
-            unit: "pages",
-            description: "Read portions of the Quran daily to strengthen your connection with Allah's words",
-            duration: "15-20 minutes",
-            frequency: "daily"
-          },
-          {
-            id: `wird-${Date.now()}-2`,
-            name: "Morning and Evening Adhkar",
-            title: "Morning and Evening Adhkar",
-            category: "Dhikr",
-            type: "Dhikr",
-            target: 1,
-            unit: "times",
-            description: "Recite the morning and evening remembrances to protect yourself and gain blessings",
-            duration: "10 minutes",
-            frequency: "twice daily"
-          }
-        ];
-        return fallbackSuggestions;
-      };
-      
-      try {
-        // Get the authentication token
-        const token = localStorage.getItem('auth_token');
-        if (!token) {
-          console.error("No authentication token found");
-          throw new Error("Authentication required");
-        }
-        
-        console.log("Auth token found:", token ? "Yes (token exists)" : "No");
-        
-        // Use a different URL that won't conflict with halaqa routes
-        // Instead of /api/generate/wird-suggestions, use /api/wirds/generate-suggestions
-        const requestUrl = "/api/wirds/generate-suggestions";
-        const requestHeaders = {
-          "Content-Type": "application/json",
-          "Authorization": `Bearer ${token}`
-        };
-        const requestBody = {
-          conversation: conversationText,
-          messages: messages, // Send full messages array for better context
-          personalizationContext
-        };
-        
-        console.log("🔍 REQUEST DETAILS:");
-        console.log("🔍 URL:", requestUrl);
-        console.log("🔍 Method: POST");
-        console.log("🔍 Headers:", JSON.stringify(requestHeaders));
-        console.log("🔍 Body:", JSON.stringify(requestBody, null, 2).substring(0, 500) + "...");
-        
-        // Try to call the API to generate wird suggestions
-        console.log("Calling API to generate wird suggestions");
-        const response = await fetch(requestUrl, {
-          method: "POST",
-          headers: requestHeaders,
-          body: JSON.stringify(requestBody),
-        });
-        
-        console.log("API response status:", response.status, response.statusText);
-        
-        if (!response.ok) {
-          console.error(`API error: ${response.status} - ${response.statusText}`);
-          
-          // Try to get more details from the response
-          try {
-            const errorData = await response.text();
-            console.error("Error response body:", errorData);
-          } catch (e) {
-            console.error("Could not read error response body");
-          }
-          
-          throw new Error("Failed to generate wird suggestions");
-        }
-        
-        const data = await response.json();
-        console.log("Generated wird suggestions:", data);
-        
-        if (data.wirdSuggestions && Array.isArray(data.wirdSuggestions)) {
-          // First, store the suggestions in localStorage for the WirdhAI page
-          storeWirdSuggestionsInLocalStorage(data.wirdSuggestions);
-          
-          // Add them to the user's wird plan with a backlink to this reflection
-          // Choose the first suggestion to automatically add as an example
-          if (data.wirdSuggestions.length > 0) {
-            const suggestion = data.wirdSuggestions[0];
-            await wirdService.addToWirdPlan(
-              user.id,
-              suggestion,
-              undefined, // Use current date
-              'reflection', // sourceType
-              reflectionId // sourceId
-            );
-          }
-          
-          toast({
-            title: "Wird Suggestions Generated",
-            description: "Spiritual practices have been suggested based on your reflection.",
-          });
-        } else {
-          throw new Error("Invalid response format");
-        }
-      } catch (error) {
-        console.error("API endpoint for wird suggestions not available, using fallback:", error);
-        
-        // Use fallback suggestions if API call fails
-        const fallbackSuggestions = generateFallbackSuggestions();
-        storeWirdSuggestionsInLocalStorage(fallbackSuggestions);
-        
-        // Add the first fallback suggestion to the user's wird plan
-        await wirdService.addToWirdPlan(
-          user.id,
-          fallbackSuggestions[0],
-          undefined, // Use current date
-          'reflection', // sourceType
-          reflectionId // sourceId
-        );
-        
-        toast({
-          title: "Wird Suggestions Generated",
-          description: "Spiritual practices have been suggested based on your reflection.",
-        });
-      }
+      toast({
+        title: "Wird Suggestions Generated",
+        description: fallback
+          ? "Personalized suggestions are unavailable right now, so here are some general practices."
+          : "Spiritual practices have been suggested based on your reflection.",
+      });
     } catch (error) {
       console.error("Error generating wird suggestions:", error);
       toast({
@@ -748,9 +655,9 @@ export default function Chat() {
     }
   };
 
-  // Get the user's first message for title
+  // Use the conversation's title, or the user's first message until it has one
   const firstUserMessage = messages.find(msg => msg.role === "user");
-  const chatTitle = firstUserMessage?.content || "Reflection";
+  const chatTitle = labels?.title || firstUserMessage?.content || "Reflection";
   const displayTitle = chatTitle.length > 30 ? chatTitle.substring(0, 30) + "..." : chatTitle;
 
   // Handle animation events
@@ -766,15 +673,21 @@ export default function Chat() {
   const handleConversationResponse = (response: any) => {
     console.log("[Chat Debug] Handling conversation response:", response);
     
-    if (response.conversation?.messages) {
-      setMessages(response.conversation.messages);
-    }
-    
     if (response.questions) {
       console.log("[Chat Debug] Updating questions:", response.questions);
       setQuestions(response.questions);
     }
     
+    // Prefer the saved conversation, which places the new turns in the message tree
+    if (response.storedConversation?.messages) {
+      applyStoredConversation(response.storedConversation);
+      return;
+    }
+
+    if (response.conversation?.messages) {
+      setMessages(response.conversation.messages);
+    }
+    
     // Save to localStorage
     saveConversation(
       response.conversation?.messages || messages,
@@ -784,6 +697,61 @@ export default function Chat() {
     );
   };
 
+  // Show a regenerated reply or a new branch, and the questions it asks
+  const runBranchAction = async (action: () => Promise<BranchReply>, failure: string) => {
+    setIsBranching(true);
+    try {
+      const result = await action();
+      applyStoredConversation(result.conversation);
+      setQuestions(result.questions);
+    } catch (error) {
+      console.error(failure, error);
+      toast({
+        title: "Error",
+        description: `${failure}. Please try again.`,
+        variant: "destructive",
+      });
+    } finally {
+      setIsBranching(false);
+    }
+  };
+
+  const handleRegenerate = (messageId: string) => {
+    if (!conversationId) return;
+    runBranchAction(() => reflectionService.regenerateReply(conversationId, messageId), "Could not regenerate the reply");
+  };
+
+  const handleFork = (messageId: string, content: string) => {
+    if (!conversationId) return;
+    runBranchAction(() => reflectionService.forkConversation(conversationId, messageId, content), "Could not start a new branch");
+  };
+
+  const handleSwitchBranch = async (messageId: string) => {
+    if (!conversationId) return;
+    try {
+      const branchMessages = applyStoredConversation(await reflectionService.selectBranch(conversationId, messageId));
+      setQuestions(questionsOf(branchMessages[branchMessages.length - 1]));
+    } catch (error) {
+      console.error("Error switching branch:", error);
+      toast({
+        title: "Error",
+        description: "Could not switch to that version. Please try again.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  // Show the corrected reflection, and the new questions if they were asked again
+  const handleReflectionEdited = (result: ReflectionEditResult) => {
+    setEditedAt(result.reflection.editedAt);
+    if (result.conversation) {
+      applyStoredConversation(result.conversation);
+    }
+    if (result.questions) {
+      setQuestions(result.questions);
+    }
+  };
+
   return (
     <Layout title={displayTitle}>
       {loading ? (
@@ -803,8 +771,17 @@ export default function Chat() {
                   isGenerating={isGeneratingItems}
                   conversationId={reflectionId?.toString() || ""}
                   conversationTitle={displayTitle}
+                  onWirdChanged={() => conversationId && queryClient.invalidateQueries({ queryKey: inspiredPracticesKey(conversationId) })}
                 />
               </div>
+
+              {/* Practices added from this reflection */}
+              {conversationId && (
+                <div className="bg-card rounded-lg shadow-sm p-4">
+                  <h2 className="text-lg font-semibold mb-4">Practices Inspired by This Reflection</h2>
+                  <InspiredPractices conversationId={conversationId} />
+                </div>
+              )}
               
               {/* Spiritual Insights Card */}
               <div className="bg-card rounded-lg shadow-sm p-4">
@@ -822,8 +799,25 @@ export default function Chat() {
             {/* Right column - Conversation */}
             <div className="w-full order-1 md:order-2 mb-6 md:mb-0">
               <div className="bg-card rounded-lg shadow-sm p-4">
+                {reflectionId && (
+                  <div className="flex items-center justify-end gap-2 mb-2">
+                    {editedAt && (
+                      <span className="text-xs text-muted-foreground" title={new Date(editedAt).toLocaleString()}>
+                        Edited
+                      </span>
+                    )}
+                    {labels && <EditLabelsDialog conversation={labels} onSaved={applyStoredConversation} />}
+                    <EditReflectionDialog reflectionId={reflectionId} onSaved={handleReflectionEdited} />
+                  </div>
+                )}
+                {answeredPrompt && (
+                  <p className="text-sm text-muted-foreground italic mb-3">
+                    Answering: {answeredPrompt.text}
+                  </p>
+                )}
+                {reflectionId && <TranscriptPlayer reflectionId={reflectionId} />}
                 <ConversationView 
-                  conversationId={reflectionId || undefined}
+                  conversationId={conversationId ?? reflectionId ?? undefined}
                   messages={messages} 
                   onNewMessage={handleNewMessage}
                   onResponse={handleConversationResponse}
@@ -831,6 +825,11 @@ export default function Chat() {
                   onSelectedQuestion={handleSelectedQuestion}
                   isFirstSubmission={messages.length <= 2}
                   selectedQuestion={selectedQuestion}
+                  siblings={siblings}
+                  onSwitchBranch={handleSwitchBranch}
+                  onRegenerate={handleRegenerate}
+                  onFork={handleFork}
+                  isBranching={isBranching}
                 />
               </div>
             </div>
@@ -1,6 +1,9 @@
 import { useEffect } from "react";
+import { useQuery } from "@tanstack/react-query";
 import { useLocation } from "wouter";
 import { useAuth } from "@/hooks/useAuth";
+import { analyticsService } from "@/services/analyticsService";
+import { MoodTrends } from "@/components/MoodTrends";
 
 export default function DashboardPage() {
   const { isAuthenticated, isLoading } = useAuth();
@@ -13,6 +16,12 @@ export default function DashboardPage() {
     }
   }, [isLoading, isAuthenticated, setLocation]);
   
+  const moodAnalytics = useQuery({
+    queryKey: ["analytics", "mood"],
+    queryFn: () => analyticsService.getMoodAnalytics(),
+    enabled: isAuthenticated,
+  });
+  
   return (
     <div className="container mx-auto py-8">
       <h1 className="text-3xl font-bold mb-6">Dashboard</h1>
@@ -47,6 +56,17 @@ export default function DashboardPage() {
             View Insights
           </button>
         </div>
+        
+        <div className="bg-white dark:bg-gray-800 shadow rounded-lg p-6 md:col-span-2 lg:col-span-3">
+          <h2 className="text-xl font-semibold mb-4">Mood Trends</h2>
+          {moodAnalytics.data && <MoodTrends analytics={moodAnalytics.data} />}
+          {moodAnalytics.isLoading && (
+            <p className="text-gray-500">Loading your mood trends...</p>
+          )}
+          {moodAnalytics.error && (
+            <p className="text-red-500">Could not load your mood trends. Please try again.</p>
+          )}
+        </div>
       </div>
     </div>
   );
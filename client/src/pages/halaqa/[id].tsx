@@ -11,7 +11,9 @@ import { halaqaService } from "@/services/halaqaService";
 import { wirdService } from "@/services/wirdService";
 import { Halaqa, HalaqaActionItem, WirdSuggestion } from "@/types";
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
-import { Pencil, BookOpen, Calendar, User, Tag, ArrowLeft, RotateCw, Check, Trash2, Plus, Star, Clock, Repeat } from "lucide-react";
+import { Pencil, BookOpen, Calendar, User, Tag, ArrowLeft, RotateCw, Check, Trash2, Plus, Star, Clock, Repeat, History } from "lucide-react";
+import { RevisionHistory } from "@/components/RevisionHistory";
+import type { RevisionView } from "@shared/schema";
 import {
   AlertDialog,
   AlertDialogAction,
@@ -48,6 +50,9 @@ import { zodResolver } from "@hookform/resolvers/zod";
 import { Badge } from "@/components/ui/badge";
 import { usePersonalization } from "@/hooks/usePersonalization";
 import { HalaqaService } from "@/services/halaqaService";
+import { CitationNotes } from "@/components/CitationNotes";
+import { LectureRecording } from "@/components/LectureRecording";
+import type { CitationCheck } from "@shared/schema";
 
 export default function HalaqaDetailPage() {
   const [, params] = useRoute<{ id: string }>("/halaqa/:id");
@@ -61,11 +66,13 @@ export default function HalaqaDetailPage() {
   const [generatingActions, setGeneratingActions] = useState(false);
   const [analyzingHalaqa, setAnalyzingHalaqa] = useState(false);
   const [wirdSuggestions, setWirdSuggestions] = useState<WirdSuggestion[] | null>(null);
-  const [personalizedInsights, setPersonalizedInsights] = useState<{id: string; title: string; content: string;}[] | null>(null);
+  const [personalizedInsights, setPersonalizedInsights] = useState<{id: string; title: string; content: string; citations?: CitationCheck[];}[] | null>(null);
   const [showDeleteDialog, setShowDeleteDialog] = useState(false);
   const [addingToWird, setAddingToWird] = useState<string | null>(null); // To track which suggestion is being added
   const [addedWirds, setAddedWirds] = useState<string[]>([]); // Track IDs of suggestions added to wird
   const [editMode, setEditMode] = useState(false);
+  const [revisions, setRevisions] = useState<RevisionView[] | null>(null);
+  const [restoringRevisionId, setRestoringRevisionId] = useState<number | null>(null);
   
   // Set up refs for timeout and loading tracking
   const isMounted = useRef(true);
@@ -328,6 +335,24 @@ export default function HalaqaDetailPage() {
   };
   
   // Analyze halaqa to generate Wird suggestions
+  // Once the lecture is transcribed, insights drawn from it replace the ones
+  // drawn from the reflection alone
+  const handleLectureTranscribed = async () => {
+    if (!halaqa) return;
+    halaqaService.clearAnalysisCache(halaqa.id);
+    try {
+      const personalizationContext = personalization?.isPersonalizationEnabled?.()
+        ? personalization.getPersonalizationContext()
+        : undefined;
+      const result = await halaqaService.analyzeHalaqaEntry(halaqa.id, { personalizationContext });
+      if (result.personalizedInsights?.length > 0) {
+        setPersonalizedInsights(result.personalizedInsights);
+      }
+    } catch (error) {
+      console.error("[handleLectureTranscribed] Error refreshing insights:", error);
+    }
+  };
+
   const handleAnalyzeHalaqa = async () => {
     // Multiple safeguards against infinite loops and unnecessary API calls
     if (analyzingHalaqa || !halaqa || !user?.id) return;
@@ -406,7 +431,15 @@ export default function HalaqaDetailPage() {
           clearTimeout(timeoutId);
           
           // Update state with the results
-          if (result.wirdSuggestions && result.wirdSuggestions.length > 0) {
+          if (result.fallback) {
+            // Show the generic suggestions, but say they aren't tailored to this halaqa
+            setWirdSuggestions(result.wirdSuggestions as any);
+            
+            toast({
+              title: "Suggestions unavailable",
+              description: "Personalized wird suggestions couldn't be generated right now, so general practices are shown instead.",
+            });
+          } else if (result.wirdSuggestions && result.wirdSuggestions.length > 0) {
             setWirdSuggestions(result.wirdSuggestions as any);
             
             // Show success message
@@ -644,6 +677,49 @@ export default function HalaqaDetailPage() {
     }
   };
   
+  // Load the edit history into the revisions dialog
+  const handleShowRevisions = async () => {
+    if (!halaqa) return;
+    
+    try {
+      setRevisions(await halaqaService.getRevisions(halaqa.id));
+    } catch (error) {
+      console.error("Error loading halaqa revisions:", error);
+      toast({
+        title: "Error",
+        description: "Failed to load the edit history.",
+        variant: "destructive",
+      });
+    }
+  };
+  
+  // Put the halaqa back the way it was before a revision
+  const handleRestoreRevision = async (revision: RevisionView) => {
+    if (!halaqa) return;
+    
+    setRestoringRevisionId(revision.id);
+    try {
+      const restoredHalaqa = await halaqaService.restoreRevision(halaqa.id, revision.id);
+      // Restoring only touches the edited details; keep the loaded suggestions
+      setHalaqa({ ...halaqa, ...restoredHalaqa, wirdSuggestions: halaqa.wirdSuggestions });
+      setRevisions(await halaqaService.getRevisions(halaqa.id));
+      
+      toast({
+        title: "Restored",
+        description: "The earlier version of this halaqa has been restored.",
+      });
+    } catch (error) {
+      console.error("Error restoring halaqa revision:", error);
+      toast({
+        title: "Error",
+        description: "Failed to restore that version. Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setRestoringRevisionId(null);
+    }
+  };
+  
   // Get personalized insights for this halaqa content
   const getPersonalizedInsights = () => {
     if (!personalizedInsights || personalizedInsights.length === 0) {
@@ -674,6 +750,7 @@ export default function HalaqaDetailPage() {
                 </p>
               ))}
             </div>
+            <CitationNotes citations={insight.citations} />
           </div>
         ))}
       </div>
@@ -917,6 +994,13 @@ Tracking your spiritual journey through regular journaling can help you recogniz
                 >
                   <Pencil className="mr-2 h-4 w-4" /> Edit
                 </Button>
+                <Button 
+                  variant="outline" 
+                  size="sm" 
+                  onClick={handleShowRevisions}
+                >
+                  <History className="mr-2 h-4 w-4" /> History
+                </Button>
                 <Button 
                   variant="destructive" 
                   size="sm" 
@@ -1048,6 +1132,13 @@ Tracking your spiritual journey through regular journaling can help you recogniz
                   </div>
                 )}
                 
+                {halaqa?.editedAt && (
+                  <div className="flex items-center" title={format(new Date(halaqa.editedAt), 'MMMM d, yyyy h:mm a')}>
+                    <Pencil className="mr-1 h-4 w-4" />
+                    <span>Edited</span>
+                  </div>
+                )}
+                
                 {halaqa?.speaker && (
                   <div className="flex items-center">
                     <User className="mr-1 h-4 w-4" />
@@ -1079,6 +1170,15 @@ Tracking your spiritual journey through regular journaling can help you recogniz
           </Card>
         )}
         
+        {halaqa && (
+          <LectureRecording
+            halaqaId={halaqa.id}
+            hasRecording={Boolean(halaqa.lectureAudioKey)}
+            status={halaqa.lectureTranscriptionStatus}
+            onTranscribed={handleLectureTranscribed}
+          />
+        )}
+        
         {/* Personalized Insights Section - Second, to provide deeper context on the reflection */}
         <Card className="mb-8">
           <CardHeader className="pb-3">
@@ -1111,6 +1211,7 @@ Tracking your spiritual journey through regular journaling can help you recogniz
                         <p className="text-sm text-muted-foreground whitespace-pre-line">
                           {insight.content}
                         </p>
+                        <CitationNotes citations={insight.citations} />
                       </CardContent>
                     </Card>
                   ))
@@ -1201,6 +1302,25 @@ Tracking your spiritual journey through regular journaling can help you recogniz
           </AlertDialogFooter>
         </AlertDialogContent>
       </AlertDialog>
+      
+      {/* Edit history dialog */}
+      <Dialog open={revisions !== null} onOpenChange={(open) => !open && setRevisions(null)}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>Edit history</DialogTitle>
+            <DialogDescription>
+              Every change to this halaqa, newest first. Restoring puts the fields back the way they were before that edit.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="max-h-[60vh] overflow-y-auto">
+            <RevisionHistory
+              revisions={revisions ?? []}
+              onRestore={handleRestoreRevision}
+              restoringId={restoringRevisionId}
+            />
+          </div>
+        </DialogContent>
+      </Dialog>
     </Layout>
   );
 } 
\ No newline at end of file
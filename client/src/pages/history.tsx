@@ -1,136 +1,346 @@
-import { useState } from "react";
+import { useEffect, useState } from "react";
+import { useMutation, useQuery, useQueryClient, keepPreviousData } from "@tanstack/react-query";
+import { useLocation } from "wouter";
 import { useAuth } from "@/hooks/useAuth";
+import { reflectionService, ReflectionListFilters } from "@/services/reflectionService";
+import { searchService } from "@/services/searchService";
+import { SearchResults } from "@/components/SearchResults";
+import { ExportDialog } from "@/components/ExportDialog";
+import { MOOD_LABELS } from "@/lib/moods";
+import { useToast } from "@/hooks/use-toast";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
 
-// Mock history data - in a real app, this would come from an API
-const mockHistory = [
-  {
-    id: "1",
-    type: "reflection",
-    title: "Morning Reflection",
-    date: "2023-04-10T08:30:00",
-    summary: "Reflected on Surah Al-Fatiha"
-  },
-  {
-    id: "2",
-    type: "chat",
-    title: "Chat with AI Assistant",
-    date: "2023-04-09T14:15:00",
-    summary: "Discussed patience in difficult times"
-  },
-  {
-    id: "3",
-    type: "halaqa",
-    title: "Weekly Halaqa Session",
-    date: "2023-04-07T19:00:00",
-    summary: "Participated in group discussion on Seerah"
-  },
-  {
-    id: "4",
-    type: "reflection",
-    title: "Evening Reflection",
-    date: "2023-04-05T21:45:00",
-    summary: "Reflected on daily deeds and improvement"
-  },
-  {
-    id: "5",
-    type: "chat",
-    title: "Chat with AI Assistant",
-    date: "2023-04-03T10:20:00",
-    summary: "Asked about maintaining consistent prayer"
-  },
-  {
-    id: "6",
-    type: "halaqa",
-    title: "Study Circle",
-    date: "2023-04-01T18:30:00",
-    summary: "Discussion about Islamic ethics"
-  },
-];
+const PAGE_SIZE = 20;
+const SEARCH_LIMIT = 50;
+const SEARCH_DEBOUNCE_MS = 300;
+
+type TypeFilter = "all" | "text" | "audio";
 
 export default function HistoryPage() {
   const { user } = useAuth();
-  const [filter, setFilter] = useState("all");
-  
-  // Filter history items by type
-  const filteredHistory = filter === "all" 
-    ? mockHistory 
-    : mockHistory.filter(item => item.type === filter);
-  
+  const [, navigate] = useLocation();
+  const [typeFilter, setTypeFilter] = useState<TypeFilter>("all");
+  const [from, setFrom] = useState("");
+  const [to, setTo] = useState("");
+  const [onlyWithActionItems, setOnlyWithActionItems] = useState(false);
+  const [tag, setTag] = useState("");
+  const [page, setPage] = useState(0);
+  const [searchInput, setSearchInput] = useState("");
+  const [searchTerm, setSearchTerm] = useState("");
+  // null: closed; "journal": the date range; a number: that conversation
+  const [exporting, setExporting] = useState<"journal" | number | null>(null);
+  const [deleting, setDeleting] = useState<number | null>(null);
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  // Search once typing pauses rather than on every keystroke
+  useEffect(() => {
+    const timeout = setTimeout(() => setSearchTerm(searchInput.trim()), SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timeout);
+  }, [searchInput]);
+
+  const filters: ReflectionListFilters = {
+    limit: PAGE_SIZE,
+    offset: page * PAGE_SIZE,
+    ...(typeFilter !== "all" && { type: typeFilter }),
+    ...(from && { from }),
+    ...(to && { to }),
+    ...(onlyWithActionItems && { hasActionItems: true }),
+    ...(tag && { tag }),
+  };
+
+  const { data, isLoading, error } = useQuery({
+    queryKey: ["reflections", filters],
+    queryFn: () => reflectionService.listReflections(filters),
+    enabled: !!user && !searchTerm,
+    placeholderData: keepPreviousData,
+  });
+
+  const tags = useQuery({
+    queryKey: ["reflections", "tags"],
+    queryFn: () => reflectionService.listTags(),
+    enabled: !!user,
+  });
+
+  const searchFilters = { limit: SEARCH_LIMIT, ...(from && { from }), ...(to && { to }) };
+  const search = useQuery({
+    queryKey: ["search", searchTerm, searchFilters],
+    queryFn: () => searchService.search(searchTerm, searchFilters),
+    enabled: !!user && !!searchTerm,
+    placeholderData: keepPreviousData,
+  });
+
+  const deleteReflection = useMutation({
+    mutationFn: (id: number) => reflectionService.deleteReflection(id),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["reflections"] });
+      queryClient.invalidateQueries({ queryKey: ["search"] });
+    },
+    onError: (error) => {
+      toast({
+        title: "Delete failed",
+        description: error instanceof Error ? error.message : "Could not delete the reflection.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Any filter change starts again from the first page
+  const updateFilter = <T,>(setter: (value: T) => void) => (value: T) => {
+    setter(value);
+    setPage(0);
+  };
+
+  const reflections = data?.reflections ?? [];
+
   return (
     <div className="container mx-auto py-8">
-      <h1 className="text-3xl font-bold mb-6">Activity History</h1>
-      
-      <div className="mb-6">
-        <div className="flex space-x-2 mb-4">
-          <button
-            className={`px-4 py-2 rounded-md ${filter === "all" ? "bg-primary text-white" : "bg-gray-100 dark:bg-gray-700"}`}
-            onClick={() => setFilter("all")}
-          >
-            All
-          </button>
-          <button
-            className={`px-4 py-2 rounded-md ${filter === "reflection" ? "bg-primary text-white" : "bg-gray-100 dark:bg-gray-700"}`}
-            onClick={() => setFilter("reflection")}
-          >
-            Reflections
-          </button>
-          <button
-            className={`px-4 py-2 rounded-md ${filter === "chat" ? "bg-primary text-white" : "bg-gray-100 dark:bg-gray-700"}`}
-            onClick={() => setFilter("chat")}
-          >
-            Chats
-          </button>
-          <button
-            className={`px-4 py-2 rounded-md ${filter === "halaqa" ? "bg-primary text-white" : "bg-gray-100 dark:bg-gray-700"}`}
-            onClick={() => setFilter("halaqa")}
-          >
-            Halaqa
-          </button>
-        </div>
+      <div className="flex items-center justify-between gap-4 mb-6">
+        <h1 className="text-3xl font-bold">Activity History</h1>
+        <button
+          className="px-4 py-2 rounded-md bg-gray-100 dark:bg-gray-700 text-sm"
+          onClick={() => setExporting("journal")}
+        >
+          Export
+        </button>
       </div>
-      
-      <div className="space-y-4">
-        {filteredHistory.map((item) => (
-          <div 
-            key={item.id} 
-            className="bg-white dark:bg-gray-800 shadow rounded-lg p-4 flex items-center"
-          >
-            <div className={`h-10 w-10 rounded-full flex items-center justify-center mr-4
-              ${item.type === "reflection" ? "bg-blue-100 text-blue-600" : 
-                item.type === "chat" ? "bg-green-100 text-green-600" : 
-                "bg-purple-100 text-purple-600"}`}
+
+      <div className="mb-6 space-y-4">
+        <input
+          type="search"
+          value={searchInput}
+          onChange={(e) => setSearchInput(e.target.value)}
+          placeholder='Search reflections, conversations, halaqa and wird notes (use "quotes" for phrases)'
+          className="w-full px-4 py-2 rounded-md border bg-white dark:bg-gray-800"
+        />
+
+        <div className={`flex space-x-2 ${searchTerm ? "hidden" : ""}`}>
+          {(["all", "text", "audio"] as const).map((type) => (
+            <button
+              key={type}
+              className={`px-4 py-2 rounded-md ${typeFilter === type ? "bg-primary text-white" : "bg-gray-100 dark:bg-gray-700"}`}
+              onClick={() => updateFilter(setTypeFilter)(type)}
             >
-              {item.type === "reflection" ? (
-                <span>📝</span>
-              ) : item.type === "chat" ? (
-                <span>💬</span>
-              ) : (
-                <span>👥</span>
-              )}
+              {type === "all" ? "All" : type === "text" ? "Written" : "Voice"}
+            </button>
+          ))}
+        </div>
+
+        <div className="flex flex-wrap items-center gap-4 text-sm">
+          <label className="flex items-center gap-2">
+            From
+            <input
+              type="date"
+              value={from}
+              max={to || undefined}
+              onChange={(e) => updateFilter(setFrom)(e.target.value)}
+              className="px-2 py-1 rounded-md border bg-white dark:bg-gray-800"
+            />
+          </label>
+          <label className="flex items-center gap-2">
+            To
+            <input
+              type="date"
+              value={to}
+              min={from || undefined}
+              onChange={(e) => updateFilter(setTo)(e.target.value)}
+              className="px-2 py-1 rounded-md border bg-white dark:bg-gray-800"
+            />
+          </label>
+          <label className={`flex items-center gap-2 ${searchTerm ? "hidden" : ""}`}>
+            <input
+              type="checkbox"
+              checked={onlyWithActionItems}
+              onChange={(e) => updateFilter(setOnlyWithActionItems)(e.target.checked)}
+            />
+            With action items
+          </label>
+          {(tags.data?.length ?? 0) > 0 && (
+            <label className={`flex items-center gap-2 ${searchTerm ? "hidden" : ""}`}>
+              Topic
+              <select
+                value={tag}
+                onChange={(e) => updateFilter(setTag)(e.target.value)}
+                className="px-2 py-1 rounded-md border bg-white dark:bg-gray-800"
+              >
+                <option value="">All topics</option>
+                {tags.data!.map(({ tag, count }) => (
+                  <option key={tag} value={tag}>{tag} ({count})</option>
+                ))}
+              </select>
+            </label>
+          )}
+        </div>
+      </div>
+
+      {searchTerm ? (
+        <div>
+          {search.data && <SearchResults results={search.data} />}
+          {search.isLoading && (
+            <div className="text-center py-10">
+              <p className="text-gray-500">Searching...</p>
             </div>
-            
-            <div className="flex-1">
-              <div className="flex justify-between">
-                <h3 className="font-medium">{item.title}</h3>
-                <span className="text-sm text-gray-500">
-                  {new Date(item.date).toLocaleDateString()} at {new Date(item.date).toLocaleTimeString([], {hour: '2-digit', minute:'2-digit'})}
-                </span>
-              </div>
-              <p className="text-gray-600 dark:text-gray-300 text-sm mt-1">
-                {item.summary}
-              </p>
+          )}
+          {search.error && (
+            <div className="text-center py-10">
+              <p className="text-red-500">Search failed. Please try again.</p>
             </div>
-            
-            <button className="ml-4 text-primary hover:underline text-sm">View</button>
-          </div>
-        ))}
-        
-        {filteredHistory.length === 0 && (
-          <div className="text-center py-10">
-            <p className="text-gray-500">No history found for the selected filter.</p>
+          )}
+        </div>
+      ) : (
+        <>
+          <div className="space-y-4">
+            {reflections.map((item) => (
+              <div
+                key={item.id}
+                className="bg-white dark:bg-gray-800 shadow rounded-lg p-4 flex items-center"
+              >
+                <div className={`h-10 w-10 rounded-full flex items-center justify-center mr-4
+                  ${item.type === "audio" ? "bg-purple-100 text-purple-600" : "bg-blue-100 text-blue-600"}`}
+                >
+                  {item.type === "audio" ? <span>🎙️</span> : <span>📝</span>}
+                </div>
+
+                <div className="flex-1 min-w-0">
+                  <div className="flex justify-between gap-4">
+                    <h3 className="font-medium">
+                      {item.title ?? (item.type === "audio" ? "Voice Reflection" : "Reflection")}
+                      {item.editedAt && (
+                        <span className="ml-2 text-xs font-normal text-gray-500" title={`Edited ${new Date(item.editedAt).toLocaleString()}`}>
+                          (edited)
+                        </span>
+                      )}
+                    </h3>
+                    <span className="text-sm text-gray-500 shrink-0">
+                      {new Date(item.timestamp).toLocaleDateString()} at {new Date(item.timestamp).toLocaleTimeString([], {hour: '2-digit', minute:'2-digit'})}
+                    </span>
+                  </div>
+                  <p className="text-gray-600 dark:text-gray-300 text-sm mt-1 truncate">
+                    {item.synopsis ?? (item.type === "audio"
+                      ? item.transcriptionStatus === "pending" ? "Transcribing…"
+                        : item.transcriptionStatus === "failed" ? "Transcription failed"
+                        : item.transcription
+                      : item.content)}
+                  </p>
+                  {item.tags.length > 0 && (
+                    <div className="flex flex-wrap gap-1 mt-2">
+                      {item.tags.map((itemTag) => (
+                        <button
+                          key={itemTag}
+                          className={`px-2 py-0.5 rounded-full text-xs ${itemTag === tag ? "bg-primary text-white" : "bg-gray-100 dark:bg-gray-700"}`}
+                          onClick={() => updateFilter(setTag)(itemTag === tag ? "" : itemTag)}
+                        >
+                          {itemTag}
+                        </button>
+                      ))}
+                    </div>
+                  )}
+                  <p className="text-xs text-gray-500 mt-1">
+                    {item.messageCount} messages
+                    {item.actionItemCount > 0 && ` · ${item.actionItemCount} action items`}
+                    {item.mood && ` · ${MOOD_LABELS[item.mood].emoji} ${MOOD_LABELS[item.mood].label} (${item.moodIntensity}/10)`}
+                  </p>
+                </div>
+
+                {item.conversationId && (
+                  <button
+                    className="ml-4 text-gray-500 hover:underline text-sm"
+                    onClick={() => setExporting(item.conversationId)}
+                  >
+                    Export
+                  </button>
+                )}
+                <button
+                  className="ml-4 text-primary hover:underline text-sm"
+                  onClick={() => navigate(`/chat/${item.id}`)}
+                >
+                  View
+                </button>
+                <button
+                  className="ml-4 text-red-500 hover:underline text-sm"
+                  onClick={() => setDeleting(item.id)}
+                >
+                  Delete
+                </button>
+              </div>
+            ))}
+
+            {isLoading && (
+              <div className="text-center py-10">
+                <p className="text-gray-500">Loading your history...</p>
+              </div>
+            )}
+
+            {error && (
+              <div className="text-center py-10">
+                <p className="text-red-500">Could not load your history. Please try again.</p>
+              </div>
+            )}
+
+            {!isLoading && !error && reflections.length === 0 && (
+              <div className="text-center py-10">
+                <p className="text-gray-500">No history found for the selected filters.</p>
+              </div>
+            )}
           </div>
-        )}
-      </div>
+
+          {data && data.total > PAGE_SIZE && (
+            <div className="flex items-center justify-between mt-6 text-sm">
+              <button
+                className="px-4 py-2 rounded-md bg-gray-100 dark:bg-gray-700 disabled:opacity-50"
+                disabled={page === 0}
+                onClick={() => setPage(page - 1)}
+              >
+                Previous
+              </button>
+              <span className="text-gray-500">
+                {data.offset + 1}–{data.offset + reflections.length} of {data.total}
+              </span>
+              <button
+                className="px-4 py-2 rounded-md bg-gray-100 dark:bg-gray-700 disabled:opacity-50"
+                disabled={!data.hasMore}
+                onClick={() => setPage(page + 1)}
+              >
+                Next
+              </button>
+            </div>
+          )}
+        </>
+      )}
+
+      <AlertDialog open={deleting !== null} onOpenChange={(open) => !open && setDeleting(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete this reflection?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Its conversation and any recording will be deleted too. This action cannot be undone.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={() => deleting !== null && deleteReflection.mutate(deleting)}>
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
+      <ExportDialog
+        open={exporting !== null}
+        onOpenChange={(open) => !open && setExporting(null)}
+        conversationId={typeof exporting === "number" ? exporting : undefined}
+        initialFrom={from}
+        initialTo={to}
+      />
     </div>
   );
-} 
\ No newline at end of file
+}
@@ -648,8 +648,15 @@ export default function FrameworkEditor() {
         regenerate
       );
       
-      // Cache the guidance
-      suggestionCache.current[cacheKey] = guidance;
+      if (guidance.fallback) {
+        toast({
+          title: "Suggestions unavailable",
+          description: "Personalized suggestions couldn't be generated, so general examples are shown instead.",
+        });
+      } else {
+        // Cache the guidance
+        suggestionCache.current[cacheKey] = guidance;
+      }
       
       // Apply suggestions based on component type
       applySuggestions(componentType, guidance);
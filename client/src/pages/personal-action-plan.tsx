@@ -1,66 +1,137 @@
 import { useEffect, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
 import { Layout } from "@/components/Layout";
-import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Card, CardContent, CardHeader } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
 import { Clock, CheckCircle, RefreshCw, ArrowRight } from "lucide-react";
 import { useLocation } from "wouter";
+import type { ActionItemPriority, ActionItemStatus } from "@shared/schema";
+import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import { actionItemService, PlanItem, PlanItemEdit } from "@/services/actionItemService";
 
-interface ActionItem {
-  id: string;
-  text: string;
-  context: string;
-  conversationId: string;
-  conversationTitle: string;
-  timestamp: number;
-  completed: boolean;
+type StatusFilter = "all" | ActionItemStatus;
+
+const STATUS_LABELS: Record<ActionItemStatus, string> = {
+  "open": "To do",
+  "in-progress": "In progress",
+  "completed": "Done",
+};
+
+const PRIORITY_LABELS: Record<ActionItemPriority, string> = {
+  low: "Low",
+  medium: "Medium",
+  high: "High",
+};
+
+const PRIORITY_ORDER: Record<ActionItemPriority, number> = { high: 0, medium: 1, low: 2 };
+
+// Unfinished items first, then by due date (soonest first), then priority
+function planOrder(a: PlanItem, b: PlanItem): number {
+  const done = Number(a.status === "completed") - Number(b.status === "completed");
+  if (done !== 0) return done;
+  if (a.dueDate !== b.dueDate) {
+    if (!a.dueDate) return 1;
+    if (!b.dueDate) return -1;
+    return a.dueDate.localeCompare(b.dueDate);
+  }
+  return PRIORITY_ORDER[a.priority] - PRIORITY_ORDER[b.priority];
+}
+
+// Where the badge on an item leads, if anywhere
+function sourceLink(item: PlanItem): string | null {
+  switch (item.sourceType) {
+    case "conversation":
+      return item.reflectionId ? `/chat/${item.reflectionId}` : null;
+    case "halaqa":
+      return `/halaqa/${item.sourceId}`;
+    case "framework":
+      return `/identity/${item.sourceId}`;
+    default:
+      return null;
+  }
+}
+
+function sourceLabel(item: PlanItem): string {
+  if (item.sourceTitle) return item.sourceTitle;
+  switch (item.sourceType) {
+    case "conversation": return "Reflection";
+    case "halaqa": return "Halaqa";
+    case "framework": return "Identity framework";
+    default: return "Added by you";
+  }
 }
 
 const PersonalActionPlan = () => {
-  const [actionItems, setActionItems] = useState<ActionItem[]>([]);
-  const [loading, setLoading] = useState(true);
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
   const [, navigate] = useLocation();
+  const [statusFilter, setStatusFilter] = useState<StatusFilter>("all");
+  const [newText, setNewText] = useState("");
+  const [newDueDate, setNewDueDate] = useState("");
+  const [importChecked, setImportChecked] = useState(false);
 
+  // A plan this browser kept before the plan moved to the server is brought over once
   useEffect(() => {
-    // Load action items from localStorage
-    const loadActionItems = () => {
-      try {
-        const savedItems = localStorage.getItem("personalActionPlan");
-        if (savedItems) {
-          setActionItems(JSON.parse(savedItems));
+    if (!user) return;
+    actionItemService.importLocalPlan()
+      .then((imported) => {
+        if (imported > 0) {
+          toast({ description: `Moved ${imported} items from this device to your action plan` });
         }
-      } catch (error) {
-        console.error("Error loading action items:", error);
-      } finally {
-        setLoading(false);
-      }
-    };
-
-    loadActionItems();
-  }, []);
-
-  const handleToggleComplete = (id: string) => {
-    const updatedItems = actionItems.map((item) => 
-      item.id === id ? { ...item, completed: !item.completed } : item
+      })
+      .catch((error) => console.error("Error importing the local action plan:", error))
+      .finally(() => setImportChecked(true));
+  }, [user]);
+
+  const { data: actionItems = [], isLoading } = useQuery({
+    queryKey: ["action-items"],
+    queryFn: () => actionItemService.list(),
+    enabled: !!user && importChecked,
+  });
+
+  const replaceItem = (updated: PlanItem) => {
+    queryClient.setQueryData<PlanItem[]>(["action-items"], (items = []) =>
+      items.map((item) => (item.id === updated.id ? updated : item))
     );
-    setActionItems(updatedItems);
-    localStorage.setItem("personalActionPlan", JSON.stringify(updatedItems));
   };
 
-  const handleRemoveItem = (id: string) => {
-    const updatedItems = actionItems.filter((item) => item.id !== id);
-    setActionItems(updatedItems);
-    localStorage.setItem("personalActionPlan", JSON.stringify(updatedItems));
-  };
+  const updateItem = useMutation({
+    mutationFn: ({ id, edit }: { id: number; edit: PlanItemEdit }) => actionItemService.update(id, edit),
+    onSuccess: replaceItem,
+    onError: () => toast({ variant: "destructive", description: "Failed to update your action plan" }),
+  });
+
+  const removeItem = useMutation({
+    mutationFn: (id: number) => actionItemService.remove(id),
+    onSuccess: (_, id) => queryClient.setQueryData<PlanItem[]>(["action-items"], (items = []) =>
+      items.filter((item) => item.id !== id)
+    ),
+    onError: () => toast({ variant: "destructive", description: "Failed to remove the item" }),
+  });
+
+  const addItem = useMutation({
+    mutationFn: () => actionItemService.create({ text: newText, ...(newDueDate && { dueDate: newDueDate }) }),
+    onSuccess: (created) => {
+      queryClient.setQueryData<PlanItem[]>(["action-items"], (items = []) => [created, ...items]);
+      setNewText("");
+      setNewDueDate("");
+    },
+    onError: () => toast({ variant: "destructive", description: "Failed to add the item" }),
+  });
 
-  const handleNavigateToChat = (conversationId: string) => {
-    navigate(`/chat/${conversationId}`);
+  const handleToggleComplete = (item: PlanItem) => {
+    updateItem.mutate({ id: item.id, edit: { status: item.status === "completed" ? "open" : "completed" } });
   };
 
-  const formatDate = (timestamp: number) => {
-    return new Date(timestamp).toLocaleDateString();
+  const formatDate = (date: string) => {
+    return new Date(date).toLocaleDateString();
   };
 
-  if (loading) {
+  if (isLoading || !importChecked) {
     return (
       <Layout title="Personal Action Plan" showSidebar>
         <div className="flex items-center justify-center h-full">
@@ -70,72 +141,154 @@ const PersonalActionPlan = () => {
     );
   }
 
+  const visibleItems = actionItems
+    .filter((item) => statusFilter === "all" || item.status === statusFilter)
+    .sort(planOrder);
+  const today = new Date().toISOString().slice(0, 10);
+
   return (
     <Layout title="Personal Action Plan" showSidebar>
       <div className="container mx-auto p-4">
         <h1 className="text-2xl font-bold mb-6 dark:text-white">Your Personal Action Plan</h1>
-        
-        {actionItems.length === 0 ? (
+
+        <form
+          className="flex flex-wrap gap-2 mb-4"
+          onSubmit={(e) => {
+            e.preventDefault();
+            if (newText.trim()) addItem.mutate();
+          }}
+        >
+          <Input
+            value={newText}
+            onChange={(e) => setNewText(e.target.value)}
+            placeholder="Add your own action item"
+            maxLength={500}
+            className="flex-1 min-w-[12rem]"
+          />
+          <input
+            type="date"
+            value={newDueDate}
+            onChange={(e) => setNewDueDate(e.target.value)}
+            className="px-2 py-1 rounded-md border bg-white dark:bg-gray-800 text-sm"
+            aria-label="Due date"
+          />
+          <Button type="submit" disabled={!newText.trim() || addItem.isPending}>Add</Button>
+        </form>
+
+        <div className="flex space-x-2 mb-6">
+          {(["all", "open", "in-progress", "completed"] as const).map((status) => (
+            <button
+              key={status}
+              className={`px-3 py-1 rounded-md text-sm ${statusFilter === status ? "bg-primary text-white" : "bg-gray-100 dark:bg-gray-700"}`}
+              onClick={() => setStatusFilter(status)}
+            >
+              {status === "all" ? "All" : STATUS_LABELS[status]}
+            </button>
+          ))}
+        </div>
+
+        {visibleItems.length === 0 ? (
           <Card className="bg-white dark:bg-gray-800 shadow rounded-lg p-4">
             <CardContent className="pt-6">
               <p className="text-center text-gray-500 dark:text-gray-400">
-                You haven't added any action items to your personal plan yet.
-              </p>
-              <p className="text-center text-gray-500 dark:text-gray-400 mt-2">
-                Go to a chat and toggle items to add them here.
+                {actionItems.length === 0
+                  ? "You haven't added any action items to your personal plan yet."
+                  : "No action items match this filter."}
               </p>
+              {actionItems.length === 0 && (
+                <p className="text-center text-gray-500 dark:text-gray-400 mt-2">
+                  Action items generated from your reflections and halaqas appear here.
+                </p>
+              )}
             </CardContent>
           </Card>
         ) : (
           <div className="grid gap-4">
-            {actionItems.map((item) => (
-              <Card key={item.id} className={`bg-white dark:bg-gray-800 shadow rounded-lg transition-all ${item.completed ? 'opacity-70' : ''}`}>
-                <CardHeader className="pb-2">
-                  <div className="flex justify-between items-center">
-                    <Badge 
-                      variant="outline" 
-                      className="cursor-pointer"
-                      onClick={() => handleNavigateToChat(item.conversationId)}
-                    >
-                      {item.conversationTitle || "Reflection"}
-                      <ArrowRight className="ml-1 h-3 w-3" />
-                    </Badge>
-                    <span className="text-xs text-gray-500 dark:text-gray-400 flex items-center">
-                      <Clock className="h-3 w-3 mr-1" />
-                      {formatDate(item.timestamp)}
-                    </span>
-                  </div>
-                </CardHeader>
-                <CardContent>
-                  <div className="flex items-start gap-2">
-                    <button 
-                      onClick={() => handleToggleComplete(item.id)}
-                      className="mt-1 flex-shrink-0"
-                    >
-                      <CheckCircle className={`h-5 w-5 ${item.completed ? 'text-green-500' : 'text-gray-300 dark:text-gray-600'}`} />
-                    </button>
-                    <div>
-                      <p className={`font-medium dark:text-white ${item.completed ? 'line-through text-gray-500 dark:text-gray-400' : ''}`}>
-                        {item.text}
-                      </p>
-                      {item.context && (
-                        <p className="text-sm text-gray-500 dark:text-gray-400 mt-1">
-                          {item.context}
+            {visibleItems.map((item) => {
+              const completed = item.status === "completed";
+              const link = sourceLink(item);
+              const overdue = !completed && !!item.dueDate && item.dueDate < today;
+
+              return (
+                <Card key={item.id} className={`bg-white dark:bg-gray-800 shadow rounded-lg transition-all ${completed ? 'opacity-70' : ''}`}>
+                  <CardHeader className="pb-2">
+                    <div className="flex justify-between items-center">
+                      <Badge
+                        variant="outline"
+                        className={link ? "cursor-pointer" : ""}
+                        onClick={() => link && navigate(link)}
+                      >
+                        {sourceLabel(item)}
+                        {link && <ArrowRight className="ml-1 h-3 w-3" />}
+                      </Badge>
+                      <span className="text-xs text-gray-500 dark:text-gray-400 flex items-center">
+                        <Clock className="h-3 w-3 mr-1" />
+                        {completed && item.completedAt ? `Done ${formatDate(item.completedAt)}` : formatDate(item.createdAt)}
+                      </span>
+                    </div>
+                  </CardHeader>
+                  <CardContent>
+                    <div className="flex items-start gap-2">
+                      <button
+                        onClick={() => handleToggleComplete(item)}
+                        className="mt-1 flex-shrink-0"
+                      >
+                        <CheckCircle className={`h-5 w-5 ${completed ? 'text-green-500' : 'text-gray-300 dark:text-gray-600'}`} />
+                      </button>
+                      <div>
+                        <p className={`font-medium dark:text-white ${completed ? 'line-through text-gray-500 dark:text-gray-400' : ''}`}>
+                          {item.text}
                         </p>
-                      )}
+                        {item.context && (
+                          <p className="text-sm text-gray-500 dark:text-gray-400 mt-1">
+                            {item.context}
+                          </p>
+                        )}
+                      </div>
+                    </div>
+                    <div className="flex flex-wrap items-center justify-between gap-2 mt-3 text-xs">
+                      <div className="flex flex-wrap items-center gap-2">
+                        <select
+                          value={item.status}
+                          onChange={(e) => updateItem.mutate({ id: item.id, edit: { status: e.target.value as ActionItemStatus } })}
+                          className="px-2 py-1 rounded-md border bg-white dark:bg-gray-800"
+                          aria-label="Status"
+                        >
+                          {Object.entries(STATUS_LABELS).map(([value, label]) => (
+                            <option key={value} value={value}>{label}</option>
+                          ))}
+                        </select>
+                        <select
+                          value={item.priority}
+                          onChange={(e) => updateItem.mutate({ id: item.id, edit: { priority: e.target.value as ActionItemPriority } })}
+                          className="px-2 py-1 rounded-md border bg-white dark:bg-gray-800"
+                          aria-label="Priority"
+                        >
+                          {Object.entries(PRIORITY_LABELS).map(([value, label]) => (
+                            <option key={value} value={value}>{label} priority</option>
+                          ))}
+                        </select>
+                        <label className={`flex items-center gap-1 ${overdue ? "text-red-500" : "text-gray-500 dark:text-gray-400"}`}>
+                          Due
+                          <input
+                            type="date"
+                            value={item.dueDate ?? ""}
+                            onChange={(e) => updateItem.mutate({ id: item.id, edit: { dueDate: e.target.value || null } })}
+                            className="px-2 py-1 rounded-md border bg-white dark:bg-gray-800"
+                          />
+                        </label>
+                      </div>
+                      <button
+                        onClick={() => removeItem.mutate(item.id)}
+                        className="text-xs text-red-500 hover:text-red-700 dark:text-red-400 dark:hover:text-red-300"
+                      >
+                        Remove
+                      </button>
                     </div>
-                  </div>
-                  <div className="flex justify-end mt-2">
-                    <button 
-                      onClick={() => handleRemoveItem(item.id)}
-                      className="text-xs text-red-500 hover:text-red-700 dark:text-red-400 dark:hover:text-red-300"
-                    >
-                      Remove
-                    </button>
-                  </div>
-                </CardContent>
-              </Card>
-            ))}
+                  </CardContent>
+                </Card>
+              );
+            })}
           </div>
         )}
       </div>
@@ -143,4 +296,4 @@ const PersonalActionPlan = () => {
   );
 };
 
-export default PersonalActionPlan; 
\ No newline at end of file
+export default PersonalActionPlan;
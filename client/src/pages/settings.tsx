@@ -18,6 +18,7 @@ import {
 import { ArrowBackIcon } from '@chakra-ui/icons';
 import { useLocation } from 'wouter';
 import { userService, UserSettings, UserPreferences } from '../services/userService';
+import { UsagePanel } from '../components/UsagePanel';
 
 export default function Settings() {
   const [settings, setSettings] = useState<UserSettings | null>(null);
@@ -170,6 +171,8 @@ export default function Settings() {
             </Stack>
           </CardBody>
         </Card>
+        
+        <UsagePanel />
       </Stack>
     </Container>
   );
@@ -0,0 +1,64 @@
+/// <reference types="jest" />
+import type { TranscriptionJobView } from '@shared/schema';
+import { TranscriptionService, TranscriptionTimeoutError } from '../transcriptionService';
+
+function jobResponse(status: TranscriptionJobView['status'], extra: Partial<TranscriptionJobView> = {}) {
+  return {
+    ok: true,
+    status: 200,
+    json: async () => ({ job: { id: 1, status, attempts: 0, maxAttempts: 3, ...extra } }),
+  };
+}
+
+function errorResponse(status: number) {
+  return { ok: false, status, json: async () => ({ error: `HTTP ${status}` }) };
+}
+
+describe('TranscriptionService.waitForJob', () => {
+  const fetchMock = jest.fn();
+  const service = new TranscriptionService(1);
+
+  beforeEach(() => {
+    // The shared setup fakes timers; these waits are a millisecond or two
+    jest.useRealTimers();
+    fetchMock.mockReset();
+    global.fetch = fetchMock as unknown as typeof fetch;
+  });
+
+  it('polls until the job succeeds, retrying failed status checks', async () => {
+    fetchMock
+      .mockResolvedValueOnce(jobResponse('queued'))
+      .mockRejectedValueOnce(new TypeError('Failed to fetch'))
+      .mockResolvedValueOnce(errorResponse(502))
+      .mockResolvedValueOnce(jobResponse('succeeded', { transcription: 'Alhamdulillah' }));
+
+    const job = await service.waitForJob(1);
+
+    expect(job.transcription).toBe('Alhamdulillah');
+    expect(fetchMock).toHaveBeenCalledTimes(4);
+  });
+
+  it('gives up on a status check the server refuses', async () => {
+    fetchMock.mockResolvedValue(errorResponse(404));
+
+    await expect(service.waitForJob(1)).rejects.toThrow('HTTP 404');
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('times out a job that never finishes', async () => {
+    fetchMock.mockResolvedValue(jobResponse('queued'));
+
+    await expect(service.waitForJob(1, undefined, { maxWaitMs: 20 })).rejects.toBeInstanceOf(TranscriptionTimeoutError);
+  });
+
+  it('stops polling once aborted', async () => {
+    fetchMock.mockResolvedValue(jobResponse('queued'));
+    const wait = new AbortController();
+    const slow = new TranscriptionService(60_000);
+
+    const waiting = slow.waitForJob(1, () => wait.abort(), { signal: wait.signal });
+
+    await expect(waiting).rejects.toMatchObject({ name: 'AbortError' });
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,88 @@
+import { API } from '../lib/api';
+import type { ActionItemFilters, ActionItemPriority, ActionItemSource, ActionItemStatus, ActionItemView } from '@shared/schema';
+
+// An action plan item as the API sends it, with its dates as ISO strings
+export type PlanItem = Omit<ActionItemView, 'createdAt' | 'updatedAt' | 'completedAt' | 'editedAt'> & {
+  createdAt: string;
+  updatedAt: string;
+  completedAt: string | null;
+  editedAt: string | null;
+};
+
+export interface NewPlanItem {
+  text: string;
+  context?: string | null;
+  sourceType?: ActionItemSource;
+  sourceId?: string | number;
+  /** YYYY-MM-DD */
+  dueDate?: string | null;
+  priority?: ActionItemPriority;
+}
+
+export interface PlanItemEdit {
+  text?: string;
+  context?: string | null;
+  dueDate?: string | null;
+  priority?: ActionItemPriority;
+  status?: ActionItemStatus;
+}
+
+// Where the plan was kept before it moved to the server
+const LEGACY_PLAN_KEY = 'personalActionPlan';
+
+/**
+ * Service for the personal action plan
+ */
+export class ActionItemService {
+  async list(filters: ActionItemFilters = {}): Promise<PlanItem[]> {
+    const params = new URLSearchParams();
+    for (const [key, value] of Object.entries(filters)) {
+      if (value !== undefined) params.set(key, String(value));
+    }
+    const query = params.toString();
+    const { actionItems } = await API.get<{ actionItems: PlanItem[] }>(`/api/action-items${query ? `?${query}` : ''}`);
+    return actionItems;
+  }
+
+  async create(item: NewPlanItem): Promise<PlanItem> {
+    const { actionItem } = await API.post<{ actionItem: PlanItem }>('/api/action-items', item);
+    return actionItem;
+  }
+
+  async update(id: number, edit: PlanItemEdit): Promise<PlanItem> {
+    const { actionItem } = await API.patch<{ actionItem: PlanItem }>(`/api/action-items/${id}`, edit);
+    return actionItem;
+  }
+
+  async remove(id: number): Promise<void> {
+    await API.delete(`/api/action-items/${id}`);
+  }
+
+  /**
+   * Move a plan this browser kept in localStorage to the server, once
+   */
+  async importLocalPlan(): Promise<number> {
+    const saved = localStorage.getItem(LEGACY_PLAN_KEY);
+    if (!saved) return 0;
+
+    let items: unknown;
+    try {
+      items = JSON.parse(saved);
+    } catch {
+      localStorage.removeItem(LEGACY_PLAN_KEY);
+      return 0;
+    }
+
+    if (!Array.isArray(items) || items.length === 0) {
+      localStorage.removeItem(LEGACY_PLAN_KEY);
+      return 0;
+    }
+
+    const { imported } = await API.post<{ imported: number }>('/api/action-items/import', { items });
+    localStorage.removeItem(LEGACY_PLAN_KEY);
+    return imported;
+  }
+}
+
+// Create a singleton instance
+export const actionItemService = new ActionItemService();
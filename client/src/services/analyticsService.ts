@@ -0,0 +1,23 @@
+import { API } from '../lib/api';
+import type { MoodAnalytics } from '@shared/schema';
+
+/**
+ * Service for the signed-in user's analytics
+ */
+export class AnalyticsService {
+  /**
+   * Mood check-ins over time, by weekday and against wird completion.
+   * Dates are inclusive, YYYY-MM-DD; the server defaults to the last 90 days.
+   */
+  async getMoodAnalytics(range: { from?: string; to?: string } = {}): Promise<MoodAnalytics> {
+    const params = new URLSearchParams();
+    if (range.from) params.set('from', range.from);
+    if (range.to) params.set('to', range.to);
+    const query = params.toString();
+
+    return API.get<MoodAnalytics>(`/api/analytics/mood${query ? `?${query}` : ''}`);
+  }
+}
+
+// Create a singleton instance
+export const analyticsService = new AnalyticsService();
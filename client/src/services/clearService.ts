@@ -9,6 +9,8 @@ export interface CLEARSuggestions {
   expandable: string[];
   adaptable: string[];
   rewardLinked: string[];
+  /** True when these are generic suggestions because generation failed */
+  fallback?: boolean;
 }
 
 /**
@@ -50,7 +52,8 @@ export class CLEARService {
         lowFriction: ['Make it easy to start', 'Reduce initial effort needed'],
         expandable: ['Start small, scale up when able', 'Have levels of commitment'],
         adaptable: ['Have backup plans', 'Adjust to different scenarios'],
-        rewardLinked: ['Connect to immediate benefits', 'Link to spiritual growth']
+        rewardLinked: ['Connect to immediate benefits', 'Link to spiritual growth'],
+        fallback: true
       };
     }
   }
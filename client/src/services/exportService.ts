@@ -0,0 +1,77 @@
+import { API } from '../lib/api';
+import type { ExportFormat, ExportPrivacy, ExportSource, TranscriptFormat } from '@shared/schema';
+
+export interface JournalExportFilters {
+  sources?: ExportSource[];
+  /** Inclusive dates, YYYY-MM-DD */
+  from?: string;
+  to?: string;
+}
+
+// Save a downloaded file through a temporary link
+function saveFile(blob: Blob, filename: string) {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  document.body.appendChild(a);
+  a.click();
+
+  setTimeout(() => {
+    document.body.removeChild(a);
+    window.URL.revokeObjectURL(url);
+  }, 0);
+}
+
+/**
+ * Service for exporting the signed-in user's journal as Markdown, PDF or a
+ * JSON bundle. Exports follow the user's history and privacy settings.
+ */
+export class ExportService {
+  /**
+   * What exports include; follows the history and privacy settings
+   */
+  async getSettings(): Promise<ExportPrivacy> {
+    return API.get<ExportPrivacy>('/api/export/settings');
+  }
+
+  /**
+   * Download one conversation; Markdown and PDF show the selected branch
+   */
+  async downloadConversation(conversationId: number, format: ExportFormat): Promise<void> {
+    const { blob, filename } = await API.download(`/api/export/conversations/${conversationId}?format=${format}`);
+    saveFile(blob, filename ?? `sahabai-conversation-${conversationId}`);
+  }
+
+  /**
+   * Download a voice reflection's transcript as subtitles or text
+   */
+  async downloadTranscript(reflectionId: number, format: Exclude<TranscriptFormat, 'json'>): Promise<void> {
+    const { blob, filename } = await API.download(`/api/reflections/${reflectionId}/transcript?format=${format}`);
+    saveFile(blob, filename ?? `sahabai-reflection-${reflectionId}.${format}`);
+  }
+
+  /**
+   * Download the transcript of a halaqa's lecture recording
+   */
+  async downloadLectureTranscript(halaqaId: number, format: Exclude<TranscriptFormat, 'json'>): Promise<void> {
+    const { blob, filename } = await API.download(`/api/halaqas/${halaqaId}/transcript?format=${format}`);
+    saveFile(blob, filename ?? `sahabai-halaqa-${halaqaId}.${format}`);
+  }
+
+  /**
+   * Download reflections, conversations, halaqas and wirds in a date range
+   */
+  async downloadJournal(format: ExportFormat, filters: JournalExportFilters = {}): Promise<void> {
+    const params = new URLSearchParams({ format });
+    if (filters.sources?.length) params.set('sources', filters.sources.join(','));
+    if (filters.from) params.set('from', filters.from);
+    if (filters.to) params.set('to', filters.to);
+
+    const { blob, filename } = await API.download(`/api/export?${params.toString()}`);
+    saveFile(blob, filename ?? 'sahabai-journal');
+  }
+}
+
+// Create a singleton instance
+export const exportService = new ExportService();
@@ -8,6 +8,8 @@ export interface FrameworkGuidance {
   suggestions: string[];
   examples: string[];
   feedback: string;
+  /** True when these are generic suggestions because generation failed */
+  fallback?: boolean;
 }
 
 /**
@@ -27,7 +29,7 @@ export async function fetchFrameworkGuidance(
 ): Promise<FrameworkGuidance> {
   console.log(`Fetching guidance for ${componentType} based on "${input}"`);
   try {
-    const response = await API.post('/api/framework-guidance', {
+    const response = await API.post<{ guidance: FrameworkGuidance; fallback?: boolean }>('/api/framework-guidance', {
       input,
       componentType,
       previousComponents,
@@ -35,7 +37,7 @@ export async function fetchFrameworkGuidance(
     });
     
     console.log(`Received guidance for ${componentType}`);
-    return response.guidance;
+    return { ...response.guidance, fallback: Boolean(response.fallback) };
   } catch (error) {
     console.error(`Error fetching guidance for ${componentType}:`, error);
     // Return default empty guidance on error
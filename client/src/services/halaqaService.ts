@@ -2,6 +2,8 @@ import { v4 } from 'uuid';
 import { format } from 'date-fns';
 import { formatDate } from '@/lib/utils';
 import axios from 'axios';
+import type { RevisionView, TranscriptionJobView, TranscriptionStatus, TranscriptSegment } from '@shared/schema';
+import type { RecordingUrl } from './reflectionService';
 
 // Define types directly in this file to avoid import issues
 export interface HalaqaActionItem {
@@ -34,6 +36,15 @@ export interface Halaqa {
   createdAt: Date;
   updatedAt: Date;
   isArchived: boolean | null;
+  editedAt?: Date | null;
+  lectureAudioKey?: string | null;
+  lectureTranscriptionStatus?: TranscriptionStatus | null;
+}
+
+// The transcript of a halaqa's lecture recording, with the time of each sentence
+export interface LectureTranscript {
+  text: string;
+  segments: TranscriptSegment[];
 }
 
 export interface HalaqaFormData {
@@ -407,6 +418,26 @@ export class HalaqaService {
     return this.analyzeCache.has(numericId);
   }
 
+  /**
+   * Forget a halaqa's cached analysis, e.g. once its lecture is transcribed
+   * and the insights can draw on it
+   * @param id Halaqa ID
+   */
+  clearAnalysisCache(id: string | number): void {
+    const numericId = typeof id === 'string' ? parseInt(id) : id;
+    this.analyzeCache.delete(numericId);
+
+    try {
+      const cacheObj: Record<number, any> = {};
+      this.analyzeCache.forEach((value, key) => {
+        cacheObj[key] = value;
+      });
+      localStorage.setItem('halaqaAnalyzeCache', JSON.stringify(cacheObj));
+    } catch (err) {
+      console.warn('Failed to save analyze cache to localStorage:', err);
+    }
+  }
+
   /**
    * Analyze a halaqa entry to generate action items and wird suggestions
    * @param id Halaqa ID
@@ -488,7 +519,9 @@ export class HalaqaService {
       // Ensure we have the expected fields in the response
       const processedResult = {
         wirdSuggestions: result.wirdSuggestions || [],
-        personalizedInsights: result.personalizedInsights || []
+        personalizedInsights: result.personalizedInsights || [],
+        // Generic suggestions were returned because generation failed
+        fallback: Boolean(result.fallback?.wirdSuggestions)
       };
       
       // Log some stats about the response for debugging
@@ -497,6 +530,11 @@ export class HalaqaService {
         insightsCount: processedResult.personalizedInsights.length
       });
       
+      // Don't cache generic suggestions; the next analysis should try again
+      if (processedResult.fallback) {
+        return processedResult;
+      }
+      
       // Cache the result
       this.analyzeCache.set(numericId, processedResult);
       
@@ -585,6 +623,133 @@ export class HalaqaService {
     }
   }
 
+  /**
+   * Get the edit history of a halaqa, newest first
+   * @param id Halaqa ID
+   * @returns Revisions with word diffs of each changed field
+   */
+  async getRevisions(id: string | number): Promise<RevisionView[]> {
+    try {
+      const response = await fetch(`${this.apiBase}/${id}/revisions`, {
+        headers: {
+          ...getAuthHeaders()
+        }
+      });
+      
+      if (!response.ok) {
+        throw new Error(`Failed to fetch halaqa revisions: ${response.statusText}`);
+      }
+      
+      const data = await response.json();
+      return data.revisions;
+    } catch (error) {
+      console.error("Error fetching halaqa revisions:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Put a halaqa back the way it was before a revision
+   * @param id Halaqa ID
+   * @param revisionId Revision to undo
+   * @returns Restored Halaqa object
+   */
+  async restoreRevision(id: string | number, revisionId: number): Promise<Halaqa> {
+    try {
+      const response = await fetch(`${this.apiBase}/${id}/revisions/${revisionId}/restore`, {
+        method: 'POST',
+        headers: {
+          ...getAuthHeaders()
+        }
+      });
+      
+      if (!response.ok) {
+        throw new Error(`Failed to restore halaqa revision: ${response.statusText}`);
+      }
+      
+      const { halaqa } = await response.json();
+      return {
+        ...halaqa,
+        date: new Date(halaqa.date),
+        createdAt: new Date(halaqa.createdAt),
+        updatedAt: new Date(halaqa.updatedAt),
+        editedAt: halaqa.editedAt ? new Date(halaqa.editedAt) : null,
+      };
+    } catch (error) {
+      console.error("Error restoring halaqa revision:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Attach an uploaded recording of the lecture (see uploadService) and
+   * queue it for transcription
+   * @param id Halaqa ID
+   * @param uploadId A finished upload
+   * @returns The transcription job, to follow with transcriptionService
+   */
+  async attachRecording(id: string | number, uploadId: string): Promise<TranscriptionJobView> {
+    try {
+      const response = await fetch(`${this.apiBase}/${id}/recording`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...getAuthHeaders()
+        },
+        body: JSON.stringify({ uploadId }),
+      });
+      
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        throw new Error(errorData.details || errorData.error || 'Failed to attach recording');
+      }
+      
+      const { transcriptionJob } = await response.json();
+      return transcriptionJob;
+    } catch (error) {
+      console.error("Error attaching halaqa recording:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get the transcript of a halaqa's lecture recording
+   * @param id Halaqa ID
+   */
+  async getLectureTranscript(id: string | number): Promise<LectureTranscript> {
+    const response = await fetch(`${this.apiBase}/${id}/transcript`, {
+      headers: {
+        ...getAuthHeaders()
+      }
+    });
+    
+    if (!response.ok) {
+      throw new Error(`Failed to fetch lecture transcript: ${response.statusText}`);
+    }
+    
+    return response.json();
+  }
+
+  /**
+   * A link an <audio> element can play the lecture recording from. It stops
+   * working at expiresAt.
+   * @param id Halaqa ID
+   */
+  async getRecordingUrl(id: string | number): Promise<RecordingUrl> {
+    const response = await fetch(`${this.apiBase}/${id}/recording/url`, {
+      headers: {
+        ...getAuthHeaders()
+      }
+    });
+    
+    if (!response.ok) {
+      throw new Error(`Failed to fetch recording link: ${response.statusText}`);
+    }
+    
+    const { url, expiresAt } = await response.json();
+    return { url, expiresAt: new Date(expiresAt) };
+  }
+
   /**
    * Generate application suggestions based on user inputs
    * @param descriptionSection Description of topic and speaker
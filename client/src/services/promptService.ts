@@ -0,0 +1,34 @@
+import { format } from 'date-fns';
+import { API } from '../lib/api';
+import type { GuidedPrompt, PromptCategory, PromptLibrary, PromptOfTheDay, PromptSeason } from '@shared/schema';
+
+/**
+ * Service for the guided muhasaba prompt library
+ */
+export class PromptService {
+  /**
+   * The prompt library, optionally narrowed to a category or season
+   */
+  async getLibrary(filters: { category?: PromptCategory; season?: PromptSeason } = {}): Promise<PromptLibrary> {
+    const params = new URLSearchParams();
+    if (filters.category) params.set('category', filters.category);
+    if (filters.season) params.set('season', filters.season);
+    const query = params.toString();
+
+    return API.get<PromptLibrary>(`/api/prompts${query ? `?${query}` : ''}`);
+  }
+
+  /**
+   * The signed-in user's prompt for their local day
+   */
+  async getPromptOfTheDay(date: Date = new Date()): Promise<PromptOfTheDay> {
+    return API.get<PromptOfTheDay>(`/api/prompts/today?date=${format(date, 'yyyy-MM-dd')}`);
+  }
+
+  async getPrompt(id: string): Promise<GuidedPrompt> {
+    return API.get<GuidedPrompt>(`/api/prompts/${encodeURIComponent(id)}`);
+  }
+}
+
+// Create a singleton instance
+export const promptService = new PromptService();
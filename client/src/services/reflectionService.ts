@@ -1,4 +1,7 @@
 import { PrivateProfile } from '@/types/profile';
+import { API } from '@/lib/api';
+import type { CitationCheck, InspiredPractice, Message, Mood, RevisionView, TagCount, TranscriptionStatus, TranscriptSegment } from '@shared/schema';
+import type { WirdSuggestion } from './wirdService';
 
 // Define types for reflection requests and responses
 export interface ReflectionRequest {
@@ -31,6 +34,119 @@ export interface ReflectionResponse {
   transcription?: string | null;
 }
 
+// A reflection as listed in history, with its conversation summarized
+export interface ReflectionListItem {
+  id: number;
+  userId: string | null;
+  content: string;
+  type: 'audio' | 'text';
+  timestamp: string;
+  transcription: string | null;
+  /** Set on voice reflections while and after they are transcribed */
+  transcriptionStatus: TranscriptionStatus | null;
+  editedAt: string | null;
+  mood: Mood | null;
+  moodIntensity: number | null;
+  conversationId: number | null;
+  /** Generated or edited by the user; null until the first exchange is labeled */
+  title: string | null;
+  synopsis: string | null;
+  tags: string[];
+  messageCount: number;
+  actionItemCount: number;
+}
+
+export interface ReflectionPage {
+  reflections: ReflectionListItem[];
+  total: number;
+  limit: number;
+  offset: number;
+  hasMore: boolean;
+}
+
+export interface ReflectionListFilters {
+  limit?: number;
+  offset?: number;
+  /** Inclusive dates, YYYY-MM-DD */
+  from?: string;
+  to?: string;
+  type?: 'audio' | 'text';
+  hasActionItems?: boolean;
+  tag?: string;
+}
+
+export interface StoredConversation {
+  id: number;
+  reflectionId: number;
+  messages: Message[];
+  actionItems: string[] | null;
+  /** Guided prompt the reflection answered */
+  promptId: string | null;
+  /** Last message of the selected branch; null means the latest message */
+  activeMessageId: string | null;
+  title: string | null;
+  synopsis: string | null;
+  tags: string[] | null;
+  /** Wird practices suggested from the conversation */
+  wirdSuggestions: WirdSuggestion[] | null;
+  timestamp: string;
+}
+
+export interface ReflectionDetail {
+  reflection: Omit<ReflectionListItem, 'conversationId' | 'title' | 'synopsis' | 'tags' | 'messageCount' | 'actionItemCount'>;
+  conversation: StoredConversation | null;
+}
+
+// A voice reflection's transcript with the time of each sentence
+export interface ReflectionTranscript {
+  text: string;
+  segments: TranscriptSegment[];
+}
+
+export interface RecordingUrl {
+  url: string;
+  expiresAt: Date;
+}
+
+export interface MoodCheckInData {
+  mood: Mood;
+  /** 1 (faintly) to 10 (strongly) */
+  intensity: number;
+}
+
+export interface ReflectionEdit {
+  /** Written reflections edit their content, voice reflections their transcription */
+  content?: string;
+  transcription?: string;
+  /** Ask the follow-up questions again for the edited text */
+  regenerateFollowUp?: boolean;
+  personalizationContext?: any;
+}
+
+export interface ConversationLabelEdit {
+  title?: string;
+  synopsis?: string | null;
+  tags?: string[];
+}
+
+// A new reply from regenerating or forking, now the end of the selected branch
+export interface BranchReply {
+  conversation: StoredConversation;
+  understanding: string;
+  questions: string[];
+  fallback?: boolean;
+  citations?: CitationCheck[];
+}
+
+export interface ReflectionEditResult extends ReflectionDetail {
+  /** Null when the edit changed nothing */
+  revision: RevisionView | null;
+  understanding?: string;
+  questions?: string[];
+  fallback?: boolean;
+  citations?: CitationCheck[];
+}
+
 /**
  * Service for submitting and retrieving reflections
  */
@@ -41,9 +157,15 @@ class ReflectionService {
    * Submit a reflection with optional personalization
    * @param content The reflection content
    * @param personalizationContext Optional personalization data object
+   * @param mood Optional mood check-in saved with the reflection
    * @returns The processed reflection
    */
-  async submitReflection(content: string, personalizationContext?: any): Promise<ReflectionResponse> {
+  async submitReflection(
+    content: string,
+    personalizationContext?: any,
+    mood?: MoodCheckInData | null,
+    promptId?: string | null
+  ): Promise<ReflectionResponse> {
     try {
       console.log("Submitting reflection with personalization:", !!personalizationContext);
       
@@ -100,6 +222,8 @@ class ReflectionService {
       const requestBody = {
         content,
         type: 'text',
+        ...(mood && { mood: mood.mood, moodIntensity: mood.intensity }),
+        ...(promptId && { promptId }),
       };
       
       // Add personalization to request body
@@ -148,6 +272,163 @@ class ReflectionService {
       throw error;
     }
   }
+
+  /**
+   * List the signed-in user's reflections, newest first
+   */
+  async listReflections(filters: ReflectionListFilters = {}): Promise<ReflectionPage> {
+    const params = new URLSearchParams();
+    for (const [key, value] of Object.entries(filters)) {
+      if (value !== undefined && value !== '') params.set(key, String(value));
+    }
+    const query = params.toString();
+    return API.get<ReflectionPage>(`${this.apiEndpoint}/reflections${query ? `?${query}` : ''}`);
+  }
+
+  /**
+   * Tags on the signed-in user's conversations, most used first
+   */
+  async listTags(): Promise<TagCount[]> {
+    const { tags } = await API.get<{ tags: TagCount[] }>(`${this.apiEndpoint}/reflections/tags`);
+    return tags;
+  }
+
+  /**
+   * Get one of the signed-in user's reflections with its conversation
+   */
+  async getReflection(id: number): Promise<ReflectionDetail> {
+    return API.get<ReflectionDetail>(`${this.apiEndpoint}/reflections/${id}`);
+  }
+
+  /**
+   * A voice reflection's transcript with the time of each sentence
+   */
+  async getTranscript(id: number): Promise<ReflectionTranscript> {
+    return API.get<ReflectionTranscript>(`${this.apiEndpoint}/reflections/${id}/transcript`);
+  }
+
+  /**
+   * A link an <audio> element can play a voice reflection's recording from.
+   * It stops working at expiresAt.
+   */
+  async getRecordingUrl(id: number): Promise<RecordingUrl> {
+    const { url, expiresAt } = await API.get<{ url: string; expiresAt: string }>(`${this.apiEndpoint}/reflections/${id}/audio/url`);
+    return { url: API.baseUrl + url, expiresAt: new Date(expiresAt) };
+  }
+
+  /**
+   * Delete a reflection with its conversation and recording
+   */
+  async deleteReflection(id: number): Promise<void> {
+    await API.delete(`${this.apiEndpoint}/reflections/${id}`);
+  }
+
+  /**
+   * Correct a reflection's text; every change is kept as a revision
+   */
+  async updateReflection(id: number, edit: ReflectionEdit): Promise<ReflectionEditResult> {
+    return API.patch<ReflectionEditResult>(`${this.apiEndpoint}/reflections/${id}`, edit);
+  }
+
+  /**
+   * Save or change the mood check-in of a reflection
+   */
+  async setMood(id: number, checkIn: MoodCheckInData): Promise<ReflectionDetail['reflection']> {
+    const { reflection } = await API.put<{ reflection: ReflectionDetail['reflection'] }>(`${this.apiEndpoint}/reflections/${id}/mood`, checkIn);
+    return reflection;
+  }
+
+  /**
+   * Edit history of a reflection, newest first
+   */
+  async getRevisions(id: number): Promise<RevisionView[]> {
+    const { revisions } = await API.get<{ revisions: RevisionView[] }>(`${this.apiEndpoint}/reflections/${id}/revisions`);
+    return revisions;
+  }
+
+  /**
+   * Put a reflection back the way it was before the given revision
+   */
+  async restoreRevision(id: number, revisionId: number): Promise<ReflectionEditResult> {
+    return API.post<ReflectionEditResult>(`${this.apiEndpoint}/reflections/${id}/revisions/${revisionId}/restore`);
+  }
+
+  /**
+   * Ask for another reply to the same message; the earlier reply is kept as an alternative
+   */
+  async regenerateReply(conversationId: number, messageId: string, personalizationContext?: any): Promise<BranchReply> {
+    return API.post<BranchReply>(
+      `${this.apiEndpoint}/conversation/${conversationId}/messages/${messageId}/regenerate`,
+      { personalizationContext }
+    );
+  }
+
+  /**
+   * Start a new branch from one of the user's messages with edited text
+   */
+  async forkConversation(conversationId: number, messageId: string, content: string): Promise<BranchReply> {
+    return API.post<BranchReply>(
+      `${this.apiEndpoint}/conversation/${conversationId}/messages/${messageId}/fork`,
+      { content }
+    );
+  }
+
+  /**
+   * Switch to the branch through the given message
+   */
+  async selectBranch(conversationId: number, messageId: string): Promise<StoredConversation> {
+    const { conversation } = await API.put<{ conversation: StoredConversation }>(
+      `${this.apiEndpoint}/conversation/${conversationId}/branch`,
+      { messageId }
+    );
+    return conversation;
+  }
+
+  /**
+   * Change a conversation's title, summary or tags; edits are kept when it is relabeled
+   */
+  async updateLabels(conversationId: number, edit: ConversationLabelEdit): Promise<StoredConversation> {
+    const { conversation } = await API.patch<{ conversation: StoredConversation }>(
+      `${this.apiEndpoint}/conversation/${conversationId}/labels`,
+      edit
+    );
+    return conversation;
+  }
+
+  /**
+   * Generate a conversation's title, summary and tags again, replacing any edits
+   */
+  async regenerateLabels(conversationId: number): Promise<StoredConversation> {
+    const { conversation } = await API.post<{ conversation: StoredConversation }>(
+      `${this.apiEndpoint}/conversation/${conversationId}/labels/regenerate`
+    );
+    return conversation;
+  }
+
+  /**
+   * Suggest wird practices from a conversation; fallback is true when they are
+   * generic suggestions rather than generated ones
+   */
+  async generateWirdSuggestions(
+    conversationId: number,
+    personalizationContext?: any
+  ): Promise<{ wirdSuggestions: WirdSuggestion[]; fallback: boolean }> {
+    return API.post<{ wirdSuggestions: WirdSuggestion[]; fallback: boolean }>(
+      `${this.apiEndpoint}/conversation/${conversationId}/wird-suggestions`,
+      { personalizationContext }
+    );
+  }
+
+  /**
+   * The practices added from a conversation's suggestions and how consistently
+   * they have been done since
+   */
+  async getInspiredPractices(conversationId: number): Promise<InspiredPractice[]> {
+    const { practices } = await API.get<{ practices: InspiredPractice[] }>(
+      `${this.apiEndpoint}/conversation/${conversationId}/practices`
+    );
+    return practices;
+  }
 }
 
 // Export a singleton instance
@@ -163,7 +444,11 @@ export function useReflectionService() {
   const personalization = usePersonalization();
   
   // Submit a reflection and get a response
-  const submitReflection = async (content: string): Promise<ReflectionResponse> => {
+  const submitReflection = async (
+    content: string,
+    mood?: MoodCheckInData | null,
+    promptId?: string | null
+  ): Promise<ReflectionResponse> => {
     // Check if personalization is enabled and available
     let personalizationContext = null;
     
@@ -214,7 +499,7 @@ export function useReflectionService() {
     
     // Submit the reflection with personalization context if available
     try {
-      const result = await reflectionService.submitReflection(content, personalizationContext);
+      const result = await reflectionService.submitReflection(content, personalizationContext, mood, promptId);
       console.log("reflectionService.submitReflection returned result:", result ? "success" : "error");
       return result;
     } catch (error) {
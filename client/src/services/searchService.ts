@@ -0,0 +1,35 @@
+import { API } from '../lib/api';
+import type { SearchResults, SearchSource } from '@shared/schema';
+
+export interface SearchFilters {
+  sources?: SearchSource[];
+  /** Inclusive dates, YYYY-MM-DD */
+  from?: string;
+  to?: string;
+  limit?: number;
+  offset?: number;
+}
+
+/**
+ * Service for searching the signed-in user's reflections, conversations,
+ * halaqa notes and wird notes
+ */
+export class SearchService {
+  /**
+   * Full-text search, best matches first. Snippets wrap matching words in
+   * <mark></mark>.
+   */
+  async search(query: string, filters: SearchFilters = {}): Promise<SearchResults> {
+    const params = new URLSearchParams({ q: query });
+    if (filters.sources?.length) params.set('sources', filters.sources.join(','));
+    if (filters.from) params.set('from', filters.from);
+    if (filters.to) params.set('to', filters.to);
+    if (filters.limit !== undefined) params.set('limit', String(filters.limit));
+    if (filters.offset !== undefined) params.set('offset', String(filters.offset));
+
+    return API.get<SearchResults>(`/api/search?${params.toString()}`);
+  }
+}
+
+// Create a singleton instance
+export const searchService = new SearchService();
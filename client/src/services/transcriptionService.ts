@@ -1,43 +1,197 @@
-interface TranscriptionResponse {
-  text: string;
-}
+import type { TranscriptionJobView } from '@shared/schema';
 
 interface TranscriptionError {
   error: string;
   details?: string;
 }
 
-export class TranscriptionService {
-  private readonly API_URL: string;
+export type TranscriptionProgressHandler = (job: TranscriptionJobView) => void;
+
+export interface WaitOptions {
+  /** Stops waiting, e.g. when the component showing progress unmounts */
+  signal?: AbortSignal;
+  /** Give up after this long; the job carries on server-side regardless */
+  maxWaitMs?: number;
+}
+
+// Failed status checks in a row before giving up, waiting twice as long after each
+const MAX_POLL_FAILURES = 5;
+
+const DEFAULT_MAX_WAIT_MS = 30 * 60 * 1000;
 
+/**
+ * The job was still going when the wait ran out
+ */
+export class TranscriptionTimeoutError extends Error {
   constructor() {
-    this.API_URL = `${process.env.NEXT_PUBLIC_API_URL}/transcribe`;
+    super('Transcription is taking longer than expected. Your recording is saved and will keep transcribing; check back later.');
+    this.name = 'TranscriptionTimeoutError';
+  }
+}
+
+/**
+ * A response the server won't change its mind about by being asked again
+ */
+class TranscriptionRejectedError extends Error {}
+
+function abortError(signal: AbortSignal): unknown {
+  return signal.reason ?? new DOMException('The wait was aborted', 'AbortError');
+}
+
+/**
+ * Resolves after ms, or rejects as soon as the signal aborts
+ */
+function delay(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(abortError(signal));
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(abortError(signal!));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+/**
+ * A line describing where a transcription job has got to
+ */
+export function describeProgress(job: TranscriptionJobView): string {
+  switch (job.status) {
+    case 'queued':
+      if (job.attempts > 0) return 'Transcription hit a snag, trying again shortly...';
+      return job.position ? `Waiting to transcribe (${job.position} ahead of you)...` : 'Waiting to transcribe...';
+    case 'running':
+      // Lectures are transcribed in parts, several at once
+      if (job.chunkCount) return `Transcribing the lecture (${job.chunksDone ?? 0} of ${job.chunkCount} parts done)...`;
+      return job.attempts > 1
+        ? `Transcribing your recording (attempt ${job.attempts} of ${job.maxAttempts})...`
+        : 'Transcribing your recording...';
+    case 'succeeded':
+      return 'Transcription complete';
+    case 'failed':
+      return 'Transcription failed';
+  }
+}
+
+export class TranscriptionService {
+  private readonly apiEndpoint: string;
+  private readonly pollIntervalMs: number;
+
+  constructor(pollIntervalMs = 2000) {
+    this.apiEndpoint = process.env.NEXT_PUBLIC_API_URL || '/api';
+    this.pollIntervalMs = pollIntervalMs;
+  }
+
+  private authHeaders(): Record<string, string> {
+    const token = localStorage.getItem('auth_token');
+    return token ? { Authorization: `Bearer ${token}` } : {};
+  }
+
+  private async errorMessage(response: Response, fallback: string): Promise<string> {
+    try {
+      const errorData: TranscriptionError = await response.json();
+      return errorData.details || errorData.error || fallback;
+    } catch {
+      return fallback;
+    }
   }
 
-  public async transcribeAudio(audioBlob: Blob): Promise<string> {
+  /**
+   * Queue a recording for transcription
+   */
+  public async submitRecording(audioBlob: Blob, signal?: AbortSignal): Promise<TranscriptionJobView> {
     const formData = new FormData();
     formData.append('audio', audioBlob);
 
-    try {
-      const response = await fetch(this.API_URL, {
-        method: 'POST',
-        body: formData,
-      });
-
-      if (!response.ok) {
-        const errorData: TranscriptionError = await response.json();
-        throw new Error(errorData.details || errorData.error);
+    const response = await fetch(`${this.apiEndpoint}/transcribe/transcribe`, {
+      method: 'POST',
+      headers: this.authHeaders(),
+      body: formData,
+      signal,
+    });
+
+    if (!response.ok) {
+      throw new Error(await this.errorMessage(response, 'Failed to upload recording'));
+    }
+
+    const data: { job: TranscriptionJobView } = await response.json();
+    return data.job;
+  }
+
+  public async getJob(jobId: number, signal?: AbortSignal): Promise<TranscriptionJobView> {
+    const response = await fetch(`${this.apiEndpoint}/transcriptions/${jobId}`, {
+      headers: this.authHeaders(),
+      signal,
+    });
+
+    if (!response.ok) {
+      const message = await this.errorMessage(response, 'Failed to check transcription status');
+      throw response.status < 500 ? new TranscriptionRejectedError(message) : new Error(message);
+    }
+
+    const data: { job: TranscriptionJobView } = await response.json();
+    return data.job;
+  }
+
+  /**
+   * Poll a job until it succeeds, reporting each status along the way.
+   * Throws with the job's error if it fails, TranscriptionTimeoutError once
+   * maxWaitMs has passed, and the signal's reason if it aborts. A status
+   * check that fails is retried with backoff, as the job is still running.
+   */
+  public async waitForJob(
+    jobId: number,
+    onProgress?: TranscriptionProgressHandler,
+    { signal, maxWaitMs = DEFAULT_MAX_WAIT_MS }: WaitOptions = {}
+  ): Promise<TranscriptionJobView> {
+    const deadline = Date.now() + maxWaitMs;
+    let failures = 0;
+
+    for (;;) {
+      let job: TranscriptionJobView | null = null;
+      try {
+        job = await this.getJob(jobId, signal);
+        failures = 0;
+      } catch (error) {
+        if (signal?.aborted || error instanceof TranscriptionRejectedError || ++failures >= MAX_POLL_FAILURES) throw error;
+      }
+
+      if (job) {
+        onProgress?.(job);
+        if (job.status === 'succeeded') return job;
+        if (job.status === 'failed') {
+          throw new Error(job.error || 'Failed to transcribe audio. Please try again.');
+        }
       }
 
-      const data: TranscriptionResponse = await response.json();
-      return data.text;
+      const wait = job ? this.pollIntervalMs : this.pollIntervalMs * 2 ** failures;
+      if (Date.now() + wait > deadline) throw new TranscriptionTimeoutError();
+      await delay(wait, signal);
+    }
+  }
+
+  public async transcribeAudio(
+    audioBlob: Blob,
+    onProgress?: TranscriptionProgressHandler,
+    options: WaitOptions = {}
+  ): Promise<string> {
+    try {
+      const job = await this.submitRecording(audioBlob, options.signal);
+      onProgress?.(job);
+      const done = await this.waitForJob(job.id, onProgress, options);
+      return done.transcription ?? '';
     } catch (error) {
+      if (options.signal?.aborted || error instanceof TranscriptionTimeoutError) throw error;
       console.error('Transcription request failed:', error);
       throw new Error(
-        error instanceof Error 
-          ? error.message 
+        error instanceof Error
+          ? error.message
           : 'Failed to transcribe audio. Please try again.'
       );
     }
   }
-} 
\ No newline at end of file
+}
@@ -0,0 +1,129 @@
+import type { AudioUploadView } from '@shared/schema';
+
+export type UploadProgressHandler = (sent: number, total: number) => void;
+
+// Tries at each chunk before giving up, waiting twice as long after each
+const MAX_CHUNK_ATTEMPTS = 5;
+
+/**
+ * A response the server won't change its mind about by being asked again
+ */
+class UploadRejectedError extends Error {}
+
+function getAuthHeaders(): Record<string, string> {
+  const token = localStorage.getItem('auth_token');
+  return token ? { Authorization: `Bearer ${token}` } : {};
+}
+
+// Where each file's upload is remembered, so choosing the same file again
+// after a dropped connection or a reload carries on where it stopped
+function resumeKey(file: File): string {
+  return `audioUpload:${file.name}:${file.size}:${file.lastModified}`;
+}
+
+async function errorMessage(response: Response, fallback: string): Promise<string> {
+  try {
+    const errorData: { error?: string; details?: string } = await response.json();
+    return errorData.details || errorData.error || fallback;
+  } catch {
+    return fallback;
+  }
+}
+
+/**
+ * Sends long recordings, such as a whole halaqa lecture, a chunk at a time
+ * so that a dropped connection only costs the chunk in flight
+ */
+export class UploadService {
+  private readonly apiBase = '/api/uploads';
+
+  /**
+   * Upload a recording, resuming an earlier upload of the same file if there
+   * is one. Resolves once the server has the whole recording.
+   */
+  async upload(file: File, onProgress?: UploadProgressHandler): Promise<AudioUploadView> {
+    let upload = (await this.resume(file)) ?? (await this.start(file));
+    localStorage.setItem(resumeKey(file), upload.id);
+    onProgress?.(upload.received, upload.size);
+
+    let failures = 0;
+    while (!upload.completedAt) {
+      const chunk = file.slice(upload.received, Math.min(upload.received + upload.chunkSize, upload.size));
+      try {
+        upload = await this.sendChunk(upload, chunk);
+        failures = 0;
+        onProgress?.(upload.received, upload.size);
+      } catch (error) {
+        if (error instanceof UploadRejectedError || ++failures >= MAX_CHUNK_ATTEMPTS) throw error;
+        await new Promise(resolve => setTimeout(resolve, 1000 * 2 ** failures));
+        // The chunk may have arrived even though the response didn't
+        upload = await this.getUpload(upload.id);
+      }
+    }
+
+    localStorage.removeItem(resumeKey(file));
+    return upload;
+  }
+
+  async getUpload(id: string): Promise<AudioUploadView> {
+    const response = await fetch(`${this.apiBase}/${id}`, { headers: getAuthHeaders() });
+    if (!response.ok) {
+      throw new Error(await errorMessage(response, 'Failed to check upload'));
+    }
+    const data: { upload: AudioUploadView } = await response.json();
+    return data.upload;
+  }
+
+  private async start(file: File): Promise<AudioUploadView> {
+    const response = await fetch(this.apiBase, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...getAuthHeaders() },
+      body: JSON.stringify({ size: file.size, mimetype: file.type || 'audio/webm' }),
+    });
+    if (!response.ok) {
+      throw new Error(await errorMessage(response, 'Failed to start upload'));
+    }
+    const data: { upload: AudioUploadView } = await response.json();
+    return data.upload;
+  }
+
+  // The earlier upload of this file, unless it finished, expired or was for another file
+  private async resume(file: File): Promise<AudioUploadView | null> {
+    const id = localStorage.getItem(resumeKey(file));
+    if (!id) return null;
+
+    try {
+      const upload = await this.getUpload(id);
+      if (upload.size === file.size && !upload.completedAt) return upload;
+    } catch (error) {
+      console.warn('Could not resume upload, starting again:', error);
+    }
+    localStorage.removeItem(resumeKey(file));
+    return null;
+  }
+
+  private async sendChunk(upload: AudioUploadView, chunk: Blob): Promise<AudioUploadView> {
+    const range = chunk.size > 0
+      ? `bytes ${upload.received}-${upload.received + chunk.size - 1}/${upload.size}`
+      : `bytes */${upload.size}`;
+    const response = await fetch(`${this.apiBase}/${upload.id}`, {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/octet-stream', 'Content-Range': range, ...getAuthHeaders() },
+      body: chunk,
+    });
+
+    // Out of step with the server; carry on from what it has
+    if (response.status === 409) {
+      const data: { upload?: AudioUploadView } = await response.json();
+      if (data.upload) return data.upload;
+    }
+    if (!response.ok) {
+      const message = await errorMessage(response, 'Failed to upload recording');
+      throw response.status < 500 ? new UploadRejectedError(message) : new Error(message);
+    }
+    const data: { upload: AudioUploadView } = await response.json();
+    return data.upload;
+  }
+}
+
+export const uploadService = new UploadService();
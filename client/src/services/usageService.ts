@@ -0,0 +1,52 @@
+import { API } from '../lib/api';
+
+export interface QuotaWindow {
+  /** Token allowance for the period; null when unlimited */
+  limit: number | null;
+  used: number;
+  remaining: number | null;
+  resetsAt: string;
+}
+
+export interface UsageTotals {
+  calls: number;
+  inputTokens: number;
+  outputTokens: number;
+}
+
+export interface UsageRecord {
+  id: number;
+  feature: string;
+  generator: string;
+  provider: string;
+  model: string;
+  inputTokens: number;
+  outputTokens: number;
+  createdAt: string;
+}
+
+export interface UsageReport {
+  quota: { daily: QuotaWindow; monthly: QuotaWindow };
+  days: number;
+  totals: UsageTotals;
+  byFeature: Array<UsageTotals & { feature: string }>;
+  daily: Array<UsageTotals & { date: string }>;
+  /** The most recent calls, newest first */
+  history: UsageRecord[];
+}
+
+/**
+ * Service for the signed-in user's AI usage history
+ */
+export class UsageService {
+  /**
+   * Get usage and remaining quota over the last `days` days
+   */
+  async getUsage(days = 30): Promise<UsageReport> {
+    console.log('[UsageService] Getting usage for the last', days, 'days');
+    return API.get<UsageReport>(`/api/usage?days=${days}`);
+  }
+}
+
+// Create a singleton instance
+export const usageService = new UsageService();
@@ -28,6 +28,10 @@ export interface Halaqa {
   createdAt: Date;
   updatedAt: Date;
   isArchived: boolean | null;
+  editedAt?: Date | string | null;
+  // A recording of the lecture, and how far its transcription has got
+  lectureAudioKey?: string | null;
+  lectureTranscriptionStatus?: "pending" | "completed" | "failed" | null;
 }
 
 export interface HalaqaFormData {
@@ -17,6 +17,7 @@ declare module 'uuid' {
 declare module '@anthropic-ai/sdk' {
   export interface AnthropicOptions {
     apiKey: string;
+    maxRetries?: number;
   }
 
   export interface Message {
@@ -43,10 +44,28 @@ declare module '@anthropic-ai/sdk' {
     role: string;
     model: string;
     stop_reason: string;
+    usage?: {
+      input_tokens: number;
+      output_tokens: number;
+    };
+  }
+
+  export interface MessageStreamEvent {
+    type: string;
+    delta?: {
+      type: string;
+      text?: string;
+    };
+    [key: string]: any;
+  }
+
+  export interface RequestOptions {
+    signal?: AbortSignal;
   }
 
   export class Messages {
-    create(params: MessageParams): Promise<MessageResponse>;
+    create(params: MessageParams & { stream?: false }, options?: RequestOptions): Promise<MessageResponse>;
+    create(params: MessageParams & { stream: true }, options?: RequestOptions): Promise<AsyncIterable<MessageStreamEvent>>;
   }
 
   export default class Anthropic {
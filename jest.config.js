@@ -1,31 +1,71 @@
-/** @type {import('ts-jest').JestConfigWithTsJest} */
-module.exports = {
-  preset: 'ts-jest',
-  testEnvironment: 'jsdom',
-  roots: ['src', 'tests'],
-  moduleNameMapper: {
-    // Handle CSS imports (with CSS modules)
-    '\\.module\\.(css|sass|scss)$': 'identity-obj-proxy',
-    
-    // Handle CSS imports (without CSS modules)
-    '\\.(css|sass|scss)$': '<rootDir>/__mocks__/styleMock.js',
-    
-    // Handle image imports
-    '\\.(jpg|jpeg|png|gif|webp|svg)$': '<rootDir>/__mocks__/fileMock.js',
-    
-    // Handle module aliases
-    '^@components/(.*)$': '<rootDir>/client/src/components/$1',
-    '^@lib/(.*)$': '<rootDir>/client/src/lib/$1',
-    '^@hooks/(.*)$': '<rootDir>/client/src/hooks/$1',
-    '^@api/(.*)$': '<rootDir>/client/src/api/$1',
-    
-    // Absolute path resolution for client/server imports in tests
-    '^client/(.*)$': '<rootDir>/client/$1',
-    '^server/(.*)$': '<rootDir>/server/$1',
+/**
+ * Two projects: the server's unit tests run in Node against the server and
+ * shared code, the client's component tests in jsdom. Type checking is left
+ * to `npm run check`; ts-jest only transpiles, so a type error elsewhere in
+ * the tree doesn't fail unrelated suites.
+ *
+ * @type {import('ts-jest').JestConfigWithTsJest}
+ */
+const tsJest = (options = {}) => ['ts-jest', {
+  isolatedModules: true,
+  tsconfig: {
+    module: 'commonjs',
+    esModuleInterop: true,
+    jsx: 'react',
+    types: ['node', 'jest'],
+    ...options,
   },
-  setupFilesAfterEnv: [
-    '<rootDir>/tests/jest.setup.js',
-    '<rootDir>/tests/setupTests.ts'
+}];
+
+export default {
+  projects: [
+    {
+      displayName: 'server',
+      testEnvironment: 'node',
+      roots: ['<rootDir>/server'],
+      testMatch: ['**/__tests__/**/*.test.ts'],
+      transform: {
+        '^.+\\.(ts|tsx)$': tsJest(),
+      },
+      moduleNameMapper: {
+        '^@shared/(.*)$': '<rootDir>/shared/$1',
+        // uuid's "exports" send Jest to its browser ESM build
+        '^uuid$': '<rootDir>/node_modules/uuid/dist/index.js',
+      },
+    },
+    {
+      displayName: 'client',
+      testEnvironment: 'jsdom',
+      roots: ['<rootDir>/client/src', '<rootDir>/tests'],
+      moduleNameMapper: {
+        // Handle CSS imports
+        '\\.(css|sass|scss)$': '<rootDir>/__mocks__/styleMock.js',
+
+        // Handle image imports
+        '\\.(jpg|jpeg|png|gif|webp|svg)$': '<rootDir>/__mocks__/fileMock.js',
+
+        // Handle module aliases
+        '^@/(.*)$': '<rootDir>/client/src/$1',
+        '^@shared/(.*)$': '<rootDir>/shared/$1',
+        '^@components/(.*)$': '<rootDir>/client/src/components/$1',
+        '^@lib/(.*)$': '<rootDir>/client/src/lib/$1',
+        '^@hooks/(.*)$': '<rootDir>/client/src/hooks/$1',
+        '^@api/(.*)$': '<rootDir>/client/src/api/$1',
+
+        // Absolute path resolution for client/server imports in tests
+        '^client/(.*)$': '<rootDir>/client/$1',
+        '^server/(.*)$': '<rootDir>/server/$1',
+      },
+      setupFilesAfterEnv: [
+        '<rootDir>/tests/jest.setup.js',
+        '<rootDir>/tests/setupTests.ts'
+      ],
+      transform: {
+        // tests/jest.setup.js is written as an ES module
+        '^.+\\.(ts|tsx|js)$': tsJest({ allowJs: true, types: ['node', 'jest', '@testing-library/jest-dom'] }),
+      },
+      moduleDirectories: ['node_modules', '<rootDir>'],
+    },
   ],
   collectCoverageFrom: [
     'client/src/**/*.{js,jsx,ts,tsx}',
@@ -42,23 +82,5 @@ module.exports = {
       statements: 70
     }
   },
-  watchPlugins: [
-    'jest-watch-typeahead/filename',
-    'jest-watch-typeahead/testname'
-  ],
-  transform: {
-    '^.+\\.(ts|tsx)$': ['ts-jest', {
-      tsconfig: 'tsconfig.json',
-      isolatedModules: true,
-      jsx: 'react'
-    }]
-  },
-  moduleDirectories: ['node_modules', '<rootDir>'],
-  globals: {
-    'ts-jest': {
-      isolatedModules: true,
-      jsx: 'react'
-    }
-  },
   verbose: true
-}; 
\ No newline at end of file
+};
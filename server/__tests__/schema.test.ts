@@ -0,0 +1,23 @@
+import { insertReflectionSchema } from '@shared/schema';
+import { MemStorage } from '../storage';
+
+// The database module connects on import; MemStorage never touches it
+jest.mock('../db', () => ({ db: undefined }));
+
+describe('insertReflectionSchema', () => {
+  it('ignores a transcription and engine sent with a written reflection', async () => {
+    const data = insertReflectionSchema.parse({
+      content: 'Patience with my family today',
+      type: 'text',
+      transcription: 'Something else entirely',
+      transcriptionEngine: 'whisper',
+    });
+
+    // As POST /api/reflection saves a written reflection
+    const reflection = await new MemStorage().createReflection({ ...data, userId: 'user-1' });
+
+    expect(data).not.toHaveProperty('transcription');
+    expect(data).not.toHaveProperty('transcriptionEngine');
+    expect(reflection).toMatchObject({ transcription: null, transcriptionEngine: null });
+  });
+});
@@ -0,0 +1,126 @@
+import { MemStorage } from '../storage';
+
+// The database module connects on import; MemStorage never touches it
+jest.mock('../db', () => ({ db: undefined }));
+
+async function addReflection(
+  storage: MemStorage,
+  userId: string | null,
+  timestamp: string,
+  options: { type?: 'audio' | 'text'; actionItems?: string[] } = {}
+) {
+  const reflection = await storage.createReflection({
+    userId,
+    content: `Reflection at ${timestamp}`,
+    type: options.type ?? 'text',
+  });
+  reflection.timestamp = new Date(timestamp);
+  await storage.createConversation({
+    userId,
+    reflectionId: reflection.id,
+    messages: [{ role: 'user', content: reflection.content }],
+    actionItems: options.actionItems ?? [],
+  });
+  return reflection;
+}
+
+describe('MemStorage.listReflections', () => {
+  let storage: MemStorage;
+
+  beforeEach(async () => {
+    storage = new MemStorage();
+    await addReflection(storage, 'user-1', '2025-03-01T08:00:00Z');
+    await addReflection(storage, 'user-1', '2025-03-02T08:00:00Z', { type: 'audio', actionItems: ['Pray Fajr on time'] });
+    await addReflection(storage, 'user-1', '2025-03-03T08:00:00Z', { actionItems: ['Call my mother'] });
+    await addReflection(storage, 'user-2', '2025-03-02T09:00:00Z');
+    await addReflection(storage, null, '2025-03-02T10:00:00Z');
+  });
+
+  it("lists only the user's reflections, newest first, without audio", async () => {
+    const page = await storage.listReflections('user-1', { limit: 10, offset: 0 });
+
+    expect(page.total).toBe(3);
+    expect(page.hasMore).toBe(false);
+    expect(page.reflections.map(r => r.timestamp.toISOString().slice(0, 10))).toEqual(['2025-03-03', '2025-03-02', '2025-03-01']);
+    expect(page.reflections[0]).not.toHaveProperty('audioKey');
+    expect(page.reflections[0]).toMatchObject({ messageCount: 1, actionItemCount: 1 });
+  });
+
+  it('paginates', async () => {
+    const first = await storage.listReflections('user-1', { limit: 2, offset: 0 });
+    const second = await storage.listReflections('user-1', { limit: 2, offset: 2 });
+
+    expect(first.reflections).toHaveLength(2);
+    expect(first.hasMore).toBe(true);
+    expect(second.reflections).toHaveLength(1);
+    expect(second.hasMore).toBe(false);
+  });
+
+  it('filters by date range, type and action items', async () => {
+    const inRange = await storage.listReflections('user-1', {
+      limit: 10,
+      offset: 0,
+      from: new Date('2025-03-02T00:00:00Z'),
+      to: new Date('2025-03-02T23:59:59Z'),
+    });
+    expect(inRange.reflections.map(r => r.type)).toEqual(['audio']);
+
+    const text = await storage.listReflections('user-1', { limit: 10, offset: 0, type: 'text' });
+    expect(text.total).toBe(2);
+
+    const withItems = await storage.listReflections('user-1', { limit: 10, offset: 0, hasActionItems: true });
+    const withoutItems = await storage.listReflections('user-1', { limit: 10, offset: 0, hasActionItems: false });
+    expect(withItems.total).toBe(2);
+    expect(withoutItems.reflections.map(r => r.actionItemCount)).toEqual([0]);
+  });
+
+  it('filters by tag and counts the tags in use', async () => {
+    const page = await storage.listReflections('user-1', { limit: 10, offset: 0 });
+    const labeling = { messageCount: 2, edited: [], updatedAt: new Date().toISOString() };
+    await storage.updateConversationLabels(page.reflections[0].conversationId!, { title: 'Honoring my mother', synopsis: null, tags: ['family'], labeling });
+    await storage.updateConversationLabels(page.reflections[1].conversationId!, { title: null, synopsis: null, tags: ['prayer', 'family'], labeling });
+
+    const family = await storage.listReflections('user-1', { limit: 10, offset: 0, tag: 'family' });
+    expect(family.total).toBe(2);
+    expect(family.reflections[0]).toMatchObject({ title: 'Honoring my mother', tags: ['family'] });
+
+    const prayer = await storage.listReflections('user-1', { limit: 10, offset: 0, tag: 'prayer' });
+    expect(prayer.reflections.map(r => r.type)).toEqual(['audio']);
+
+    expect(await storage.getConversationTags('user-1')).toEqual([{ tag: 'family', count: 2 }, { tag: 'prayer', count: 1 }]);
+    expect(await storage.getConversationTags('user-2')).toEqual([]);
+  });
+
+  it('finds the conversation a reflection started', async () => {
+    const [latest] = (await storage.listReflections('user-2', { limit: 1, offset: 0 })).reflections;
+    const conversation = await storage.getConversationByReflectionId(latest.id);
+
+    expect(conversation?.id).toBe(latest.conversationId);
+    expect(conversation?.userId).toBe('user-2');
+  });
+});
+
+describe('MemStorage.deleteReflection', () => {
+  it('deletes the reflection with its conversation and counts what still uses its recording', async () => {
+    const storage = new MemStorage();
+    const audioKey = 'a'.repeat(64);
+    const [first, second] = await Promise.all([1, 2].map(() => storage.createReflection({
+      userId: 'user-1',
+      type: 'audio',
+      content: '',
+      audioKey,
+      audioType: 'audio/webm',
+    })));
+    await storage.createConversation({ userId: 'user-1', reflectionId: first.id, messages: [] });
+    expect(await storage.countAudioReferences(audioKey)).toBe(2);
+
+    await storage.deleteReflection(first.id);
+
+    expect(await storage.getReflection(first.id)).toBeUndefined();
+    expect(await storage.getConversationByReflectionId(first.id)).toBeUndefined();
+    expect(await storage.countAudioReferences(audioKey)).toBe(1);
+
+    await storage.deleteReflection(second.id);
+    expect(await storage.countAudioReferences(audioKey)).toBe(0);
+  });
+});
@@ -1,5 +1,5 @@
 import { NextRequest, NextResponse } from "next/server";
-import { generateCLEARSuggestions } from "@/lib/anthropic";
+import { generateCLEARSuggestions, getDefaultCLEARSuggestions, withFallback } from "@/lib/anthropic";
 
 export async function POST(req: NextRequest) {
   try {
@@ -13,10 +13,14 @@ export async function POST(req: NextRequest) {
     }
 
     // Get suggestions from Claude
-    const suggestions = await generateCLEARSuggestions(practice);
+    const { result: suggestions, fallback } = await withFallback(
+      () => generateCLEARSuggestions(practice),
+      getDefaultCLEARSuggestions,
+      "generating CLEAR suggestions"
+    );
     
-    // Return the suggestions
-    return NextResponse.json(suggestions);
+    // Return the suggestions, flagging generic ones so the client can say so
+    return NextResponse.json({ ...suggestions, fallback });
   } catch (error) {
     console.error("Error generating CLEAR suggestions:", error);
     return NextResponse.json(
@@ -68,11 +68,11 @@ export async function POST(req: NextRequest) {
         // Generate wird suggestions for halaqa
         console.log("Generating wird suggestions for halaqa:", halaqaContent.title);
         const wirdSuggestions = await generateHalaqaWirdSuggestions(halaqaContent);
-        return NextResponse.json({ wirdSuggestions });
+        return NextResponse.json({ wirdSuggestions, fallback: false });
       } catch (error) {
         console.error("Error generating halaqa wird suggestions:", error);
         const fallbackSuggestions = generateFallbackSuggestions(timestamp);
-        return NextResponse.json({ wirdSuggestions: fallbackSuggestions });
+        return NextResponse.json({ wirdSuggestions: fallbackSuggestions, fallback: true });
       }
     }
     
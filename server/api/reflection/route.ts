@@ -1,5 +1,5 @@
 import { NextRequest, NextResponse } from "next/server";
-import { generateFollowUpQuestions, generateActionItems, generateInsights, PersonalizationContext } from "../../lib/anthropic";
+import { generateFollowUpQuestions, generateActionItems, generateInsights, getFallbackFollowUp, withFallback, PersonalizationContext } from "../../lib/anthropic";
 import { getDebugHeaders } from "../../lib/debug-logs";
 
 // ANSI color codes for terminal output
@@ -192,10 +192,14 @@ export async function POST(req: NextRequest) {
     }
     
     // Generate follow-up questions with personalization if available
-    const { understanding, questions } = await generateFollowUpQuestions(
-      content,
-      undefined,
-      cleanContext // Use the clean context
+    const { result: { understanding, questions }, fallback } = await withFallback(
+      () => generateFollowUpQuestions(
+        content,
+        undefined,
+        cleanContext // Use the clean context
+      ),
+      getFallbackFollowUp,
+      "generating follow-up questions"
     );
     
     // Log after generating follow-up questions
@@ -225,6 +229,8 @@ export async function POST(req: NextRequest) {
       questions,
       actionItems,
       insights,
+      // Canned questions were used because generation failed
+      fallback,
       // Also keep the reflection object for backward compatibility
       reflection: {
         original: content,
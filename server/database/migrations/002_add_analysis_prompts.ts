@@ -0,0 +1,52 @@
+import { Pool } from 'pg';
+
+/**
+ * Migration to record which prompt templates produced a halaqa's analysis
+ */
+export async function up(db: Pool) {
+  console.log('[MIGRATION:002] Adding analysis_prompts column to halaqas table');
+
+  try {
+    // halaqas is created by drizzle-kit push, so it may not exist yet on a fresh database
+    const tableCheck = await db.query(`
+      SELECT EXISTS (
+        SELECT FROM information_schema.tables
+        WHERE table_name = 'halaqas'
+      )
+    `);
+
+    if (!tableCheck.rows[0].exists) {
+      console.log('[MIGRATION:002] halaqas table does not exist, skipping');
+      return;
+    }
+
+    await db.query(`
+      ALTER TABLE halaqas
+      ADD COLUMN IF NOT EXISTS analysis_prompts JSON
+    `);
+
+    console.log('[MIGRATION:002] analysis_prompts column added successfully');
+  } catch (error) {
+    console.error('[MIGRATION:002] Error adding analysis_prompts column:', error);
+    throw error;
+  }
+}
+
+/**
+ * Rollback migration
+ */
+export async function down(db: Pool) {
+  console.log('[MIGRATION:002] Rolling back: removing analysis_prompts column from halaqas table');
+
+  try {
+    await db.query(`
+      ALTER TABLE halaqas
+      DROP COLUMN IF EXISTS analysis_prompts
+    `);
+
+    console.log('[MIGRATION:002] analysis_prompts column removed successfully');
+  } catch (error) {
+    console.error('[MIGRATION:002] Error removing analysis_prompts column:', error);
+    throw error;
+  }
+}
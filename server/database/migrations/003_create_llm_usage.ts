@@ -0,0 +1,51 @@
+import { Pool } from 'pg';
+
+/**
+ * Migration to create the llm_usage table used for per-user quotas and usage history
+ */
+export async function up(db: Pool) {
+  console.log('[MIGRATION:003] Creating llm_usage table');
+
+  try {
+    await db.query(`
+      CREATE TABLE IF NOT EXISTS llm_usage (
+        id SERIAL PRIMARY KEY,
+        user_id TEXT,
+        feature TEXT NOT NULL,
+        generator TEXT NOT NULL,
+        provider TEXT NOT NULL,
+        model TEXT NOT NULL,
+        input_tokens INTEGER NOT NULL,
+        output_tokens INTEGER NOT NULL,
+        created_at TIMESTAMP NOT NULL DEFAULT NOW()
+      )
+    `);
+
+    // Quota checks sum a user's usage since the start of the day/month
+    await db.query(`
+      CREATE INDEX IF NOT EXISTS llm_usage_user_created_idx
+      ON llm_usage (user_id, created_at)
+    `);
+
+    console.log('[MIGRATION:003] llm_usage table created successfully');
+  } catch (error) {
+    console.error('[MIGRATION:003] Error creating llm_usage table:', error);
+    throw error;
+  }
+}
+
+/**
+ * Rollback migration
+ */
+export async function down(db: Pool) {
+  console.log('[MIGRATION:003] Rolling back: dropping llm_usage table');
+
+  try {
+    await db.query(`DROP TABLE IF EXISTS llm_usage`);
+
+    console.log('[MIGRATION:003] llm_usage table dropped successfully');
+  } catch (error) {
+    console.error('[MIGRATION:003] Error dropping llm_usage table:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,52 @@
+import { Pool } from 'pg';
+
+/**
+ * Migration to store a running summary of long conversations
+ */
+export async function up(db: Pool) {
+  console.log('[MIGRATION:004] Adding summary column to conversations table');
+
+  try {
+    // conversations is created by drizzle-kit push, so it may not exist yet on a fresh database
+    const tableCheck = await db.query(`
+      SELECT EXISTS (
+        SELECT FROM information_schema.tables
+        WHERE table_name = 'conversations'
+      )
+    `);
+
+    if (!tableCheck.rows[0].exists) {
+      console.log('[MIGRATION:004] conversations table does not exist, skipping');
+      return;
+    }
+
+    await db.query(`
+      ALTER TABLE conversations
+      ADD COLUMN IF NOT EXISTS summary JSON
+    `);
+
+    console.log('[MIGRATION:004] summary column added successfully');
+  } catch (error) {
+    console.error('[MIGRATION:004] Error adding summary column:', error);
+    throw error;
+  }
+}
+
+/**
+ * Rollback migration
+ */
+export async function down(db: Pool) {
+  console.log('[MIGRATION:004] Rolling back: removing summary column from conversations table');
+
+  try {
+    await db.query(`
+      ALTER TABLE conversations
+      DROP COLUMN IF EXISTS summary
+    `);
+
+    console.log('[MIGRATION:004] summary column removed successfully');
+  } catch (error) {
+    console.error('[MIGRATION:004] Error removing summary column:', error);
+    throw error;
+  }
+}
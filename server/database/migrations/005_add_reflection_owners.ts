@@ -0,0 +1,111 @@
+import { Pool } from 'pg';
+
+/**
+ * Migration to give reflections and conversations an owner.
+ *
+ * Ownership is backfilled from what the rows already record: a reflection
+ * takes the owner of a conversation about it, and a conversation the owner of
+ * its reflection. Rows that still have none are assigned to
+ * REFLECTIONS_BACKFILL_USER_ID (e.g. a single-user deployment). If any remain
+ * unowned without it, the migration fails rather than hiding them from every
+ * user; rerunning it once the variable is set picks up where it stopped.
+ */
+export async function up(db: Pool) {
+  console.log('[MIGRATION:005] Adding user_id columns to reflections and conversations tables');
+
+  try {
+    // Both tables are created by drizzle-kit push, so they may not exist yet on a fresh database
+    const tableCheck = await db.query(`
+      SELECT COUNT(*)::int AS count FROM information_schema.tables
+      WHERE table_name IN ('reflections', 'conversations')
+    `);
+
+    if (tableCheck.rows[0].count < 2) {
+      console.log('[MIGRATION:005] reflections or conversations table does not exist, skipping');
+      return;
+    }
+
+    await db.query(`
+      ALTER TABLE reflections
+      ADD COLUMN IF NOT EXISTS user_id TEXT
+    `);
+    await db.query(`
+      ALTER TABLE conversations
+      ADD COLUMN IF NOT EXISTS user_id TEXT
+    `);
+    await db.query(`
+      CREATE INDEX IF NOT EXISTS reflections_user_timestamp_idx
+      ON reflections (user_id, timestamp DESC)
+    `);
+    await db.query(`
+      CREATE INDEX IF NOT EXISTS conversations_reflection_id_idx
+      ON conversations (reflection_id)
+    `);
+
+    const fromConversations = await db.query(`
+      UPDATE reflections r
+      SET user_id = c.user_id
+      FROM conversations c
+      WHERE c.reflection_id = r.id AND r.user_id IS NULL AND c.user_id IS NOT NULL
+    `);
+    console.log(`[MIGRATION:005] Backfilled the owner of ${fromConversations.rowCount} reflections from their conversations`);
+
+    const unowned = await db.query(`
+      SELECT COUNT(*)::int AS count FROM reflections WHERE user_id IS NULL
+    `);
+    const unownedCount: number = unowned.rows[0].count;
+    const backfillUserId = process.env.REFLECTIONS_BACKFILL_USER_ID;
+
+    if (unownedCount > 0 && !backfillUserId) {
+      throw new Error(
+        `${unownedCount} reflections have no owner that can be inferred. ` +
+        'Set REFLECTIONS_BACKFILL_USER_ID to the user who should own them and rerun the migration.'
+      );
+    }
+    if (unownedCount > 0) {
+      const assigned = await db.query(
+        `UPDATE reflections SET user_id = $1 WHERE user_id IS NULL`,
+        [backfillUserId]
+      );
+      console.log(`[MIGRATION:005] Assigned ${assigned.rowCount} unowned reflections to ${backfillUserId}`);
+    }
+
+    const inherited = await db.query(`
+      UPDATE conversations c
+      SET user_id = r.user_id
+      FROM reflections r
+      WHERE c.reflection_id = r.id AND c.user_id IS NULL AND r.user_id IS NOT NULL
+    `);
+    console.log(`[MIGRATION:005] Backfilled the owner of ${inherited.rowCount} conversations`);
+
+    console.log('[MIGRATION:005] user_id columns added successfully');
+  } catch (error) {
+    console.error('[MIGRATION:005] Error adding user_id columns:', error);
+    throw error;
+  }
+}
+
+/**
+ * Rollback migration
+ */
+export async function down(db: Pool) {
+  console.log('[MIGRATION:005] Rolling back: removing user_id columns from reflections and conversations tables');
+
+  try {
+    await db.query(`DROP INDEX IF EXISTS reflections_user_timestamp_idx`);
+    await db.query(`DROP INDEX IF EXISTS conversations_reflection_id_idx`);
+    await db.query(`
+      ALTER TABLE conversations
+      DROP COLUMN IF EXISTS user_id
+    `);
+    await db.query(`
+      ALTER TABLE reflections
+      DROP COLUMN IF EXISTS user_id
+    `);
+
+    console.log('[MIGRATION:005] user_id columns removed successfully');
+  } catch (error) {
+    console.error('[MIGRATION:005] Error removing user_id columns:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,71 @@
+import { Pool } from 'pg';
+
+/**
+ * Migration to record edits to reflections and halaqas: a revisions table,
+ * plus an edited_at column on each so lists can mark edited entries
+ */
+export async function up(db: Pool) {
+  console.log('[MIGRATION:006] Creating revisions table');
+
+  try {
+    await db.query(`
+      CREATE TABLE IF NOT EXISTS revisions (
+        id SERIAL PRIMARY KEY,
+        entity_type TEXT NOT NULL,
+        entity_id INTEGER NOT NULL,
+        user_id TEXT NOT NULL,
+        changes JSON NOT NULL,
+        restored_from INTEGER,
+        created_at TIMESTAMP NOT NULL DEFAULT NOW()
+      )
+    `);
+
+    await db.query(`
+      CREATE INDEX IF NOT EXISTS revisions_entity_idx
+      ON revisions (entity_type, entity_id, created_at DESC)
+    `);
+
+    // reflections and halaqas are created by drizzle-kit push, so they may not exist yet on a fresh database
+    for (const table of ['reflections', 'halaqas']) {
+      const tableCheck = await db.query(`
+        SELECT EXISTS (
+          SELECT FROM information_schema.tables
+          WHERE table_name = $1
+        )
+      `, [table]);
+
+      if (!tableCheck.rows[0].exists) {
+        console.log(`[MIGRATION:006] ${table} table does not exist, skipping edited_at column`);
+        continue;
+      }
+
+      await db.query(`
+        ALTER TABLE ${table}
+        ADD COLUMN IF NOT EXISTS edited_at TIMESTAMP
+      `);
+    }
+
+    console.log('[MIGRATION:006] revisions table created successfully');
+  } catch (error) {
+    console.error('[MIGRATION:006] Error creating revisions table:', error);
+    throw error;
+  }
+}
+
+/**
+ * Rollback migration
+ */
+export async function down(db: Pool) {
+  console.log('[MIGRATION:006] Rolling back: dropping revisions table and edited_at columns');
+
+  try {
+    await db.query(`DROP TABLE IF EXISTS revisions`);
+    await db.query(`ALTER TABLE IF EXISTS reflections DROP COLUMN IF EXISTS edited_at`);
+    await db.query(`ALTER TABLE IF EXISTS halaqas DROP COLUMN IF EXISTS edited_at`);
+
+    console.log('[MIGRATION:006] revisions table dropped successfully');
+  } catch (error) {
+    console.error('[MIGRATION:006] Error dropping revisions table:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,62 @@
+import { Pool } from 'pg';
+
+/**
+ * Migration to store a mood check-in with each reflection
+ */
+export async function up(db: Pool) {
+  console.log('[MIGRATION:007] Adding mood columns to reflections table');
+
+  try {
+    // reflections is created by drizzle-kit push, so it may not exist yet on a fresh database
+    const tableCheck = await db.query(`
+      SELECT EXISTS (
+        SELECT FROM information_schema.tables
+        WHERE table_name = 'reflections'
+      )
+    `);
+
+    if (!tableCheck.rows[0].exists) {
+      console.log('[MIGRATION:007] reflections table does not exist, skipping');
+      return;
+    }
+
+    await db.query(`
+      ALTER TABLE reflections
+      ADD COLUMN IF NOT EXISTS mood TEXT,
+      ADD COLUMN IF NOT EXISTS mood_intensity INTEGER
+    `);
+
+    // Mood analytics read one user's check-ins by date
+    await db.query(`
+      CREATE INDEX IF NOT EXISTS reflections_user_mood_idx
+      ON reflections (user_id, timestamp)
+      WHERE mood IS NOT NULL
+    `);
+
+    console.log('[MIGRATION:007] mood columns added successfully');
+  } catch (error) {
+    console.error('[MIGRATION:007] Error adding mood columns:', error);
+    throw error;
+  }
+}
+
+/**
+ * Rollback migration
+ */
+export async function down(db: Pool) {
+  console.log('[MIGRATION:007] Rolling back: removing mood columns from reflections table');
+
+  try {
+    await db.query(`DROP INDEX IF EXISTS reflections_user_mood_idx`);
+    await db.query(`
+      ALTER TABLE reflections
+      DROP COLUMN IF EXISTS mood,
+      DROP COLUMN IF EXISTS mood_intensity
+    `);
+
+    console.log('[MIGRATION:007] mood columns removed successfully');
+  } catch (error) {
+    console.error('[MIGRATION:007] Error removing mood columns:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,57 @@
+import { Pool } from 'pg';
+
+/**
+ * Migration to record which guided prompt a conversation answered
+ */
+export async function up(db: Pool) {
+  console.log('[MIGRATION:008] Adding prompt_id column to conversations table');
+
+  try {
+    // conversations is created by drizzle-kit push, so it may not exist yet on a fresh database
+    const tableCheck = await db.query(`
+      SELECT EXISTS (
+        SELECT FROM information_schema.tables
+        WHERE table_name = 'conversations'
+      )
+    `);
+
+    if (!tableCheck.rows[0].exists) {
+      console.log('[MIGRATION:008] conversations table does not exist, skipping');
+      return;
+    }
+
+    await db.query(`
+      ALTER TABLE conversations
+      ADD COLUMN IF NOT EXISTS prompt_id TEXT
+    `);
+
+    // Prompt of the day looks up the prompts a user answered recently
+    await db.query(`
+      CREATE INDEX IF NOT EXISTS conversations_user_prompt_idx
+      ON conversations (user_id, timestamp)
+      WHERE prompt_id IS NOT NULL
+    `);
+
+    console.log('[MIGRATION:008] prompt_id column added successfully');
+  } catch (error) {
+    console.error('[MIGRATION:008] Error adding prompt_id column:', error);
+    throw error;
+  }
+}
+
+/**
+ * Rollback migration
+ */
+export async function down(db: Pool) {
+  console.log('[MIGRATION:008] Rolling back: removing prompt_id column from conversations table');
+
+  try {
+    await db.query(`DROP INDEX IF EXISTS conversations_user_prompt_idx`);
+    await db.query(`ALTER TABLE conversations DROP COLUMN IF EXISTS prompt_id`);
+
+    console.log('[MIGRATION:008] prompt_id column removed successfully');
+  } catch (error) {
+    console.error('[MIGRATION:008] Error removing prompt_id column:', error);
+    throw error;
+  }
+}
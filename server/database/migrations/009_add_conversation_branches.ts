@@ -0,0 +1,51 @@
+import { Pool } from 'pg';
+
+/**
+ * Migration to record the selected branch of a conversation's message tree
+ */
+export async function up(db: Pool) {
+  console.log('[MIGRATION:009] Adding active_message_id column to conversations table');
+
+  try {
+    // conversations is created by drizzle-kit push, so it may not exist yet on a fresh database
+    const tableCheck = await db.query(`
+      SELECT EXISTS (
+        SELECT FROM information_schema.tables
+        WHERE table_name = 'conversations'
+      )
+    `);
+
+    if (!tableCheck.rows[0].exists) {
+      console.log('[MIGRATION:009] conversations table does not exist, skipping');
+      return;
+    }
+
+    // Existing conversations keep their flat messages; without ids they read
+    // as a single branch, so there is nothing to backfill
+    await db.query(`
+      ALTER TABLE conversations
+      ADD COLUMN IF NOT EXISTS active_message_id TEXT
+    `);
+
+    console.log('[MIGRATION:009] active_message_id column added successfully');
+  } catch (error) {
+    console.error('[MIGRATION:009] Error adding active_message_id column:', error);
+    throw error;
+  }
+}
+
+/**
+ * Rollback migration
+ */
+export async function down(db: Pool) {
+  console.log('[MIGRATION:009] Rolling back: removing active_message_id column from conversations table');
+
+  try {
+    await db.query(`ALTER TABLE conversations DROP COLUMN IF EXISTS active_message_id`);
+
+    console.log('[MIGRATION:009] active_message_id column removed successfully');
+  } catch (error) {
+    console.error('[MIGRATION:009] Error removing active_message_id column:', error);
+    throw error;
+  }
+}
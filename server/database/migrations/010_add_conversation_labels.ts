@@ -0,0 +1,66 @@
+import { Pool } from 'pg';
+
+/**
+ * Migration to add generated titles, synopses and topic tags to conversations
+ */
+export async function up(db: Pool) {
+  console.log('[MIGRATION:010] Adding title, synopsis, tags and labeling columns to conversations table');
+
+  try {
+    // conversations is created by drizzle-kit push, so it may not exist yet on a fresh database
+    const tableCheck = await db.query(`
+      SELECT EXISTS (
+        SELECT FROM information_schema.tables
+        WHERE table_name = 'conversations'
+      )
+    `);
+
+    if (!tableCheck.rows[0].exists) {
+      console.log('[MIGRATION:010] conversations table does not exist, skipping');
+      return;
+    }
+
+    // Existing conversations are labeled the next time they get a reply
+    await db.query(`
+      ALTER TABLE conversations
+      ADD COLUMN IF NOT EXISTS title TEXT,
+      ADD COLUMN IF NOT EXISTS synopsis TEXT,
+      ADD COLUMN IF NOT EXISTS tags JSON DEFAULT '[]',
+      ADD COLUMN IF NOT EXISTS labeling JSON
+    `);
+
+    // For filtering the reflection list by tag
+    await db.query(`
+      CREATE INDEX IF NOT EXISTS conversations_tags_idx
+      ON conversations USING GIN ((tags::jsonb))
+    `);
+
+    console.log('[MIGRATION:010] Conversation label columns added successfully');
+  } catch (error) {
+    console.error('[MIGRATION:010] Error adding conversation label columns:', error);
+    throw error;
+  }
+}
+
+/**
+ * Rollback migration
+ */
+export async function down(db: Pool) {
+  console.log('[MIGRATION:010] Rolling back: removing conversation label columns');
+
+  try {
+    await db.query(`DROP INDEX IF EXISTS conversations_tags_idx`);
+    await db.query(`
+      ALTER TABLE conversations
+      DROP COLUMN IF EXISTS title,
+      DROP COLUMN IF EXISTS synopsis,
+      DROP COLUMN IF EXISTS tags,
+      DROP COLUMN IF EXISTS labeling
+    `);
+
+    console.log('[MIGRATION:010] Conversation label columns removed successfully');
+  } catch (error) {
+    console.error('[MIGRATION:010] Error removing conversation label columns:', error);
+    throw error;
+  }
+}
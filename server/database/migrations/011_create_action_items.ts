@@ -0,0 +1,62 @@
+import { Pool } from 'pg';
+
+/**
+ * Migration to keep the personal action plan on the server: an action_items
+ * table in place of the client's localStorage list
+ */
+export async function up(db: Pool) {
+  console.log('[MIGRATION:011] Creating action_items table');
+
+  try {
+    await db.query(`
+      CREATE TABLE IF NOT EXISTS action_items (
+        id SERIAL PRIMARY KEY,
+        user_id TEXT NOT NULL,
+        text TEXT NOT NULL,
+        context TEXT,
+        source_type TEXT NOT NULL,
+        source_id TEXT,
+        source_item_id TEXT,
+        due_date DATE,
+        priority TEXT NOT NULL DEFAULT 'medium',
+        status TEXT NOT NULL DEFAULT 'open',
+        completed_at TIMESTAMP,
+        created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+        updated_at TIMESTAMP NOT NULL DEFAULT NOW(),
+        edited_at TIMESTAMP
+      )
+    `);
+
+    await db.query(`
+      CREATE INDEX IF NOT EXISTS action_items_user_idx
+      ON action_items (user_id, created_at DESC)
+    `);
+
+    // For importing a conversation's or halaqa's generated items
+    await db.query(`
+      CREATE INDEX IF NOT EXISTS action_items_source_idx
+      ON action_items (source_type, source_id)
+    `);
+
+    console.log('[MIGRATION:011] action_items table created successfully');
+  } catch (error) {
+    console.error('[MIGRATION:011] Error creating action_items table:', error);
+    throw error;
+  }
+}
+
+/**
+ * Rollback migration
+ */
+export async function down(db: Pool) {
+  console.log('[MIGRATION:011] Rolling back: dropping action_items table');
+
+  try {
+    await db.query(`DROP TABLE IF EXISTS action_items`);
+
+    console.log('[MIGRATION:011] action_items table dropped successfully');
+  } catch (error) {
+    console.error('[MIGRATION:011] Error dropping action_items table:', error);
+    throw error;
+  }
+}
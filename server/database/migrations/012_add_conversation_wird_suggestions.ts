@@ -0,0 +1,52 @@
+import { Pool } from 'pg';
+
+/**
+ * Migration to keep the wird suggestions generated from a conversation
+ */
+export async function up(db: Pool) {
+  console.log('[MIGRATION:012] Adding wird_suggestions column to conversations table');
+
+  try {
+    // conversations is created by drizzle-kit push, so it may not exist yet on a fresh database
+    const tableCheck = await db.query(`
+      SELECT EXISTS (
+        SELECT FROM information_schema.tables
+        WHERE table_name = 'conversations'
+      )
+    `);
+
+    if (!tableCheck.rows[0].exists) {
+      console.log('[MIGRATION:012] conversations table does not exist, skipping');
+      return;
+    }
+
+    await db.query(`
+      ALTER TABLE conversations
+      ADD COLUMN IF NOT EXISTS wird_suggestions JSON
+    `);
+
+    console.log('[MIGRATION:012] Conversation wird_suggestions column added successfully');
+  } catch (error) {
+    console.error('[MIGRATION:012] Error adding conversation wird_suggestions column:', error);
+    throw error;
+  }
+}
+
+/**
+ * Rollback migration
+ */
+export async function down(db: Pool) {
+  console.log('[MIGRATION:012] Rolling back: removing conversation wird_suggestions column');
+
+  try {
+    await db.query(`
+      ALTER TABLE conversations
+      DROP COLUMN IF EXISTS wird_suggestions
+    `);
+
+    console.log('[MIGRATION:012] Conversation wird_suggestions column removed successfully');
+  } catch (error) {
+    console.error('[MIGRATION:012] Error removing conversation wird_suggestions column:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,52 @@
+import { Pool } from 'pg';
+
+/**
+ * Migration to record the engine that transcribed an audio reflection
+ */
+export async function up(db: Pool) {
+  console.log('[MIGRATION:013] Adding transcription_engine column to reflections table');
+
+  try {
+    // reflections is created by drizzle-kit push, so it may not exist yet on a fresh database
+    const tableCheck = await db.query(`
+      SELECT EXISTS (
+        SELECT FROM information_schema.tables
+        WHERE table_name = 'reflections'
+      )
+    `);
+
+    if (!tableCheck.rows[0].exists) {
+      console.log('[MIGRATION:013] reflections table does not exist, skipping');
+      return;
+    }
+
+    await db.query(`
+      ALTER TABLE reflections
+      ADD COLUMN IF NOT EXISTS transcription_engine TEXT
+    `);
+
+    console.log('[MIGRATION:013] Reflection transcription_engine column added successfully');
+  } catch (error) {
+    console.error('[MIGRATION:013] Error adding reflection transcription_engine column:', error);
+    throw error;
+  }
+}
+
+/**
+ * Rollback migration
+ */
+export async function down(db: Pool) {
+  console.log('[MIGRATION:013] Rolling back: removing reflection transcription_engine column');
+
+  try {
+    await db.query(`
+      ALTER TABLE reflections
+      DROP COLUMN IF EXISTS transcription_engine
+    `);
+
+    console.log('[MIGRATION:013] Reflection transcription_engine column removed successfully');
+  } catch (error) {
+    console.error('[MIGRATION:013] Error removing reflection transcription_engine column:', error);
+    throw error;
+  }
+}
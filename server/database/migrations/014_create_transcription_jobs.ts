@@ -0,0 +1,83 @@
+import { Pool } from 'pg';
+
+/**
+ * Migration to transcribe voice reflections in the background: a
+ * transcription_jobs queue, and the reflection's transcription status while
+ * it waits
+ */
+export async function up(db: Pool) {
+  console.log('[MIGRATION:014] Creating transcription_jobs table');
+
+  try {
+    // reflections is created by drizzle-kit push, so it may not exist yet on a fresh database
+    const tableCheck = await db.query(`
+      SELECT EXISTS (
+        SELECT FROM information_schema.tables
+        WHERE table_name = 'reflections'
+      )
+    `);
+
+    if (!tableCheck.rows[0].exists) {
+      console.log('[MIGRATION:014] reflections table does not exist, skipping');
+      return;
+    }
+
+    await db.query(`
+      ALTER TABLE reflections
+      ADD COLUMN IF NOT EXISTS transcription_status TEXT
+    `);
+
+    await db.query(`
+      CREATE TABLE IF NOT EXISTS transcription_jobs (
+        id SERIAL PRIMARY KEY,
+        user_id TEXT NOT NULL,
+        reflection_id INTEGER REFERENCES reflections(id) ON DELETE CASCADE,
+        audio_data TEXT,
+        status TEXT NOT NULL DEFAULT 'queued',
+        attempts INTEGER NOT NULL DEFAULT 0,
+        max_attempts INTEGER NOT NULL,
+        run_after TIMESTAMP NOT NULL DEFAULT NOW(),
+        error TEXT,
+        transcription TEXT,
+        engine TEXT,
+        prompt_id TEXT,
+        personalization_context JSON,
+        conversation_id INTEGER,
+        created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+        started_at TIMESTAMP,
+        finished_at TIMESTAMP
+      )
+    `);
+
+    // For the worker claiming the next jobs to run
+    await db.query(`
+      CREATE INDEX IF NOT EXISTS transcription_jobs_status_idx
+      ON transcription_jobs (status, run_after)
+    `);
+
+    console.log('[MIGRATION:014] transcription_jobs table created successfully');
+  } catch (error) {
+    console.error('[MIGRATION:014] Error creating transcription_jobs table:', error);
+    throw error;
+  }
+}
+
+/**
+ * Rollback migration
+ */
+export async function down(db: Pool) {
+  console.log('[MIGRATION:014] Rolling back: dropping transcription_jobs table');
+
+  try {
+    await db.query(`DROP TABLE IF EXISTS transcription_jobs`);
+    await db.query(`
+      ALTER TABLE reflections
+      DROP COLUMN IF EXISTS transcription_status
+    `);
+
+    console.log('[MIGRATION:014] transcription_jobs table dropped successfully');
+  } catch (error) {
+    console.error('[MIGRATION:014] Error dropping transcription_jobs table:', error);
+    throw error;
+  }
+}
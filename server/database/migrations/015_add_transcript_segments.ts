@@ -0,0 +1,62 @@
+import { Pool } from 'pg';
+
+/**
+ * Migration to keep the segment timings of transcripts, on the reflection
+ * and on the job that transcribed it
+ */
+export async function up(db: Pool) {
+  console.log('[MIGRATION:015] Adding transcript segment columns');
+
+  try {
+    // reflections is created by drizzle-kit push, so it may not exist yet on a fresh database
+    const tableCheck = await db.query(`
+      SELECT EXISTS (
+        SELECT FROM information_schema.tables
+        WHERE table_name = 'reflections'
+      )
+    `);
+
+    if (!tableCheck.rows[0].exists) {
+      console.log('[MIGRATION:015] reflections table does not exist, skipping');
+      return;
+    }
+
+    await db.query(`
+      ALTER TABLE reflections
+      ADD COLUMN IF NOT EXISTS transcript_segments JSON
+    `);
+
+    await db.query(`
+      ALTER TABLE transcription_jobs
+      ADD COLUMN IF NOT EXISTS segments JSON
+    `);
+
+    console.log('[MIGRATION:015] Transcript segment columns added successfully');
+  } catch (error) {
+    console.error('[MIGRATION:015] Error adding transcript segment columns:', error);
+    throw error;
+  }
+}
+
+/**
+ * Rollback migration
+ */
+export async function down(db: Pool) {
+  console.log('[MIGRATION:015] Rolling back: removing transcript segment columns');
+
+  try {
+    await db.query(`
+      ALTER TABLE transcription_jobs
+      DROP COLUMN IF EXISTS segments
+    `);
+    await db.query(`
+      ALTER TABLE reflections
+      DROP COLUMN IF EXISTS transcript_segments
+    `);
+
+    console.log('[MIGRATION:015] Transcript segment columns removed successfully');
+  } catch (error) {
+    console.error('[MIGRATION:015] Error removing transcript segment columns:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,163 @@
+import { Pool, PoolClient } from 'pg';
+import { getAudioStore, readAudio } from '../../lib/audio-store';
+import { decodeAudioDataUrl } from '../../lib/transcription/audio';
+
+// Rows moved per query, so a large table isn't read into memory at once
+const BATCH_SIZE = 50;
+
+const TABLES = ['reflections', 'transcription_jobs'] as const;
+
+async function hasColumn(db: Pool | PoolClient, table: string, column: string): Promise<boolean> {
+  const result = await db.query(`
+    SELECT EXISTS (
+      SELECT FROM information_schema.columns
+      WHERE table_name = $1 AND column_name = $2
+    )
+  `, [table, column]);
+  return result.rows[0].exists;
+}
+
+/**
+ * Put every base64 recording in a table into the audio store and keep its
+ * key instead. A recording that can't be decoded stops the migration rather
+ * than being lost with the column.
+ */
+async function moveRecordings(db: PoolClient, table: string) {
+  const store = getAudioStore();
+  const sizeColumn = table === 'reflections' ? ', audio_size = $4' : '';
+  let lastId = 0;
+  let moved = 0;
+
+  for (;;) {
+    const { rows } = await db.query(
+      `SELECT id, audio_data FROM ${table} WHERE audio_data IS NOT NULL AND id > $1 ORDER BY id LIMIT ${BATCH_SIZE}`,
+      [lastId]
+    );
+    if (rows.length === 0) break;
+
+    for (const row of rows) {
+      lastId = row.id;
+      let recording: ReturnType<typeof decodeAudioDataUrl>;
+      try {
+        recording = decodeAudioDataUrl(row.audio_data);
+      } catch (error) {
+        throw new Error(`${table} ${row.id} has an unreadable recording (${(error as Error).message}); fix or clear its audio_data and run the migration again`);
+      }
+
+      const { key, size } = await store.put(recording.audio);
+      const params = [key, recording.mimetype, row.id];
+      await db.query(
+        `UPDATE ${table} SET audio_key = $1, audio_type = $2${sizeColumn} WHERE id = $3`,
+        sizeColumn ? [...params, size] : params
+      );
+      moved++;
+    }
+  }
+
+  console.log(`[MIGRATION:016] Moved ${moved} recording(s) from ${table} to the ${store.name} audio store`);
+}
+
+/**
+ * Migration to keep recordings in the audio store instead of as base64 data
+ * URLs in Postgres
+ */
+export async function up(db: Pool) {
+  console.log('[MIGRATION:016] Moving recordings to the audio store');
+
+  // One transaction, so audio_data is only dropped once every recording in
+  // it is in the store. Recordings put before a failure stay there and are
+  // reused by the next run.
+  const client = await db.connect();
+  try {
+    // reflections is created by drizzle-kit push, so it may not exist yet on a fresh database
+    const tableCheck = await client.query(`
+      SELECT EXISTS (
+        SELECT FROM information_schema.tables
+        WHERE table_name = 'reflections'
+      )
+    `);
+
+    if (!tableCheck.rows[0].exists) {
+      console.log('[MIGRATION:016] reflections table does not exist, skipping');
+      return;
+    }
+
+    await client.query('BEGIN');
+
+    await client.query(`
+      ALTER TABLE reflections
+      ADD COLUMN IF NOT EXISTS audio_key TEXT,
+      ADD COLUMN IF NOT EXISTS audio_type TEXT,
+      ADD COLUMN IF NOT EXISTS audio_size INTEGER
+    `);
+
+    await client.query(`
+      ALTER TABLE transcription_jobs
+      ADD COLUMN IF NOT EXISTS audio_key TEXT,
+      ADD COLUMN IF NOT EXISTS audio_type TEXT
+    `);
+
+    for (const table of TABLES) {
+      if (!await hasColumn(client, table, 'audio_data')) continue;
+      await moveRecordings(client, table);
+      await client.query(`ALTER TABLE ${table} DROP COLUMN audio_data`);
+    }
+
+    await client.query('COMMIT');
+    console.log('[MIGRATION:016] Recordings moved to the audio store successfully');
+  } catch (error) {
+    await client.query('ROLLBACK');
+    console.error('[MIGRATION:016] Error moving recordings to the audio store:', error);
+    throw error;
+  } finally {
+    client.release();
+  }
+}
+
+/**
+ * Rollback migration. Recordings are copied back into Postgres and left in
+ * the store.
+ */
+export async function down(db: Pool) {
+  console.log('[MIGRATION:016] Rolling back: moving recordings back into Postgres');
+
+  try {
+    const store = getAudioStore();
+
+    for (const table of TABLES) {
+      if (!await hasColumn(db, table, 'audio_key')) continue;
+      await db.query(`ALTER TABLE ${table} ADD COLUMN IF NOT EXISTS audio_data TEXT`);
+
+      let lastId = 0;
+      for (;;) {
+        const { rows } = await db.query(
+          `SELECT id, audio_key, audio_type FROM ${table} WHERE audio_key IS NOT NULL AND id > $1 ORDER BY id LIMIT ${BATCH_SIZE}`,
+          [lastId]
+        );
+        if (rows.length === 0) break;
+
+        for (const row of rows) {
+          lastId = row.id;
+          const audio = await readAudio(store, row.audio_key);
+          await db.query(`UPDATE ${table} SET audio_data = $1 WHERE id = $2`, [
+            `data:${row.audio_type || 'audio/webm'};base64,${audio.toString('base64')}`,
+            row.id,
+          ]);
+        }
+      }
+
+      await db.query(`
+        ALTER TABLE ${table}
+        DROP COLUMN IF EXISTS audio_key,
+        DROP COLUMN IF EXISTS audio_type
+      `);
+    }
+
+    await db.query(`ALTER TABLE reflections DROP COLUMN IF EXISTS audio_size`);
+
+    console.log('[MIGRATION:016] Recordings moved back into Postgres successfully');
+  } catch (error) {
+    console.error('[MIGRATION:016] Error moving recordings back into Postgres:', error);
+    throw error;
+  }
+}
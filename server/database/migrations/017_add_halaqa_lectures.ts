@@ -0,0 +1,102 @@
+import { Pool } from 'pg';
+
+async function tableExists(db: Pool, table: string): Promise<boolean> {
+  const tableCheck = await db.query(`
+    SELECT EXISTS (
+      SELECT FROM information_schema.tables
+      WHERE table_name = $1
+    )
+  `, [table]);
+  return tableCheck.rows[0].exists;
+}
+
+/**
+ * Migration for long halaqa lecture recordings: chunked uploads, the
+ * lecture's recording and transcript on the halaqa, and chunk progress on
+ * its transcription job
+ */
+export async function up(db: Pool) {
+  console.log('[MIGRATION:017] Adding halaqa lecture recordings');
+
+  try {
+    await db.query(`
+      CREATE TABLE IF NOT EXISTS audio_uploads (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        user_id TEXT NOT NULL,
+        mimetype TEXT NOT NULL,
+        size INTEGER NOT NULL,
+        received INTEGER NOT NULL DEFAULT 0,
+        audio_key TEXT,
+        created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+        updated_at TIMESTAMP NOT NULL DEFAULT NOW(),
+        completed_at TIMESTAMP
+      )
+    `);
+
+    // halaqas is created by drizzle-kit push, so it may not exist yet on a fresh database
+    if (!await tableExists(db, 'halaqas')) {
+      console.log('[MIGRATION:017] halaqas table does not exist, skipping lecture columns');
+      return;
+    }
+
+    await db.query(`
+      ALTER TABLE halaqas
+      ADD COLUMN IF NOT EXISTS lecture_audio_key TEXT,
+      ADD COLUMN IF NOT EXISTS lecture_audio_type TEXT,
+      ADD COLUMN IF NOT EXISTS lecture_audio_size INTEGER,
+      ADD COLUMN IF NOT EXISTS lecture_transcript TEXT,
+      ADD COLUMN IF NOT EXISTS lecture_transcript_segments JSON,
+      ADD COLUMN IF NOT EXISTS lecture_transcription_status TEXT
+    `);
+
+    if (!await tableExists(db, 'transcription_jobs')) {
+      console.log('[MIGRATION:017] transcription_jobs table does not exist, skipping lecture job columns');
+      return;
+    }
+
+    await db.query(`
+      ALTER TABLE transcription_jobs
+      ADD COLUMN IF NOT EXISTS halaqa_id INTEGER REFERENCES halaqas(id) ON DELETE CASCADE,
+      ADD COLUMN IF NOT EXISTS heartbeat_at TIMESTAMP,
+      ADD COLUMN IF NOT EXISTS chunk_count INTEGER,
+      ADD COLUMN IF NOT EXISTS chunks_done INTEGER
+    `);
+
+    console.log('[MIGRATION:017] Halaqa lecture recordings added successfully');
+  } catch (error) {
+    console.error('[MIGRATION:017] Error adding halaqa lecture recordings:', error);
+    throw error;
+  }
+}
+
+/**
+ * Rollback migration
+ */
+export async function down(db: Pool) {
+  console.log('[MIGRATION:017] Rolling back: removing halaqa lecture recordings');
+
+  try {
+    await db.query(`
+      ALTER TABLE IF EXISTS transcription_jobs
+      DROP COLUMN IF EXISTS halaqa_id,
+      DROP COLUMN IF EXISTS heartbeat_at,
+      DROP COLUMN IF EXISTS chunk_count,
+      DROP COLUMN IF EXISTS chunks_done
+    `);
+    await db.query(`
+      ALTER TABLE IF EXISTS halaqas
+      DROP COLUMN IF EXISTS lecture_audio_key,
+      DROP COLUMN IF EXISTS lecture_audio_type,
+      DROP COLUMN IF EXISTS lecture_audio_size,
+      DROP COLUMN IF EXISTS lecture_transcript,
+      DROP COLUMN IF EXISTS lecture_transcript_segments,
+      DROP COLUMN IF EXISTS lecture_transcription_status
+    `);
+    await db.query(`DROP TABLE IF EXISTS audio_uploads`);
+
+    console.log('[MIGRATION:017] Halaqa lecture recordings removed successfully');
+  } catch (error) {
+    console.error('[MIGRATION:017] Error removing halaqa lecture recordings:', error);
+    throw error;
+  }
+}
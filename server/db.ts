@@ -1,6 +1,6 @@
 import pkg from 'pg';
 const { Pool } = pkg;
-import { drizzle } from "drizzle-orm/node-postgres";
+import { drizzle, type NodePgTransaction } from "drizzle-orm/node-postgres";
 import { neonConfig } from "@neondatabase/serverless";
 import ws from "ws";
 import { log } from "./vite";
@@ -16,7 +16,7 @@ import {
   integer,
   json
 } from "drizzle-orm/pg-core";
-import { sql } from "drizzle-orm";
+import { sql, type ExtractTablesWithRelations } from "drizzle-orm";
 import { migrate } from 'drizzle-orm/node-postgres/migrator';
 import * as path from 'path';
 
@@ -33,6 +33,9 @@ log(`Database module initialized: ${usingDatabase ? 'Using database storage' : '
 let pool: pkg.Pool | undefined = undefined;
 let db: any = undefined;
 
+/** The handle db.transaction() passes to its callback (db is created without a schema) */
+export type DbTransaction = NodePgTransaction<Record<string, never>, ExtractTablesWithRelations<Record<string, never>>>;
+
 // Test database connection
 async function testConnection() {
   if (!pool) return false;
@@ -17,6 +17,14 @@ import halaqaRoutes from './routes/halaqa-routes';
 import wirdRoutes from './routes/wird-routes';
 import authRoutes from './routes/auth-routes';
 import insightsRoutes from './routes/insights-routes';
+import usageRoutes from './routes/usage-routes';
+import searchRoutes from './routes/search-routes';
+import analyticsRoutes from './routes/analytics-routes';
+import promptRoutes from './routes/prompt-routes';
+import exportRoutes from './routes/export-routes';
+import actionItemRoutes from './routes/action-item-routes';
+import audioRoutes from './routes/audio-routes';
+import uploadRoutes from './routes/upload-routes';
 
 // Import route handlers
 import userRoutes from "./routes/user-routes";
@@ -24,10 +32,17 @@ import reflectionRoutes from "./routes/reflection-routes";
 import transcriptionRoutes from './src/routes/transcription';
 import { authRequired } from './auth';
 import { generateWirdRecommendations } from './lib/anthropic';
+import { setUsageStore } from './lib/llm';
+import { setTranscriptionQueue, getTranscriptionQueue, TranscriptionQueue } from './lib/transcription/queue';
+import { ChunkedUploads, getAudioStore, getChunkedUploads, setChunkedUploads } from './lib/audio-store';
+import { openReflectionConversation } from './lib/reflection-conversation';
+import { findPrompt } from './lib/guided-prompts';
+import { createStorage } from './storage';
 
 // Import middleware
 import { errorHandler } from './middleware/error-handler';
 import { requestLogger } from './middleware/request-logger';
+import { usageScope } from './middleware/usage-scope';
 
 // Import database utilities
 import { runMigrations, validateDatabaseSchema } from './database/migration-manager';
@@ -55,6 +70,24 @@ const app = express();
 app.use(express.json({ limit: '50mb' }));
 app.use(express.urlencoded({ extended: false, limit: '50mb' }));
 
+// Attribute AI calls to the signed-in user for usage metering and quotas
+setUsageStore(createStorage());
+app.use(usageScope);
+
+// Transcribe voice reflections in the background, opening each one's
+// conversation once it is transcribed
+const transcriptionStorage = createStorage();
+setTranscriptionQueue(new TranscriptionQueue(transcriptionStorage, async (reflection, job) => {
+  const { conversation } = await openReflectionConversation(transcriptionStorage, reflection, {
+    prompt: job.promptId ? findPrompt(job.promptId) : undefined,
+    personalizationContext: job.personalizationContext ?? undefined,
+  });
+  return conversation.id;
+}));
+
+// Take long recordings, such as halaqa lectures, in resumable chunks
+setChunkedUploads(new ChunkedUploads(createStorage(), getAudioStore()));
+
 // Add a dedicated health check endpoint at the root level
 // This must be registered BEFORE any other routes to avoid conflicts
 app.get('/api/health', (req, res) => {
@@ -317,6 +350,9 @@ function registerRoutes() {
     res.json({ status: 'ok', timestamp: new Date().toISOString() });
   });
   
+  // Detailed health checks (database, AI provider circuit breaker)
+  app.use('/api', healthRoutes);
+  
   // Register API routes
   console.log('🔍 [SERVER INIT] Registering API routes...');
   
@@ -375,6 +411,38 @@ function registerRoutes() {
   console.log("🔍 [SERVER INIT] Registering halaqa routes at /api/halaqas");
   app.use('/api/halaqas', halaqaRoutes);
   
+  // Register usage routes
+  console.log("🔍 [SERVER INIT] Registering usage routes at /api/usage");
+  app.use('/api/usage', usageRoutes);
+  
+  // Register search routes
+  console.log("🔍 [SERVER INIT] Registering search routes at /api/search");
+  app.use('/api/search', searchRoutes);
+  
+  // Register analytics routes
+  console.log("🔍 [SERVER INIT] Registering analytics routes at /api/analytics");
+  app.use('/api/analytics', analyticsRoutes);
+  
+  // Register guided prompt routes
+  console.log("🔍 [SERVER INIT] Registering guided prompt routes at /api/prompts");
+  app.use('/api/prompts', promptRoutes);
+
+  // Register export routes
+  console.log("🔍 [SERVER INIT] Registering export routes at /api/export");
+  app.use('/api/export', exportRoutes);
+
+  // Register action plan routes
+  console.log("🔍 [SERVER INIT] Registering action item routes at /api/action-items");
+  app.use('/api/action-items', actionItemRoutes);
+
+  // Register signed recording playback routes
+  console.log("🔍 [SERVER INIT] Registering audio playback routes at /api/audio");
+  app.use('/api/audio', audioRoutes);
+
+  // Register resumable chunked upload routes
+  console.log("🔍 [SERVER INIT] Registering chunked upload routes at /api/uploads");
+  app.use('/api/uploads', uploadRoutes);
+  
   // Register error handler middleware (must be after routes)
   app.use(errorHandler);
   
@@ -409,6 +477,10 @@ async function startServer() {
   try {
     // Initialize database
     await initializeDatabaseWithMigrations();
+
+    // Jobs are claimed from the database, so only once it is migrated
+    getTranscriptionQueue().start();
+    getChunkedUploads().start();
     
     // Register routes
     registerRoutes();
@@ -0,0 +1,83 @@
+import { MemStorage } from '../../storage';
+import { describeActionItems, editActionItem, importActionItems, syncFromHalaqaChecklist, syncHalaqaChecklist } from '../action-items';
+
+// The database module connects on import; MemStorage never touches it
+jest.mock('../../db', () => ({ db: undefined }));
+
+const CONVERSATION = { type: 'conversation' as const, id: 7 };
+
+describe('importActionItems', () => {
+  let storage: MemStorage;
+
+  beforeEach(() => {
+    storage = new MemStorage();
+  });
+
+  it('adds generated items to the plan with their context split off', async () => {
+    const created = await importActionItems(storage, 'user-1', CONVERSATION, [
+      { text: 'Pray Fajr on time. This builds consistency in your day.' },
+      { text: 'Call your mother' },
+      { text: 'call your  mother' },
+    ]);
+
+    expect(created).toHaveLength(2);
+    expect(created[0]).toMatchObject({
+      userId: 'user-1',
+      text: 'Pray Fajr on time.',
+      context: 'This builds consistency in your day.',
+      sourceType: 'conversation',
+      sourceId: '7',
+      status: 'open',
+      priority: 'medium',
+    });
+    expect(created[1].context).toBeNull();
+  });
+
+  it('replaces untouched items when the source generates again and keeps the rest', async () => {
+    const [started, untouched, kept] = await importActionItems(storage, 'user-1', CONVERSATION, [
+      { text: 'Read Surah Al-Kahf on Friday' },
+      { text: 'Give sadaqah weekly' },
+      { text: 'Call your mother' },
+    ]);
+    await storage.updateActionItem(started.id, editActionItem(started, { status: 'in-progress' }));
+
+    const created = await importActionItems(storage, 'user-1', CONVERSATION, [
+      { text: 'Call your mother' },
+      { text: 'Make dua after Asr' },
+    ]);
+
+    expect(created.map(item => item.text)).toEqual(['Make dua after Asr']);
+    const plan = await storage.listActionItems('user-1', { sourceType: 'conversation', sourceId: '7' });
+    expect(plan.map(item => item.id).sort()).toEqual([started.id, kept.id, created[0].id].sort());
+    expect(await storage.getActionItem(untouched.id)).toBeUndefined();
+  });
+});
+
+describe('halaqa checklist sync', () => {
+  it('completes plan items and halaqa checklist items together', async () => {
+    const storage = new MemStorage();
+    const halaqa = await storage.createHalaqa({
+      userId: 'user-1',
+      title: 'Tafsir of Surah Yusuf',
+      date: new Date('2025-03-01'),
+      topic: 'Patience',
+      keyReflection: 'Patience through hardship',
+      impact: 'I want to be more patient',
+    } as any);
+    await storage.updateHalaqaActionItems(halaqa.id, [{ id: 'a1', description: 'Practice sabr at work', completed: false }]);
+    const [item] = await importActionItems(storage, 'user-1', { type: 'halaqa', id: halaqa.id }, [
+      { text: 'Practice sabr at work', sourceItemId: 'a1' },
+    ]);
+
+    const completed = await storage.updateActionItem(item.id, editActionItem(item, { status: 'completed' }));
+    expect(completed.completedAt).toBeInstanceOf(Date);
+    await syncHalaqaChecklist(storage, completed);
+    expect((await storage.getHalaqa(halaqa.id))?.actionItems?.[0]).toMatchObject({ completed: true });
+
+    await syncFromHalaqaChecklist(storage, 'user-1', halaqa.id, { id: 'a1', description: 'Practice sabr at work', completed: false });
+    expect(await storage.getActionItem(item.id)).toMatchObject({ status: 'open', completedAt: null });
+
+    const [view] = await describeActionItems(storage, [item]);
+    expect(view).toMatchObject({ sourceTitle: 'Tafsir of Surah Yusuf', reflectionId: null });
+  });
+});
@@ -0,0 +1,125 @@
+import type { Conversation, ConversationLabels, Message } from '@shared/schema';
+import { withMessageIds } from '@shared/message-tree';
+import { configureLabeling, editLabels, labelConversation, refreshConversationLabels } from '../conversation-labels';
+import { setLLMProvider, StubProvider } from '../llm';
+
+const REFLECTION = 'I keep missing Fajr prayer since starting my new job and my patience with family is thin';
+
+function conversationOf(messageCount: number): Conversation {
+  const messages: Message[] = Array.from({ length: messageCount }, (_, i) => i % 2 === 0
+    ? { role: 'user' as const, content: i === 0 ? REFLECTION : `More about my prayer routine ${i}` }
+    : { role: 'assistant' as const, content: JSON.stringify({ understanding: 'Perhaps charity or zakat', questions: [] }) });
+  return {
+    id: 1,
+    messages: withMessageIds(messages),
+    activeMessageId: null,
+    title: null,
+    synopsis: null,
+    tags: [],
+    labeling: null,
+  } as unknown as Conversation;
+}
+
+class LabelStore {
+  saved: ConversationLabels[] = [];
+
+  constructor(public conversation: Conversation) {}
+
+  async getConversation() {
+    return this.conversation;
+  }
+
+  async updateConversationLabels(id: number, labels: ConversationLabels) {
+    this.saved.push(labels);
+    this.conversation = { ...this.conversation, ...labels };
+    return this.conversation;
+  }
+}
+
+describe('conversation labels', () => {
+  let provider: StubProvider;
+
+  beforeEach(() => {
+    provider = new StubProvider();
+    provider.setFixture('conversation.title', [
+      '{"title": "Struggling to wake up for Fajr", "summary": "You reflected on missing Fajr since starting a new job."}',
+    ]);
+    setLLMProvider(provider);
+    configureLabeling(4);
+  });
+
+  afterAll(() => {
+    setLLMProvider(null);
+    configureLabeling();
+  });
+
+  it('waits for the first exchange before labeling', async () => {
+    const store = new LabelStore(conversationOf(1));
+
+    await refreshConversationLabels(1, store);
+
+    expect(store.saved).toHaveLength(0);
+  });
+
+  it('titles, summarizes and tags a conversation after its first exchange', async () => {
+    const store = new LabelStore(conversationOf(2));
+
+    await refreshConversationLabels(1, store);
+
+    expect(store.saved).toEqual([expect.objectContaining({
+      title: 'Struggling to wake up for Fajr',
+      synopsis: 'You reflected on missing Fajr since starting a new job.',
+      // Only the user's words count, not "charity" from the reply
+      tags: ['prayer', 'family', 'patience'],
+      labeling: expect.objectContaining({
+        messageCount: 2,
+        edited: [],
+        prompts: expect.arrayContaining([{ name: 'conversation.title', version: 1 }]),
+      }),
+    })]);
+  });
+
+  it('labels again only once the conversation has grown enough', async () => {
+    const store = new LabelStore(conversationOf(2));
+    await refreshConversationLabels(1, store);
+
+    store.conversation = { ...store.conversation, messages: conversationOf(4).messages };
+    await refreshConversationLabels(1, store);
+    expect(store.saved).toHaveLength(1);
+
+    store.conversation = { ...store.conversation, messages: conversationOf(6).messages };
+    await refreshConversationLabels(1, store);
+    expect(store.saved).toHaveLength(2);
+    expect(store.saved[1].labeling?.messageCount).toBe(6);
+  });
+
+  it('keeps fields the user edited until they ask for new labels', async () => {
+    const store = new LabelStore(conversationOf(2));
+    await refreshConversationLabels(1, store);
+
+    const edited = editLabels(store.conversation, { title: '  Fajr and work  ', tags: ['Daily Life', 'daily-life', 'work'] });
+    expect(edited).toMatchObject({ title: 'Fajr and work', tags: ['daily-life', 'work'] });
+    expect(edited.labeling?.edited).toEqual(['title', 'tags']);
+    await store.updateConversationLabels(1, edited);
+
+    const relabeled = await labelConversation(1, store.conversation, store);
+    expect(relabeled).toMatchObject({ title: 'Fajr and work', tags: ['daily-life', 'work'], synopsis: 'You reflected on missing Fajr since starting a new job.' });
+
+    const regenerated = await labelConversation(1, store.conversation, store, { regenerate: true });
+    expect(regenerated).toMatchObject({ title: 'Struggling to wake up for Fajr', tags: ['prayer', 'family', 'patience'] });
+    expect(regenerated.labeling?.edited).toEqual([]);
+  });
+
+  it('falls back to the opening words of the reflection when titling fails', async () => {
+    jest.spyOn(provider, 'complete').mockRejectedValueOnce(Object.assign(new Error('bad request'), { status: 400 }));
+    const store = new LabelStore(conversationOf(2));
+
+    await refreshConversationLabels(1, store);
+
+    expect(store.saved[0]).toMatchObject({
+      title: 'I keep missing Fajr prayer since starting my…',
+      synopsis: null,
+      labeling: expect.objectContaining({ fallback: true }),
+    });
+  });
+});
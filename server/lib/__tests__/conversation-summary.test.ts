@@ -0,0 +1,121 @@
+import type { ConversationSummary, Message } from '@shared/schema';
+import { withMessageIds } from '@shared/message-tree';
+import { configureSummarization, prepareConversationContext, regenerateConversationSummary } from '../conversation-summary';
+import { setLLMProvider, StubProvider } from '../llm';
+
+function conversationOf(turns: number): Message[] {
+  return Array.from({ length: turns }, (_, i) => ({
+    role: 'user' as const,
+    content: `Reflection number ${i + 1} about staying consistent with Fajr`,
+  }));
+}
+
+class SummaryStore {
+  saved: Array<ConversationSummary | null> = [];
+
+  async updateConversationSummary(id: number, summary: ConversationSummary | null) {
+    this.saved.push(summary);
+    return { id, summary } as any;
+  }
+}
+
+describe('prepareConversationContext', () => {
+  let provider: StubProvider;
+  let store: SummaryStore;
+
+  beforeEach(() => {
+    provider = new StubProvider();
+    provider.setFixture('conversation.summary', ['They are working on praying Fajr on time.']);
+    setLLMProvider(provider);
+    store = new SummaryStore();
+    configureSummarization({ thresholdTokens: 50, keepMessages: 2 });
+  });
+
+  afterAll(() => {
+    setLLMProvider(null);
+    configureSummarization();
+  });
+
+  it('sends short conversations in full', async () => {
+    const messages = conversationOf(2);
+    const context = await prepareConversationContext(1, { messages, summary: null }, store);
+
+    expect(context.summary).toBeNull();
+    expect(context.previousMessages).toEqual(messages.map(m => `user: ${m.content}`));
+    expect(store.saved).toHaveLength(0);
+  });
+
+  it('summarizes older messages once past the threshold and keeps the latest verbatim', async () => {
+    const messages = conversationOf(8);
+    const context = await prepareConversationContext(1, { messages, summary: null }, store);
+
+    expect(store.saved).toEqual([expect.objectContaining({
+      text: 'They are working on praying Fajr on time.',
+      messageCount: 6,
+      prompts: [
+        { name: 'conversation.summary', version: 1 },
+        { name: 'system.persona', version: 1 },
+        { name: 'system.safety', version: 1 },
+      ],
+    })]);
+    expect(context.previousMessages).toEqual([
+      'Summary of earlier conversation:\nThey are working on praying Fajr on time.',
+      `user: ${messages[6].content}`,
+      `user: ${messages[7].content}`,
+    ]);
+  });
+
+  it('extends an existing summary with the messages that have aged out since', async () => {
+    const complete = jest.spyOn(provider, 'complete');
+    const messages = conversationOf(10);
+    const summary = { text: 'Earlier summary', messageCount: 6, updatedAt: new Date().toISOString() };
+
+    await prepareConversationContext(1, { messages, summary }, store);
+
+    const prompt = complete.mock.calls[0][0].messages[0].content;
+    expect(prompt).toContain('Summary of the conversation so far:\nEarlier summary');
+    expect(prompt).toContain(messages[6].content);
+    expect(prompt).not.toContain(messages[5].content);
+    expect(store.saved[0]).toMatchObject({ messageCount: 8 });
+  });
+
+  it('rebuilds a summary that was made for another branch', async () => {
+    const complete = jest.spyOn(provider, 'complete');
+    const messages = withMessageIds(conversationOf(8));
+    const summary = { text: 'Other branch', messageCount: 6, lastMessageId: 'm20', updatedAt: new Date().toISOString() };
+
+    const context = await prepareConversationContext(1, { messages, summary }, store);
+
+    expect(complete.mock.calls[0][0].messages[0].content).not.toContain('Other branch');
+    expect(store.saved[0]).toMatchObject({ messageCount: 6, lastMessageId: 'm5' });
+    expect(context.summary?.text).toBe('They are working on praying Fajr on time.');
+  });
+
+  it('falls back to the full history when summarization fails', async () => {
+    jest.spyOn(provider, 'complete').mockRejectedValueOnce(Object.assign(new Error('bad request'), { status: 400 }));
+    const messages = conversationOf(8);
+
+    const context = await prepareConversationContext(1, { messages, summary: null }, store);
+
+    expect(context.summary).toBeNull();
+    expect(context.previousMessages).toHaveLength(8);
+    expect(store.saved).toHaveLength(0);
+  });
+});
+
+describe('regenerateConversationSummary', () => {
+  it('rebuilds the summary from scratch', async () => {
+    const provider = new StubProvider();
+    provider.setFixture('conversation.summary', ['Fresh summary']);
+    setLLMProvider(provider);
+    configureSummarization({ thresholdTokens: 50, keepMessages: 2 });
+    const store = new SummaryStore();
+
+    const summary = await regenerateConversationSummary(1, { messages: conversationOf(5) }, store);
+
+    expect(summary).toMatchObject({ text: 'Fresh summary', messageCount: 3 });
+    expect(store.saved).toEqual([summary]);
+    setLLMProvider(null);
+    configureSummarization();
+  });
+});
@@ -0,0 +1,53 @@
+import type { Message } from '@shared/schema';
+import { appendMessage, branchTo, describeBranch, latestLeaf, siblingIds, withMessageIds } from '@shared/message-tree';
+
+function chain(...contents: string[]): Message[] {
+  return contents.map((content, i) => ({ role: i % 2 === 0 ? 'user' as const : 'assistant' as const, content }));
+}
+
+describe('withMessageIds', () => {
+  it('reads messages saved before branching as one chain', () => {
+    const messages = withMessageIds(chain('reflection', 'reply', 'answer'));
+
+    expect(messages.map(m => [m.id, m.parentId])).toEqual([['m0', null], ['m1', 'm0'], ['m2', 'm1']]);
+  });
+});
+
+describe('branches', () => {
+  // reflection -> reply A -> answer, with reply B regenerated next to reply A
+  function tree(): Message[] {
+    const messages = withMessageIds(chain('reflection', 'reply A', 'answer'));
+    appendMessage(messages, { role: 'assistant', content: 'reply B' }, 'm0');
+    return messages;
+  }
+
+  it('follows parents from the active message back to the root', () => {
+    expect(branchTo(tree(), 'm3').map(m => m.content)).toEqual(['reflection', 'reply B']);
+    expect(branchTo(tree(), 'm2').map(m => m.content)).toEqual(['reflection', 'reply A', 'answer']);
+  });
+
+  it('ends at the latest message without an active one', () => {
+    expect(branchTo(tree(), null).map(m => m.content)).toEqual(['reflection', 'reply B']);
+  });
+
+  it('lists the alternatives for a message', () => {
+    expect(siblingIds(tree(), 'm1')).toEqual(['m1', 'm3']);
+    expect(siblingIds(tree(), 'm0')).toEqual(['m0']);
+  });
+
+  it('lands on the newest line of replies when switching branches', () => {
+    const messages = tree();
+    appendMessage(messages, { role: 'user', content: 'second answer' }, 'm1');
+
+    expect(latestLeaf(messages, 'm1')).toBe('m4');
+    expect(latestLeaf(messages, 'm3')).toBe('m3');
+  });
+
+  it('describes the selected branch with its alternatives', () => {
+    expect(describeBranch(tree(), 'm2').map(({ message, siblingIds }) => [message.id, siblingIds])).toEqual([
+      ['m0', ['m0']],
+      ['m1', ['m1', 'm3']],
+      ['m2', ['m2']],
+    ]);
+  });
+});
@@ -0,0 +1,89 @@
+import type { MoodCheckIn, WirdPractice } from '@shared/schema';
+import { computeMoodAnalytics, correlation, moodScore, wirdCompletion } from '../mood';
+
+function checkIn(timestamp: string, mood: MoodCheckIn['mood'], intensity: number): MoodCheckIn {
+  return { reflectionId: 1, mood, intensity, timestamp: new Date(timestamp) };
+}
+
+function practices(completed: number, total: number): WirdPractice[] {
+  return Array.from({ length: total }, (_, i) => ({
+    id: `p${i}`,
+    name: `Practice ${i}`,
+    type: 'general' as const,
+    status: i < completed ? 'completed' as const : 'incomplete' as const,
+  }));
+}
+
+const from = new Date('2024-03-01T00:00:00Z');
+const to = new Date('2024-03-31T23:59:59Z');
+
+describe('moodScore', () => {
+  it('signs the intensity by how the mood feels', () => {
+    expect(moodScore({ mood: 'gratitude', intensity: 7 })).toBe(7);
+    expect(moodScore({ mood: 'sadness', intensity: 4 })).toBe(-4);
+    expect(moodScore({ mood: 'confusion', intensity: 9 })).toBe(0);
+  });
+});
+
+describe('wirdCompletion', () => {
+  it('is the share of completed practices', () => {
+    expect(wirdCompletion({ practices: practices(1, 4) })).toBe(0.25);
+    expect(wirdCompletion({ practices: [] })).toBe(0);
+    // Older entries mark completion with isCompleted instead of status
+    expect(wirdCompletion({ practices: [{ id: 'p0', name: 'Fajr', isCompleted: true }, { id: 'p1', name: 'Duha' }] })).toBe(0.5);
+  });
+});
+
+describe('correlation', () => {
+  it('is null with too few days or no variation', () => {
+    expect(correlation([1, 2], [1, 2])).toBeNull();
+    expect(correlation([1, 2, 3], [1, 1, 1])).toBeNull();
+  });
+
+  it('is 1 and -1 for perfectly related series', () => {
+    expect(correlation([1, 2, 3], [2, 4, 6])).toBe(1);
+    expect(correlation([1, 2, 3], [6, 4, 2])).toBe(-1);
+  });
+});
+
+describe('computeMoodAnalytics', () => {
+  const checkIns = [
+    checkIn('2024-03-04T08:00:00Z', 'joy', 8), // Monday
+    checkIn('2024-03-04T20:00:00Z', 'sadness', 2),
+    checkIn('2024-03-05T09:00:00Z', 'fear', 6), // Tuesday
+    checkIn('2024-03-06T09:00:00Z', 'peace', 6), // Wednesday
+    checkIn('2024-03-11T09:00:00Z', 'peace', 4), // Monday
+  ];
+
+  it('groups check-ins by day and weekday', () => {
+    const analytics = computeMoodAnalytics(checkIns, [], from, to);
+
+    expect(analytics.from).toBe('2024-03-01');
+    expect(analytics.to).toBe('2024-03-31');
+    expect(analytics.overTime.map(point => [point.date, point.averageScore, point.count])).toEqual([
+      ['2024-03-04', 3, 2],
+      ['2024-03-05', -6, 1],
+      ['2024-03-06', 6, 1],
+      ['2024-03-11', 4, 1],
+    ]);
+    expect(analytics.byWeekday[1]).toEqual({ weekday: 1, averageScore: 3.33, count: 3 });
+    expect(analytics.byWeekday[0]).toEqual({ weekday: 0, averageScore: null, count: 0 });
+    expect(analytics.counts.peace).toBe(2);
+  });
+
+  it('relates daily mood to wird completion', () => {
+    const wirds = [
+      { date: '2024-03-04', practices: practices(2, 4) },
+      { date: '2024-03-05', practices: practices(0, 4) },
+      { date: '2024-03-06', practices: practices(4, 4) },
+    ];
+
+    const { wirdCorrelation } = computeMoodAnalytics(checkIns, wirds, from, to);
+
+    expect(wirdCorrelation.days).toBe(3);
+    expect(wirdCorrelation.coefficient).toBeGreaterThan(0.9);
+    // Only the 6th had every practice done; half done counts as without
+    expect(wirdCorrelation.withCompletedWird).toEqual({ averageScore: 6, count: 1 });
+    expect(wirdCorrelation.withoutCompletedWird).toEqual({ averageScore: 0.33, count: 3 });
+  });
+});
@@ -0,0 +1,88 @@
+import type { DiffSegment } from '@shared/schema';
+import { diffFields, diffWords, HALAQA_EDITABLE_FIELDS, REFLECTION_EDITABLE_FIELDS, toRevisionView, valuesBefore } from '../revisions';
+
+function textOf(segments: DiffSegment[], keep: DiffSegment['type']): string {
+  return segments.filter(segment => segment.type === 'equal' || segment.type === keep).map(segment => segment.text).join('');
+}
+
+describe('diffWords', () => {
+  it('marks replaced words and keeps the rest equal', () => {
+    const segments = diffWords('I prayed fajr late today', 'I prayed fajr on time today');
+
+    expect(segments).toEqual([
+      { type: 'equal', text: 'I prayed fajr ' },
+      { type: 'removed', text: 'late ' },
+      { type: 'added', text: 'on time ' },
+      { type: 'equal', text: 'today' },
+    ]);
+  });
+
+  it('rebuilds both versions from the segments', () => {
+    const before = 'Alhamdulillah, a calm day.\nRead surah al-Kahf.';
+    const after = 'Alhamdulillah, a busy but calm day.\nRead surah al-Kahf after jumuah.';
+    const segments = diffWords(before, after);
+
+    expect(textOf(segments, 'removed')).toBe(before);
+    expect(textOf(segments, 'added')).toBe(after);
+  });
+
+  it('handles empty sides', () => {
+    expect(diffWords('', 'new text')).toEqual([{ type: 'added', text: 'new text' }]);
+    expect(diffWords('old text', '')).toEqual([{ type: 'removed', text: 'old text' }]);
+  });
+});
+
+describe('diffFields', () => {
+  it('records only the fields that were sent and changed', () => {
+    const changes = diffFields(
+      { content: 'first draft', transcription: null },
+      { content: 'second draft' },
+      REFLECTION_EDITABLE_FIELDS
+    );
+
+    expect(changes).toEqual([{ field: 'content', before: 'first draft', after: 'second draft' }]);
+  });
+
+  it('compares dates by day and ignores fields that are not editable', () => {
+    const changes = diffFields(
+      { title: 'Tafsir night', date: new Date('2024-03-01T19:00:00Z'), isArchived: false },
+      { title: 'Tafsir night', date: new Date('2024-03-01T00:00:00Z'), isArchived: true },
+      HALAQA_EDITABLE_FIELDS
+    );
+
+    expect(changes).toEqual([]);
+  });
+});
+
+describe('valuesBefore', () => {
+  it('returns the values an edit replaced', () => {
+    const revision = {
+      changes: [
+        { field: 'title', before: 'Old title', after: 'New title' },
+        { field: 'speaker', before: null, after: 'Ustadh Ali' },
+      ],
+    };
+
+    expect(valuesBefore(revision)).toEqual({ title: 'Old title', speaker: null });
+  });
+});
+
+describe('toRevisionView', () => {
+  it('adds a word diff to each change', () => {
+    const view = toRevisionView({
+      id: 1,
+      entityType: 'reflection',
+      entityId: 7,
+      userId: 'user-1',
+      changes: [{ field: 'transcription', before: 'say bismillah first', after: 'say bismillah ar-rahman first' }],
+      restoredFrom: null,
+      createdAt: new Date('2024-03-02T10:00:00Z'),
+    });
+
+    expect(view.changes[0].diff).toEqual([
+      { type: 'equal', text: 'say bismillah ' },
+      { type: 'added', text: 'ar-rahman ' },
+      { type: 'equal', text: 'first' },
+    ]);
+  });
+});
@@ -0,0 +1,51 @@
+import { inspiredPractices, practiceFromSuggestion } from '../wird-practices';
+
+const REFLECTION = { sourceType: 'reflection' as const, sourceId: 12 };
+
+describe('practiceFromSuggestion', () => {
+  it('records the source of a suggested practice', () => {
+    expect(practiceFromSuggestion({ id: 'wird-2', title: 'Istighfar after prayer', target: 33 }, REFLECTION)).toEqual({
+      id: 'wird-2',
+      name: 'Istighfar after prayer',
+      category: 'General',
+      target: 33,
+      completed: 0,
+      unit: 'times',
+      isCompleted: false,
+      source: REFLECTION,
+    });
+    expect(practiceFromSuggestion({ id: 'wird-1', name: 'Dhikr' })).not.toHaveProperty('source');
+  });
+});
+
+describe('inspiredPractices', () => {
+  const istighfar = practiceFromSuggestion({ id: 'wird-2', title: 'Istighfar after prayer', type: 'Dhikr' }, REFLECTION);
+
+  it('counts the days a practice was done since it was added from the reflection', () => {
+    const wirds = [
+      { date: '2025-03-04', practices: [{ id: 'p3', name: 'istighfar  after prayer', isCompleted: false }] },
+      { date: '2025-03-01', practices: [{ ...istighfar, isCompleted: true }] },
+      { date: '2025-02-27', practices: [{ id: 'p0', name: 'Istighfar after prayer', isCompleted: true }] },
+      { date: new Date('2025-03-02T00:00:00Z'), practices: [{ id: 'p2', name: 'Istighfar after prayer', status: 'completed' }] },
+      { date: '2025-03-03', practices: [{ id: 'p4', name: 'Read Surah Al-Kahf', isCompleted: true }] },
+    ];
+
+    expect(inspiredPractices(wirds, REFLECTION, new Date('2025-03-05T12:00:00Z'))).toEqual([{
+      name: 'Istighfar after prayer',
+      category: 'Dhikr',
+      since: '2025-03-01',
+      days: 5,
+      daysTracked: 3,
+      daysDone: 2,
+      consistency: 0.4,
+      lastDone: '2025-03-02',
+    }]);
+  });
+
+  it('leaves out practices added from other sources', () => {
+    const fromHalaqa = practiceFromSuggestion({ id: 'wird-1', title: 'Morning adhkar' }, { sourceType: 'halaqa', sourceId: 12 });
+    const fromOtherReflection = practiceFromSuggestion({ id: 'wird-1', title: 'Evening adhkar' }, { sourceType: 'reflection', sourceId: 3 });
+
+    expect(inspiredPractices([{ date: '2025-03-01', practices: [fromHalaqa, fromOtherReflection] }], REFLECTION)).toEqual([]);
+  });
+});
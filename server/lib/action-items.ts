@@ -0,0 +1,194 @@
+/**
+ * The personal action plan
+ *
+ * Generated action items are imported into the user's plan as they are made:
+ * a conversation's from generateActionItems and a halaqa's from
+ * generateHalaqaActions. Generating them again replaces the imported items
+ * the user hasn't touched (still open and never edited) and keeps the rest.
+ * Items imported from a halaqa are completed along with the halaqa's own
+ * checklist, in either direction.
+ */
+import type {
+  ActionItem,
+  ActionItemStatus,
+  ActionItemView,
+  HalaqaActionItem,
+  InsertActionItem,
+} from '@shared/schema';
+import { splitActionItem } from '@shared/action-items';
+import type { IStorage } from '../storage';
+import { createLogger } from './logger';
+
+const logger = createLogger('action-items');
+
+export type ImportSource = { type: 'conversation' | 'halaqa'; id: number };
+
+export type GeneratedActionItem = {
+  text: string;
+  /** The halaqa checklist item it comes from */
+  sourceItemId?: string;
+};
+
+type ImportStore = Pick<IStorage, 'listActionItems' | 'createActionItems' | 'updateActionItem' | 'deleteActionItems'>;
+
+/**
+ * Items are the same when their action reads the same, ignoring case and spacing
+ */
+function sameAction(text: string): string {
+  return text.trim().replace(/\s+/g, ' ').toLowerCase();
+}
+
+/**
+ * Whether the user has done anything with an imported item
+ */
+function isUntouched(item: ActionItem): boolean {
+  return item.status === 'open' && !item.editedAt;
+}
+
+/**
+ * Bring a source's newly generated action items into the user's plan.
+ * Returns the items added.
+ */
+export async function importActionItems(
+  storage: ImportStore,
+  userId: string,
+  source: ImportSource,
+  generated: GeneratedActionItem[]
+): Promise<ActionItem[]> {
+  const sourceId = String(source.id);
+  const existing = await storage.listActionItems(userId, { sourceType: source.type, sourceId });
+
+  const incoming = new Map<string, InsertActionItem>();
+  for (const { text, sourceItemId } of generated) {
+    const { action, context } = splitActionItem(text.trim());
+    if (!action || incoming.has(sameAction(action))) continue;
+    incoming.set(sameAction(action), {
+      userId,
+      text: action,
+      context: context || null,
+      sourceType: source.type,
+      sourceId,
+      sourceItemId: sourceItemId ?? null,
+    });
+  }
+
+  const stale = existing.filter(item => isUntouched(item) && !incoming.has(sameAction(item.text)));
+  await storage.deleteActionItems(stale.map(item => item.id));
+
+  // Kept items follow the new checklist item, so completion stays in step
+  const kept = existing.filter(item => !stale.includes(item));
+  for (const item of kept) {
+    const match = incoming.get(sameAction(item.text));
+    if (match) {
+      incoming.delete(sameAction(item.text));
+      if (match.sourceItemId && match.sourceItemId !== item.sourceItemId) {
+        await storage.updateActionItem(item.id, { sourceItemId: match.sourceItemId });
+      }
+    }
+  }
+
+  const created = await storage.createActionItems(Array.from(incoming.values()));
+  logger.debug(`Imported ${created.length} action items from ${source.type} ${sourceId}, replaced ${stale.length}`);
+  return created;
+}
+
+/**
+ * Import without failing the request that generated the items; the plan can
+ * catch up the next time they are generated
+ */
+export async function tryImportActionItems(
+  storage: ImportStore,
+  userId: string,
+  source: ImportSource,
+  generated: GeneratedActionItem[]
+): Promise<void> {
+  try {
+    await importActionItems(storage, userId, source, generated);
+  } catch (error) {
+    logger.warn(`Failed to import action items from ${source.type} ${source.id}`, error);
+  }
+}
+
+/**
+ * The fields to save for a user's edit: the edit itself, when it was made,
+ * and the completion time when the status changes
+ */
+export function editActionItem(item: ActionItem, edit: Partial<InsertActionItem>): Partial<InsertActionItem> {
+  const now = new Date();
+  const statusChanged = edit.status !== undefined && edit.status !== item.status;
+  return {
+    ...edit,
+    ...(statusChanged && { completedAt: edit.status === 'completed' ? now : null }),
+    editedAt: now,
+  };
+}
+
+/**
+ * Tick or untick the halaqa checklist item a plan item was imported from
+ */
+export async function syncHalaqaChecklist(
+  storage: Pick<IStorage, 'getHalaqa' | 'updateHalaqaActionItems'>,
+  item: ActionItem
+): Promise<void> {
+  if (item.sourceType !== 'halaqa' || !item.sourceId || !item.sourceItemId) return;
+
+  const halaqa = await storage.getHalaqa(parseInt(item.sourceId));
+  const completed = item.status === 'completed';
+  const checklist = halaqa?.actionItems ?? [];
+  if (!checklist.some(entry => entry.id === item.sourceItemId && entry.completed !== completed)) return;
+
+  await storage.updateHalaqaActionItems(halaqa!.id, checklist.map(entry => entry.id === item.sourceItemId
+    ? { ...entry, completed, completedDate: completed ? item.completedAt ?? new Date() : undefined }
+    : entry));
+}
+
+/**
+ * Complete or reopen the plan items imported from a halaqa checklist item
+ */
+export async function syncFromHalaqaChecklist(
+  storage: Pick<IStorage, 'listActionItems' | 'updateActionItem'>,
+  userId: string,
+  halaqaId: number,
+  entry: HalaqaActionItem
+): Promise<void> {
+  const status: ActionItemStatus = entry.completed ? 'completed' : 'open';
+  const items = await storage.listActionItems(userId, { sourceType: 'halaqa', sourceId: String(halaqaId) });
+
+  for (const item of items) {
+    if (item.sourceItemId !== entry.id || (item.status === 'completed') === entry.completed) continue;
+    await storage.updateActionItem(item.id, editActionItem(item, { status }));
+  }
+}
+
+/**
+ * Items with the titles of their sources, for showing the plan. Sources
+ * that no longer exist leave the title null.
+ */
+export async function describeActionItems(
+  storage: Pick<IStorage, 'getConversation' | 'getHalaqa' | 'getFramework'>,
+  items: ActionItem[]
+): Promise<ActionItemView[]> {
+  const sources = new Map<string, Promise<{ sourceTitle: string | null; reflectionId: number | null }>>();
+
+  const describe = (item: ActionItem) => {
+    const key = `${item.sourceType}:${item.sourceId}`;
+    if (!sources.has(key)) {
+      sources.set(key, (async () => {
+        if (!item.sourceId) return { sourceTitle: null, reflectionId: null };
+        if (item.sourceType === 'conversation') {
+          const conversation = await storage.getConversation(parseInt(item.sourceId));
+          return { sourceTitle: conversation?.title ?? null, reflectionId: conversation?.reflectionId ?? null };
+        }
+        if (item.sourceType === 'halaqa') {
+          const halaqa = await storage.getHalaqa(parseInt(item.sourceId));
+          return { sourceTitle: halaqa?.title ?? null, reflectionId: null };
+        }
+        const framework = await storage.getFramework(item.userId, item.sourceId);
+        return { sourceTitle: framework?.title ?? null, reflectionId: null };
+      })());
+    }
+    return sources.get(key)!;
+  };
+
+  return Promise.all(items.map(async item => ({ ...item, ...(await describe(item)) })));
+}
@@ -1,9 +1,22 @@
-import Anthropic from '@anthropic-ai/sdk';
 import { logApiRequest, getDebugHeaders, logCopyablePrompt } from './debug-logs';
 import { Halaqa } from '@shared/schema';
 import { createLogger } from "./logger";
 import { v4 } from "uuid";
 import { WirdSuggestion } from '@shared/schema';
+import { z } from 'zod';
+import {
+  generateText,
+  generateStructured,
+  repairStructured,
+  streamText,
+  isLLMAvailable,
+  isValidApiKey,
+  LLMCallRejectedError,
+  LLMRequest,
+  LLMTimeoutError,
+  LLMUnavailableError,
+} from './llm';
+import { buildSystemPrompt, renderPrompt } from './prompts';
 
 // Import WirdSuggestion type and extend it with the id field that's required
 import { WirdSuggestion as BaseWirdSuggestion } from '@shared/schema';
@@ -13,14 +26,6 @@ interface ExtendedWirdSuggestion extends BaseWirdSuggestion {
   id: string;
 }
 
-// Process environment variables for API key
-const ANTHROPIC_API_KEY = process.env.ANTHROPIC_API_KEY || '';
-
-// Using the correct Claude model
-const anthropic = new Anthropic({
-  apiKey: ANTHROPIC_API_KEY,
-});
-
 // Define the types we'll use for messages
 type AnthropicMessage = {
   role: 'user' | 'assistant';
@@ -40,14 +45,10 @@ export interface PersonalizationContext {
   guidancePreferences?: string[];
 }
 
-// Add validation for the API key
-function isValidApiKey(key: string): boolean {
-  // Basic validation to check if it's a potentially valid Anthropic key
-  return key.startsWith('sk-ant-') && key.length > 30;
-}
-
-// Check API key validity and log appropriate warnings
-if (!process.env.ANTHROPIC_API_KEY) {
+// Check API key validity and log appropriate warnings when Anthropic is the configured provider
+if ((process.env.LLM_PROVIDER || 'anthropic') !== 'anthropic') {
+  console.log(`Using LLM provider "${process.env.LLM_PROVIDER}" for AI features`);
+} else if (!process.env.ANTHROPIC_API_KEY) {
   console.warn("⚠️ WARNING: ANTHROPIC_API_KEY is not set in the environment variables.");
   console.warn("Please add your API key to the .env file to use Claude AI features.");
 } else if (!isValidApiKey(process.env.ANTHROPIC_API_KEY)) {
@@ -64,45 +65,24 @@ const getLogger = (functionName: string) => createLogger(`anthropic:${functionNa
  * @param input The user input to respond to
  * @param previousMessages Optional array of previous messages for context
  * @param personalizationContext Optional personalization data for tailored responses
+ * @param conversationSummary Optional summary of messages older than previousMessages
  * @returns A string response from Claude
  */
 export async function generateResponse(
   input: string, 
   previousMessages?: AnthropicMessage[],
-  personalizationContext?: PersonalizationContext
+  personalizationContext?: PersonalizationContext,
+  conversationSummary?: string
 ): Promise<string> {
   try {
     console.log("Generating response for:", input);
     
-    // Format the messages for Claude
-    let messages;
-    if (personalizationContext) {
-      // Create system prompt
-      const systemPrompt = createPersonalizationSystemPrompt(personalizationContext);
-      console.log("Using personalization for response generation");
-      
-      // If we have previous messages, add system prompt to the first message
-      if (previousMessages && previousMessages.length > 0) {
-        const enhancedMessages = [...previousMessages];
-        // Add the system prompt to the first user message
-        if (enhancedMessages[0].role === 'user') {
-          enhancedMessages[0] = {
-            ...enhancedMessages[0],
-            content: `${systemPrompt}\n\n${enhancedMessages[0].content}`
-          };
-        }
-        
-        messages = [...enhancedMessages, { role: 'user' as const, content: input }];
-      } else {
-        // If no previous messages, add system prompt to this input
-        messages = [{ role: 'user' as const, content: `${systemPrompt}\n\n${input}` }];
-      }
-    } else {
-      // No personalization, use regular messages
-      messages = previousMessages ? 
-        [...previousMessages, { role: 'user' as const, content: input }] : 
-        [{ role: 'user' as const, content: input }];
-    }
+    const messages: AnthropicMessage[] = [...(previousMessages ?? []), { role: 'user', content: input }];
+    // Older turns that were summarized are given to the model as background, not as a message
+    const system = buildSystemPrompt({
+      personalization: personalizationContext,
+      instructions: conversationSummary ? `Summary of your earlier conversation with the user:\n${conversationSummary}` : undefined,
+    });
     
     // Log the exact payload being sent to Anthropic
     logApiRequest("generateResponse", messages, personalizationContext);
@@ -110,23 +90,23 @@ export async function generateResponse(
     // Also log a copyable version for easy testing in Claude console
     logCopyablePrompt("generateResponse", messages);
     
-    // Call Claude API
-    const response = await anthropic.messages.create({
+    // Call the configured LLM provider
+    const response = await generateText({
+      feature: 'reflection.respond',
       model: 'claude-3-7-sonnet-20250219',
+      system,
       messages: messages,
-      max_tokens: 1024,
+      maxTokens: 1024,
       temperature: 0.7,
     });
 
     // Extract the response text
-    let responseText = '';
-    if (response.content && response.content.length > 0 && response.content[0].type === 'text') {
-      responseText = response.content[0].text || '';
-    }
+    const responseText = response.text;
     
     console.log("Generated response:", responseText);
     return responseText;
   } catch (error) {
+    if (error instanceof LLMCallRejectedError) throw error;
     handleAnthropicError(error, "generating response");
     return "I'm having trouble generating a response right now. Please check your API key or try again later.";
   }
@@ -173,166 +153,232 @@ export async function generateFollowUpQuestions(
       console.log("⚠️ WARNING: personalizationContext contains null values which may cause issues");
     }
     
-    // Create the system prompt early to test
-    const systemPrompt = createPersonalizationSystemPrompt(personalizationContext);
-    console.log("🔍 DEBUG-ANTHROPIC: Generated system prompt length:", systemPrompt.length);
-    console.log("🔍 DEBUG-ANTHROPIC: System prompt preview:", 
-      systemPrompt.substring(0, 100) + (systemPrompt.length > 100 ? '...' : ''));
-    
     // Record that we're using personalization for this request
     console.log("🔍 DEBUG-ANTHROPIC: Using personalization for follow-up questions");
   } else {
     console.log("🔍 DEBUG-ANTHROPIC: No personalizationContext provided to generateFollowUpQuestions");
   }
   
-  // Provide fallbacks for API authentication failures
-  const fallbackUnderstanding = "I understand you're reflecting on your spiritual journey. Thank you for sharing your thoughts with me.";
-  const fallbackQuestions = [
-    "How would you like to expand on your reflection?", 
-    "What aspects of your spiritual journey would you like to explore further?",
-    "Is there anything specific from today that you'd like to reflect on more deeply?"
-  ];
+  const request = buildFollowUpRequest(input, previousMessages, personalizationContext);
+
+  console.log("Sending prompt to Claude...");
   
-  // If the API key is missing or obviously invalid, return fallbacks immediately
-  if (!process.env.ANTHROPIC_API_KEY || !isValidApiKey(process.env.ANTHROPIC_API_KEY)) {
-    console.warn("Using fallback responses due to missing or invalid API key");
-    return { understanding: fallbackUnderstanding, questions: fallbackQuestions };
-  }
+  // Log the exact payload being sent to Anthropic
+  logApiRequest("generateFollowUpQuestions", request.messages, personalizationContext);
   
-  const conversationContext = previousMessages 
-    ? `Previous conversation:\n${previousMessages.join("\n")}\n\nLatest reflection: "${input}"`
-    : `Reflection: "${input}"`;
-
-  // Base prompt for reflection questions
-  let prompt = `You are a compassionate Islamic Reflection Guide with deep knowledge of the Quran, Sunnah, and Tafsir. Your purpose is to help Muslims reflect more deeply on their daily experiences, thoughts, and spiritual journey through thoughtful questioning.
-
-When a user shares their reflections, thoughts, ideas, or daily summary:
-
-1. Begin with an UNDERSTANDING_RESPONSE section:
-   - Show genuine understanding of their situation and emotional state
-   - Acknowledge what they've shared without assumptions or judgment
-   - Briefly connect their reflections to relevant Islamic wisdom when appropriate
-   - Demonstrate empathy and emotional intelligence
-   - Keep this section concise, but don't be too short. Use as many sentences as needed to be empathetic and helpful.
-   - Use the user's name in the response when appropriate
-   - Use the user's personalization context when appropriate
-   - Format this section as: <UNDERSTANDING_RESPONSE>Your empathetic response here</UNDERSTANDING_RESPONSE>
-
-2. Follow with a REFLECTION_QUESTIONS section containing exactly 3 questions that:
-   - Are directly relevant to what they've explicitly shared
-   - Encourage deeper introspection and self-awareness
-   - Connect to Islamic principles when appropriate without imposing interpretations
-   - Are completely free of judgment or implied "correct" answers
-   - Progress from immediate concerns toward broader spiritual insights
-   - Format each question on its own line with a "Q1:", "Q2:", "Q3:" prefix
-   - Format this section as: <REFLECTION_QUESTIONS>
-     Q1: Your first question here
-     Q2: Your second question here
-     Q3: Your third question here
-     </REFLECTION_QUESTIONS>
-
-3. All Islamic references must be rigorously verified:
-   - Reference specific ayat from the Quran with precise surah and verse numbers
-   - Include only authenticated (sahih or hasan) hadith with complete attribution
-   - Draw only from recognized tafsir by established scholars
-   - Never reference weak or fabricated hadith under any circumstances
-   - Verify all references before including them
-
-4. For follow-up interactions:
-   - Review all previous exchanges to understand their journey
-   - Note recurring themes they've chosen to explore
-   - Frame new questions that build upon earlier reflections
-   - Avoid imposing a predetermined spiritual development path
-   - Respect the user's autonomy in their spiritual journey
-
-Maintain neutrality regarding different Islamic schools of thought and avoid presenting any perspective as definitively "correct" unless it represents consensus across mainstream Islamic scholarship.
-
-Your exact output format must follow this structure to enable proper extraction of questions for the UI:
-<UNDERSTANDING_RESPONSE>
-[Your empathetic response here]
-</UNDERSTANDING_RESPONSE>
-
-<REFLECTION_QUESTIONS>
-Q1: [First reflective question]
-Q2: [Second reflective question]
-Q3: [Third reflective question]
-</REFLECTION_QUESTIONS>
-
-Here is the user's reflection that you should respond to:
-${conversationContext}`;
-
-  // Add personalization context if available
-  if (personalizationContext) {
-    const systemPrompt = createPersonalizationSystemPrompt(personalizationContext);
-    console.log(systemPrompt)
-    prompt = `${systemPrompt}\n\n${prompt}`;
-    console.log("Using personalization for follow-up questions");
+  // Also log a copyable version of the prompt for easy testing
+  logCopyablePrompt("generateFollowUpQuestions", request.messages[0].content);
+  
+  return generateStructured(request, followUpSchema, { parse: parseFollowUpResponse });
+}
+
+/**
+ * Streaming counterpart of generateFollowUpQuestions. The visible part of the
+ * reply (the UNDERSTANDING_RESPONSE section) is passed to onUnderstandingDelta
+ * as it arrives; the validated result is returned once generation finishes.
+ * Upstream errors and aborts are thrown so the caller can tell the client the
+ * stream did not complete.
+ */
+export async function streamFollowUpQuestions(
+  input: string,
+  previousMessages: string[] | undefined,
+  personalizationContext: PersonalizationContext | undefined,
+  onUnderstandingDelta: (delta: string) => void,
+  signal?: AbortSignal
+): Promise<{understanding: string, questions: string[]}> {
+  const request = buildFollowUpRequest(input, previousMessages, personalizationContext);
+  logApiRequest("streamFollowUpQuestions", request.messages, personalizationContext);
+
+  let responseText = '';
+  let emittedLength = 0;
+
+  for await (const delta of streamText(request, { signal })) {
+    responseText += delta;
+
+    const visible = extractPartialUnderstanding(responseText);
+    if (visible.length > emittedLength) {
+      onUnderstandingDelta(visible.slice(emittedLength));
+      emittedLength = visible.length;
+    }
   }
 
-  try {
-    console.log("Sending prompt to Claude...");
-    
-    // Log the exact payload being sent to Anthropic
-    const messages = [{ role: 'user' as const, content: prompt }];
-    logApiRequest("generateFollowUpQuestions", messages, personalizationContext);
-    
-    // Also log a copyable version of the prompt for easy testing
-    logCopyablePrompt("generateFollowUpQuestions", prompt);
+  if (signal?.aborted) {
+    throw new Error("Follow-up generation aborted");
+  }
+
+  console.log("Claude response (streamed):", responseText);
+  // The streamed text may still need correcting; repairs happen without streaming
+  return repairStructured(request, responseText, followUpSchema, { parse: parseFollowUpResponse });
+}
+
+/**
+ * Condense older conversation messages into a running summary, extending
+ * previousSummary when one exists. Errors are thrown; callers decide whether
+ * to fall back to sending the full history.
+ * @param messages Formatted messages ("role: content") not yet covered by the summary
+ * @param previousSummary The summary of the messages before these, if any
+ */
+export async function generateConversationSummary(
+  messages: string[],
+  previousSummary?: string
+): Promise<string> {
+  const logger = getLogger("generateConversationSummary");
+  logger.info(`Summarizing ${messages.length} messages${previousSummary ? " into the existing summary" : ""}`);
+
+  if (!isLLMAvailable()) {
+    throw new LLMUnavailableError('conversation.summary');
+  }
+
+  const prompt = renderPrompt('conversation.summary', {
+    previousSummary,
+    messages: messages.join("\n"),
+  }).text;
+
+  const completion = await generateText({
+    feature: 'conversation.summary',
+    model: 'claude-3-haiku-20240307',
+    maxTokens: 600,
+    temperature: 0.3,
+    system: buildSystemPrompt(),
+    messages: [{ role: 'user', content: prompt }],
+  });
+
+  const summary = completion.text.trim();
+  if (!summary) {
+    throw new Error('Conversation summary was empty');
+  }
+  return summary;
+}
+
+const conversationTitleSchema = z.object({
+  title: z.string().trim().min(1).max(100),
+  summary: z.string().trim().min(1).max(400),
+});
+
+/**
+ * Title and short summary of a conversation for the user's history
+ * @param messages Conversation lines formatted as "role: content"
+ */
+export async function generateConversationTitle(
+  messages: string[]
+): Promise<{ title: string; summary: string }> {
+  const logger = getLogger("generateConversationTitle");
+  logger.info(`Titling a conversation of ${messages.length} messages`);
+
+  if (!isLLMAvailable()) {
+    throw new LLMUnavailableError('conversation.title');
+  }
+
+  const prompt = renderPrompt('conversation.title', {
+    messages: messages.join("\n"),
+  }).text;
+
+  return generateStructured({
+    feature: 'conversation.title',
+    model: 'claude-3-haiku-20240307',
+    maxTokens: 300,
+    temperature: 0.3,
+    system: buildSystemPrompt(),
+    messages: [{ role: 'user', content: prompt }],
+  }, conversationTitleSchema);
+}
+
+/**
+ * Canned reply used by routes when follow-up generation fails
+ */
+export function getFallbackFollowUp(): {understanding: string, questions: string[]} {
+  return {
+    understanding: "I understand you're reflecting on your spiritual journey. Thank you for sharing your thoughts with me.",
+    questions: [
+      "How would you like to expand on your reflection?", 
+      "What aspects of your spiritual journey would you like to explore further?",
+      "Is there anything specific from today that you'd like to reflect on more deeply?"
+    ],
+  };
+}
+
+const followUpSchema = z.object({
+  understanding: z.string({ required_error: "missing <UNDERSTANDING_RESPONSE> section" })
+    .min(1, "<UNDERSTANDING_RESPONSE> section is empty"),
+  questions: z.array(z.string().min(1), { required_error: "missing <REFLECTION_QUESTIONS> section" })
+    .length(3, "<REFLECTION_QUESTIONS> must contain exactly three questions (Q1, Q2, Q3)"),
+});
+
+function buildFollowUpRequest(
+  input: string,
+  previousMessages?: string[],
+  personalizationContext?: PersonalizationContext
+): LLMRequest {
+  if (!isLLMAvailable()) {
+    throw new LLMUnavailableError('reflection.follow-up');
+  }
+
+  const prompt = renderPrompt('reflection.follow-up', {
+    input,
+    previousConversation: previousMessages?.join("\n"),
+  }).text;
+
+  return {
+    feature: 'reflection.follow-up',
+    model: 'claude-3-7-sonnet-20250219',
+    system: buildSystemPrompt({ personalization: personalizationContext }),
+    messages: [{ role: 'user', content: prompt }],
+    maxTokens: 1024,
+    temperature: 0.7,
+  };
+}
+
+/**
+ * Extract the understanding text and Q1-Q3 questions from a tagged reply.
+ * Missing sections are left undefined for followUpSchema to report.
+ */
+export function parseFollowUpResponse(responseText: string): {understanding?: string, questions?: string[]} {
+  // Extract understanding response
+  const understandingMatch = responseText.match(/<UNDERSTANDING_RESPONSE>([\s\S]*?)<\/UNDERSTANDING_RESPONSE>/);
+  const understanding = understandingMatch ? understandingMatch[1].trim() : undefined;
+  
+  // Extract reflection questions
+  let questions: string[] | undefined;
+  const questionsMatch = responseText.match(/<REFLECTION_QUESTIONS>([\s\S]*?)<\/REFLECTION_QUESTIONS>/);
+  if (questionsMatch && questionsMatch[1]) {
+    const questionsText = questionsMatch[1].trim();
+    // Extract Q1, Q2, Q3 questions
+    const questionLines = questionsText.split('\n').map(line => line.trim()).filter(line => line.length > 0);
     
-    const response = await anthropic.messages.create({
-      model: 'claude-3-7-sonnet-20250219',
-      messages: messages,
-      max_tokens: 1024,
-      temperature: 0.7,
+    questions = questionLines.map(line => {
+      // Remove Q1:, Q2:, Q3: prefix
+      return line.replace(/^Q\d+:\s*/, '').trim();
     });
+  }
+  
+  return { understanding, questions };
+}
 
-    // Extract and process the response content
-    let responseText = '';
-    if (response.content && response.content.length > 0 && response.content[0].type === 'text') {
-      responseText = response.content[0].text || '';
-    }
+/**
+ * The part of a partially streamed reply that is safe to show: the text inside
+ * UNDERSTANDING_RESPONSE so far, holding back a trailing fragment that may be
+ * the beginning of the closing tag
+ */
+export function extractPartialUnderstanding(text: string): string {
+  const openTag = '<UNDERSTANDING_RESPONSE>';
+  const closeTag = '</UNDERSTANDING_RESPONSE>';
 
-    console.log("Claude response (raw):", responseText);
-    
-    // Extract understanding response
-    let understanding = fallbackUnderstanding;
-    const understandingMatch = responseText.match(/<UNDERSTANDING_RESPONSE>([\s\S]*?)<\/UNDERSTANDING_RESPONSE>/);
-    if (understandingMatch && understandingMatch[1]) {
-      understanding = understandingMatch[1].trim();
-    }
-    
-    // Extract reflection questions
-    let questions: string[] = [];
-    const questionsMatch = responseText.match(/<REFLECTION_QUESTIONS>([\s\S]*?)<\/REFLECTION_QUESTIONS>/);
-    if (questionsMatch && questionsMatch[1]) {
-      const questionsText = questionsMatch[1].trim();
-      // Extract Q1, Q2, Q3 questions
-      const questionLines = questionsText.split('\n').map(line => line.trim()).filter(line => line.length > 0);
-      
-      questions = questionLines.map(line => {
-        // Remove Q1:, Q2:, Q3: prefix
-        return line.replace(/^Q\d+:\s*/, '').trim();
-      });
-    }
-    
-    // Validate that we got 3 questions
-    if (questions.length < 1) {
-      console.warn("Claude didn't return any questions, using fallback");
-      questions = fallbackQuestions;
-    } else if (questions.length < 3) {
-      console.warn(`Claude only returned ${questions.length} questions instead of 3`);
-      // Add fallback questions to fill the gaps
-      while (questions.length < 3) {
-        const fallbackIndex = questions.length % fallbackQuestions.length;
-        questions.push(fallbackQuestions[fallbackIndex]);
-      }
+  const start = text.indexOf(openTag);
+  if (start === -1) return '';
+
+  let body = text.slice(start + openTag.length);
+  const end = body.indexOf(closeTag);
+  if (end !== -1) {
+    return body.slice(0, end).trimStart();
+  }
+
+  for (let i = Math.min(closeTag.length - 1, body.length); i > 0; i--) {
+    if (closeTag.startsWith(body.slice(-i))) {
+      body = body.slice(0, -i);
+      break;
     }
-    
-    return { understanding, questions };
-  } catch (error) {
-    handleAnthropicError(error, "generating reflection response");
-    return { understanding: fallbackUnderstanding, questions: fallbackQuestions };
   }
+  return body.trimStart();
 }
 
 export async function generateActionItems(
@@ -347,55 +393,19 @@ export async function generateActionItems(
     "Reach out to someone in your community who might offer support."
   ];
   
-  // If the API key is missing or obviously invalid, return fallbacks immediately
-  if (!process.env.ANTHROPIC_API_KEY || !isValidApiKey(process.env.ANTHROPIC_API_KEY)) {
-    console.warn("Using fallback action items due to missing or invalid API key");
+  // If no LLM provider is configured, return fallbacks immediately
+  if (!isLLMAvailable()) {
+    console.warn("Using fallback action items because no LLM provider is configured");
     return fallbackActionItems;
   }
   
-  let prompt;
-  
-  // Process different input types
-  if (typeof messages === 'string') {
-    // Direct string input
-    prompt = `You are a thoughtful Islamic spiritual guide. Please review the following reflection and suggest practical, actionable steps the person can take to apply insights from their reflection.
-
-Focus on suggesting realistic, concrete actions that:
-1. Are directly relevant to what they've shared
-2. Balance spiritual, emotional, and practical dimensions
-3. Include specific Islamic practices when appropriate
-4. Vary in time commitment (some quick, some deeper)
-5. Are achievable without feeling overwhelming
-
-Format your response as a numbered list, with each action item being 1-2 sentences maximum. Start each item with an action verb. Focus on the most relevant 3-5 action items - quality over quantity. Do not include any text before or after the list.
-
-Here is the reflection:
-${messages}`;
-  } else {
-    // Convert array of messages to a single text
-    const conversationText = messages.map(msg => `${msg.role}: ${msg.content}`).join("\n\n");
-    
-    prompt = `You are a thoughtful Islamic spiritual guide. Please review the following conversation and suggest practical, actionable steps the person can take to apply insights from their reflection.
-
-Focus on suggesting realistic, concrete actions that:
-1. Are directly relevant to what they've shared
-2. Balance spiritual, emotional, and practical dimensions
-3. Include specific Islamic practices when appropriate
-4. Vary in time commitment (some quick, some deeper)
-5. Are achievable without feeling overwhelming
-
-Format your response as a numbered list, with each action item being 1-2 sentences maximum. Start each item with an action verb. Focus on the most relevant 3-5 action items - quality over quantity. Do not include any text before or after the list.
-
-Here is the conversation:
-${conversationText}`;
-  }
-  
-  // Add personalization if available
-  if (personalizationContext) {
-    const systemPrompt = createPersonalizationSystemPrompt(personalizationContext);
-    prompt = `${systemPrompt}\n\n${prompt}`;
-    console.log("Using personalization for action items");
-  }
+  const prompt = typeof messages === 'string'
+    ? renderPrompt('reflection.action-items', { sourceType: 'reflection', content: messages }).text
+    : renderPrompt('reflection.action-items', {
+        sourceType: 'conversation',
+        // Convert array of messages to a single text
+        content: messages.map(msg => `${msg.role}: ${msg.content}`).join("\n\n"),
+      }).text;
   
   try {
     // Log the exact payload being sent to Anthropic
@@ -405,18 +415,17 @@ ${conversationText}`;
     // Also log a copyable version of the prompt for easy testing
     logCopyablePrompt("generateActionItems", prompt);
     
-    const response = await anthropic.messages.create({
+    const response = await generateText({
+      feature: 'reflection.action-items',
       model: 'claude-3-7-sonnet-20250219',
-      messages: [{ role: 'user' as const, content: prompt }],
-      max_tokens: 1024,
+      system: buildSystemPrompt({ personalization: personalizationContext }),
+      messages: messagePayload,
+      maxTokens: 1024,
       temperature: 0.7,
     });
 
     // Extract response text
-    let responseText = '';
-    if (response.content && response.content.length > 0 && response.content[0].type === 'text') {
-      responseText = response.content[0].text || '';
-    }
+    const responseText = response.text;
     
     // Process the output into a list of action items
     console.log("Claude response (raw):", responseText);
@@ -437,6 +446,7 @@ ${conversationText}`;
     
     return actionItems;
   } catch (error) {
+    if (error instanceof LLMCallRejectedError) throw error;
     handleAnthropicError(error, "generating action items");
     return fallbackActionItems;
   }
@@ -455,9 +465,9 @@ export async function generateInsights(
     "Consider how small consistent practices might help you build deeper connection."
   ];
   
-  // If the API key is missing or obviously invalid, return fallbacks immediately
-  if (!process.env.ANTHROPIC_API_KEY || !isValidApiKey(process.env.ANTHROPIC_API_KEY)) {
-    console.warn("Using fallback insights due to missing or invalid API key");
+  // If no LLM provider is configured, return fallbacks immediately
+  if (!isLLMAvailable()) {
+    console.warn("Using fallback insights because no LLM provider is configured");
     return fallbackInsights;
   }
   
@@ -465,48 +475,14 @@ export async function generateInsights(
   
   if (customPrompt) {
     prompt = customPrompt;
+  } else if (typeof messages === 'string') {
+    prompt = renderPrompt('reflection.insights', { sourceType: 'reflection', content: messages }).text;
   } else {
-    // Process different input types
-    if (typeof messages === 'string') {
-      // Direct string input
-      prompt = `You are an insightful Islamic spiritual guide. Please analyze the following reflection and identify the most meaningful insights, patterns, and themes.
-
-Focus on:
-1. Recurring themes or underlying concerns
-2. Connections to Islamic spiritual principles
-3. Opportunities for growth or deeper understanding
-4. Strengths and wisdom already present in their reflection
-5. Gentle observations about potential blind spots
-
-Format your response as a numbered list with exactly 3-5 insights. Each insight should be 1-2 sentences. Be specific, thoughtful and nuanced rather than generic. Do not include any text before or after the numbered list.
-
-Here is the reflection:
-${messages}`;
-    } else {
+    prompt = renderPrompt('reflection.insights', {
+      sourceType: 'conversation',
       // Convert array of messages to a single text
-      const conversationText = messages.map(msg => `${msg.role}: ${msg.content}`).join("\n\n");
-      
-      prompt = `You are an insightful Islamic spiritual guide. Please analyze the following conversation and identify the most meaningful insights, patterns, and themes.
-
-Focus on:
-1. Recurring themes or underlying concerns
-2. Connections to Islamic spiritual principles
-3. Opportunities for growth or deeper understanding
-4. Strengths and wisdom already present in their reflection
-5. Gentle observations about potential blind spots
-
-Format your response as a numbered list with exactly 3-5 insights. Each insight should be 1-2 sentences. Be specific, thoughtful and nuanced rather than generic. Do not include any text before or after the numbered list.
-
-Here is the conversation:
-${conversationText}`;
-    }
-  }
-  
-  // Add personalization if available
-  if (personalizationContext) {
-    const systemPrompt = createPersonalizationSystemPrompt(personalizationContext);
-    prompt = `${systemPrompt}\n\n${prompt}`;
-    console.log("Using personalization for insights");
+      content: messages.map(msg => `${msg.role}: ${msg.content}`).join("\n\n"),
+    }).text;
   }
   
   try {
@@ -517,18 +493,17 @@ ${conversationText}`;
     // Also log a copyable version of the prompt for easy testing
     logCopyablePrompt("generateInsights", prompt);
     
-    const response = await anthropic.messages.create({
+    const response = await generateText({
+      feature: 'reflection.insights',
       model: 'claude-3-7-sonnet-20250219',
-      messages: [{ role: 'user' as const, content: prompt }],
-      max_tokens: 1024,
+      system: buildSystemPrompt({ personalization: personalizationContext }),
+      messages: messagePayload,
+      maxTokens: 1024,
       temperature: 0.7,
     });
 
     // Extract response text
-    let responseText = '';
-    if (response.content && response.content.length > 0 && response.content[0].type === 'text') {
-      responseText = response.content[0].text || '';
-    }
+    let responseText = response.text;
     
     // Process the output into a list of insights
     console.log("Claude response (raw):", responseText);
@@ -576,241 +551,12 @@ ${conversationText}`;
     
     return insights;
   } catch (error) {
+    if (error instanceof LLMCallRejectedError) throw error;
     handleAnthropicError(error, "generating insights");
     return fallbackInsights;
   }
 }
 
-/**
- * Creates a system prompt for Claude based on user personalization settings
- */
-function createPersonalizationSystemPrompt(personalization: PersonalizationContext): string {
-  console.log("🔴 CRITICAL DEBUG - createPersonalizationSystemPrompt received:", {
-    type: typeof personalization,
-    isNull: personalization === null,
-    isUndefined: personalization === undefined,
-    constructorName: personalization ? personalization.constructor?.name : 'N/A',
-    valueIfExists: personalization ? JSON.stringify(personalization).substring(0, 100) + '...' : 'N/A',
-    keys: personalization ? Object.keys(personalization) : 'N/A',
-    // Trace where this function was called from
-    callStack: new Error().stack
-  });
-
-  console.log("🔍 DEBUG-SYSTEM-PROMPT: Creating personalization system prompt");
-  console.log("🔍 DEBUG-SYSTEM-PROMPT: personalization type:", typeof personalization);
-  
-  if (!personalization) {
-    console.log("🔍 DEBUG-SYSTEM-PROMPT: WARNING - personalization is null or undefined");
-    return ""; // Return empty string for null contexts
-  }
-  
-  console.log("🔍 DEBUG-SYSTEM-PROMPT: personalization object class:", Object.prototype.toString.call(personalization));
-  
-  // Handle string personalization context (should never happen, but just in case)
-  if (typeof personalization === 'string') {
-    console.log("🔍 DEBUG-SYSTEM-PROMPT: WARNING - Received string instead of object");
-    try {
-      // Try to parse as JSON
-      const parsed = JSON.parse(personalization as unknown as string);
-      console.log("🔍 DEBUG-SYSTEM-PROMPT: Successfully parsed string as object with keys:", Object.keys(parsed).join(', '));
-      personalization = parsed;
-    } catch (e) {
-      console.log("🔍 DEBUG-SYSTEM-PROMPT: Failed to parse string as JSON");
-      console.log("🔍 DEBUG-SYSTEM-PROMPT: String content:", personalization);
-      return ""; // Return empty string on failure
-    }
-  }
-  
-  // Check if personalization is an empty object
-  if (typeof personalization !== 'object' || personalization === null || Object.keys(personalization).length === 0) {
-    console.log("🔍 DEBUG-SYSTEM-PROMPT: WARNING - personalization is empty or invalid");
-    return ""; // Return empty string for invalid contexts
-  }
-  
-  // Extra validation: Check if received data matches expected PersonalizationContext interface
-  const expectedKeys = ['knowledgeLevel', 'topicsOfInterest', 'primaryGoals', 'spiritualJourneyStage', 
-                         'lifeStage', 'communityConnection', 'culturalBackground', 'reflectionStyle', 
-                         'guidancePreferences'];
-  
-  const hasValidStructure = expectedKeys.some(key => key in personalization);
-  if (!hasValidStructure) {
-    console.log("WARNING: Personalization data doesn't match expected PersonalizationContext interface");
-    console.log("Expected at least one of these keys:", expectedKeys);
-    console.log("Received keys:", Object.keys(personalization));
-    return ""; // Return empty string for invalid structure
-  }
-  
-  // Log which fields will be used in the system prompt
-  const usedFields = Object.entries(personalization)
-    .filter(([_, value]) => {
-      if (Array.isArray(value)) return value.length > 0;
-      return value && value !== '';
-    })
-    .map(([key]) => key);
-  
-  console.log("Fields that will be used in system prompt:", usedFields.join(', ') || 'none');
-  
-  let systemPrompt = `<context>
-You are a compassionate Islamic spiritual guide, tailoring your guidance based on the user's personal context. Please adjust your response according to the following user preferences:`;
-  
-  // Add knowledge level if available
-  if (personalization.knowledgeLevel) {
-    systemPrompt += `\n\nKNOWLEDGE LEVEL: ${personalization.knowledgeLevel.charAt(0).toUpperCase() + personalization.knowledgeLevel.slice(1)}`;
-    
-    switch (personalization.knowledgeLevel) {
-      case "beginner":
-        systemPrompt += `\n- Use simple explanations and avoid complex terminology\n- Include basic definitions for Islamic terms\n- Focus on foundational concepts`;
-        break;
-      case "intermediate":
-        systemPrompt += `\n- Use moderate depth in explanations with some specialized terminology\n- Balance depth with accessibility\n- Build on fundamental concepts with more nuanced understanding`;
-        break;
-      case "advanced":
-        systemPrompt += `\n- Use deeper concepts, scholarly references, and specialized terminology\n- Include nuanced perspectives and scholarly opinions when relevant\n- Assume familiarity with fundamental Islamic concepts`;
-        break;
-    }
-  }
-  
-  // Add spiritual journey stage if available
-  if (personalization.spiritualJourneyStage) {
-    systemPrompt += `\n\nSPIRITUAL JOURNEY: ${personalization.spiritualJourneyStage.charAt(0).toUpperCase() + personalization.spiritualJourneyStage.slice(1)}`;
-    
-    switch (personalization.spiritualJourneyStage) {
-      case "exploring":
-        systemPrompt += `\n- Focus on foundational concepts and welcoming language\n- Avoid assuming prior commitment to Islamic practices\n- Emphasize the beauty and wisdom of Islamic teachings`;
-        break;
-      case "practicing":
-        systemPrompt += `\n- Emphasize practical implementation of Islamic principles in daily life\n- Focus on habit building and consistency\n- Address common challenges in maintaining regular practice`;
-        break;
-      case "deepening":
-        systemPrompt += `\n- Include deeper spiritual insights and connections\n- Explore the relationship between outward practices and inner states\n- Address more subtle aspects of spiritual growth`;
-        break;
-      case "guiding":
-        systemPrompt += `\n- Include perspectives useful for mentoring others\n- Address challenges in community leadership\n- Provide insights that can be shared with others`;
-        break;
-    }
-  }
-  
-  // Add life stage if available
-  if (personalization.lifeStage) {
-    systemPrompt += `\n\nLIFE STAGE: ${personalization.lifeStage.charAt(0).toUpperCase() + personalization.lifeStage.slice(1)}`;
-    
-    switch (personalization.lifeStage) {
-      case "student":
-        systemPrompt += `\n- Consider academic pressures and identity formation\n- Address balancing studies with spiritual practice\n- Recognize challenges of youth and early adult responsibilities`;
-        break;
-      case "young-adult":
-        systemPrompt += `\n- Address career development and relationship formation\n- Consider challenges of establishing independence\n- Focus on building foundation for lifelong practice`;
-        break;
-      case "parent":
-        systemPrompt += `\n- Consider family responsibilities and child-rearing\n- Address work-life-faith balance\n- Include guidance relevant to raising children in faith`;
-        break;
-      case "mid-career":
-        systemPrompt += `\n- Consider established career and family leadership roles\n- Address community responsibilities\n- Focus on deepening practice amid life's complexities`;
-        break;
-      case "elder":
-        systemPrompt += `\n- Consider wisdom sharing and legacy\n- Address later-life spiritual development\n- Focus on preparation for the hereafter`;
-        break;
-    }
-  }
-  
-  // Add community connection if available
-  if (personalization.communityConnection) {
-    systemPrompt += `\n\nCOMMUNITY CONNECTION: ${personalization.communityConnection.charAt(0).toUpperCase() + personalization.communityConnection.slice(1)}`;
-    
-    switch (personalization.communityConnection) {
-      case "isolated":
-        systemPrompt += `\n- Offer ways to connect with community and practice individually\n- Avoid assuming regular mosque/community access\n- Emphasize personal practices that can be done independently`;
-        break;
-      case "occasional":
-        systemPrompt += `\n- Suggest ways to deepen community engagement\n- Respect current boundaries and comfort levels\n- Balance individual and communal practices`;
-        break;
-      case "regular":
-        systemPrompt += `\n- Reference community practices and shared experiences\n- Build on the foundation of regular community engagement\n- Suggest ways to maximize benefit from community connections`;
-        break;
-      case "active":
-        systemPrompt += `\n- Include service-oriented perspectives\n- Address community leadership considerations\n- Focus on deepening impact within community`;
-        break;
-      case "leader":
-        systemPrompt += `\n- Include perspectives on shepherding others\n- Address community development responsibilities\n- Focus on leadership challenges and opportunities`;
-        break;
-    }
-  }
-  
-  // Add cultural background if available
-  if (personalization.culturalBackground) {
-    systemPrompt += `\n\nCULTURAL BACKGROUND: ${personalization.culturalBackground.charAt(0).toUpperCase() + personalization.culturalBackground.slice(1)}`;
-    systemPrompt += `\n- Be sensitive to cultural contexts when relevant\n- Consider cultural nuances in examples and applications`;
-    
-    if (personalization.culturalBackground === "convert") {
-      systemPrompt += `\n- Consider perspectives helpful for those who have converted to Islam\n- Avoid assuming lifelong familiarity with Islamic cultural practices`;
-    } else if (personalization.culturalBackground === "mixed") {
-      systemPrompt += `\n- Consider multicultural perspectives\n- Acknowledge navigation between different cultural contexts`;
-    }
-  }
-  
-  // Add reflection style if available
-  if (personalization.reflectionStyle) {
-    systemPrompt += `\n\nREFLECTION STYLE: ${personalization.reflectionStyle.charAt(0).toUpperCase() + personalization.reflectionStyle.slice(1)}`;
-    
-    switch (personalization.reflectionStyle) {
-      case "analytical":
-        systemPrompt += `\n- Use logical frameworks and structured analysis\n- Emphasize clear reasoning and evidence\n- Present information in an organized, systematic way`;
-        break;
-      case "emotional":
-        systemPrompt += `\n- Emphasize heart-centered language and emotional intelligence\n- Focus on feelings and personal connection\n- Use more poetic and evocative language`;
-        break;
-      case "practical":
-        systemPrompt += `\n- Focus on actionable steps and concrete examples\n- Emphasize real-world applications\n- Provide clear, implementable guidance`;
-        break;
-      case "balanced":
-        systemPrompt += `\n- Blend logical reasoning, emotional intelligence, and practical application\n- Balance intellectual, emotional, and practical elements\n- Provide comprehensive perspective`;
-        break;
-    }
-  }
-  
-  // Add topics of interest if available
-  if (personalization.topicsOfInterest && personalization.topicsOfInterest.length > 0) {
-    systemPrompt += `\n\nTOPICS OF INTEREST: ${personalization.topicsOfInterest.join(", ")}`;
-    systemPrompt += `\n- Emphasize these topics when relevant\n- Draw examples and insights related to these areas\n- Connect guidance to these subjects when appropriate`;
-  }
-  
-  // Add primary goals if available
-  if (personalization.primaryGoals && personalization.primaryGoals.length > 0) {
-    systemPrompt += `\n\nPRIMARY GOALS: ${personalization.primaryGoals.join(", ")}`;
-    systemPrompt += `\n- Orient responses to help achieve these goals\n- Provide actionable steps relevant to these aims\n- Frame guidance in context of these aspirations`;
-  }
-  
-  // Add guidance preferences if available
-  if (personalization.guidancePreferences && personalization.guidancePreferences.length > 0) {
-    systemPrompt += `\n\nGUIDANCE PREFERENCES: ${personalization.guidancePreferences.join(", ")}`;
-    systemPrompt += `\n- Balance response style according to these preferences`;
-    
-    if (personalization.guidancePreferences.includes("practical")) {
-      systemPrompt += `\n- Include actionable steps and real-world applications`;
-    }
-    if (personalization.guidancePreferences.includes("spiritual")) {
-      systemPrompt += `\n- Emphasize inner states and spiritual dimensions`;
-    }
-    if (personalization.guidancePreferences.includes("scholarly")) {
-      systemPrompt += `\n- Include references to Islamic scholarship and textual evidence`;
-    }
-    if (personalization.guidancePreferences.includes("reflective")) {
-      systemPrompt += `\n- Encourage personal contemplation and self-examination`;
-    }
-    if (personalization.guidancePreferences.includes("action-oriented")) {
-      systemPrompt += `\n- Focus on concrete actions and behavioral changes`;
-    }
-    if (personalization.guidancePreferences.includes("community-focused")) {
-      systemPrompt += `\n- Consider community dimensions and social responsibilities`;
-    }
-  }
-  
-  systemPrompt += `\n\nIMPORTANT: While using this information to personalize your response, do NOT explicitly mention these personalization parameters to the user. The personalization should feel natural and seamless.
-</context>`;
-  
-  return systemPrompt;
-}
-
 // Helper function to handle Anthropic API errors consistently
 function handleAnthropicError(error: any, context: string): void {
   console.error(`Error ${context}:`, error);
@@ -820,19 +566,51 @@ function handleAnthropicError(error: any, context: string): void {
     console.error("AUTHENTICATION ERROR: Your Anthropic API key appears to be invalid or expired.");
     console.error("Please check your ANTHROPIC_API_KEY in the .env file and ensure it's correct.");
   } else if (error.status === 429) {
-    console.error("RATE LIMIT ERROR: You've exceeded your Anthropic API rate limit.");
+    console.error("RATE LIMIT ERROR: You've exceeded your Anthropic API rate limit, and retries didn't help.");
     console.error("Please wait before making more requests or check your plan limits.");
+  } else if (error.status === 529) {
+    console.error("OVERLOADED ERROR: The Anthropic API stayed overloaded through all retries.");
+  } else if (error instanceof LLMTimeoutError) {
+    console.error(`TIMEOUT ERROR: ${error.message}. Adjust LLM_TIMEOUT_MS if generations legitimately take longer.`);
   } else {
     console.error("Error details:", error instanceof Error ? error.message : String(error));
   }
 }
 
-// Fallback action items for halaqas in case of API failure
-const fallbackHalaqaActionItems = [
-  "Review and consolidate your notes from this lecture",
-  "Share one key insight with a friend or family member",
-  "Identify one practical way to implement this knowledge in your daily life"
-];
+/**
+ * Run a generator, substituting canned output if it fails. The returned flag
+ * lets routes tell the client the suggestions are not personalised.
+ * Calls refused before reaching the provider (open circuit breaker, used-up
+ * quota) are rethrown so routes report them instead of serving canned output.
+ */
+export async function withFallback<T>(
+  operation: () => Promise<T>,
+  fallback: () => T,
+  context: string
+): Promise<{ result: T; fallback: boolean }> {
+  try {
+    return { result: await operation(), fallback: false };
+  } catch (error) {
+    if (error instanceof LLMCallRejectedError) throw error;
+    handleAnthropicError(error, context);
+    return { result: fallback(), fallback: true };
+  }
+}
+
+/**
+ * Generic halaqa action items for when generation fails
+ */
+export function getFallbackHalaqaActions(): { description: string }[] {
+  return [
+    "Review and consolidate your notes from this lecture",
+    "Share one key insight with a friend or family member",
+    "Identify one practical way to implement this knowledge in your daily life"
+  ].map(description => ({ description }));
+}
+
+const halaqaActionsSchema = z.array(
+  z.object({ description: z.string().min(1) })
+).min(1, "expected at least one action item");
 
 /**
  * Generates actionable items based on a halaqa reflection
@@ -856,89 +634,28 @@ export async function generateHalaqaActions(
     logger.info("Using personalization context for action items");
   }
 
-  try {
-    // Build the prompt with personalization if available
-    let personalizationSection = "";
-    if (personalizationContext) {
-      personalizationSection = `
-USER PERSONALIZATION CONTEXT:
-- Knowledge Level: ${personalizationContext.knowledgeLevel || "Not specified"}
-- Spiritual Journey Stage: ${personalizationContext.spiritualJourneyStage || "Not specified"}
-- Cultural Background: ${personalizationContext.culturalBackground || "Not specified"}
-- Primary Goals: ${personalizationContext.primaryGoals?.join(", ") || "Not specified"}
-- Topics of Interest: ${personalizationContext.topicsOfInterest?.join(", ") || "Not specified"}
-- Guidance Preferences: ${personalizationContext.guidancePreferences?.join(", ") || "Not specified"}
-
-Please tailor your action items to match this user's specific context, knowledge level, and preferences.
-`;
-    }
-
-    const safeKeyReflection = keyReflection || "";
-    const safeImpact = impact || "";
-
-    const prompt = `
-You are a knowledgeable Islamic scholar specializing in practical spiritual development. Your task is to suggest personalized action items based on a Muslim's halaqa (Islamic study circle) reflection.
-
-${personalizationSection}
-
-HALAQA REFLECTION:
-Key Reflection: ${safeKeyReflection}
-Personal Impact: ${safeImpact}
-
-Based on this reflection, suggest 3-5 specific, actionable items that would help this person implement the insights from their halaqa. Each action item should:
-
-1. Be directly relevant to the specific themes and challenges mentioned in their reflection
-2. Be concrete, specific, and immediately actionable
-3. Be appropriate for their knowledge level and spiritual journey stage
-4. Connect to Islamic principles while remaining practical
-
-Format your response as a JSON array with objects containing:
-- description: A clear, actionable statement (1-2 sentences)
-
-THE OUTPUT MUST BE VALID JSON WITH NO MARKDOWN FORMATTING. Do not include any other text, commentary, or explanation outside the JSON array.
-`;
+  if (!isLLMAvailable()) {
+    throw new LLMUnavailableError('halaqa.actions');
+  }
 
-    // Call Claude API
-    const completion = await anthropic.messages.create({
-      model: 'claude-3-haiku-20240307',
-      max_tokens: 1000,
-      temperature: 0.7,
-      messages: [
-        { role: "user", content: prompt }
-      ],
-    });
+  const prompt = renderPrompt('halaqa.actions', {
+    keyReflection: keyReflection || "",
+    impact: impact || "",
+  }).text;
+
+  const actionItems = await generateStructured({
+    feature: 'halaqa.actions',
+    model: 'claude-3-haiku-20240307',
+    maxTokens: 1000,
+    temperature: 0.7,
+    system: buildSystemPrompt({ personalization: personalizationContext }),
+    messages: [
+      { role: "user", content: prompt }
+    ],
+  }, halaqaActionsSchema);
 
-    // Extract the content from the response
-    let content = '';
-    if (completion.content && completion.content.length > 0) {
-      content = completion.content[0].text || '';
-    }
-    
-    // Clean and normalize the content for parsing
-    let cleanedContent = content
-      // Remove markdown code blocks
-      .replace(/```json\s*/g, '')
-      .replace(/```\s*$/g, '')
-      .replace(/```/g, '')
-      // Trim whitespace
-      .trim();
-      
-    try {
-      const parsedData = JSON.parse(cleanedContent);
-      if (Array.isArray(parsedData) && parsedData.length > 0) {
-        logger.info(`Successfully generated ${parsedData.length} action items`);
-        return parsedData;
-      }
-    } catch (e) {
-      logger.error("Error parsing action items JSON:", e);
-    }
-    
-    // Return fallback action items if parsing fails
-    return fallbackHalaqaActionItems.map(item => ({ description: item }));
-  } catch (error) {
-    logger.error("Error generating halaqa action items:", error);
-    return fallbackHalaqaActionItems.map(item => ({ description: item }));
-  }
+  logger.info(`Successfully generated ${actionItems.length} action items`);
+  return actionItems;
 }
 
 /**
@@ -960,42 +677,25 @@ export async function generateHalaqaApplicationSuggestions(
   );
 
   try {
-    // Combine system and user message since Anthropic API only supports user and assistant roles
-    const fullPrompt = `You are an expert in Islamic studies and personal development. Your goal is to help Muslims implement knowledge they've gained from Islamic lectures and classes.
-    
-Based on the following details about an Islamic lecture/halaqa that a person attended, generate 4-5 specific, practical suggestions for how they can apply this knowledge in their life.
-
-DESCRIPTION OF TOPIC AND SPEAKER:
-${descriptionSection}
-
-INSIGHTS AND KEY LEARNINGS:
-${insightsSection}
-
-PERSONAL CONNECTION:
-${emotionsSection}
-    
-Your suggestions should:
-1. Be specific and actionable (not vague like "be a better Muslim")
-2. Be realistic for an average person to implement
-3. Connect directly to the content they've described
-4. Include a mix of short-term and long-term actions
-5. Be phrased as complete sentences starting with a verb
-6. Focus on practical steps rather than just gaining more knowledge
-
-Format each suggestion as a separate, clear instruction. Do NOT include any numbering, bullets, or prefixes.
-Your output will be directly presented to the user as clickable suggestions.`;
-
-    // Call Claude API
-    const completion = await anthropic.messages.create({
+    const fullPrompt = renderPrompt('halaqa.application-suggestions', {
+      description: descriptionSection,
+      insights: insightsSection,
+      emotions: emotionsSection,
+    }).text;
+
+    // Call the configured LLM provider
+    const completion = await generateText({
+      feature: 'halaqa.application-suggestions',
       model: 'claude-3-7-sonnet-20250219',
-      max_tokens: 1000,
+      maxTokens: 1000,
+      system: buildSystemPrompt(),
       messages: [
         { role: "user", content: fullPrompt }
       ],
     });
 
     // Handle the response
-    const responseContent = completion.content?.[0]?.text || "";
+    const responseContent = completion.text;
     logger.info(`Generated application suggestions: ${responseContent}`);
 
     // Parse the response into individual suggestions
@@ -1017,6 +717,7 @@ Your output will be directly presented to the user as clickable suggestions.`;
 
     return suggestions;
   } catch (error) {
+    if (error instanceof LLMCallRejectedError) throw error;
     logger.error("Error generating application suggestions:", error);
     // Return fallback suggestions in case of error
     return [
@@ -1043,44 +744,24 @@ export async function generateWirdRecommendations(
 
   try {
     // Create the prompt for Claude
-    const fullPrompt = `You are an expert in Islamic devotional practices (wird/awrad) and spiritual development. Your goal is to help Muslims develop consistent daily Islamic practices that align with the Sunnah.
-    
-Based on the user's history and preferences, generate 3-5 personalized wird (devotional practice) recommendations. 
-
-USER HISTORY:
-${JSON.stringify(history)}
-
-USER PREFERENCES:
-${JSON.stringify(preferences)}
-    
-The recommendations should:
-1. Be specific and actionable Islamic practices
-2. Include traditional practices like Quran reading, dhikr, and supplications
-3. Be realistic given the user's time constraints and previous habit patterns
-4. Include a mix of foundational and growth practices
-5. Respect the user's stated preferences for focus areas
-6. Be achievable (not overly ambitious which might lead to discouragement)
-
-Format each recommendation as a JSON object with the following properties:
-- name: A concise name for the practice
-- category: The category (e.g., "Quran", "Dhikr", "Dua", "Fasting", "Learning")
-- target: A numeric goal (e.g., 10 for pages, 100 for repetitions)
-- unit: The unit of measurement (e.g., "pages", "minutes", "times")
-- description: A 1-2 sentence explanation of the practice and its benefits
-
-Ensure all recommendations are firmly rooted in mainstream Islamic tradition and the Sunnah.`;
-
-    // Call Claude API
-    const completion = await anthropic.messages.create({
+    const fullPrompt = renderPrompt('wird.recommendations', {
+      history: JSON.stringify(history),
+      preferences: JSON.stringify(preferences),
+    }).text;
+
+    // Call the configured LLM provider
+    const completion = await generateText({
+      feature: 'wird.recommendations',
       model: 'claude-3-7-sonnet-20250219',
-      max_tokens: 1200,
+      maxTokens: 1200,
+      system: buildSystemPrompt(),
       messages: [
         { role: "user", content: fullPrompt }
       ],
     });
 
     // Handle the response
-    const responseContent = completion.content?.[0]?.text || "";
+    const responseContent = completion.text;
     logger.info(`Generated wird recommendations: ${responseContent}`);
 
     // Parse the response to extract the recommendations
@@ -1144,6 +825,7 @@ Ensure all recommendations are firmly rooted in mainstream Islamic tradition and
 
     return recommendations;
   } catch (error) {
+    if (error instanceof LLMCallRejectedError) throw error;
     logger.error("Error generating wird recommendations:", error);
     // Return fallback recommendations in case of error
     return [
@@ -1173,7 +855,7 @@ Ensure all recommendations are firmly rooted in mainstream Islamic tradition and
 }
 
 // Define a more complete WirdSuggestion type that includes all the fields we need
-interface HalaqaWirdSuggestion {
+export interface HalaqaWirdSuggestion {
   id: string;
   title: string;
   name?: string;
@@ -1188,6 +870,23 @@ interface HalaqaWirdSuggestion {
   source: string;
 }
 
+const halaqaWirdSuggestionsSchema = z.array(
+  z.object({
+    id: z.string().min(1).optional(),
+    title: z.string().min(1),
+    description: z.string().min(1),
+    benefit: z.string().min(1),
+    source: z.string().min(1),
+    frequency: z.string().min(1),
+    duration: z.string().min(1),
+    name: z.string().optional(),
+    type: z.string().optional(),
+    category: z.string().optional(),
+    target: z.number().optional(),
+    unit: z.string().optional(),
+  })
+).min(1, "expected at least one wird suggestion");
+
 /**
  * Generates wird suggestions based on a halaqa reflection
  * @param halaqaContent Content from the halaqa entry
@@ -1211,105 +910,72 @@ export async function generateHalaqaWirdSuggestions(
     logger.info("Using personalization context for wird suggestions");
   }
 
-  try {
-    // Build the prompt with personalization if available
-    let personalizationSection = "";
-    if (personalizationContext) {
-      personalizationSection = `
-USER PERSONALIZATION CONTEXT:
-- Knowledge Level: ${personalizationContext.knowledgeLevel || "Not specified"}
-- Spiritual Journey Stage: ${personalizationContext.spiritualJourneyStage || "Not specified"}
-- Cultural Background: ${personalizationContext.culturalBackground || "Not specified"}
-- Primary Goals: ${personalizationContext.primaryGoals?.join(", ") || "Not specified"}
-- Topics of Interest: ${personalizationContext.topicsOfInterest?.join(", ") || "Not specified"}
-- Guidance Preferences: ${personalizationContext.guidancePreferences?.join(", ") || "Not specified"}
-
-Please tailor your suggestions to match this user's specific context, knowledge level, and preferences.
-`;
-    }
-
-    const safeKeyReflection = halaqaContent.keyReflection || "";
-    const safeImpact = halaqaContent.impact || "";
-
-    const prompt = `
-You are a knowledgeable Islamic scholar specializing in spiritual development. Your task is to suggest personalized wird (daily Islamic spiritual practices) based on a Muslim's halaqa (Islamic study circle) reflection.
-
-${personalizationSection}
-
-HALAQA REFLECTION:
-Title: ${halaqaContent.title}
-Topic: ${halaqaContent.topic}
-Key Reflection: ${safeKeyReflection}
-Personal Impact: ${safeImpact}
+  if (!isLLMAvailable()) {
+    throw new LLMUnavailableError('halaqa.wird-suggestions');
+  }
 
-Based on this reflection, suggest 3 specific wird practices that would help this person grow spiritually in alignment with their reflection. Each suggestion should:
+  const prompt = renderPrompt('halaqa.wird-suggestions', {
+    title: halaqaContent.title,
+    topic: halaqaContent.topic,
+    keyReflection: halaqaContent.keyReflection || "",
+    impact: halaqaContent.impact || "",
+  }).text;
+
+  const suggestions = await generateStructured({
+    feature: 'halaqa.wird-suggestions',
+    model: 'claude-3-haiku-20240307',
+    maxTokens: 4000,
+    temperature: 0.7,
+    system: buildSystemPrompt({ personalization: personalizationContext }),
+    messages: [
+      { role: "user", content: prompt }
+    ],
+  }, halaqaWirdSuggestionsSchema);
 
-1. Be directly relevant to the specific themes and challenges mentioned in their reflection
-2. Include a clear, actionable practice with specific instructions
-3. Explain the spiritual benefit and connection to their reflection
-4. Be appropriate for their knowledge level and spiritual journey stage
-5. Include a relevant Quranic verse or hadith that supports this practice
+  logger.info(`Successfully generated ${suggestions.length} wird suggestions`);
+  return suggestions.map((suggestion, index) => ({ ...suggestion, id: suggestion.id || `wird-${index + 1}` }));
+}
 
-Format your response as a JSON array with objects containing:
-- id: A unique identifier like "wird-1", "wird-2", etc.
-- title: A concise, descriptive title for the practice
-- description: A 2-3 sentence explanation of what the practice involves
-- benefit: The spiritual benefit of this practice
-- source: The Quranic verse or hadith that supports this practice
-- frequency: How often to perform this practice (e.g., "daily", "weekly")
-- duration: How long each session should take (e.g., "5 minutes", "10 minutes")
+/**
+ * Generates wird suggestions from a reflection conversation
+ * @param messages The conversation's selected branch
+ * @param personalizationContext Optional personalization context
+ * @returns Array of wird suggestions
+ */
+export async function generateReflectionWirdSuggestions(
+  messages: AnthropicMessage[],
+  personalizationContext?: PersonalizationContext
+): Promise<HalaqaWirdSuggestion[]> {
+  const logger = getLogger("generateReflectionWirdSuggestions");
 
-THE OUTPUT MUST BE VALID JSON WITH NO MARKDOWN FORMATTING. Do not include any other text, commentary, or explanation outside the JSON array.
-`;
+  if (!isLLMAvailable()) {
+    throw new LLMUnavailableError('reflection.wird-suggestions');
+  }
 
-    // Call Claude API
-    const completion = await anthropic.messages.create({
-      model: 'claude-3-haiku-20240307',
-      max_tokens: 4000,
-      temperature: 0.7,
-      messages: [
-        { role: "user", content: prompt }
-      ],
-    });
+  const prompt = renderPrompt('reflection.wird-suggestions', {
+    content: messages.map(msg => `${msg.role}: ${msg.content}`).join("\n\n"),
+  }).text;
+
+  const suggestions = await generateStructured({
+    feature: 'reflection.wird-suggestions',
+    model: 'claude-3-haiku-20240307',
+    maxTokens: 4000,
+    temperature: 0.7,
+    system: buildSystemPrompt({ personalization: personalizationContext }),
+    messages: [
+      { role: "user", content: prompt }
+    ],
+  }, halaqaWirdSuggestionsSchema);
 
-    // Extract the content from the response
-    let content = '';
-    if (completion.content && completion.content.length > 0) {
-      content = completion.content[0].text || '';
-    }
-    
-    // Clean and normalize the content for parsing
-    let cleanedContent = content
-      // Remove markdown code blocks
-      .replace(/```json\s*/g, '')
-      .replace(/```\s*$/g, '')
-      .replace(/```/g, '')
-      // Trim whitespace
-      .trim();
-      
-    try {
-      const parsedData = JSON.parse(cleanedContent);
-      if (Array.isArray(parsedData) && parsedData.length > 0) {
-        logger.info(`Successfully generated ${parsedData.length} wird suggestions`);
-        return parsedData;
-      }
-    } catch (e) {
-      logger.error("Error parsing wird suggestions JSON:", e);
-    }
-    
-    // Return fallback suggestions if parsing fails
-    return generateFallbackWirdSuggestions();
-  } catch (error) {
-    logger.error("Error generating wird suggestions:", error);
-    return generateFallbackWirdSuggestions();
-  }
+  logger.info(`Successfully generated ${suggestions.length} wird suggestions`);
+  return suggestions.map((suggestion, index) => ({ ...suggestion, id: suggestion.id || `wird-${index + 1}` }));
 }
 
 /**
  * Generate fallback wird suggestions if the API call fails
  * @returns Array of default wird suggestions
  */
-function generateFallbackWirdSuggestions(): HalaqaWirdSuggestion[] {
+export function generateFallbackWirdSuggestions(): HalaqaWirdSuggestion[] {
   return [
     {
       id: "wird-1",
@@ -1341,9 +1007,13 @@ function generateFallbackWirdSuggestions(): HalaqaWirdSuggestion[] {
   ];
 }
 
+// Roughly two hours of speech; longer lectures are cut short rather than
+// crowding out the reflection
+const MAX_LECTURE_TRANSCRIPT_CHARS = 100_000;
+
 /**
  * Generates detailed, personalized insights based on a halaqa reflection
- * @param halaqaContent Content from the halaqa entry
+ * @param halaqaContent Content from the halaqa entry, with the lecture's transcript if it was recorded
  * @param personalizationContext Optional personalization context
  * @returns Array of personalized insights
  */
@@ -1353,6 +1023,7 @@ export async function generateHalaqaInsights(
     topic: string;
     keyReflection: string;
     impact: string;
+    lectureTranscript?: string | null;
   },
   personalizationContext?: PersonalizationContext
 ): Promise<Array<{id: string; title: string; content: string;}>> {
@@ -1365,74 +1036,28 @@ export async function generateHalaqaInsights(
   }
 
   try {
-    // Build the prompt with personalization if available
-    let personalizationSection = "";
-    if (personalizationContext) {
-      personalizationSection = `
-USER PERSONALIZATION CONTEXT:
-- Knowledge Level: ${personalizationContext.knowledgeLevel || "Not specified"}
-- Spiritual Journey Stage: ${personalizationContext.spiritualJourneyStage || "Not specified"}
-- Cultural Background: ${personalizationContext.culturalBackground || "Not specified"}
-- Primary Goals: ${personalizationContext.primaryGoals?.join(", ") || "Not specified"}
-- Topics of Interest: ${personalizationContext.topicsOfInterest?.join(", ") || "Not specified"}
-- Guidance Preferences: ${personalizationContext.guidancePreferences?.join(", ") || "Not specified"}
-
-Please tailor your insights to match this user's specific context, knowledge level, and preferences.
-`;
-    }
-
-    const safeKeyReflection = halaqaContent.keyReflection || "";
-    const safeImpact = halaqaContent.impact || "";
-
-    const prompt = `
-You are a deeply knowledgeable Islamic scholar with expertise in spiritual development and practical application of Islamic teachings. Your task is to generate personalized, specific insights based on a Muslim's halaqa (Islamic study circle) reflection.
-
-${personalizationSection}
-
-CRITICAL INSTRUCTION: Your insights MUST be based EXCLUSIVELY on the specific content provided below. DO NOT provide generic Islamic advice that isn't directly connected to the user's exact words and themes.
-
-HALAQA REFLECTION:
-Title: ${halaqaContent.title}
-Topic: ${halaqaContent.topic}
-Key Reflection: ${safeKeyReflection}
-Personal Impact: ${safeImpact}
-
-Step 1: First, carefully extract and list 4-6 SPECIFIC PHRASES, CONCEPTS, or THEMES that the user explicitly mentioned in their reflection.
-
-Step 2: For each identified phrase/concept/theme, create a personalized insight that:
-1. Directly quotes the user's exact words from their reflection
-2. Provides deeper theological/spiritual context for that specific phrase or concept
-3. Connects that specific phrase to relevant Quranic ayat or hadith
-4. Offers practical application directly addressing their expressed situation
-5. Includes thoughtful questions that help them deepen their understanding of that specific concept
-
-Structure each insight with a relevant title that references their specific reflection content and detailed, substantive content (250+ words per insight).
-
-Your insights must feel deeply personalized - like you've truly understood their specific situation and reflection. The user should immediately recognize that you're responding to their exact words and concepts.
-
-Format your response as a JSON array with objects containing:
-- id: A unique identifier like "insight-1", "insight-2", etc.
-- title: A meaningful, specific title that directly references words or phrases from their reflection
-- content: The detailed insight content that directly addresses their specific reflection, with quotes from their own words
-
-THE OUTPUT MUST BE VALID JSON WITH NO MARKDOWN FORMATTING. Do not include any other text, commentary, or explanation outside the JSON array.
-`;
-
-    // Call Claude API
-    const completion = await anthropic.messages.create({
+    const prompt = renderPrompt('halaqa.insights', {
+      title: halaqaContent.title,
+      topic: halaqaContent.topic,
+      keyReflection: halaqaContent.keyReflection || "",
+      impact: halaqaContent.impact || "",
+      lectureTranscript: halaqaContent.lectureTranscript?.slice(0, MAX_LECTURE_TRANSCRIPT_CHARS) || undefined,
+    }).text;
+
+    // Call the configured LLM provider
+    const completion = await generateText({
+      feature: 'halaqa.insights',
       model: 'claude-3-haiku-20240307',
-      max_tokens: 4000,
+      maxTokens: 4000,
       temperature: 0.7,
+      system: buildSystemPrompt({ personalization: personalizationContext }),
       messages: [
         { role: "user", content: prompt }
       ],
     });
 
     // Extract the content from the response
-    let content = '';
-    if (completion.content && completion.content.length > 0) {
-      content = completion.content[0].text || '';
-    }
+    const content = completion.text;
     
     // Clean and normalize the content for parsing
     let cleanedContent = content
@@ -1477,6 +1102,7 @@ THE OUTPUT MUST BE VALID JSON WITH NO MARKDOWN FORMATTING. Do not include any ot
       }
     ];
   } catch (error) {
+    if (error instanceof LLMCallRejectedError) throw error;
     logger.error("Error generating halaqa insights:", error);
     // Return fallback insights
     return [
@@ -1542,183 +1168,53 @@ ${previousVision ? `VISION: ${previousVision}` : ''}
 ${previousSystems ? `SYSTEMS: ${previousSystems}` : ''}
   `.trim();
   
-  // Define specific prompts for each component type
-  const componentPrompts: Record<string, string> = {
-    identity: `You are helping a Muslim develop their spiritual identity. Based on their aspiration "${input}", generate 3 personalized identity statements that DIRECTLY RELATE to this specific aspiration.
-
-The statements should complete these prompts:
-1. "I am (or am becoming) a _________ person."
-2. "At my core, I value __________."
-3. "My strengths that support this identity include __________."
-
-Make sure each statement:
-- Is specific to their aspiration "${input}"
-- Uses natural, first-person language
-- Is concise but meaningful (15-25 words)
-- Focuses on spiritual growth, not generic self-help
-- Incorporates Islamic values when relevant
-
-Format your response as a JSON object with this structure:
-{
-  "suggestions": [3 identity statements that complete the first prompt],
-  "examples": [3 additional examples that could work for any of the prompts, clearly labeled with which prompt they complete],
-  "feedback": "A brief sentence of guidance about crafting good identity statements"
-}`,
-
-    vision: `You are helping a Muslim develop their spiritual vision. Based on their aspiration "${input}"${previousIdentity ? ` and their identity statements: ${previousIdentity}` : ''}, generate 3 personalized vision statements that DIRECTLY RELATE to this specific aspiration.
-
-The statements should complete these prompts:
-1. "This identity matters to me because __________."
-2. "When I embody this identity, the impact on others is __________."
-3. "In five years, living this identity would mean __________."
-
-Make sure each statement:
-- Specifically references their aspiration "${input}"
-- Connects to their identity statements when possible
-- Uses natural, first-person language
-- Focuses on meaningful impact and purpose
-- Incorporates Islamic values when relevant
-
-Format your response as a JSON object with this structure:
-{
-  "suggestions": [3 vision statements that relate to their aspiration, one for each prompt],
-  "examples": [3 additional examples that could work for any of the prompts, clearly labeled with which prompt they complete],
-  "feedback": "A brief sentence of guidance about creating a meaningful vision"
-}`,
-
-    systems: `You are helping a Muslim develop systems to support their spiritual growth. Based on their aspiration "${input}"${previousIdentity ? ` and their identity statements: ${previousIdentity}` : ''}${previousVision ? ` and their vision: ${previousVision}` : ''}, generate 3 personalized system processes that DIRECTLY RELATE to this specific aspiration.
-
-The statements should complete these prompts:
-1. "My daily/weekly process includes __________."
-2. "The principles that guide my approach are __________."
-3. "I maintain balance by __________."
-
-Make sure each statement:
-- Specifically references their aspiration "${input}"
-- Is practical and actionable
-- Is sustainable and realistic
-- Incorporates Islamic practices when relevant
-- Connects to their identity and vision when possible
-
-Format your response as a JSON object with this structure:
-{
-  "suggestions": [3 system process statements relevant to their aspiration, one for each prompt],
-  "examples": [3 additional examples that could work for any of the prompts, clearly labeled with which prompt they complete],
-  "feedback": "A brief sentence of guidance about creating effective systems"
-}`,
-
-    goals: `You are helping a Muslim set goals for their spiritual growth. Based on their aspiration "${input}"${previousContext ? ` and their previous components:\n${previousContext}` : ''}, generate personalized goals that DIRECTLY RELATE to this specific aspiration.
-
-Create goals that complete these prompts:
-1. Short-term goal (1-3 months): "Within the next few months, I will __________."
-2. Medium-term goal (3-12 months): "Within the next year, I will __________."
-3. Long-term goal (1+ years): "In the long-term, I will __________."
-4. Success criteria: "I'll know I've succeeded when __________."
-
-Make sure each goal:
-- Specifically references their aspiration "${input}"
-- Is SMART (Specific, Measurable, Achievable, Relevant, Time-bound)
-- Aligns with Islamic values
-- Builds progressively (short-term goals support medium-term goals, etc.)
-- Connects to their identity, vision, and systems when possible
-
-Format your response as a JSON object with this structure:
-{
-  "suggestions": [4 goals, one for each timeframe including success criteria],
-  "examples": [4 additional examples, one for each timeframe including success criteria],
-  "feedback": "A brief sentence of guidance about setting effective spiritual goals"
-}`,
-
-    habits: `You are helping a Muslim develop habits for spiritual growth. Based on their aspiration "${input}"${previousContext ? ` and their previous components:\n${previousContext}` : ''}, generate 3 personalized habits that DIRECTLY RELATE to this specific aspiration.
-
-Each habit should have these components:
-1. Habit description: A clear statement of the habit
-2. Minimum viable version: A simplified version for low-energy days
-3. Expanded version: The full practice for ideal conditions
-4. The immediate reward: The benefit felt right after doing the habit
-
-Make sure each habit:
-- Specifically supports their aspiration "${input}"
-- Is realistic and sustainable
-- Has a clear trigger and reward
-- Incorporates Islamic practices when relevant
-- Connects to their goals, systems, vision, and identity
-
-Format your response as a JSON object with this structure:
-{
-  "suggestions": [3 habit descriptions that directly support their aspiration],
-  "examples": [3 formatted examples with all components like: "Habit: Morning Quran recitation\\nMinimum version: 5 minutes\\nExpanded version: 30 minutes with reflection\\nImmediate reward: Sense of peace and connection"],
-  "feedback": "A brief sentence of guidance about forming effective spiritual habits"
-}`,
-
-    triggers: `You are helping a Muslim establish triggers for spiritual habits. Based on their aspiration "${input}"${previousContext ? ` and their previous components:\n${previousContext}` : ''}, generate 3 personalized trigger sets that DIRECTLY RELATE to this specific aspiration.
-
-Each trigger set should have these components:
-1. Primary trigger: When/Where to perform the habit (e.g., "After Fajr prayer")
-2. Secondary trigger: A backup trigger if the primary one isn't possible (e.g., "Before breakfast")
-3. Environmental supports: Physical changes to make the habit easier (e.g., "Prayer mat placed by bedside")
-
-Make sure each trigger set:
-- Is specific and clear
-- Attaches to existing routines when possible
-- Is realistic for daily life
-- Takes into account Islamic daily rhythms (prayer times, etc.)
-- Connects to the habits they want to develop
-
-Format your response as a JSON object with this structure:
-{
-  "suggestions": [3 primary trigger ideas that directly support their aspiration],
-  "examples": [3 formatted examples with all components like: "Primary trigger: After Fajr prayer\\nBackup trigger: Before breakfast\\nEnvironmental support: Prayer mat placed by bedside"],
-  "feedback": "A brief sentence of guidance about creating effective triggers"
-}`,
+  const variables = {
+    aspiration: input,
+    previousIdentity: previousIdentity || undefined,
+    previousVision: previousVision || undefined,
+    previousContext: previousContext || undefined,
   };
+  
+  // Each component type has its own template; unknown types get a generic prompt
+  const prompt = isFrameworkComponent(componentType)
+    ? renderPrompt(`framework.${componentType}`, variables).text
+    : renderPrompt('framework.generic', { ...variables, componentType }).text;
+  
+  if (!isLLMAvailable()) {
+    throw new LLMUnavailableError('framework.suggestions');
+  }
 
-  // Get the appropriate prompt for this component type
-  const prompt = componentPrompts[componentType] || 
-    `Generate suggestions to help a Muslim develop the spiritual aspect "${input}" for the component "${componentType}". Format as JSON with suggestions, examples, and feedback fields.`;
+  console.log(`Calling Claude API for ${componentType} suggestions`);
   
-  try {
-    console.log(`Calling Claude API for ${componentType} suggestions`);
-    
-    // Call the Claude API
-    const response = await anthropic.messages.create({
-      model: 'claude-3-7-sonnet-20250219',
-      messages: [{ role: 'user', content: prompt }],
-      max_tokens: 1024,
-      temperature: 0.7,
-    });
+  const guidance = await generateStructured({
+    feature: 'framework.suggestions',
+    model: 'claude-3-7-sonnet-20250219',
+    system: buildSystemPrompt(),
+    messages: [{ role: 'user', content: prompt }],
+    maxTokens: 1024,
+    temperature: 0.7,
+  }, frameworkSuggestionsSchema);
+
+  console.log(`Received response from Claude API for ${componentType}`);
+  return guidance;
+}
 
-    // Extract and parse the response
-    let responseText = '';
-    if (response.content && response.content.length > 0 && response.content[0].type === 'text') {
-      responseText = response.content[0].text || '';
-    }
-    
-    console.log(`Received response from Claude API for ${componentType}`);
-    
-    try {
-      const parsedResponse = JSON.parse(responseText);
-      
-      return {
-        suggestions: parsedResponse.suggestions || [],
-        examples: parsedResponse.examples || [],
-        feedback: parsedResponse.feedback || ""
-      };
-    } catch (error) {
-      console.error(`Error parsing Claude response for ${componentType}:`, error);
-      console.log("Raw response:", responseText);
-      return getDefaultFrameworkSuggestions(componentType);
-    }
-  } catch (error) {
-    console.error(`Error generating ${componentType} framework suggestions:`, error);
-    return getDefaultFrameworkSuggestions(componentType);
-  }
+const frameworkSuggestionsSchema = z.object({
+  suggestions: z.array(z.string().min(1)).min(1, "expected at least one suggestion"),
+  examples: z.array(z.string().min(1)),
+  feedback: z.string(),
+});
+
+const FRAMEWORK_COMPONENTS = ['identity', 'vision', 'systems', 'goals', 'habits', 'triggers'] as const;
+
+function isFrameworkComponent(componentType: string): componentType is typeof FRAMEWORK_COMPONENTS[number] {
+  return (FRAMEWORK_COMPONENTS as readonly string[]).includes(componentType);
 }
 
 /**
  * Fallback suggestions when the API call fails
  */
-function getDefaultFrameworkSuggestions(componentType: string) {
+export function getDefaultFrameworkSuggestions(componentType: string): z.infer<typeof frameworkSuggestionsSchema> {
   console.log(`Using default suggestions for ${componentType}`);
   
   // Default suggestions based on component type
@@ -1827,99 +1323,40 @@ export async function generateCLEARSuggestions(practice: any): Promise<{
   logger.info(`Generating CLEAR suggestions for practice: ${practice.name}`);
 
   // Prepare the prompt for Claude
-  const prompt = `You are an expert Islamic habit coach specializing in the "CLEAR" framework for effective habit formation. 
-
-Based on the following information about a spiritual practice (wird), please generate suggestions for each component of the CLEAR framework:
-      
-PRACTICE DETAILS:
-Name: ${practice.name}
-Category: ${practice.category}
-Target: ${practice.target} ${practice.unit}
-      
-Please provide 3-5 suggestions for each component of the CLEAR framework:
-
-1. Cue → Clear triggers for when to perform this practice
-  • Examples: "After Fajr prayer", "Before going to bed", "When entering the masjid"
-
-2. Low Friction → Ways to make this practice easier to do even on busy days
-  • Examples: "Keep a small Quran in your bag", "Set a specific minimum (even just 1 verse)"
-
-3. Expandable → Ways to scale this practice up when more time is available
-  • Examples: "Start with one page, but read more if time allows", "Begin with basic dhikr, add optional ones when possible"
-
-4. Adaptable → How to adjust this practice to different situations
-  • Examples: "If you miss the morning time, do it after Asr instead", "If traveling, use a mobile app version"
-
-5. Reward Linked → Connect this practice to intrinsic or extrinsic rewards
-  • Examples: "Notice the sense of peace after completion", "Track your streak in a journal"
+  const prompt = renderPrompt('wird.clear-suggestions', {
+    name: String(practice.name ?? ''),
+    category: String(practice.category ?? ''),
+    target: String(practice.target ?? ''),
+    unit: String(practice.unit ?? ''),
+  }).text;
+
+  if (!isLLMAvailable()) {
+    throw new LLMUnavailableError('wird.clear-suggestions');
+  }
 
-Format your response as a JSON object with the following structure:
-{
-  "cue": ["suggestion 1", "suggestion 2", "suggestion 3"],
-  "lowFriction": ["suggestion 1", "suggestion 2", "suggestion 3"],
-  "expandable": ["suggestion 1", "suggestion 2", "suggestion 3"],
-  "adaptable": ["suggestion 1", "suggestion 2", "suggestion 3"],
-  "rewardLinked": ["suggestion 1", "suggestion 2", "suggestion 3"]
+  logger.info("Calling Claude API for CLEAR suggestions");
+  
+  return generateStructured({
+    feature: 'wird.clear-suggestions',
+    model: 'claude-3-sonnet-20240229',
+    system: buildSystemPrompt(),
+    messages: [{ role: 'user', content: prompt }],
+    maxTokens: 1024,
+    temperature: 0.7,
+  }, clearSuggestionsSchema);
 }
 
-Only return the JSON object, with no additional text before or after.`;
+const clearSuggestionList = z.array(z.string().min(1)).min(1, "expected at least one suggestion");
 
-  try {
-    logger.info("Calling Claude API for CLEAR suggestions");
-    
-    if (!isValidApiKey(process.env.ANTHROPIC_API_KEY || "")) {
-      logger.error("Invalid Anthropic API key");
-      return getDefaultCLEARSuggestions();
-    }
-
-    const anthropic = new Anthropic({
-      apiKey: process.env.ANTHROPIC_API_KEY || "",
-    });
-    
-    const response = await anthropic.messages.create({
-      model: 'claude-3-sonnet-20240229',
-      messages: [{ role: 'user', content: prompt }],
-      max_tokens: 1024,
-      temperature: 0.7,
-    });
-
-    const content = response.content[0].text;
-    
-    try {
-      // Try to parse the JSON response
-      const suggestions = JSON.parse(content);
-      
-      // Validate the structure of the response
-      if (suggestions.cue && suggestions.lowFriction && 
-          suggestions.expandable && suggestions.adaptable && 
-          suggestions.rewardLinked) {
-        
-        return {
-          cue: suggestions.cue,
-          lowFriction: suggestions.lowFriction,
-          expandable: suggestions.expandable,
-          adaptable: suggestions.adaptable,
-          rewardLinked: suggestions.rewardLinked
-        };
-      }
-    } catch (parseError) {
-      logger.error(`Failed to parse Claude response as JSON: ${parseError}`);
-    }
-    
-    // If we reach here, there was an issue with the response format
-    logger.warn("Using default CLEAR suggestions due to invalid response format");
-    return getDefaultCLEARSuggestions();
-    
-  } catch (error) {
-    logger.error(`Error generating CLEAR suggestions: ${error}`);
-    handleAnthropicError(error, "generateCLEARSuggestions");
-    
-    // Return default suggestions when API fails
-    return getDefaultCLEARSuggestions();
-  }
-}
+const clearSuggestionsSchema = z.object({
+  cue: clearSuggestionList,
+  lowFriction: clearSuggestionList,
+  expandable: clearSuggestionList,
+  adaptable: clearSuggestionList,
+  rewardLinked: clearSuggestionList,
+});
 
-function getDefaultCLEARSuggestions(): {
+export function getDefaultCLEARSuggestions(): {
   cue: string[];
   lowFriction: string[];
   expandable: string[];
@@ -1967,18 +1404,21 @@ function getDefaultCLEARSuggestions(): {
 
 export async function generateWirdSummary(prompt: string): Promise<string> {
   try {
-    const completion = await anthropic.messages.create({
+    const completion = await generateText({
+      feature: 'wird.summary',
       model: 'claude-3-sonnet-20240229',
-      max_tokens: 100,
+      maxTokens: 100,
       temperature: 0.7,
+      system: buildSystemPrompt(),
       messages: [{
         role: 'user',
         content: prompt,
       }],
     });
 
-    return completion.content[0].text;
+    return completion.text;
   } catch (error) {
+    if (error instanceof LLMCallRejectedError) throw error;
     console.error('Error generating wird summary:', error);
     throw new Error('Failed to generate wird summary');
   }
@@ -0,0 +1,271 @@
+import crypto from 'crypto';
+import express from 'express';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { Readable } from 'stream';
+import request from 'supertest';
+import { mockClient } from 'aws-sdk-client-mock';
+import { CopyObjectCommand, GetObjectCommand, HeadObjectCommand, PutObjectCommand, S3Client } from '@aws-sdk/client-s3';
+import {
+  AudioNotFoundError,
+  AudioTooLargeError,
+  LocalAudioStore,
+  S3AudioStore,
+  parseRange,
+  readAudio,
+  receiveAudioUpload,
+  releaseAudio,
+  sendAudio,
+  signPlaybackUrl,
+  verifyPlaybackUrl,
+} from '..';
+
+const AUDIO = fs.readFileSync(path.resolve(__dirname, '../../../../test_audio.wav'));
+const KEY = crypto.createHash('sha256').update(AUDIO).digest('hex');
+
+function listFiles(dir: string): string[] {
+  return fs.readdirSync(dir, { recursive: true, withFileTypes: true })
+    .filter(entry => entry.isFile())
+    .map(entry => entry.name);
+}
+
+describe('LocalAudioStore', () => {
+  let dir: string;
+  let store: LocalAudioStore;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'audio-store-'));
+    store = new LocalAudioStore({ dir, maxBytes: 1024 * 1024 });
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('keys recordings by their SHA-256 and stores each once', async () => {
+    const fromBuffer = await store.put(AUDIO);
+    const fromStream = await store.put(Readable.from([AUDIO.subarray(0, 1000), AUDIO.subarray(1000)]));
+
+    expect(fromBuffer).toEqual({ key: KEY, size: AUDIO.length });
+    expect(fromStream).toEqual(fromBuffer);
+    expect(listFiles(dir)).toEqual([KEY]);
+    expect(await readAudio(store, KEY)).toEqual(AUDIO);
+  });
+
+  it('refuses recordings over the limit without leaving anything behind', async () => {
+    const small = new LocalAudioStore({ dir, maxBytes: 1000 });
+
+    await expect(small.put(AUDIO)).rejects.toBeInstanceOf(AudioTooLargeError);
+    expect(listFiles(dir)).toEqual([]);
+  });
+
+  it('reads byte ranges and deletes', async () => {
+    await store.put(AUDIO);
+    const chunks: Buffer[] = [];
+    for await (const chunk of await store.read(KEY, { start: 10, end: 19 })) chunks.push(chunk);
+
+    expect(Buffer.concat(chunks)).toEqual(AUDIO.subarray(10, 20));
+    expect(await store.size(KEY)).toBe(AUDIO.length);
+
+    await store.delete(KEY);
+    expect(await store.size(KEY)).toBeNull();
+    await expect(store.read(KEY)).rejects.toBeInstanceOf(AudioNotFoundError);
+  });
+
+  it('only takes hex digests as keys', async () => {
+    await expect(store.read('../../etc/passwd')).rejects.toBeInstanceOf(AudioNotFoundError);
+  });
+
+  it('releases a recording only once nothing refers to it', async () => {
+    await store.put(AUDIO);
+    const longAgo = new Date(Date.now() - 60 * 60 * 1000);
+    fs.utimesSync(path.join(dir, KEY.slice(0, 2), KEY), longAgo, longAgo);
+
+    await releaseAudio({ countAudioReferences: async () => 1 }, store, KEY);
+    expect(await store.size(KEY)).toBe(AUDIO.length);
+
+    await releaseAudio({ countAudioReferences: async () => 0 }, store, KEY);
+    expect(await store.size(KEY)).toBeNull();
+  });
+
+  it('keeps an unreferenced recording that was just put again', async () => {
+    jest.useFakeTimers({ doNotFake: ['Date'] });
+    try {
+      await store.put(AUDIO);
+      const longAgo = new Date(Date.now() - 60 * 60 * 1000);
+      fs.utimesSync(path.join(dir, KEY.slice(0, 2), KEY), longAgo, longAgo);
+
+      // A new reflection has the key but hasn't been saved yet
+      await store.put(AUDIO);
+      await releaseAudio({ countAudioReferences: async () => 0 }, store, KEY);
+      expect(await store.size(KEY)).toBe(AUDIO.length);
+      expect(jest.getTimerCount()).toBe(1);
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+});
+
+describe('S3AudioStore', () => {
+  const s3Mock = mockClient(S3Client);
+  const store = new S3AudioStore({ bucket: 'recordings', maxBytes: 1024 * 1024, client: new S3Client({ region: 'us-east-1' }) });
+
+  beforeEach(() => {
+    s3Mock.reset();
+  });
+
+  it('uploads recordings it does not have yet under the prefix', async () => {
+    s3Mock.on(HeadObjectCommand).rejects(Object.assign(new Error('Not Found'), { name: 'NotFound' }));
+    s3Mock.on(PutObjectCommand).resolves({});
+
+    expect(await store.put(AUDIO)).toEqual({ key: KEY, size: AUDIO.length });
+    expect(s3Mock.commandCalls(PutObjectCommand)[0].args[0].input).toMatchObject({
+      Bucket: 'recordings',
+      Key: `audio/${KEY}`,
+      ContentLength: AUDIO.length,
+    });
+  });
+
+  it('skips the upload when the recording is already stored', async () => {
+    s3Mock.on(HeadObjectCommand).resolves({ ContentLength: AUDIO.length });
+
+    await store.put(AUDIO);
+    expect(s3Mock.commandCalls(PutObjectCommand)).toHaveLength(0);
+    expect(s3Mock.commandCalls(CopyObjectCommand)[0].args[0].input).toMatchObject({
+      Key: `audio/${KEY}`,
+      CopySource: `recordings/audio/${KEY}`,
+    });
+  });
+
+  it('reads ranges and reports missing recordings', async () => {
+    s3Mock.on(GetObjectCommand).resolves({ Body: Readable.from([AUDIO.subarray(0, 10)]) as any });
+    s3Mock.on(HeadObjectCommand).rejects(Object.assign(new Error('Not Found'), { $metadata: { httpStatusCode: 404 } }));
+
+    await store.read(KEY, { start: 0, end: 9 });
+    expect(s3Mock.commandCalls(GetObjectCommand)[0].args[0].input.Range).toBe('bytes=0-9');
+    expect(await store.size(KEY)).toBeNull();
+  });
+});
+
+describe('parseRange', () => {
+  it.each([
+    [undefined, null],
+    ['bytes=0-99', { start: 0, end: 99 }],
+    ['bytes=100-', { start: 100, end: 999 }],
+    ['bytes=-100', { start: 900, end: 999 }],
+    ['bytes=900-5000', { start: 900, end: 999 }],
+    ['bytes=1000-', 'unsatisfiable'],
+    ['bytes=50-10', 'unsatisfiable'],
+    ['bytes=0-10,20-30', null],
+  ])('reads %s', (header, expected) => {
+    expect(parseRange(header, 1000)).toEqual(expected);
+  });
+});
+
+describe('playback links', () => {
+  it('verify until they expire', () => {
+    const now = Date.now();
+    const { url, expiresAt } = signPlaybackUrl(KEY, 'audio/wav', 60_000, now);
+    const query = Object.fromEntries(new URL(url, 'http://localhost').searchParams);
+
+    expect(url.startsWith(`/api/audio/${KEY}?`)).toBe(true);
+    expect(expiresAt.getTime()).toBe(now + 60_000);
+    expect(verifyPlaybackUrl(KEY, query, now)).toBe('audio/wav');
+    expect(verifyPlaybackUrl(KEY, query, now + 60_001)).toBeNull();
+  });
+
+  it('refuse links that were tampered with', () => {
+    const { url } = signPlaybackUrl(KEY, 'audio/wav');
+    const query = Object.fromEntries(new URL(url, 'http://localhost').searchParams);
+
+    expect(verifyPlaybackUrl('b'.repeat(64), query)).toBeNull();
+    expect(verifyPlaybackUrl(KEY, { ...query, type: 'text/html' })).toBeNull();
+    expect(verifyPlaybackUrl(KEY, { ...query, expires: String(Date.now() + 1e9) })).toBeNull();
+    expect(verifyPlaybackUrl(KEY, { ...query, expires: `${query.expires}junk` })).toBeNull();
+    expect(verifyPlaybackUrl(KEY, { ...query, expires: `0${query.expires}` })).toBeNull();
+  });
+});
+
+describe('uploading and streaming over HTTP', () => {
+  let dir: string;
+  let store: LocalAudioStore;
+  const storage = { countAudioReferences: async () => 0 };
+
+  function app() {
+    const server = express();
+    server.post('/upload', async (req, res) => {
+      try {
+        const upload = await receiveAudioUpload(req, res, store, storage);
+        res.json({ upload: upload ?? null, body: req.body });
+      } catch (error) {
+        res.status((error as { statusCode?: number }).statusCode ?? 500).json({ error: (error as Error).message });
+      }
+    });
+    server.get('/audio/:key', async (req, res) => {
+      await sendAudio(req, res, store, { key: req.params.key, type: 'audio/wav', size: AUDIO.length });
+    });
+    return server;
+  }
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'audio-http-'));
+    store = new LocalAudioStore({ dir, maxBytes: 1024 * 1024 });
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('streams a multipart recording into the store with the form fields', async () => {
+    const response = await request(app())
+      .post('/upload')
+      .field('mood', 'grateful')
+      .attach('audio', AUDIO, { filename: 'recording.wav', contentType: 'audio/wav' });
+
+    expect(response.status).toBe(200);
+    expect(response.body).toEqual({
+      upload: { key: KEY, size: AUDIO.length, mimetype: 'audio/wav' },
+      body: { mood: 'grateful' },
+    });
+    expect(await store.size(KEY)).toBe(AUDIO.length);
+  });
+
+  it('refuses recordings that are too large, unsupported or silent', async () => {
+    store = new LocalAudioStore({ dir, maxBytes: 1000 });
+    const tooLarge = await request(app()).post('/upload').attach('audio', AUDIO, { filename: 'a.wav', contentType: 'audio/wav' });
+    expect(tooLarge.status).toBe(413);
+
+    store = new LocalAudioStore({ dir, maxBytes: 1024 * 1024 });
+    const unsupported = await request(app()).post('/upload').attach('audio', AUDIO, { filename: 'a.txt', contentType: 'text/plain' });
+    expect(unsupported.status).toBe(422);
+
+    const silence = Buffer.alloc(4096);
+    const silent = await request(app()).post('/upload').attach('audio', silence, { filename: 'a.wav', contentType: 'audio/wav' });
+    expect(silent.status).toBe(422);
+    // Released, but kept through the grace period like any fresh recording
+    expect(listFiles(dir)).toEqual([crypto.createHash('sha256').update(silence).digest('hex')]);
+  });
+
+  it('serves whole recordings and byte ranges', async () => {
+    await store.put(AUDIO);
+
+    const whole = await request(app()).get(`/audio/${KEY}`).buffer(true).parse((res, done) => {
+      const chunks: Buffer[] = [];
+      res.on('data', chunk => chunks.push(chunk));
+      res.on('end', () => done(null, Buffer.concat(chunks)));
+    });
+    expect(whole.status).toBe(200);
+    expect(whole.headers['accept-ranges']).toBe('bytes');
+    expect(whole.body).toEqual(AUDIO);
+
+    const part = await request(app()).get(`/audio/${KEY}`).set('Range', 'bytes=0-43');
+    expect(part.status).toBe(206);
+    expect(part.headers['content-range']).toBe(`bytes 0-43/${AUDIO.length}`);
+    expect(part.headers['content-length']).toBe('44');
+
+    const beyond = await request(app()).get(`/audio/${KEY}`).set('Range', `bytes=${AUDIO.length}-`);
+    expect(beyond.status).toBe(416);
+    expect(beyond.headers['content-range']).toBe(`bytes */${AUDIO.length}`);
+  });
+});
@@ -0,0 +1,150 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { Readable } from 'stream';
+import type { AudioUpload } from '@shared/schema';
+import { MemStorage } from '../../../storage';
+import {
+  AudioTooLargeError,
+  ChunkedUploads,
+  LocalAudioStore,
+  UploadChunkError,
+  UploadLengthError,
+  UploadLimitError,
+  UploadOffsetError,
+  readAudio,
+} from '..';
+
+// The database module connects on import; MemStorage never touches it
+jest.mock('../../../db', () => ({ db: undefined }));
+
+const AUDIO = fs.readFileSync(path.resolve(__dirname, '../../../../test_audio.wav'));
+const CHUNK = 64 * 1024;
+
+describe('ChunkedUploads', () => {
+  let dir: string;
+  let storage: MemStorage;
+  let store: LocalAudioStore;
+  let uploads: ChunkedUploads;
+
+  // Smaller than the recording, so only chunked uploads can take it whole
+  const STORE_LIMIT = 1000;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'uploads-'));
+    storage = new MemStorage();
+    store = new LocalAudioStore({ dir: path.join(dir, 'audio'), maxBytes: STORE_LIMIT });
+    uploads = new ChunkedUploads(storage, store, {
+      dir: path.join(dir, 'parts'),
+      maxBytes: 10 * 1024 * 1024,
+      chunkBytes: CHUNK,
+      expireAfterMs: 60_000,
+      maxOpenPerUser: 2,
+    });
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  async function sendAll(upload: AudioUpload): Promise<AudioUpload> {
+    for (let offset = upload.received; offset < AUDIO.length; offset += CHUNK) {
+      const chunk = AUDIO.subarray(offset, offset + CHUNK);
+      upload = await uploads.append(upload, offset, chunk.length, Readable.from([chunk]));
+    }
+    return upload;
+  }
+
+  it('puts the recording in the store once every chunk has arrived', async () => {
+    const started = await uploads.create('user-1', { size: AUDIO.length, mimetype: 'audio/wav' });
+    const done = await sendAll(started);
+
+    expect(done.received).toBe(AUDIO.length);
+    expect(done.completedAt).toBeInstanceOf(Date);
+    expect(await readAudio(store, done.audioKey!)).toEqual(AUDIO);
+    expect(fs.readdirSync(path.join(dir, 'parts'))).toEqual([]);
+    expect(uploads.view(done)).toMatchObject({ id: started.id, size: AUDIO.length, received: AUDIO.length, chunkSize: CHUNK });
+  });
+
+  it('refuses chunks that do not carry on where the upload left off', async () => {
+    const started = await uploads.create('user-1', { size: AUDIO.length, mimetype: 'audio/wav' });
+    const first = await uploads.append(started, 0, CHUNK, Readable.from([AUDIO.subarray(0, CHUNK)]));
+
+    const error = await uploads.append(first, 0, CHUNK, Readable.from([AUDIO.subarray(0, CHUNK)])).catch(e => e);
+
+    expect(error).toBeInstanceOf(UploadOffsetError);
+    expect(error.received).toBe(CHUNK);
+  });
+
+  it('discards a chunk that breaks off, so the upload can resume', async () => {
+    const started = await uploads.create('user-1', { size: AUDIO.length, mimetype: 'audio/wav' });
+    const dropped = new Readable({ read() {} });
+    dropped.push(AUDIO.subarray(0, 1000));
+    setImmediate(() => dropped.destroy(new Error('connection reset')));
+
+    await expect(uploads.append(started, 0, CHUNK, dropped)).rejects.toThrow('connection reset');
+
+    const resumed = (await storage.getAudioUpload(started.id))!;
+    expect(resumed.received).toBe(0);
+    const done = await sendAll(resumed);
+    expect(await readAudio(store, done.audioKey!)).toEqual(AUDIO);
+  });
+
+  it('discards a chunk longer or shorter than it said it was', async () => {
+    const started = await uploads.create('user-1', { size: AUDIO.length, mimetype: 'audio/wav' });
+
+    await expect(uploads.append(started, 0, 1000, Readable.from([AUDIO.subarray(0, 1001)])))
+      .rejects.toBeInstanceOf(UploadLengthError);
+    await expect(uploads.append(started, 0, 1000, Readable.from([AUDIO.subarray(0, 999)])))
+      .rejects.toBeInstanceOf(UploadLengthError);
+
+    expect((await storage.getAudioUpload(started.id))!.received).toBe(0);
+    expect(fs.statSync(path.join(dir, 'parts', `${started.id}.part`)).size).toBe(0);
+  });
+
+  it('limits how many unfinished uploads a user can have', async () => {
+    const details = { size: AUDIO.length, mimetype: 'audio/wav' };
+    const attempts = await Promise.allSettled([1, 2, 3].map(() => uploads.create('user-1', details)));
+
+    expect(attempts.map(attempt => attempt.status)).toEqual(['fulfilled', 'fulfilled', 'rejected']);
+    expect((attempts[2] as PromiseRejectedResult).reason).toBeInstanceOf(UploadLimitError);
+    await expect(uploads.create('user-2', details)).resolves.toBeDefined();
+
+    await sendAll((attempts[0] as PromiseFulfilledResult<AudioUpload>).value);
+    await expect(uploads.create('user-1', details)).resolves.toBeDefined();
+  });
+
+  it('refuses oversized chunks and uploads', async () => {
+    const started = await uploads.create('user-1', { size: AUDIO.length, mimetype: 'audio/wav' });
+
+    await expect(uploads.append(started, 0, CHUNK + 1, Readable.from([AUDIO.subarray(0, CHUNK + 1)])))
+      .rejects.toBeInstanceOf(UploadChunkError);
+    await expect(uploads.create('user-1', { size: 11 * 1024 * 1024, mimetype: 'audio/wav' }))
+      .rejects.toBeInstanceOf(AudioTooLargeError);
+  });
+
+  it('removes abandoned uploads and their recordings', async () => {
+    const started = await uploads.create('user-1', { size: AUDIO.length, mimetype: 'audio/wav' });
+    const done = await sendAll(started);
+    const longAgo = new Date(Date.now() - 60 * 60 * 1000);
+    fs.utimesSync(path.join(dir, 'audio', done.audioKey!.slice(0, 2), done.audioKey!), longAgo, longAgo);
+
+    expect(await uploads.prune(Date.now() + 30_000)).toBe(0);
+    expect(await uploads.prune(Date.now() + 120_000)).toBe(1);
+    expect(await storage.getAudioUpload(started.id)).toBeUndefined();
+    expect(await store.size(done.audioKey!)).toBeNull();
+  });
+
+  it('removes old part files that no upload owns', async () => {
+    const parts = path.join(dir, 'parts');
+    const orphan = path.join(parts, '0b6c3bde-5b0a-4b39-9a35-7d2a1c1f6e21.part');
+    const started = await uploads.create('user-1', { size: AUDIO.length, mimetype: 'audio/wav' });
+    fs.writeFileSync(orphan, AUDIO.subarray(0, 1000));
+    fs.writeFileSync(path.join(parts, 'notes.txt'), 'kept');
+
+    expect(await uploads.prune(Date.now() + 30_000)).toBe(0);
+    expect(await uploads.prune(Date.now() + 120_000)).toBe(2);
+    expect(await storage.getAudioUpload(started.id)).toBeUndefined();
+    expect(fs.readdirSync(parts)).toEqual(['notes.txt']);
+  });
+});
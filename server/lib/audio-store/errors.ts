@@ -0,0 +1,22 @@
+/**
+ * Errors raised by the audio store. Routes turn these into status codes.
+ */
+import { AppError } from '../../utils/errors';
+
+/**
+ * The recording is over the store's size limit
+ */
+export class AudioTooLargeError extends AppError {
+  constructor(maxBytes: number) {
+    super(`Recording is larger than the ${Math.floor(maxBytes / (1024 * 1024))}MB limit`, 413);
+  }
+}
+
+/**
+ * No recording is stored under the key
+ */
+export class AudioNotFoundError extends AppError {
+  constructor(key: string) {
+    super(`No recording stored as ${key}`, 404);
+  }
+}
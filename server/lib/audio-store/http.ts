@@ -0,0 +1,82 @@
+import type { Request, Response } from 'express';
+import { pipeline } from 'stream/promises';
+import { createLogger } from '../logger';
+import { AudioStore, ByteRange } from './types';
+
+const logger = createLogger('audio-store');
+
+/**
+ * The bytes a Range header asks for: a range within the recording, null to
+ * send all of it, or 'unsatisfiable'. Only single ranges are served; a
+ * multi-range request gets the whole recording, as the spec allows.
+ */
+export function parseRange(header: string | undefined, size: number): ByteRange | null | 'unsatisfiable' {
+  if (!header) return null;
+  const match = /^bytes=(\d*)-(\d*)$/.exec(header.trim());
+  if (!match || (match[1] === '' && match[2] === '')) return null;
+
+  let start: number;
+  let end: number;
+  if (match[1] === '') {
+    // bytes=-500 is the last 500 bytes
+    const suffix = parseInt(match[2], 10);
+    if (suffix === 0) return 'unsatisfiable';
+    start = Math.max(0, size - suffix);
+    end = size - 1;
+  } else {
+    start = parseInt(match[1], 10);
+    end = match[2] === '' ? size - 1 : Math.min(parseInt(match[2], 10), size - 1);
+  }
+
+  if (start >= size || start > end) return 'unsatisfiable';
+  return { start, end };
+}
+
+export interface AudioResponse {
+  key: string;
+  /** Mimetype of the recording */
+  type: string;
+  size: number;
+}
+
+/**
+ * Send a stored recording, or the part a Range header asks for, so players
+ * can seek without downloading all of it
+ */
+export async function sendAudio(req: Request, res: Response, store: AudioStore, { key, type, size }: AudioResponse): Promise<void> {
+  const range = parseRange(req.headers.range, size);
+  res.setHeader('Accept-Ranges', 'bytes');
+  // A key names one recording forever
+  res.setHeader('ETag', `"${key}"`);
+  res.setHeader('Cache-Control', 'private, max-age=31536000, immutable');
+
+  if (range === 'unsatisfiable') {
+    res.setHeader('Content-Range', `bytes */${size}`);
+    res.status(416).end();
+    return;
+  }
+
+  res.setHeader('Content-Type', type);
+  if (range) {
+    res.status(206);
+    res.setHeader('Content-Range', `bytes ${range.start}-${range.end}/${size}`);
+    res.setHeader('Content-Length', range.end - range.start + 1);
+  } else {
+    res.setHeader('Content-Length', size);
+  }
+
+  if (req.method === 'HEAD') {
+    res.end();
+    return;
+  }
+
+  try {
+    await pipeline(await store.read(key, range ?? undefined), res);
+  } catch (error) {
+    // Players drop connections when they seek; only log other failures
+    if ((error as NodeJS.ErrnoException).code !== 'ERR_STREAM_PREMATURE_CLOSE') {
+      logger.error(`Failed to stream recording ${key}`, error);
+    }
+    res.destroy();
+  }
+}
@@ -0,0 +1,115 @@
+/**
+ * Content-addressed storage for recordings
+ *
+ * Recordings are kept out of Postgres, keyed by the SHA-256 of their bytes,
+ * in the store named by AUDIO_STORE:
+ *   - "local" (default): files under AUDIO_STORE_DIR (data/audio by default)
+ *   - "s3": objects in AUDIO_S3_BUCKET under AUDIO_S3_PREFIX ("audio/" by
+ *     default). AUDIO_S3_ENDPOINT and AUDIO_S3_FORCE_PATH_STYLE point it at
+ *     an S3-compatible stand-in such as MinIO; AUDIO_S3_REGION falls back to
+ *     AWS_REGION.
+ * Recordings over AUDIO_MAX_BYTES (50MB by default) are refused, except
+ * those sent in chunks (see uploads.ts), which may be up to
+ * AUDIO_UPLOAD_MAX_BYTES (500MB by default).
+ *
+ * Reflections, halaqa lectures and transcription jobs hold the key. The
+ * same recording is stored once however many rows refer to it, so rows give
+ * up their recordings through releaseAudio() rather than deleting them.
+ */
+import path from 'path';
+import { Readable } from 'stream';
+import { createLogger } from '../logger';
+import { LocalAudioStore } from './local-store';
+import { S3AudioStore } from './s3-store';
+import { AudioStore } from './types';
+
+export * from './types';
+export * from './errors';
+export { LocalAudioStore } from './local-store';
+export type { LocalAudioStoreOptions } from './local-store';
+export { S3AudioStore } from './s3-store';
+export type { S3AudioStoreOptions } from './s3-store';
+export { parseRange, sendAudio } from './http';
+export type { AudioResponse } from './http';
+export { PLAYBACK_URL_TTL_MS, signPlaybackUrl, verifyPlaybackUrl } from './signed-urls';
+export { receiveAudioUpload } from './upload';
+export type { ReceivedAudio } from './upload';
+export { releaseAudio } from './release';
+export {
+  ChunkedUploads,
+  UploadChunkError,
+  UploadLengthError,
+  UploadLimitError,
+  UploadOffsetError,
+  getChunkedUploadConfig,
+  getChunkedUploads,
+  setChunkedUploads,
+} from './uploads';
+export type { ChunkedUploadConfig } from './uploads';
+
+const logger = createLogger('audio-store');
+
+const DEFAULT_MAX_BYTES = 50 * 1024 * 1024;
+
+/**
+ * Create the store from environment configuration
+ */
+export function createAudioStore(): AudioStore {
+  const maxBytes = parseInt(process.env.AUDIO_MAX_BYTES ?? '', 10) || DEFAULT_MAX_BYTES;
+  const name = process.env.AUDIO_STORE || 'local';
+
+  switch (name) {
+    case 'local':
+      return new LocalAudioStore({
+        dir: path.resolve(process.env.AUDIO_STORE_DIR || path.join(process.cwd(), 'data', 'audio')),
+        maxBytes,
+      });
+    case 's3':
+      if (!process.env.AUDIO_S3_BUCKET) {
+        throw new Error('AUDIO_STORE=s3 needs AUDIO_S3_BUCKET');
+      }
+      return new S3AudioStore({
+        bucket: process.env.AUDIO_S3_BUCKET,
+        prefix: process.env.AUDIO_S3_PREFIX,
+        maxBytes,
+        client: {
+          region: process.env.AUDIO_S3_REGION || process.env.AWS_REGION || 'us-east-1',
+          endpoint: process.env.AUDIO_S3_ENDPOINT || undefined,
+          forcePathStyle: process.env.AUDIO_S3_FORCE_PATH_STYLE === 'true',
+        },
+      });
+    default:
+      throw new Error(`Unknown audio store "${name}". Expected "local" or "s3"`);
+  }
+}
+
+let activeStore: AudioStore | null = null;
+
+/**
+ * The store recordings are kept in, created from config on first use
+ */
+export function getAudioStore(): AudioStore {
+  if (!activeStore) {
+    activeStore = createAudioStore();
+    logger.info(`Audio store: ${activeStore.name}`);
+  }
+  return activeStore;
+}
+
+/**
+ * Replace the store (tests). Pass null to reset to config.
+ */
+export function setAudioStore(store: AudioStore | null): void {
+  activeStore = store;
+}
+
+/**
+ * A whole recording in memory, for the engines that need it that way
+ */
+export async function readAudio(store: AudioStore, key: string): Promise<Buffer> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of await store.read(key) as Readable) {
+    chunks.push(Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk));
+  }
+  return Buffer.concat(chunks);
+}
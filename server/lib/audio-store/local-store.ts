@@ -0,0 +1,76 @@
+import fs from 'fs';
+import path from 'path';
+import { Readable } from 'stream';
+import { AudioNotFoundError } from './errors';
+import { spool } from './spool';
+import { AudioStore, ByteRange, PutOptions, StoredAudio } from './types';
+
+export interface LocalAudioStoreOptions {
+  dir: string;
+  maxBytes: number;
+}
+
+/**
+ * Recordings as files under dir, sharded by the first two characters of
+ * their hash. Uploads are written to dir/.tmp and renamed into place, so a
+ * half-written recording is never served.
+ */
+export class LocalAudioStore implements AudioStore {
+  readonly name = 'local';
+  readonly maxBytes: number;
+  private dir: string;
+
+  constructor(options: LocalAudioStoreOptions) {
+    this.dir = options.dir;
+    this.maxBytes = options.maxBytes;
+  }
+
+  private pathOf(key: string): string {
+    // Keys are hex digests; anything else could walk out of dir
+    if (!/^[0-9a-f]{64}$/.test(key)) throw new AudioNotFoundError(key);
+    return path.join(this.dir, key.slice(0, 2), key);
+  }
+
+  async put(source: Readable | Buffer, options: PutOptions = {}): Promise<StoredAudio> {
+    const { key, size, path: temp } = await spool(source, path.join(this.dir, '.tmp'), options.maxBytes ?? this.maxBytes);
+    const target = this.pathOf(key);
+
+    if (await this.size(key) !== null) {
+      await fs.promises.rm(temp, { force: true });
+      // Whoever put it again is about to refer to it; see releaseAudio()
+      const now = new Date();
+      await fs.promises.utimes(target, now, now);
+    } else {
+      await fs.promises.mkdir(path.dirname(target), { recursive: true });
+      await fs.promises.rename(temp, target);
+    }
+    return { key, size };
+  }
+
+  async read(key: string, range?: ByteRange): Promise<Readable> {
+    const file = this.pathOf(key);
+    if (await this.size(key) === null) throw new AudioNotFoundError(key);
+    return fs.createReadStream(file, range);
+  }
+
+  async size(key: string): Promise<number | null> {
+    return (await this.stat(key))?.size ?? null;
+  }
+
+  async writtenAt(key: string): Promise<Date | null> {
+    return (await this.stat(key))?.mtime ?? null;
+  }
+
+  private async stat(key: string): Promise<fs.Stats | null> {
+    try {
+      return await fs.promises.stat(this.pathOf(key));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+      throw error;
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    await fs.promises.rm(this.pathOf(key), { force: true });
+  }
+}
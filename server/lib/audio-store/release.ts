@@ -0,0 +1,51 @@
+import type { IStorage } from '../../storage';
+import { createLogger } from '../logger';
+import { AudioStore } from './types';
+
+const logger = createLogger('audio-store');
+
+const DEFAULT_GRACE_MINUTES = 10;
+
+/**
+ * How long a recording is kept after it was last put(), referenced or not
+ */
+function releaseGraceMs(): number {
+  const minutes = parseInt(process.env.AUDIO_RELEASE_GRACE_MINUTES ?? '', 10);
+  return (Number.isFinite(minutes) && minutes >= 0 ? minutes : DEFAULT_GRACE_MINUTES) * 60 * 1000;
+}
+
+/**
+ * Remove a recording once nothing refers to it. Identical recordings share a
+ * key, so deleting one reflection mustn't take another's audio with it.
+ *
+ * put() hands back the key of a recording it already had before the row
+ * referring to it is saved, so a count of none doesn't mean nobody is about
+ * to. Recordings put within the grace period are left alone and released
+ * again once it has passed. Failures are logged; an orphaned blob is only
+ * wasted space.
+ */
+export async function releaseAudio(
+  storage: Pick<IStorage, 'countAudioReferences'>,
+  store: AudioStore,
+  key: string | null | undefined
+): Promise<void> {
+  if (!key) return;
+  try {
+    if (await storage.countAudioReferences(key) > 0) return;
+
+    const writtenAt = await store.writtenAt(key);
+    if (!writtenAt) return;
+
+    const wait = writtenAt.getTime() + releaseGraceMs() - Date.now();
+    if (wait > 0) {
+      setTimeout(() => void releaseAudio(storage, store, key), wait).unref();
+      logger.debug(`Keeping recording ${key} for ${Math.ceil(wait / 1000)}s, it was put again recently`);
+      return;
+    }
+
+    await store.delete(key);
+    logger.debug(`Deleted recording ${key}`);
+  } catch (error) {
+    logger.error(`Failed to release recording ${key}`, error);
+  }
+}
@@ -0,0 +1,119 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { Readable } from 'stream';
+import {
+  CopyObjectCommand,
+  DeleteObjectCommand,
+  GetObjectCommand,
+  HeadObjectCommand,
+  HeadObjectCommandOutput,
+  PutObjectCommand,
+  S3Client,
+  S3ClientConfig,
+} from '@aws-sdk/client-s3';
+import { AudioNotFoundError } from './errors';
+import { spool } from './spool';
+import { AudioStore, ByteRange, PutOptions, StoredAudio } from './types';
+
+export interface S3AudioStoreOptions {
+  bucket: string;
+  /** Prepended to every key, e.g. "audio/" */
+  prefix?: string;
+  maxBytes: number;
+  /** A client, or the config to create one with */
+  client?: S3Client | S3ClientConfig;
+}
+
+function isNotFound(error: unknown): boolean {
+  const { name, $metadata } = error as { name?: string; $metadata?: { httpStatusCode?: number } };
+  return name === 'NotFound' || name === 'NoSuchKey' || $metadata?.httpStatusCode === 404;
+}
+
+/**
+ * Recordings as objects in an S3-compatible bucket. Works against AWS or a
+ * local stand-in such as MinIO through the client's endpoint and
+ * forcePathStyle. The key isn't known until the whole recording has been
+ * hashed, so uploads are spooled to a temporary file first.
+ */
+export class S3AudioStore implements AudioStore {
+  readonly name = 's3';
+  readonly maxBytes: number;
+  private bucket: string;
+  private prefix: string;
+  private client: S3Client;
+
+  constructor(options: S3AudioStoreOptions) {
+    this.bucket = options.bucket;
+    this.prefix = options.prefix ?? 'audio/';
+    this.maxBytes = options.maxBytes;
+    this.client = options.client instanceof S3Client ? options.client : new S3Client(options.client ?? {});
+  }
+
+  private objectKey(key: string): string {
+    return `${this.prefix}${key}`;
+  }
+
+  async put(source: Readable | Buffer, options: PutOptions = {}): Promise<StoredAudio> {
+    const { key, size, path: temp } = await spool(source, path.join(os.tmpdir(), 'sahabai-audio'), options.maxBytes ?? this.maxBytes);
+
+    try {
+      if (await this.size(key) === null) {
+        await this.client.send(new PutObjectCommand({
+          Bucket: this.bucket,
+          Key: this.objectKey(key),
+          Body: fs.createReadStream(temp),
+          ContentLength: size,
+        }));
+      } else {
+        // Copying it onto itself bumps LastModified: whoever put it again is
+        // about to refer to it; see releaseAudio()
+        await this.client.send(new CopyObjectCommand({
+          Bucket: this.bucket,
+          Key: this.objectKey(key),
+          CopySource: `${this.bucket}/${this.objectKey(key)}`,
+          MetadataDirective: 'REPLACE',
+        }));
+      }
+      return { key, size };
+    } finally {
+      await fs.promises.rm(temp, { force: true });
+    }
+  }
+
+  async read(key: string, range?: ByteRange): Promise<Readable> {
+    try {
+      const { Body } = await this.client.send(new GetObjectCommand({
+        Bucket: this.bucket,
+        Key: this.objectKey(key),
+        Range: range ? `bytes=${range.start}-${range.end}` : undefined,
+      }));
+      if (!Body) throw new AudioNotFoundError(key);
+      return Body as Readable;
+    } catch (error) {
+      if (isNotFound(error)) throw new AudioNotFoundError(key);
+      throw error;
+    }
+  }
+
+  async size(key: string): Promise<number | null> {
+    return (await this.head(key))?.ContentLength ?? null;
+  }
+
+  async writtenAt(key: string): Promise<Date | null> {
+    return (await this.head(key))?.LastModified ?? null;
+  }
+
+  private async head(key: string): Promise<HeadObjectCommandOutput | null> {
+    try {
+      return await this.client.send(new HeadObjectCommand({ Bucket: this.bucket, Key: this.objectKey(key) }));
+    } catch (error) {
+      if (isNotFound(error)) return null;
+      throw error;
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.client.send(new DeleteObjectCommand({ Bucket: this.bucket, Key: this.objectKey(key) }));
+  }
+}
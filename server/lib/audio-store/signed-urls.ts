@@ -0,0 +1,39 @@
+import crypto from 'crypto';
+
+// Playback links last long enough to listen through a long recording
+export const PLAYBACK_URL_TTL_MS = 6 * 60 * 60 * 1000;
+
+function secret(): string {
+  return process.env.AUDIO_URL_SECRET || process.env.JWT_SECRET || 'sahabai-secret-key';
+}
+
+// Covers the key, type and expiry exactly as they appear in the link
+function signature(key: string, type: string, expires: string): string {
+  return crypto.createHmac('sha256', secret()).update(`${key}\n${type}\n${expires}`).digest('base64url');
+}
+
+/**
+ * A link to a recording that works without the Authorization header, for
+ * <audio> elements, which can't send one. It stops working after ttlMs.
+ */
+export function signPlaybackUrl(key: string, type: string, ttlMs: number = PLAYBACK_URL_TTL_MS, now = Date.now()) {
+  const expires = now + ttlMs;
+  const query = new URLSearchParams({ type, expires: String(expires), signature: signature(key, type, String(expires)) });
+  return { url: `/api/audio/${key}?${query.toString()}`, expiresAt: new Date(expires) };
+}
+
+/**
+ * The mimetype a playback link was signed for, or null if the link was
+ * tampered with or has expired
+ */
+export function verifyPlaybackUrl(key: string, query: Record<string, unknown>, now = Date.now()): string | null {
+  const { type, expires, signature: given } = query;
+  if (typeof type !== 'string' || typeof expires !== 'string' || typeof given !== 'string') return null;
+
+  // Signed as a plain millisecond timestamp; anything else was not made here
+  if (!/^\d+$/.test(expires) || Number(expires) < now) return null;
+
+  const expected = Buffer.from(signature(key, type, expires));
+  const actual = Buffer.from(given);
+  return expected.length === actual.length && crypto.timingSafeEqual(expected, actual) ? type : null;
+}
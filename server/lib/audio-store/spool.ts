@@ -0,0 +1,41 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { Readable, Transform } from 'stream';
+import { pipeline } from 'stream/promises';
+import { AudioTooLargeError } from './errors';
+import { StoredAudio } from './types';
+
+export interface SpooledAudio extends StoredAudio {
+  /** Temporary file holding the recording; the caller moves or removes it */
+  path: string;
+}
+
+/**
+ * Write a recording to a temporary file in dir, hashing and counting its
+ * bytes on the way. Nothing is left behind if it runs past maxBytes.
+ */
+export async function spool(source: Readable | Buffer, dir: string, maxBytes: number): Promise<SpooledAudio> {
+  await fs.promises.mkdir(dir, { recursive: true });
+  const file = path.join(dir, `upload-${crypto.randomUUID()}`);
+  const hash = crypto.createHash('sha256');
+  let size = 0;
+
+  const measure = new Transform({
+    transform(chunk: Buffer, _encoding, callback) {
+      size += chunk.length;
+      if (size > maxBytes) return callback(new AudioTooLargeError(maxBytes));
+      hash.update(chunk);
+      callback(null, chunk);
+    },
+  });
+
+  try {
+    await pipeline(Buffer.isBuffer(source) ? Readable.from([source]) : source, measure, fs.createWriteStream(file));
+  } catch (error) {
+    await fs.promises.rm(file, { force: true });
+    throw error;
+  }
+
+  return { key: hash.digest('hex'), size, path: file };
+}
@@ -0,0 +1,50 @@
+/**
+ * Shared types for the audio blob store
+ */
+import type { Readable } from 'stream';
+
+export type AudioStoreName = 'local' | 's3';
+
+/**
+ * A recording as saved: its key is the SHA-256 of its bytes, so the same
+ * recording is only stored once
+ */
+export interface StoredAudio {
+  key: string;
+  size: number;
+}
+
+/**
+ * Inclusive byte offsets, as in an HTTP Range header
+ */
+export interface ByteRange {
+  start: number;
+  end: number;
+}
+
+export interface PutOptions {
+  /** A larger limit than the store's, for recordings such as whole lectures */
+  maxBytes?: number;
+}
+
+export interface AudioStore {
+  readonly name: AudioStoreName;
+  /** Largest recording put() accepts, in bytes */
+  readonly maxBytes: number;
+  /**
+   * Save a recording, hashing it as it streams in. Throws AudioTooLargeError
+   * past maxBytes, leaving nothing behind.
+   */
+  put(source: Readable | Buffer, options?: PutOptions): Promise<StoredAudio>;
+  /** Stream a recording, or part of it */
+  read(key: string, range?: ByteRange): Promise<Readable>;
+  /** The recording's size in bytes, or null if it isn't stored */
+  size(key: string): Promise<number | null>;
+  /**
+   * When the recording was last put(), or null if it isn't stored. Putting a
+   * recording that is already stored counts as writing it again.
+   */
+  writtenAt(key: string): Promise<Date | null>;
+  /** Remove a recording; removing one that isn't stored is not an error */
+  delete(key: string): Promise<void>;
+}
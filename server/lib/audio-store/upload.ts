@@ -0,0 +1,91 @@
+import type { Request, Response } from 'express';
+import multer from 'multer';
+import { Transform } from 'stream';
+import type { IStorage } from '../../storage';
+import { AudioLevels, checkAudioLevels, isAudioFormatSupported, measureAudio } from '../transcription/audio';
+import { TranscriptionError } from '../transcription/errors';
+import { AudioTooLargeError } from './errors';
+import { releaseAudio } from './release';
+import { AudioStore, StoredAudio } from './types';
+
+export interface ReceivedAudio extends StoredAudio {
+  mimetype: string;
+}
+
+type UploadedAudio = Express.Multer.File & StoredAudio & { levels: AudioLevels };
+
+/**
+ * Multer storage that streams each file straight into the audio store, so a
+ * recording is never held in memory whole
+ */
+class AudioStoreEngine implements multer.StorageEngine {
+  constructor(private store: AudioStore) {}
+
+  _handleFile(_req: Request, file: Express.Multer.File, callback: (error?: unknown, info?: Partial<Express.Multer.File>) => void): void {
+    let levels: AudioLevels = { bytes: 0, heard: false };
+    const measure = new Transform({
+      transform(chunk: Buffer, _encoding, done) {
+        levels = measureAudio(chunk, levels);
+        done(null, chunk);
+      },
+    });
+    file.stream.on('error', error => measure.destroy(error));
+
+    this.store.put(file.stream.pipe(measure)).then(
+      ({ key, size }) => callback(null, { key, size, levels } as Partial<UploadedAudio>),
+      callback
+    );
+  }
+
+  _removeFile(_req: Request, _file: Express.Multer.File, callback: (error: Error | null) => void): void {
+    // Recordings are shared by content; the route releases what it received
+    callback(null);
+  }
+}
+
+/**
+ * Receive a multipart recording in `field` into the store, along with the
+ * form's text fields in req.body. Returns undefined when the request has no
+ * recording (or isn't multipart). Recordings that are too large, in a format
+ * no engine accepts or silent are rejected without being kept.
+ */
+export async function receiveAudioUpload(
+  req: Request,
+  res: Response,
+  store: AudioStore,
+  storage: Pick<IStorage, 'countAudioReferences'>,
+  field = 'audio'
+): Promise<ReceivedAudio | undefined> {
+  const upload = multer({
+    storage: new AudioStoreEngine(store),
+    // One byte over, so the store sees the recording is too large
+    limits: { fileSize: store.maxBytes + 1, files: 1 },
+    fileFilter: (_req, file, cb) => {
+      if (isAudioFormatSupported(file.mimetype)) {
+        cb(null, true);
+      } else {
+        cb(new TranscriptionError(`Unsupported audio format: ${file.mimetype}`));
+      }
+    },
+  }).single(field);
+
+  try {
+    await new Promise<void>((resolve, reject) => upload(req, res, error => (error ? reject(error) : resolve())));
+  } catch (error) {
+    if (error instanceof multer.MulterError && error.code === 'LIMIT_FILE_SIZE') {
+      throw new AudioTooLargeError(store.maxBytes);
+    }
+    throw error;
+  }
+
+  const file = req.file as UploadedAudio | undefined;
+  if (!file) return undefined;
+
+  try {
+    checkAudioLevels(file.levels, file.mimetype);
+  } catch (error) {
+    await releaseAudio(storage, store, file.key);
+    throw error;
+  }
+  return { key: file.key, size: file.size, mimetype: file.mimetype };
+}
@@ -0,0 +1,335 @@
+/**
+ * Resumable chunked uploads, for recordings too long to send in one request
+ * (a whole halaqa lecture). An upload is started with its total size, then
+ * sent in chunks of at most chunkBytes, each saying which byte it starts at.
+ * A client that loses its connection asks how much arrived and carries on
+ * from there. The bytes received so far are kept in a part file under dir;
+ * when the last chunk arrives the recording moves to the audio store.
+ */
+import fs from 'fs';
+import path from 'path';
+import { Readable, Transform } from 'stream';
+import { pipeline } from 'stream/promises';
+import type { AudioUpload, AudioUploadView } from '@shared/schema';
+import type { IStorage } from '../../storage';
+import { createLogger } from '../logger';
+import { isAudioFormatSupported } from '../transcription/audio';
+import { TranscriptionError } from '../transcription/errors';
+import { AppError } from '../../utils/errors';
+import { AudioTooLargeError } from './errors';
+import { releaseAudio } from './release';
+import { AudioStore } from './types';
+
+const logger = createLogger('audio-store:uploads');
+
+// An upload's part file, named by its id
+const PART_FILE_PATTERN = /^([0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12})\.part$/;
+
+export interface ChunkedUploadConfig {
+  /** Where part files are kept while uploads are in progress */
+  dir: string;
+  /** Largest recording that can be uploaded in chunks */
+  maxBytes: number;
+  /** Largest chunk accepted in one request */
+  chunkBytes: number;
+  /** Uploads untouched for this long are abandoned and removed */
+  expireAfterMs: number;
+  /** Unfinished uploads one user may have at a time */
+  maxOpenPerUser: number;
+}
+
+function envInt(name: string, fallback: number): number {
+  const value = parseInt(process.env[name] ?? '', 10);
+  return Number.isFinite(value) && value > 0 ? value : fallback;
+}
+
+export function getChunkedUploadConfig(): ChunkedUploadConfig {
+  return {
+    dir: path.resolve(process.env.AUDIO_UPLOAD_DIR || path.join(process.cwd(), 'data', 'uploads')),
+    maxBytes: envInt('AUDIO_UPLOAD_MAX_BYTES', 500 * 1024 * 1024),
+    chunkBytes: envInt('AUDIO_UPLOAD_CHUNK_BYTES', 8 * 1024 * 1024),
+    expireAfterMs: envInt('AUDIO_UPLOAD_EXPIRE_HOURS', 24) * 60 * 60 * 1000,
+    maxOpenPerUser: envInt('AUDIO_UPLOAD_MAX_OPEN', 3),
+  };
+}
+
+/**
+ * A chunk didn't start where the upload left off. received says where the
+ * next one should start.
+ */
+export class UploadOffsetError extends AppError {
+  readonly received: number;
+
+  constructor(received: number) {
+    super(`Expected the chunk starting at byte ${received}`, 409);
+    this.received = received;
+  }
+}
+
+/**
+ * A chunk larger than allowed, or running past the upload's declared size
+ */
+export class UploadChunkError extends AppError {
+  constructor(message: string) {
+    super(message, 413);
+  }
+}
+
+/**
+ * A chunk whose length isn't what its Content-Range said
+ */
+export class UploadLengthError extends AppError {
+  constructor(expected: number, received: number) {
+    super(`Expected a chunk of ${expected} bytes, got ${received}`, 400);
+  }
+}
+
+/**
+ * The user already has as many unfinished uploads as they may
+ */
+export class UploadLimitError extends AppError {
+  constructor(limit: number) {
+    super(`Finish or cancel one of your ${limit} unfinished uploads first`, 429);
+  }
+}
+
+type UploadStorage = Pick<IStorage,
+  | 'createAudioUpload'
+  | 'countUnfinishedAudioUploads'
+  | 'getAudioUpload'
+  | 'updateAudioUpload'
+  | 'deleteAudioUpload'
+  | 'listStaleAudioUploads'
+  | 'countAudioReferences'
+>;
+
+export class ChunkedUploads {
+  private storage: UploadStorage;
+  private store: AudioStore;
+  private config: ChunkedUploadConfig;
+  // Uploads a chunk is being written to; one chunk at a time per upload
+  private writing = new Set<string>();
+  // Uploads being started per user, one at a time so a burst can't pass the cap
+  private starting = new Map<string, Promise<unknown>>();
+  private timer: ReturnType<typeof setInterval> | null = null;
+
+  constructor(storage: UploadStorage, store: AudioStore, config: ChunkedUploadConfig = getChunkedUploadConfig()) {
+    this.storage = storage;
+    this.store = store;
+    this.config = config;
+  }
+
+  private partPath(upload: AudioUpload): string {
+    return path.join(this.config.dir, `${upload.id}.part`);
+  }
+
+  view(upload: AudioUpload): AudioUploadView {
+    return {
+      id: upload.id,
+      mimetype: upload.mimetype,
+      size: upload.size,
+      received: upload.received,
+      createdAt: upload.createdAt,
+      completedAt: upload.completedAt,
+      chunkSize: this.config.chunkBytes,
+    };
+  }
+
+  /**
+   * Start an upload of `size` bytes, unless the user has maxOpenPerUser
+   * unfinished ones already
+   */
+  async create(userId: string, details: { size: number; mimetype: string }): Promise<AudioUpload> {
+    const previous = this.starting.get(userId) ?? Promise.resolve();
+    const started = previous.catch(() => undefined).then(() => this.begin(userId, details));
+    this.starting.set(userId, started);
+    try {
+      return await started;
+    } finally {
+      if (this.starting.get(userId) === started) this.starting.delete(userId);
+    }
+  }
+
+  private async begin(userId: string, { size, mimetype }: { size: number; mimetype: string }): Promise<AudioUpload> {
+    if (!isAudioFormatSupported(mimetype)) {
+      throw new TranscriptionError(`Unsupported audio format: ${mimetype}`);
+    }
+    if (size > this.config.maxBytes) {
+      throw new AudioTooLargeError(this.config.maxBytes);
+    }
+    if (await this.storage.countUnfinishedAudioUploads(userId) >= this.config.maxOpenPerUser) {
+      throw new UploadLimitError(this.config.maxOpenPerUser);
+    }
+
+    const upload = await this.storage.createAudioUpload({ userId, mimetype, size });
+    await fs.promises.mkdir(this.config.dir, { recursive: true });
+    await fs.promises.writeFile(this.partPath(upload), Buffer.alloc(0));
+    return upload;
+  }
+
+  /**
+   * Add the `expected` bytes starting at byte `offset`. A chunk that fails
+   * part way, or turns out longer or shorter than expected, is discarded
+   * whole, so the upload resumes from the last complete one. Once every byte
+   * has arrived the recording is put in the store; sending an empty chunk at
+   * the end retries that if it failed.
+   */
+  async append(upload: AudioUpload, offset: number, expected: number, chunk: Readable): Promise<AudioUpload> {
+    if (upload.completedAt) return upload;
+    if (offset !== upload.received) throw new UploadOffsetError(upload.received);
+    if (this.writing.has(upload.id)) throw new UploadOffsetError(upload.received);
+
+    const remaining = upload.size - upload.received;
+    const allowed = Math.min(this.config.chunkBytes, remaining);
+    if (expected > allowed) {
+      throw new UploadChunkError(expected > remaining
+        ? `The upload is only ${upload.size} bytes`
+        : `Chunks can be at most ${allowed} bytes`);
+    }
+
+    this.writing.add(upload.id);
+    const part = this.partPath(upload);
+    try {
+      let length = 0;
+      const limit = new Transform({
+        transform(data: Buffer, _encoding, callback) {
+          length += data.length;
+          if (length > expected) return callback(new UploadLengthError(expected, length));
+          callback(null, data);
+        },
+      });
+
+      try {
+        await pipeline(chunk, limit, fs.createWriteStream(part, { flags: 'a' }));
+        if (length !== expected) throw new UploadLengthError(expected, length);
+      } catch (error) {
+        await fs.promises.truncate(part, upload.received).catch(() => undefined);
+        throw error;
+      }
+
+      let updated = length > 0
+        ? await this.storage.updateAudioUpload(upload.id, { received: upload.received + length })
+        : upload;
+      if (updated.received === updated.size) {
+        updated = await this.complete(updated);
+      }
+      return updated;
+    } finally {
+      this.writing.delete(upload.id);
+    }
+  }
+
+  private async complete(upload: AudioUpload): Promise<AudioUpload> {
+    const part = this.partPath(upload);
+    const { key } = await this.store.put(fs.createReadStream(part), { maxBytes: this.config.maxBytes });
+    const completed = await this.storage.updateAudioUpload(upload.id, { audioKey: key, completedAt: new Date() });
+    await fs.promises.rm(part, { force: true });
+    logger.debug(`Upload ${upload.id} complete as ${key}`);
+    return completed;
+  }
+
+  /**
+   * Hand a finished upload's recording over to whatever now refers to it,
+   * forgetting the upload. Save the key elsewhere first, or the recording
+   * goes with the upload.
+   */
+  async take(upload: AudioUpload): Promise<void> {
+    await this.storage.deleteAudioUpload(upload.id);
+    await releaseAudio(this.storage, this.store, upload.audioKey);
+  }
+
+  /**
+   * Abandon an upload, removing whatever had arrived
+   */
+  async cancel(upload: AudioUpload): Promise<void> {
+    await fs.promises.rm(this.partPath(upload), { force: true });
+    await this.take(upload);
+  }
+
+  /**
+   * Remove uploads nobody has touched for expireAfterMs, finished or not,
+   * and part files left without an upload (a crash, or uploads kept in
+   * memory by a server since restarted)
+   */
+  async prune(now = Date.now()): Promise<number> {
+    const before = now - this.config.expireAfterMs;
+    const stale = await this.storage.listStaleAudioUploads(new Date(before));
+    let removed = 0;
+    for (const upload of stale) {
+      if (this.writing.has(upload.id)) continue;
+      try {
+        await this.cancel(upload);
+        removed++;
+      } catch (error) {
+        logger.error(`Failed to remove abandoned upload ${upload.id}`, error);
+      }
+    }
+    if (removed > 0) logger.info(`Removed ${removed} abandoned upload(s)`);
+
+    const orphans = await this.pruneOrphanedParts(before);
+    if (orphans > 0) logger.info(`Removed ${orphans} part file(s) with no upload`);
+    return removed + orphans;
+  }
+
+  private async pruneOrphanedParts(before: number): Promise<number> {
+    let names: string[];
+    try {
+      names = await fs.promises.readdir(this.config.dir);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return 0;
+      throw error;
+    }
+
+    let removed = 0;
+    for (const name of names) {
+      const id = PART_FILE_PATTERN.exec(name)?.[1];
+      if (!id || this.writing.has(id)) continue;
+
+      const file = path.join(this.config.dir, name);
+      const modified = await fs.promises.stat(file).then(stats => stats.mtimeMs, () => null);
+      if (modified === null || modified >= before) continue;
+      if (await this.storage.getAudioUpload(id)) continue;
+
+      await fs.promises.rm(file, { force: true });
+      removed++;
+    }
+    return removed;
+  }
+
+  /**
+   * Prune abandoned uploads every hour until stop()
+   */
+  start(): void {
+    if (this.timer) return;
+    const prune = () => void this.prune().catch(error => logger.error('Failed to prune uploads', error));
+    this.timer = setInterval(prune, 60 * 60 * 1000);
+    this.timer.unref?.();
+    prune();
+  }
+
+  stop(): void {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+  }
+}
+
+let activeUploads: ChunkedUploads | null = null;
+
+/**
+ * The chunked uploads set up when the server starts
+ */
+export function getChunkedUploads(): ChunkedUploads {
+  if (!activeUploads) {
+    throw new AppError('Chunked uploads are not available', 503);
+  }
+  return activeUploads;
+}
+
+/**
+ * Replace the chunked uploads (server startup, tests), stopping the previous
+ * one's pruning
+ */
+export function setChunkedUploads(uploads: ChunkedUploads | null): void {
+  activeUploads?.stop();
+  activeUploads = uploads;
+}
@@ -0,0 +1,83 @@
+import { checkCitations, extractCitations, resolveSurahName } from '../index';
+
+describe('extractCitations', () => {
+  it('finds Quran references in their common forms', () => {
+    const citations = extractCitations(
+      'See Surah Al-Baqarah 2:286, Quran 94:5-6, (Ar-Rahman 55:13) and Surah Al-Kahf, verse 10.'
+    );
+
+    expect(citations.map(c => c.text)).toEqual([
+      'Surah Al-Baqarah 2:286',
+      'Quran 94:5-6',
+      '(Ar-Rahman 55:13)',
+      'Surah Al-Kahf, verse 10',
+    ]);
+    expect(citations[1]).toMatchObject({ kind: 'quran', surah: 94, fromAyah: 5, toAyah: 6 });
+  });
+
+  it('ignores times of day and the word Muslim', () => {
+    expect(extractCitations('Wake at 5:30 (or 6:15) and pray with another Muslim.')).toEqual([]);
+  });
+
+  it('finds hadith references with and without numbers', () => {
+    const citations = extractCitations('(Sahih al-Bukhari 6114), Tirmidhi #2516 and narrated by Muslim.');
+
+    expect(citations).toEqual([
+      expect.objectContaining({ kind: 'hadith', collection: 'bukhari', number: 6114 }),
+      expect.objectContaining({ kind: 'hadith', collection: 'tirmidhi', number: 2516 }),
+      expect.objectContaining({ kind: 'hadith', collection: 'muslim', number: undefined }),
+    ]);
+  });
+
+  it('attaches the quoted wording', () => {
+    const [citation] = extractCitations('"Indeed, with hardship comes ease" (Quran 94:6)');
+    expect(citation.quote).toBe('Indeed, with hardship comes ease');
+  });
+});
+
+describe('checkCitations', () => {
+  it('verifies references that exist and match their quote', () => {
+    const [citation] = checkCitations('"Allah does not burden a soul beyond its capacity" (Surah Al-Baqarah 2:286)');
+
+    expect(citation).toMatchObject({ reference: 'Quran 2:286', status: 'verified' });
+    expect(citation.sourceText).toContain('Allah does not charge a soul');
+  });
+
+  it('flags references that do not exist or contradict themselves', () => {
+    const [tooFar, wrongName, wrongHadith] = checkCitations(
+      'Surah Al-Baqarah 2:300, Surah Al-Imran 2:139 and Tirmidhi 9999.'
+    );
+
+    expect(tooFar).toMatchObject({ status: 'mismatched', reason: 'Surah Al-Baqarah has 286 verses' });
+    expect(wrongName).toMatchObject({ status: 'mismatched', reference: 'Quran 2:139' });
+    expect(wrongHadith).toMatchObject({ status: 'mismatched', reason: 'Jami` at-Tirmidhi has no hadith 9999' });
+  });
+
+  it('flags quotes that belong to a different verse or hadith', () => {
+    const [verse, hadith] = checkCitations(
+      '"Indeed, with hardship comes ease" (Quran 2:255). "The best of you are those who learn the Quran and teach it" (Bukhari 6018).'
+    );
+
+    expect(verse).toMatchObject({ status: 'mismatched', reason: "The quoted words don't match Quran 2:255" });
+    expect(hadith).toMatchObject({ status: 'mismatched', reason: 'This wording is Sahih al-Bukhari 5027' });
+  });
+
+  it('identifies unnumbered hadith by their wording and leaves the rest unknown', () => {
+    const [known, unknown, unindexed] = checkCitations(
+      '"None of you truly believes until he loves for his brother what he loves for himself" (Bukhari). ' +
+      'This was narrated by Muslim. See also Sahih Muslim 2000.'
+    );
+
+    expect(known).toMatchObject({ status: 'verified', reference: 'Sahih al-Bukhari 13' });
+    expect(unknown).toMatchObject({ status: 'unknown', reason: 'No hadith number given for Sahih Muslim' });
+    expect(unindexed).toMatchObject({ status: 'unknown', reference: 'Sahih Muslim 2000' });
+  });
+});
+
+describe('resolveSurahName', () => {
+  it('accepts common spellings and English names', () => {
+    expect(['Al-Baqara', 'Surat al-Baqarah', 'The Cow'].map(resolveSurahName)).toEqual([2, 2, 2]);
+    expect(['Aal-e-Imran', 'Yaseen', 'At-Tawba', 'Al Inshirah'].map(resolveSurahName)).toEqual([3, 36, 9, 94]);
+    expect(resolveSurahName('Meeting at')).toBeUndefined();
+  });
+});
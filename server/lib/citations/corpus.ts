@@ -0,0 +1,168 @@
+/**
+ * Local reference corpora used to check citations offline
+ *
+ * The Quran (Uthmani Arabic text with the Saheeh International English
+ * translation) comes from the quran-json package; override the file with
+ * QURAN_CORPUS_PATH. Hadith are checked against the curated index in
+ * data/hadith-index.json (override with HADITH_INDEX_PATH): every collection
+ * we recognise with its highest hadith number, plus the well-known hadith we
+ * can verify by content.
+ */
+import fs from 'fs';
+import path from 'path';
+
+export const DEFAULT_QURAN_PATH = path.resolve(process.cwd(), 'node_modules/quran-json/dist/quran_en.json');
+export const DEFAULT_HADITH_INDEX_PATH = path.resolve(process.cwd(), 'server/lib/citations/data/hadith-index.json');
+
+export interface Verse {
+  number: number;
+  /** Arabic text */
+  text: string;
+  translation: string;
+}
+
+export interface Surah {
+  number: number;
+  /** Arabic name */
+  name: string;
+  /** e.g. "Al-Baqarah" */
+  transliteration: string;
+  /** English meaning of the name, e.g. "The Cow" */
+  translation: string;
+  verses: Verse[];
+}
+
+export interface HadithCollection {
+  /** Short id, e.g. "bukhari" */
+  id: string;
+  /** Display name, e.g. "Sahih al-Bukhari" */
+  name: string;
+  /** Spellings that refer to the collection, lower case */
+  aliases: string[];
+  /** Aliases that are also ordinary words ("Muslim") and need more context to count */
+  ambiguousAliases?: string[];
+  /** Highest hadith number in any common numbering, or null when numbers can't be range-checked */
+  maxNumber: number | null;
+}
+
+export interface HadithEntry {
+  collection: string;
+  number: number;
+  /** Short English rendering of the hadith */
+  text: string;
+}
+
+export interface HadithIndex {
+  collections: HadithCollection[];
+  hadith: HadithEntry[];
+}
+
+interface QuranJsonChapter {
+  id: number;
+  name: string;
+  transliteration: string;
+  translation: string;
+  verses: Array<{ id: number; text: string; translation: string }>;
+}
+
+let quran: Surah[] | null = null;
+let hadithIndex: HadithIndex | null = null;
+
+/**
+ * Load the Quran corpus, replacing any previously loaded one
+ */
+export function loadQuran(file: string = process.env.QURAN_CORPUS_PATH || DEFAULT_QURAN_PATH): Surah[] {
+  if (!fs.existsSync(file)) {
+    throw new Error(`Quran corpus not found: ${file}`);
+  }
+
+  const chapters = JSON.parse(fs.readFileSync(file, 'utf8')) as QuranJsonChapter[];
+  quran = chapters.map(chapter => ({
+    number: chapter.id,
+    name: chapter.name,
+    transliteration: chapter.transliteration,
+    translation: chapter.translation,
+    verses: chapter.verses.map(verse => ({ number: verse.id, text: verse.text, translation: verse.translation })),
+  }));
+  surahKeys = null;
+  return quran;
+}
+
+export function getQuran(): Surah[] {
+  return quran ?? loadQuran();
+}
+
+export function getSurah(number: number): Surah | undefined {
+  return getQuran()[number - 1];
+}
+
+/**
+ * Load the hadith index, replacing any previously loaded one
+ */
+export function loadHadithIndex(file: string = process.env.HADITH_INDEX_PATH || DEFAULT_HADITH_INDEX_PATH): HadithIndex {
+  if (!fs.existsSync(file)) {
+    throw new Error(`Hadith index not found: ${file}`);
+  }
+
+  hadithIndex = JSON.parse(fs.readFileSync(file, 'utf8')) as HadithIndex;
+  return hadithIndex;
+}
+
+export function getHadithIndex(): HadithIndex {
+  return hadithIndex ?? loadHadithIndex();
+}
+
+// Spellings the normalization below doesn't reconcile with the corpus names
+const SURAH_ALIASES: Record<string, number> = {
+  'imran': 3,
+  'tauba': 9,
+  'bani israil': 17,
+  'anbiya': 21,
+  'mumin': 40,
+  'ha mim sajdah': 41,
+  'inshirah': 94,
+  'lail': 92,
+  'zilzal': 99,
+};
+
+/**
+ * Reduce a surah name to a spelling-insensitive key: "Surat al-Baqara",
+ * "Al Baqarah" and "Baqarah" all become "baqara"
+ */
+export function surahNameKey(name: string): string {
+  return name
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/['’`]/g, '')
+    .replace(/^(?:surah|surat|sura)\s+/, '')
+    .replace(/^the\s+/, '')
+    .replace(/^(?:aal[\s-]e|al[\s-]e|ale|aal|ali|al|an|ar|as|at|ad|adh|az|ash|ath)[\s-]+/, '')
+    .replace(/[^a-z]/g, '')
+    .replace(/ee/g, 'i')
+    .replace(/oo/g, 'u')
+    .replace(/w/g, 'u')
+    .replace(/(.)\1+/g, '$1')
+    .replace(/h$/, '');
+}
+
+let surahKeys: Map<string, number> | null = null;
+
+/**
+ * The number of the surah with this name (transliterated or English), or
+ * undefined when the name isn't recognised
+ */
+export function resolveSurahName(name: string): number | undefined {
+  if (!surahKeys) {
+    const keys = new Map<string, number>();
+    for (const surah of getQuran()) {
+      keys.set(surahNameKey(surah.transliteration), surah.number);
+      keys.set(surahNameKey(surah.translation), surah.number);
+    }
+    for (const [alias, number] of Object.entries(SURAH_ALIASES)) {
+      keys.set(surahNameKey(alias), number);
+    }
+    surahKeys = keys;
+  }
+  return surahKeys.get(surahNameKey(name));
+}
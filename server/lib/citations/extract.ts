@@ -0,0 +1,193 @@
+/**
+ * Finds Quran and hadith references in generated text
+ *
+ * Recognised Quran forms: "Surah Al-Baqarah 2:286", "Surah Al-Baqarah (2:286)",
+ * "Quran 2:285-286", "(Al-Baqarah 2:286)", "(2:286)" and
+ * "Surah Al-Baqarah, verse 286". A bare "2:286" outside those contexts is
+ * ignored, since it is as likely to be a time of day.
+ *
+ * Hadith references are a collection named in the hadith index, optionally
+ * followed by a number: "Sahih al-Bukhari 6018", "(Muslim, 2699)",
+ * "Tirmidhi #2516", "narrated by Bukhari". Collection names that are also
+ * ordinary words ("Muslim") only count when followed by a number or preceded
+ * by "narrated by", "(" or "and".
+ */
+import { getHadithIndex, HadithIndex, resolveSurahName } from './corpus';
+
+interface CitationBase {
+  /** The citation as written */
+  text: string;
+  start: number;
+  end: number;
+  /** Quoted wording attributed to the citation, if any */
+  quote?: string;
+}
+
+export interface QuranCitation extends CitationBase {
+  kind: 'quran';
+  /** Surah name as written, if given */
+  surahName?: string;
+  /** Surah number as written, if given */
+  surah?: number;
+  fromAyah: number;
+  toAyah: number;
+}
+
+export interface HadithCitation extends CitationBase {
+  kind: 'hadith';
+  /** Collection id from the hadith index */
+  collection: string;
+  number?: number;
+}
+
+export type ExtractedCitation = QuranCitation | HadithCitation;
+
+const REFERENCE_PATTERN = /(\d{1,3})\s*:\s*(\d{1,3})(?:\s*[-–]\s*(\d{1,3}))?/g;
+const SURAH_NAME = `([A-Za-z'’][A-Za-z'’\\- ]{0,30}?)`;
+const SURAH_PREFIX = new RegExp(`\\b(?:surah|surat|sura)\\s+${SURAH_NAME}\\s*[,(]?\\s*$`, 'i');
+const QURAN_PREFIX = /\b(?:quran|qur'an|qur’an|koran)\s*[,(]?\s*$/i;
+const PAREN_PREFIX = new RegExp(`\\(\\s*(?:${SURAH_NAME}\\s*,?\\s*)?$`);
+const VERSE_PATTERN = new RegExp(
+  `\\b(?:surah|surat|sura)\\s+${SURAH_NAME}\\s*,?\\s*(?:verses?|ayahs?|ayat|aya)\\s+(\\d{1,3})(?:\\s*(?:[-–]|to|and)\\s*(\\d{1,3}))?`,
+  'gi'
+);
+const QURAN_WORDS = /^(?:the\s+)?(?:holy\s+)?(?:quran|qur'an|qur’an|koran)$/i;
+
+const HADITH_NUMBER = /^\s*,?\s*(?:(?:hadith|no\.?|number|#)\s*)?(\d{1,5})[a-z]?\b/i;
+const AMBIGUOUS_CONTEXT = /(?:\(|\b(?:narrated|reported|recorded|related|collected)\s+by|\band|&)\s*$/i;
+
+const QUOTE_BEFORE = /["“]([^"“”]{8,400})["”]([^"“”.!?]{0,30})$/;
+const QUOTE_AFTER = /^([^"“”\n]{0,30})["“]([^"“”]{8,400})["”]/;
+
+/**
+ * Quoted wording attributed to the citation at [start, end): a quotation
+ * just before it, or failing that just after it
+ */
+function findQuote(text: string, start: number, end: number): string | undefined {
+  const before = text.slice(Math.max(0, start - 450), start).match(QUOTE_BEFORE);
+  if (before) return before[1].trim();
+
+  const after = text.slice(end, end + 450).match(QUOTE_AFTER);
+  return after ? after[2].trim() : undefined;
+}
+
+function overlaps(citations: ExtractedCitation[], start: number, end: number): boolean {
+  return citations.some(c => start < c.end && end > c.start);
+}
+
+function extractQuranCitations(text: string): QuranCitation[] {
+  const found: QuranCitation[] = [];
+
+  for (const match of Array.from(text.matchAll(VERSE_PATTERN))) {
+    const start = match.index ?? 0;
+    const end = start + match[0].length;
+    const fromAyah = Number(match[2]);
+    found.push({
+      kind: 'quran',
+      text: match[0],
+      start,
+      end,
+      surahName: match[1].trim(),
+      fromAyah,
+      toAyah: match[3] ? Number(match[3]) : fromAyah,
+    });
+  }
+
+  for (const match of Array.from(text.matchAll(REFERENCE_PATTERN))) {
+    const refStart = match.index ?? 0;
+    let end = refStart + match[0].length;
+    const before = text.slice(Math.max(0, refStart - 50), refStart);
+
+    let surahName: string | undefined;
+    let context: RegExpMatchArray | null;
+
+    if ((context = before.match(SURAH_PREFIX))) {
+      surahName = context[1].trim();
+    } else if ((context = before.match(QURAN_PREFIX))) {
+      // "Quran 2:286" names no surah
+    } else if ((context = before.match(PAREN_PREFIX))) {
+      surahName = context[1]?.trim();
+      // "(meet at 5:30)": only a recognised surah name makes a parenthesised reference a citation
+      if (surahName && !QURAN_WORDS.test(surahName) && !resolveSurahName(surahName)) continue;
+      if (text[end] === ')') end++;
+    } else {
+      continue;
+    }
+    const start = refStart - context[0].length;
+    if (surahName && QURAN_WORDS.test(surahName)) surahName = undefined;
+    if (overlaps(found, start, end)) continue;
+
+    const fromAyah = Number(match[2]);
+    found.push({
+      kind: 'quran',
+      text: text.slice(start, end).trim(),
+      start,
+      end,
+      surahName,
+      surah: Number(match[1]),
+      fromAyah,
+      toAyah: match[3] ? Number(match[3]) : fromAyah,
+    });
+  }
+
+  return found;
+}
+
+function escapeAlias(alias: string): string {
+  return alias
+    .split(/[\s-]+/)
+    .map(part => part.replace(/[.*+?^${}()|[\]\\]/g, '\\$&').replace(/['’]/g, "['’]?"))
+    .join('[\\s-]*');
+}
+
+function extractHadithCitations(text: string, index: HadithIndex): HadithCitation[] {
+  const aliases = index.collections
+    .flatMap(collection => [
+      ...collection.aliases.map(alias => ({ alias, collection, ambiguous: false })),
+      ...(collection.ambiguousAliases ?? []).map(alias => ({ alias, collection, ambiguous: true })),
+    ])
+    .sort((a, b) => b.alias.length - a.alias.length);
+  const pattern = new RegExp(`\\b(?:${aliases.map(a => `(${escapeAlias(a.alias)})`).join('|')})\\b`, 'gi');
+  const found: HadithCitation[] = [];
+
+  for (const match of Array.from(text.matchAll(pattern))) {
+    const { collection, ambiguous } = aliases[match.slice(1).findIndex(group => group !== undefined)];
+    const start = match.index ?? 0;
+    let end = start + match[0].length;
+
+    const number = text.slice(end, end + 20).match(HADITH_NUMBER);
+    if (number) {
+      end += number[0].length;
+    } else if (ambiguous && !AMBIGUOUS_CONTEXT.test(text.slice(Math.max(0, start - 20), start))) {
+      continue;
+    }
+
+    found.push({
+      kind: 'hadith',
+      text: text.slice(start, end),
+      start,
+      end,
+      collection: collection.id,
+      number: number ? Number(number[1]) : undefined,
+    });
+  }
+
+  return found;
+}
+
+/**
+ * All Quran and hadith citations in the text, in order of appearance
+ */
+export function extractCitations(text: string, index: HadithIndex = getHadithIndex()): ExtractedCitation[] {
+  const citations: ExtractedCitation[] = [...extractQuranCitations(text)];
+  for (const citation of extractHadithCitations(text, index)) {
+    if (!overlaps(citations, citation.start, citation.end)) citations.push(citation);
+  }
+
+  return citations
+    .sort((a, b) => a.start - b.start)
+    .map(citation => {
+      const quote = findQuote(text, citation.start, citation.end);
+      return quote ? { ...citation, quote } : citation;
+    });
+}
@@ -0,0 +1,41 @@
+/**
+ * Quran and hadith citation checking
+ *
+ * Generated replies and insights often cite ayat and hadith. checkCitations()
+ * finds those references and checks each one offline against the bundled
+ * corpora (see ./corpus), marking it verified, mismatched or unknown so the
+ * UI can flag anything the user shouldn't take on trust.
+ */
+import type { CitationCheck } from '@shared/schema';
+import { createLogger } from '../logger';
+import { extractCitations } from './extract';
+import { verifyCitation } from './verify';
+
+export { extractCitations } from './extract';
+export type { ExtractedCitation, HadithCitation, QuranCitation } from './extract';
+export { verifyCitation, quoteSimilarity } from './verify';
+export { loadQuran, loadHadithIndex, resolveSurahName } from './corpus';
+
+const logger = createLogger('citations');
+
+/**
+ * Find and check every citation in the text. Checking is best effort: if a
+ * corpus can't be loaded, no citations are reported.
+ */
+export function checkCitations(text: string): CitationCheck[] {
+  if (!text) return [];
+
+  try {
+    return extractCitations(text).map(citation => verifyCitation(citation));
+  } catch (error) {
+    logger.warn('Citation check failed', error);
+    return [];
+  }
+}
+
+/**
+ * Whether any citation couldn't be verified
+ */
+export function hasUnverifiedCitations(citations: CitationCheck[] | undefined): boolean {
+  return !!citations?.some(citation => citation.status !== 'verified');
+}
@@ -0,0 +1,147 @@
+/**
+ * Checks extracted citations against the bundled Quran and hadith corpora
+ */
+import type { CitationCheck } from '@shared/schema';
+import { getHadithIndex, getSurah, HadithEntry, HadithIndex, resolveSurahName } from './corpus';
+import { ExtractedCitation, HadithCitation, QuranCitation } from './extract';
+
+// Share of the quoted words that must appear in the source for a match, and
+// below which the quote is taken to be about something else. Quotes in
+// between usually come from a different translation and can't be decided.
+const MATCH_THRESHOLD = 0.5;
+const MISMATCH_THRESHOLD = 0.2;
+
+const STOP_WORDS = new Set([
+  'the', 'and', 'for', 'that', 'with', 'this', 'from', 'his', 'her', 'who', 'whom', 'what', 'are', 'was',
+  'were', 'will', 'you', 'your', 'him', 'them', 'they', 'has', 'have', 'had', 'but', 'all', 'any', 'its',
+  'our', 'upon', 'unto', 'those', 'which', 'when', 'then', 'than', 'there', 'their', 'into', 'shall', 'been',
+  'one', 'not', 'does', 'did', 'thee', 'thou', 'thy', 'ye', 'indeed', 'verily', 'say', 'said', 'says',
+]);
+
+const ARABIC = /[\u0600-\u06FF]/;
+
+function englishWords(text: string): Set<string> {
+  return new Set(
+    text
+      .toLowerCase()
+      .replace(/[^a-z\s]/g, ' ')
+      .split(/\s+/)
+      .filter(word => word.length > 2 && !STOP_WORDS.has(word))
+      .map(word => word.replace(/(?:es|s)$/, ''))
+  );
+}
+
+function arabicWords(text: string): Set<string> {
+  return new Set(
+    text
+      // Diacritics, Quranic annotation marks and tatweel
+      .replace(/[\u0610-\u061A\u064B-\u065F\u0670\u06D6-\u06ED\u0640]/g, '')
+      .replace(/[\u0622\u0623\u0625\u0671]/g, '\u0627')
+      .replace(/[^\u0600-\u06FF\s]/g, ' ')
+      .split(/\s+/)
+      .filter(word => word.length > 1)
+  );
+}
+
+/**
+ * Share of the quote's words found in the source, or null when the quote
+ * has no words to compare
+ */
+export function quoteSimilarity(quote: string, source: { text?: string; translation: string }): number | null {
+  const arabic = ARABIC.test(quote) && source.text !== undefined;
+  const quoteWords = arabic ? arabicWords(quote) : englishWords(quote);
+  const sourceWords = arabic ? arabicWords(source.text!) : englishWords(source.translation);
+  if (quoteWords.size === 0) return null;
+
+  let found = 0;
+  quoteWords.forEach(word => {
+    if (sourceWords.has(word)) found++;
+  });
+  return found / quoteWords.size;
+}
+
+function checkQuote(
+  result: CitationCheck,
+  quote: string | undefined,
+  source: { text?: string; translation: string }
+): CitationCheck {
+  const similarity = quote ? quoteSimilarity(quote, source) : null;
+  if (similarity === null || similarity >= MATCH_THRESHOLD) return result;
+
+  return similarity < MISMATCH_THRESHOLD
+    ? { ...result, status: 'mismatched', reason: `The quoted words don't match ${result.reference}` }
+    : { ...result, status: 'unknown', reason: `The quoted wording differs from the bundled translation of ${result.reference}` };
+}
+
+function verifyQuranCitation(citation: QuranCitation): CitationCheck {
+  const named = citation.surahName ? resolveSurahName(citation.surahName) : undefined;
+  const number = citation.surah ?? named;
+  const ayahs = citation.toAyah !== citation.fromAyah ? `${citation.fromAyah}-${citation.toAyah}` : `${citation.fromAyah}`;
+  const base = { kind: 'quran' as const, text: citation.text };
+
+  if (number === undefined) {
+    return { ...base, reference: `Surah ${citation.surahName}, verse ${ayahs}`, status: 'unknown', reason: `Unrecognised surah name "${citation.surahName}"` };
+  }
+
+  const reference = `Quran ${number}:${ayahs}`;
+  const surah = getSurah(number);
+  if (!surah) {
+    return { ...base, reference, status: 'mismatched', reason: `The Quran has no surah ${number}` };
+  }
+  if (named !== undefined && named !== number) {
+    return { ...base, reference, status: 'mismatched', reason: `${citation.surahName} is surah ${named}, not surah ${number} (${surah.transliteration})` };
+  }
+  if (citation.fromAyah < 1 || citation.toAyah < citation.fromAyah || citation.toAyah > surah.verses.length) {
+    return { ...base, reference, status: 'mismatched', reason: `Surah ${surah.transliteration} has ${surah.verses.length} verses` };
+  }
+
+  const verses = surah.verses.slice(citation.fromAyah - 1, citation.toAyah);
+  const source = {
+    text: verses.map(verse => verse.text).join(' '),
+    translation: verses.map(verse => verse.translation).join(' '),
+  };
+  return checkQuote({ ...base, reference, status: 'verified', sourceText: source.translation }, citation.quote, source);
+}
+
+function verifyHadithCitation(citation: HadithCitation, index: HadithIndex): CitationCheck {
+  const collection = index.collections.find(c => c.id === citation.collection)!;
+  const entries = index.hadith.filter(entry => entry.collection === collection.id);
+  const base = { kind: 'hadith' as const, text: citation.text };
+  const reference = citation.number !== undefined ? `${collection.name} ${citation.number}` : collection.name;
+
+  const entry = entries.find(e => e.number === citation.number);
+
+  // Which indexed hadith of the collection the quote belongs to, if any,
+  // preferring the cited one
+  const matchesQuote = (e: HadithEntry) =>
+    (quoteSimilarity(citation.quote!, { translation: e.text }) ?? 0) >= MATCH_THRESHOLD;
+  const quoted = citation.quote
+    ? (entry && matchesQuote(entry) ? entry : entries.find(matchesQuote))
+    : undefined;
+
+  if (citation.number === undefined) {
+    return quoted
+      ? { ...base, reference: `${collection.name} ${quoted.number}`, status: 'verified', sourceText: quoted.text }
+      : { ...base, reference, status: 'unknown', reason: `No hadith number given for ${collection.name}` };
+  }
+
+  if (collection.maxNumber !== null && (citation.number < 1 || citation.number > collection.maxNumber)) {
+    return { ...base, reference, status: 'mismatched', reason: `${collection.name} has no hadith ${citation.number}` };
+  }
+
+  if (quoted && quoted !== entry) {
+    return { ...base, reference, status: 'mismatched', reason: `This wording is ${collection.name} ${quoted.number}`, sourceText: quoted.text };
+  }
+  if (!entry) {
+    return { ...base, reference, status: 'unknown', reason: `${reference} isn't in the bundled hadith index` };
+  }
+
+  return checkQuote({ ...base, reference, status: 'verified', sourceText: entry.text }, citation.quote, { translation: entry.text });
+}
+
+/**
+ * Check one extracted citation against the corpus
+ */
+export function verifyCitation(citation: ExtractedCitation, index: HadithIndex = getHadithIndex()): CitationCheck {
+  return citation.kind === 'quran' ? verifyQuranCitation(citation) : verifyHadithCitation(citation, index);
+}
@@ -0,0 +1,163 @@
+/**
+ * Titles, synopses and topic tags for reflection conversations
+ *
+ * A conversation is labeled after its first exchange, and labeled again each
+ * time its selected branch has grown by CONVERSATION_LABEL_REFRESH_MESSAGES
+ * messages. The title and synopsis are generated; the tags are the topics
+ * the user mentions on the branch (see shared/topics.ts). Fields the user has edited
+ * are kept as they are until they ask for new labels.
+ *
+ * If generation fails, a conversation without a title gets one from the
+ * opening words of its reflection, and is tried again as it grows.
+ */
+import type { Conversation, ConversationLabelField, ConversationLabels, Message } from '@shared/schema';
+import { branchTo, withMessageIds } from '@shared/message-tree';
+import { extractTopics, normalizeTag } from '@shared/topics';
+import type { IStorage } from '../storage';
+import { generateConversationTitle } from './anthropic';
+import { formatContextMessages } from './conversation-summary';
+import { LLMCallRejectedError } from './llm';
+import { tracePrompts } from './prompts';
+import { createLogger } from './logger';
+
+const logger = createLogger('conversation-labels');
+
+export const MAX_TAGS = 5;
+const FALLBACK_TITLE_WORDS = 8;
+// The reflection and the latest messages are enough to name a conversation
+const MAX_TITLE_MESSAGES = 12;
+
+function envNumber(name: string, fallback: number): number {
+  const value = Number(process.env[name]);
+  return Number.isFinite(value) && value > 0 ? value : fallback;
+}
+
+let refreshMessages = envNumber('CONVERSATION_LABEL_REFRESH_MESSAGES', 6);
+
+/**
+ * Override how many new messages trigger relabeling (tests); pass nothing to
+ * reload from env
+ */
+export function configureLabeling(messages?: number): void {
+  refreshMessages = messages ?? envNumber('CONVERSATION_LABEL_REFRESH_MESSAGES', 6);
+}
+
+type LabelStore = Pick<IStorage, 'getConversation' | 'updateConversationLabels'>;
+
+type LabeledConversation = Pick<Conversation, 'messages' | 'activeMessageId' | 'title' | 'synopsis' | 'tags' | 'labeling'>;
+
+export type LabelEdits = Partial<{ title: string; synopsis: string | null; tags: string[] }>;
+
+function selectedBranch(conversation: Pick<Conversation, 'messages' | 'activeMessageId'>): Message[] {
+  return branchTo(withMessageIds(conversation.messages), conversation.activeMessageId);
+}
+
+/**
+ * The opening words of the reflection, for when no title could be generated
+ */
+export function fallbackTitle(messages: Message[]): string | null {
+  const words = messages.find(message => message.role === 'user')?.content.trim().split(/\s+/).filter(Boolean) ?? [];
+  if (words.length === 0) return null;
+  return words.length > FALLBACK_TITLE_WORDS ? `${words.slice(0, FALLBACK_TITLE_WORDS).join(' ')}…` : words.join(' ');
+}
+
+/**
+ * The topics of the user's messages, most mentioned first. Replies are left
+ * out so the tags follow what the user wrote about.
+ */
+function topicsOf(messages: Message[]): string[] {
+  const written = messages.filter(message => message.role === 'user').map(message => message.content);
+  return extractTopics(written.join('\n')).slice(0, MAX_TAGS);
+}
+
+/**
+ * Whether the conversation has had its first exchange and either has no
+ * labels yet or has grown enough since they were made
+ */
+export function needsLabels(conversation: Pick<Conversation, 'messages' | 'activeMessageId' | 'labeling'>): boolean {
+  const length = selectedBranch(conversation).length;
+  if (length < 2) return false;
+  return !conversation.labeling || length - conversation.labeling.messageCount >= refreshMessages;
+}
+
+/**
+ * Generate and store labels for the conversation's selected branch. With
+ * `regenerate`, fields the user edited are generated again too.
+ */
+export async function labelConversation(
+  conversationId: number,
+  conversation: LabeledConversation,
+  storage: LabelStore,
+  options: { regenerate?: boolean } = {}
+): Promise<Conversation> {
+  const branch = selectedBranch(conversation);
+  const edited: ConversationLabelField[] = options.regenerate ? [] : conversation.labeling?.edited ?? [];
+  const keeps = (field: ConversationLabelField) => edited.includes(field);
+
+  const lines = formatContextMessages(branch);
+  const excerpt = lines.length > MAX_TITLE_MESSAGES ? [lines[0], ...lines.slice(1 - MAX_TITLE_MESSAGES)] : lines;
+
+  let generated: { title: string; summary: string } | null = null;
+  let prompts;
+  try {
+    ({ result: generated, prompts } = await tracePrompts(() => generateConversationTitle(excerpt)));
+  } catch (error) {
+    if (options.regenerate && error instanceof LLMCallRejectedError) throw error;
+    logger.warn(`Failed to title conversation ${conversationId}, keeping its current labels`, error);
+  }
+
+  const title = keeps('title') ? conversation.title : generated?.title ?? conversation.title ?? fallbackTitle(branch);
+  const labels: ConversationLabels = {
+    title,
+    synopsis: keeps('synopsis') ? conversation.synopsis : generated?.summary ?? conversation.synopsis,
+    tags: keeps('tags') ? conversation.tags ?? [] : topicsOf(branch),
+    labeling: {
+      messageCount: branch.length,
+      edited,
+      ...(!generated && !keeps('title') && !conversation.title && { fallback: true }),
+      updatedAt: new Date().toISOString(),
+      ...(prompts && { prompts }),
+    },
+  };
+  return storage.updateConversationLabels(conversationId, labels);
+}
+
+/**
+ * Label the conversation if it's due (see needsLabels). Never throws: labels
+ * are a convenience and must not fail the reply that triggered them.
+ */
+export async function refreshConversationLabels(conversationId: number, storage: LabelStore): Promise<void> {
+  try {
+    const conversation = await storage.getConversation(conversationId);
+    if (conversation && needsLabels(conversation)) {
+      await labelConversation(conversationId, conversation, storage);
+    }
+  } catch (error) {
+    logger.warn(`Failed to refresh labels of conversation ${conversationId}`, error);
+  }
+}
+
+/**
+ * The conversation's labels with the user's edits applied. Edited fields are
+ * kept when the labels are next refreshed.
+ */
+export function editLabels(conversation: LabeledConversation, edits: LabelEdits): ConversationLabels {
+  const edited = new Set<ConversationLabelField>(conversation.labeling?.edited ?? []);
+  (Object.keys(edits) as ConversationLabelField[]).forEach(field => edited.add(field));
+
+  const tags = edits.tags
+    ? Array.from(new Set(edits.tags.map(normalizeTag).filter(Boolean)))
+    : conversation.tags ?? [];
+
+  return {
+    title: edits.title !== undefined ? edits.title.trim() : conversation.title,
+    synopsis: edits.synopsis !== undefined ? edits.synopsis?.trim() || null : conversation.synopsis,
+    tags,
+    labeling: {
+      messageCount: conversation.labeling?.messageCount ?? selectedBranch(conversation).length,
+      ...conversation.labeling,
+      edited: Array.from(edited),
+      updatedAt: new Date().toISOString(),
+    },
+  };
+}
@@ -0,0 +1,172 @@
+/**
+ * Rolling summarization of long reflection conversations
+ *
+ * Follow-up generation sends the conversation so far with every turn. Once
+ * the history passes CONVERSATION_SUMMARY_THRESHOLD_TOKENS (estimated),
+ * everything except the last CONVERSATION_SUMMARY_KEEP_MESSAGES messages is
+ * condensed into a running summary stored on the conversation and sent in
+ * their place. As more messages age out the summary is extended rather than
+ * rebuilt; regenerateConversationSummary() rebuilds it from scratch. The
+ * messages themselves are never modified, so the UI still shows all of them.
+ *
+ * Both work on the conversation's selected branch (see shared/message-tree.ts);
+ * a summary of another branch is discarded and rebuilt.
+ */
+import type { Conversation, ConversationSummary, Message } from '@shared/schema';
+import type { IStorage } from '../storage';
+import { generateConversationSummary } from './anthropic';
+import { estimateTokens, LLMCallRejectedError } from './llm';
+import { tracePrompts } from './prompts';
+import { createLogger } from './logger';
+
+const logger = createLogger('conversation-summary');
+
+export interface SummarizationConfig {
+  /** Estimated history size above which older messages are summarized */
+  thresholdTokens: number;
+  /** How many of the latest messages are always sent verbatim */
+  keepMessages: number;
+}
+
+function envNumber(name: string, fallback: number): number {
+  const value = Number(process.env[name]);
+  return Number.isFinite(value) && value >= 0 ? value : fallback;
+}
+
+export function loadSummarizationConfig(): SummarizationConfig {
+  return {
+    thresholdTokens: envNumber('CONVERSATION_SUMMARY_THRESHOLD_TOKENS', 3000),
+    keepMessages: envNumber('CONVERSATION_SUMMARY_KEEP_MESSAGES', 6),
+  };
+}
+
+let config: SummarizationConfig = loadSummarizationConfig();
+
+export function getSummarizationConfig(): SummarizationConfig {
+  return config;
+}
+
+/**
+ * Override parts of the configuration (tests); pass nothing to reload from env
+ */
+export function configureSummarization(overrides?: Partial<SummarizationConfig>): void {
+  config = { ...loadSummarizationConfig(), ...overrides };
+}
+
+type SummaryStore = Pick<IStorage, 'updateConversationSummary'>;
+
+/**
+ * Format stored messages as the "role: content" lines the follow-up prompt expects
+ */
+export function formatContextMessages(messages: Message[]): string[] {
+  return messages
+    .map((msg: Message) => `${msg.role}: ${msg.content}`)
+    .filter((msg: string) => !msg.includes('{"understanding":')); // Filter out the response objects
+}
+
+/**
+ * Estimated tokens needed to send the messages in full
+ */
+export function estimateHistoryTokens(messages: Message[]): number {
+  return estimateTokens(formatContextMessages(messages).join('\n'));
+}
+
+export interface ConversationContext {
+  /** History to send with the next turn, led by the summary when there is one */
+  previousMessages: string[];
+  /** The summary in use, or null while the conversation is sent in full */
+  summary: ConversationSummary | null;
+}
+
+/**
+ * Summarize messages[from, to), folding in the summary of the messages before `from`
+ */
+async function summarizeMessages(
+  messages: Message[],
+  from: number,
+  to: number,
+  previous: ConversationSummary | null
+): Promise<ConversationSummary | null> {
+  const lines = formatContextMessages(messages.slice(from, to));
+
+  // Nothing new worth summarizing (e.g. only assistant replies aged out)
+  if (lines.length === 0) {
+    return previous ? { ...previous, messageCount: to, lastMessageId: messages[to - 1]?.id } : null;
+  }
+
+  const { result: text, prompts } = await tracePrompts(() => generateConversationSummary(lines, previous?.text));
+  return { text, messageCount: to, lastMessageId: messages[to - 1]?.id, updatedAt: new Date().toISOString(), prompts };
+}
+
+function withSummary(messages: Message[], summary: ConversationSummary): string[] {
+  return [
+    `Summary of earlier conversation:\n${summary.text}`,
+    ...formatContextMessages(messages.slice(summary.messageCount)),
+  ];
+}
+
+/**
+ * Whether the summary covers these messages, rather than a different branch
+ * of the conversation. Summaries from before branching are taken as covering
+ * them.
+ */
+function summarizesBranch(summary: ConversationSummary, messages: Message[]): boolean {
+  return !summary.lastMessageId || messages[summary.messageCount - 1]?.id === summary.lastMessageId;
+}
+
+/**
+ * Build the history to send with the next turn, summarizing (and storing the
+ * summary of) older messages first if the conversation has grown too long.
+ * If summarization fails the last stored summary, or failing that the full
+ * history, is used instead.
+ */
+export async function prepareConversationContext(
+  conversationId: number,
+  conversation: Pick<Conversation, 'messages' | 'summary'>,
+  storage: SummaryStore
+): Promise<ConversationContext> {
+  const { messages } = conversation;
+  let summary = conversation.summary && summarizesBranch(conversation.summary, messages) ? conversation.summary : null;
+  const split = Math.max(messages.length - config.keepMessages, 0);
+
+  if (!summary && (split === 0 || estimateHistoryTokens(messages) <= config.thresholdTokens)) {
+    return { previousMessages: formatContextMessages(messages), summary: null };
+  }
+
+  if (!summary || summary.messageCount < split) {
+    try {
+      const updated = await summarizeMessages(messages, summary?.messageCount ?? 0, split, summary);
+      if (updated) {
+        await storage.updateConversationSummary(conversationId, updated);
+        summary = updated;
+      }
+    } catch (error) {
+      if (error instanceof LLMCallRejectedError) throw error;
+      logger.warn(
+        `Failed to summarize conversation ${conversationId}, sending ${summary ? 'the previous summary' : 'the full history'}`,
+        error
+      );
+    }
+  }
+
+  return summary
+    ? { previousMessages: withSummary(messages, summary), summary }
+    : { previousMessages: formatContextMessages(messages), summary: null };
+}
+
+/**
+ * Rebuild a conversation's summary from all but its latest messages,
+ * discarding the stored one. Clears the summary when there is nothing old
+ * enough to summarize.
+ */
+export async function regenerateConversationSummary(
+  conversationId: number,
+  conversation: Pick<Conversation, 'messages'>,
+  storage: SummaryStore
+): Promise<ConversationSummary | null> {
+  const split = Math.max(conversation.messages.length - config.keepMessages, 0);
+  const summary = split > 0 ? await summarizeMessages(conversation.messages, 0, split, null) : null;
+
+  await storage.updateConversationSummary(conversationId, summary);
+  return summary;
+}
@@ -0,0 +1,86 @@
+import { assertTarget, compareReports, diffSnapshots, EvalFixture, runEvals, TargetResult } from '../index';
+
+const fixture: EvalFixture = {
+  id: 'example',
+  kind: 'reflection',
+  input: { content: 'I missed fajr again.' },
+  expect: { mustMention: ['fajr'], mustNotContain: ['lazy'] },
+};
+
+function target(overrides: Partial<TargetResult>): TargetResult {
+  return { target: 'generateInsights', output: ['Your reflection on fajr shows care.'], calls: [], prompts: [], ...overrides };
+}
+
+function failures(results: ReturnType<typeof assertTarget>) {
+  return results.filter(r => !r.passed).map(r => `${r.severity}:${r.name}`);
+}
+
+describe('assertTarget', () => {
+  it('passes well-formed output', () => {
+    expect(failures(assertTarget(fixture, target({})))).toEqual([]);
+  });
+
+  it('checks the follow-up question count', () => {
+    const output = { understanding: 'About fajr.', questions: ['One?', 'Two?'] };
+    expect(failures(assertTarget(fixture, target({ target: 'generateFollowUpQuestions', output }))))
+      .toEqual(['error:question-count']);
+  });
+
+  it('flags empty items, mismatched citations, tone and expectations', () => {
+    const output = [
+      'As an AI, I think you are lazy about fajr.',
+      'Remember Surah Al-Baqarah 2:300.',
+      '  ',
+    ];
+    expect(failures(assertTarget(fixture, target({ output })))).toEqual([
+      'error:non-empty-items',
+      'error:citations',
+      'error:no-ai-disclaimer',
+      'error:must-not-contain',
+    ]);
+  });
+
+  it('checks raw JSON replies and reports generator errors and stale recordings', () => {
+    const calls = [{ feature: 'halaqa.insights', requestHash: 'h', text: 'Here are your insights!', source: 'stale-recording' as const }];
+    expect(failures(assertTarget(fixture, target({ target: 'generateHalaqaInsights', calls }))))
+      .toEqual(['error:json-valid', 'warning:recording-current']);
+    expect(failures(assertTarget(fixture, target({ output: undefined, error: 'Invalid output' }))))
+      .toEqual(['error:generated']);
+  });
+});
+
+describe('diffSnapshots', () => {
+  it('lists changed leaves by path', () => {
+    expect(diffSnapshots(
+      { generateInsights: ['a', 'b'], generateActionItems: ['x'] },
+      { generateInsights: ['a', 'c', 'd'], generateActionItems: ['x'] }
+    )).toEqual([
+      { path: 'generateInsights.1', before: 'b', after: 'c' },
+      { path: 'generateInsights.2', after: 'd' },
+    ]);
+  });
+});
+
+describe('runEvals', () => {
+  it('replays the golden fixtures without failures or snapshot changes', async () => {
+    const report = await runEvals();
+
+    expect(report.mode).toBe('replay');
+    expect(report.summary).toMatchObject({ failed: 0, snapshotsChanged: 0, staleRecordings: 0 });
+    expect(report.cases.map(c => c.kind).sort()).toEqual(['halaqa', 'halaqa', 'reflection', 'reflection']);
+    expect(report.prompts).toContainEqual({ name: 'reflection.follow-up', version: 1 });
+  });
+
+  it('compares a run with a baseline report', async () => {
+    const current = await runEvals({ filter: 'missed-fajr' });
+    const baseline = JSON.parse(JSON.stringify(current));
+    baseline.prompts = baseline.prompts.map((p: any) => p.name === 'reflection.insights' ? { ...p, version: 0 } : p);
+    baseline.cases[0].outputs.generateInsights[0] = 'An older insight.';
+    baseline.cases[0].passed = false;
+
+    const comparison = compareReports(baseline, current);
+    expect(comparison.promptChanges).toEqual([{ name: 'reflection.insights', before: 0, after: 1 }]);
+    expect(comparison.newlyPassing).toEqual(['reflection-missed-fajr']);
+    expect(comparison.outputChanges[0].changes[0]).toMatchObject({ path: 'generateInsights.0', before: 'An older insight.' });
+  });
+});
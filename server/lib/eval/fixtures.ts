@@ -0,0 +1,93 @@
+/**
+ * Golden fixtures for the generator evals
+ *
+ * Each fixture is a JSON file in the fixtures directory named <id>.json:
+ *   {
+ *     "description": "Struggling with fajr after a busy week",
+ *     "kind": "reflection",
+ *     "input": { "content": "..." },
+ *     "personalization": { ... },        // optional PersonalizationContext
+ *     "expect": { "questionCount": 3, "mustMention": ["fajr"], "mustNotContain": ["..."] }
+ *   }
+ * Halaqa fixtures use "kind": "halaqa" with input { title, topic, keyReflection, impact }.
+ */
+import fs from 'fs';
+import path from 'path';
+import type { PersonalizationContext } from '../anthropic';
+
+export const DEFAULT_EVAL_DIR = path.resolve(process.cwd(), 'server/lib/eval');
+
+export interface ReflectionInput {
+  content: string;
+}
+
+export interface HalaqaInput {
+  title: string;
+  topic: string;
+  keyReflection: string;
+  impact: string;
+}
+
+export interface FixtureExpectations {
+  /** Follow-up questions expected (default 3) */
+  questionCount?: number;
+  /** Words the output should mention somewhere, case-insensitive; reported as warnings */
+  mustMention?: string[];
+  /** Phrases the output must not contain, case-insensitive */
+  mustNotContain?: string[];
+}
+
+interface FixtureBase {
+  /** File name without .json */
+  id: string;
+  description?: string;
+  personalization?: PersonalizationContext;
+  expect?: FixtureExpectations;
+}
+
+export interface ReflectionFixture extends FixtureBase {
+  kind: 'reflection';
+  input: ReflectionInput;
+}
+
+export interface HalaqaFixture extends FixtureBase {
+  kind: 'halaqa';
+  input: HalaqaInput;
+}
+
+export type EvalFixture = ReflectionFixture | HalaqaFixture;
+
+function validateFixture(id: string, raw: any): EvalFixture {
+  if (raw?.kind === 'reflection') {
+    if (typeof raw.input?.content !== 'string' || !raw.input.content.trim()) {
+      throw new Error(`Eval fixture "${id}": reflection input needs a non-empty "content"`);
+    }
+  } else if (raw?.kind === 'halaqa') {
+    for (const field of ['title', 'topic', 'keyReflection', 'impact']) {
+      if (typeof raw.input?.[field] !== 'string') {
+        throw new Error(`Eval fixture "${id}": halaqa input needs a "${field}" string`);
+      }
+    }
+  } else {
+    throw new Error(`Eval fixture "${id}": "kind" must be "reflection" or "halaqa"`);
+  }
+
+  return { ...raw, id };
+}
+
+/**
+ * Load every fixture in the directory, sorted by id. Pass a filter to load
+ * only fixtures whose id contains it.
+ */
+export function loadFixtures(dir: string, filter?: string): EvalFixture[] {
+  if (!fs.existsSync(dir)) {
+    throw new Error(`Eval fixtures directory not found: ${dir}`);
+  }
+
+  return fs.readdirSync(dir)
+    .filter(file => file.endsWith('.json'))
+    .map(file => path.basename(file, '.json'))
+    .filter(id => !filter || id.includes(filter))
+    .sort()
+    .map(id => validateFixture(id, JSON.parse(fs.readFileSync(path.join(dir, `${id}.json`), 'utf8'))));
+}
@@ -0,0 +1,20 @@
+/**
+ * Offline evaluation of the generators in server/lib/anthropic.ts
+ *
+ * Golden fixtures (./fixtures) are run through generateFollowUpQuestions,
+ * generateInsights, generateActionItems, generateHalaqaInsights and
+ * generateHalaqaActions against replies recorded from a real provider
+ * (./recordings), then checked with structural assertions (./assertions)
+ * and diffed against the last accepted outputs (./snapshots). Run it with
+ * `npm run eval`; see server/scripts/run-evals.ts for the options.
+ */
+export { runEvals } from './runner';
+export type { EvalOptions } from './runner';
+export { loadFixtures, DEFAULT_EVAL_DIR } from './fixtures';
+export type { EvalFixture, FixtureExpectations, HalaqaFixture, ReflectionFixture } from './fixtures';
+export { assertTarget, outputStrings, TONE_RULES } from './assertions';
+export type { AssertionResult, Severity, TargetResult } from './assertions';
+export { diffSnapshots, loadSnapshot, saveSnapshot } from './snapshots';
+export type { Snapshot, SnapshotChange } from './snapshots';
+export { compareReports, formatReport, summarize } from './report';
+export type { EvalCaseReport, EvalReport, ReportComparison, SnapshotStatus } from './report';
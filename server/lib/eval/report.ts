@@ -0,0 +1,164 @@
+/**
+ * Eval reports: a JSON record of a run, a Markdown rendering of it, and a
+ * comparison against the report of an earlier run (e.g. from main) so a
+ * prompt change can be reviewed by what it did to the outputs
+ */
+import type { PromptRef } from '@shared/schema';
+import type { RecordedCallSource } from '../llm';
+import type { AssertionResult } from './assertions';
+import type { EvalFixture } from './fixtures';
+import { diffSnapshots, Snapshot, SnapshotChange } from './snapshots';
+
+/**
+ * unchanged: output matches the stored snapshot; changed: it doesn't;
+ * new: there was no snapshot and one was written; updated: a changed
+ * snapshot was overwritten (--update-snapshots)
+ */
+export type SnapshotStatus = 'unchanged' | 'changed' | 'new' | 'updated';
+
+export interface EvalCaseReport {
+  fixture: string;
+  kind: EvalFixture['kind'];
+  description?: string;
+  /** No error-level assertion failed and the snapshot wasn't left changed */
+  passed: boolean;
+  assertions: AssertionResult[];
+  snapshot: { status: SnapshotStatus; changes: SnapshotChange[] };
+  outputs: Snapshot;
+  prompts: PromptRef[];
+  calls: Array<{ feature: string; requestHash: string; source: RecordedCallSource }>;
+}
+
+export interface EvalReport {
+  createdAt: string;
+  /** replay: recorded replies only; record: missing replies fetched from a real provider */
+  mode: 'replay' | 'record';
+  /** Every prompt template version used in the run */
+  prompts: PromptRef[];
+  cases: EvalCaseReport[];
+  summary: {
+    fixtures: number;
+    passed: number;
+    failed: number;
+    failedAssertions: number;
+    warnings: number;
+    snapshotsChanged: number;
+    staleRecordings: number;
+  };
+}
+
+export interface ReportComparison {
+  /** Templates whose version differs, with the version used in each run */
+  promptChanges: Array<{ name: string; before?: number; after?: number }>;
+  newlyFailing: string[];
+  newlyPassing: string[];
+  /** Fixtures whose outputs differ between the runs */
+  outputChanges: Array<{ fixture: string; changes: SnapshotChange[] }>;
+}
+
+export function summarize(cases: EvalCaseReport[]): EvalReport['summary'] {
+  const assertions = cases.flatMap(c => c.assertions).filter(a => !a.passed);
+  return {
+    fixtures: cases.length,
+    passed: cases.filter(c => c.passed).length,
+    failed: cases.filter(c => !c.passed).length,
+    failedAssertions: assertions.filter(a => a.severity === 'error').length,
+    warnings: assertions.filter(a => a.severity === 'warning').length,
+    snapshotsChanged: cases.filter(c => c.snapshot.status === 'changed' || c.snapshot.status === 'updated').length,
+    staleRecordings: cases.flatMap(c => c.calls).filter(call => call.source === 'stale-recording').length,
+  };
+}
+
+function promptVersions(prompts: PromptRef[]): Map<string, number[]> {
+  const versions = new Map<string, number[]>();
+  for (const { name, version } of prompts) {
+    versions.set(name, [...(versions.get(name) ?? []), version].sort((a, b) => a - b));
+  }
+  return versions;
+}
+
+/**
+ * What changed between a baseline run and this one
+ */
+export function compareReports(baseline: EvalReport, current: EvalReport): ReportComparison {
+  const before = promptVersions(baseline.prompts);
+  const after = promptVersions(current.prompts);
+  const names = Array.from(new Set([...Array.from(before.keys()), ...Array.from(after.keys())])).sort();
+  const promptChanges = names
+    .filter(name => JSON.stringify(before.get(name)) !== JSON.stringify(after.get(name)))
+    .map(name => ({ name, before: before.get(name)?.at(-1), after: after.get(name)?.at(-1) }));
+
+  const baselineCases = new Map(baseline.cases.map(c => [c.fixture, c]));
+  const newlyFailing: string[] = [];
+  const newlyPassing: string[] = [];
+  const outputChanges: ReportComparison['outputChanges'] = [];
+
+  for (const c of current.cases) {
+    const previous = baselineCases.get(c.fixture);
+    if (!previous) continue;
+    if (previous.passed && !c.passed) newlyFailing.push(c.fixture);
+    if (!previous.passed && c.passed) newlyPassing.push(c.fixture);
+    const changes = diffSnapshots(previous.outputs, c.outputs);
+    if (changes.length > 0) outputChanges.push({ fixture: c.fixture, changes });
+  }
+
+  return { promptChanges, newlyFailing, newlyPassing, outputChanges };
+}
+
+function formatValue(value: unknown): string {
+  const text = typeof value === 'string' ? value : JSON.stringify(value);
+  return text === undefined ? '(none)' : text.replace(/\s+/g, ' ');
+}
+
+function formatChanges(changes: SnapshotChange[]): string[] {
+  return changes.flatMap(change => [
+    `  - \`${change.path}\``,
+    ...(change.before !== undefined ? [`    - before: ${formatValue(change.before)}`] : []),
+    ...(change.after !== undefined ? [`    - after: ${formatValue(change.after)}`] : []),
+  ]);
+}
+
+/**
+ * Markdown rendering of a report, suitable for a PR comment
+ */
+export function formatReport(report: EvalReport, comparison?: ReportComparison): string {
+  const { summary } = report;
+  const lines = [
+    '# Generator eval report',
+    '',
+    `${summary.passed}/${summary.fixtures} fixtures passed (${report.mode} mode, ${report.createdAt}).`,
+    `${summary.failedAssertions} failed assertion(s), ${summary.warnings} warning(s), ` +
+      `${summary.snapshotsChanged} changed snapshot(s), ${summary.staleRecordings} stale recording(s).`,
+    '',
+    `Prompts: ${report.prompts.map(p => `${p.name}@v${p.version}`).join(', ') || '(none)'}`,
+  ];
+
+  if (comparison) {
+    lines.push('', '## Compared with baseline', '');
+    if (comparison.promptChanges.length === 0) lines.push('- No prompt version changes');
+    for (const change of comparison.promptChanges) {
+      lines.push(`- Prompt \`${change.name}\`: ${change.before ? `v${change.before}` : '(unused)'} -> ${change.after ? `v${change.after}` : '(unused)'}`);
+    }
+    if (comparison.newlyFailing.length > 0) lines.push(`- Now failing: ${comparison.newlyFailing.join(', ')}`);
+    if (comparison.newlyPassing.length > 0) lines.push(`- Now passing: ${comparison.newlyPassing.join(', ')}`);
+    for (const { fixture, changes } of comparison.outputChanges) {
+      lines.push(`- Output of \`${fixture}\` changed:`, ...formatChanges(changes));
+    }
+  }
+
+  lines.push('', '## Fixtures');
+  for (const c of report.cases) {
+    const failures = c.assertions.filter(a => !a.passed);
+    lines.push('', `### ${c.passed ? 'PASS' : 'FAIL'} ${c.fixture} (${c.kind})`);
+    if (c.description) lines.push('', c.description);
+    lines.push('', `Snapshot: ${c.snapshot.status}`);
+    for (const failure of failures) {
+      lines.push(`- ${failure.severity === 'error' ? 'FAIL' : 'WARN'} ${failure.target} ${failure.name}: ${failure.message}`);
+    }
+    if (c.snapshot.changes.length > 0) {
+      lines.push('- Snapshot changes:', ...formatChanges(c.snapshot.changes));
+    }
+  }
+
+  return lines.join('\n') + '\n';
+}
@@ -0,0 +1,148 @@
+/**
+ * Runs the golden fixtures through the generators against recorded replies
+ */
+import path from 'path';
+import {
+  generateActionItems,
+  generateFollowUpQuestions,
+  generateHalaqaActions,
+  generateHalaqaInsights,
+  generateInsights,
+} from '../anthropic';
+import {
+  createProvider,
+  getLLMProvider,
+  loadRecordings,
+  LLMProvider,
+  RecordedProvider,
+  saveRecordings,
+  setLLMProvider,
+} from '../llm';
+import { mergePromptRefs, tracePrompts } from '../prompts';
+import { assertTarget, TargetResult } from './assertions';
+import { DEFAULT_EVAL_DIR, EvalFixture, HalaqaFixture, loadFixtures, ReflectionFixture } from './fixtures';
+import { EvalCaseReport, EvalReport, summarize } from './report';
+import { diffSnapshots, loadSnapshot, saveSnapshot, Snapshot } from './snapshots';
+
+export interface EvalOptions {
+  /** Defaults to server/lib/eval/fixtures */
+  fixturesDir?: string;
+  /** Defaults to server/lib/eval/recordings */
+  recordingsDir?: string;
+  /** Defaults to server/lib/eval/snapshots */
+  snapshotsDir?: string;
+  /** Only run fixtures whose id contains this */
+  filter?: string;
+  /**
+   * Fetch replies that have no exact recording from this provider and save
+   * them. Pass true to use the provider configured by LLM_PROVIDER.
+   */
+  record?: LLMProvider | true;
+  /** Overwrite snapshots that changed instead of failing the fixture */
+  updateSnapshots?: boolean;
+}
+
+type Generator<F> = (fixture: F) => Promise<unknown>;
+
+const REFLECTION_TARGETS: Record<string, Generator<ReflectionFixture>> = {
+  generateFollowUpQuestions: ({ input, personalization }) => generateFollowUpQuestions(input.content, undefined, personalization),
+  generateInsights: ({ input, personalization }) => generateInsights(input.content, personalization),
+  generateActionItems: ({ input, personalization }) => generateActionItems(input.content, personalization),
+};
+
+const HALAQA_TARGETS: Record<string, Generator<HalaqaFixture>> = {
+  generateHalaqaInsights: ({ input, personalization }) => generateHalaqaInsights(input, personalization),
+  generateHalaqaActions: ({ input, personalization }) => generateHalaqaActions(input.keyReflection, input.impact, personalization),
+};
+
+function targetsFor(fixture: EvalFixture): Array<[string, () => Promise<unknown>]> {
+  return fixture.kind === 'reflection'
+    ? Object.entries(REFLECTION_TARGETS).map(([name, run]) => [name, () => run(fixture)])
+    : Object.entries(HALAQA_TARGETS).map(([name, run]) => [name, () => run(fixture)]);
+}
+
+async function runTarget(provider: RecordedProvider, target: string, run: () => Promise<unknown>): Promise<TargetResult> {
+  const firstCall = provider.calls.length;
+  try {
+    const { result, prompts } = await tracePrompts(run);
+    return { target, output: result, calls: provider.calls.slice(firstCall), prompts };
+  } catch (error) {
+    return {
+      target,
+      error: error instanceof Error ? error.message : String(error),
+      calls: provider.calls.slice(firstCall),
+      prompts: [],
+    };
+  }
+}
+
+async function runFixture(fixture: EvalFixture, options: Required<Omit<EvalOptions, 'filter' | 'record'>> & { upstream?: LLMProvider }): Promise<EvalCaseReport> {
+  const recordingsFile = path.join(options.recordingsDir, `${fixture.id}.json`);
+  const provider = new RecordedProvider(loadRecordings(recordingsFile), options.upstream);
+  const previousProvider = getLLMProvider();
+  setLLMProvider(provider);
+
+  const targets: TargetResult[] = [];
+  try {
+    for (const [target, run] of targetsFor(fixture)) {
+      targets.push(await runTarget(provider, target, run));
+    }
+  } finally {
+    setLLMProvider(previousProvider);
+  }
+
+  if (options.upstream) {
+    saveRecordings(recordingsFile, provider.servedRecordings());
+  }
+
+  const outputs: Snapshot = Object.fromEntries(
+    targets.map(t => [t.target, t.error !== undefined ? { error: t.error } : t.output])
+  );
+  const stored = loadSnapshot(options.snapshotsDir, fixture.id);
+  const changes = stored ? diffSnapshots(stored, outputs) : [];
+  let status: EvalCaseReport['snapshot']['status'] = !stored ? 'new' : changes.length > 0 ? 'changed' : 'unchanged';
+  if (status === 'new' || (status === 'changed' && options.updateSnapshots)) {
+    saveSnapshot(options.snapshotsDir, fixture.id, outputs);
+    if (status === 'changed') status = 'updated';
+  }
+
+  const assertions = targets.flatMap(target => assertTarget(fixture, target));
+  return {
+    fixture: fixture.id,
+    kind: fixture.kind,
+    ...(fixture.description && { description: fixture.description }),
+    passed: status !== 'changed' && assertions.every(a => a.passed || a.severity === 'warning'),
+    assertions,
+    snapshot: { status, changes },
+    outputs,
+    prompts: mergePromptRefs(...targets.map(t => t.prompts)),
+    calls: targets.flatMap(t => t.calls).map(({ feature, requestHash, source }) => ({ feature, requestHash, source })),
+  };
+}
+
+/**
+ * Run every fixture and build the report. Fixtures run one at a time since
+ * each swaps in its own recorded provider.
+ */
+export async function runEvals(options: EvalOptions = {}): Promise<EvalReport> {
+  const resolved = {
+    fixturesDir: options.fixturesDir ?? path.join(DEFAULT_EVAL_DIR, 'fixtures'),
+    recordingsDir: options.recordingsDir ?? path.join(DEFAULT_EVAL_DIR, 'recordings'),
+    snapshotsDir: options.snapshotsDir ?? path.join(DEFAULT_EVAL_DIR, 'snapshots'),
+    updateSnapshots: options.updateSnapshots ?? false,
+    upstream: options.record === true ? createProvider() : options.record || undefined,
+  };
+
+  const cases: EvalCaseReport[] = [];
+  for (const fixture of loadFixtures(resolved.fixturesDir, options.filter)) {
+    cases.push(await runFixture(fixture, resolved));
+  }
+
+  return {
+    createdAt: new Date().toISOString(),
+    mode: resolved.upstream ? 'record' : 'replay',
+    prompts: mergePromptRefs(...cases.map(c => c.prompts)).sort((a, b) => a.name.localeCompare(b.name) || a.version - b.version),
+    cases,
+    summary: summarize(cases),
+  };
+}
@@ -0,0 +1,52 @@
+/**
+ * Output snapshots: the last accepted output of each generator per fixture,
+ * stored as snapshots/<fixture id>.json and diffed on every run
+ */
+import fs from 'fs';
+import path from 'path';
+
+/** Generator name -> its output, or { error } when it threw */
+export type Snapshot = Record<string, unknown>;
+
+export interface SnapshotChange {
+  /** Dotted path to the changed value, e.g. "generateFollowUpQuestions.questions.1" */
+  path: string;
+  before?: unknown;
+  after?: unknown;
+}
+
+export function snapshotPath(dir: string, id: string): string {
+  return path.join(dir, `${id}.json`);
+}
+
+export function loadSnapshot(dir: string, id: string): Snapshot | null {
+  const file = snapshotPath(dir, id);
+  return fs.existsSync(file) ? JSON.parse(fs.readFileSync(file, 'utf8')) as Snapshot : null;
+}
+
+export function saveSnapshot(dir: string, id: string, snapshot: Snapshot): void {
+  fs.mkdirSync(dir, { recursive: true });
+  fs.writeFileSync(snapshotPath(dir, id), JSON.stringify(snapshot, null, 2) + '\n');
+}
+
+function isContainer(value: unknown): value is Record<string, unknown> {
+  return value !== null && typeof value === 'object';
+}
+
+/**
+ * Leaf-level differences between two snapshots. Arrays are compared by
+ * index, so an inserted item shows up as changes to every later one.
+ */
+export function diffSnapshots(before: unknown, after: unknown, prefix = ''): SnapshotChange[] {
+  if (isContainer(before) && isContainer(after) && Array.isArray(before) === Array.isArray(after)) {
+    const keys = Array.from(new Set([...Object.keys(before), ...Object.keys(after)]));
+    return keys.flatMap(key => diffSnapshots(before[key], after[key], prefix ? `${prefix}.${key}` : key));
+  }
+
+  if (JSON.stringify(before) === JSON.stringify(after)) return [];
+  return [{
+    path: prefix,
+    ...(before !== undefined && { before }),
+    ...(after !== undefined && { after }),
+  }];
+}
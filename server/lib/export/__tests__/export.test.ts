@@ -0,0 +1,140 @@
+import type { Conversation, JournalEntries } from '@shared/schema';
+import { buildExportBundle, encodeWinAnsi, exportDocument, exportPrivacyOf, PdfUnsupportedTextError, renderMarkdown, renderPdf } from '..';
+
+const conversation: Conversation = {
+  id: 7,
+  userId: 'user-1',
+  reflectionId: 3,
+  messages: [
+    { id: 'm0', parentId: null, role: 'user', content: 'I missed Fajr again.' },
+    { id: 'm1', parentId: 'm0', role: 'assistant', content: 'First reply', prompts: [{ name: 'reflection.followup', version: 1 }] },
+    { id: 'm2', parentId: 'm0', role: 'assistant', content: 'Regenerated reply' },
+  ],
+  actionItems: ['Sleep earlier'],
+  summary: null,
+  promptId: null,
+  activeMessageId: 'm1',
+  timestamp: new Date('2024-03-04T08:00:00Z'),
+};
+
+const entries: JournalEntries = {
+  reflections: [{
+    id: 3,
+    userId: 'user-1',
+    content: 'I missed Fajr again.',
+    type: 'text',
+    timestamp: new Date('2024-03-04T07:55:00Z'),
+    transcription: null,
+    editedAt: null,
+    mood: 'guilt',
+    moodIntensity: 6,
+  }],
+  conversations: [conversation],
+  halaqas: [],
+  wirds: [{
+    id: 1,
+    userId: 'user-1',
+    date: '2024-03-04',
+    practices: [{ id: 'p1', name: 'Morning adhkar', type: 'dhikr', status: 'completed', count: 33 }],
+    notes: null,
+    createdAt: new Date('2024-03-04T00:00:00Z'),
+    updatedAt: new Date('2024-03-04T00:00:00Z'),
+    isArchived: false,
+  }],
+};
+
+const scope = { kind: 'range' as const, from: '2024-03-01T00:00:00.000Z', to: null, sources: ['reflections' as const, 'conversations' as const, 'halaqas' as const, 'wirds' as const] };
+
+describe('exportPrivacyOf', () => {
+  it('includes everything unless the user turned history or personalization off', () => {
+    expect(exportPrivacyOf(undefined)).toEqual({ includeMood: true, includeAssistantReplies: true });
+    expect(exportPrivacyOf({ saveHistory: false })).toEqual({ includeMood: true, includeAssistantReplies: false });
+    expect(exportPrivacyOf({ saveHistory: true }, { allowPersonalization: false }))
+      .toEqual({ includeMood: false, includeAssistantReplies: true });
+  });
+});
+
+describe('buildExportBundle', () => {
+  it('keeps the whole message tree and the selected branch, without generation metadata', () => {
+    const bundle = buildExportBundle(entries, { scope, privacy: exportPrivacyOf(undefined) });
+
+    expect(bundle.schemaVersion).toBe(1);
+    expect(bundle.privacy.omitted).toEqual(['audio', 'generationMetadata']);
+    expect(bundle.conversations[0].branch).toEqual(['m0', 'm1']);
+    expect(bundle.conversations[0].messages).toHaveLength(3);
+    expect(bundle.conversations[0].messages[1]).not.toHaveProperty('prompts');
+    expect(bundle.reflections[0].mood).toEqual({ mood: 'guilt', intensity: 6 });
+    expect(bundle.wirds[0].practices).toEqual([
+      { name: 'Morning adhkar', type: 'dhikr', status: 'completed', count: 33, notes: undefined },
+    ]);
+  });
+
+  it('leaves out moods and replies the user keeps private', () => {
+    const bundle = buildExportBundle(entries, {
+      scope,
+      privacy: { includeMood: false, includeAssistantReplies: false },
+    });
+
+    expect(bundle.privacy.omitted).toEqual(['audio', 'generationMetadata', 'mood', 'assistantReplies']);
+    expect(bundle.reflections[0].mood).toBeNull();
+    expect(bundle.conversations[0].messages.map(message => message.id)).toEqual(['m0']);
+    expect(bundle.conversations[0].branch).toEqual(['m0']);
+  });
+});
+
+describe('renderMarkdown', () => {
+  it('lays out the selected branch and a section per requested source', () => {
+    const bundle = buildExportBundle(entries, {
+      scope,
+      privacy: exportPrivacyOf(undefined),
+      generatedAt: new Date('2024-04-01T00:00:00Z'),
+    });
+
+    const markdown = renderMarkdown(exportDocument(bundle));
+
+    expect(markdown).toContain('# Journal since 1 March 2024');
+    expect(markdown).toContain('_Exported 1 April 2024. Left out: audio recordings, generation details._');
+    expect(markdown).toContain('**SahabAI**\n\nFirst reply');
+    expect(markdown).not.toContain('Regenerated reply');
+    expect(markdown).toContain('## Halaqas\n\n_Nothing in this range._');
+    expect(markdown).toContain('- [x] Morning adhkar (33)');
+  });
+});
+
+describe('renderPdf', () => {
+  it('writes a PDF with a valid cross-reference table', () => {
+    const bundle = buildExportBundle(entries, { scope, privacy: exportPrivacyOf(undefined) });
+    const pdf = renderPdf(exportDocument(bundle), 'Journal').toString('latin1');
+
+    expect(pdf.startsWith('%PDF-1.4')).toBe(true);
+    expect(pdf.trimEnd().endsWith('%%EOF')).toBe(true);
+    expect(pdf).toContain('(First reply) Tj');
+
+    const xref = Number(pdf.match(/startxref\n(\d+)/)![1]);
+    expect(pdf.slice(xref, xref + 4)).toBe('xref');
+    const offsets = Array.from(pdf.slice(xref).matchAll(/^(\d{10}) 00000 n $/gm), match => Number(match[1]));
+    offsets.forEach((offset, index) => expect(pdf.slice(offset).startsWith(`${index + 1} 0 obj`)).toBe(true));
+  });
+
+  it('breaks long documents across pages', () => {
+    const blocks = Array.from({ length: 200 }, (_, i) => ({ kind: 'paragraph' as const, text: `Paragraph ${i}` }));
+    const pdf = renderPdf(blocks, 'Long').toString('latin1');
+
+    const count = Number(pdf.match(/\/Count (\d+)/)![1]);
+    expect(count).toBeGreaterThan(1);
+    expect(pdf).toContain(`(${count} / ${count}) Tj`);
+  });
+
+  it('refuses text it would have to replace, but writes letters without their accents', () => {
+    expect(() => renderPdf([{ kind: 'paragraph', text: 'Al-Fātiḥah' }], 'Quran')).not.toThrow();
+    expect(() => renderPdf([{ kind: 'list', items: ['بِسْمِ ٱللَّٰهِ'] }], 'Quran')).toThrow(PdfUnsupportedTextError);
+  });
+});
+
+describe('encodeWinAnsi', () => {
+  it('drops accents it has no code for and replaces other characters', () => {
+    expect(encodeWinAnsi('é’')).toEqual([0xe9, 0x92]);
+    expect(encodeWinAnsi('ā')).toEqual([0x61]);
+    expect(encodeWinAnsi('سلام')).toEqual([0x3f, 0x3f, 0x3f, 0x3f]);
+  });
+});
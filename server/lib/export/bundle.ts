@@ -0,0 +1,205 @@
+/**
+ * The JSON export bundle, documented in docs/export_format.md. Markdown and
+ * PDF exports are rendered from the same bundle, so the user's privacy
+ * preferences are applied once, here.
+ */
+import type {
+  CitationCheck,
+  ExportPrivacy,
+  ExportSource,
+  JournalEntries,
+  Mood,
+  UserPreferences,
+  WirdPractice,
+} from '@shared/schema';
+import { branchTo, withMessageIds } from '@shared/message-tree';
+import { findPrompt } from '../guided-prompts';
+
+/** Bump on any change to the bundle's shape, and document it */
+export const EXPORT_SCHEMA_VERSION = 1;
+
+/**
+ * What an export leaves out. Audio and generation metadata (prompt
+ * templates, fallback flags, conversation summaries) are never exported.
+ */
+export type OmittedData = 'audio' | 'generationMetadata' | 'mood' | 'assistantReplies';
+
+export type ExportScope =
+  | { kind: 'conversation'; conversationId: number }
+  | { kind: 'range'; from: string | null; to: string | null; sources: ExportSource[] };
+
+export type ExportedReflection = {
+  id: number;
+  type: 'audio' | 'text';
+  createdAt: string;
+  editedAt: string | null;
+  content: string;
+  transcription: string | null;
+  mood: { mood: Mood; intensity: number } | null;
+};
+
+export type ExportedMessage = {
+  id: string;
+  parentId: string | null;
+  role: 'user' | 'assistant';
+  content: string;
+  citations?: CitationCheck[];
+};
+
+export type ExportedConversation = {
+  id: number;
+  reflectionId: number | null;
+  createdAt: string;
+  prompt: { id: string; text: string | null } | null;
+  /** Ids of the selected branch, first message first */
+  branch: string[];
+  /** Every message of the tree, in the order they were added */
+  messages: ExportedMessage[];
+  actionItems: string[];
+};
+
+export type ExportedHalaqa = {
+  id: number;
+  title: string;
+  speaker: string | null;
+  date: string;
+  topic: string;
+  keyReflection: string;
+  impact: string;
+  actionItems: Array<{ description: string; completed: boolean; completedDate: string | null }>;
+  editedAt: string | null;
+};
+
+export type ExportedWird = {
+  id: number;
+  date: string;
+  practices: Array<Pick<WirdPractice, 'name' | 'type' | 'status' | 'count' | 'notes'>>;
+  notes: string | null;
+};
+
+export type ExportBundle = {
+  schemaVersion: typeof EXPORT_SCHEMA_VERSION;
+  generatedAt: string;
+  scope: ExportScope;
+  privacy: ExportPrivacy & { omitted: OmittedData[] };
+  reflections: ExportedReflection[];
+  conversations: ExportedConversation[];
+  halaqas: ExportedHalaqa[];
+  wirds: ExportedWird[];
+};
+
+/**
+ * The profile privacy settings exports follow (PrivacySettings in
+ * client/src/types/profile.ts). Profile data itself is never exported, so
+ * localStorageOnly and enableSync don't change what an export holds.
+ */
+export type ProfilePrivacy = {
+  allowPersonalization?: boolean;
+};
+
+/**
+ * Export privacy from the user's existing settings. SahabAI's replies are left
+ * out when the user doesn't save conversation history, and mood check-ins
+ * when they have turned personalization off.
+ */
+export function exportPrivacyOf(
+  preferences?: Partial<UserPreferences> | null,
+  privacySettings?: ProfilePrivacy | null
+): ExportPrivacy {
+  return {
+    includeMood: privacySettings?.allowPersonalization !== false,
+    includeAssistantReplies: preferences?.saveHistory !== false,
+  };
+}
+
+function isoOf(date: Date | string | null | undefined): string | null {
+  if (!date) return null;
+  return new Date(date).toISOString();
+}
+
+function dayOf(date: Date | string): string {
+  return typeof date === 'string' ? date.slice(0, 10) : date.toISOString().slice(0, 10);
+}
+
+function exportConversation(
+  conversation: JournalEntries['conversations'][number],
+  privacy: ExportPrivacy
+): ExportedConversation {
+  const tree = withMessageIds(conversation.messages);
+  const kept = (role: 'user' | 'assistant') => role === 'user' || privacy.includeAssistantReplies;
+
+  return {
+    id: conversation.id,
+    reflectionId: conversation.reflectionId,
+    createdAt: conversation.timestamp.toISOString(),
+    prompt: conversation.promptId
+      ? { id: conversation.promptId, text: findPrompt(conversation.promptId)?.text ?? null }
+      : null,
+    branch: branchTo(tree, conversation.activeMessageId)
+      .filter(message => kept(message.role))
+      .map(message => message.id!),
+    messages: tree
+      .filter(message => kept(message.role))
+      .map(message => ({
+        id: message.id!,
+        parentId: message.parentId ?? null,
+        role: message.role,
+        content: message.content,
+        ...(message.citations?.length ? { citations: message.citations } : {}),
+      })),
+    actionItems: conversation.actionItems ?? [],
+  };
+}
+
+/**
+ * The bundle for a set of entries, with the privacy preferences applied
+ */
+export function buildExportBundle(
+  entries: JournalEntries,
+  options: { scope: ExportScope; privacy: ExportPrivacy; generatedAt?: Date }
+): ExportBundle {
+  const { privacy } = options;
+  const omitted: OmittedData[] = ['audio', 'generationMetadata'];
+  if (!privacy.includeMood) omitted.push('mood');
+  if (!privacy.includeAssistantReplies) omitted.push('assistantReplies');
+
+  return {
+    schemaVersion: EXPORT_SCHEMA_VERSION,
+    generatedAt: (options.generatedAt ?? new Date()).toISOString(),
+    scope: options.scope,
+    privacy: { ...privacy, omitted },
+    reflections: entries.reflections.map(reflection => ({
+      id: reflection.id,
+      type: reflection.type,
+      createdAt: reflection.timestamp.toISOString(),
+      editedAt: isoOf(reflection.editedAt),
+      content: reflection.content,
+      transcription: reflection.transcription,
+      mood: privacy.includeMood && reflection.mood && reflection.moodIntensity
+        ? { mood: reflection.mood, intensity: reflection.moodIntensity }
+        : null,
+    })),
+    conversations: entries.conversations.map(conversation => exportConversation(conversation, privacy)),
+    halaqas: entries.halaqas.map(halaqa => ({
+      id: halaqa.id,
+      title: halaqa.title,
+      speaker: halaqa.speaker,
+      date: dayOf(halaqa.date),
+      topic: halaqa.topic,
+      keyReflection: halaqa.keyReflection,
+      impact: halaqa.impact,
+      actionItems: (halaqa.actionItems ?? []).map(item => ({
+        description: item.description,
+        completed: item.completed,
+        completedDate: isoOf(item.completedDate),
+      })),
+      editedAt: isoOf(halaqa.editedAt),
+    })),
+    wirds: entries.wirds.map(wird => ({
+      id: wird.id,
+      date: dayOf(wird.date),
+      practices: wird.practices.map(({ name, type, status, count, notes }) => ({ name, type, status, count, notes })),
+      notes: wird.notes,
+    })),
+  };
+}
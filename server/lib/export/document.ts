@@ -0,0 +1,168 @@
+/**
+ * The readable layout of an export bundle: a flat list of blocks that the
+ * Markdown and PDF renderers each turn into their own format, so both
+ * exports read the same.
+ */
+import type { ExportSource } from '@shared/schema';
+import type {
+  ExportBundle,
+  ExportedConversation,
+  ExportedHalaqa,
+  ExportedReflection,
+  ExportedWird,
+  OmittedData,
+} from './bundle';
+
+export type ExportBlock =
+  | { kind: 'title'; text: string }
+  | { kind: 'heading'; text: string }
+  | { kind: 'subheading'; text: string }
+  /** A short bold lead-in, such as "Key reflection" or who said a message */
+  | { kind: 'label'; text: string }
+  /** Dates, moods and other details of an entry, set smaller */
+  | { kind: 'meta'; text: string }
+  | { kind: 'paragraph'; text: string }
+  | { kind: 'list'; items: string[] };
+
+const SECTION_TITLES: Record<ExportSource, string> = {
+  reflections: 'Reflections',
+  conversations: 'Conversations',
+  halaqas: 'Halaqas',
+  wirds: 'Wirds',
+};
+
+const OMITTED_LABELS: Record<OmittedData, string> = {
+  audio: 'audio recordings',
+  generationMetadata: 'generation details',
+  mood: 'mood check-ins',
+  assistantReplies: "SahabAI's replies",
+};
+
+const dayFormat = new Intl.DateTimeFormat('en-GB', { day: 'numeric', month: 'long', year: 'numeric', timeZone: 'UTC' });
+
+/** A timestamp or YYYY-MM-DD as e.g. "4 March 2024" (UTC) */
+export function formatDay(date: string): string {
+  return dayFormat.format(new Date(date.length === 10 ? `${date}T00:00:00Z` : date));
+}
+
+export function exportTitle(bundle: ExportBundle): string {
+  const { scope } = bundle;
+  if (scope.kind === 'conversation') {
+    const conversation = bundle.conversations[0];
+    return conversation ? `Conversation of ${formatDay(conversation.createdAt)}` : 'Conversation';
+  }
+  if (scope.from && scope.to) return `Journal, ${formatDay(scope.from)} to ${formatDay(scope.to)}`;
+  if (scope.from) return `Journal since ${formatDay(scope.from)}`;
+  if (scope.to) return `Journal until ${formatDay(scope.to)}`;
+  return 'Journal';
+}
+
+function reflectionBlocks(reflection: ExportedReflection): ExportBlock[] {
+  const details = [reflection.type === 'audio' ? 'Audio reflection' : 'Written reflection'];
+  if (reflection.mood) details.push(`Feeling ${reflection.mood.mood} (${reflection.mood.intensity}/10)`);
+  if (reflection.editedAt) details.push(`Edited ${formatDay(reflection.editedAt)}`);
+
+  return [
+    { kind: 'subheading', text: formatDay(reflection.createdAt) },
+    { kind: 'meta', text: details.join(' · ') },
+    { kind: 'paragraph', text: reflection.content },
+  ];
+}
+
+function conversationBlocks(conversation: ExportedConversation, withHeading: boolean): ExportBlock[] {
+  const blocks: ExportBlock[] = [];
+  if (withHeading) blocks.push({ kind: 'subheading', text: formatDay(conversation.createdAt) });
+  if (conversation.prompt) {
+    blocks.push({ kind: 'meta', text: `Answering: ${conversation.prompt.text ?? conversation.prompt.id}` });
+  }
+
+  const byId = new Map(conversation.messages.map(message => [message.id, message]));
+  for (const id of conversation.branch) {
+    const message = byId.get(id);
+    if (!message) continue;
+    blocks.push({ kind: 'label', text: message.role === 'user' ? 'You' : 'SahabAI' });
+    blocks.push({ kind: 'paragraph', text: message.content });
+  }
+
+  if (conversation.actionItems.length > 0) {
+    blocks.push({ kind: 'label', text: 'Action items' });
+    blocks.push({ kind: 'list', items: conversation.actionItems });
+  }
+  return blocks;
+}
+
+function halaqaBlocks(halaqa: ExportedHalaqa): ExportBlock[] {
+  const details = [formatDay(halaqa.date), halaqa.speaker, halaqa.topic].filter(Boolean) as string[];
+  const blocks: ExportBlock[] = [
+    { kind: 'subheading', text: halaqa.title },
+    { kind: 'meta', text: details.join(' · ') },
+    { kind: 'label', text: 'Key reflection' },
+    { kind: 'paragraph', text: halaqa.keyReflection },
+    { kind: 'label', text: 'Impact' },
+    { kind: 'paragraph', text: halaqa.impact },
+  ];
+  if (halaqa.actionItems.length > 0) {
+    blocks.push({ kind: 'label', text: 'Action items' });
+    blocks.push({
+      kind: 'list',
+      items: halaqa.actionItems.map(item => `[${item.completed ? 'x' : ' '}] ${item.description}`),
+    });
+  }
+  return blocks;
+}
+
+function wirdBlocks(wird: ExportedWird): ExportBlock[] {
+  const blocks: ExportBlock[] = [{ kind: 'subheading', text: formatDay(wird.date) }];
+  if (wird.practices.length > 0) {
+    blocks.push({
+      kind: 'list',
+      items: wird.practices.map(practice => {
+        const count = practice.count ? ` (${practice.count})` : '';
+        return `[${practice.status === 'completed' ? 'x' : ' '}] ${practice.name}${count}`;
+      }),
+    });
+  }
+  if (wird.notes) blocks.push({ kind: 'paragraph', text: wird.notes });
+  return blocks;
+}
+
+/**
+ * The bundle laid out as a document: a title, a line on what was left out,
+ * then a section per source
+ */
+export function exportDocument(bundle: ExportBundle): ExportBlock[] {
+  const blocks: ExportBlock[] = [
+    { kind: 'title', text: exportTitle(bundle) },
+    {
+      kind: 'meta',
+      text: `Exported ${formatDay(bundle.generatedAt)}. Left out: ${bundle.privacy.omitted.map(item => OMITTED_LABELS[item]).join(', ')}.`,
+    },
+  ];
+
+  const { scope } = bundle;
+  if (scope.kind === 'conversation') {
+    const reflection = bundle.reflections[0];
+    if (reflection?.mood) {
+      blocks.push({ kind: 'meta', text: `Feeling ${reflection.mood.mood} (${reflection.mood.intensity}/10)` });
+    }
+    for (const conversation of bundle.conversations) {
+      blocks.push(...conversationBlocks(conversation, false));
+    }
+    return blocks;
+  }
+
+  const sections: Record<ExportSource, ExportBlock[][]> = {
+    reflections: bundle.reflections.map(reflectionBlocks),
+    conversations: bundle.conversations.map(conversation => conversationBlocks(conversation, true)),
+    halaqas: bundle.halaqas.map(halaqaBlocks),
+    wirds: bundle.wirds.map(wirdBlocks),
+  };
+  for (const source of scope.sources) {
+    blocks.push({ kind: 'heading', text: SECTION_TITLES[source] });
+    if (sections[source].length === 0) {
+      blocks.push({ kind: 'meta', text: 'Nothing in this range.' });
+    }
+    for (const entry of sections[source]) blocks.push(...entry);
+  }
+  return blocks;
+}
@@ -0,0 +1,47 @@
+/**
+ * Exports of a user's journal: a single conversation, or their reflections,
+ * conversations, halaqas and wirds over a date range
+ *
+ * Entries become a JSON bundle (see ./bundle and docs/export_format.md) with
+ * the user's export privacy preferences applied. Markdown and PDF are laid out
+ * from the bundle (see ./document); PDFs are written here (see ./pdf).
+ */
+import type { ExportFormat } from '@shared/schema';
+import type { ExportBundle } from './bundle';
+import { exportDocument, exportTitle } from './document';
+import { renderMarkdown } from './markdown';
+import { renderPdf } from './pdf';
+
+export type {
+  ExportBundle,
+  ExportedConversation,
+  ExportedHalaqa,
+  ExportedMessage,
+  ExportedReflection,
+  ExportedWird,
+  ExportScope,
+  OmittedData,
+  ProfilePrivacy,
+} from './bundle';
+export { buildExportBundle, exportPrivacyOf, EXPORT_SCHEMA_VERSION } from './bundle';
+export type { ExportBlock } from './document';
+export { exportDocument, exportTitle, formatDay } from './document';
+export { renderMarkdown } from './markdown';
+export { encodeWinAnsi, isPdfWritable, PdfUnsupportedTextError, renderPdf } from './pdf';
+
+export type RenderedExport = {
+  body: string | Buffer;
+  contentType: string;
+  extension: string;
+};
+
+export function renderExport(bundle: ExportBundle, format: ExportFormat): RenderedExport {
+  switch (format) {
+    case 'json':
+      return { body: JSON.stringify(bundle, null, 2), contentType: 'application/json; charset=utf-8', extension: 'json' };
+    case 'markdown':
+      return { body: renderMarkdown(exportDocument(bundle)), contentType: 'text/markdown; charset=utf-8', extension: 'md' };
+    case 'pdf':
+      return { body: renderPdf(exportDocument(bundle), exportTitle(bundle)), contentType: 'application/pdf', extension: 'pdf' };
+  }
+}
@@ -0,0 +1,28 @@
+import type { ExportBlock } from './document';
+
+function renderBlock(block: ExportBlock): string {
+  switch (block.kind) {
+    case 'title':
+      return `# ${block.text}`;
+    case 'heading':
+      return `## ${block.text}`;
+    case 'subheading':
+      return `### ${block.text}`;
+    case 'label':
+      return `**${block.text}**`;
+    case 'meta':
+      return `_${block.text}_`;
+    case 'paragraph':
+      return block.text.trim();
+    case 'list':
+      return block.items.map(item => `- ${item}`).join('\n');
+  }
+}
+
+/**
+ * An export document as Markdown. User text is written as is, so any
+ * Markdown the user typed still renders.
+ */
+export function renderMarkdown(blocks: ExportBlock[]): string {
+  return blocks.map(renderBlock).join('\n\n') + '\n';
+}
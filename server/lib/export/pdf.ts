@@ -0,0 +1,275 @@
+/**
+ * A small PDF writer for exports, so printable copies are made on the server
+ * without a rendering service or a PDF library.
+ *
+ * Text is set in the standard Helvetica fonts, which every PDF reader has,
+ * with WinAnsi encoding. Accented letters outside it (such as the ā in
+ * transliterations) are written without their accents. Documents with other
+ * characters, Arabic script included, are refused rather than printed with
+ * gaps; the Markdown and JSON exports keep them.
+ */
+import { AppError } from '../../utils/errors';
+import type { ExportBlock } from './document';
+
+/**
+ * The document has text the PDF's fonts can't show
+ */
+export class PdfUnsupportedTextError extends AppError {
+  constructor() {
+    super("This export has text the PDF can't show, such as Arabic script. Download it as Markdown or JSON instead.", 422);
+  }
+}
+
+// A4 in points
+const PAGE_WIDTH = 595;
+const PAGE_HEIGHT = 842;
+const MARGIN = 56;
+const FOOTER_HEIGHT = 24;
+const TEXT_WIDTH = PAGE_WIDTH - 2 * MARGIN;
+const LIST_INDENT = 14;
+
+type Font = 'F1' | 'F2' | 'F3';
+
+const FONT_NAMES: Record<Font, string> = {
+  F1: 'Helvetica',
+  F2: 'Helvetica-Bold',
+  F3: 'Helvetica-Oblique',
+};
+
+// Advance widths (per 1000 units of font size) of characters 32-126
+const HELVETICA_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556,
+  1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556,
+  333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556,
+  556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584,
+];
+
+const HELVETICA_BOLD_WIDTHS = [
+  278, 333, 474, 556, 556, 889, 722, 238, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 333, 333, 584, 584, 584, 611,
+  975, 722, 722, 722, 722, 667, 611, 778, 722, 278, 556, 722, 611, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 333, 278, 333, 584, 556,
+  333, 556, 611, 556, 611, 556, 333, 611, 611, 278, 278, 556, 278, 889, 611, 611,
+  611, 611, 389, 556, 333, 611, 556, 778, 556, 556, 500, 389, 280, 389, 584,
+];
+
+// Used for characters past ASCII; close enough for wrapping
+const DEFAULT_WIDTH = 556;
+
+// WinAnsi codes of the characters it has outside Latin-1
+const WIN_ANSI_EXTRAS: Record<string, number> = {
+  '€': 0x80, '‚': 0x82, 'ƒ': 0x83, '„': 0x84, '…': 0x85, '†': 0x86, '‡': 0x87, 'ˆ': 0x88,
+  '‰': 0x89, 'Š': 0x8a, '‹': 0x8b, 'Œ': 0x8c, 'Ž': 0x8e, '‘': 0x91, '’': 0x92, '“': 0x93,
+  '”': 0x94, '•': 0x95, '–': 0x96, '—': 0x97, '˜': 0x98, '™': 0x99, 'š': 0x9a, '›': 0x9b,
+  'œ': 0x9c, 'ž': 0x9e, 'Ÿ': 0x9f,
+};
+
+type BlockStyle = { font: Font; size: number; gray: number; spaceBefore: number };
+
+const STYLES: Record<ExportBlock['kind'], BlockStyle> = {
+  title: { font: 'F2', size: 20, gray: 0, spaceBefore: 0 },
+  heading: { font: 'F2', size: 15, gray: 0, spaceBefore: 22 },
+  subheading: { font: 'F2', size: 12, gray: 0, spaceBefore: 16 },
+  label: { font: 'F2', size: 10.5, gray: 0, spaceBefore: 8 },
+  meta: { font: 'F3', size: 9, gray: 0.4, spaceBefore: 4 },
+  paragraph: { font: 'F1', size: 10.5, gray: 0, spaceBefore: 4 },
+  list: { font: 'F1', size: 10.5, gray: 0, spaceBefore: 4 },
+};
+
+const LINE_HEIGHT = 1.4;
+
+/**
+ * The WinAnsi code for a character, or null if it has none
+ */
+function winAnsiCode(char: string): number | null {
+  const code = char.charCodeAt(0);
+  if (char.length === 1 && ((code >= 32 && code <= 126) || (code >= 0xa0 && code <= 0xff))) return code;
+  return WIN_ANSI_EXTRAS[char] ?? null;
+}
+
+// The character's WinAnsi code, or that of the letter without its accents
+function writableCode(char: string): number | null {
+  const code = winAnsiCode(char);
+  if (code !== null) return code;
+  const base = char.normalize('NFD')[0];
+  return base !== char ? winAnsiCode(base) : null;
+}
+
+/**
+ * Text as WinAnsi codes, one per character; "?" for characters it can't write
+ */
+export function encodeWinAnsi(text: string): number[] {
+  return Array.from(text).map(char => writableCode(char) ?? 0x3f);
+}
+
+/**
+ * Whether every character of the text can be written, allowing for dropped accents
+ */
+export function isPdfWritable(text: string): boolean {
+  // Whitespace only separates words; it's never written as is
+  return Array.from(text.replace(/\s+/g, ' ')).every(char => writableCode(char) !== null);
+}
+
+function widthOf(codes: number[], font: Font, size: number): number {
+  const widths = font === 'F2' ? HELVETICA_BOLD_WIDTHS : HELVETICA_WIDTHS;
+  const units = codes.reduce((sum, code) => sum + (code >= 32 && code <= 126 ? widths[code - 32] : DEFAULT_WIDTH), 0);
+  return (units * size) / 1000;
+}
+
+/**
+ * Break a paragraph into lines that fit `maxWidth`, splitting words that
+ * don't fit on a line of their own
+ */
+function wrapText(text: string, font: Font, size: number, maxWidth: number): number[][] {
+  const lines: number[][] = [];
+  const space = encodeWinAnsi(' ');
+
+  for (const rawLine of text.split(/\r?\n/)) {
+    let line: number[] = [];
+    for (const word of rawLine.split(/\s+/).filter(Boolean)) {
+      let codes = encodeWinAnsi(word);
+      const candidate = line.length ? [...line, ...space, ...codes] : codes;
+      if (widthOf(candidate, font, size) <= maxWidth) {
+        line = candidate;
+        continue;
+      }
+      if (line.length) lines.push(line);
+      while (widthOf(codes, font, size) > maxWidth) {
+        let fit = codes.length - 1;
+        while (fit > 1 && widthOf(codes.slice(0, fit), font, size) > maxWidth) fit--;
+        lines.push(codes.slice(0, fit));
+        codes = codes.slice(fit);
+      }
+      line = codes;
+    }
+    lines.push(line);
+  }
+  return lines;
+}
+
+// A PDF string literal; everything past ASCII is escaped, so the file stays 7-bit
+function pdfString(codes: number[]): string {
+  return '(' + codes.map(code => {
+    if (code === 0x28 || code === 0x29 || code === 0x5c) return '\\' + String.fromCharCode(code);
+    if (code < 32 || code > 126) return '\\' + code.toString(8).padStart(3, '0');
+    return String.fromCharCode(code);
+  }).join('') + ')';
+}
+
+function formatNumber(value: number): string {
+  return String(Math.round(value * 100) / 100);
+}
+
+class PageLayout {
+  pages: string[][] = [[]];
+  private y = PAGE_HEIGHT - MARGIN;
+
+  private get page(): string[] {
+    return this.pages[this.pages.length - 1];
+  }
+
+  space(points: number) {
+    // Space at the top of a page is dropped
+    if (this.y < PAGE_HEIGHT - MARGIN) this.y -= points;
+  }
+
+  /** A line of text at `indent`, with an optional marker such as a bullet in the margin before it */
+  line(codes: number[], style: BlockStyle, indent = 0, marker?: number[]) {
+    const height = style.size * LINE_HEIGHT;
+    if (this.y - height < MARGIN + FOOTER_HEIGHT) {
+      this.pages.push([]);
+      this.y = PAGE_HEIGHT - MARGIN;
+    }
+    this.y -= height;
+    const baseline = this.y + (height - style.size) / 2;
+    if (marker) this.text(marker, style.font, style.size, style.gray, MARGIN, baseline);
+    this.text(codes, style.font, style.size, style.gray, MARGIN + indent, baseline);
+  }
+
+  text(codes: number[], font: Font, size: number, gray: number, x: number, y: number, page = this.page) {
+    page.push(
+      `BT ${formatNumber(gray)} g /${font} ${formatNumber(size)} Tf ${formatNumber(x)} ${formatNumber(y)} Td ${pdfString(codes)} Tj ET`
+    );
+  }
+}
+
+function layOut(blocks: ExportBlock[]): string[][] {
+  const layout = new PageLayout();
+
+  for (const block of blocks) {
+    const style = STYLES[block.kind];
+    layout.space(style.spaceBefore);
+
+    if (block.kind === 'list') {
+      const bullet = encodeWinAnsi('•');
+      for (const item of block.items) {
+        wrapText(item, style.font, style.size, TEXT_WIDTH - LIST_INDENT).forEach((line, index) => {
+          layout.line(line, style, LIST_INDENT, index === 0 ? bullet : undefined);
+        });
+      }
+      continue;
+    }
+    for (const line of wrapText(block.text, style.font, style.size, TEXT_WIDTH)) {
+      layout.line(line, style);
+    }
+  }
+
+  // Page numbers, now that the page count is known
+  layout.pages.forEach((page, index) => {
+    const footer = encodeWinAnsi(`${index + 1} / ${layout.pages.length}`);
+    const x = PAGE_WIDTH - MARGIN - widthOf(footer, 'F1', 8);
+    layout.text(footer, 'F1', 8, 0.5, x, MARGIN / 2, page);
+  });
+  return layout.pages;
+}
+
+/**
+ * An export document as a PDF file. Throws PdfUnsupportedTextError if any of
+ * its text can't be written.
+ */
+export function renderPdf(blocks: ExportBlock[], title: string): Buffer {
+  const texts = blocks.flatMap(block => block.kind === 'list' ? block.items : [block.text]);
+  if (![title, ...texts].every(isPdfWritable)) {
+    throw new PdfUnsupportedTextError();
+  }
+
+  const pages = layOut(blocks);
+  const fonts = Object.keys(FONT_NAMES) as Font[];
+
+  // Objects: catalog, page tree, info, fonts, then a page and its content per page
+  const objects: string[] = [];
+  const fontIds = fonts.map((_, index) => 4 + index);
+  const firstPageId = 4 + fonts.length;
+  const pageIds = pages.map((_, index) => firstPageId + index * 2);
+
+  objects.push('<< /Type /Catalog /Pages 2 0 R >>');
+  objects.push(`<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] /Count ${pages.length} >>`);
+  objects.push(`<< /Title ${pdfString(encodeWinAnsi(title))} /Producer (SahabAI) >>`);
+  for (const font of fonts) {
+    objects.push(`<< /Type /Font /Subtype /Type1 /BaseFont /${FONT_NAMES[font]} /Encoding /WinAnsiEncoding >>`);
+  }
+  const fontResources = fonts.map((font, index) => `/${font} ${fontIds[index]} 0 R`).join(' ');
+  pages.forEach((page, index) => {
+    const content = page.join('\n');
+    objects.push(
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] ` +
+      `/Resources << /Font << ${fontResources} >> >> /Contents ${pageIds[index] + 1} 0 R >>`
+    );
+    objects.push(`<< /Length ${content.length} >>\nstream\n${content}\nendstream`);
+  });
+
+  let pdf = '%PDF-1.4\n';
+  const offsets: number[] = [];
+  objects.forEach((object, index) => {
+    offsets.push(pdf.length);
+    pdf += `${index + 1} 0 obj\n${object}\nendobj\n`;
+  });
+  const xref = pdf.length;
+  pdf += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  pdf += offsets.map(offset => `${String(offset).padStart(10, '0')} 00000 n \n`).join('');
+  pdf += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R /Info 3 0 R >>\nstartxref\n${xref}\n%%EOF\n`;
+
+  return Buffer.from(pdf, 'latin1');
+}
@@ -0,0 +1,93 @@
+import type { GuidedPrompt, PromptLibrary } from '@shared/schema';
+import { promptOfTheDay, rotationFor, seasonOf } from '../daily';
+import { filterPrompts, loadPromptLibrary } from '../library';
+
+function prompts(count: number, season?: GuidedPrompt['season']): GuidedPrompt[] {
+  return Array.from({ length: count }, (_, i) => ({
+    id: `${season ?? 'general'}-${i}`,
+    category: 'self-accounting' as const,
+    text: `Question ${i}`,
+    ...(season && { season }),
+  }));
+}
+
+const library: PromptLibrary = {
+  version: 1,
+  prompts: [...prompts(10), ...prompts(3, 'ramadan')],
+};
+
+// Mid-Shawwal 1445, outside every season
+const day = new Date('2024-04-25T00:00:00Z');
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+describe('seasonOf', () => {
+  it('follows the Hijri month', () => {
+    expect(seasonOf(new Date('2024-03-20T00:00:00Z'))).toBe('ramadan');
+    expect(seasonOf(new Date('2024-06-12T00:00:00Z'))).toBe('dhul-hijjah');
+    expect(seasonOf(new Date('2024-07-10T00:00:00Z'))).toBe('muharram');
+    expect(seasonOf(day)).toBeNull();
+  });
+});
+
+describe('promptOfTheDay', () => {
+  it('is the same all day for the same user', () => {
+    const morning = promptOfTheDay(library, 'user-1', day);
+    const evening = promptOfTheDay(library, 'user-1', new Date(day.getTime() + 20 * 60 * 60 * 1000));
+
+    expect(evening.prompt).toEqual(morning.prompt);
+    expect(morning.date).toBe('2024-04-25');
+    expect(morning.season).toBeNull();
+  });
+
+  it('walks through every year-round prompt before repeating', () => {
+    const seen = Array.from({ length: 10 }, (_, i) =>
+      promptOfTheDay(library, 'user-1', new Date(day.getTime() + i * DAY_MS)).prompt.id
+    );
+
+    expect(new Set(seen).size).toBe(10);
+    expect(seen.every(id => id.startsWith('general-'))).toBe(true);
+  });
+
+  it('gives users their own order', () => {
+    const orders = ['user-1', 'user-2', 'user-3'].map(userId =>
+      rotationFor(library.prompts, userId, library.version).map(prompt => prompt.id).join()
+    );
+
+    expect(new Set(orders).size).toBe(3);
+  });
+
+  it('skips prompts answered recently', () => {
+    const usual = promptOfTheDay(library, 'user-1', day).prompt;
+    const next = promptOfTheDay(library, 'user-1', day, [usual.id]).prompt;
+
+    expect(next.id).not.toBe(usual.id);
+    expect(next).toEqual(promptOfTheDay(library, 'user-1', new Date(day.getTime() + DAY_MS)).prompt);
+  });
+
+  it('uses seasonal prompts in season, then falls back to year-round ones', () => {
+    const ramadan = new Date('2024-03-20T00:00:00Z');
+    const inSeason = promptOfTheDay(library, 'user-1', ramadan);
+
+    expect(inSeason.season).toBe('ramadan');
+    expect(inSeason.prompt.season).toBe('ramadan');
+
+    const allAnswered = promptOfTheDay(library, 'user-1', ramadan, ['ramadan-0', 'ramadan-1', 'ramadan-2']);
+    expect(allAnswered.prompt.season).toBeUndefined();
+  });
+
+  it('repeats rather than failing when everything was answered', () => {
+    const answered = library.prompts.map(prompt => prompt.id);
+
+    expect(promptOfTheDay(library, 'user-1', day, answered).prompt).toEqual(promptOfTheDay(library, 'user-1', day).prompt);
+  });
+});
+
+describe('bundled library', () => {
+  it('loads with prompts in every category and season', () => {
+    const bundled = loadPromptLibrary();
+
+    expect(bundled.version).toBeGreaterThan(0);
+    expect(filterPrompts(bundled.prompts, { category: 'tawbah' }).length).toBeGreaterThan(0);
+    expect(filterPrompts(bundled.prompts, { season: 'muharram' }).length).toBeGreaterThan(0);
+  });
+});
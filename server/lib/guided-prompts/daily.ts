@@ -0,0 +1,108 @@
+/**
+ * Prompt of the day: each user walks through the library in their own
+ * shuffled order, one prompt per UTC day, so everyone gets a steady rotation
+ * without all users seeing the same question. Prompts the user has answered
+ * recently are skipped, and seasonal prompts take over during their Hijri
+ * month.
+ */
+import type { GuidedPrompt, PromptLibrary, PromptOfTheDay, PromptSeason } from '@shared/schema';
+
+// Days an answered prompt is kept out of the rotation
+export const RECENT_PROMPT_DAYS = 30;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Umm al-Qura month numbers of the seasons
+const SEASON_MONTHS: Record<number, PromptSeason> = {
+  1: 'muharram',
+  9: 'ramadan',
+  12: 'dhul-hijjah',
+};
+
+const hijriMonth = new Intl.DateTimeFormat('en-u-ca-islamic-umalqura', { month: 'numeric', timeZone: 'UTC' });
+
+/**
+ * The season the date falls in, by the Umm al-Qura calendar, or null outside
+ * the seasonal months
+ */
+export function seasonOf(date: Date): PromptSeason | null {
+  return SEASON_MONTHS[Number(hijriMonth.format(date))] ?? null;
+}
+
+export function dayOf(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+// FNV-1a, to turn a user id into a shuffle seed
+function hash(text: string): number {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    h ^= text.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return h >>> 0;
+}
+
+// mulberry32: small, fast and the same on every platform
+function random(seed: number): () => number {
+  let state = seed;
+  return () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * The pool's prompts in this user's order for this library version
+ */
+export function rotationFor(pool: GuidedPrompt[], userId: string, version: number): GuidedPrompt[] {
+  const order = [...pool].sort((a, b) => a.id.localeCompare(b.id));
+  const next = random(hash(`${userId}:${version}`));
+  for (let i = order.length - 1; i > 0; i--) {
+    const j = Math.floor(next() * (i + 1));
+    [order[i], order[j]] = [order[j], order[i]];
+  }
+  return order;
+}
+
+// Today's prompt from the pool, stepping past recently answered ones
+function pick(pool: GuidedPrompt[], userId: string, version: number, day: number, recent: Set<string>): GuidedPrompt | undefined {
+  const order = rotationFor(pool, userId, version);
+  for (let i = 0; i < order.length; i++) {
+    const prompt = order[(day + i) % order.length];
+    if (!recent.has(prompt.id)) return prompt;
+  }
+  return undefined;
+}
+
+/**
+ * The user's prompt for the date. recentPromptIds are prompts they answered
+ * before today; it's up to the caller to limit them to RECENT_PROMPT_DAYS.
+ * When every candidate was answered recently, the rotation's own pick is
+ * used anyway.
+ */
+export function promptOfTheDay(
+  library: PromptLibrary,
+  userId: string,
+  date: Date,
+  recentPromptIds: Iterable<string> = []
+): PromptOfTheDay {
+  const season = seasonOf(date);
+  const general = library.prompts.filter(prompt => !prompt.season);
+  const seasonal = season ? library.prompts.filter(prompt => prompt.season === season) : [];
+  const pools = [seasonal, general].filter(pool => pool.length > 0);
+  if (pools.length === 0) {
+    throw new Error('Guided prompt library has no prompts');
+  }
+
+  const day = Math.floor(date.getTime() / DAY_MS);
+  const recent = new Set(recentPromptIds);
+  const prompt = pools.reduce<GuidedPrompt | undefined>(
+    (found, pool) => found ?? pick(pool, userId, library.version, day, recent),
+    undefined
+  ) ?? pick(pools[0], userId, library.version, day, new Set())!;
+
+  return { prompt, date: dayOf(date), season, version: library.version };
+}
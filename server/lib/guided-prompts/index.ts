@@ -0,0 +1,9 @@
+/**
+ * Guided muhasaba prompts
+ *
+ * A curated, versioned library of reflection questions (see ./library) and a
+ * per-user prompt of the day drawn from it (see ./daily). A reflection started
+ * from a prompt records the prompt's id on its conversation.
+ */
+export { loadPromptLibrary, getPromptLibrary, findPrompt, filterPrompts } from './library';
+export { promptOfTheDay, rotationFor, seasonOf, dayOf, RECENT_PROMPT_DAYS } from './daily';
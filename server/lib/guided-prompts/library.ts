@@ -0,0 +1,63 @@
+/**
+ * The curated guided prompt library, read from data/library.json (override
+ * with GUIDED_PROMPTS_PATH). Bump its version whenever prompts are added or
+ * reworded; ids must never be reused for a different question, since
+ * conversations record the id of the prompt they answered.
+ */
+import fs from 'fs';
+import path from 'path';
+import type { GuidedPrompt, PromptCategory, PromptLibrary, PromptSeason } from '@shared/schema';
+import { promptCategories, promptSeasons } from '@shared/schema';
+
+export const DEFAULT_LIBRARY_PATH = path.resolve(process.cwd(), 'server/lib/guided-prompts/data/library.json');
+
+let library: PromptLibrary | null = null;
+
+/**
+ * Load the prompt library, replacing any previously loaded one
+ */
+export function loadPromptLibrary(file: string = process.env.GUIDED_PROMPTS_PATH || DEFAULT_LIBRARY_PATH): PromptLibrary {
+  if (!fs.existsSync(file)) {
+    throw new Error(`Guided prompt library not found: ${file}`);
+  }
+
+  const loaded = JSON.parse(fs.readFileSync(file, 'utf8')) as PromptLibrary;
+  const ids = new Set<string>();
+  for (const prompt of loaded.prompts) {
+    if (ids.has(prompt.id)) {
+      throw new Error(`Duplicate guided prompt id: ${prompt.id}`);
+    }
+    if (!promptCategories.includes(prompt.category)) {
+      throw new Error(`Guided prompt ${prompt.id} has unknown category: ${prompt.category}`);
+    }
+    if (prompt.season && !promptSeasons.includes(prompt.season)) {
+      throw new Error(`Guided prompt ${prompt.id} has unknown season: ${prompt.season}`);
+    }
+    ids.add(prompt.id);
+  }
+
+  library = loaded;
+  return library;
+}
+
+export function getPromptLibrary(): PromptLibrary {
+  return library ?? loadPromptLibrary();
+}
+
+export function findPrompt(id: string): GuidedPrompt | undefined {
+  return getPromptLibrary().prompts.find(prompt => prompt.id === id);
+}
+
+/**
+ * Prompts matching the filters; a season filter returns only that season's
+ * prompts
+ */
+export function filterPrompts(
+  prompts: GuidedPrompt[],
+  filters: { category?: PromptCategory; season?: PromptSeason } = {}
+): GuidedPrompt[] {
+  return prompts.filter(prompt =>
+    (!filters.category || prompt.category === filters.category) &&
+    (!filters.season || prompt.season === filters.season)
+  );
+}
@@ -0,0 +1,54 @@
+import { StubProvider } from '../stub-provider';
+import { RecordedProvider, requestHash } from '../recorded-provider';
+import { MissingRecordingError } from '../errors';
+
+describe('RecordedProvider', () => {
+  const request = {
+    feature: 'reflection.insights',
+    model: 'claude-3-7-sonnet-20250219',
+    system: 'You are MuhasabAI.',
+    messages: [{ role: 'user' as const, content: 'I struggled to pray on time today.' }],
+    maxTokens: 1024,
+  };
+
+  it('hashes everything that shapes the reply', () => {
+    expect(requestHash(request)).toBe(requestHash({ ...request, maxTokens: 10 }));
+    expect(requestHash(request)).not.toBe(requestHash({ ...request, system: 'Something else' }));
+    expect(requestHash(request)).not.toBe(requestHash({ ...request, messages: [{ role: 'user', content: 'Other' }] }));
+  });
+
+  it('replays the recording made for the exact request', async () => {
+    const provider = new RecordedProvider([
+      { feature: 'reflection.insights', requestHash: 'other', text: 'stale reply' },
+      { feature: 'reflection.insights', requestHash: requestHash(request), text: 'recorded reply' },
+    ]);
+
+    const response = await provider.complete(request);
+    expect(response.text).toBe('recorded reply');
+    expect(provider.calls[0].source).toBe('recording');
+  });
+
+  it('falls back to the next unused recording for the feature and flags it stale', async () => {
+    const provider = new RecordedProvider([
+      { feature: 'reflection.insights', requestHash: 'old-1', text: 'first' },
+      { feature: 'reflection.insights', requestHash: 'old-2', text: 'second' },
+    ]);
+
+    expect((await provider.complete(request)).text).toBe('first');
+    expect((await provider.complete(request)).text).toBe('second');
+    expect(provider.calls.map(call => call.source)).toEqual(['stale-recording', 'stale-recording']);
+    expect(provider.servedRecordings()).toEqual([]);
+    await expect(provider.complete(request)).rejects.toBeInstanceOf(MissingRecordingError);
+  });
+
+  it('records fresh replies from the upstream provider', async () => {
+    const upstream = new StubProvider();
+    upstream.setFixture('reflection.insights', ['fresh reply']);
+    const provider = new RecordedProvider([], upstream);
+
+    await provider.complete(request);
+    expect(provider.servedRecordings()).toEqual([
+      { feature: 'reflection.insights', requestHash: requestHash(request), text: 'fresh reply' },
+    ]);
+  });
+});
@@ -0,0 +1,108 @@
+import {
+  callWithResilience,
+  configureResilience,
+  getCircuitBreaker,
+  getCircuitSnapshots,
+  getRetryAfterMs,
+  resetCircuitBreakers,
+} from '../resilience';
+import { CircuitOpenError, LLMTimeoutError, ProviderBackoffError } from '../errors';
+
+function httpError(status: number, headers: Record<string, string> = {}) {
+  return Object.assign(new Error(`status ${status}`), { status, headers });
+}
+
+const options = { feature: 'halaqa.actions', provider: 'test' };
+
+describe('callWithResilience', () => {
+  beforeEach(() => {
+    resetCircuitBreakers();
+    configureResilience({ timeoutMs: 1000, maxRetries: 2, baseDelayMs: 1, maxDelayMs: 5, failureThreshold: 3, resetTimeoutMs: 50 });
+  });
+
+  afterAll(() => configureResilience());
+
+  it('retries overloaded responses and returns the eventual result', async () => {
+    configureResilience({ timeoutMs: 1000, maxRetries: 2, baseDelayMs: 1, maxDelayMs: 50, failureThreshold: 3, resetTimeoutMs: 50 });
+    const operation = jest.fn()
+      .mockRejectedValueOnce(httpError(529))
+      .mockRejectedValueOnce(httpError(429, { 'retry-after-ms': '20' }))
+      .mockResolvedValue('ok');
+
+    const started = Date.now();
+    await expect(callWithResilience(operation, options)).resolves.toBe('ok');
+
+    expect(operation).toHaveBeenCalledTimes(3);
+    expect(Date.now() - started).toBeGreaterThanOrEqual(20);
+  });
+
+  it('gives up at once when the provider asks to wait longer than the longest retry delay', async () => {
+    const operation = jest.fn().mockRejectedValue(httpError(429, { 'retry-after': '3600' }));
+
+    const started = Date.now();
+    const error = await callWithResilience(operation, options).catch(e => e);
+
+    expect(error).toBeInstanceOf(ProviderBackoffError);
+    expect(error.statusCode).toBe(429);
+    expect(error.headers()).toEqual({ 'Retry-After': '3600' });
+    expect(operation).toHaveBeenCalledTimes(1);
+    expect(Date.now() - started).toBeLessThan(1000);
+  });
+
+  it('does not retry client errors or count them against the breaker', async () => {
+    const operation = jest.fn().mockRejectedValue(httpError(400));
+
+    await expect(callWithResilience(operation, options)).rejects.toMatchObject({ status: 400 });
+    expect(operation).toHaveBeenCalledTimes(1);
+    expect(getCircuitSnapshots()[0]).toMatchObject({ state: 'closed', consecutiveFailures: 0 });
+  });
+
+  it('aborts calls that exceed the timeout', async () => {
+    configureResilience({ timeoutMs: 10, maxRetries: 0 });
+    const operation = (signal: AbortSignal) => new Promise((_, reject) => {
+      signal.addEventListener('abort', () => reject(new Error('aborted')));
+    });
+
+    await expect(callWithResilience(operation, options)).rejects.toBeInstanceOf(LLMTimeoutError);
+  });
+
+  it('opens the breaker after repeated failures and fails fast until the reset timeout', async () => {
+    const failing = jest.fn().mockRejectedValue(httpError(503));
+
+    await expect(callWithResilience(failing, options)).rejects.toMatchObject({ status: 503 });
+    expect(failing).toHaveBeenCalledTimes(3);
+    expect(getCircuitSnapshots()[0].state).toBe('open');
+
+    const next = jest.fn().mockResolvedValue('ok');
+    const error = await callWithResilience(next, options).catch(e => e);
+    expect(error).toBeInstanceOf(CircuitOpenError);
+    expect(error.statusCode).toBe(503);
+    expect(next).not.toHaveBeenCalled();
+
+    // After the reset timeout a trial call goes through and closes the breaker
+    await new Promise(resolve => setTimeout(resolve, 60));
+    await expect(callWithResilience(next, options)).resolves.toBe('ok');
+    expect(getCircuitSnapshots()[0]).toMatchObject({ state: 'closed', consecutiveFailures: 0 });
+  });
+
+  it('checks an open breaker without claiming its trial call', async () => {
+    const breaker = getCircuitBreaker(options.provider);
+    expect(() => breaker.check(options.feature)).not.toThrow();
+
+    await callWithResilience(jest.fn().mockRejectedValue(httpError(503)), options).catch(() => undefined);
+    expect(() => breaker.check(options.feature)).toThrow(CircuitOpenError);
+
+    await new Promise(resolve => setTimeout(resolve, 60));
+    expect(() => breaker.check(options.feature)).not.toThrow();
+    expect(getCircuitSnapshots()[0].state).toBe('open');
+    await expect(callWithResilience(jest.fn().mockResolvedValue('ok'), options)).resolves.toBe('ok');
+  });
+});
+
+describe('getRetryAfterMs', () => {
+  it('reads seconds and HTTP dates', () => {
+    expect(getRetryAfterMs(httpError(429, { 'retry-after': '2' }))).toBe(2000);
+    expect(getRetryAfterMs(httpError(429, { 'retry-after': new Date(Date.now() - 1000).toUTCString() }))).toBe(0);
+    expect(getRetryAfterMs(httpError(429))).toBeUndefined();
+  });
+});
@@ -0,0 +1,86 @@
+import { z } from 'zod';
+import { generateStructured, parseJsonOutput, setLLMProvider, StructuredOutputError } from '../index';
+import { LLMProvider, LLMRequest } from '../types';
+
+/**
+ * Replies with the queued responses in order and records every request
+ */
+class QueuedProvider implements LLMProvider {
+  readonly name = 'queued';
+  requests: LLMRequest[] = [];
+
+  constructor(private responses: string[]) {}
+
+  isConfigured(): boolean {
+    return true;
+  }
+
+  async complete(request: LLMRequest) {
+    this.requests.push(request);
+    const text = this.responses.shift() ?? '';
+    return { text, model: request.model, provider: this.name, usage: { inputTokens: 0, outputTokens: 0 } };
+  }
+
+  async *stream(): AsyncIterable<string> {
+    throw new Error('not used');
+  }
+}
+
+const schema = z.object({
+  suggestions: z.array(z.string()).min(1),
+  feedback: z.string(),
+});
+
+const request: LLMRequest = {
+  feature: 'framework.suggestions',
+  model: 'test-model',
+  messages: [{ role: 'user', content: 'Suggest something' }],
+  maxTokens: 100,
+};
+
+describe('generateStructured', () => {
+  afterEach(() => setLLMProvider(null));
+
+  it('returns output that matches the schema on the first attempt', async () => {
+    const provider = new QueuedProvider(['```json\n{"suggestions": ["a"], "feedback": "ok"}\n```']);
+    setLLMProvider(provider);
+
+    await expect(generateStructured(request, schema)).resolves.toEqual({ suggestions: ['a'], feedback: 'ok' });
+    expect(provider.requests).toHaveLength(1);
+  });
+
+  it('feeds validation errors back to the model and uses the corrected reply', async () => {
+    const provider = new QueuedProvider([
+      '{"suggestions": [], "feedback": "ok"}',
+      '{"suggestions": ["fixed"], "feedback": "ok"}',
+    ]);
+    setLLMProvider(provider);
+
+    await expect(generateStructured(request, schema)).resolves.toEqual({ suggestions: ['fixed'], feedback: 'ok' });
+
+    const repair = provider.requests[1].messages;
+    expect(repair).toHaveLength(3);
+    expect(repair[1]).toEqual({ role: 'assistant', content: '{"suggestions": [], "feedback": "ok"}' });
+    expect(repair[2].content).toContain('- suggestions: Array must contain at least 1 element(s)');
+  });
+
+  it('throws a typed error once the repairs are used up', async () => {
+    const provider = new QueuedProvider(['not json', 'still not json']);
+    setLLMProvider(provider);
+
+    const error = await generateStructured(request, schema, { maxRepairs: 1 }).catch(e => e);
+
+    expect(error).toBeInstanceOf(StructuredOutputError);
+    expect(error.feature).toBe('framework.suggestions');
+    expect(error.attempts).toBe(2);
+    expect(error.statusCode).toBe(502);
+    expect(error.issues[0]).toMatch(/not valid JSON/);
+    expect(provider.requests).toHaveLength(2);
+  });
+});
+
+describe('parseJsonOutput', () => {
+  it('finds the JSON value inside surrounding prose', () => {
+    expect(parseJsonOutput('Here you go:\n[{"description": "x"}]\nHope this helps')).toEqual([{ description: 'x' }]);
+  });
+});
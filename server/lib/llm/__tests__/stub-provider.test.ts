@@ -0,0 +1,90 @@
+import path from 'path';
+import { StubProvider } from '../stub-provider';
+import { createProvider, generateText, setLLMProvider, isLLMAvailable } from '../index';
+
+const fixturesDir = path.resolve(__dirname, '../fixtures');
+
+describe('StubProvider', () => {
+  const request = {
+    feature: 'reflection.follow-up',
+    model: 'claude-3-7-sonnet-20250219',
+    messages: [{ role: 'user' as const, content: 'I struggled to pray on time today.' }],
+    maxTokens: 1024,
+  };
+
+  it('returns the same response for the same request', async () => {
+    const provider = new StubProvider(fixturesDir);
+    const first = await provider.complete(request);
+    const second = await provider.complete(request);
+
+    expect(first.text).toBe(second.text);
+    expect(first.provider).toBe('stub');
+    expect(first.usage.inputTokens).toBeGreaterThan(0);
+  });
+
+  it('serves fixtures in the format the generator parses', async () => {
+    const provider = new StubProvider(fixturesDir);
+    const response = await provider.complete(request);
+
+    expect(response.text).toMatch(/<UNDERSTANDING_RESPONSE>[\s\S]*<\/UNDERSTANDING_RESPONSE>/);
+    expect(response.text).toMatch(/Q1:[\s\S]*Q2:[\s\S]*Q3:/);
+  });
+
+  it('uses in-memory fixtures when set', async () => {
+    const provider = new StubProvider(fixturesDir);
+    provider.setFixture('custom.feature', ['only answer']);
+
+    const response = await provider.complete({ ...request, feature: 'custom.feature' });
+    expect(response.text).toBe('only answer');
+  });
+
+  it('streams the same text it would return from complete()', async () => {
+    const provider = new StubProvider(fixturesDir);
+    const chunks: string[] = [];
+    for await (const chunk of provider.stream(request)) {
+      chunks.push(chunk);
+    }
+
+    const response = await provider.complete(request);
+    expect(chunks.length).toBeGreaterThan(1);
+    expect(chunks.join('')).toBe(response.text);
+  });
+
+  it('throws for a feature without fixtures', async () => {
+    const provider = new StubProvider(fixturesDir);
+    await expect(provider.complete({ ...request, feature: 'missing.feature' }))
+      .rejects
+      .toThrow('No stub fixture for feature "missing.feature"');
+  });
+});
+
+describe('provider selection', () => {
+  afterEach(() => {
+    setLLMProvider(null);
+  });
+
+  it('creates providers by name', () => {
+    expect(createProvider('stub').name).toBe('stub');
+    expect(createProvider('anthropic').name).toBe('anthropic');
+    expect(createProvider('openai-compatible').name).toBe('openai-compatible');
+  });
+
+  it('rejects unknown provider names', () => {
+    expect(() => createProvider('unknown')).toThrow('Unknown LLM_PROVIDER');
+  });
+
+  it('routes generateText through the active provider', async () => {
+    const stub = new StubProvider(fixturesDir);
+    stub.setFixture('test.feature', ['stubbed']);
+    setLLMProvider(stub);
+
+    expect(isLLMAvailable()).toBe(true);
+    const response = await generateText({
+      feature: 'test.feature',
+      model: 'claude-3-haiku-20240307',
+      messages: [{ role: 'user', content: 'hello' }],
+      maxTokens: 10,
+    });
+    expect(response.text).toBe('stubbed');
+  });
+});
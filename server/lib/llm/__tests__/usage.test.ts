@@ -0,0 +1,124 @@
+import type { InsertLlmUsage, LlmUsage } from '@shared/schema';
+import { configureUsage, generateText, runWithUsageScope, setLLMProvider, setUsageStore, summarizeUsage } from '../index';
+import { QuotaExceededError } from '../errors';
+import { LLMProvider, LLMRequest } from '../types';
+import { UsageStore } from '../usage';
+
+class FixedProvider implements LLMProvider {
+  readonly name = 'fixed';
+  calls = 0;
+
+  isConfigured(): boolean {
+    return true;
+  }
+
+  async complete(request: LLMRequest) {
+    this.calls++;
+    return { text: 'ok', model: 'fixed-model', provider: this.name, usage: { inputTokens: 30, outputTokens: 20 } };
+  }
+
+  async *stream(): AsyncIterable<string> {
+    throw new Error('not used');
+  }
+}
+
+class ArrayStore implements UsageStore {
+  records: LlmUsage[] = [];
+
+  async recordLlmUsage(usage: InsertLlmUsage): Promise<LlmUsage> {
+    const record = { ...usage, userId: usage.userId ?? null, id: this.records.length + 1, createdAt: new Date() };
+    this.records.push(record);
+    return record;
+  }
+
+  async getLlmTokensUsed(userId: string, since: Date): Promise<number> {
+    return this.records
+      .filter(record => record.userId === userId && record.createdAt >= since)
+      .reduce((total, record) => total + record.inputTokens + record.outputTokens, 0);
+  }
+}
+
+const request: LLMRequest = {
+  feature: 'halaqa.actions',
+  model: 'test-model',
+  messages: [{ role: 'user', content: 'Suggest actions' }],
+  maxTokens: 100,
+};
+
+const asUser = <T>(userId: string, operation: () => Promise<T>) =>
+  runWithUsageScope({ getUserId: () => userId, feature: 'halaqa.analyze' }, operation);
+
+describe('usage metering', () => {
+  let provider: FixedProvider;
+  let store: ArrayStore;
+
+  beforeEach(() => {
+    provider = new FixedProvider();
+    store = new ArrayStore();
+    setLLMProvider(provider);
+    setUsageStore(store);
+    configureUsage({ dailyTokenQuota: 100, monthlyTokenQuota: null });
+  });
+
+  afterAll(() => {
+    setLLMProvider(null);
+    setUsageStore(null);
+    configureUsage();
+  });
+
+  it('records tokens, model and feature against the calling user', async () => {
+    await asUser('user-1', () => generateText(request));
+
+    expect(store.records).toEqual([expect.objectContaining({
+      userId: 'user-1',
+      feature: 'halaqa.analyze',
+      generator: 'halaqa.actions',
+      provider: 'fixed',
+      model: 'fixed-model',
+      inputTokens: 30,
+      outputTokens: 20,
+    })]);
+  });
+
+  it('refuses calls once the daily quota is used up and reports the remaining quota', async () => {
+    await asUser('user-1', () => generateText(request));
+    await asUser('user-1', () => generateText(request));
+
+    const error = await asUser('user-1', () => generateText(request)).catch(e => e);
+
+    expect(error).toBeInstanceOf(QuotaExceededError);
+    expect(error.statusCode).toBe(429);
+    expect(error.headers()).toMatchObject({
+      'X-Quota-Daily-Limit': '100',
+      'X-Quota-Daily-Remaining': '0',
+    });
+    expect(error.headers()).not.toHaveProperty('X-Quota-Monthly-Limit');
+    expect(provider.calls).toBe(2);
+
+    // Other users have their own allowance
+    await expect(asUser('user-2', () => generateText(request))).resolves.toMatchObject({ text: 'ok' });
+  });
+});
+
+describe('summarizeUsage', () => {
+  it('totals usage per feature and per day, including days without calls', () => {
+    const record = (feature: string, createdAt: string): LlmUsage => ({
+      id: 1, userId: 'user-1', feature, generator: feature, provider: 'fixed', model: 'm',
+      inputTokens: 10, outputTokens: 5, createdAt: new Date(createdAt),
+    });
+
+    const summary = summarizeUsage(
+      [record('halaqa.analyze', '2024-03-03T10:00:00Z'), record('halaqa.analyze', '2024-03-01T10:00:00Z'), record('wird.generate-suggestions', '2024-03-01T11:00:00Z')],
+      new Date('2024-03-01T00:00:00Z'),
+      new Date('2024-03-03T12:00:00Z')
+    );
+
+    expect(summary.totals).toEqual({ calls: 3, inputTokens: 30, outputTokens: 15 });
+    expect(summary.byFeature[0]).toEqual({ feature: 'halaqa.analyze', calls: 2, inputTokens: 20, outputTokens: 10 });
+    expect(summary.daily.map(day => [day.date, day.calls])).toEqual([
+      ['2024-03-01', 2],
+      ['2024-03-02', 0],
+      ['2024-03-03', 1],
+    ]);
+  });
+});
@@ -0,0 +1,70 @@
+import Anthropic from '@anthropic-ai/sdk';
+import { LLMCallOptions, LLMProvider, LLMRequest, LLMResponse, LLMStreamOptions } from './types';
+
+/**
+ * Basic validation to check if it's a potentially valid Anthropic key
+ */
+export function isValidApiKey(key: string): boolean {
+  return key.startsWith('sk-ant-') && key.length > 30;
+}
+
+/**
+ * Provider backed by the Anthropic Messages API
+ */
+export class AnthropicProvider implements LLMProvider {
+  readonly name = 'anthropic';
+  private client: Anthropic;
+  private apiKey: string;
+
+  constructor(apiKey: string = process.env.ANTHROPIC_API_KEY || '') {
+    this.apiKey = apiKey;
+    // Retries are handled by the shared call wrapper in ./resilience
+    this.client = new Anthropic({ apiKey, maxRetries: 0 });
+  }
+
+  isConfigured(): boolean {
+    return isValidApiKey(this.apiKey);
+  }
+
+  async complete(request: LLMRequest, options: LLMCallOptions = {}): Promise<LLMResponse> {
+    const response = await this.client.messages.create({
+      model: request.model,
+      ...(request.system ? { system: request.system } : {}),
+      messages: request.messages,
+      max_tokens: request.maxTokens,
+      ...(request.temperature !== undefined ? { temperature: request.temperature } : {}),
+    }, { signal: options.signal });
+
+    // Concatenate all text blocks; tool or other block types are not used by our generators
+    const text = response.content
+      .map(block => (block.type === 'text' ? block.text || '' : ''))
+      .join('');
+
+    return {
+      text,
+      model: response.model,
+      provider: this.name,
+      usage: {
+        inputTokens: response.usage?.input_tokens ?? 0,
+        outputTokens: response.usage?.output_tokens ?? 0,
+      },
+    };
+  }
+
+  async *stream(request: LLMRequest, options: LLMStreamOptions = {}): AsyncIterable<string> {
+    const events = await this.client.messages.create({
+      model: request.model,
+      ...(request.system ? { system: request.system } : {}),
+      messages: request.messages,
+      max_tokens: request.maxTokens,
+      ...(request.temperature !== undefined ? { temperature: request.temperature } : {}),
+      stream: true,
+    }, { signal: options.signal });
+
+    for await (const event of events) {
+      if (event.type === 'content_block_delta' && event.delta?.type === 'text_delta' && event.delta.text) {
+        yield event.delta.text;
+      }
+    }
+  }
+}
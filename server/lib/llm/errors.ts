@@ -0,0 +1,181 @@
+/**
+ * Errors raised by the LLM layer. Generators let these propagate so routes
+ * can decide whether to fall back and report it to the client.
+ */
+import { AppError } from '../../utils/errors';
+
+/**
+ * No provider is configured (missing API key, endpoint or fixtures)
+ */
+export class LLMUnavailableError extends AppError {
+  feature: string;
+
+  constructor(feature: string) {
+    super(`No LLM provider is configured to serve "${feature}"`, 503);
+    this.feature = feature;
+  }
+}
+
+/**
+ * The model's output still failed schema validation after the repair attempts
+ */
+export class StructuredOutputError extends AppError {
+  feature: string;
+  /** Validation problems from the final attempt, one per line */
+  issues: string[];
+  attempts: number;
+  /** The last raw model output, kept for logging */
+  output: string;
+
+  constructor(feature: string, issues: string[], attempts: number, output: string) {
+    super(`Invalid ${feature} output after ${attempts} attempt(s): ${issues.join('; ')}`, 502);
+    this.feature = feature;
+    this.issues = issues;
+    this.attempts = attempts;
+    this.output = output;
+  }
+}
+
+/**
+ * A provider call exceeded LLM_TIMEOUT_MS
+ */
+export class LLMTimeoutError extends AppError {
+  feature: string;
+
+  constructor(feature: string, timeoutMs: number) {
+    super(`${feature} timed out after ${timeoutMs}ms`, 504);
+    this.feature = feature;
+  }
+}
+
+/**
+ * The recorded-response provider has no reply for a request and no upstream
+ * provider to record one from
+ */
+export class MissingRecordingError extends AppError {
+  feature: string;
+
+  constructor(feature: string) {
+    super(`No recorded response for "${feature}"; record one with an upstream provider`, 503);
+    this.feature = feature;
+  }
+}
+
+/**
+ * A call refused before it reached the provider, or by a provider asking to
+ * be left alone for longer than we retry. Generators and fallbacks let these
+ * propagate so routes can answer with the error's status and headers (see
+ * handleRejectedLLMCall) instead of serving canned output.
+ */
+export abstract class LLMCallRejectedError extends AppError {
+  feature: string;
+  /** Machine-readable reason returned to the client */
+  abstract readonly code: string;
+
+  constructor(message: string, statusCode: number, feature: string) {
+    super(message, statusCode);
+    this.feature = feature;
+  }
+
+  /** Response headers telling the client when it may try again */
+  abstract headers(): Record<string, string>;
+}
+
+function retryAfterSeconds(ms: number): string {
+  return String(Math.max(Math.ceil(ms / 1000), 1));
+}
+
+/**
+ * The provider's circuit breaker is open after repeated upstream failures, so
+ * the call was not attempted
+ */
+export class CircuitOpenError extends LLMCallRejectedError {
+  readonly code = 'AI_UNAVAILABLE';
+  provider: string;
+  retryAfterMs: number;
+
+  constructor(provider: string, feature: string, retryAfterMs: number) {
+    super(`AI service (${provider}) is temporarily unavailable after repeated failures; try again shortly`, 503, feature);
+    this.provider = provider;
+    this.retryAfterMs = retryAfterMs;
+  }
+
+  headers(): Record<string, string> {
+    return { 'Retry-After': retryAfterSeconds(this.retryAfterMs) };
+  }
+}
+
+/**
+ * The provider's retry-after asked for a longer wait than LLM_RETRY_MAX_MS,
+ * so the call was given up rather than holding the request open. A 429 from
+ * the provider stays a 429; anything else (529 overloaded, 503) is a 503.
+ */
+export class ProviderBackoffError extends LLMCallRejectedError {
+  readonly code = 'AI_RATE_LIMITED';
+  provider: string;
+  retryAfterMs: number;
+
+  constructor(provider: string, feature: string, retryAfterMs: number, providerStatus?: number) {
+    super(`AI service (${provider}) is busy; try again later`, providerStatus === 429 ? 429 : 503, feature);
+    this.provider = provider;
+    this.retryAfterMs = retryAfterMs;
+  }
+
+  headers(): Record<string, string> {
+    return { 'Retry-After': retryAfterSeconds(this.retryAfterMs) };
+  }
+}
+
+export type QuotaPeriod = 'daily' | 'monthly';
+
+export interface QuotaWindow {
+  /** Token allowance for the period; null when unlimited */
+  limit: number | null;
+  used: number;
+  remaining: number | null;
+  /** When the period's usage starts counting from zero again */
+  resetsAt: string;
+}
+
+export interface QuotaStatus {
+  daily: QuotaWindow;
+  monthly: QuotaWindow;
+}
+
+/**
+ * The user has used up their daily or monthly token allowance
+ */
+export class QuotaExceededError extends LLMCallRejectedError {
+  readonly code = 'QUOTA_EXCEEDED';
+  period: QuotaPeriod;
+  quota: QuotaStatus;
+
+  constructor(feature: string, period: QuotaPeriod, quota: QuotaStatus) {
+    super(`You have used your ${period} AI allowance; it resets at ${quota[period].resetsAt}`, 429, feature);
+    this.period = period;
+    this.quota = quota;
+  }
+
+  headers(): Record<string, string> {
+    return {
+      ...quotaHeaders(this.quota),
+      'Retry-After': retryAfterSeconds(Date.parse(this.quota[this.period].resetsAt) - Date.now()),
+    };
+  }
+}
+
+/**
+ * X-Quota-* headers describing the remaining allowance; unlimited periods are omitted
+ */
+export function quotaHeaders(quota: QuotaStatus): Record<string, string> {
+  const headers: Record<string, string> = {};
+  for (const period of ['daily', 'monthly'] as const) {
+    const window = quota[period];
+    if (window.limit === null) continue;
+    const name = period === 'daily' ? 'Daily' : 'Monthly';
+    headers[`X-Quota-${name}-Limit`] = String(window.limit);
+    headers[`X-Quota-${name}-Remaining`] = String(window.remaining);
+    headers[`X-Quota-${name}-Reset`] = window.resetsAt;
+  }
+  return headers;
+}
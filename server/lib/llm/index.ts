@@ -0,0 +1,186 @@
+/**
+ * Pluggable LLM provider layer
+ *
+ * All generators in server/lib/anthropic.ts go through generateText(), which
+ * dispatches to the provider selected by LLM_PROVIDER:
+ *   - "anthropic" (default): Anthropic Messages API, needs ANTHROPIC_API_KEY
+ *   - "openai-compatible": local/self-hosted endpoint, needs LLM_BASE_URL and LLM_MODEL
+ *   - "stub": deterministic fixture-backed responses, optionally from LLM_FIXTURES_DIR
+ *
+ * Every call goes through the timeout/retry/circuit breaker policy in
+ * ./resilience, configured with the LLM_TIMEOUT_MS, LLM_MAX_RETRIES and
+ * LLM_BREAKER_* environment variables, and is metered against the calling
+ * user's token quota by ./usage (LLM_DAILY_TOKEN_QUOTA, LLM_MONTHLY_TOKEN_QUOTA).
+ */
+import { createLogger } from '../logger';
+import { AnthropicProvider } from './anthropic-provider';
+import { OpenAICompatibleProvider } from './openai-compatible-provider';
+import { StubProvider, DEFAULT_FIXTURES_DIR, estimateTokens } from './stub-provider';
+import { callWithResilience, createDeadline, getCircuitBreaker, isTransientError, getResilienceConfig } from './resilience';
+import { checkQuota, recordUsage } from './usage';
+import { LLMProvider, LLMRequest, LLMResponse, LLMStreamOptions } from './types';
+import type { QuotaStatus } from './errors';
+
+export * from './types';
+export { AnthropicProvider, isValidApiKey } from './anthropic-provider';
+export { OpenAICompatibleProvider } from './openai-compatible-provider';
+export { StubProvider, estimateTokens } from './stub-provider';
+export { RecordedProvider, requestHash, loadRecordings, saveRecordings } from './recorded-provider';
+export type { Recording, RecordedCall, RecordedCallSource } from './recorded-provider';
+export * from './errors';
+export { generateStructured, repairStructured, parseJsonOutput, DEFAULT_MAX_REPAIRS } from './structured';
+export type { StructuredOptions } from './structured';
+export { getCircuitSnapshots, configureResilience, resetCircuitBreakers } from './resilience';
+export type { CircuitSnapshot, CircuitState, ResilienceConfig } from './resilience';
+export {
+  configureUsage,
+  getQuotaStatus,
+  getUsageConfig,
+  runWithUsageScope,
+  setUsageStore,
+  startOfUtcDay,
+  startOfUtcMonth,
+  summarizeUsage,
+} from './usage';
+export type { UsageConfig, UsageScope, UsageStore, UsageSummary, UsageTotals } from './usage';
+
+const logger = createLogger('llm');
+
+export type LLMProviderName = 'anthropic' | 'openai-compatible' | 'stub';
+
+/**
+ * Create a provider from environment configuration
+ */
+export function createProvider(name: string = process.env.LLM_PROVIDER || 'anthropic'): LLMProvider {
+  switch (name) {
+    case 'anthropic':
+      return new AnthropicProvider();
+    case 'openai-compatible':
+      return new OpenAICompatibleProvider({
+        baseUrl: process.env.LLM_BASE_URL || 'http://localhost:11434/v1',
+        model: process.env.LLM_MODEL || '',
+        apiKey: process.env.LLM_API_KEY,
+      });
+    case 'stub':
+      return new StubProvider(process.env.LLM_FIXTURES_DIR || DEFAULT_FIXTURES_DIR);
+    default:
+      throw new Error(`Unknown LLM_PROVIDER "${name}". Expected one of: anthropic, openai-compatible, stub`);
+  }
+}
+
+let activeProvider: LLMProvider | null = null;
+
+/**
+ * Get the provider used by the generators, creating it from config on first use
+ */
+export function getLLMProvider(): LLMProvider {
+  if (!activeProvider) {
+    activeProvider = createProvider();
+    logger.info(`Using LLM provider: ${activeProvider.name}`);
+  }
+  return activeProvider;
+}
+
+/**
+ * Replace the active provider (tests, eval runs). Pass null to reset to config.
+ */
+export function setLLMProvider(provider: LLMProvider | null): void {
+  activeProvider = provider;
+}
+
+/**
+ * Whether the active provider can serve requests. Generators use this to
+ * return their canned fallbacks without attempting a call.
+ */
+export function isLLMAvailable(): boolean {
+  return getLLMProvider().isConfigured();
+}
+
+/**
+ * Run the quota and circuit breaker checks a call for `feature` would make,
+ * without making it. Streaming routes call this before committing to a 200
+ * event stream, so a refused call still gets its own status and headers.
+ * Returns the caller's quota when one applies.
+ */
+export async function checkLLMCallAllowed(feature: string): Promise<QuotaStatus | null> {
+  const quota = await checkQuota({ feature });
+  getCircuitBreaker(getLLMProvider().name).check(feature);
+  return quota;
+}
+
+/**
+ * Single entry point for text generation
+ */
+export async function generateText(request: LLMRequest): Promise<LLMResponse> {
+  const provider = getLLMProvider();
+  logger.debug(`${request.feature} -> ${provider.name} (${request.model})`);
+  await checkQuota(request);
+
+  const response = await callWithResilience(
+    (signal) => provider.complete(request, { signal }),
+    { feature: request.feature, provider: provider.name }
+  );
+  await recordUsage(request, { provider: response.provider, model: response.model, ...response.usage });
+  return response;
+}
+
+/**
+ * Streaming entry point; yields text deltas from the active provider.
+ * Failures before the first delta are retried like generateText(); once text
+ * has been yielded the stream can't be replayed, so later errors are thrown.
+ * The timeout applies to the gap between deltas rather than the whole stream.
+ * Providers don't report usage for streams, so it is estimated from the text.
+ */
+export async function* streamText(request: LLMRequest, options: LLMStreamOptions = {}): AsyncIterable<string> {
+  const provider = getLLMProvider();
+  logger.debug(`${request.feature} -> ${provider.name} (${request.model}, streaming)`);
+  await checkQuota(request);
+
+  const breaker = getCircuitBreaker(provider.name);
+  const { timeoutMs } = getResilienceConfig();
+
+  // Open the stream and wait for its first delta with the usual retry policy.
+  // The stream's own deadline outlives this attempt, so it also follows the
+  // caller's signal directly.
+  let deadline: ReturnType<typeof createDeadline> | undefined;
+  const opened = await callWithResilience(async (signal) => {
+    const attemptDeadline = createDeadline(request.feature, timeoutMs, signal, options.signal);
+    try {
+      const iterator = provider.stream(request, { signal: attemptDeadline.signal })[Symbol.asyncIterator]();
+      const first = await iterator.next();
+      deadline = attemptDeadline;
+      return { iterator, first };
+    } catch (error) {
+      attemptDeadline.dispose();
+      throw attemptDeadline.timeoutError() ?? error;
+    }
+  }, { feature: request.feature, provider: provider.name, signal: options.signal });
+
+  const { iterator } = opened;
+  let next = opened.first;
+  let output = '';
+  try {
+    while (!next.done) {
+      output += next.value;
+      yield next.value;
+      deadline!.touch();
+      next = await iterator.next();
+    }
+  } catch (error) {
+    const cause = deadline!.timeoutError() ?? error;
+    if (!options.signal?.aborted && isTransientError(cause)) {
+      breaker.recordFailure(cause);
+    }
+    throw cause;
+  } finally {
+    deadline!.dispose();
+    // Stop the upstream generation if the consumer stopped early
+    if (!next.done) await iterator.return?.();
+    await recordUsage(request, {
+      provider: provider.name,
+      model: request.model,
+      inputTokens: estimateTokens([request.system ?? '', ...request.messages.map(message => message.content)].join('\n')),
+      outputTokens: estimateTokens(output),
+    });
+  }
+}
@@ -0,0 +1,133 @@
+import { LLMCallOptions, LLMProvider, LLMRequest, LLMResponse, LLMStreamOptions } from './types';
+
+export interface OpenAICompatibleConfig {
+  /** Base URL of the server, e.g. http://localhost:11434/v1 for Ollama */
+  baseUrl: string;
+  /** Model served by the endpoint; requested Claude model ids are replaced by this */
+  model: string;
+  apiKey?: string;
+}
+
+/**
+ * Error for a non-2xx reply, carrying status and headers (retry-after) like
+ * the Anthropic SDK's errors do
+ */
+async function endpointError(response: Response): Promise<Error> {
+  const body = await response.text().catch(() => '');
+  const error: any = new Error(`OpenAI-compatible endpoint returned ${response.status}: ${body}`);
+  error.status = response.status;
+  error.headers = Object.fromEntries(response.headers.entries());
+  return error;
+}
+
+/**
+ * The request's messages, led by its system prompt as a "system" role message
+ */
+function chatMessages(request: LLMRequest): Array<{ role: string; content: string }> {
+  return request.system
+    ? [{ role: 'system', content: request.system }, ...request.messages]
+    : request.messages;
+}
+
+/**
+ * Provider for local or self-hosted endpoints speaking the OpenAI
+ * chat completions protocol (Ollama, llama.cpp server, vLLM, LM Studio)
+ */
+export class OpenAICompatibleProvider implements LLMProvider {
+  readonly name = 'openai-compatible';
+  private config: OpenAICompatibleConfig;
+
+  constructor(config: OpenAICompatibleConfig) {
+    this.config = {
+      ...config,
+      baseUrl: config.baseUrl.replace(/\/+$/, ''),
+    };
+  }
+
+  isConfigured(): boolean {
+    return !!this.config.baseUrl && !!this.config.model;
+  }
+
+  async complete(request: LLMRequest, options: LLMCallOptions = {}): Promise<LLMResponse> {
+    const response = await fetch(`${this.config.baseUrl}/chat/completions`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(this.config.apiKey ? { Authorization: `Bearer ${this.config.apiKey}` } : {}),
+      },
+      body: JSON.stringify({
+        model: this.config.model,
+        messages: chatMessages(request),
+        max_tokens: request.maxTokens,
+        ...(request.temperature !== undefined ? { temperature: request.temperature } : {}),
+      }),
+      signal: options.signal,
+    });
+
+    if (!response.ok) {
+      throw await endpointError(response);
+    }
+
+    const data: any = await response.json();
+
+    return {
+      text: data.choices?.[0]?.message?.content ?? '',
+      model: data.model || this.config.model,
+      provider: this.name,
+      usage: {
+        inputTokens: data.usage?.prompt_tokens ?? 0,
+        outputTokens: data.usage?.completion_tokens ?? 0,
+      },
+    };
+  }
+
+  async *stream(request: LLMRequest, options: LLMStreamOptions = {}): AsyncIterable<string> {
+    const response = await fetch(`${this.config.baseUrl}/chat/completions`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(this.config.apiKey ? { Authorization: `Bearer ${this.config.apiKey}` } : {}),
+      },
+      body: JSON.stringify({
+        model: this.config.model,
+        messages: chatMessages(request),
+        max_tokens: request.maxTokens,
+        ...(request.temperature !== undefined ? { temperature: request.temperature } : {}),
+        stream: true,
+      }),
+      signal: options.signal,
+    });
+
+    if (!response.ok || !response.body) {
+      throw await endpointError(response);
+    }
+
+    // The endpoint streams server-sent events: "data: {json}" lines terminated by "data: [DONE]"
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      buffer += decoder.decode(value, { stream: true });
+
+      const lines = buffer.split('\n');
+      buffer = lines.pop() || '';
+
+      for (const line of lines) {
+        const trimmed = line.trim();
+        if (!trimmed.startsWith('data:')) continue;
+        const payload = trimmed.slice(5).trim();
+        if (payload === '[DONE]') return;
+
+        try {
+          const delta = JSON.parse(payload).choices?.[0]?.delta?.content;
+          if (delta) yield delta;
+        } catch {
+          // Ignore keep-alive or malformed lines
+        }
+      }
+    }
+  }
+}
@@ -0,0 +1,147 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { MissingRecordingError } from './errors';
+import { estimateTokens } from './stub-provider';
+import { LLMCallOptions, LLMProvider, LLMRequest, LLMResponse, LLMStreamOptions } from './types';
+
+/**
+ * A reply captured from a real provider
+ */
+export interface Recording {
+  feature: string;
+  /** requestHash() of the request that produced the reply */
+  requestHash: string;
+  text: string;
+}
+
+/**
+ * Shape of a recordings file
+ */
+interface RecordingsFile {
+  recordings: Recording[];
+}
+
+/**
+ * How a call was answered:
+ *   - "recording": a reply recorded for exactly this request
+ *   - "stale-recording": no exact match, so the next unused reply recorded for
+ *     the same feature (the prompt changed since it was recorded)
+ *   - "upstream": a fresh reply from the upstream provider, now recorded
+ */
+export type RecordedCallSource = 'recording' | 'stale-recording' | 'upstream';
+
+export interface RecordedCall extends Recording {
+  source: RecordedCallSource;
+}
+
+/**
+ * Stable hash of everything that shapes a reply: feature, model, system
+ * prompt and messages
+ */
+export function requestHash(request: LLMRequest): string {
+  const { feature, model, system, messages } = request;
+  return crypto
+    .createHash('sha256')
+    .update(JSON.stringify({ feature, model, system: system ?? null, messages }))
+    .digest('hex')
+    .slice(0, 16);
+}
+
+export function loadRecordings(file: string): Recording[] {
+  if (!fs.existsSync(file)) return [];
+  const { recordings } = JSON.parse(fs.readFileSync(file, 'utf8')) as RecordingsFile;
+  return Array.isArray(recordings) ? recordings : [];
+}
+
+export function saveRecordings(file: string, recordings: Recording[]): void {
+  const contents: RecordingsFile = { recordings };
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  fs.writeFileSync(file, JSON.stringify(contents, null, 2) + '\n');
+}
+
+/**
+ * Replays previously recorded replies, for evaluating generators offline.
+ * With an upstream provider, requests that have no exact recording are sent
+ * upstream and the reply is recorded; without one, they get the next unused
+ * recording for the feature, flagged stale, so runs keep working after a
+ * prompt change until the fixtures are re-recorded.
+ */
+export class RecordedProvider implements LLMProvider {
+  readonly name = 'recorded';
+  /** Every call answered, in order */
+  readonly calls: RecordedCall[] = [];
+  private recordings: Recording[];
+  private upstream?: LLMProvider;
+  private used = new Set<Recording>();
+
+  constructor(recordings: Recording[] = [], upstream?: LLMProvider) {
+    this.recordings = recordings;
+    this.upstream = upstream;
+  }
+
+  isConfigured(): boolean {
+    return true;
+  }
+
+  /**
+   * The replies served so far, exact and fresh ones only: what a recordings
+   * file should contain after a recording run
+   */
+  servedRecordings(): Recording[] {
+    return this.calls
+      .filter(call => call.source !== 'stale-recording')
+      .map(({ feature, requestHash, text }) => ({ feature, requestHash, text }));
+  }
+
+  private async reply(request: LLMRequest, options?: LLMCallOptions): Promise<RecordedCall> {
+    const hash = requestHash(request);
+    const unused = this.recordings.filter(r => r.feature === request.feature && !this.used.has(r));
+
+    const exact = unused.find(r => r.requestHash === hash);
+    if (exact) {
+      this.used.add(exact);
+      return { ...exact, source: 'recording' };
+    }
+
+    if (this.upstream) {
+      const response = await this.upstream.complete(request, options);
+      return { feature: request.feature, requestHash: hash, text: response.text, source: 'upstream' };
+    }
+
+    if (unused.length > 0) {
+      this.used.add(unused[0]);
+      return { ...unused[0], requestHash: hash, source: 'stale-recording' };
+    }
+
+    throw new MissingRecordingError(request.feature);
+  }
+
+  async complete(request: LLMRequest, options?: LLMCallOptions): Promise<LLMResponse> {
+    const call = await this.reply(request, options);
+    this.calls.push(call);
+
+    return {
+      text: call.text,
+      model: `recorded:${request.model}`,
+      provider: this.name,
+      usage: {
+        inputTokens: estimateTokens([request.system ?? '', ...request.messages.map(m => m.content)].join('\n')),
+        outputTokens: estimateTokens(call.text),
+      },
+    };
+  }
+
+  /**
+   * Streams the same text complete() would return, split on word boundaries
+   */
+  async *stream(request: LLMRequest, options: LLMStreamOptions = {}): AsyncIterable<string> {
+    const { text } = await this.complete(request, options);
+    const chunks = text.match(/\S+\s*|\s+/g) || [];
+
+    for (const chunk of chunks) {
+      if (options.signal?.aborted) return;
+      yield chunk;
+    }
+  }
+}
@@ -0,0 +1,364 @@
+/**
+ * Timeouts, retries and circuit breaking for provider calls
+ *
+ * generateText() and streamText() run every upstream call through
+ * callWithResilience(), which:
+ *   - aborts a call that takes longer than LLM_TIMEOUT_MS (for streams, the
+ *     longest allowed gap between chunks)
+ *   - retries transient failures (429, 529 overloaded, 5xx, timeouts, network
+ *     errors) up to LLM_MAX_RETRIES times with jittered exponential backoff,
+ *     waiting at least as long as the provider's retry-after header asks.
+ *     No wait is longer than LLM_RETRY_MAX_MS: a provider asking for more
+ *     fails the call at once with ProviderBackoffError (429 or 503)
+ *   - counts consecutive transient failures per provider and, after
+ *     LLM_BREAKER_THRESHOLD of them, opens a circuit breaker so further calls
+ *     fail immediately with CircuitOpenError (503) for LLM_BREAKER_RESET_MS.
+ *     The next call after that is let through as a trial; success closes the
+ *     breaker, failure opens it again.
+ * Client errors such as 400/401 are neither retried nor counted against the
+ * breaker, since repeating them cannot succeed.
+ */
+import { createLogger } from '../logger';
+import { CircuitOpenError, LLMTimeoutError, ProviderBackoffError } from './errors';
+
+const logger = createLogger('llm:resilience');
+
+export interface ResilienceConfig {
+  timeoutMs: number;
+  maxRetries: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+  failureThreshold: number;
+  resetTimeoutMs: number;
+}
+
+function envNumber(name: string, fallback: number): number {
+  const value = Number(process.env[name]);
+  return Number.isFinite(value) && value >= 0 ? value : fallback;
+}
+
+export function loadResilienceConfig(): ResilienceConfig {
+  return {
+    timeoutMs: envNumber('LLM_TIMEOUT_MS', 60_000),
+    maxRetries: envNumber('LLM_MAX_RETRIES', 2),
+    baseDelayMs: envNumber('LLM_RETRY_BASE_MS', 500),
+    maxDelayMs: envNumber('LLM_RETRY_MAX_MS', 10_000),
+    failureThreshold: envNumber('LLM_BREAKER_THRESHOLD', 5),
+    resetTimeoutMs: envNumber('LLM_BREAKER_RESET_MS', 30_000),
+  };
+}
+
+let config: ResilienceConfig = loadResilienceConfig();
+
+export function getResilienceConfig(): ResilienceConfig {
+  return config;
+}
+
+/**
+ * Override parts of the configuration (tests); pass nothing to reload from env
+ */
+export function configureResilience(overrides?: Partial<ResilienceConfig>): void {
+  config = { ...loadResilienceConfig(), ...overrides };
+}
+
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+export interface CircuitSnapshot {
+  provider: string;
+  state: CircuitState;
+  consecutiveFailures: number;
+  openedAt: string | null;
+  /** When an open breaker will let a trial call through */
+  retryAt: string | null;
+  lastError: string | null;
+}
+
+/**
+ * Tracks consecutive upstream failures for one provider
+ */
+export class CircuitBreaker {
+  private state: CircuitState = 'closed';
+  private consecutiveFailures = 0;
+  private openedAt: number | null = null;
+  private lastError: string | null = null;
+  private trialInFlight = false;
+
+  constructor(readonly provider: string) {}
+
+  /**
+   * Throws CircuitOpenError if calls should not be attempted right now
+   */
+  acquire(feature: string): void {
+    if (this.state === 'closed') return;
+
+    const retryAt = (this.openedAt ?? 0) + config.resetTimeoutMs;
+    if (this.state === 'open' && Date.now() >= retryAt) {
+      this.state = 'half-open';
+      logger.info(`Circuit for ${this.provider} half-open, allowing a trial call`);
+    }
+
+    if (this.state === 'half-open' && !this.trialInFlight) {
+      this.trialInFlight = true;
+      return;
+    }
+
+    throw new CircuitOpenError(this.provider, feature, Math.max(retryAt - Date.now(), 0));
+  }
+
+  /**
+   * Throws CircuitOpenError if acquire() would refuse a call right now,
+   * without moving to half-open or claiming the trial call
+   */
+  check(feature: string): void {
+    if (this.state === 'open') {
+      const retryAt = (this.openedAt ?? 0) + config.resetTimeoutMs;
+      if (Date.now() < retryAt) {
+        throw new CircuitOpenError(this.provider, feature, retryAt - Date.now());
+      }
+    } else if (this.state === 'half-open' && this.trialInFlight) {
+      throw new CircuitOpenError(this.provider, feature, 0);
+    }
+  }
+
+  recordSuccess(): void {
+    if (this.state !== 'closed') {
+      logger.info(`Circuit for ${this.provider} closed`);
+    }
+    this.state = 'closed';
+    this.consecutiveFailures = 0;
+    this.openedAt = null;
+    this.trialInFlight = false;
+  }
+
+  recordFailure(error: unknown): void {
+    this.consecutiveFailures++;
+    this.lastError = error instanceof Error ? error.message : String(error);
+    this.trialInFlight = false;
+
+    if (this.state === 'half-open' || this.consecutiveFailures >= config.failureThreshold) {
+      if (this.state !== 'open') {
+        logger.warn(`Circuit for ${this.provider} opened after ${this.consecutiveFailures} consecutive failures`);
+      }
+      this.state = 'open';
+      this.openedAt = Date.now();
+    }
+  }
+
+  /**
+   * Release a half-open trial that ended without an upstream verdict (e.g. a
+   * client error), so the next call can try again
+   */
+  release(): void {
+    this.trialInFlight = false;
+  }
+
+  snapshot(): CircuitSnapshot {
+    const retryAt = this.state === 'open' && this.openedAt !== null
+      ? new Date(this.openedAt + config.resetTimeoutMs).toISOString()
+      : null;
+
+    return {
+      provider: this.provider,
+      state: this.state,
+      consecutiveFailures: this.consecutiveFailures,
+      openedAt: this.openedAt !== null ? new Date(this.openedAt).toISOString() : null,
+      retryAt,
+      lastError: this.lastError,
+    };
+  }
+}
+
+const breakers = new Map<string, CircuitBreaker>();
+
+export function getCircuitBreaker(provider: string): CircuitBreaker {
+  let breaker = breakers.get(provider);
+  if (!breaker) {
+    breaker = new CircuitBreaker(provider);
+    breakers.set(provider, breaker);
+  }
+  return breaker;
+}
+
+/**
+ * State of every provider's breaker, for the health endpoint
+ */
+export function getCircuitSnapshots(): CircuitSnapshot[] {
+  return Array.from(breakers.values()).map(breaker => breaker.snapshot());
+}
+
+/**
+ * Forget all breaker state (tests)
+ */
+export function resetCircuitBreakers(): void {
+  breakers.clear();
+}
+
+function headerValue(error: any, name: string): string | undefined {
+  const headers = error?.headers;
+  if (!headers) return undefined;
+  if (typeof headers.get === 'function') return headers.get(name) ?? undefined;
+  return headers[name];
+}
+
+/**
+ * Delay requested by the provider via retry-after-ms or retry-after, if any
+ */
+export function getRetryAfterMs(error: unknown): number | undefined {
+  const retryAfterMs = Number(headerValue(error, 'retry-after-ms'));
+  if (Number.isFinite(retryAfterMs) && retryAfterMs >= 0) return retryAfterMs;
+
+  const retryAfter = headerValue(error, 'retry-after');
+  if (!retryAfter) return undefined;
+
+  const seconds = Number(retryAfter);
+  if (Number.isFinite(seconds)) return Math.max(seconds * 1000, 0);
+
+  const date = Date.parse(retryAfter);
+  return Number.isNaN(date) ? undefined : Math.max(date - Date.now(), 0);
+}
+
+const NETWORK_ERROR_CODES = [
+  'ECONNRESET', 'ECONNREFUSED', 'ETIMEDOUT', 'EPIPE', 'EAI_AGAIN', 'ENOTFOUND',
+  'UND_ERR_SOCKET', 'UND_ERR_CONNECT_TIMEOUT',
+];
+
+/**
+ * Whether a failed call is worth repeating and should count against the breaker
+ */
+export function isTransientError(error: unknown): boolean {
+  if (error instanceof LLMTimeoutError) return true;
+
+  const status = (error as any)?.status;
+  if (typeof status === 'number') {
+    return status === 408 || status === 409 || status === 429 || status >= 500;
+  }
+
+  // No HTTP status: connection refused/reset, DNS failures, fetch network errors
+  const code = (error as any)?.code ?? (error as any)?.cause?.code;
+  return NETWORK_ERROR_CODES.includes(code)
+    || (error as any)?.name === 'APIConnectionError'
+    || (error instanceof TypeError && /fetch failed/i.test(error.message));
+}
+
+/**
+ * Backoff before retry number `attempt` (1-based): exponential with full
+ * jitter, but never shorter than the provider's retry-after. Null when the
+ * provider asks for longer than maxDelayMs, so the caller gives up rather
+ * than holding the request open.
+ */
+export function getRetryDelayMs(attempt: number, error: unknown): number | null {
+  const ceiling = Math.min(config.baseDelayMs * 2 ** (attempt - 1), config.maxDelayMs);
+  const jittered = Math.random() * ceiling;
+  const retryAfter = getRetryAfterMs(error);
+  if (retryAfter === undefined) return jittered;
+  return retryAfter > config.maxDelayMs ? null : Math.max(retryAfter, jittered);
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(signal.reason);
+
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal!.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+/**
+ * An AbortSignal that fires when any parent signal aborts or the timer runs
+ * out. touch() restarts the timer, for idle timeouts on streams.
+ */
+export function createDeadline(feature: string, timeoutMs: number, ...parents: Array<AbortSignal | undefined>) {
+  const controller = new AbortController();
+  const linked = parents.filter((parent): parent is AbortSignal => !!parent);
+  let timer: ReturnType<typeof setTimeout> | undefined;
+
+  const arm = () => {
+    if (timer) clearTimeout(timer);
+    if (timeoutMs > 0) {
+      timer = setTimeout(() => controller.abort(new LLMTimeoutError(feature, timeoutMs)), timeoutMs);
+    }
+  };
+  const onParentAbort = (event: Event) => controller.abort((event.target as AbortSignal).reason);
+
+  const aborted = linked.find(parent => parent.aborted);
+  if (aborted) {
+    controller.abort(aborted.reason);
+  } else {
+    linked.forEach(parent => parent.addEventListener('abort', onParentAbort, { once: true }));
+    arm();
+  }
+
+  return {
+    signal: controller.signal,
+    touch: arm,
+    /** The timeout error if the deadline (rather than the caller) aborted the call */
+    timeoutError: (): LLMTimeoutError | undefined =>
+      controller.signal.reason instanceof LLMTimeoutError ? controller.signal.reason : undefined,
+    dispose: () => {
+      if (timer) clearTimeout(timer);
+      linked.forEach(parent => parent.removeEventListener('abort', onParentAbort));
+    },
+  };
+}
+
+export interface ResilientCallOptions {
+  feature: string;
+  provider: string;
+  /** Caller's abort signal; aborting stops retries and is not counted as a failure */
+  signal?: AbortSignal;
+}
+
+/**
+ * Run a provider call with the timeout, retry and breaker policy described above
+ */
+export async function callWithResilience<T>(
+  operation: (signal: AbortSignal) => Promise<T>,
+  options: ResilientCallOptions
+): Promise<T> {
+  const breaker = getCircuitBreaker(options.provider);
+
+  for (let attempt = 0; ; attempt++) {
+    breaker.acquire(options.feature);
+    const deadline = createDeadline(options.feature, config.timeoutMs, options.signal);
+
+    try {
+      const result = await operation(deadline.signal);
+      breaker.recordSuccess();
+      return result;
+    } catch (caught) {
+      // Report timeouts as such rather than as the provider's abort error
+      const error = deadline.timeoutError() ?? caught;
+
+      if (options.signal?.aborted) {
+        breaker.release();
+        throw error;
+      }
+      if (!isTransientError(error)) {
+        breaker.release();
+        throw error;
+      }
+
+      breaker.recordFailure(error);
+      if (attempt >= config.maxRetries) throw error;
+
+      const delay = getRetryDelayMs(attempt + 1, error);
+      if (delay === null) {
+        throw new ProviderBackoffError(options.provider, options.feature, getRetryAfterMs(error)!, (error as any)?.status);
+      }
+      logger.warn(
+        `${options.feature} failed on ${options.provider} (${error instanceof Error ? error.message : String(error)}), ` +
+        `retry ${attempt + 1}/${config.maxRetries} in ${Math.round(delay)}ms`
+      );
+      await sleep(delay, options.signal);
+    } finally {
+      deadline.dispose();
+    }
+  }
+}
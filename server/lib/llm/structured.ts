@@ -0,0 +1,133 @@
+/**
+ * Schema-validated generation
+ *
+ * Generators that need machine-readable output declare a zod schema for it and
+ * call generateStructured(). The reply is parsed and validated; when it does
+ * not match, the validation errors are sent back to the model as a follow-up
+ * turn so it can correct itself. After maxRepairs failed corrections a
+ * StructuredOutputError is thrown rather than substituting canned output.
+ */
+import { ZodError, ZodType, ZodTypeDef } from 'zod';
+import { createLogger } from '../logger';
+import { StructuredOutputError } from './errors';
+import { generateText } from './index';
+import { LLMRequest } from './types';
+
+const logger = createLogger('llm:structured');
+
+export const DEFAULT_MAX_REPAIRS = 2;
+
+export interface StructuredOptions {
+  /** Turns the raw reply into a value to validate. Defaults to parseJsonOutput. */
+  parse?: (text: string) => unknown;
+  /** Correction turns allowed after the first reply */
+  maxRepairs?: number;
+}
+
+type Validation<T> = { success: true; data: T } | { success: false; issues: string[] };
+
+/**
+ * Extract a JSON value from a reply, tolerating markdown fences and stray
+ * prose around the object or array
+ */
+export function parseJsonOutput(text: string): unknown {
+  const cleaned = text
+    .replace(/```json\s*/g, '')
+    .replace(/```/g, '')
+    .trim();
+
+  try {
+    return JSON.parse(cleaned);
+  } catch (error) {
+    const start = cleaned.search(/[[{]/);
+    const end = Math.max(cleaned.lastIndexOf('}'), cleaned.lastIndexOf(']'));
+    if (start !== -1 && end > start) {
+      try {
+        return JSON.parse(cleaned.slice(start, end + 1));
+      } catch {
+        // Fall through and report the original parse error
+      }
+    }
+    throw new Error(`Response is not valid JSON (${error instanceof Error ? error.message : String(error)})`);
+  }
+}
+
+/**
+ * Render zod issues as "path: message" lines the model can act on
+ */
+export function formatIssues(error: ZodError): string[] {
+  return error.issues.map(issue => {
+    const location = issue.path.length > 0 ? issue.path.join('.') : 'response';
+    return `${location}: ${issue.message}`;
+  });
+}
+
+function validate<T>(text: string, schema: ZodType<T, ZodTypeDef, unknown>, parse: (text: string) => unknown): Validation<T> {
+  let value: unknown;
+  try {
+    value = parse(text);
+  } catch (error) {
+    return { success: false, issues: [error instanceof Error ? error.message : String(error)] };
+  }
+
+  const result = schema.safeParse(value);
+  return result.success
+    ? { success: true, data: result.data }
+    : { success: false, issues: formatIssues(result.error) };
+}
+
+function repairMessage(issues: string[]): string {
+  return [
+    'Your previous reply could not be used because it did not match the required format:',
+    ...issues.map(issue => `- ${issue}`),
+    '',
+    'Reply again with the corrected output only, in exactly the format requested above.',
+  ].join('\n');
+}
+
+/**
+ * Validate a reply that has already been generated (e.g. streamed), repairing
+ * it with follow-up turns if needed
+ */
+export async function repairStructured<T>(
+  request: LLMRequest,
+  output: string,
+  schema: ZodType<T, ZodTypeDef, unknown>,
+  options: StructuredOptions = {}
+): Promise<T> {
+  const parse = options.parse || parseJsonOutput;
+  const maxRepairs = options.maxRepairs ?? DEFAULT_MAX_REPAIRS;
+
+  let messages = request.messages;
+  let text = output;
+  let result = validate(text, schema, parse);
+
+  for (let repair = 1; !result.success && repair <= maxRepairs; repair++) {
+    logger.warn(`${request.feature} output failed validation, repair ${repair}/${maxRepairs}: ${result.issues.join('; ')}`);
+
+    messages = [
+      ...messages,
+      { role: 'assistant', content: text },
+      { role: 'user', content: repairMessage(result.issues) },
+    ];
+    text = (await generateText({ ...request, messages })).text;
+    result = validate(text, schema, parse);
+  }
+
+  if (!result.success) {
+    throw new StructuredOutputError(request.feature, result.issues, maxRepairs + 1, text);
+  }
+  return result.data;
+}
+
+/**
+ * Generate a reply and validate it against the schema
+ */
+export async function generateStructured<T>(
+  request: LLMRequest,
+  schema: ZodType<T, ZodTypeDef, unknown>,
+  options: StructuredOptions = {}
+): Promise<T> {
+  const response = await generateText(request);
+  return repairStructured(request, response.text, schema, options);
+}
@@ -0,0 +1,105 @@
+import fs from 'fs';
+import path from 'path';
+import { LLMProvider, LLMRequest, LLMResponse, LLMStreamOptions } from './types';
+
+/**
+ * Shape of a fixture file: server/lib/llm/fixtures/<feature>.json
+ */
+interface StubFixture {
+  responses: string[];
+}
+
+export const DEFAULT_FIXTURES_DIR = path.resolve(process.cwd(), 'server/lib/llm/fixtures');
+
+/**
+ * Rough token estimate used for usage reporting when no real tokenizer is involved
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+/**
+ * 32-bit FNV-1a hash, used to pick a fixture response deterministically
+ */
+function hashString(value: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Deterministic, fixture-backed provider for tests and offline development.
+ * The same request always produces the same response, and no network access
+ * or API key is needed.
+ */
+export class StubProvider implements LLMProvider {
+  readonly name = 'stub';
+  private fixturesDir: string;
+  private cache = new Map<string, StubFixture>();
+
+  constructor(fixturesDir: string = DEFAULT_FIXTURES_DIR) {
+    this.fixturesDir = fixturesDir;
+  }
+
+  isConfigured(): boolean {
+    return fs.existsSync(this.fixturesDir);
+  }
+
+  /**
+   * Register responses for a feature in memory, bypassing the fixtures directory
+   */
+  setFixture(feature: string, responses: string[]): void {
+    this.cache.set(feature, { responses });
+  }
+
+  private loadFixture(feature: string): StubFixture {
+    const cached = this.cache.get(feature);
+    if (cached) return cached;
+
+    const fixturePath = path.join(this.fixturesDir, `${feature}.json`);
+    if (!fs.existsSync(fixturePath)) {
+      throw new Error(`No stub fixture for feature "${feature}" (looked in ${fixturePath})`);
+    }
+
+    const fixture = JSON.parse(fs.readFileSync(fixturePath, 'utf8')) as StubFixture;
+    if (!Array.isArray(fixture.responses) || fixture.responses.length === 0) {
+      throw new Error(`Stub fixture for feature "${feature}" has no responses`);
+    }
+
+    this.cache.set(feature, fixture);
+    return fixture;
+  }
+
+  async complete(request: LLMRequest): Promise<LLMResponse> {
+    const fixture = this.loadFixture(request.feature);
+    const lines = request.messages.map(m => `${m.role}:${m.content}`);
+    const prompt = (request.system ? [`system:${request.system}`, ...lines] : lines).join('\n');
+    const text = fixture.responses[hashString(prompt) % fixture.responses.length];
+
+    return {
+      text,
+      model: `stub:${request.model}`,
+      provider: this.name,
+      usage: {
+        inputTokens: estimateTokens(prompt),
+        outputTokens: estimateTokens(text),
+      },
+    };
+  }
+
+  /**
+   * Streams the same text complete() would return, split on word boundaries
+   */
+  async *stream(request: LLMRequest, options: LLMStreamOptions = {}): AsyncIterable<string> {
+    const { text } = await this.complete(request);
+    const chunks = text.match(/\S+\s*|\s+/g) || [];
+
+    for (const chunk of chunks) {
+      if (options.signal?.aborted) return;
+      yield chunk;
+    }
+  }
+}
@@ -0,0 +1,58 @@
+/**
+ * Shared types for the pluggable LLM provider layer
+ */
+
+export type LLMRole = 'user' | 'assistant';
+
+export interface LLMMessage {
+  role: LLMRole;
+  content: string;
+}
+
+/**
+ * A single text generation request issued by one of the generators in
+ * server/lib/anthropic.ts
+ */
+export interface LLMRequest {
+  /** Feature tag identifying the calling generator, e.g. "halaqa.insights" */
+  feature: string;
+  /** Preferred model id; providers that don't serve this model substitute their own */
+  model: string;
+  /** Standing instructions (persona, safety, personalization); see buildSystemPrompt() */
+  system?: string;
+  messages: LLMMessage[];
+  maxTokens: number;
+  temperature?: number;
+}
+
+export interface LLMUsage {
+  inputTokens: number;
+  outputTokens: number;
+}
+
+export interface LLMResponse {
+  text: string;
+  /** The model that actually produced the text */
+  model: string;
+  provider: string;
+  usage: LLMUsage;
+}
+
+export interface LLMCallOptions {
+  /** Aborts the upstream generation, e.g. on timeout or when the client disconnects */
+  signal?: AbortSignal;
+}
+
+export type LLMStreamOptions = LLMCallOptions;
+
+/**
+ * A backend capable of serving text generation requests
+ */
+export interface LLMProvider {
+  readonly name: string;
+  /** Whether the provider has what it needs (API key, endpoint, fixtures) to serve requests */
+  isConfigured(): boolean;
+  complete(request: LLMRequest, options?: LLMCallOptions): Promise<LLMResponse>;
+  /** Yields text deltas as they are generated */
+  stream(request: LLMRequest, options?: LLMStreamOptions): AsyncIterable<string>;
+}
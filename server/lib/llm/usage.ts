@@ -0,0 +1,223 @@
+/**
+ * Per-user usage metering and token quotas
+ *
+ * generateText() and streamText() check the calling user's quota before
+ * contacting the provider and record the tokens each call used afterwards.
+ * The user and the route-level feature ("halaqa.analyze",
+ * "wird.generate-suggestions") come from the usage scope that the
+ * usageScope/meterFeature middleware opens around each request, so
+ * generators don't need to pass them through.
+ *
+ * Quotas count input plus output tokens per UTC day and month and are set
+ * with LLM_DAILY_TOKEN_QUOTA and LLM_MONTHLY_TOKEN_QUOTA (0 or unset means
+ * unlimited). A call is allowed while any allowance remains, so the call that
+ * crosses the limit completes and the next one is refused with
+ * QuotaExceededError (429).
+ */
+import { AsyncLocalStorage } from 'async_hooks';
+import type { InsertLlmUsage, LlmUsage } from '@shared/schema';
+import { createLogger } from '../logger';
+import { QuotaExceededError, QuotaStatus, QuotaWindow } from './errors';
+import { LLMRequest } from './types';
+
+const logger = createLogger('llm:usage');
+
+export interface UsageConfig {
+  /** Tokens per UTC day; null for unlimited */
+  dailyTokenQuota: number | null;
+  /** Tokens per UTC month; null for unlimited */
+  monthlyTokenQuota: number | null;
+}
+
+function envQuota(name: string): number | null {
+  const value = Number(process.env[name]);
+  return Number.isFinite(value) && value > 0 ? value : null;
+}
+
+export function loadUsageConfig(): UsageConfig {
+  return {
+    dailyTokenQuota: envQuota('LLM_DAILY_TOKEN_QUOTA'),
+    monthlyTokenQuota: envQuota('LLM_MONTHLY_TOKEN_QUOTA'),
+  };
+}
+
+let config: UsageConfig = loadUsageConfig();
+
+export function getUsageConfig(): UsageConfig {
+  return config;
+}
+
+/**
+ * Override parts of the configuration (tests); pass nothing to reload from env
+ */
+export function configureUsage(overrides?: Partial<UsageConfig>): void {
+  config = { ...loadUsageConfig(), ...overrides };
+}
+
+/**
+ * Where usage records are kept; implemented by the app's IStorage
+ */
+export interface UsageStore {
+  recordLlmUsage(usage: InsertLlmUsage): Promise<LlmUsage>;
+  getLlmTokensUsed(userId: string, since: Date): Promise<number>;
+}
+
+let store: UsageStore | null = null;
+
+/**
+ * Set the store usage is recorded in. Until one is set, calls are neither
+ * metered nor limited.
+ */
+export function setUsageStore(usageStore: UsageStore | null): void {
+  store = usageStore;
+}
+
+export interface UsageScope {
+  /** Resolved lazily, since auth middleware runs after the scope is opened */
+  getUserId: () => string | undefined;
+  /** Route-level feature; calls outside one are recorded under their generator's tag */
+  feature?: string;
+}
+
+const usageScope = new AsyncLocalStorage<UsageScope>();
+
+/**
+ * Run an operation with model calls attributed to the given user and feature
+ */
+export function runWithUsageScope<T>(scope: UsageScope, operation: () => T): T {
+  return usageScope.run(scope, operation);
+}
+
+export function getUsageScope(): UsageScope | undefined {
+  return usageScope.getStore();
+}
+
+export function startOfUtcDay(now: Date = new Date()): Date {
+  return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()));
+}
+
+export function startOfUtcMonth(now: Date = new Date()): Date {
+  return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1));
+}
+
+function quotaWindow(limit: number | null, used: number, resetsAt: Date): QuotaWindow {
+  return {
+    limit,
+    used,
+    remaining: limit === null ? null : Math.max(limit - used, 0),
+    resetsAt: resetsAt.toISOString(),
+  };
+}
+
+/**
+ * A user's token usage and remaining allowance for the current day and month
+ */
+export async function getQuotaStatus(userId: string, usageStore: UsageStore, now: Date = new Date()): Promise<QuotaStatus> {
+  const dayStart = startOfUtcDay(now);
+  const monthStart = startOfUtcMonth(now);
+  const [daily, monthly] = await Promise.all([
+    usageStore.getLlmTokensUsed(userId, dayStart),
+    usageStore.getLlmTokensUsed(userId, monthStart),
+  ]);
+
+  return {
+    daily: quotaWindow(config.dailyTokenQuota, daily, new Date(dayStart.getTime() + 24 * 60 * 60 * 1000)),
+    monthly: quotaWindow(
+      config.monthlyTokenQuota,
+      monthly,
+      new Date(Date.UTC(monthStart.getUTCFullYear(), monthStart.getUTCMonth() + 1, 1))
+    ),
+  };
+}
+
+/**
+ * Throw QuotaExceededError if the current user has no allowance left.
+ * Returns the user's quota, or null when no quota applies to this call.
+ */
+export async function checkQuota(request: Pick<LLMRequest, 'feature'>): Promise<QuotaStatus | null> {
+  const userId = getUsageScope()?.getUserId();
+  if (!store || !userId) return null;
+  if (config.dailyTokenQuota === null && config.monthlyTokenQuota === null) return null;
+
+  const quota = await getQuotaStatus(userId, store);
+  const feature = getUsageScope()?.feature ?? request.feature;
+  if (quota.daily.remaining === 0) throw new QuotaExceededError(feature, 'daily', quota);
+  if (quota.monthly.remaining === 0) throw new QuotaExceededError(feature, 'monthly', quota);
+  return quota;
+}
+
+/**
+ * Record a completed call against the current user. Failures are logged
+ * rather than thrown so a metering problem never loses a generated reply.
+ */
+export async function recordUsage(
+  request: LLMRequest,
+  usage: { provider: string; model: string; inputTokens: number; outputTokens: number }
+): Promise<void> {
+  if (!store) return;
+
+  const scope = getUsageScope();
+  try {
+    await store.recordLlmUsage({
+      userId: scope?.getUserId() ?? null,
+      feature: scope?.feature ?? request.feature,
+      generator: request.feature,
+      ...usage,
+    });
+  } catch (error) {
+    logger.error(`Failed to record usage for ${request.feature}`, error);
+  }
+}
+
+export interface UsageTotals {
+  calls: number;
+  inputTokens: number;
+  outputTokens: number;
+}
+
+export interface UsageSummary {
+  totals: UsageTotals;
+  byFeature: Array<UsageTotals & { feature: string }>;
+  /** One entry per UTC day from `since` to today, including days without calls */
+  daily: Array<UsageTotals & { date: string }>;
+}
+
+function emptyTotals(): UsageTotals {
+  return { calls: 0, inputTokens: 0, outputTokens: 0 };
+}
+
+function addUsage(totals: UsageTotals, record: LlmUsage): void {
+  totals.calls++;
+  totals.inputTokens += record.inputTokens;
+  totals.outputTokens += record.outputTokens;
+}
+
+/**
+ * Aggregate usage records for the usage history report
+ */
+export function summarizeUsage(records: LlmUsage[], since: Date, now: Date = new Date()): UsageSummary {
+  const totals = emptyTotals();
+  const byFeature = new Map<string, UsageTotals>();
+  const daily = new Map<string, UsageTotals>();
+
+  for (let day = startOfUtcDay(since); day <= now; day = new Date(day.getTime() + 24 * 60 * 60 * 1000)) {
+    daily.set(day.toISOString().slice(0, 10), emptyTotals());
+  }
+
+  for (const record of records) {
+    addUsage(totals, record);
+
+    if (!byFeature.has(record.feature)) byFeature.set(record.feature, emptyTotals());
+    addUsage(byFeature.get(record.feature)!, record);
+
+    const day = daily.get(new Date(record.createdAt).toISOString().slice(0, 10));
+    if (day) addUsage(day, record);
+  }
+
+  return {
+    totals,
+    byFeature: Array.from(byFeature, ([feature, usage]) => ({ feature, ...usage }))
+      .sort((a, b) => (b.inputTokens + b.outputTokens) - (a.inputTokens + a.outputTokens)),
+    daily: Array.from(daily, ([date, usage]) => ({ date, ...usage })),
+  };
+}
@@ -0,0 +1,154 @@
+/**
+ * Mood analytics over a user's reflection check-ins: mood over time, by
+ * weekday, and how it moves with wird completion. Days are UTC calendar days.
+ */
+import type { Mood, MoodAnalytics, MoodCheckIn, MoodScore } from '@shared/schema';
+import { moods } from '@shared/schema';
+import { isPracticeDone, type SavedPractice } from './wird-practices';
+
+// Which way each mood pulls the score; intensity sets how far
+const MOOD_VALENCE: Record<Mood, number> = {
+  joy: 1,
+  gratitude: 1,
+  peace: 1,
+  hope: 1,
+  confusion: 0,
+  sadness: -1,
+  fear: -1,
+  anger: -1,
+  guilt: -1,
+  loneliness: -1,
+};
+
+/** A wird entry as far as mood analytics cares: its day and practices */
+export type WirdDay = {
+  date: Date | string;
+  practices: SavedPractice[];
+};
+
+// Fewer days than this can't say anything about a correlation
+const MIN_CORRELATION_DAYS = 3;
+
+// A day's wird counts as completed only when every practice on it was done
+const COMPLETED_WIRD = 1;
+
+export function moodScore(checkIn: Pick<MoodCheckIn, 'mood' | 'intensity'>): number {
+  return MOOD_VALENCE[checkIn.mood] * checkIn.intensity;
+}
+
+function dayOf(date: Date | string): string {
+  return typeof date === 'string' ? date.slice(0, 10) : date.toISOString().slice(0, 10);
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function summarize(scores: number[]): MoodScore {
+  return {
+    averageScore: scores.length > 0 ? round(scores.reduce((sum, score) => sum + score, 0) / scores.length) : null,
+    count: scores.length,
+  };
+}
+
+/**
+ * Share of a wird's practices that were completed, 0 to 1
+ */
+export function wirdCompletion(wird: Pick<WirdDay, 'practices'>): number {
+  const practices = wird.practices ?? [];
+  if (practices.length === 0) return 0;
+  return practices.filter(isPracticeDone).length / practices.length;
+}
+
+/**
+ * Pearson correlation coefficient, or null when either side doesn't vary
+ */
+export function correlation(xs: number[], ys: number[]): number | null {
+  const n = xs.length;
+  if (n < MIN_CORRELATION_DAYS || ys.length !== n) return null;
+
+  const meanX = xs.reduce((sum, x) => sum + x, 0) / n;
+  const meanY = ys.reduce((sum, y) => sum + y, 0) / n;
+  let covariance = 0;
+  let varianceX = 0;
+  let varianceY = 0;
+  for (let i = 0; i < n; i++) {
+    covariance += (xs[i] - meanX) * (ys[i] - meanY);
+    varianceX += (xs[i] - meanX) ** 2;
+    varianceY += (ys[i] - meanY) ** 2;
+  }
+
+  if (varianceX === 0 || varianceY === 0) return null;
+  return round(covariance / Math.sqrt(varianceX * varianceY));
+}
+
+/**
+ * Mood analytics for the check-ins and wirds of one user within [from, to].
+ * The correlation uses each day's share of completed practices; the
+ * with/without comparison counts a day as having a completed wird only when
+ * all of its practices were done, and any other day as without.
+ */
+export function computeMoodAnalytics(
+  checkIns: MoodCheckIn[],
+  wirds: WirdDay[],
+  from: Date,
+  to: Date
+): MoodAnalytics {
+  const counts = Object.fromEntries(moods.map(mood => [mood, 0])) as Record<Mood, number>;
+  const scoresByDay = new Map<string, number[]>();
+  const moodsByDay = new Map<string, Mood[]>();
+  const scoresByWeekday: number[][] = Array.from({ length: 7 }, () => []);
+
+  for (const checkIn of checkIns) {
+    const day = dayOf(checkIn.timestamp);
+    const score = moodScore(checkIn);
+    counts[checkIn.mood]++;
+    scoresByDay.set(day, [...(scoresByDay.get(day) ?? []), score]);
+    moodsByDay.set(day, [...(moodsByDay.get(day) ?? []), checkIn.mood]);
+    scoresByWeekday[new Date(checkIn.timestamp).getUTCDay()].push(score);
+  }
+
+  const days = Array.from(scoresByDay.keys()).sort();
+  const overTime = days.map(date => {
+    const dayMoods = moodsByDay.get(date)!;
+    // Most frequent mood that day; ties go to the latest check-in
+    const dominantMood = dayMoods.reduceRight((best, mood) =>
+      dayMoods.filter(m => m === mood).length > dayMoods.filter(m => m === best).length ? mood : best
+    );
+    return { date, dominantMood, ...summarize(scoresByDay.get(date)!) };
+  });
+
+  // A day can have more than one wird entry; use its best completion
+  const completionByDay = new Map<string, number>();
+  for (const wird of wirds) {
+    const day = dayOf(wird.date);
+    completionByDay.set(day, Math.max(completionByDay.get(day) ?? 0, wirdCompletion(wird)));
+  }
+
+  const dailyScores: number[] = [];
+  const dailyCompletion: number[] = [];
+  const withCompleted: number[] = [];
+  const withoutCompleted: number[] = [];
+  for (const point of overTime) {
+    const completion = completionByDay.get(point.date);
+    if (completion !== undefined) {
+      dailyScores.push(point.averageScore!);
+      dailyCompletion.push(completion);
+    }
+    (completion === COMPLETED_WIRD ? withCompleted : withoutCompleted).push(point.averageScore!);
+  }
+
+  return {
+    from: dayOf(from),
+    to: dayOf(to),
+    overTime,
+    byWeekday: scoresByWeekday.map((scores, weekday) => ({ weekday, ...summarize(scores) })),
+    counts,
+    wirdCorrelation: {
+      coefficient: correlation(dailyScores, dailyCompletion),
+      days: dailyScores.length,
+      withCompletedWird: summarize(withCompleted),
+      withoutCompletedWird: summarize(withoutCompleted),
+    },
+  };
+}
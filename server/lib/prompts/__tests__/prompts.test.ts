@@ -0,0 +1,122 @@
+import path from 'path';
+import { parseTemplate, renderTemplate, validateVariables, PromptTemplateError } from '../template';
+import { loadPromptTemplates, listPromptTemplates, renderPrompt, tracePrompts } from '../index';
+
+const templatesDir = path.resolve(__dirname, '../templates');
+
+function template(body: string, variables = 'name: string\n  items: string[]?') {
+  return parseTemplate(`---\nname: test.prompt\nversion: 3\nvariables:\n  ${variables}\n---\n${body}\n`, 'test.md');
+}
+
+describe('prompt templates', () => {
+  it('parses the header', () => {
+    const parsed = template('Hello {{name}}');
+
+    expect(parsed.name).toBe('test.prompt');
+    expect(parsed.version).toBe(3);
+    expect(parsed.variables).toEqual({
+      name: { type: 'string', optional: false },
+      items: { type: 'string[]', optional: true },
+    });
+  });
+
+  it('substitutes variables, filters and conditionals', () => {
+    const parsed = template([
+      'Hello {{name | capitalize}}',
+      '{{#if items}}',
+      'Items: {{items}}',
+      '{{#if items has "b"}}',
+      'Has b',
+      '{{/if}}',
+      '{{else}}',
+      'No items',
+      '{{/if}}',
+      '{{#if name == "sara"}}Matched{{/if}}',
+    ].join('\n'));
+
+    expect(renderTemplate(parsed, { name: 'sara', items: ['a', 'b'] }))
+      .toBe('Hello Sara\nItems: a, b\nHas b\nMatched');
+    expect(renderTemplate(parsed, { name: 'ali' })).toBe('Hello Ali\nNo items');
+  });
+
+  it('rejects missing, mistyped and unknown variables', () => {
+    const parsed = template('Hello {{name}}');
+
+    expect(() => validateVariables(parsed, {})).toThrow(PromptTemplateError);
+    expect(() => validateVariables(parsed, { name: 42 })).toThrow(/should be string/);
+    expect(() => validateVariables(parsed, { name: 'a', nmae: 'b' })).toThrow(/unknown variable/);
+  });
+
+  it('rejects unbalanced blocks', () => {
+    expect(() => renderTemplate(template('{{#if name}}open'), { name: 'x' })).toThrow(/unclosed/);
+    expect(() => renderTemplate(template('close{{/if}}'), { name: 'x' })).toThrow(/unmatched/);
+  });
+});
+
+describe('prompt registry', () => {
+  beforeAll(() => loadPromptTemplates(templatesDir));
+
+  it('loads every bundled template', () => {
+    const names = listPromptTemplates().map(t => t.name);
+
+    expect(names).toEqual(expect.arrayContaining([
+      'personalization.system',
+      'reflection.follow-up',
+      'halaqa.insights',
+      'wird.clear-suggestions',
+      'framework.identity',
+    ]));
+  });
+
+  it('renders the follow-up prompt with and without history', () => {
+    const first = renderPrompt('reflection.follow-up', { input: 'I missed Fajr' });
+    const followUp = renderPrompt('reflection.follow-up', {
+      input: 'I missed Fajr',
+      previousConversation: 'user: hello',
+    });
+
+    expect(first.ref).toEqual({ name: 'reflection.follow-up', version: 1 });
+    expect(first.text).toContain('Reflection: "I missed Fajr"');
+    expect(followUp.text).toContain('Previous conversation:\nuser: hello\n\nLatest reflection: "I missed Fajr"');
+    expect(followUp.text).not.toContain('{{');
+  });
+
+  it('adds the lecture transcript to halaqa insights only when there is one', () => {
+    const reflection = { title: 't', topic: 'p', keyReflection: 'k', impact: 'i' };
+    const withoutLecture = renderPrompt('halaqa.insights', reflection);
+    const withLecture = renderPrompt('halaqa.insights', { ...reflection, lectureTranscript: 'Patience is half of faith.' });
+
+    // Unchanged from v1 for halaqas without a recording
+    expect(withoutLecture.text).toBe(renderPrompt('halaqa.insights', reflection, { version: 1 }).text);
+    expect(withLecture.text).toContain('Personal Impact: i\n\nLECTURE TRANSCRIPT');
+    expect(withLecture.text).toContain('Patience is half of faith.');
+  });
+
+  it('renders personalization guidance for the selected options only', () => {
+    const { text } = renderPrompt('personalization.system', {
+      knowledgeLevel: 'beginner',
+      guidancePreferences: ['practical'],
+    });
+
+    expect(text).toContain('KNOWLEDGE LEVEL: Beginner');
+    expect(text).toContain('- Include basic definitions for Islamic terms');
+    expect(text).not.toContain('scholarly references');
+    expect(text).toContain('- Include actionable steps and real-world applications');
+    expect(text).not.toContain('LIFE STAGE');
+  });
+
+  it('records rendered prompts inside a trace', async () => {
+    const { result, prompts } = await tracePrompts(async () => {
+      renderPrompt('personalization.summary', { outputKind: 'insights' });
+      renderPrompt('halaqa.insights', { title: 't', topic: 'p', keyReflection: 'k', impact: 'i' });
+      renderPrompt('halaqa.insights', { title: 't', topic: 'p', keyReflection: 'k', impact: 'i' });
+      return 'done';
+    });
+
+    expect(result).toBe('done');
+    expect(prompts).toEqual([
+      { name: 'personalization.summary', version: 1 },
+      { name: 'halaqa.insights', version: 2 },
+    ]);
+  });
+});
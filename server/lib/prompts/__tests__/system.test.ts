@@ -0,0 +1,74 @@
+import { generateResponse } from '../../anthropic';
+import { setLLMProvider } from '../../llm';
+import { LLMProvider, LLMRequest } from '../../llm/types';
+import { buildSystemPrompt } from '../system';
+
+class RecordingProvider implements LLMProvider {
+  readonly name = 'recording';
+  requests: LLMRequest[] = [];
+
+  isConfigured(): boolean {
+    return true;
+  }
+
+  async complete(request: LLMRequest) {
+    this.requests.push(request);
+    return { text: 'Wa alaykum as-salam', model: 'recording', provider: this.name, usage: { inputTokens: 1, outputTokens: 1 } };
+  }
+
+  async *stream(): AsyncIterable<string> {
+    throw new Error('not used');
+  }
+}
+
+describe('buildSystemPrompt', () => {
+  it('always includes the persona and safety guidance', () => {
+    const system = buildSystemPrompt();
+
+    expect(system).toContain('You are MuhasabAI');
+    expect(system).toContain('GUIDANCE BOUNDARIES:');
+    expect(system).not.toContain('KNOWLEDGE LEVEL');
+  });
+
+  it('adds personalization and feature instructions in order', () => {
+    const system = buildSystemPrompt({
+      personalization: { knowledgeLevel: 'beginner', topicsOfInterest: [], lifeStage: '' },
+      instructions: 'Suggest one practice.',
+    });
+
+    expect(system).toContain('KNOWLEDGE LEVEL: Beginner');
+    expect(system).not.toContain('LIFE STAGE');
+    expect(system.indexOf('GUIDANCE BOUNDARIES:')).toBeLessThan(system.indexOf('KNOWLEDGE LEVEL'));
+    expect(system.endsWith('Suggest one practice.')).toBe(true);
+  });
+
+  it('skips personalization without any known fields', () => {
+    expect(buildSystemPrompt({ personalization: { unknown: 'x' } as any })).toBe(buildSystemPrompt());
+  });
+});
+
+describe('generateResponse', () => {
+  let provider: RecordingProvider;
+
+  beforeEach(() => {
+    provider = new RecordingProvider();
+    setLLMProvider(provider);
+  });
+
+  afterAll(() => setLLMProvider(null));
+
+  it('sends personalization through the system prompt and leaves the messages untouched', async () => {
+    const previousMessages = [
+      { role: 'user' as const, content: 'Assalamu alaykum' },
+      { role: 'assistant' as const, content: 'How was your day?' },
+    ];
+
+    await generateResponse('I prayed on time', previousMessages, { knowledgeLevel: 'advanced' }, 'They struggle with Fajr.');
+
+    const [request] = provider.requests;
+    expect(request.system).toContain('KNOWLEDGE LEVEL: Advanced');
+    expect(request.system).toContain('They struggle with Fajr.');
+    expect(request.messages).toEqual([...previousMessages, { role: 'user', content: 'I prayed on time' }]);
+    expect(previousMessages[0].content).toBe('Assalamu alaykum');
+  });
+});
@@ -0,0 +1,167 @@
+/**
+ * Prompt template registry
+ *
+ * Prompts live on disk as versioned template files under
+ * server/lib/prompts/templates/<name>/v<version>.md (override the directory
+ * with PROMPTS_DIR). Generators render them by name through renderPrompt(),
+ * which uses the latest version unless a specific one is requested.
+ *
+ * To change a prompt's wording, add a new v<N+1>.md next to the old one
+ * rather than editing it in place, so stored outputs can still be traced to
+ * the exact text that produced them.
+ */
+import fs from 'fs';
+import path from 'path';
+import { AsyncLocalStorage } from 'async_hooks';
+import type { PromptRef } from '@shared/schema';
+import { createLogger } from '../logger';
+import {
+  PromptTemplate,
+  PromptTemplateError,
+  PromptValue,
+  parseTemplate,
+  renderTemplate,
+  validateVariables,
+} from './template';
+import { PromptName, PromptVariables } from './types';
+
+export * from './types';
+export { PromptTemplateError } from './template';
+export { buildSystemPrompt, personalizationVariables } from './system';
+export type { SystemPromptOptions } from './system';
+export type { PromptTemplate } from './template';
+
+const logger = createLogger('prompts');
+
+export const DEFAULT_TEMPLATES_DIR = path.resolve(process.cwd(), 'server/lib/prompts/templates');
+
+export interface RenderedPrompt {
+  text: string;
+  ref: PromptRef;
+}
+
+// name -> version -> template
+let registry: Map<string, Map<number, PromptTemplate>> | null = null;
+
+/**
+ * Load every template under the given directory, replacing the current registry
+ */
+export function loadPromptTemplates(dir: string = process.env.PROMPTS_DIR || DEFAULT_TEMPLATES_DIR): void {
+  const loaded = new Map<string, Map<number, PromptTemplate>>();
+
+  if (!fs.existsSync(dir)) {
+    throw new PromptTemplateError(`Prompt templates directory not found: ${dir}`);
+  }
+
+  for (const entry of fs.readdirSync(dir, { withFileTypes: true })) {
+    if (!entry.isDirectory()) continue;
+
+    for (const file of fs.readdirSync(path.join(dir, entry.name))) {
+      const fileMatch = file.match(/^v(\d+)\.md$/);
+      if (!fileMatch) continue;
+
+      const filePath = path.join(dir, entry.name, file);
+      const template = parseTemplate(fs.readFileSync(filePath, 'utf8'), filePath);
+
+      if (template.name !== entry.name || template.version !== Number(fileMatch[1])) {
+        throw new PromptTemplateError(
+          `${filePath}: header says ${template.name}@v${template.version}, expected ${entry.name}@v${fileMatch[1]}`
+        );
+      }
+
+      if (!loaded.has(template.name)) loaded.set(template.name, new Map());
+      loaded.get(template.name)!.set(template.version, template);
+    }
+  }
+
+  registry = loaded;
+  logger.debug(`Loaded ${loaded.size} prompt templates from ${dir}`);
+}
+
+function getRegistry(): Map<string, Map<number, PromptTemplate>> {
+  if (!registry) loadPromptTemplates();
+  return registry!;
+}
+
+/**
+ * Look up a template, defaulting to its latest version
+ */
+export function getPromptTemplate(name: string, version?: number): PromptTemplate {
+  const versions = getRegistry().get(name);
+  if (!versions || versions.size === 0) {
+    throw new PromptTemplateError(`Unknown prompt template "${name}"`);
+  }
+
+  const resolved = version ?? Math.max(...Array.from(versions.keys()));
+  const template = versions.get(resolved);
+  if (!template) {
+    throw new PromptTemplateError(`Prompt template "${name}" has no version ${resolved}`);
+  }
+  return template;
+}
+
+/**
+ * All registered templates, for inspection endpoints and tooling
+ */
+export function listPromptTemplates(): Array<{ name: string; versions: number[]; latest: number; description: string }> {
+  return Array.from(getRegistry().entries())
+    .map(([name, versions]) => {
+      const sorted = Array.from(versions.keys()).sort((a, b) => a - b);
+      const latest = sorted[sorted.length - 1];
+      return { name, versions: sorted, latest, description: versions.get(latest)!.description };
+    })
+    .sort((a, b) => a.name.localeCompare(b.name));
+}
+
+export function formatPromptRef(ref: PromptRef): string {
+  return `${ref.name}@v${ref.version}`;
+}
+
+/**
+ * Combine prompt lists without repeating the same name and version
+ */
+export function mergePromptRefs(...lists: PromptRef[][]): PromptRef[] {
+  const merged: PromptRef[] = [];
+  for (const ref of lists.flat()) {
+    if (!merged.some(r => r.name === ref.name && r.version === ref.version)) {
+      merged.push(ref);
+    }
+  }
+  return merged;
+}
+
+// Collects the prompts rendered while a traced operation runs
+const promptTrace = new AsyncLocalStorage<PromptRef[]>();
+
+/**
+ * Render a registered template. The only way generators should build prompts.
+ */
+export function renderPrompt<N extends PromptName>(
+  name: N,
+  variables: PromptVariables[N],
+  options: { version?: number } = {}
+): RenderedPrompt {
+  const template = getPromptTemplate(name, options.version);
+  const values = variables as unknown as Record<string, PromptValue>;
+
+  validateVariables(template, values);
+  const text = renderTemplate(template, values);
+  const ref = { name: template.name, version: template.version };
+
+  const trace = promptTrace.getStore();
+  if (trace) {
+    trace.splice(0, trace.length, ...mergePromptRefs(trace, [ref]));
+  }
+
+  return { text, ref };
+}
+
+/**
+ * Run an operation and report which prompt templates it rendered, so callers
+ * can store them alongside the generated output
+ */
+export async function tracePrompts<T>(operation: () => Promise<T>): Promise<{ result: T; prompts: PromptRef[] }> {
+  const prompts: PromptRef[] = [];
+  const result = await promptTrace.run(prompts, operation);
+  return { result, prompts };
+}
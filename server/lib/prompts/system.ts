@@ -0,0 +1,78 @@
+/**
+ * System prompt builder
+ *
+ * Every generator sends its standing instructions through the provider's
+ * system parameter rather than mixing them into the user's messages, so
+ * conversation history only ever contains what the user and the assistant
+ * actually said. The system prompt is assembled from, in order:
+ *
+ *   1. the app persona (system.persona)
+ *   2. safety and scholarly boundaries (system.safety)
+ *   3. the user's personalization settings (personalization.system), when any are set
+ *   4. feature-specific instructions supplied by the generator
+ */
+import { renderPrompt } from './index';
+import { PersonalizationVariables } from './types';
+
+export interface SystemPromptOptions {
+  /** The user's personalization settings; unknown and empty fields are ignored */
+  personalization?: PersonalizationVariables | null;
+  /** Instructions specific to the calling feature, appended last */
+  instructions?: string;
+}
+
+const STRING_FIELDS = ['knowledgeLevel', 'spiritualJourneyStage', 'lifeStage', 'communityConnection',
+                       'culturalBackground', 'reflectionStyle'] as const;
+const LIST_FIELDS = ['topicsOfInterest', 'primaryGoals', 'guidancePreferences'] as const;
+
+/**
+ * Pick the known personalization fields, dropping empty values and anything
+ * the template doesn't declare
+ */
+export function personalizationVariables(personalization: PersonalizationVariables): PersonalizationVariables {
+  const variables: PersonalizationVariables = {};
+
+  for (const field of STRING_FIELDS) {
+    const value = personalization[field];
+    if (typeof value === 'string' && value) variables[field] = value;
+  }
+  for (const field of LIST_FIELDS) {
+    const value = personalization[field];
+    if (Array.isArray(value) && value.length > 0) variables[field] = value.map(String);
+  }
+  return variables;
+}
+
+/**
+ * Compose the system prompt for a generator call
+ */
+export function buildSystemPrompt(options: SystemPromptOptions = {}): string {
+  const sections = [
+    renderPrompt('system.persona', {}).text,
+    renderPrompt('system.safety', {}).text,
+  ];
+
+  // Personalization sometimes arrives as a JSON string from older clients
+  let personalization: unknown = options.personalization;
+  if (typeof personalization === 'string') {
+    try {
+      personalization = JSON.parse(personalization);
+    } catch {
+      personalization = null;
+    }
+  }
+
+  if (personalization && typeof personalization === 'object') {
+    const variables = personalizationVariables(personalization as PersonalizationVariables);
+    if (Object.keys(variables).length > 0) {
+      sections.push(renderPrompt('personalization.system', variables).text);
+    }
+  }
+
+  const instructions = options.instructions?.trim();
+  if (instructions) {
+    sections.push(instructions);
+  }
+
+  return sections.join('\n\n');
+}
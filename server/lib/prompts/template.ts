@@ -0,0 +1,258 @@
+/**
+ * Parsing and rendering for prompt template files
+ *
+ * A template file is a frontmatter header followed by the prompt body:
+ *
+ *   ---
+ *   name: halaqa.actions
+ *   version: 2
+ *   description: Action items from a halaqa reflection
+ *   variables:
+ *     keyReflection: string
+ *     personalization: string?
+ *   ---
+ *   Key Reflection: {{keyReflection}}
+ *   {{#if personalization}}
+ *   {{personalization}}
+ *   {{/if}}
+ *
+ * Body syntax:
+ *   {{name}}                     substitute a variable (arrays are joined with ", ")
+ *   {{name | capitalize}}        upper-case the first letter
+ *   {{#if name}} ... {{/if}}     render when the value is non-empty / true
+ *   {{#if name == "value"}}      render when a string variable equals value
+ *   {{#if name has "value"}}     render when an array variable contains value
+ *   {{else}}                     alternative branch of the enclosing #if
+ *
+ * Block tags that sit alone on a line consume that line, so conditionals
+ * don't leave blank lines behind.
+ */
+
+export type PromptVariableType = 'string' | 'number' | 'boolean' | 'string[]';
+
+export interface PromptVariableSpec {
+  type: PromptVariableType;
+  optional: boolean;
+}
+
+export interface PromptTemplate {
+  name: string;
+  version: number;
+  description: string;
+  variables: Record<string, PromptVariableSpec>;
+  body: string;
+  /** File the template was loaded from, for error messages */
+  source: string;
+}
+
+export type PromptValue = string | number | boolean | string[] | undefined | null;
+
+export class PromptTemplateError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PromptTemplateError';
+  }
+}
+
+const VARIABLE_TYPES: PromptVariableType[] = ['string', 'number', 'boolean', 'string[]'];
+
+/**
+ * Parse a template file into its header and body
+ */
+export function parseTemplate(source: string, filePath: string): PromptTemplate {
+  const normalized = source.replace(/\r\n/g, '\n');
+  const match = normalized.match(/^---\n([\s\S]*?)\n---\n([\s\S]*)$/);
+  if (!match) {
+    throw new PromptTemplateError(`${filePath}: missing frontmatter header`);
+  }
+
+  const [, header, body] = match;
+  const fields: Record<string, string> = {};
+  const variables: Record<string, PromptVariableSpec> = {};
+  let inVariables = false;
+
+  for (const line of header.split('\n')) {
+    if (!line.trim() || line.trim().startsWith('#')) continue;
+
+    const indented = /^\s+/.test(line);
+    const [key, ...rest] = line.trim().split(':');
+    const value = rest.join(':').trim();
+
+    if (indented && inVariables) {
+      const optional = value.endsWith('?');
+      const type = (optional ? value.slice(0, -1) : value) as PromptVariableType;
+      if (!VARIABLE_TYPES.includes(type)) {
+        throw new PromptTemplateError(`${filePath}: variable "${key}" has unknown type "${value}"`);
+      }
+      variables[key.trim()] = { type, optional };
+      continue;
+    }
+
+    inVariables = key === 'variables';
+    if (!inVariables) {
+      fields[key] = value;
+    }
+  }
+
+  const version = Number(fields.version);
+  if (!fields.name || !Number.isInteger(version) || version < 1) {
+    throw new PromptTemplateError(`${filePath}: header needs a name and a positive integer version`);
+  }
+
+  return {
+    name: fields.name,
+    version,
+    description: fields.description || '',
+    variables,
+    body: body.trim(),
+    source: filePath,
+  };
+}
+
+type Node =
+  | { kind: 'text'; text: string }
+  | { kind: 'var'; name: string; filter?: string }
+  | { kind: 'if'; name: string; op?: '==' | 'has'; operand?: string; then: Node[]; otherwise: Node[] };
+
+const TAG_PATTERN = /\{\{\s*([^}]*?)\s*\}\}/g;
+const STANDALONE_BLOCK_PATTERN = /^[ \t]*(\{\{\s*(?:#if\b[^}]*|else|\/if)\s*\}\})[ \t]*\n/gm;
+
+function parseBody(template: PromptTemplate): Node[] {
+  const body = template.body.replace(STANDALONE_BLOCK_PATTERN, '$1');
+  const root: Node[] = [];
+  // Each open #if pushes a frame; "target" is the branch currently being filled
+  const stack: { node: Extract<Node, { kind: 'if' }>; target: Node[] }[] = [];
+  const current = () => (stack.length ? stack[stack.length - 1].target : root);
+
+  let lastIndex = 0;
+  for (const match of Array.from(body.matchAll(TAG_PATTERN))) {
+    const index = match.index ?? 0;
+    if (index > lastIndex) {
+      current().push({ kind: 'text', text: body.slice(lastIndex, index) });
+    }
+    lastIndex = index + match[0].length;
+
+    const tag = match[1];
+    if (tag.startsWith('#if')) {
+      const condition = tag.slice(3).trim().match(/^(\w+)(?:\s+(==|has)\s+"([^"]*)")?$/);
+      if (!condition) {
+        throw new PromptTemplateError(`${template.source}: invalid condition "{{${tag}}}"`);
+      }
+      const node: Extract<Node, { kind: 'if' }> = {
+        kind: 'if',
+        name: condition[1],
+        op: condition[2] as '==' | 'has' | undefined,
+        operand: condition[3],
+        then: [],
+        otherwise: [],
+      };
+      current().push(node);
+      stack.push({ node, target: node.then });
+    } else if (tag === 'else') {
+      const frame = stack[stack.length - 1];
+      if (!frame) throw new PromptTemplateError(`${template.source}: {{else}} outside of {{#if}}`);
+      frame.target = frame.node.otherwise;
+    } else if (tag === '/if') {
+      if (!stack.pop()) throw new PromptTemplateError(`${template.source}: unmatched {{/if}}`);
+    } else {
+      const [name, filter] = tag.split('|').map(part => part.trim());
+      if (!/^\w+$/.test(name)) {
+        throw new PromptTemplateError(`${template.source}: invalid tag "{{${tag}}}"`);
+      }
+      current().push({ kind: 'var', name, filter });
+    }
+  }
+
+  if (stack.length) {
+    throw new PromptTemplateError(`${template.source}: unclosed {{#if ${stack[stack.length - 1].node.name}}}`);
+  }
+  if (lastIndex < body.length) {
+    root.push({ kind: 'text', text: body.slice(lastIndex) });
+  }
+  return root;
+}
+
+function isTruthy(value: PromptValue): boolean {
+  if (Array.isArray(value)) return value.length > 0;
+  return value !== undefined && value !== null && value !== '' && value !== false && value !== 0;
+}
+
+function formatValue(value: PromptValue, filter: string | undefined, template: PromptTemplate): string {
+  if (value === undefined || value === null) return '';
+  const text = Array.isArray(value) ? value.join(', ') : String(value);
+
+  switch (filter) {
+    case undefined:
+      return text;
+    case 'capitalize':
+      return text.charAt(0).toUpperCase() + text.slice(1);
+    default:
+      throw new PromptTemplateError(`${template.source}: unknown filter "${filter}"`);
+  }
+}
+
+function checkType(value: PromptValue, spec: PromptVariableSpec): boolean {
+  switch (spec.type) {
+    case 'string[]':
+      return Array.isArray(value) && value.every(item => typeof item === 'string');
+    default:
+      return typeof value === spec.type;
+  }
+}
+
+/**
+ * Validate the variables against the template header
+ */
+export function validateVariables(template: PromptTemplate, variables: Record<string, PromptValue>): void {
+  for (const [name, spec] of Object.entries(template.variables)) {
+    const value = variables[name];
+    if (value === undefined || value === null) {
+      if (!spec.optional) {
+        throw new PromptTemplateError(`${template.name}@v${template.version}: missing variable "${name}"`);
+      }
+      continue;
+    }
+    if (!checkType(value, spec)) {
+      throw new PromptTemplateError(
+        `${template.name}@v${template.version}: variable "${name}" should be ${spec.type}, got ${typeof value}`
+      );
+    }
+  }
+
+  for (const name of Object.keys(variables)) {
+    if (!(name in template.variables)) {
+      throw new PromptTemplateError(`${template.name}@v${template.version}: unknown variable "${name}"`);
+    }
+  }
+}
+
+/**
+ * Render a parsed template with already-validated variables
+ */
+export function renderTemplate(template: PromptTemplate, variables: Record<string, PromptValue>): string {
+  const render = (nodes: Node[]): string => nodes.map(node => {
+    switch (node.kind) {
+      case 'text':
+        return node.text;
+      case 'var':
+        if (!(node.name in template.variables)) {
+          throw new PromptTemplateError(`${template.source}: undeclared variable "${node.name}"`);
+        }
+        return formatValue(variables[node.name], node.filter, template);
+      case 'if': {
+        const value = variables[node.name];
+        let passes: boolean;
+        if (node.op === '==') {
+          passes = value === node.operand;
+        } else if (node.op === 'has') {
+          passes = Array.isArray(value) && value.includes(node.operand as string);
+        } else {
+          passes = isTruthy(value);
+        }
+        return render(passes ? node.then : node.otherwise);
+      }
+    }
+  }).join('');
+
+  return render(parseBody(template)).trim();
+}
@@ -0,0 +1,96 @@
+/**
+ * Variables accepted by each registered prompt template. Keep these in sync
+ * with the "variables" block in the template headers; renderPrompt checks the
+ * header at runtime, these types check callers at compile time.
+ */
+
+export interface PersonalizationVariables {
+  knowledgeLevel?: string;
+  spiritualJourneyStage?: string;
+  lifeStage?: string;
+  communityConnection?: string;
+  culturalBackground?: string;
+  reflectionStyle?: string;
+  topicsOfInterest?: string[];
+  primaryGoals?: string[];
+  guidancePreferences?: string[];
+}
+
+interface HalaqaReflectionVariables {
+  title: string;
+  topic: string;
+  keyReflection: string;
+  impact: string;
+}
+
+interface FrameworkVariables {
+  aspiration: string;
+  previousIdentity?: string;
+  previousVision?: string;
+  previousContext?: string;
+}
+
+export interface PromptVariables {
+  'system.persona': Record<string, never>;
+  'system.safety': Record<string, never>;
+  'personalization.system': PersonalizationVariables;
+  'personalization.summary': PersonalizationVariables & {
+    /** What the model is producing, e.g. "action items" */
+    outputKind: string;
+  };
+  'reflection.follow-up': {
+    input: string;
+    previousConversation?: string;
+  };
+  'conversation.summary': {
+    /** The existing summary to extend, if any */
+    previousSummary?: string;
+    messages: string;
+  };
+  'conversation.title': {
+    messages: string;
+  };
+  'reflection.action-items': {
+    sourceType: 'reflection' | 'conversation';
+    content: string;
+  };
+  'reflection.insights': {
+    sourceType: 'reflection' | 'conversation';
+    content: string;
+  };
+  'reflection.wird-suggestions': {
+    content: string;
+  };
+  'halaqa.actions': Omit<HalaqaReflectionVariables, 'title' | 'topic'>;
+  'halaqa.application-suggestions': {
+    description: string;
+    insights: string;
+    emotions: string;
+  };
+  'halaqa.wird-suggestions': HalaqaReflectionVariables;
+  'halaqa.insights': HalaqaReflectionVariables & {
+    /** What was said in the halaqa, when the user recorded it */
+    lectureTranscript?: string;
+  };
+  'wird.recommendations': {
+    history: string;
+    preferences: string;
+  };
+  'wird.clear-suggestions': {
+    name: string;
+    category: string;
+    target: string;
+    unit: string;
+  };
+  'framework.identity': FrameworkVariables;
+  'framework.vision': FrameworkVariables;
+  'framework.systems': FrameworkVariables;
+  'framework.goals': FrameworkVariables;
+  'framework.habits': FrameworkVariables;
+  'framework.triggers': FrameworkVariables;
+  'framework.generic': FrameworkVariables & {
+    componentType: string;
+  };
+}
+
+export type PromptName = keyof PromptVariables;
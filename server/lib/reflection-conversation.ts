@@ -0,0 +1,71 @@
+/**
+ * The conversation a new reflection opens with: the reflection, then the
+ * follow-up questions asked about it. Written reflections open theirs when
+ * they are saved, voice reflections once they are transcribed.
+ */
+import type { GuidedPrompt, Reflection } from '@shared/schema';
+import { withMessageIds } from '@shared/message-tree';
+import type { IStorage } from '../storage';
+import { generateFollowUpQuestions, getFallbackFollowUp, withFallback } from './anthropic';
+import { checkCitations } from './citations';
+import { refreshConversationLabels } from './conversation-labels';
+import { tracePrompts } from './prompts';
+
+type ConversationStore = Pick<IStorage, 'createConversation' | 'getConversation' | 'updateConversationLabels'>;
+
+export interface OpeningOptions {
+  /** The guided prompt the reflection answers */
+  prompt?: GuidedPrompt;
+  personalizationContext?: any;
+}
+
+/**
+ * What the user said: the text, or the transcription of a voice reflection
+ */
+export function reflectionText(reflection: Pick<Reflection, 'type' | 'content' | 'transcription'>): string {
+  return reflection.type === 'audio' ? reflection.transcription ?? '' : reflection.content;
+}
+
+/**
+ * Ask the follow-up questions about a reflection and save them as the start
+ * of its conversation. Canned questions are used if generation fails, and
+ * the reply is marked as a fallback.
+ */
+export async function openReflectionConversation(
+  storage: ConversationStore,
+  reflection: Reflection,
+  { prompt, personalizationContext }: OpeningOptions = {}
+) {
+  const content = reflectionText(reflection);
+  const { result: { result: { understanding, questions }, fallback }, prompts } = await tracePrompts(() => withFallback(
+    () => generateFollowUpQuestions(
+      content,
+      prompt ? [`assistant: ${prompt.text}`] : undefined, // The guided prompt is the only earlier message
+      personalizationContext
+    ),
+    getFallbackFollowUp,
+    'generating questions'
+  ));
+
+  const citations = checkCitations([understanding, ...questions].join('\n'));
+  const conversation = await storage.createConversation({
+    userId: reflection.userId,
+    reflectionId: reflection.id,
+    messages: withMessageIds([
+      { role: 'user', content },
+      {
+        role: 'assistant',
+        content: JSON.stringify({ understanding, questions }),
+        prompts,
+        ...(fallback && { fallback }),
+        ...(citations.length > 0 && { citations }),
+      },
+    ]),
+    actionItems: [],
+    promptId: prompt?.id ?? null,
+  });
+  // Titled in the background once the first exchange is saved
+  void refreshConversationLabels(conversation.id, storage);
+
+  return { conversation, understanding, questions, fallback, citations };
+}
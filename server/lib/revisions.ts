@@ -0,0 +1,104 @@
+/**
+ * Revision history for edited reflections and halaqas: which fields an edit
+ * changed, word diffs for the revision viewer, and the values that undo an
+ * edit
+ */
+import type { DiffSegment, Revision, RevisionChange, RevisionView } from '@shared/schema';
+
+/** Fields a user can edit, per entity type */
+export const REFLECTION_EDITABLE_FIELDS = ['content', 'transcription'] as const;
+export const HALAQA_EDITABLE_FIELDS = ['title', 'speaker', 'date', 'topic', 'keyReflection', 'impact'] as const;
+
+// Past this many tokens per side the diff is shown as a plain replacement;
+// the LCS table grows with the product of both lengths
+const MAX_DIFF_TOKENS = 2000;
+
+function revisionValue(value: unknown): string | null {
+  if (value === null || value === undefined) return null;
+  if (value instanceof Date) return value.toISOString().slice(0, 10);
+  return String(value);
+}
+
+/**
+ * The fields that differ between two versions of an entity
+ */
+export function diffFields(
+  before: Record<string, unknown>,
+  after: Record<string, unknown>,
+  fields: readonly string[]
+): RevisionChange[] {
+  return fields
+    .filter(field => field in after)
+    .map(field => ({ field, before: revisionValue(before[field]), after: revisionValue(after[field]) }))
+    .filter(change => change.before !== change.after);
+}
+
+/**
+ * Field values that put an entity back the way it was before the revision
+ */
+export function valuesBefore(revision: Pick<Revision, 'changes'>): Record<string, string | null> {
+  return Object.fromEntries(revision.changes.map(change => [change.field, change.before]));
+}
+
+function pushSegment(segments: DiffSegment[], type: DiffSegment['type'], text: string) {
+  const last = segments[segments.length - 1];
+  if (last?.type === type) {
+    last.text += text;
+  } else {
+    segments.push({ type, text });
+  }
+}
+
+/**
+ * Word-level diff of two texts. Whitespace is kept with the word before it,
+ * so joining the equal and removed segments gives `before` back, and the
+ * equal and added segments give `after`.
+ */
+export function diffWords(before: string, after: string): DiffSegment[] {
+  const a = before.match(/\S+\s*|\s+/g) ?? [];
+  const b = after.match(/\S+\s*|\s+/g) ?? [];
+
+  if (a.length > MAX_DIFF_TOKENS || b.length > MAX_DIFF_TOKENS) {
+    const segments: DiffSegment[] = [];
+    if (before) segments.push({ type: 'removed', text: before });
+    if (after) segments.push({ type: 'added', text: after });
+    return segments;
+  }
+
+  // lcs[i][j]: length of the longest common subsequence of a[i:] and b[j:]
+  const lcs = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const segments: DiffSegment[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      pushSegment(segments, 'equal', a[i]);
+      i++;
+      j++;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      pushSegment(segments, 'removed', a[i++]);
+    } else {
+      pushSegment(segments, 'added', b[j++]);
+    }
+  }
+  while (i < a.length) pushSegment(segments, 'removed', a[i++]);
+  while (j < b.length) pushSegment(segments, 'added', b[j++]);
+
+  return segments;
+}
+
+export function toRevisionView(revision: Revision): RevisionView {
+  return {
+    ...revision,
+    changes: revision.changes.map(change => ({
+      ...change,
+      diff: diffWords(change.before ?? '', change.after ?? ''),
+    })),
+  };
+}
@@ -0,0 +1,80 @@
+import { buildSnippet, parseQuery, searchDocuments, SearchDocument, searchLink } from '../index';
+
+function doc(overrides: Partial<SearchDocument> & Pick<SearchDocument, 'source' | 'id' | 'body'>): SearchDocument {
+  return {
+    title: `${overrides.source} ${overrides.id}`,
+    link: searchLink(overrides.source, overrides.id),
+    date: '2025-03-01T08:00:00.000Z',
+    ...overrides,
+  };
+}
+
+const documents: SearchDocument[] = [
+  doc({ source: 'reflection', id: 1, body: 'I missed Fajr again and felt heavy all morning. I want to pray on time.' }),
+  doc({ source: 'conversation', id: 2, body: 'Praying Fajr at the masjid helped, and my patience grew.', date: '2025-03-05T08:00:00.000Z' }),
+  doc({ source: 'halaqa', id: 3, title: 'Sabr in hardship', body: 'Patience is half of faith.', date: '2025-02-20' }),
+  doc({ source: 'wird', id: 4, body: 'Morning adhkar after Fajr, then Quran.', date: '2025-03-10' }),
+];
+
+const page = { limit: 10, offset: 0 };
+
+describe('parseQuery', () => {
+  it('stems terms, drops stop words and reads phrases and exclusions', () => {
+    expect(parseQuery('the prayers "on time" -sleeping')).toEqual({
+      terms: ['prayer', 'time'],
+      phrases: ['on time'],
+      excluded: ['sleep'],
+    });
+  });
+});
+
+describe('searchDocuments', () => {
+  it('requires every term, matching across word forms', () => {
+    const results = searchDocuments(documents, 'pray fajr', page);
+
+    expect(results.hits.map(hit => hit.id).sort()).toEqual([1, 2]);
+    expect(results.total).toBe(2);
+    expect(results.counts).toEqual({ reflection: 1, conversation: 1, halaqa: 0, wird: 0 });
+  });
+
+  it('ranks title matches above body matches', () => {
+    const results = searchDocuments(documents, 'sabr', page);
+    expect(results.hits[0]).toMatchObject({ source: 'halaqa', id: 3, link: '/halaqa/3' });
+  });
+
+  it('applies phrases and exclusions', () => {
+    expect(searchDocuments(documents, '"on time"', page).hits.map(hit => hit.id)).toEqual([1]);
+    expect(searchDocuments(documents, 'fajr -quran', page).hits.map(hit => hit.id).sort()).toEqual([1, 2]);
+  });
+
+  it('filters by source and date and paginates', () => {
+    expect(searchDocuments(documents, 'fajr', { ...page, sources: ['wird'] }).hits.map(hit => hit.id)).toEqual([4]);
+
+    const ranged = searchDocuments(documents, 'fajr', {
+      ...page,
+      from: new Date('2025-03-02T00:00:00Z'),
+      to: new Date('2025-03-06T00:00:00Z'),
+    });
+    expect(ranged.hits.map(hit => hit.id)).toEqual([2]);
+
+    const first = searchDocuments(documents, 'fajr', { limit: 2, offset: 0 });
+    expect(first.hits).toHaveLength(2);
+    expect(first.total).toBe(3);
+    expect(first.hasMore).toBe(true);
+  });
+
+  it('finds nothing for a query of only stop words', () => {
+    expect(searchDocuments(documents, 'the and of', page).total).toBe(0);
+  });
+});
+
+describe('buildSnippet', () => {
+  it('marks matches and trims around the first one', () => {
+    const body = `${'word '.repeat(40)}I finally prayed Fajr on time today. ${'more '.repeat(40)}`;
+    const snippet = buildSnippet(body, parseQuery('pray'), 10);
+
+    expect(snippet).toContain('<mark>prayed</mark>');
+    expect(snippet.startsWith('… ')).toBe(true);
+    expect(snippet.endsWith(' …')).toBe(true);
+  });
+});
@@ -0,0 +1,114 @@
+/**
+ * The searchable text of each source, shared by the in-memory and Postgres
+ * implementations so both index (and link to) the same things
+ */
+import type { Conversation, Halaqa, Reflection, SearchSource } from '@shared/schema';
+
+export interface SearchDocument {
+  source: SearchSource;
+  id: number;
+  /** Weighted above the body when ranking */
+  title: string;
+  body: string;
+  link: string;
+  date: string;
+}
+
+function isoDate(value: string | Date): string {
+  return value instanceof Date ? value.toISOString() : value;
+}
+
+/**
+ * Route that shows a hit. Conversations open on their reflection's page.
+ */
+export function searchLink(source: SearchSource, id: number, reflectionId?: number | null): string {
+  switch (source) {
+    case 'reflection':
+      return `/chat/${id}`;
+    case 'conversation':
+      return `/chat/${reflectionId ?? id}`;
+    case 'halaqa':
+      return `/halaqa/${id}`;
+    case 'wird':
+      return `/wird/${id}`;
+  }
+}
+
+/**
+ * Display title for sources that have none of their own
+ */
+export function searchTitle(source: SearchSource, date: string, title?: string | null): string {
+  if (title) return title;
+  const day = date.slice(0, 10);
+  switch (source) {
+    case 'reflection':
+      return `Reflection, ${day}`;
+    case 'conversation':
+      return `Conversation, ${day}`;
+    case 'halaqa':
+      return `Halaqa, ${day}`;
+    case 'wird':
+      return `Wird notes, ${day}`;
+  }
+}
+
+/**
+ * Audio reflections are searched by their transcription; their content is
+ * the recording itself
+ */
+export function reflectionDocument(reflection: Reflection): SearchDocument {
+  const date = isoDate(reflection.timestamp);
+  return {
+    source: 'reflection',
+    id: reflection.id,
+    title: searchTitle('reflection', date),
+    body: reflection.type === 'audio' ? reflection.transcription ?? '' : reflection.content,
+    link: searchLink('reflection', reflection.id),
+    date,
+  };
+}
+
+/**
+ * The user's replies in a conversation. The first message repeats the
+ * reflection, which is indexed on its own, and assistant messages are
+ * generated rather than the user's muhasaba, so both are left out.
+ */
+export function conversationDocument(conversation: Conversation): SearchDocument {
+  const date = isoDate(conversation.timestamp);
+  return {
+    source: 'conversation',
+    id: conversation.id,
+    title: searchTitle('conversation', date),
+    body: conversation.messages
+      .slice(1)
+      .filter(message => message.role === 'user')
+      .map(message => message.content)
+      .join('\n'),
+    link: searchLink('conversation', conversation.id, conversation.reflectionId),
+    date,
+  };
+}
+
+export function halaqaDocument(halaqa: Halaqa): SearchDocument {
+  const date = isoDate(halaqa.date).slice(0, 10);
+  return {
+    source: 'halaqa',
+    id: halaqa.id,
+    title: searchTitle('halaqa', date, halaqa.title),
+    body: [halaqa.topic, halaqa.keyReflection, halaqa.impact].join('\n'),
+    link: searchLink('halaqa', halaqa.id),
+    date,
+  };
+}
+
+export function wirdDocument(wird: { id: number | string; date: string | Date; notes?: string | null }): SearchDocument {
+  const date = isoDate(wird.date).slice(0, 10);
+  return {
+    source: 'wird',
+    id: Number(wird.id),
+    title: searchTitle('wird', date),
+    body: wird.notes ?? '',
+    link: searchLink('wird', Number(wird.id)),
+    date,
+  };
+}
@@ -0,0 +1,14 @@
+/**
+ * Full-text search across a user's reflections, conversations, halaqa notes
+ * and wird notes
+ *
+ * DbStorage searches with Postgres (see ./postgres) and MemStorage with an
+ * in-memory approximation of it (see ./memory); both rank hits, mark the
+ * matching words in a snippet and link each hit to the page that shows it.
+ */
+export type { SearchOptions } from './options';
+export { emptySearchResults, MARK_END, MARK_START } from './options';
+export type { SearchDocument } from './documents';
+export { conversationDocument, halaqaDocument, reflectionDocument, searchLink, wirdDocument } from './documents';
+export { buildSnippet, parseQuery, searchDocuments } from './memory';
+export { searchCountsQuery, searchPageQuery, searchResultsFromRows } from './postgres';
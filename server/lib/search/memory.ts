@@ -0,0 +1,161 @@
+/**
+ * In-memory full-text search for MemStorage, approximating what Postgres'
+ * websearch_to_tsquery / ts_rank / ts_headline do with the english config:
+ * words are lowercased and crudely stemmed, stop words are ignored, every
+ * term must match, "quoted phrases" must appear as written and -words must
+ * not appear at all
+ */
+import type { SearchHit, SearchResults } from '@shared/schema';
+import type { SearchDocument } from './documents';
+import { emptySearchResults, MARK_END, MARK_START, SearchOptions, SNIPPET_WORDS } from './options';
+
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'but', 'by', 'for', 'from', 'i', 'if', 'in', 'into',
+  'is', 'it', 'me', 'my', 'no', 'not', 'of', 'on', 'or', 'so', 'than', 'that', 'the', 'their',
+  'then', 'there', 'these', 'they', 'this', 'to', 'was', 'we', 'were', 'what', 'when', 'which',
+  'who', 'will', 'with', 'you', 'your',
+]);
+
+const TITLE_WEIGHT = 2;
+
+// Letters and digits, including accented Latin and Arabic script
+const NON_WORD = /[^0-9a-z\u00c0-\u024f\u0600-\u06ff]+/g;
+
+export interface ParsedQuery {
+  /** Stems that must all appear */
+  terms: string[];
+  /** Normalized phrases that must appear as written */
+  phrases: string[];
+  /** Stems that must not appear */
+  excluded: string[];
+}
+
+/**
+ * Reduce a word to a rough stem so "praying", "prays" and "pray" match
+ */
+export function stem(word: string): string {
+  for (const suffix of ['ing', 'edly', 'ed', 'ies', 'es', 's', 'ly']) {
+    if (word.length - suffix.length >= 3 && word.endsWith(suffix)) {
+      return suffix === 'ies' ? word.slice(0, -3) + 'y' : word.slice(0, -suffix.length);
+    }
+  }
+  return word;
+}
+
+function normalizeWord(word: string): string {
+  return word.toLowerCase().replace(/['’]/g, '').replace(NON_WORD, '');
+}
+
+function words(text: string): string[] {
+  return text.toLowerCase().replace(/['’]/g, '').split(NON_WORD).filter(Boolean);
+}
+
+function stems(text: string): string[] {
+  return words(text).filter(word => !STOP_WORDS.has(word)).map(stem);
+}
+
+export function parseQuery(query: string): ParsedQuery {
+  const parsed: ParsedQuery = { terms: [], phrases: [], excluded: [] };
+
+  for (const [, phrase, word] of Array.from(query.matchAll(/"([^"]*)"|(\S+)/g))) {
+    if (phrase !== undefined) {
+      const normalized = words(phrase).join(' ');
+      if (normalized) parsed.phrases.push(normalized);
+      parsed.terms.push(...stems(phrase));
+    } else if (word.startsWith('-') && word.length > 1) {
+      parsed.excluded.push(...stems(word.slice(1)));
+    } else {
+      parsed.terms.push(...stems(word));
+    }
+  }
+
+  parsed.terms = Array.from(new Set(parsed.terms));
+  return parsed;
+}
+
+function countMatches(documentStems: string[], term: string): number {
+  return documentStems.filter(s => s === term).length;
+}
+
+/**
+ * Rank of a document for the query, or null when it doesn't match
+ */
+export function rankDocument(document: SearchDocument, query: ParsedQuery): number | null {
+  if (query.terms.length === 0) return null;
+
+  const titleStems = stems(document.title);
+  const bodyStems = stems(document.body);
+  const all = [...titleStems, ...bodyStems];
+
+  if (query.excluded.some(term => all.includes(term))) return null;
+  if (!query.terms.every(term => all.includes(term))) return null;
+
+  const text = ` ${words(`${document.title} ${document.body}`).join(' ')} `;
+  if (!query.phrases.every(phrase => text.includes(` ${phrase} `))) return null;
+
+  const score = query.terms.reduce(
+    (total, term) => total + TITLE_WEIGHT * countMatches(titleStems, term) + countMatches(bodyStems, term),
+    0
+  );
+  // Like ts_rank with normalization 1: longer documents rank lower for the same hits
+  return score / (1 + Math.log(1 + all.length));
+}
+
+/**
+ * Excerpt of the body around the first match, with matching words marked
+ */
+export function buildSnippet(body: string, query: ParsedQuery, maxWords = SNIPPET_WORDS): string {
+  const tokens = body.split(/\s+/).filter(Boolean);
+  const terms = new Set(query.terms);
+  const isMatch = (token: string) => {
+    const word = normalizeWord(token);
+    return !!word && !STOP_WORDS.has(word) && terms.has(stem(word));
+  };
+
+  const first = tokens.findIndex(isMatch);
+  const start = first === -1 ? 0 : Math.max(0, Math.min(first - Math.floor(maxWords / 3), tokens.length - maxWords));
+  const window = tokens.slice(start, start + maxWords);
+
+  const marked = window.map(token => (isMatch(token) ? `${MARK_START}${token}${MARK_END}` : token)).join(' ');
+  return `${start > 0 ? '… ' : ''}${marked}${start + maxWords < tokens.length ? ' …' : ''}`;
+}
+
+/**
+ * Search the given documents, which must already be limited to one user's
+ */
+export function searchDocuments(documents: SearchDocument[], query: string, options: SearchOptions): SearchResults {
+  const results = emptySearchResults(query, options);
+  const parsed = parseQuery(query);
+  const from = options.from?.getTime();
+  const to = options.to?.getTime();
+
+  const hits: SearchHit[] = [];
+  for (const document of documents) {
+    if (options.sources && !options.sources.includes(document.source)) continue;
+    const time = new Date(document.date).getTime();
+    if ((from !== undefined && time < from) || (to !== undefined && time > to)) continue;
+
+    const rank = rankDocument(document, parsed);
+    if (rank === null) continue;
+
+    hits.push({
+      source: document.source,
+      id: document.id,
+      title: document.title,
+      snippet: buildSnippet(document.body, parsed),
+      link: document.link,
+      date: document.date,
+      rank,
+    });
+  }
+
+  hits.sort((a, b) => b.rank - a.rank || b.date.localeCompare(a.date));
+  for (const hit of hits) results.counts[hit.source]++;
+
+  return {
+    ...results,
+    hits: hits.slice(options.offset, options.offset + options.limit),
+    total: hits.length,
+    hasMore: options.offset + options.limit < hits.length,
+  };
+}
@@ -0,0 +1,30 @@
+import { searchSources, SearchResults, SearchSource } from '@shared/schema';
+
+export interface SearchOptions {
+  /** Limit to these sources; all of them when omitted */
+  sources?: SearchSource[];
+  /** Inclusive date range */
+  from?: Date;
+  to?: Date;
+  limit: number;
+  offset: number;
+}
+
+/** Matches in snippets are wrapped in these, as in ts_headline's StartSel/StopSel */
+export const MARK_START = '<mark>';
+export const MARK_END = '</mark>';
+
+/** Roughly how many words a snippet shows */
+export const SNIPPET_WORDS = 30;
+
+export function emptySearchResults(query: string, options: SearchOptions): SearchResults {
+  return {
+    query,
+    hits: [],
+    total: 0,
+    counts: Object.fromEntries(searchSources.map(source => [source, 0])) as Record<SearchSource, number>,
+    limit: options.limit,
+    offset: options.offset,
+    hasMore: false,
+  };
+}
@@ -0,0 +1,129 @@
+/**
+ * Postgres full-text search over the same documents as ./documents, using
+ * websearch_to_tsquery so the query syntax matches the in-memory search.
+ * Only the user's own rows are scanned, so no search index is needed.
+ */
+import { sql, SQL } from 'drizzle-orm';
+import type { SearchHit, SearchResults, SearchSource } from '@shared/schema';
+import { searchLink, searchTitle } from './documents';
+import { emptySearchResults, MARK_END, MARK_START, SearchOptions, SNIPPET_WORDS } from './options';
+
+interface SearchRow {
+  source: SearchSource;
+  id: number;
+  reflection_id: number | null;
+  title: string | null;
+  snippet: string;
+  date: Date | string;
+  rank: number | string;
+}
+
+interface CountRow {
+  source: SearchSource;
+  count: number | string;
+}
+
+const HEADLINE_OPTIONS =
+  `StartSel=${MARK_START}, StopSel=${MARK_END}, MaxWords=${SNIPPET_WORDS}, MinWords=${Math.floor(SNIPPET_WORDS / 2)}, ` +
+  'MaxFragments=2, FragmentDelimiter=" … "';
+
+/**
+ * The user's matching documents as a CTE named "matches"
+ */
+function matchesCte(userId: string, query: string, options: SearchOptions): SQL {
+  const filters: SQL[] = [sql`v.document @@ q.query`];
+  if (options.sources) {
+    filters.push(sql`source IN (${sql.join(options.sources.map(source => sql`${source}`), sql`, `)})`);
+  }
+  if (options.from) filters.push(sql`date >= ${options.from}`);
+  if (options.to) filters.push(sql`date <= ${options.to}`);
+
+  return sql`
+    WITH q AS (
+      SELECT websearch_to_tsquery('english', ${query}) AS query
+    ),
+    documents AS (
+      SELECT 'reflection' AS source, r.id, NULL::integer AS reflection_id, NULL::text AS title,
+        CASE WHEN r.type = 'audio' THEN coalesce(r.transcription, '') ELSE r.content END AS body,
+        r.timestamp AS date
+      FROM reflections r
+      WHERE r.user_id = ${userId}
+      UNION ALL
+      SELECT 'conversation', c.id, c.reflection_id, NULL,
+        coalesce((
+          SELECT string_agg(m.value->>'content', E'\n' ORDER BY m.ordinality)
+          FROM json_array_elements(c.messages) WITH ORDINALITY AS m(value, ordinality)
+          WHERE m.ordinality > 1 AND m.value->>'role' = 'user'
+        ), ''),
+        c.timestamp
+      FROM conversations c
+      WHERE c.user_id = ${userId}
+      UNION ALL
+      SELECT 'halaqa', h.id, NULL, h.title, concat_ws(E'\n', h.topic, h.key_reflection, h.impact), h.date::timestamp
+      FROM halaqas h
+      WHERE h.user_id = ${userId} AND h.is_archived IS NOT TRUE
+      UNION ALL
+      SELECT 'wird', w.id, NULL, NULL, w.notes, w.date::timestamp
+      FROM wirds w
+      WHERE w.user_id = ${userId} AND w.is_archived IS NOT TRUE AND w.notes IS NOT NULL
+    ),
+    matches AS (
+      SELECT d.*, q.query, ts_rank(v.document, q.query, 1) AS rank
+      FROM documents d, q,
+        LATERAL (
+          SELECT setweight(to_tsvector('english', coalesce(d.title, '')), 'A') || setweight(to_tsvector('english', d.body), 'B') AS document
+        ) v
+      WHERE ${sql.join(filters, sql` AND `)}
+    )`;
+}
+
+/**
+ * One page of hits, best first
+ */
+export function searchPageQuery(userId: string, query: string, options: SearchOptions): SQL {
+  return sql`${matchesCte(userId, query, options)}
+    SELECT source, id, reflection_id, title, date, rank,
+      ts_headline('english', body, query, ${HEADLINE_OPTIONS}) AS snippet
+    FROM matches
+    ORDER BY rank DESC, date DESC
+    LIMIT ${options.limit} OFFSET ${options.offset}`;
+}
+
+/**
+ * Number of hits per source across all pages
+ */
+export function searchCountsQuery(userId: string, query: string, options: SearchOptions): SQL {
+  return sql`${matchesCte(userId, query, options)}
+    SELECT source, count(*) AS count FROM matches GROUP BY source`;
+}
+
+function rowDate(row: SearchRow): string {
+  const date = row.date instanceof Date ? row.date.toISOString() : String(row.date);
+  return row.source === 'halaqa' || row.source === 'wird' ? date.slice(0, 10) : date;
+}
+
+export function searchResultsFromRows(
+  rows: SearchRow[],
+  countRows: CountRow[],
+  query: string,
+  options: SearchOptions
+): SearchResults {
+  const results = emptySearchResults(query, options);
+  for (const { source, count } of countRows) results.counts[source] = Number(count);
+  const total = Object.values(results.counts).reduce((sum, count) => sum + count, 0);
+
+  const hits: SearchHit[] = rows.map(row => {
+    const date = rowDate(row);
+    return {
+      source: row.source,
+      id: row.id,
+      title: searchTitle(row.source, date, row.title),
+      snippet: row.snippet,
+      link: searchLink(row.source, row.id, row.reflection_id),
+      date,
+      rank: Number(row.rank),
+    };
+  });
+
+  return { ...results, hits, total, hasMore: options.offset + options.limit < total };
+}
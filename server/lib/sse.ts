@@ -0,0 +1,73 @@
+import type { Request, Response } from "express";
+
+/**
+ * Minimal Server-Sent Events helpers for streaming generator output
+ */
+
+const HEARTBEAT_INTERVAL_MS = 15000;
+
+export interface SSEStream {
+  /** Send a named event with a JSON payload; no-op once the connection is closed */
+  send(event: string, data: unknown): void;
+  /** End the response and stop the heartbeat */
+  close(): void;
+  /** Aborted when the client disconnects before close() is called */
+  signal: AbortSignal;
+  isClosed(): boolean;
+}
+
+/**
+ * Whether the client asked for an event stream rather than a JSON response
+ */
+export function wantsEventStream(req: Request): boolean {
+  return (req.headers.accept || "").includes("text/event-stream");
+}
+
+/**
+ * Switch the response into SSE mode. Sends headers immediately, keeps
+ * intermediaries from buffering, and emits a comment heartbeat so idle
+ * proxies don't drop the connection while the model is thinking.
+ */
+export function openEventStream(res: Response): SSEStream {
+  const controller = new AbortController();
+  let closed = false;
+
+  res.status(200);
+  res.setHeader("Content-Type", "text/event-stream");
+  res.setHeader("Cache-Control", "no-cache, no-transform");
+  res.setHeader("Connection", "keep-alive");
+  res.setHeader("X-Accel-Buffering", "no");
+  res.flushHeaders();
+
+  const heartbeat = setInterval(() => {
+    if (!closed) res.write(": keep-alive\n\n");
+  }, HEARTBEAT_INTERVAL_MS);
+
+  const stop = () => {
+    closed = true;
+    clearInterval(heartbeat);
+  };
+
+  // "close" fires on the response for both normal completion and client
+  // disconnects; only the latter should abort upstream work
+  res.on("close", () => {
+    if (!closed) {
+      stop();
+      controller.abort();
+    }
+  });
+
+  return {
+    signal: controller.signal,
+    isClosed: () => closed,
+    send(event: string, data: unknown) {
+      if (closed) return;
+      res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+    },
+    close() {
+      if (closed) return;
+      stop();
+      res.end();
+    },
+  };
+}
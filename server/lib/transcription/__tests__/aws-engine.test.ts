@@ -0,0 +1,120 @@
+import { mockClient } from 'aws-sdk-client-mock';
+import {
+  TranscribeClient,
+  StartTranscriptionJobCommand,
+  GetTranscriptionJobCommand,
+  DeleteTranscriptionJobCommand,
+} from '@aws-sdk/client-transcribe';
+import { AwsEngine } from '../aws-engine';
+import { TranscriptionError } from '../errors';
+
+// aws-config needs credentials on import; the engine only uses these two exports
+jest.mock('../../aws-config', () => {
+  const { TranscribeClient } = jest.requireActual('@aws-sdk/client-transcribe');
+  return {
+    transcribeClient: new TranscribeClient({ region: 'us-east-1' }),
+    uploadToS3: jest.fn(async (_buffer: Buffer, key: string) => `s3://test-bucket/${key}`),
+  };
+});
+
+const transcribeMock = mockClient(TranscribeClient);
+
+function completedJob() {
+  return {
+    TranscriptionJob: {
+      TranscriptionJobStatus: 'COMPLETED' as const,
+      Transcript: { TranscriptFileUri: 'https://example.com/transcript.json' },
+    },
+  };
+}
+
+function mockTranscript(transcript: string, items: object[] = []) {
+  global.fetch = jest.fn().mockResolvedValue({
+    ok: true,
+    json: () => Promise.resolve({ results: { transcripts: [{ transcript }], items } }),
+  }) as any;
+}
+
+function word(content: string, start: string, end: string, confidence = '0.9') {
+  return { type: 'pronunciation', start_time: start, end_time: end, alternatives: [{ content, confidence }] };
+}
+
+function punctuation(content: string) {
+  return { type: 'punctuation', alternatives: [{ content, confidence: '0.0' }] };
+}
+
+describe('AwsEngine', () => {
+  const audio = Buffer.from('test audio content');
+  const engine = new AwsEngine({ pollIntervalMs: 0, maxAttempts: 3 });
+
+  beforeEach(() => {
+    transcribeMock.reset();
+    transcribeMock.on(DeleteTranscriptionJobCommand).resolves({});
+  });
+
+  it('transcribes audio through a transcription job', async () => {
+    transcribeMock.on(StartTranscriptionJobCommand).resolves({});
+    transcribeMock.on(GetTranscriptionJobCommand)
+      .resolvesOnce({ TranscriptionJob: { TranscriptionJobStatus: 'IN_PROGRESS' } })
+      .resolves(completedJob());
+    mockTranscript(' Hello world ');
+
+    await expect(engine.transcribe(audio, 'audio/webm;codecs=opus')).resolves.toEqual({ text: 'Hello world', segments: [] });
+
+    const [start] = transcribeMock.commandCalls(StartTranscriptionJobCommand);
+    expect(start.args[0].input).toMatchObject({ MediaFormat: 'webm', LanguageCode: 'en-US' });
+    expect(transcribeMock.commandCalls(DeleteTranscriptionJobCommand)).toHaveLength(1);
+  });
+
+  it('groups the timed words into sentences', async () => {
+    transcribeMock.on(StartTranscriptionJobCommand).resolves({});
+    transcribeMock.on(GetTranscriptionJobCommand).resolves(completedJob());
+    mockTranscript('Alhamdulillah, a good day. Was it?', [
+      word('Alhamdulillah', '0.1', '0.9', '0.8'),
+      punctuation(','),
+      word('a', '1.0', '1.1', '1.0'),
+      word('good', '1.1', '1.4', '0.9'),
+      word('day', '1.4', '1.8', '0.9'),
+      punctuation('.'),
+      word('Was', '2.5', '2.7'),
+      word('it', '2.7', '2.9'),
+      punctuation('?'),
+    ]);
+
+    const { segments } = await engine.transcribe(audio, 'wav');
+
+    expect(segments).toEqual([
+      { start: 0.1, end: 1.8, text: 'Alhamdulillah, a good day.', confidence: 0.9 },
+      { start: 2.5, end: 2.9, text: 'Was it?', confidence: 0.9 },
+    ]);
+  });
+
+  it('throws for an unsupported format', async () => {
+    await expect(engine.transcribe(audio, 'invalid')).rejects.toBeInstanceOf(TranscriptionError);
+  });
+
+  it('handles transcription job failure', async () => {
+    transcribeMock.on(StartTranscriptionJobCommand).resolves({});
+    transcribeMock.on(GetTranscriptionJobCommand).resolves({
+      TranscriptionJob: { TranscriptionJobStatus: 'FAILED', FailureReason: 'Test failure' },
+    });
+
+    await expect(engine.transcribe(audio, 'mp3')).rejects.toThrow('Transcription job failed: Test failure');
+    expect(transcribeMock.commandCalls(DeleteTranscriptionJobCommand)).toHaveLength(1);
+  });
+
+  it('gives up on a job that never finishes', async () => {
+    transcribeMock.on(StartTranscriptionJobCommand).resolves({});
+    transcribeMock.on(GetTranscriptionJobCommand).resolves({ TranscriptionJob: { TranscriptionJobStatus: 'IN_PROGRESS' } });
+
+    await expect(engine.transcribe(audio, 'mp3')).rejects.toThrow('timed out after 3 status checks');
+  });
+
+  it('reports a transcript with no speech', async () => {
+    transcribeMock.on(StartTranscriptionJobCommand).resolves({});
+    transcribeMock.on(GetTranscriptionJobCommand).resolves(completedJob());
+    mockTranscript('');
+
+    await expect(engine.transcribe(audio, 'wav')).rejects.toThrow(/No speech detected/);
+  });
+});
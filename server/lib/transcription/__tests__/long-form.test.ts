@@ -0,0 +1,151 @@
+import fs from 'fs';
+import path from 'path';
+import { TranscriptionEngine, TranscriptionError, TranscriptSegment, setTranscriptionEngines } from '..';
+import { planChunks, probeDuration, splitAudio } from '../ffmpeg';
+import { ChunkTranscript, LongFormConfig, stitchTranscripts, transcribeLongAudio } from '../long-form';
+
+// No ffmpeg here; each chunk is test_audio.wav with its index as the last byte
+jest.mock('../ffmpeg', () => ({
+  ...jest.requireActual('../ffmpeg'),
+  probeDuration: jest.fn(),
+  splitAudio: jest.fn(),
+}));
+
+const AUDIO = fs.readFileSync(path.resolve(__dirname, '../../../../test_audio.wav'));
+
+const CONFIG: LongFormConfig = {
+  chunkSeconds: 600,
+  overlapSeconds: 10,
+  concurrency: 2,
+  maxMinutes: 240,
+};
+
+function segment(start: number, end: number, text: string): TranscriptSegment {
+  return { start, end, text, confidence: null };
+}
+
+// What each chunk of a 1300 second lecture says, timed from the chunk's start
+const LECTURE: TranscriptSegment[][] = [
+  [segment(0, 5, 'In the name of Allah.'), segment(590, 598, 'Patience is half of faith,')],
+  [segment(4, 12, 'of faith, and gratitude is the other half.'), segment(595, 599, 'Remember Allah often.')],
+  [segment(5, 9, 'Remember Allah often.')],
+];
+
+function lectureEngine(chunks: (TranscriptSegment[] | null)[]): TranscriptionEngine {
+  return {
+    name: 'whisper',
+    isConfigured: () => true,
+    transcribe: async (audio) => {
+      const segments = chunks[audio[audio.length - 1]];
+      if (!segments) throw new TranscriptionError('No speech detected');
+      return { text: segments.map(s => s.text).join(' '), segments };
+    },
+  };
+}
+
+describe('planChunks', () => {
+  it('overlaps each chunk with the one before', () => {
+    expect(planChunks(1300, 600, 10)).toEqual([
+      { index: 0, start: 0, duration: 600 },
+      { index: 1, start: 590, duration: 600 },
+      { index: 2, start: 1180, duration: 120 },
+    ]);
+  });
+
+  it('keeps a short recording whole', () => {
+    expect(planChunks(42, 600, 10)).toEqual([{ index: 0, start: 0, duration: 42 }]);
+  });
+});
+
+describe('stitchTranscripts', () => {
+  function chunk(start: number, duration: number, segments: TranscriptSegment[], text?: string): ChunkTranscript {
+    return { index: 0, start, duration, segments, text: text ?? segments.map(s => s.text).join(' ') };
+  }
+
+  it('keeps words heard by both chunks at a seam once', () => {
+    const { text } = stitchTranscripts([
+      chunk(0, 600, [segment(590, 598, 'Patience is half of faith,')]),
+      chunk(590, 600, [segment(594, 602, 'Of faith, and gratitude is the other half.')]),
+    ]);
+
+    expect(text).toBe('Patience is half of faith, and gratitude is the other half.');
+  });
+
+  it('leaves a single repeated word alone', () => {
+    const { text } = stitchTranscripts([
+      chunk(0, 600, [segment(590, 596, 'Say it again and')]),
+      chunk(590, 600, [segment(596, 600, 'and again.')]),
+    ]);
+
+    expect(text).toBe('Say it again and and again.');
+  });
+
+  it('cuts each overlap at its middle', () => {
+    const { segments } = stitchTranscripts([
+      chunk(0, 600, [segment(591, 593, 'early'), segment(597, 599, 'late')]),
+      chunk(590, 600, [segment(591, 593, 'early twice'), segment(597, 599, 'late twice')]),
+    ]);
+
+    expect(segments.map(s => s.text)).toEqual(['early', 'late twice']);
+  });
+
+  it('spreads an untimed chunk over its whole length', () => {
+    const { segments } = stitchTranscripts([chunk(0, 600, [], 'No timings here.')]);
+
+    expect(segments).toEqual([segment(0, 600, 'No timings here.')]);
+  });
+});
+
+describe('transcribeLongAudio', () => {
+  beforeEach(() => {
+    jest.mocked(probeDuration).mockResolvedValue(1300);
+    jest.mocked(splitAudio).mockImplementation(async (_file, outDir, chunks) => Promise.all(chunks.map(async chunk => {
+      const file = path.join(outDir, `chunk-${chunk.index}.wav`);
+      await fs.promises.writeFile(file, Buffer.concat([AUDIO, Buffer.from([chunk.index])]));
+      return file;
+    })));
+  });
+
+  afterEach(() => {
+    setTranscriptionEngines(null);
+    jest.clearAllMocks();
+  });
+
+  it('transcribes each chunk and stitches them in recording time', async () => {
+    setTranscriptionEngines([lectureEngine(LECTURE)]);
+    const onProgress = jest.fn();
+
+    const result = await transcribeLongAudio('lecture.webm', { onProgress, config: CONFIG });
+
+    expect(result.text).toBe('In the name of Allah. Patience is half of faith, and gratitude is the other half. Remember Allah often.');
+    expect(result.segments).toEqual([
+      segment(0, 5, 'In the name of Allah.'),
+      segment(590, 598, 'Patience is half of faith,'),
+      segment(594, 602, 'and gratitude is the other half.'),
+      segment(1185, 1189, 'Remember Allah often.'),
+    ]);
+    expect(result.engine).toBe('whisper');
+    expect(onProgress.mock.calls).toEqual([[0, 3], [1, 3], [2, 3], [3, 3]]);
+  });
+
+  it('leaves out chunks nothing was heard in', async () => {
+    setTranscriptionEngines([lectureEngine([LECTURE[0], null, LECTURE[2]])]);
+
+    const { text } = await transcribeLongAudio('lecture.webm', { config: CONFIG });
+
+    expect(text).toBe('In the name of Allah. Patience is half of faith, Remember Allah often.');
+  });
+
+  it('fails a recording nothing was heard in', async () => {
+    setTranscriptionEngines([lectureEngine([null, null, null])]);
+
+    await expect(transcribeLongAudio('lecture.webm', { config: CONFIG })).rejects.toThrow(TranscriptionError);
+  });
+
+  it('refuses recordings longer than the limit', async () => {
+    jest.mocked(probeDuration).mockResolvedValue(5 * 60 * 60);
+
+    await expect(transcribeLongAudio('lecture.webm', { config: CONFIG })).rejects.toThrow('at most 240 minutes');
+    expect(splitAudio).not.toHaveBeenCalled();
+  });
+});
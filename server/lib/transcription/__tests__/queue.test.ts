@@ -0,0 +1,287 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { MemStorage } from '../../../storage';
+import { LocalAudioStore, setAudioStore } from '../../audio-store';
+import { FixtureEngine, TranscriptionEngine, TranscriptionError, setTranscriptionEngines } from '..';
+import { TranscriptionQueue, TranscriptionQueueConfig, transcriptionJobView } from '../queue';
+
+// The database module connects on import; MemStorage never touches it
+jest.mock('../../../db', () => ({ db: undefined }));
+
+// No ffmpeg here; test_audio.wav is short enough to be a lecture's only chunk
+jest.mock('../ffmpeg', () => ({
+  ...jest.requireActual('../ffmpeg'),
+  probeDuration: jest.fn().mockResolvedValue(5.18),
+  splitAudio: jest.fn(async (file: string, outDir: string) => {
+    const chunk = `${outDir}/chunk-0000.wav`;
+    await require('fs').promises.copyFile(file, chunk);
+    return [chunk];
+  }),
+}));
+
+const AUDIO = fs.readFileSync(path.resolve(__dirname, '../../../../test_audio.wav'));
+const FIXTURE = path.resolve(__dirname, '../../../../test_audio.json');
+
+const CONFIG: TranscriptionQueueConfig = {
+  concurrency: 2,
+  maxAttempts: 3,
+  retryBaseMs: 0,
+  pollIntervalMs: 1000,
+  staleAfterMs: 60_000,
+};
+
+function engineThatFails(error: Error, times = Infinity): TranscriptionEngine & { calls: number } {
+  const fixture = new FixtureEngine(FIXTURE);
+  const engine = {
+    name: 'whisper' as const,
+    calls: 0,
+    isConfigured: () => true,
+    transcribe: async (audio: Buffer, format: string) => {
+      engine.calls++;
+      if (engine.calls <= times) throw error;
+      return fixture.transcribe(audio, format);
+    },
+  };
+  return engine;
+}
+
+describe('TranscriptionQueue', () => {
+  let storage: MemStorage;
+  let audioDir: string;
+  let store: LocalAudioStore;
+  let audioKey: string;
+
+  async function pendingReflection(storage: MemStorage) {
+    return storage.createReflection({
+      userId: 'user-1',
+      type: 'audio',
+      content: '',
+      audioKey,
+      audioType: 'audio/wav',
+      transcriptionStatus: 'pending',
+    });
+  }
+
+  beforeEach(async () => {
+    storage = new MemStorage();
+    setTranscriptionEngines([new FixtureEngine(FIXTURE)]);
+    audioDir = fs.mkdtempSync(path.join(os.tmpdir(), 'queue-audio-'));
+    store = new LocalAudioStore({ dir: audioDir, maxBytes: 10 * 1024 * 1024 });
+    setAudioStore(store);
+    ({ key: audioKey } = await store.put(AUDIO));
+    // Past the grace period, so the last job to let go of it removes it
+    const longAgo = new Date(Date.now() - 60 * 60 * 1000);
+    fs.utimesSync(path.join(audioDir, audioKey.slice(0, 2), audioKey), longAgo, longAgo);
+  });
+
+  afterEach(() => {
+    setTranscriptionEngines(null);
+    setAudioStore(null);
+    fs.rmSync(audioDir, { recursive: true, force: true });
+  });
+
+  it('transcribes a pending voice reflection and opens its conversation', async () => {
+    const onTranscribed = jest.fn().mockResolvedValue(42);
+    const queue = new TranscriptionQueue(storage, onTranscribed, CONFIG);
+    const reflection = await pendingReflection(storage);
+
+    const job = await queue.enqueue({ userId: 'user-1', reflectionId: reflection.id, promptId: 'gratitude-1' });
+    await queue.drain();
+
+    expect(await storage.getReflection(reflection.id)).toMatchObject({
+      transcription: "You're a... you're... Alright.",
+      transcriptSegments: [
+        expect.objectContaining({ start: 0, end: 1.42, text: "You're a..." }),
+        expect.objectContaining({ text: "you're..." }),
+        expect.objectContaining({ text: 'Alright.' }),
+      ],
+      transcriptionEngine: 'fixture',
+      transcriptionStatus: 'completed',
+    });
+    expect(onTranscribed).toHaveBeenCalledWith(
+      expect.objectContaining({ id: reflection.id, transcription: "You're a... you're... Alright." }),
+      expect.objectContaining({ id: job.id, promptId: 'gratitude-1' })
+    );
+    expect(await storage.getTranscriptionJob(job.id)).toMatchObject({
+      status: 'succeeded',
+      attempts: 1,
+      engine: 'fixture',
+      conversationId: 42,
+      error: null,
+    });
+    // The reflection keeps its recording for playback
+    expect(await store.size(audioKey)).toBe(AUDIO.length);
+  });
+
+  it('retries engine failures and gives up after the last attempt', async () => {
+    const engine = engineThatFails(new Error('Whisper exited with code 1'));
+    setTranscriptionEngines([engine]);
+    const queue = new TranscriptionQueue(storage, undefined, CONFIG);
+    const reflection = await pendingReflection(storage);
+
+    const job = await queue.enqueue({ userId: 'user-1', reflectionId: reflection.id });
+    await queue.drain();
+
+    expect(engine.calls).toBe(3);
+    expect(await storage.getTranscriptionJob(job.id)).toMatchObject({
+      status: 'failed',
+      attempts: 3,
+      error: expect.stringContaining('Whisper exited with code 1'),
+    });
+    expect((await storage.getReflection(reflection.id))?.transcriptionStatus).toBe('failed');
+  });
+
+  it('succeeds on a retry after a passing failure', async () => {
+    const engine = engineThatFails(new Error('Throttled'), 1);
+    setTranscriptionEngines([engine]);
+    const queue = new TranscriptionQueue(storage, undefined, CONFIG);
+
+    const job = await queue.enqueue({ userId: 'user-1', reflectionId: (await pendingReflection(storage)).id });
+    await queue.drain();
+
+    expect(await storage.getTranscriptionJob(job.id)).toMatchObject({ status: 'succeeded', attempts: 2, error: null });
+  });
+
+  it('fails recordings the engines rejected without retrying', async () => {
+    const engine = engineThatFails(new TranscriptionError('No speech detected in the audio.'));
+    setTranscriptionEngines([engine]);
+    const queue = new TranscriptionQueue(storage, undefined, CONFIG);
+
+    const job = await queue.enqueue({ userId: 'user-1', reflectionId: (await pendingReflection(storage)).id });
+    await queue.drain();
+
+    expect(engine.calls).toBe(1);
+    expect(await storage.getTranscriptionJob(job.id)).toMatchObject({ status: 'failed', attempts: 1 });
+  });
+
+  it('opens the conversation again without transcribing again', async () => {
+    const engine = engineThatFails(new Error('unused'), 0);
+    setTranscriptionEngines([engine]);
+    const onTranscribed = jest.fn().mockRejectedValueOnce(new Error('Database unavailable')).mockResolvedValue(7);
+    const queue = new TranscriptionQueue(storage, onTranscribed, CONFIG);
+
+    const job = await queue.enqueue({ userId: 'user-1', reflectionId: (await pendingReflection(storage)).id });
+    await queue.drain();
+
+    expect(engine.calls).toBe(1);
+    expect(onTranscribed).toHaveBeenCalledTimes(2);
+    expect(await storage.getTranscriptionJob(job.id)).toMatchObject({ status: 'succeeded', conversationId: 7 });
+  });
+
+  it('marks the reflection failed when its conversation never opens', async () => {
+    const onTranscribed = jest.fn().mockRejectedValue(new Error('AI allowance used up'));
+    const queue = new TranscriptionQueue(storage, onTranscribed, CONFIG);
+    const reflection = await pendingReflection(storage);
+
+    const job = await queue.enqueue({ userId: 'user-1', reflectionId: reflection.id });
+    await queue.drain();
+
+    expect(onTranscribed).toHaveBeenCalledTimes(3);
+    expect(await storage.getTranscriptionJob(job.id)).toMatchObject({ status: 'failed', conversationId: null });
+    expect(await storage.getReflection(reflection.id)).toMatchObject({
+      transcription: "You're a... you're... Alright.",
+      transcriptionStatus: 'failed',
+    });
+  });
+
+  it('claims abandoned jobs again only while they have attempts left', async () => {
+    const longAgo = new Date(Date.now() - 2 * CONFIG.staleAfterMs);
+    async function abandonedJob(attempts: number) {
+      const reflection = await pendingReflection(storage);
+      const job = await storage.createTranscriptionJob({ userId: 'user-1', reflectionId: reflection.id, maxAttempts: 3 });
+      await storage.updateTranscriptionJob(job.id, { status: 'running', attempts, startedAt: longAgo, heartbeatAt: longAgo });
+      return { job, reflection };
+    }
+    const retried = await abandonedJob(2);
+    const exhausted = await abandonedJob(3);
+
+    await new TranscriptionQueue(storage, undefined, CONFIG).drain();
+
+    expect(await storage.getTranscriptionJob(retried.job.id)).toMatchObject({ status: 'succeeded', attempts: 3 });
+    expect(await storage.getTranscriptionJob(exhausted.job.id)).toMatchObject({
+      status: 'failed',
+      attempts: 3,
+      error: expect.stringContaining('stopped responding'),
+    });
+    expect((await storage.getReflection(exhausted.reflection.id))?.transcriptionStatus).toBe('failed');
+  });
+
+  it('runs no more jobs at once than its concurrency', async () => {
+    let running = 0;
+    let mostRunning = 0;
+    const fixture = new FixtureEngine(FIXTURE);
+    setTranscriptionEngines([{
+      name: 'whisper',
+      isConfigured: () => true,
+      transcribe: async (audio, format) => {
+        mostRunning = Math.max(mostRunning, ++running);
+        await new Promise(resolve => setTimeout(resolve, 5));
+        running--;
+        return fixture.transcribe(audio, format);
+      },
+    }]);
+    const queue = new TranscriptionQueue(storage, undefined, { ...CONFIG, concurrency: 2 });
+
+    const jobs = await Promise.all([1, 2, 3, 4, 5].map(() => queue.enqueue({ userId: 'user-1', audioKey, audioType: 'audio/wav' })));
+    await queue.drain();
+
+    expect(mostRunning).toBe(2);
+    for (const job of jobs) {
+      expect(await storage.getTranscriptionJob(job.id)).toMatchObject({ status: 'succeeded', audioKey: null });
+    }
+    // The jobs shared one recording, released once the last was done with it
+    expect(await store.size(audioKey)).toBeNull();
+  });
+
+  it('transcribes a halaqa lecture onto the halaqa', async () => {
+    const queue = new TranscriptionQueue(storage, undefined, CONFIG);
+    const halaqa = await storage.createHalaqa({
+      userId: 'user-1',
+      title: 'Sabr',
+      speaker: 'Imam',
+      date: new Date(),
+      topic: 'Patience',
+      keyReflection: 'Patience is a light',
+      impact: 'Slow down',
+    });
+    await storage.updateHalaqaLecture(halaqa.id, {
+      lectureAudioKey: audioKey,
+      lectureAudioType: 'audio/wav',
+      lectureTranscriptionStatus: 'pending',
+    });
+
+    const job = await queue.enqueue({ userId: 'user-1', halaqaId: halaqa.id });
+    await queue.drain();
+
+    const transcribed = await storage.getHalaqa(halaqa.id);
+    expect(transcribed).toMatchObject({
+      lectureTranscript: "You're a... you're... Alright.",
+      lectureTranscriptionStatus: 'completed',
+    });
+    expect(transcribed?.lectureTranscriptSegments).toHaveLength(3);
+    expect(await transcriptionJobView(storage, (await storage.getTranscriptionJob(job.id))!)).toMatchObject({
+      status: 'succeeded',
+      halaqaId: halaqa.id,
+      chunkCount: 1,
+      chunksDone: 1,
+    });
+    // The recording stays with the halaqa
+    expect(await store.size(audioKey)).toBe(AUDIO.length);
+  });
+
+  it('reports how many jobs are ahead of a queued one', async () => {
+    // Not started, so everything stays queued
+    const queue = new TranscriptionQueue(storage, undefined, { ...CONFIG, concurrency: 0 });
+    await queue.enqueue({ userId: 'user-1', audioKey, audioType: 'audio/wav' });
+    const second = await queue.enqueue({ userId: 'user-2', audioKey, audioType: 'audio/wav' });
+
+    expect(await transcriptionJobView(storage, second)).toMatchObject({
+      status: 'queued',
+      position: 1,
+      maxAttempts: 3,
+      transcription: null,
+    });
+    expect(await transcriptionJobView(storage, second)).not.toHaveProperty('audioKey');
+  });
+});
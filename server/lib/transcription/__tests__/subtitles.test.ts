@@ -0,0 +1,45 @@
+import fs from 'fs';
+import path from 'path';
+import { FixtureEngine, formatTimestamp, renderTranscript } from '..';
+import type { TimedTranscript } from '..';
+
+// Whisper's own outputs for test_audio.wav, next to the JSON the fixture engine reads
+const ROOT = path.resolve(__dirname, '../../../..');
+
+function whisperOutput(extension: string): string {
+  return fs.readFileSync(path.join(ROOT, `test_audio.${extension}`), 'utf8');
+}
+
+describe('renderTranscript', () => {
+  let transcript: TimedTranscript;
+
+  beforeAll(async () => {
+    const { text, segments = [] } = await new FixtureEngine(path.join(ROOT, 'test_audio.json')).transcribe(Buffer.alloc(0), 'wav');
+    transcript = { text, segments };
+  });
+
+  it.each(['srt', 'vtt', 'tsv', 'txt'] as const)('writes %s as whisper does', (format) => {
+    const { body, extension } = renderTranscript(transcript, format);
+
+    expect(body).toBe(whisperOutput(format));
+    expect(extension).toBe(format);
+  });
+
+  it('writes the whole transcription as text when there are no timings', () => {
+    expect(renderTranscript({ text: ' Untimed words ', segments: [] }, 'txt').body).toBe('Untimed words\n');
+  });
+
+  it('keeps the cue arrow out of subtitle text', () => {
+    const { body } = renderTranscript({ text: 'a --> b', segments: [{ start: 0, end: 1, text: 'a --> b', confidence: null }] }, 'vtt');
+
+    expect(body).toContain('\na -> b\n');
+  });
+});
+
+describe('formatTimestamp', () => {
+  it('shows hours only when there are some, unless asked to', () => {
+    expect(formatTimestamp(4.5200000000000005)).toBe('00:04.520');
+    expect(formatTimestamp(3725.0004)).toBe('01:02:05.000');
+    expect(formatTimestamp(61.5, { alwaysIncludeHours: true, decimalMarker: ',' })).toBe('00:01:01,500');
+  });
+});
@@ -0,0 +1,130 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import {
+  FixtureEngine,
+  TranscriptionEngine,
+  TranscriptionError,
+  TranscriptionUnavailableError,
+  WhisperEngine,
+  audioFormatOf,
+  setTranscriptionEngines,
+  transcribeAudio,
+} from '..';
+
+// test_audio.wav, transcribed by whisper into test_audio.json
+const AUDIO = fs.readFileSync(path.resolve(__dirname, '../../../../test_audio.wav'));
+const FIXTURE = path.resolve(__dirname, '../../../../test_audio.json');
+
+const FIXTURE_SEGMENTS = [
+  { start: 0, end: 1.42, text: "You're a...", confidence: 0.058 },
+  { start: 2.64, end: 3.9, text: "you're...", confidence: 0.058 },
+  { start: 4.5200000000000005, end: 5.18, text: 'Alright.', confidence: 0.058 },
+];
+
+function failingEngine(name: TranscriptionEngine['name'], error: Error): TranscriptionEngine {
+  return { name, isConfigured: () => true, transcribe: jest.fn().mockRejectedValue(error) };
+}
+
+afterEach(() => {
+  setTranscriptionEngines(null);
+});
+
+describe('transcribeAudio', () => {
+  it('records which engine transcribed the recording', async () => {
+    setTranscriptionEngines([new FixtureEngine(FIXTURE)]);
+
+    await expect(transcribeAudio(AUDIO, 'audio/wav')).resolves.toEqual({
+      text: "You're a... you're... Alright.",
+      segments: FIXTURE_SEGMENTS,
+      engine: 'fixture',
+    });
+  });
+
+  it('skips unconfigured engines and falls back when one fails', async () => {
+    const unconfigured = new WhisperEngine({ command: '/nonexistent/whisper' });
+    const aws = failingEngine('aws', new Error('Access denied'));
+    setTranscriptionEngines([unconfigured, aws, new FixtureEngine(FIXTURE)]);
+
+    await expect(transcribeAudio(AUDIO, 'wav')).resolves.toMatchObject({ engine: 'fixture' });
+    expect(aws.transcribe).toHaveBeenCalledTimes(1);
+  });
+
+  it('reports the recording, not the engines, when an engine heard no speech', async () => {
+    const silent = new FixtureEngine(FIXTURE);
+    silent.setTranscript('  ');
+    setTranscriptionEngines([silent, failingEngine('whisper', new Error('Whisper exited with code 1'))]);
+
+    await expect(transcribeAudio(AUDIO, 'wav')).rejects.toThrow(/No speech detected/);
+  });
+
+  it('is unavailable when no engine is configured or every engine fails', async () => {
+    setTranscriptionEngines([new FixtureEngine('/nonexistent/fixture.json')]);
+    await expect(transcribeAudio(AUDIO, 'wav')).rejects.toBeInstanceOf(TranscriptionUnavailableError);
+
+    setTranscriptionEngines([failingEngine('aws', new Error('Access denied'))]);
+    await expect(transcribeAudio(AUDIO, 'wav')).rejects.toThrow('aws: Access denied');
+  });
+
+  it('rejects unsupported, silent and too-short recordings before any engine runs', async () => {
+    const engine = failingEngine('aws', new Error('should not run'));
+    setTranscriptionEngines([engine]);
+
+    await expect(transcribeAudio(AUDIO, 'audio/x-midi')).rejects.toThrow('Unsupported audio format');
+    await expect(transcribeAudio(Buffer.alloc(4096), 'wav')).rejects.toThrow(/No audio signal/);
+    await expect(transcribeAudio(AUDIO.subarray(0, 512), 'wav')).rejects.toBeInstanceOf(TranscriptionError);
+    expect(engine.transcribe).not.toHaveBeenCalled();
+  });
+});
+
+describe('audioFormatOf', () => {
+  it('reads the container from browser mimetypes', () => {
+    expect(audioFormatOf('audio/webm;codecs=opus')).toBe('webm');
+    expect(audioFormatOf('audio/mpeg')).toBe('mp3');
+    expect(audioFormatOf('audio/x-wav')).toBe('wav');
+    expect(audioFormatOf('m4a')).toBe('m4a');
+  });
+});
+
+describe('WhisperEngine', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'whisper-test-'));
+  });
+
+  afterEach(async () => {
+    await fs.promises.rm(dir, { recursive: true, force: true });
+  });
+
+  // Stands in for whisper-wrapper.sh: writes the fixture where whisper would
+  // put its JSON output, or fails like a missing virtual environment
+  function fakeWhisper(body: string): string {
+    const command = path.join(dir, 'whisper.sh');
+    fs.writeFileSync(command, `#!/bin/sh\n${body}\n`, { mode: 0o755 });
+    return command;
+  }
+
+  it('runs the whisper command and reads its JSON output', async () => {
+    const command = fakeWhisper([
+      'input="$1"; shift',
+      'while [ $# -gt 0 ]; do [ "$1" = "--output_dir" ] && out="$2"; shift; done',
+      'name=$(basename "$input")',
+      `cp "${FIXTURE}" "$out/\${name%.*}.json"`,
+    ].join('\n'));
+
+    const engine = new WhisperEngine({ command });
+    expect(engine.isConfigured()).toBe(true);
+    await expect(engine.transcribe(AUDIO, 'audio/wav')).resolves.toEqual({
+      text: "You're a... you're... Alright.",
+      segments: FIXTURE_SEGMENTS,
+    });
+  });
+
+  it('fails with the end of whisper\'s error output', async () => {
+    const command = fakeWhisper('echo "ERROR: Whisper virtual environment not found" >&2; exit 1');
+
+    await expect(new WhisperEngine({ command }).transcribe(AUDIO, 'wav'))
+      .rejects.toThrow('Whisper exited with code 1: ERROR: Whisper virtual environment not found');
+  });
+});
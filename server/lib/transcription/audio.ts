@@ -0,0 +1,114 @@
+/**
+ * Checks on an uploaded recording before any engine sees it
+ */
+import { TranscriptionError } from './errors';
+
+/**
+ * Containers every engine accepts. Aliases browsers report in mimetypes map
+ * to the container they name.
+ */
+export const SUPPORTED_AUDIO_FORMATS = ['mp3', 'mp4', 'm4a', 'wav', 'flac', 'ogg', 'webm'] as const;
+
+export type AudioFormat = typeof SUPPORTED_AUDIO_FORMATS[number];
+
+const FORMAT_ALIASES: Record<string, AudioFormat> = {
+  mpeg: 'mp3',
+  'x-m4a': 'm4a',
+  'x-wav': 'wav',
+  wave: 'wav',
+  'x-flac': 'flac',
+  'x-ogg': 'ogg',
+  opus: 'ogg',
+  vorbis: 'ogg',
+};
+
+// Recordings shorter than this are a tap on the record button, not speech
+const MIN_AUDIO_BYTES = 1024;
+
+// Byte values at or below this everywhere mean the microphone captured nothing
+const SILENCE_THRESHOLD = 10;
+
+/**
+ * The audio container named by a mimetype ("audio/webm;codecs=opus") or a
+ * bare format ("webm")
+ */
+export function audioFormatOf(mimetypeOrFormat: string): string {
+  const subtype = mimetypeOrFormat.split(';')[0].split('/').pop()!.trim().toLowerCase();
+  return FORMAT_ALIASES[subtype] ?? subtype;
+}
+
+export function isAudioFormatSupported(format: string): format is AudioFormat {
+  return (SUPPORTED_AUDIO_FORMATS as readonly string[]).includes(audioFormatOf(format));
+}
+
+/**
+ * How much of a recording there is and whether the microphone caught
+ * anything, so recordings can be checked as they stream in
+ */
+export interface AudioLevels {
+  bytes: number;
+  heard: boolean;
+}
+
+export function measureAudio(audio: Buffer, levels: AudioLevels = { bytes: 0, heard: false }): AudioLevels {
+  return {
+    bytes: levels.bytes + audio.length,
+    heard: levels.heard || audio.some(value => value > SILENCE_THRESHOLD),
+  };
+}
+
+/**
+ * Reject recordings no engine could make anything of, with a message the
+ * recorder can show as is
+ */
+export function checkAudio(audio: Buffer, format: string): void {
+  checkAudioLevels(measureAudio(audio), format);
+}
+
+export function checkAudioLevels(levels: AudioLevels, format: string): void {
+  if (!isAudioFormatSupported(format)) {
+    throw new TranscriptionError(`Unsupported audio format: ${format}`);
+  }
+
+  if (!levels.heard) {
+    throw new TranscriptionError(
+      'No audio signal detected. Please check:\n' +
+      '1. Your microphone is properly connected and selected\n' +
+      '2. Your microphone permissions are enabled\n' +
+      '3. Your microphone is not muted in your system settings'
+    );
+  }
+
+  if (levels.bytes < MIN_AUDIO_BYTES) {
+    throw new TranscriptionError(
+      'Audio file is too short. Please ensure:\n' +
+      '1. You are recording for at least 1-2 seconds\n' +
+      '2. Your microphone is capturing audio properly'
+    );
+  }
+}
+
+/**
+ * The message for a recording the engine heard no speech in
+ */
+export function noSpeechError(): TranscriptionError {
+  return new TranscriptionError(
+    'No speech detected in the audio. Please ensure:\n' +
+    '1. You are speaking clearly into the microphone\n' +
+    '2. Your microphone volume is not muted\n' +
+    '3. The recording is at least 1-2 seconds long'
+  );
+}
+
+/**
+ * The recording in a base64 data URL ("data:audio/webm;base64,..."), its
+ * format and its mimetype
+ */
+export function decodeAudioDataUrl(dataUrl: string): { audio: Buffer; format: string; mimetype: string } {
+  const match = /^data:([^,]*?)(;base64)?,(.*)$/.exec(dataUrl);
+  if (!match || !match[2]) {
+    throw new TranscriptionError('Invalid audio data format. Expected base64 data URL.');
+  }
+  const mimetype = match[1] || 'audio/webm';
+  return { audio: Buffer.from(match[3], 'base64'), format: audioFormatOf(mimetype), mimetype };
+}
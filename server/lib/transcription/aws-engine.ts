@@ -0,0 +1,168 @@
+import {
+  StartTranscriptionJobCommand,
+  GetTranscriptionJobCommand,
+  DeleteTranscriptionJobCommand,
+  MediaFormat,
+} from '@aws-sdk/client-transcribe';
+import { v4 as uuidv4 } from 'uuid';
+import { createLogger } from '../logger';
+import { audioFormatOf, noSpeechError } from './audio';
+import { TranscriptionError } from './errors';
+import { Transcript, TranscriptionEngine, TranscriptSegment } from './types';
+
+const logger = createLogger('transcription:aws');
+
+const REQUIRED_ENV = ['AWS_ACCESS_KEY_ID', 'AWS_SECRET_ACCESS_KEY', 'AWS_REGION', 'AWS_S3_BUCKET'];
+
+const MEDIA_FORMATS: Record<string, MediaFormat> = {
+  mp3: MediaFormat.MP3,
+  mp4: MediaFormat.MP4,
+  m4a: MediaFormat.M4A,
+  wav: MediaFormat.WAV,
+  flac: MediaFormat.FLAC,
+  ogg: MediaFormat.OGG,
+  webm: MediaFormat.WEBM,
+};
+
+export interface AwsEngineOptions {
+  /** Time between job status checks */
+  pollIntervalMs?: number;
+  /** Status checks before giving up on the job */
+  maxAttempts?: number;
+}
+
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Amazon Transcribe: uploads the recording to AWS_S3_BUCKET, runs a
+ * transcription job and polls until it finishes
+ */
+export class AwsEngine implements TranscriptionEngine {
+  readonly name = 'aws';
+  private pollIntervalMs: number;
+  private maxAttempts: number;
+
+  constructor(options: AwsEngineOptions = {}) {
+    this.pollIntervalMs = options.pollIntervalMs ?? 10_000;
+    this.maxAttempts = options.maxAttempts ?? 30;
+  }
+
+  isConfigured(): boolean {
+    return REQUIRED_ENV.every(name => !!process.env[name]);
+  }
+
+  async transcribe(audio: Buffer, format: string): Promise<Transcript> {
+    // aws-config throws on import without credentials, so it is only loaded
+    // once this engine is actually used
+    const { transcribeClient, uploadToS3 } = await import('../aws-config');
+
+    const extension = audioFormatOf(format);
+    const mediaFormat = MEDIA_FORMATS[extension];
+    if (!mediaFormat) {
+      throw new TranscriptionError(`Unsupported audio format: ${format}`);
+    }
+
+    const jobName = `transcription-${uuidv4()}`;
+    const mediaUri = await uploadToS3(audio, `audio-uploads/${jobName}.${extension}`, `audio/${extension}`);
+
+    await transcribeClient.send(new StartTranscriptionJobCommand({
+      TranscriptionJobName: jobName,
+      LanguageCode: 'en-US',
+      MediaFormat: mediaFormat,
+      Media: { MediaFileUri: mediaUri },
+      Settings: { ShowAlternatives: false },
+    }));
+    logger.debug(`Started job ${jobName} for ${audio.length} bytes of ${extension}`);
+
+    try {
+      for (let attempt = 1; attempt <= this.maxAttempts; attempt++) {
+        const { TranscriptionJob: job } = await transcribeClient.send(
+          new GetTranscriptionJobCommand({ TranscriptionJobName: jobName })
+        );
+
+        if (job?.TranscriptionJobStatus === 'FAILED') {
+          throw new Error(`Transcription job failed: ${job.FailureReason || 'Unknown error'}`);
+        }
+        if (job?.TranscriptionJobStatus === 'COMPLETED' && job.Transcript?.TranscriptFileUri) {
+          return await this.fetchTranscript(job.Transcript.TranscriptFileUri);
+        }
+
+        if (attempt < this.maxAttempts) await delay(this.pollIntervalMs);
+      }
+      throw new Error(`Transcription job timed out after ${this.maxAttempts} status checks`);
+    } finally {
+      transcribeClient.send(new DeleteTranscriptionJobCommand({ TranscriptionJobName: jobName }))
+        .catch(error => logger.warn(`Failed to delete job ${jobName}`, error));
+    }
+  }
+
+  private async fetchTranscript(uri: string): Promise<Transcript> {
+    const response = await fetch(uri);
+    if (!response.ok) {
+      throw new Error(`Failed to fetch transcript: ${response.status}`);
+    }
+
+    const data = await response.json();
+    const text = data?.results?.transcripts?.[0]?.transcript;
+    if (typeof text !== 'string') {
+      throw new Error('Invalid transcript format received - missing transcripts');
+    }
+    if (text.trim().length === 0) {
+      throw noSpeechError();
+    }
+    return { text: text.trim(), segments: Array.isArray(data.results.items) ? segmentsOfItems(data.results.items) : [] };
+  }
+}
+
+// A word or punctuation mark in Amazon Transcribe's output
+interface TranscribeItem {
+  type?: 'pronunciation' | 'punctuation';
+  start_time?: string;
+  end_time?: string;
+  alternatives?: { content?: string; confidence?: string }[];
+}
+
+/**
+ * Group Amazon Transcribe's timed words into sentences, ending one at each
+ * full stop, question or exclamation mark. A sentence's confidence is the
+ * mean of its words'.
+ */
+export function segmentsOfItems(items: TranscribeItem[]): TranscriptSegment[] {
+  const segments: TranscriptSegment[] = [];
+  let words: { start: number; end: number; confidence: number }[] = [];
+  let text = '';
+
+  const endSentence = () => {
+    if (words.length > 0) {
+      segments.push({
+        start: words[0].start,
+        end: words[words.length - 1].end,
+        text,
+        confidence: Math.round(words.reduce((sum, word) => sum + word.confidence, 0) / words.length * 1000) / 1000,
+      });
+    }
+    words = [];
+    text = '';
+  };
+
+  for (const item of items) {
+    const content = item.alternatives?.[0]?.content;
+    if (!content) continue;
+
+    if (item.type === 'punctuation') {
+      text += content;
+      if (/[.?!]/.test(content)) endSentence();
+      continue;
+    }
+
+    words.push({
+      start: parseFloat(item.start_time ?? '0'),
+      end: parseFloat(item.end_time ?? item.start_time ?? '0'),
+      confidence: parseFloat(item.alternatives?.[0]?.confidence ?? '0'),
+    });
+    text += text ? ` ${content}` : content;
+  }
+  endSentence();
+
+  return segments;
+}
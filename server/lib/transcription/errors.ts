@@ -0,0 +1,24 @@
+/**
+ * Errors raised by the transcription layer. Routes turn these into the
+ * status codes the recorder understands.
+ */
+import { AppError } from '../../utils/errors';
+
+/**
+ * The recording can't be transcribed: unsupported format, silence, or no
+ * speech the engines could make out
+ */
+export class TranscriptionError extends AppError {
+  constructor(message: string) {
+    super(message, 422);
+  }
+}
+
+/**
+ * No transcription engine is configured, or every configured engine failed
+ */
+export class TranscriptionUnavailableError extends AppError {
+  constructor(message: string = 'No transcription engine is configured') {
+    super(message, 503);
+  }
+}
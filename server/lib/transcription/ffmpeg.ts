@@ -0,0 +1,106 @@
+/**
+ * ffmpeg and ffprobe, for cutting long recordings into pieces the engines
+ * can take. FFMPEG_PATH and FFPROBE_PATH name the binaries; otherwise the
+ * ones unpacked from ffmpeg.zip at the repository root are used (the same
+ * ones whisper-wrapper.sh puts on its PATH), falling back to the PATH.
+ */
+import { execFile } from 'child_process';
+import fs from 'fs';
+import path from 'path';
+import { createLogger } from '../logger';
+
+const logger = createLogger('transcription:ffmpeg');
+
+const FFMPEG_TIMEOUT_MS = 10 * 60 * 1000;
+
+function binary(name: 'ffmpeg' | 'ffprobe', configured: string | undefined): string {
+  if (configured) return configured;
+  const bundled = path.resolve(process.cwd(), name);
+  return fs.existsSync(bundled) ? bundled : name;
+}
+
+export function ffmpegCommand(): string {
+  return binary('ffmpeg', process.env.FFMPEG_PATH);
+}
+
+export function ffprobeCommand(): string {
+  return binary('ffprobe', process.env.FFPROBE_PATH);
+}
+
+function run(command: string, args: string[]): Promise<string> {
+  return new Promise((resolve, reject) => {
+    execFile(command, args, { timeout: FFMPEG_TIMEOUT_MS, maxBuffer: 10 * 1024 * 1024 }, (error, stdout, stderr) => {
+      if (!error) return resolve(stdout);
+
+      const name = path.basename(command);
+      const reason = error.killed ? `timed out after ${FFMPEG_TIMEOUT_MS}ms` : `exited with code ${error.code}`;
+      const detail = stderr.trim().split('\n').slice(-3).join('\n');
+      logger.debug(`${name} stderr:\n${stderr}`);
+      reject(new Error(`${name} ${reason}${detail ? `: ${detail}` : ''}`));
+    });
+  });
+}
+
+/**
+ * A stretch of a recording, in seconds
+ */
+export interface AudioChunk {
+  index: number;
+  start: number;
+  duration: number;
+}
+
+/**
+ * Cut `duration` seconds into chunks of at most chunkSeconds, each starting
+ * overlapSeconds before the previous one ends so that no word is lost to a
+ * cut
+ */
+export function planChunks(duration: number, chunkSeconds: number, overlapSeconds: number): AudioChunk[] {
+  const overlap = Math.min(Math.max(0, overlapSeconds), chunkSeconds / 2);
+  const chunks: AudioChunk[] = [];
+  let start = 0;
+  for (;;) {
+    const end = Math.min(duration, start + chunkSeconds);
+    chunks.push({ index: chunks.length, start, duration: end - start });
+    if (end >= duration) return chunks;
+    start = end - overlap;
+  }
+}
+
+/**
+ * How long a recording is, in seconds
+ */
+export async function probeDuration(file: string): Promise<number> {
+  const output = await run(ffprobeCommand(), [
+    '-v', 'error',
+    '-show_entries', 'format=duration',
+    '-of', 'default=noprint_wrappers=1:nokey=1',
+    file,
+  ]);
+  const duration = parseFloat(output.trim());
+  if (!Number.isFinite(duration) || duration <= 0) {
+    throw new Error(`Could not read the length of ${path.basename(file)}`);
+  }
+  return duration;
+}
+
+/**
+ * Write each chunk of a recording to outDir as 16kHz mono WAV, which every
+ * engine takes. Returns the files in chunk order.
+ */
+export async function splitAudio(file: string, outDir: string, chunks: AudioChunk[]): Promise<string[]> {
+  const files: string[] = [];
+  for (const chunk of chunks) {
+    const output = path.join(outDir, `chunk-${String(chunk.index).padStart(4, '0')}.wav`);
+    await run(ffmpegCommand(), [
+      '-hide_banner', '-loglevel', 'error', '-y',
+      '-ss', chunk.start.toFixed(3),
+      '-t', chunk.duration.toFixed(3),
+      '-i', file,
+      '-vn', '-ac', '1', '-ar', '16000', '-c:a', 'pcm_s16le',
+      output,
+    ]);
+    files.push(output);
+  }
+  return files;
+}
@@ -0,0 +1,40 @@
+import fs from 'fs';
+import path from 'path';
+import { parseWhisperOutput } from './whisper-engine';
+import { Transcript, TranscriptionEngine } from './types';
+
+// Whisper's output for test_audio.wav
+export const DEFAULT_TRANSCRIPT_FIXTURE = path.resolve(process.cwd(), 'test_audio.json');
+
+/**
+ * Deterministic engine for tests and offline development. Every recording
+ * gets the transcript in a whisper JSON output file, so it goes through the
+ * same parsing as a real whisper run.
+ */
+export class FixtureEngine implements TranscriptionEngine {
+  readonly name = 'fixture';
+  private fixturePath: string;
+  private transcript?: string;
+
+  constructor(fixturePath: string = DEFAULT_TRANSCRIPT_FIXTURE) {
+    this.fixturePath = fixturePath;
+  }
+
+  isConfigured(): boolean {
+    return this.transcript !== undefined || fs.existsSync(this.fixturePath);
+  }
+
+  /**
+   * Use this transcript in memory instead of the fixture file
+   */
+  setTranscript(text: string): void {
+    this.transcript = text;
+  }
+
+  async transcribe(_audio: Buffer, _format: string): Promise<Transcript> {
+    if (this.transcript !== undefined) {
+      return parseWhisperOutput({ text: this.transcript });
+    }
+    return parseWhisperOutput(JSON.parse(await fs.promises.readFile(this.fixturePath, 'utf8')));
+  }
+}
@@ -0,0 +1,127 @@
+/**
+ * Pluggable transcription engine layer
+ *
+ * Every recording is transcribed through transcribeAudio(), which tries the
+ * engines listed in TRANSCRIPTION_ENGINES in order (default "aws,whisper"),
+ * skipping any that aren't configured and falling back to the next when one
+ * fails:
+ *   - "aws": Amazon Transcribe, needs AWS_ACCESS_KEY_ID, AWS_SECRET_ACCESS_KEY,
+ *     AWS_REGION and AWS_S3_BUCKET
+ *   - "whisper": local Whisper run through WHISPER_COMMAND (whisper-wrapper.sh
+ *     by default) with WHISPER_MODEL, WHISPER_LANGUAGE and WHISPER_TIMEOUT_MS
+ *   - "fixture": whisper output read from TRANSCRIPTION_FIXTURE (test_audio.json
+ *     by default), for tests and offline development
+ */
+import { transcriptionEngines } from '@shared/schema';
+import { createLogger } from '../logger';
+import { checkAudio } from './audio';
+import { AwsEngine } from './aws-engine';
+import { FixtureEngine, DEFAULT_TRANSCRIPT_FIXTURE } from './fixture-engine';
+import { WhisperEngine, DEFAULT_WHISPER_COMMAND } from './whisper-engine';
+import { TranscriptionError, TranscriptionUnavailableError } from './errors';
+import { TranscriptionEngine, TranscriptionResult } from './types';
+
+export * from './types';
+export * from './errors';
+export { SUPPORTED_AUDIO_FORMATS, audioFormatOf, isAudioFormatSupported, checkAudio, checkAudioLevels, measureAudio, decodeAudioDataUrl } from './audio';
+export type { AudioFormat, AudioLevels } from './audio';
+export { AwsEngine } from './aws-engine';
+export type { AwsEngineOptions } from './aws-engine';
+export { WhisperEngine, parseWhisperOutput } from './whisper-engine';
+export type { WhisperEngineOptions } from './whisper-engine';
+export { FixtureEngine } from './fixture-engine';
+export { formatTimestamp, renderSrt, renderText, renderTranscript, renderTsv, renderVtt } from './subtitles';
+export type { RenderedTranscript, TimedTranscript } from './subtitles';
+
+const logger = createLogger('transcription');
+
+/**
+ * Create an engine from environment configuration
+ */
+export function createEngine(name: string): TranscriptionEngine {
+  switch (name) {
+    case 'aws':
+      return new AwsEngine();
+    case 'whisper':
+      return new WhisperEngine({
+        command: process.env.WHISPER_COMMAND || DEFAULT_WHISPER_COMMAND,
+        model: process.env.WHISPER_MODEL || 'base',
+        language: process.env.WHISPER_LANGUAGE || undefined,
+        timeoutMs: process.env.WHISPER_TIMEOUT_MS ? parseInt(process.env.WHISPER_TIMEOUT_MS, 10) : undefined,
+      });
+    case 'fixture':
+      return new FixtureEngine(process.env.TRANSCRIPTION_FIXTURE || DEFAULT_TRANSCRIPT_FIXTURE);
+    default:
+      throw new Error(`Unknown transcription engine "${name}". Expected one of: ${transcriptionEngines.join(', ')}`);
+  }
+}
+
+let activeEngines: TranscriptionEngine[] | null = null;
+
+/**
+ * The engines to try, in order, creating them from config on first use
+ */
+export function getTranscriptionEngines(): TranscriptionEngine[] {
+  if (!activeEngines) {
+    const names = (process.env.TRANSCRIPTION_ENGINES || 'aws,whisper')
+      .split(',')
+      .map(name => name.trim())
+      .filter(Boolean);
+    activeEngines = names.map(createEngine);
+    logger.info(`Transcription engines: ${names.join(' -> ')}`);
+  }
+  return activeEngines;
+}
+
+/**
+ * Replace the engines (tests). Pass null to reset to config.
+ */
+export function setTranscriptionEngines(engines: TranscriptionEngine[] | null): void {
+  activeEngines = engines;
+}
+
+/**
+ * Whether any engine can transcribe
+ */
+export function isTranscriptionAvailable(): boolean {
+  return getTranscriptionEngines().some(engine => engine.isConfigured());
+}
+
+/**
+ * Transcribe a recording with the first configured engine that succeeds.
+ * format is a mimetype or bare container name.
+ *
+ * Throws TranscriptionError when the recording itself is the problem, and
+ * TranscriptionUnavailableError when no engine could run.
+ */
+export async function transcribeAudio(audio: Buffer, format: string): Promise<TranscriptionResult> {
+  checkAudio(audio, format);
+
+  const engines = getTranscriptionEngines().filter(engine => engine.isConfigured());
+  if (engines.length === 0) {
+    throw new TranscriptionUnavailableError();
+  }
+
+  const failures: { engine: string; error: unknown }[] = [];
+  for (const engine of engines) {
+    try {
+      const { text, segments = [] } = await engine.transcribe(audio, format);
+      logger.debug(`Transcribed ${audio.length} bytes with ${engine.name} into ${segments.length} segment(s)`);
+      return { text, segments, engine: engine.name };
+    } catch (error) {
+      logger.warn(`Transcription with ${engine.name} failed`, error instanceof Error ? error.message : error);
+      failures.push({ engine: engine.name, error });
+    }
+  }
+
+  // An engine that ran and heard nothing speaks for the recording; anything
+  // else means the engines themselves couldn't run
+  const heardNothing = failures.find(failure => failure.error instanceof TranscriptionError);
+  if (heardNothing) throw heardNothing.error;
+
+  throw new TranscriptionUnavailableError(
+    `Transcription failed with every configured engine: ${failures
+      .map(({ engine, error }) => `${engine}: ${error instanceof Error ? error.message : String(error)}`)
+      .join('; ')}`
+  );
+}
@@ -0,0 +1,212 @@
+/**
+ * Long recordings, such as an hour-long halaqa lecture
+ *
+ * The engines take a recording whole (Amazon Transcribe jobs are capped at
+ * MAX_AUDIO_DURATION_MINUTES, Whisper holds it in memory), so a long one is
+ * cut with ffmpeg into TRANSCRIPTION_CHUNK_SECONDS pieces that overlap by
+ * TRANSCRIPTION_CHUNK_OVERLAP_SECONDS, up to TRANSCRIPTION_CHUNK_CONCURRENCY
+ * pieces are transcribed at once through transcribeAudio(), and the pieces'
+ * transcripts are stitched back together. Recordings longer than
+ * LECTURE_MAX_MINUTES are refused.
+ */
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { createLogger } from '../logger';
+import { noSpeechError } from './audio';
+import { TranscriptionError } from './errors';
+import { AudioChunk, planChunks, probeDuration, splitAudio } from './ffmpeg';
+import { TranscriptionEngineName, TranscriptionResult, TranscriptSegment } from './types';
+import { transcribeAudio } from '.';
+
+const logger = createLogger('transcription:long-form');
+
+export interface LongFormConfig {
+  chunkSeconds: number;
+  overlapSeconds: number;
+  concurrency: number;
+  maxMinutes: number;
+}
+
+function envNumber(name: string, fallback: number): number {
+  const value = parseFloat(process.env[name] ?? '');
+  return Number.isFinite(value) && value >= 0 ? value : fallback;
+}
+
+export function getLongFormConfig(): LongFormConfig {
+  return {
+    // Well inside Amazon Transcribe's limit, with room for the overlap
+    chunkSeconds: Math.max(30, envNumber('TRANSCRIPTION_CHUNK_SECONDS', 600)),
+    overlapSeconds: envNumber('TRANSCRIPTION_CHUNK_OVERLAP_SECONDS', 5),
+    concurrency: Math.max(1, Math.floor(envNumber('TRANSCRIPTION_CHUNK_CONCURRENCY', 3))),
+    maxMinutes: envNumber('LECTURE_MAX_MINUTES', 240),
+  };
+}
+
+/**
+ * A chunk's transcript, with times measured from the start of the whole
+ * recording. Chunks the engines heard nothing in have no text.
+ */
+export interface ChunkTranscript extends AudioChunk {
+  text: string;
+  segments: TranscriptSegment[];
+  engine?: TranscriptionEngineName;
+}
+
+/**
+ * Reports each chunk as it is transcribed
+ */
+export type LongFormProgressHandler = (chunksDone: number, chunkCount: number) => void | Promise<void>;
+
+// Seams shorter than this are more likely a repeated "and the" than the
+// same words heard twice
+const MIN_SEAM_WORDS = 2;
+// How far into each side of a seam to look for words heard twice
+const MAX_SEAM_WORDS = 30;
+
+// Everything but letters, digits and apostrophes, in any script
+const PUNCTUATION = new RegExp("[^\\p{L}\\p{N}']", 'gu');
+
+function normalizeWord(word: string): string {
+  return word.toLowerCase().replace(PUNCTUATION, '');
+}
+
+function words(text: string): string[] {
+  return text.trim().split(/\s+/).filter(Boolean);
+}
+
+/**
+ * How many words at the start of `next` repeat the words at the end of
+ * `previous`
+ */
+function seamLength(previous: string[], next: string[]): number {
+  const tail = previous.slice(-MAX_SEAM_WORDS).map(normalizeWord);
+  const head = next.slice(0, MAX_SEAM_WORDS).map(normalizeWord);
+  for (let length = Math.min(tail.length, head.length); length >= MIN_SEAM_WORDS; length--) {
+    const suffix = tail.slice(tail.length - length);
+    if (suffix.every((word, i) => word !== '' && word === head[i])) return length;
+  }
+  return 0;
+}
+
+// Drop the first `count` words from a run of segments, removing any left empty
+function dropLeadingWords(segments: TranscriptSegment[], count: number): TranscriptSegment[] {
+  const kept: TranscriptSegment[] = [];
+  let remaining = count;
+  for (const segment of segments) {
+    if (remaining <= 0) {
+      kept.push(segment);
+      continue;
+    }
+    const segmentWords = words(segment.text);
+    if (segmentWords.length <= remaining) {
+      remaining -= segmentWords.length;
+      continue;
+    }
+    kept.push({ ...segment, text: segmentWords.slice(remaining).join(' ') });
+    remaining = 0;
+  }
+  return kept;
+}
+
+/**
+ * One transcript from the transcripts of overlapping chunks. Each overlap
+ * is cut at its midpoint, keeping the segments said before the cut from the
+ * earlier chunk and the rest from the later one; words either side of the
+ * cut that were heard by both chunks are kept once.
+ */
+export function stitchTranscripts(chunks: ChunkTranscript[]): { text: string; segments: TranscriptSegment[] } {
+  const ordered = [...chunks].sort((a, b) => a.start - b.start);
+  const segments: TranscriptSegment[] = [];
+
+  ordered.forEach((chunk, index) => {
+    const previous = ordered[index - 1];
+    const next = ordered[index + 1];
+    const from = previous ? (chunk.start + previous.start + previous.duration) / 2 : -Infinity;
+    const to = next ? (next.start + chunk.start + chunk.duration) / 2 : Infinity;
+
+    // An engine without timings gives one segment for the whole chunk
+    const timed = chunk.segments.length > 0 || !chunk.text.trim()
+      ? chunk.segments
+      : [{ start: chunk.start, end: chunk.start + chunk.duration, text: chunk.text.trim(), confidence: null }];
+    let kept = timed.filter(segment => {
+      const middle = (segment.start + segment.end) / 2;
+      return middle >= from && middle < to;
+    });
+
+    if (segments.length > 0 && kept.length > 0) {
+      const seam = seamLength(segments.flatMap(segment => words(segment.text)), kept.flatMap(segment => words(segment.text)));
+      if (seam > 0) kept = dropLeadingWords(kept, seam);
+    }
+    segments.push(...kept);
+  });
+
+  return { text: segments.map(segment => segment.text.trim()).join(' '), segments };
+}
+
+/**
+ * Run `task` over `items`, at most `limit` at a time
+ */
+async function mapWithLimit<T, R>(items: T[], limit: number, task: (item: T) => Promise<R>): Promise<R[]> {
+  const results = new Array<R>(items.length);
+  let nextIndex = 0;
+  const worker = async () => {
+    while (nextIndex < items.length) {
+      const index = nextIndex++;
+      results[index] = await task(items[index]);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+  return results;
+}
+
+/**
+ * Transcribe a recording of any length (up to LECTURE_MAX_MINUTES) on disk.
+ * Chunks the engines heard nothing in are left out; a recording where none
+ * was heard fails with TranscriptionError, as a short one would.
+ */
+export async function transcribeLongAudio(
+  file: string,
+  { onProgress, config = getLongFormConfig() }: { onProgress?: LongFormProgressHandler; config?: LongFormConfig } = {}
+): Promise<TranscriptionResult> {
+  const duration = await probeDuration(file);
+  if (duration > config.maxMinutes * 60) {
+    throw new TranscriptionError(`Recordings can be at most ${config.maxMinutes} minutes long`);
+  }
+
+  const plan = planChunks(duration, config.chunkSeconds, config.overlapSeconds);
+  const dir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'long-form-'));
+  try {
+    const files = await splitAudio(file, dir, plan);
+    logger.debug(`Cut ${Math.round(duration)}s into ${plan.length} chunk(s)`);
+
+    let done = 0;
+    await onProgress?.(done, plan.length);
+    const transcripts = await mapWithLimit(plan, config.concurrency, async (chunk): Promise<ChunkTranscript> => {
+      let transcript: ChunkTranscript;
+      try {
+        const { text, segments, engine } = await transcribeAudio(await fs.promises.readFile(files[chunk.index]), 'wav');
+        transcript = {
+          ...chunk,
+          text,
+          segments: segments.map(segment => ({ ...segment, start: segment.start + chunk.start, end: segment.end + chunk.start })),
+          engine,
+        };
+      } catch (error) {
+        // A stretch of silence between talks, not a failed lecture
+        if (!(error instanceof TranscriptionError)) throw error;
+        transcript = { ...chunk, text: '', segments: [] };
+      }
+      await onProgress?.(++done, plan.length);
+      return transcript;
+    });
+
+    const heard = transcripts.filter(transcript => transcript.engine);
+    if (heard.length === 0) {
+      throw noSpeechError();
+    }
+    return { ...stitchTranscripts(heard), engine: heard[0].engine! };
+  } finally {
+    await fs.promises.rm(dir, { recursive: true, force: true });
+  }
+}
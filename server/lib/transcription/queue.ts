@@ -0,0 +1,372 @@
+/**
+ * Background transcription
+ *
+ * Recordings are queued as transcription_jobs rows instead of being
+ * transcribed inside the request that uploaded them. The worker claims due
+ * jobs up to TRANSCRIPTION_CONCURRENCY at a time, transcribes them through
+ * transcribeAudio() and saves the result on the job and on its reflection.
+ * Recordings are read from the audio store; a job's own copy is released
+ * once it succeeds. Engine failures are retried with exponential backoff
+ * (TRANSCRIPTION_RETRY_BASE_MS) up to TRANSCRIPTION_MAX_ATTEMPTS times;
+ * recordings the engines couldn't make anything of fail straight away.
+ * Running jobs keep a heartbeat up. One without a heartbeat for
+ * TRANSCRIPTION_STALE_AFTER_MS, because the server that claimed it went
+ * away, is claimed again, or failed if that was its last attempt.
+ *
+ * Jobs for a halaqa transcribe its lecture recording instead, cut into
+ * chunks by transcribeLongAudio(), and report each chunk as it is done. The
+ * transcript is saved on the halaqa.
+ */
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { pipeline } from 'stream/promises';
+import type { InsertTranscriptionJob, Reflection, TranscriptionJob, TranscriptionJobView } from '@shared/schema';
+import type { IStorage } from '../../storage';
+import { getAudioStore, readAudio, releaseAudio } from '../audio-store';
+import { createLogger } from '../logger';
+import { runWithUsageScope } from '../llm';
+import { audioFormatOf } from './audio';
+import { TranscriptionError, TranscriptionUnavailableError } from './errors';
+import { transcribeLongAudio } from './long-form';
+import { transcribeAudio } from '.';
+
+const logger = createLogger('transcription:queue');
+
+export interface TranscriptionQueueConfig {
+  concurrency: number;
+  maxAttempts: number;
+  /** Wait before the first retry, doubled for each one after */
+  retryBaseMs: number;
+  /** How often the worker looks for due jobs */
+  pollIntervalMs: number;
+  staleAfterMs: number;
+}
+
+function envInt(name: string, fallback: number): number {
+  const value = parseInt(process.env[name] ?? '', 10);
+  return Number.isFinite(value) && value >= 0 ? value : fallback;
+}
+
+export function getTranscriptionQueueConfig(): TranscriptionQueueConfig {
+  return {
+    concurrency: Math.max(1, envInt('TRANSCRIPTION_CONCURRENCY', 2)),
+    maxAttempts: Math.max(1, envInt('TRANSCRIPTION_MAX_ATTEMPTS', 3)),
+    retryBaseMs: envInt('TRANSCRIPTION_RETRY_BASE_MS', 5000),
+    pollIntervalMs: envInt('TRANSCRIPTION_POLL_INTERVAL_MS', 2000),
+    staleAfterMs: envInt('TRANSCRIPTION_STALE_AFTER_MS', 15 * 60 * 1000),
+  };
+}
+
+type QueueStore = Pick<IStorage,
+  | 'createTranscriptionJob'
+  | 'getTranscriptionJob'
+  | 'updateTranscriptionJob'
+  | 'claimTranscriptionJobs'
+  | 'failAbandonedTranscriptionJobs'
+  | 'countTranscriptionJobsAhead'
+  | 'getReflection'
+  | 'updateReflection'
+  | 'getHalaqa'
+  | 'updateHalaqaLecture'
+  | 'countAudioReferences'
+>;
+
+/**
+ * Called once a voice reflection is transcribed, to open its conversation.
+ * Returns the conversation's id.
+ */
+export type TranscribedHandler = (reflection: Reflection, job: TranscriptionJob) => Promise<number>;
+
+export type NewTranscriptionJob = Omit<InsertTranscriptionJob, 'maxAttempts' | 'status' | 'attempts'>;
+
+/**
+ * A job as its owner sees it, without the recording or personalization
+ */
+export async function transcriptionJobView(store: QueueStore, job: TranscriptionJob): Promise<TranscriptionJobView> {
+  return {
+    id: job.id,
+    reflectionId: job.reflectionId,
+    halaqaId: job.halaqaId,
+    status: job.status,
+    attempts: job.attempts,
+    maxAttempts: job.maxAttempts,
+    error: job.error,
+    transcription: job.transcription,
+    segments: job.segments,
+    engine: job.engine,
+    conversationId: job.conversationId,
+    createdAt: job.createdAt,
+    startedAt: job.startedAt,
+    finishedAt: job.finishedAt,
+    chunkCount: job.chunkCount,
+    chunksDone: job.chunksDone,
+    position: job.status === 'queued' ? await store.countTranscriptionJobsAhead(job) : null,
+  };
+}
+
+export class TranscriptionQueue {
+  private store: QueueStore;
+  private onTranscribed?: TranscribedHandler;
+  private config: TranscriptionQueueConfig;
+  private inFlight = new Set<Promise<void>>();
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private claiming: Promise<void> | null = null;
+
+  constructor(store: QueueStore, onTranscribed?: TranscribedHandler, config: TranscriptionQueueConfig = getTranscriptionQueueConfig()) {
+    this.store = store;
+    this.onTranscribed = onTranscribed;
+    this.config = config;
+  }
+
+  /**
+   * Queue a recording and start on it straight away if a slot is free
+   */
+  async enqueue(job: NewTranscriptionJob): Promise<TranscriptionJob> {
+    const created = await this.store.createTranscriptionJob({ ...job, maxAttempts: this.config.maxAttempts });
+    const subject = created.halaqaId ? ` for halaqa ${created.halaqaId}` : created.reflectionId ? ` for reflection ${created.reflectionId}` : '';
+    logger.debug(`Queued job ${created.id}${subject}`);
+    void this.poll();
+    return created;
+  }
+
+  /**
+   * Look for due jobs every pollIntervalMs until stop()
+   */
+  start(): void {
+    if (this.timer) return;
+    this.timer = setInterval(() => void this.poll(), this.config.pollIntervalMs);
+    // Don't keep the process alive just for the queue
+    this.timer.unref?.();
+    void this.poll();
+  }
+
+  stop(): void {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+  }
+
+  /**
+   * Claim as many due jobs as there are free slots and start them
+   */
+  poll(): Promise<void> {
+    // One claim at a time, so two polls can't both fill the same free slots
+    if (!this.claiming) {
+      this.claiming = this.claim().finally(() => {
+        this.claiming = null;
+      });
+    }
+    return this.claiming;
+  }
+
+  /**
+   * Run jobs until none are due or running (tests, shutdown)
+   */
+  async drain(): Promise<void> {
+    await this.poll();
+    while (this.inFlight.size > 0) {
+      await Promise.race(this.inFlight);
+      await this.poll();
+    }
+  }
+
+  private async claim(): Promise<void> {
+    const free = this.config.concurrency - this.inFlight.size;
+    if (free <= 0) return;
+
+    const staleBefore = new Date(Date.now() - this.config.staleAfterMs);
+    let jobs: TranscriptionJob[];
+    try {
+      for (const job of await this.store.failAbandonedTranscriptionJobs(staleBefore)) {
+        logger.warn(`Job ${job.id} stopped responding on its last attempt (${job.attempts})`);
+        await this.markSubjectFailed(job);
+      }
+      jobs = await this.store.claimTranscriptionJobs(free, staleBefore);
+    } catch (error) {
+      logger.error('Failed to claim transcription jobs', error);
+      return;
+    }
+
+    for (const job of jobs) {
+      const running = this.run(job).finally(() => {
+        this.inFlight.delete(running);
+        // A slot is free again; pick up whatever is waiting for it
+        if (this.timer) void this.poll();
+      });
+      this.inFlight.add(running);
+    }
+  }
+
+  private async run(job: TranscriptionJob): Promise<void> {
+    // Without a heartbeat a long job would be taken for abandoned and claimed again
+    const heartbeat = setInterval(() => {
+      void this.store.updateTranscriptionJob(job.id, { heartbeatAt: new Date() })
+        .catch(error => logger.warn(`Failed to record the heartbeat of job ${job.id}`, error));
+    }, Math.max(1000, this.config.staleAfterMs / 3));
+    heartbeat.unref?.();
+
+    try {
+      if (job.halaqaId !== null) await this.runLecture(job, job.halaqaId);
+      else await this.runReflection(job);
+    } finally {
+      clearInterval(heartbeat);
+    }
+  }
+
+  private async runReflection(job: TranscriptionJob): Promise<void> {
+    let reflection: Reflection | undefined;
+    let { transcription, segments, engine } = job;
+
+    try {
+      reflection = job.reflectionId ? await this.store.getReflection(job.reflectionId) : undefined;
+      // An earlier attempt may have transcribed the recording and then failed
+      // to open the conversation
+      if (transcription === null) {
+        const key = reflection?.audioKey ?? job.audioKey;
+        const type = (reflection?.audioKey ? reflection.audioType : job.audioType) || 'audio/webm';
+        if (!key) throw new TranscriptionError('The recording is no longer available');
+
+        const audio = await readAudio(getAudioStore(), key);
+        ({ text: transcription, segments, engine } = await transcribeAudio(audio, type));
+        await this.store.updateTranscriptionJob(job.id, { transcription, segments, engine });
+        if (reflection) {
+          await this.store.updateReflection(reflection.id, {
+            transcription,
+            transcriptSegments: segments,
+            transcriptionEngine: engine,
+            transcriptionStatus: 'completed',
+          });
+        }
+      }
+
+      let conversationId = job.conversationId;
+      if (reflection && this.onTranscribed && conversationId === null) {
+        const transcribed: Reflection = {
+          ...reflection,
+          transcription,
+          transcriptSegments: segments,
+          transcriptionEngine: engine,
+          transcriptionStatus: 'completed',
+        };
+        conversationId = await runWithUsageScope(
+          { getUserId: () => job.userId, feature: 'reflection.create' },
+          () => this.onTranscribed!(transcribed, job)
+        );
+      }
+
+      await this.store.updateTranscriptionJob(job.id, {
+        status: 'succeeded',
+        conversationId,
+        audioKey: null,
+        error: null,
+        finishedAt: new Date(),
+      });
+      await releaseAudio(this.store, getAudioStore(), job.audioKey);
+      logger.debug(`Job ${job.id} transcribed with ${engine} on attempt ${job.attempts}`);
+    } catch (error) {
+      await this.fail(job, error);
+    }
+  }
+
+  private async runLecture(job: TranscriptionJob, halaqaId: number): Promise<void> {
+    let dir: string | null = null;
+
+    try {
+      const halaqa = await this.store.getHalaqa(halaqaId);
+      const key = halaqa?.lectureAudioKey;
+      if (!key) throw new TranscriptionError('The lecture recording is no longer available');
+
+      // ffmpeg reads the recording from disk
+      dir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'lecture-'));
+      const file = path.join(dir, `lecture.${audioFormatOf(halaqa.lectureAudioType || 'audio/webm')}`);
+      await pipeline(await getAudioStore().read(key), fs.createWriteStream(file));
+
+      const { text, segments, engine } = await transcribeLongAudio(file, {
+        onProgress: async (chunksDone, chunkCount) => {
+          await this.store.updateTranscriptionJob(job.id, { chunksDone, chunkCount, heartbeatAt: new Date() });
+        },
+      });
+      await this.store.updateTranscriptionJob(job.id, { transcription: text, segments, engine });
+
+      // A recording attached while this one was being transcribed has its own job
+      const current = await this.store.getHalaqa(halaqaId);
+      if (current?.lectureAudioKey === key) {
+        await this.store.updateHalaqaLecture(halaqaId, {
+          lectureTranscript: text,
+          lectureTranscriptSegments: segments,
+          lectureTranscriptionStatus: 'completed',
+        });
+      }
+
+      await this.store.updateTranscriptionJob(job.id, { status: 'succeeded', error: null, finishedAt: new Date() });
+      logger.debug(`Job ${job.id} transcribed halaqa ${halaqaId}'s lecture with ${engine} on attempt ${job.attempts}`);
+    } catch (error) {
+      await this.fail(job, error);
+    } finally {
+      if (dir) await fs.promises.rm(dir, { recursive: true, force: true });
+    }
+  }
+
+  /**
+   * Mark what a job given up on was for as failed. A reflection whose
+   * conversation couldn't be opened counts as failed too, even when its
+   * transcription was saved.
+   */
+  private async markSubjectFailed(job: TranscriptionJob): Promise<void> {
+    if (job.halaqaId !== null) {
+      await this.store.updateHalaqaLecture(job.halaqaId, { lectureTranscriptionStatus: 'failed' });
+    } else if (job.reflectionId !== null) {
+      await this.store.updateReflection(job.reflectionId, { transcriptionStatus: 'failed' });
+    }
+  }
+
+  /**
+   * Retry a failed job, or give up on it and mark what it was transcribing
+   * as failed
+   */
+  private async fail(job: TranscriptionJob, error: unknown): Promise<void> {
+    const message = error instanceof Error ? error.message : String(error);
+    // Another attempt won't hear anything new in a recording the engines rejected
+    const retry = !(error instanceof TranscriptionError) && job.attempts < job.maxAttempts;
+
+    try {
+      if (retry) {
+        const delay = this.config.retryBaseMs * 2 ** (job.attempts - 1);
+        logger.warn(`Job ${job.id} failed on attempt ${job.attempts}, retrying in ${delay}ms: ${message}`);
+        await this.store.updateTranscriptionJob(job.id, {
+          status: 'queued',
+          error: message,
+          runAfter: new Date(Date.now() + delay),
+        });
+        return;
+      }
+
+      logger.warn(`Job ${job.id} failed after ${job.attempts} attempt(s): ${message}`);
+      await this.store.updateTranscriptionJob(job.id, { status: 'failed', error: message, finishedAt: new Date() });
+      await this.markSubjectFailed(job);
+    } catch (updateError) {
+      // Left running, the job is claimed again once it goes stale
+      logger.error(`Failed to record the failure of job ${job.id}`, updateError);
+    }
+  }
+}
+
+let activeQueue: TranscriptionQueue | null = null;
+
+/**
+ * The queue recordings are submitted to, set up when the server starts
+ */
+export function getTranscriptionQueue(): TranscriptionQueue {
+  if (!activeQueue) {
+    throw new TranscriptionUnavailableError('Background transcription is not running');
+  }
+  return activeQueue;
+}
+
+/**
+ * Replace the queue (server startup, tests), stopping the previous one
+ */
+export function setTranscriptionQueue(queue: TranscriptionQueue | null): void {
+  activeQueue?.stop();
+  activeQueue = queue;
+}
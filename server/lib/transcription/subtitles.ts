@@ -0,0 +1,87 @@
+/**
+ * Timed transcripts as subtitle and text files, laid out as whisper writes
+ * them (see test_audio.srt, .vtt, .tsv and .txt)
+ */
+import type { TranscriptFormat, TranscriptSegment } from '@shared/schema';
+
+export interface TimedTranscript {
+  text: string;
+  segments: TranscriptSegment[];
+}
+
+export type RenderedTranscript = {
+  body: string;
+  contentType: string;
+  extension: string;
+};
+
+/**
+ * hh:mm:ss plus milliseconds after the marker; hours are left out when
+ * zero unless alwaysIncludeHours
+ */
+export function formatTimestamp(seconds: number, { alwaysIncludeHours = false, decimalMarker = '.' } = {}): string {
+  let ms = Math.round(Math.max(0, seconds) * 1000);
+  const hours = Math.floor(ms / 3_600_000);
+  ms -= hours * 3_600_000;
+  const minutes = Math.floor(ms / 60_000);
+  ms -= minutes * 60_000;
+  const secs = Math.floor(ms / 1000);
+  ms -= secs * 1000;
+
+  const pad = (value: number, width = 2) => String(value).padStart(width, '0');
+  const hoursPart = alwaysIncludeHours || hours > 0 ? `${pad(hours)}:` : '';
+  return `${hoursPart}${pad(minutes)}:${pad(secs)}${decimalMarker}${pad(ms, 3)}`;
+}
+
+// A cue's text can't contain the arrow that separates its times
+function cueText(text: string): string {
+  return text.trim().replace(/-->/g, '->');
+}
+
+export function renderSrt(segments: TranscriptSegment[]): string {
+  return segments
+    .map((segment, index) => {
+      const start = formatTimestamp(segment.start, { alwaysIncludeHours: true, decimalMarker: ',' });
+      const end = formatTimestamp(segment.end, { alwaysIncludeHours: true, decimalMarker: ',' });
+      return `${index + 1}\n${start} --> ${end}\n${cueText(segment.text)}\n\n`;
+    })
+    .join('');
+}
+
+export function renderVtt(segments: TranscriptSegment[]): string {
+  return 'WEBVTT\n\n' + segments
+    .map(segment => `${formatTimestamp(segment.start)} --> ${formatTimestamp(segment.end)}\n${cueText(segment.text)}\n\n`)
+    .join('');
+}
+
+/**
+ * Tab-separated start and end in milliseconds, then the text
+ */
+export function renderTsv(segments: TranscriptSegment[]): string {
+  return 'start\tend\ttext\n' + segments
+    .map(segment => `${Math.round(segment.start * 1000)}\t${Math.round(segment.end * 1000)}\t${segment.text.trim().replace(/\t/g, ' ')}\n`)
+    .join('');
+}
+
+/**
+ * One segment per line, or the whole transcription when there are no timings
+ */
+export function renderText({ text, segments }: TimedTranscript): string {
+  if (segments.length === 0) return `${text.trim()}\n`;
+  return segments.map(segment => `${segment.text.trim()}\n`).join('');
+}
+
+export function renderTranscript(transcript: TimedTranscript, format: TranscriptFormat): RenderedTranscript {
+  switch (format) {
+    case 'json':
+      return { body: JSON.stringify(transcript, null, 2), contentType: 'application/json; charset=utf-8', extension: 'json' };
+    case 'srt':
+      return { body: renderSrt(transcript.segments), contentType: 'application/x-subrip; charset=utf-8', extension: 'srt' };
+    case 'vtt':
+      return { body: renderVtt(transcript.segments), contentType: 'text/vtt; charset=utf-8', extension: 'vtt' };
+    case 'tsv':
+      return { body: renderTsv(transcript.segments), contentType: 'text/tab-separated-values; charset=utf-8', extension: 'tsv' };
+    case 'txt':
+      return { body: renderText(transcript), contentType: 'text/plain; charset=utf-8', extension: 'txt' };
+  }
+}
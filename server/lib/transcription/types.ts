@@ -0,0 +1,31 @@
+/**
+ * Shared types for the pluggable transcription engine layer
+ */
+import type { TranscriptionEngineName, TranscriptSegment } from '@shared/schema';
+
+export type { TranscriptionEngineName, TranscriptSegment };
+
+/**
+ * What an engine heard in a recording
+ */
+export interface Transcript {
+  text: string;
+  /** When each sentence was said, if the engine reports timings */
+  segments?: TranscriptSegment[];
+}
+
+export interface TranscriptionResult extends Transcript {
+  segments: TranscriptSegment[];
+  /** The engine that produced the transcript */
+  engine: TranscriptionEngineName;
+}
+
+export interface TranscriptionEngine {
+  readonly name: TranscriptionEngineName;
+  /** Whether the engine has what it needs to run (credentials, binaries, fixtures) */
+  isConfigured(): boolean;
+  /**
+   * Transcribe a recording. format is the audio container, e.g. "webm" or "wav".
+   */
+  transcribe(audio: Buffer, format: string): Promise<Transcript>;
+}
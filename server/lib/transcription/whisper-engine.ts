@@ -0,0 +1,114 @@
+import { execFile } from 'child_process';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { createLogger } from '../logger';
+import { audioFormatOf, noSpeechError } from './audio';
+import { Transcript, TranscriptionEngine, TranscriptSegment } from './types';
+
+const logger = createLogger('transcription:whisper');
+
+export const DEFAULT_WHISPER_COMMAND = path.resolve(process.cwd(), 'whisper-wrapper.sh');
+
+export interface WhisperEngineOptions {
+  /** Executable taking the whisper CLI's arguments; whisper-wrapper.sh by default */
+  command?: string;
+  model?: string;
+  /** Spoken language; whisper detects it when unset */
+  language?: string;
+  timeoutMs?: number;
+}
+
+// The parts of a segment in whisper's JSON output that are kept
+interface WhisperSegment {
+  start?: unknown;
+  end?: unknown;
+  text?: unknown;
+  avg_logprob?: unknown;
+}
+
+/**
+ * The transcript in whisper's JSON output (--output_format json), as in
+ * test_audio.json
+ */
+export function parseWhisperOutput(output: unknown): Transcript {
+  const { text, segments } = (output ?? {}) as { text?: unknown; segments?: unknown };
+  if (typeof text !== 'string') {
+    throw new Error('Invalid whisper output - missing text');
+  }
+  if (text.trim().length === 0) {
+    throw noSpeechError();
+  }
+  return { text: text.trim(), segments: Array.isArray(segments) ? segments.flatMap(parseWhisperSegment) : [] };
+}
+
+function parseWhisperSegment(segment: WhisperSegment): TranscriptSegment[] {
+  const text = typeof segment?.text === 'string' ? segment.text.trim() : '';
+  if (!text || typeof segment.start !== 'number' || typeof segment.end !== 'number') return [];
+  return [{
+    start: segment.start,
+    end: segment.end,
+    text,
+    // Whisper reports the mean log probability of the segment's tokens
+    confidence: typeof segment.avg_logprob === 'number' ? Math.round(Math.exp(segment.avg_logprob) * 1000) / 1000 : null,
+  }];
+}
+
+/**
+ * Local Whisper, run as a subprocess. The recording is written to a
+ * temporary directory, whisper writes its JSON output next to it, and the
+ * directory is removed afterwards.
+ */
+export class WhisperEngine implements TranscriptionEngine {
+  readonly name = 'whisper';
+  private command: string;
+  private model: string;
+  private language?: string;
+  private timeoutMs: number;
+
+  constructor(options: WhisperEngineOptions = {}) {
+    this.command = options.command ?? DEFAULT_WHISPER_COMMAND;
+    this.model = options.model ?? 'base';
+    this.language = options.language;
+    this.timeoutMs = options.timeoutMs ?? 5 * 60 * 1000;
+  }
+
+  isConfigured(): boolean {
+    return fs.existsSync(this.command);
+  }
+
+  async transcribe(audio: Buffer, format: string): Promise<Transcript> {
+    const dir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'whisper-'));
+    const input = path.join(dir, `recording.${audioFormatOf(format)}`);
+
+    try {
+      await fs.promises.writeFile(input, audio);
+      await this.run([
+        input,
+        '--model', this.model,
+        '--output_format', 'json',
+        '--output_dir', dir,
+        '--fp16', 'False',
+        ...(this.language ? ['--language', this.language] : []),
+      ]);
+
+      const output = await fs.promises.readFile(path.join(dir, 'recording.json'), 'utf8');
+      return parseWhisperOutput(JSON.parse(output));
+    } finally {
+      await fs.promises.rm(dir, { recursive: true, force: true });
+    }
+  }
+
+  private run(args: string[]): Promise<void> {
+    return new Promise((resolve, reject) => {
+      execFile(this.command, args, { timeout: this.timeoutMs, maxBuffer: 10 * 1024 * 1024 }, (error, _stdout, stderr) => {
+        if (!error) return resolve();
+
+        const reason = error.killed ? `timed out after ${this.timeoutMs}ms` : `exited with code ${error.code}`;
+        const detail = stderr.trim().split('\n').slice(-3).join('\n');
+        logger.debug(`whisper stderr:\n${stderr}`);
+        reject(new Error(`Whisper ${reason}${detail ? `: ${detail}` : ''}`));
+      });
+    });
+  }
+}
@@ -0,0 +1,122 @@
+/**
+ * Practices added to a wird from suggestions
+ *
+ * A practice added from a reflection's or halaqa's suggestions keeps where it
+ * came from, so the source can show what it inspired. It counts as the same
+ * practice on later days when it has the same name, whether it was added
+ * again from the suggestion or carried over by hand.
+ */
+import type { InspiredPractice, WirdPracticeSource, WirdSuggestion } from '@shared/schema';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * A practice as the wird pages save it. Older entries use status instead of
+ * isCompleted.
+ */
+export type SavedPractice = {
+  id: string;
+  name: string;
+  category?: string;
+  target?: number;
+  completed?: number;
+  unit?: string;
+  isCompleted?: boolean;
+  status?: 'completed' | 'incomplete';
+  source?: WirdPracticeSource;
+};
+
+type WirdDay = {
+  date: string | Date;
+  practices: unknown;
+};
+
+function dayOf(date: string | Date): string {
+  return typeof date === 'string' ? date.slice(0, 10) : date.toISOString().slice(0, 10);
+}
+
+function samePractice(name: string): string {
+  return name.trim().replace(/\s+/g, ' ').toLowerCase();
+}
+
+export function isPracticeDone(practice: SavedPractice): boolean {
+  return practice.isCompleted === true || practice.status === 'completed';
+}
+
+function practicesOf(wird: WirdDay): SavedPractice[] {
+  return Array.isArray(wird.practices) ? wird.practices as SavedPractice[] : [];
+}
+
+/**
+ * The practice to put on a wird day for a suggestion, recording its source if
+ * it has one
+ */
+export function practiceFromSuggestion(
+  suggestion: Partial<WirdSuggestion> & { id: string },
+  source?: WirdPracticeSource
+): SavedPractice {
+  return {
+    id: suggestion.id,
+    name: suggestion.title || suggestion.name || 'Spiritual Practice',
+    category: suggestion.type || suggestion.category || 'General',
+    target: suggestion.target || 1,
+    completed: 0,
+    unit: suggestion.unit || 'times',
+    isCompleted: false,
+    ...(source && { source }),
+  };
+}
+
+/**
+ * The practices added from a source and how consistently each has been done
+ * since it was first on the wird, earliest first
+ */
+export function inspiredPractices(
+  wirds: WirdDay[],
+  source: WirdPracticeSource,
+  today: Date = new Date()
+): InspiredPractice[] {
+  const days = wirds
+    .map(wird => ({ day: dayOf(wird.date), practices: practicesOf(wird) }))
+    .sort((a, b) => a.day.localeCompare(b.day));
+
+  const inspired = new Map<string, { practice: SavedPractice; since: string }>();
+  for (const { day, practices } of days) {
+    for (const practice of practices) {
+      const fromSource = practice.source?.sourceType === source.sourceType && practice.source.sourceId === source.sourceId;
+      if (fromSource && !inspired.has(samePractice(practice.name))) {
+        inspired.set(samePractice(practice.name), { practice, since: day });
+      }
+    }
+  }
+
+  const todayDay = dayOf(today);
+  return Array.from(inspired.entries()).map(([key, { practice, since }]) => {
+    let daysTracked = 0;
+    let daysDone = 0;
+    let lastDone: string | null = null;
+
+    for (const { day, practices } of days) {
+      if (day < since || day > todayDay) continue;
+      const onDay = practices.filter(p => samePractice(p.name) === key);
+      if (onDay.length === 0) continue;
+      daysTracked++;
+      if (onDay.some(isPracticeDone)) {
+        daysDone++;
+        lastDone = day;
+      }
+    }
+
+    const elapsed = Math.max(1, Math.round((Date.parse(todayDay) - Date.parse(since)) / DAY_MS) + 1);
+    return {
+      name: practice.name,
+      category: practice.category ?? null,
+      since,
+      days: elapsed,
+      daysTracked,
+      daysDone,
+      consistency: daysDone / elapsed,
+      lastDone,
+    };
+  }).sort((a, b) => a.since.localeCompare(b.since));
+}
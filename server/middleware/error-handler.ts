@@ -1,5 +1,23 @@
 import { Request, Response, NextFunction } from 'express';
 import { AppError, DatabaseError, SchemaError, AuthenticationError } from '../utils/errors';
+import { LLMCallRejectedError } from '../lib/llm/errors';
+
+/**
+ * Reply with the error's status and retry headers when an AI call was refused
+ * before reaching the provider (circuit breaker open: 503; usage quota used
+ * up: 429 with X-Quota-* headers). Returns false for any other error so the
+ * route can handle it as before.
+ */
+export function handleRejectedLLMCall(error: unknown, res: Response): boolean {
+  if (!(error instanceof LLMCallRejectedError)) return false;
+
+  res.set(error.headers());
+  res.status(error.statusCode).json({
+    error: error.message,
+    code: error.code,
+  });
+  return true;
+}
 
 /**
  * Global error handler middleware
@@ -24,6 +42,10 @@ export function errorHandler(
     name: err.name
   });
   
+  if (err instanceof LLMCallRejectedError) {
+    res.set(err.headers());
+  }
+  
   // Default error response
   let statusCode = err.statusCode || 500;
   let errorMessage = err.message || 'Internal server error';
@@ -0,0 +1,24 @@
+import { Request, Response, NextFunction } from 'express';
+import { runWithUsageScope } from '../lib/llm';
+
+function requestUserId(req: Request): string | undefined {
+  return (req as any).user?.id;
+}
+
+/**
+ * Attribute model calls made while handling a request to the authenticated
+ * user, so they count against that user's quota. Mounted once for the app.
+ */
+export function usageScope(req: Request, res: Response, next: NextFunction) {
+  runWithUsageScope({ getUserId: () => requestUserId(req) }, next);
+}
+
+/**
+ * Record model calls made by a route under a feature name such as
+ * "halaqa.analyze" in the user's usage history
+ */
+export function meterFeature(feature: string) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    runWithUsageScope({ getUserId: () => requestUserId(req), feature }, next);
+  };
+}
@@ -1,9 +1,38 @@
 import type { Express, Request, Response, NextFunction } from "express";
 import { createServer, type Server } from "http";
 import { createStorage } from "./storage";
-import { generateFollowUpQuestions, generateActionItems, generateInsights, generateFrameworkSuggestions } from "./lib/anthropic";
-import { insertReflectionSchema, insertConversationSchema, Message, IdentityFramework, FrameworkComponent, HabitTracking } from "@shared/schema";
-import { ZodError } from "zod";
+import {
+  generateFollowUpQuestions,
+  streamFollowUpQuestions,
+  generateActionItems,
+  generateInsights,
+  generateFrameworkSuggestions,
+  getDefaultFrameworkSuggestions,
+  getFallbackFollowUp,
+  withFallback,
+  generateReflectionWirdSuggestions,
+  generateFallbackWirdSuggestions,
+} from "./lib/anthropic";
+import { LLMCallRejectedError, QuotaStatus, checkLLMCallAllowed, quotaHeaders } from "./lib/llm";
+import { handleRejectedLLMCall } from "./middleware/error-handler";
+import { meterFeature } from "./middleware/usage-scope";
+import { AppError } from "./utils/errors";
+import { openEventStream, wantsEventStream } from "./lib/sse";
+import { tracePrompts } from "./lib/prompts";
+import { checkCitations } from "./lib/citations";
+import { findPrompt } from "./lib/guided-prompts";
+import { appendMessage, branchTo, findMessage, latestLeaf, withMessageIds } from "@shared/message-tree";
+import {
+  estimateHistoryTokens,
+  getSummarizationConfig,
+  prepareConversationContext,
+  regenerateConversationSummary,
+} from "./lib/conversation-summary";
+import { editLabels, labelConversation, refreshConversationLabels } from "./lib/conversation-labels";
+import { tryImportActionItems } from "./lib/action-items";
+import { inspiredPractices } from "./lib/wird-practices";
+import { insertReflectionSchema, insertConversationSchema, Conversation, Message, IdentityFramework, FrameworkComponent, HabitTracking, WirdSuggestion } from "@shared/schema";
+import { z, ZodError } from "zod";
 import { fromZodError } from "zod-validation-error";
 import multer from "multer";
 import { testConnection } from "./db";
@@ -22,8 +51,10 @@ import jwt from "jsonwebtoken";
 // Import debug middleware
 import { authDebugMiddleware } from "./middleware/auth-debug";
 
-// Import the TranscriptionService
-import { TranscriptionService } from './lib/transcription';
+import { transcribeAudio, checkAudio, decodeAudioDataUrl, TranscriptionError, TranscriptionUnavailableError } from './lib/transcription';
+import { AudioTooLargeError, getAudioStore, receiveAudioUpload, releaseAudio, StoredAudio } from './lib/audio-store';
+import { getTranscriptionQueue, transcriptionJobView } from './lib/transcription/queue';
+import { openReflectionConversation } from './lib/reflection-conversation';
 
 // Get current directory for ES modules (replacement for __dirname)
 const __filename = fileURLToPath(import.meta.url);
@@ -60,6 +91,198 @@ interface AuthenticatedRequest extends Request {
   };
 }
 
+/**
+ * Conversations are visible only to their owner; legacy conversations that
+ * were never attributed to anyone are visible to no one
+ */
+function ownsConversation(req: Request, conversation: Conversation): boolean {
+  const userId = (req as AuthenticatedRequest).user?.id;
+  return !!userId && conversation.userId === userId;
+}
+
+/**
+ * Quran and hadith citations in a generated reply, checked against the
+ * bundled corpus
+ */
+function replyCitations(understanding: string, questions: string[]) {
+  return checkCitations([understanding, ...questions].join("\n"));
+}
+
+/**
+ * The conversation's messages, all with ids, and its selected branch
+ */
+function selectedBranch(conversation: Pick<Conversation, 'messages' | 'activeMessageId'>) {
+  const messages = withMessageIds(conversation.messages);
+  return { messages, branch: branchTo(messages, conversation.activeMessageId) };
+}
+
+/**
+ * Title, synopsis and tags as edited by the user; at least one is needed
+ */
+const labelEditsSchema = z.object({
+  title: z.string().trim().min(1).max(120).optional(),
+  synopsis: z.string().max(500).nullable().optional(),
+  tags: z.array(z.string().trim().min(1).max(40)).max(10).optional(),
+}).refine(edits => Object.keys(edits).length > 0, { message: "Nothing to update" });
+
+/**
+ * The branch leading up to a message, not including it
+ */
+function branchBefore(messages: Message[], message: Message): Message[] {
+  return message.parentId ? branchTo(messages, message.parentId) : [];
+}
+
+/**
+ * Generate the assistant reply to `content`, which follows `context` in the
+ * conversation. With no context, content is the reflection itself, which may
+ * answer a guided prompt. Canned questions are used if generation fails.
+ */
+async function generateBranchReply(
+  conversationId: number,
+  conversation: Pick<Conversation, 'summary' | 'promptId'>,
+  context: Message[],
+  content: string,
+  personalizationContext?: any
+) {
+  const prompt = conversation.promptId ? findPrompt(conversation.promptId) : undefined;
+  // Previous messages for context, with older ones summarized in long conversations
+  const { previousMessages } = context.length > 0
+    ? await prepareConversationContext(conversationId, { messages: context, summary: conversation.summary }, storage)
+    : { previousMessages: prompt ? [`assistant: ${prompt.text}`] : undefined };
+
+  const { result: { result: { understanding, questions }, fallback }, prompts } = await tracePrompts(() => withFallback(
+    () => generateFollowUpQuestions(content, previousMessages, personalizationContext),
+    getFallbackFollowUp,
+    "generating follow-up questions"
+  ));
+
+  const citations = replyCitations(understanding, questions);
+  const reply: Omit<Message, 'id' | 'parentId'> = {
+    role: "assistant",
+    content: JSON.stringify({ understanding, questions }),
+    prompts,
+    ...(fallback && { fallback }),
+    ...(citations.length > 0 && { citations })
+  };
+  return { reply, understanding, questions, fallback, citations };
+}
+
+/**
+ * The client's id for a submitted turn, if it sent a usable one
+ */
+function clientMessageIdOf(body: any): string | undefined {
+  const id = body?.clientMessageId;
+  return typeof id === 'string' && id.length > 0 && id.length <= 64 ? id : undefined;
+}
+
+/**
+ * A user message for `content`, tagged with the client's id for the turn when it sent one
+ */
+function userTurn(content: string, clientMessageId: string | undefined): Omit<Message, 'id' | 'parentId'> {
+  return { role: "user", content, ...(clientMessageId && { clientMessageId }) };
+}
+
+/**
+ * The response for a turn that was already saved with its reply. A stream can
+ * drop after the reply is saved but before "done" reaches the client, whose
+ * non-streaming retry then gets the saved reply instead of a second turn.
+ */
+function savedReplyTo(conversation: Conversation, clientMessageId: string | undefined) {
+  if (!clientMessageId) return null;
+
+  const { messages } = selectedBranch(conversation);
+  const turn = messages.find(message => message.role === "user" && message.clientMessageId === clientMessageId);
+  const reply = turn && messages.find(message => message.role === "assistant" && message.parentId === turn.id);
+  if (!reply) return null;
+
+  let questions: string[] = [];
+  try {
+    questions = JSON.parse(reply.content).questions ?? [];
+  } catch {
+    // Older replies were stored as plain text
+  }
+  return { conversation, questions, fallback: reply.fallback, citations: reply.citations };
+}
+
+/**
+ * Streaming variant of /api/conversation/:id/respond and /message, selected
+ * with "Accept: text/event-stream". A call refused by the quota or circuit
+ * breaker is answered with a plain 429/503 before the stream opens. Emits:
+ *   - "token" { delta }: visible reply text as it is generated
+ *   - "done" { conversation, questions, understanding, citations }: after the assistant message is saved
+ *   - "error" { error }: generation or persistence failed; nothing was saved
+ * If the client disconnects mid-stream the upstream call is aborted and the
+ * conversation is left untouched.
+ */
+async function streamConversationReply(
+  res: Response,
+  conversationId: number,
+  conversation: Pick<Conversation, 'messages' | 'summary' | 'activeMessageId'>,
+  content: string,
+  clientMessageId?: string
+) {
+  // Quota and breaker refusals need their own status, which can't be sent
+  // once the event stream has committed to a 200
+  let quota: QuotaStatus | null;
+  try {
+    quota = await checkLLMCallAllowed("reflection.follow-up");
+  } catch (error) {
+    if (handleRejectedLLMCall(error, res)) return;
+    console.error("Error checking AI availability before streaming:", error);
+    res.status(500).json({ error: "Failed to generate response" });
+    return;
+  }
+  if (quota) res.set(quotaHeaders(quota));
+
+  const stream = openEventStream(res);
+
+  try {
+    const { messages, branch } = selectedBranch(conversation);
+    const { previousMessages } = await prepareConversationContext(
+      conversationId,
+      { messages: branch, summary: conversation.summary },
+      storage
+    );
+
+    const { result: { understanding, questions }, prompts } = await tracePrompts(() => streamFollowUpQuestions(
+      content,
+      previousMessages,
+      undefined,
+      (delta) => stream.send("token", { delta }),
+      stream.signal
+    ));
+
+    if (stream.signal.aborted) {
+      console.log(`Client disconnected from conversation ${conversationId} stream, discarding reply`);
+      return;
+    }
+
+    const citations = replyCitations(understanding, questions);
+    const userMessage = appendMessage(messages, userTurn(content, clientMessageId), branch[branch.length - 1]?.id ?? null);
+    const reply = appendMessage(messages, {
+      role: "assistant",
+      content: JSON.stringify({ understanding, questions }),
+      prompts,
+      ...(citations.length > 0 && { citations })
+    }, userMessage.id!);
+
+    const updatedConversation = await storage.updateConversationBranch(conversationId, messages, reply.id!);
+    void refreshConversationLabels(conversationId, storage);
+    stream.send("done", { conversation: updatedConversation, questions, understanding, citations });
+  } catch (error) {
+    if (stream.signal.aborted) {
+      console.log(`Client disconnected from conversation ${conversationId} stream, discarding reply`);
+      return;
+    }
+    console.error("Error streaming conversation reply:", error);
+    stream.send("error", {
+      error: error instanceof Error ? error.message : "Failed to generate response"
+    });
+  } finally {
+    stream.close();
+  }
+}
+
 // Add authentication logging middleware to track the user object
 const authLoggingMiddleware = (req: Request, res: Response, next: NextFunction) => {
   console.log('[AUTH LOGGING] Request path:', req.path);
@@ -507,9 +730,6 @@ const identityFrameworkRoutes = (app: Express) => {
 // Simple in-memory cache for suggestions
 const suggestionCache = new Map<string, any>();
 
-// Initialize the transcription service
-const transcriptionService = new TranscriptionService();
-
 export async function registerRoutes(app: Express): Promise<Server> {
   const httpServer = createServer(app);
   
@@ -584,8 +804,33 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Mount the Wird API routes
   app.use("/api/wirds", wirdRouter);
 
-  app.post("/api/reflection", authRequired, async (req: Request, res: Response) => {
+  app.post("/api/reflection", authRequired, meterFeature("reflection.create"), async (req: Request, res: Response) => {
+    const store = getAudioStore();
+    // A recording received but not yet saved on a reflection, released if
+    // the request fails
+    let unclaimed: StoredAudio | undefined;
     try {
+      // Voice reflections arrive as multipart forms with the recording in
+      // "audio", streamed straight into the audio store
+      const upload = await receiveAudioUpload(req, res, store, storage);
+      if (upload) {
+        unclaimed = upload;
+        const { moodIntensity, personalizationContext } = req.body;
+        try {
+          req.body = {
+            ...req.body,
+            type: "audio",
+            content: "",
+            moodIntensity: moodIntensity ? Number(moodIntensity) : undefined,
+            personalizationContext: typeof personalizationContext === "string" && personalizationContext
+              ? JSON.parse(personalizationContext)
+              : undefined,
+          };
+        } catch {
+          return res.status(400).json({ error: "personalizationContext must be JSON" });
+        }
+      }
+
       console.log("\n\n🚨🚨🚨 EXPRESS HANDLER: Request received at /api/reflection 🚨🚨🚨");
       console.log("Request headers:", req.headers);
       console.log("Request body:", req.body);
@@ -603,93 +848,104 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const data = insertReflectionSchema.parse(req.body);
       console.log("Parsed reflection data successfully");
 
-      // Validate base64 for audio
-      if (data.type === "audio") {
-        if (!data.content.startsWith('data:')) {
-          return res.status(400).json({
-            error: "Invalid audio data format. Expected base64 data URL."
-          });
-        }
+      // A mood check-in needs both the mood and how strongly it was felt
+      if ((data.mood == null) !== (data.moodIntensity == null)) {
+        return res.status(400).json({
+          error: "A mood check-in needs both mood and moodIntensity"
+        });
+      }
 
-        try {
-          console.log("Starting audio transcription...");
-          const transcription = await transcriptionService.transcribeAudio(
-            Buffer.from(data.content.split(',')[1], 'base64'),
-            data.type.split('/')[1]
-          );
-          if (!transcription || transcription.trim().length === 0) {
+      // A reflection started from a guided prompt answers that prompt
+      const { promptId } = req.body;
+      const prompt = promptId != null ? findPrompt(String(promptId)) : undefined;
+      if (promptId != null && !prompt) {
+        return res.status(400).json({ error: "Unknown guided prompt" });
+      }
+
+      // The owner always comes from the session, never from the body
+      const userId = (req as AuthenticatedRequest).user!.id;
+
+      // Voice reflections are saved pending and transcribed in the background;
+      // their conversation opens once the transcription is done
+      if (data.type === "audio") {
+        let audioType = upload?.mimetype;
+        if (!upload) {
+          // Older clients send the recording as a base64 data URL instead
+          if (!data.content.startsWith('data:')) {
             return res.status(400).json({
-              error: "No speech detected in the audio. Please try again and speak clearly."
+              error: "Invalid audio data format. Expected base64 data URL."
             });
           }
-          data.transcription = transcription;
-          console.log("Transcribed audio successfully:", transcription);
-        } catch (error) {
-          console.error("Error transcribing audio:", error);
-          return res.status(500).json({
-            error: "Failed to transcribe audio. Please ensure you have a clear recording and try again."
+
+          const { audio, format, mimetype } = decodeAudioDataUrl(data.content);
+          checkAudio(audio, format);
+          unclaimed = await store.put(audio);
+          audioType = mimetype;
+        }
+
+        const queue = getTranscriptionQueue();
+        const reflection = await storage.createReflection({
+          ...data,
+          userId,
+          content: "",
+          audioKey: unclaimed!.key,
+          audioType,
+          audioSize: unclaimed!.size,
+          transcription: null,
+          transcriptionEngine: null,
+          transcriptionStatus: "pending",
+        });
+        unclaimed = undefined;
+        let job;
+        try {
+          job = await queue.enqueue({
+            userId,
+            reflectionId: reflection.id,
+            promptId: prompt?.id ?? null,
+            personalizationContext: req.body.personalizationContext ?? null,
           });
+        } catch (error) {
+          // Without a job nothing would ever move the reflection on from pending
+          await storage.updateReflection(reflection.id, { transcriptionStatus: "failed" })
+            .catch((updateError: unknown) => console.error(`Failed to mark reflection ${reflection.id} as failed:`, updateError));
+          throw error;
         }
+        console.log(`Created reflection ${reflection.id}, transcription job ${job.id} queued`);
+
+        return res.status(202).json({
+          reflection,
+          transcriptionJob: await transcriptionJobView(storage, job),
+        });
       }
 
-      const reflection = await storage.createReflection(data);
+      const reflection = await storage.createReflection({ ...data, userId });
       console.log("Created reflection:", reflection.id);
 
-      // Default questions in case API fails
-      let questions: string[] = ["How would you like to expand on your reflection?"];
-      let understanding = "Thank you for sharing your reflection.";
-      
-      try {
-        // Use transcription for audio reflections
-        const content = data.type === "audio" ? data.transcription! : data.content;
-        
-        // Pass the personalizationContext to the generateFollowUpQuestions function
-        const generatedResponse = await generateFollowUpQuestions(
-          content, 
-          undefined, // No previous messages
-          req.body.personalizationContext // Pass personalization context
-        );
-        
-        if (generatedResponse && generatedResponse.questions && generatedResponse.questions.length > 0) {
-          questions = generatedResponse.questions;
-          understanding = generatedResponse.understanding;
-          console.log("Generated questions:", questions);
-        } else {
-          console.warn("Empty questions array returned, using default");
-        }
-      } catch (error) {
-        console.error("Error generating questions:", error);
-        // Don't fail the whole request if question generation fails
-        questions = ["How would you like to expand on your reflection?"];
-      }
-
-      const conversation = await storage.createConversation({
-        reflectionId: reflection.id,
-        messages: [
-          { 
-            role: "user", 
-            content: data.type === "audio" ? data.transcription! : data.content 
-          },
-          { 
-            role: "assistant", 
-            content: JSON.stringify({
-              understanding: understanding,
-              questions: questions
-            })
-          },
-        ],
-        actionItems: [],
-      });
+      // Pass the personalizationContext to the follow-up questions. Don't fail
+      // the whole request if question generation fails; the reply is marked
+      // as a fallback instead
+      const { conversation, understanding, questions, fallback, citations } = await openReflectionConversation(
+        storage,
+        reflection,
+        { prompt, personalizationContext: req.body.personalizationContext }
+      );
+      console.log(fallback ? "Using fallback questions" : "Generated questions:", questions);
       console.log("Created conversation:", conversation.id);
 
       res.json({ 
         reflection, 
         conversation, 
         understanding,
-        questions 
+        questions,
+        fallback,
+        citations
       });
     } catch (error) {
+      if (handleRejectedLLMCall(error, res)) return;
       console.error("Error in /api/reflection:", error);
+      if (error instanceof TranscriptionUnavailableError || error instanceof TranscriptionError || error instanceof AudioTooLargeError) {
+        return res.status(error.statusCode).json({ error: error.message });
+      }
       if (error instanceof ZodError) {
         return res.status(400).json({ 
           error: fromZodError(error).message 
@@ -698,10 +954,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
       return res.status(error instanceof Error && error.message.includes("400") ? 400 : 500).json({ 
         error: error instanceof Error ? error.message : "Failed to save reflection" 
       });
+    } finally {
+      if (unclaimed) await releaseAudio(storage, store, unclaimed.key);
     }
   });
 
-  app.post("/api/conversation/:id/respond", async (req: Request, res: Response) => {
+  app.post("/api/conversation/:id/respond", authRequired, meterFeature("conversation.respond"), async (req: Request, res: Response) => {
     try {
       const conversationId = parseInt(req.params.id);
       if (isNaN(conversationId)) {
@@ -719,60 +977,54 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ error: "Conversation not found" });
       }
 
-      const messages = [...conversation.messages, { role: "user" as const, content }];
-      
-      // Default questions in case API fails
-      let questions: string[] = [
-        "How would you like to expand on your reflection?",
-        "What aspects of your spiritual journey would you like to explore further?",
-        "Is there anything specific from today that you'd like to reflect on more deeply?"
-      ];
-      let understanding = "Thank you for sharing your thoughts.";
+      if (!ownsConversation(req, conversation)) {
+        return res.status(403).json({ error: "You don't have permission to access this conversation" });
+      }
 
-      try {
-        // Get all previous user messages for context
-        const previousMessages = conversation.messages
-          .map((msg: Message) => `${msg.role}: ${msg.content}`)
-          .filter((msg: string) => !msg.includes('{"understanding":')); // Filter out the response objects
-
-        const generatedResponse = await generateFollowUpQuestions(content, previousMessages);
-        if (generatedResponse && generatedResponse.questions && generatedResponse.questions.length > 0) {
-          questions = generatedResponse.questions;
-          understanding = generatedResponse.understanding;
-          console.log("Generated follow-up questions:", questions);
-        } else {
-          console.warn("Empty questions array returned from API, using fallback questions");
-        }
-      } catch (error) {
-        console.error("Error generating follow-up questions:", error);
-        // Continue with default questions instead of failing the request
-        console.log("Using fallback questions due to API error");
-      }
-
-      // Add messages to the conversation
-      messages.push({ 
-        role: "assistant" as const, 
-        content: JSON.stringify({
-          understanding: understanding,
-          questions: questions
-        })
-      });
+      const clientMessageId = clientMessageIdOf(req.body);
+      if (wantsEventStream(req)) {
+        return streamConversationReply(res, conversationId, conversation, content, clientMessageId);
+      }
+
+      const saved = savedReplyTo(conversation, clientMessageId);
+      if (saved) {
+        return res.json(saved);
+      }
+
+      const { messages, branch } = selectedBranch(conversation);
+
+      // Continue with default questions instead of failing the request
+      const { reply, understanding, questions, fallback, citations } = await generateBranchReply(
+        conversationId,
+        conversation,
+        branch,
+        content
+      );
+      console.log(fallback ? "Using fallback questions" : "Generated follow-up questions:", questions);
+
+      // Add both turns to the end of the selected branch
+      const userMessage = appendMessage(messages, userTurn(content, clientMessageId), branch[branch.length - 1]?.id ?? null);
+      const assistantMessage = appendMessage(messages, reply, userMessage.id!);
 
       try {
-        const updatedConversation = await storage.updateConversation(
+        const updatedConversation = await storage.updateConversationBranch(
           conversationId,
-          messages
+          messages,
+          assistantMessage.id!
         );
+        void refreshConversationLabels(conversationId, storage);
         
-        res.json({ conversation: updatedConversation, questions });
+        res.json({ conversation: updatedConversation, questions, fallback, citations });
       } catch (storageError) {
         console.error("Error updating conversation in storage:", storageError);
         return res.status(500).json({ 
           error: "Failed to save your response, but here are some follow-up questions",
-          questions: questions
+          questions: questions,
+          fallback
         });
       }
     } catch (error) {
+      if (handleRejectedLLMCall(error, res)) return;
       console.error("Error in /api/conversation/respond:", error);
       return res.status(error instanceof Error && error.message.includes("404") ? 404 : 500).json({ 
         error: error instanceof Error ? error.message : "Failed to save response" 
@@ -780,7 +1032,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/conversation/:id/action-items", async (req: Request, res: Response) => {
+  app.post("/api/conversation/:id/action-items", authRequired, meterFeature("conversation.action-items"), async (req: Request, res: Response) => {
     try {
       const conversationId = parseInt(req.params.id);
       if (isNaN(conversationId)) {
@@ -793,7 +1045,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ error: "Conversation not found" });
       }
 
-      const conversationText = conversation.messages
+      if (!ownsConversation(req, conversation)) {
+        return res.status(403).json({ error: "You don't have permission to access this conversation" });
+      }
+
+      // Only the branch the user has selected, not the alternatives they moved away from
+      const conversationText = selectedBranch(conversation).branch
         .map((msg: Message) => `${msg.role}: ${msg.content}`)
         .join("\n");
 
@@ -804,14 +1061,17 @@ export async function registerRoutes(app: Express): Promise<Server> {
         "Engage in more dhikr (remembrance of Allah)"
       ];
       
+      let generated = false;
       try {
         const generatedItems = await generateActionItems(conversationText);
         if (generatedItems && generatedItems.length > 0) {
           actionItems = generatedItems;
+          generated = true;
         } else {
           console.warn("Empty action items array returned from API, using fallback items");
         }
       } catch (error) {
+        if (error instanceof LLMCallRejectedError) throw error;
         console.error("Error generating action items:", error);
         // Continue with default action items instead of failing the request
         console.log("Using fallback action items due to API error");
@@ -823,6 +1083,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
           conversation.messages,
           actionItems
         );
+
+        // Generated items go onto the user's action plan; the defaults don't
+        if (generated) {
+          await tryImportActionItems(storage, conversation.userId!, { type: "conversation", id: conversationId }, actionItems.map(text => ({ text })));
+        }
         
         res.json({ conversation: updatedConversation, actionItems });
       } catch (storageError) {
@@ -833,6 +1098,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         });
       }
     } catch (error) {
+      if (handleRejectedLLMCall(error, res)) return;
       console.error("Error in /api/conversation/action-items:", error);
       return res.status(error instanceof Error && error.message.includes("404") ? 404 : 500).json({ 
         error: error instanceof Error ? error.message : "Failed to generate action items" 
@@ -840,7 +1106,78 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/conversation/:id/insights", async (req: Request, res: Response) => {
+  // Suggest wird practices from the conversation; the user adds them to a wird day from the page
+  app.post("/api/conversation/:id/wird-suggestions", authRequired, meterFeature("conversation.wird-suggestions"), async (req: Request, res: Response) => {
+    try {
+      const conversationId = parseInt(req.params.id);
+      if (isNaN(conversationId)) {
+        return res.status(400).json({ error: "Invalid conversation ID" });
+      }
+
+      const conversation = await storage.getConversation(conversationId);
+      if (!conversation) {
+        return res.status(404).json({ error: "Conversation not found" });
+      }
+
+      if (!ownsConversation(req, conversation)) {
+        return res.status(403).json({ error: "You don't have permission to access this conversation" });
+      }
+
+      const { result, fallback } = await withFallback(
+        () => generateReflectionWirdSuggestions(selectedBranch(conversation).branch, req.body?.personalizationContext),
+        generateFallbackWirdSuggestions,
+        "generating reflection wird suggestions"
+      );
+      const wirdSuggestions: WirdSuggestion[] = result.map(suggestion => ({
+        ...suggestion,
+        name: suggestion.name || suggestion.title,
+        category: suggestion.category || suggestion.type || "General",
+        target: suggestion.target || 1,
+      }));
+
+      // Like a halaqa's, only generated suggestions are kept
+      if (!fallback) {
+        await storage.updateConversationWirdSuggestions(conversationId, wirdSuggestions);
+      }
+
+      res.json({ wirdSuggestions, fallback });
+    } catch (error) {
+      if (handleRejectedLLMCall(error, res)) return;
+      console.error("Error in /api/conversation/wird-suggestions:", error);
+      return res.status(500).json({ error: "Failed to generate wird suggestions" });
+    }
+  });
+
+  // The practices added from the conversation's reflection and how consistently they have been done since
+  app.get("/api/conversation/:id/practices", authRequired, async (req: Request, res: Response) => {
+    try {
+      const conversationId = parseInt(req.params.id);
+      if (isNaN(conversationId)) {
+        return res.status(400).json({ error: "Invalid conversation ID" });
+      }
+
+      const conversation = await storage.getConversation(conversationId);
+      if (!conversation) {
+        return res.status(404).json({ error: "Conversation not found" });
+      }
+
+      if (!ownsConversation(req, conversation)) {
+        return res.status(403).json({ error: "You don't have permission to access this conversation" });
+      }
+
+      if (!conversation.reflectionId) {
+        return res.json({ practices: [] });
+      }
+
+      const wirds = await storage.getWirdsByUserId(conversation.userId!);
+      res.json({ practices: inspiredPractices(wirds, { sourceType: "reflection", sourceId: conversation.reflectionId }) });
+    } catch (error) {
+      console.error("Error in /api/conversation/practices:", error);
+      return res.status(500).json({ error: "Failed to get practices" });
+    }
+  });
+
+  app.post("/api/conversation/:id/insights", authRequired, meterFeature("conversation.insights"), async (req: Request, res: Response) => {
     // Always set JSON content type
     res.setHeader('Content-Type', 'application/json');
     
@@ -866,9 +1203,17 @@ export async function registerRoutes(app: Express): Promise<Server> {
         });
       }
 
+      if (!ownsConversation(req, conversation)) {
+        return res.status(403).json({
+          error: "You don't have permission to access this conversation",
+          success: false
+        });
+      }
+
       console.log("[EXPRESS INSIGHTS API] Conversation found, messages count:", conversation.messages.length);
       
-      const conversationText = conversation.messages
+      // Only the branch the user has selected, not the alternatives they moved away from
+      const conversationText = selectedBranch(conversation).branch
         .map((msg: Message) => `${msg.role}: ${msg.content}`)
         .join("\n");
 
@@ -898,6 +1243,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
           usedFallback = true;
         }
       } catch (error) {
+        if (error instanceof LLMCallRejectedError) throw error;
         console.error("[EXPRESS INSIGHTS API] Error generating insights:", error);
         // Continue with default insights instead of failing the request
         console.log("[EXPRESS INSIGHTS API] Using fallback insights due to API error");
@@ -913,6 +1259,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         fallback: usedFallback
       });
     } catch (error) {
+      if (handleRejectedLLMCall(error, res)) return;
       console.error("[EXPRESS INSIGHTS API] Unhandled error:", error);
       res.status(500).json({ 
         error: "Failed to generate insights",
@@ -923,7 +1270,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Make sure the /message endpoint also works as a symlink to /respond for backward compatibility
-  app.post("/api/conversation/:id/message", async (req: Request, res: Response) => {
+  app.post("/api/conversation/:id/message", authRequired, meterFeature("conversation.message"), async (req: Request, res: Response) => {
     try {
       // Forward the request to the /respond endpoint handler
       const conversationId = parseInt(req.params.id);
@@ -941,51 +1288,45 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ error: "Conversation not found" });
       }
 
-      const messages = [...conversation.messages, { role: "user" as const, content }];
-      
-      // Default questions in case API fails
-      let questions: string[] = [
-        "How would you like to expand on your reflection?",
-        "What aspects of your spiritual journey would you like to explore further?",
-        "Is there anything specific from today that you'd like to reflect on more deeply?"
-      ];
-      let understanding = "Thank you for sharing your thoughts.";
+      if (!ownsConversation(req, conversation)) {
+        return res.status(403).json({ error: "You don't have permission to access this conversation" });
+      }
 
-      try {
-        // Get all previous user messages for context
-        const previousMessages = conversation.messages
-          .map((msg: Message) => `${msg.role}: ${msg.content}`)
-          .filter((msg: string) => !msg.includes('{"understanding":')); // Filter out the response objects
-
-        const generatedResponse = await generateFollowUpQuestions(content, previousMessages);
-        if (generatedResponse && generatedResponse.questions && generatedResponse.questions.length > 0) {
-          questions = generatedResponse.questions;
-          understanding = generatedResponse.understanding;
-          console.log("Generated follow-up questions:", questions);
-        } else {
-          console.warn("Empty questions array returned from API, using fallback questions");
-        }
-      } catch (error) {
-        console.error("Error generating follow-up questions:", error);
-        // Continue with default questions
+      const clientMessageId = clientMessageIdOf(req.body);
+      if (wantsEventStream(req)) {
+        return streamConversationReply(res, conversationId, conversation, content, clientMessageId);
       }
 
-      // Add messages to the conversation
-      messages.push({ 
-        role: "assistant" as const, 
-        content: JSON.stringify({
-          understanding: understanding,
-          questions: questions
-        })
-      });
+      const saved = savedReplyTo(conversation, clientMessageId);
+      if (saved) {
+        return res.json(saved);
+      }
 
-      const updatedConversation = await storage.updateConversation(
+      const { messages, branch } = selectedBranch(conversation);
+
+      // Continue with default questions instead of failing the request
+      const { reply, understanding, questions, fallback, citations } = await generateBranchReply(
+        conversationId,
+        conversation,
+        branch,
+        content
+      );
+      console.log(fallback ? "Using fallback questions" : "Generated follow-up questions:", questions);
+
+      // Add both turns to the end of the selected branch
+      const userMessage = appendMessage(messages, userTurn(content, clientMessageId), branch[branch.length - 1]?.id ?? null);
+      const assistantMessage = appendMessage(messages, reply, userMessage.id!);
+
+      const updatedConversation = await storage.updateConversationBranch(
         conversationId,
-        messages
+        messages,
+        assistantMessage.id!
       );
+      void refreshConversationLabels(conversationId, storage);
 
-      res.json({ conversation: updatedConversation, questions });
+      res.json({ conversation: updatedConversation, questions, fallback, citations });
     } catch (error) {
+      if (handleRejectedLLMCall(error, res)) return;
       console.error("Error in /api/conversation/message:", error);
       return res.status(error instanceof Error && error.message.includes("404") ? 404 : 500).json({ 
         error: error instanceof Error ? error.message : "Failed to save response" 
@@ -993,6 +1334,261 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Ask for another reply to the same user turn; the earlier reply is kept as an alternative
+  app.post("/api/conversation/:id/messages/:messageId/regenerate", authRequired, meterFeature("conversation.regenerate"), async (req: Request, res: Response) => {
+    try {
+      const conversationId = parseInt(req.params.id);
+      if (isNaN(conversationId)) {
+        return res.status(400).json({ error: "Invalid conversation ID" });
+      }
+
+      const conversation = await storage.getConversation(conversationId);
+      if (!conversation) {
+        return res.status(404).json({ error: "Conversation not found" });
+      }
+
+      if (!ownsConversation(req, conversation)) {
+        return res.status(403).json({ error: "You don't have permission to access this conversation" });
+      }
+
+      const { messages } = selectedBranch(conversation);
+      const target = findMessage(messages, req.params.messageId);
+      if (!target) {
+        return res.status(404).json({ error: "Message not found" });
+      }
+
+      const turn = target.parentId ? findMessage(messages, target.parentId) : undefined;
+      if (target.role !== "assistant" || turn?.role !== "user") {
+        return res.status(400).json({ error: "Only replies to your messages can be regenerated" });
+      }
+
+      const { reply, understanding, questions, fallback, citations } = await generateBranchReply(
+        conversationId,
+        conversation,
+        branchBefore(messages, turn),
+        turn.content,
+        req.body?.personalizationContext
+      );
+      const regenerated = appendMessage(messages, reply, turn.id!);
+
+      const updatedConversation = await storage.updateConversationBranch(conversationId, messages, regenerated.id!);
+      void refreshConversationLabels(conversationId, storage);
+      res.json({ conversation: updatedConversation, understanding, questions, fallback, citations });
+    } catch (error) {
+      if (handleRejectedLLMCall(error, res)) return;
+      console.error("Error in /api/conversation/messages/regenerate:", error);
+      return res.status(500).json({ error: "Failed to regenerate reply" });
+    }
+  });
+
+  // Start a new branch from one of the user's turns, with edited text in its place
+  app.post("/api/conversation/:id/messages/:messageId/fork", authRequired, meterFeature("conversation.fork"), async (req: Request, res: Response) => {
+    try {
+      const conversationId = parseInt(req.params.id);
+      if (isNaN(conversationId)) {
+        return res.status(400).json({ error: "Invalid conversation ID" });
+      }
+
+      const { content } = req.body;
+      if (!content || typeof content !== 'string' || !content.trim()) {
+        return res.status(400).json({ error: "Content is required and must be a string" });
+      }
+
+      const conversation = await storage.getConversation(conversationId);
+      if (!conversation) {
+        return res.status(404).json({ error: "Conversation not found" });
+      }
+
+      if (!ownsConversation(req, conversation)) {
+        return res.status(403).json({ error: "You don't have permission to access this conversation" });
+      }
+
+      const { messages } = selectedBranch(conversation);
+      const target = findMessage(messages, req.params.messageId);
+      if (!target) {
+        return res.status(404).json({ error: "Message not found" });
+      }
+
+      if (target.role !== "user") {
+        return res.status(400).json({ error: "Only your own messages can be edited into a new branch" });
+      }
+
+      const { reply, understanding, questions, fallback, citations } = await generateBranchReply(
+        conversationId,
+        conversation,
+        branchBefore(messages, target),
+        content,
+        req.body.personalizationContext
+      );
+      const userMessage = appendMessage(messages, { role: "user", content }, target.parentId ?? null);
+      const assistantMessage = appendMessage(messages, reply, userMessage.id!);
+
+      const updatedConversation = await storage.updateConversationBranch(conversationId, messages, assistantMessage.id!);
+      void refreshConversationLabels(conversationId, storage);
+      res.json({ conversation: updatedConversation, understanding, questions, fallback, citations });
+    } catch (error) {
+      if (handleRejectedLLMCall(error, res)) return;
+      console.error("Error in /api/conversation/messages/fork:", error);
+      return res.status(500).json({ error: "Failed to start a new branch" });
+    }
+  });
+
+  // Switch to the branch through a message, e.g. a sibling reply; it continues down that message's latest replies
+  app.put("/api/conversation/:id/branch", authRequired, async (req: Request, res: Response) => {
+    try {
+      const conversationId = parseInt(req.params.id);
+      if (isNaN(conversationId)) {
+        return res.status(400).json({ error: "Invalid conversation ID" });
+      }
+
+      const { messageId } = req.body;
+      if (!messageId || typeof messageId !== 'string') {
+        return res.status(400).json({ error: "messageId is required and must be a string" });
+      }
+
+      const conversation = await storage.getConversation(conversationId);
+      if (!conversation) {
+        return res.status(404).json({ error: "Conversation not found" });
+      }
+
+      if (!ownsConversation(req, conversation)) {
+        return res.status(403).json({ error: "You don't have permission to access this conversation" });
+      }
+
+      const { messages } = selectedBranch(conversation);
+      if (!findMessage(messages, messageId)) {
+        return res.status(404).json({ error: "Message not found" });
+      }
+
+      const updatedConversation = await storage.updateConversationBranch(
+        conversationId,
+        messages,
+        latestLeaf(messages, messageId)
+      );
+      res.json({ conversation: updatedConversation });
+    } catch (error) {
+      console.error("Error in /api/conversation/branch:", error);
+      return res.status(500).json({ error: "Failed to switch branch" });
+    }
+  });
+
+  // Inspect the running summary sent in place of a long conversation's older messages
+  app.get("/api/conversation/:id/summary", authRequired, async (req: Request, res: Response) => {
+    try {
+      const conversationId = parseInt(req.params.id);
+      if (isNaN(conversationId)) {
+        return res.status(400).json({ error: "Invalid conversation ID" });
+      }
+
+      const conversation = await storage.getConversation(conversationId);
+      if (!conversation) {
+        return res.status(404).json({ error: "Conversation not found" });
+      }
+
+      if (!ownsConversation(req, conversation)) {
+        return res.status(403).json({ error: "You don't have permission to access this conversation" });
+      }
+
+      const { branch } = selectedBranch(conversation);
+      res.json({
+        summary: conversation.summary ?? null,
+        messageCount: branch.length,
+        estimatedTokens: estimateHistoryTokens(branch),
+        ...getSummarizationConfig(),
+      });
+    } catch (error) {
+      console.error("Error in /api/conversation/summary:", error);
+      return res.status(500).json({ error: "Failed to get conversation summary" });
+    }
+  });
+
+  // Rebuild the summary from scratch, e.g. after a poor summarization
+  app.post("/api/conversation/:id/summary/regenerate", authRequired, meterFeature("conversation.summary"), async (req: Request, res: Response) => {
+    try {
+      const conversationId = parseInt(req.params.id);
+      if (isNaN(conversationId)) {
+        return res.status(400).json({ error: "Invalid conversation ID" });
+      }
+
+      const conversation = await storage.getConversation(conversationId);
+      if (!conversation) {
+        return res.status(404).json({ error: "Conversation not found" });
+      }
+
+      if (!ownsConversation(req, conversation)) {
+        return res.status(403).json({ error: "You don't have permission to access this conversation" });
+      }
+
+      const summary = await regenerateConversationSummary(conversationId, { messages: selectedBranch(conversation).branch }, storage);
+      res.json({ summary });
+    } catch (error) {
+      if (handleRejectedLLMCall(error, res)) return;
+      console.error("Error in /api/conversation/summary/regenerate:", error);
+      return res.status(error instanceof AppError ? error.statusCode : 500).json({
+        error: "Failed to regenerate conversation summary"
+      });
+    }
+  });
+
+  // Rename, re-summarize or re-tag a conversation; edited fields are kept when labels refresh
+  app.patch("/api/conversation/:id/labels", authRequired, async (req: Request, res: Response) => {
+    try {
+      const conversationId = parseInt(req.params.id);
+      if (isNaN(conversationId)) {
+        return res.status(400).json({ error: "Invalid conversation ID" });
+      }
+
+      const result = labelEditsSchema.safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({
+          error: "Invalid conversation labels",
+          details: result.error.format()
+        });
+      }
+
+      const conversation = await storage.getConversation(conversationId);
+      if (!conversation) {
+        return res.status(404).json({ error: "Conversation not found" });
+      }
+
+      if (!ownsConversation(req, conversation)) {
+        return res.status(403).json({ error: "You don't have permission to access this conversation" });
+      }
+
+      const updatedConversation = await storage.updateConversationLabels(conversationId, editLabels(conversation, result.data));
+      res.json({ conversation: updatedConversation });
+    } catch (error) {
+      console.error("Error in /api/conversation/labels:", error);
+      return res.status(500).json({ error: "Failed to update conversation labels" });
+    }
+  });
+
+  // Generate the title, synopsis and tags again, replacing the user's edits
+  app.post("/api/conversation/:id/labels/regenerate", authRequired, meterFeature("conversation.labels"), async (req: Request, res: Response) => {
+    try {
+      const conversationId = parseInt(req.params.id);
+      if (isNaN(conversationId)) {
+        return res.status(400).json({ error: "Invalid conversation ID" });
+      }
+
+      const conversation = await storage.getConversation(conversationId);
+      if (!conversation) {
+        return res.status(404).json({ error: "Conversation not found" });
+      }
+
+      if (!ownsConversation(req, conversation)) {
+        return res.status(403).json({ error: "You don't have permission to access this conversation" });
+      }
+
+      const updatedConversation = await labelConversation(conversationId, conversation, storage, { regenerate: true });
+      res.json({ conversation: updatedConversation });
+    } catch (error) {
+      if (handleRejectedLLMCall(error, res)) return;
+      console.error("Error in /api/conversation/labels/regenerate:", error);
+      return res.status(500).json({ error: "Failed to regenerate conversation labels" });
+    }
+  });
+
   // Update the audio transcription route
   app.post('/api/reflection/audio', upload.single('audio'), async (req, res) => {
     console.log('Received audio transcription request');
@@ -1010,27 +1606,15 @@ export async function registerRoutes(app: Express): Promise<Server> {
     });
 
     try {
-      // Extract format from mimetype instead of filename
-      const fileExtension = req.file.mimetype.split('/')[1];
-      console.log('Processing audio file with extension:', fileExtension);
-
-      const transcriptionService = new TranscriptionService();
-      console.log('Starting transcription service...');
+      const { text, engine } = await transcribeAudio(req.file.buffer, req.file.mimetype);
+      console.log(`Transcribed ${text.length} characters with ${engine}`);
 
-      const transcription = await transcriptionService.transcribeAudio(
-        req.file.buffer,
-        fileExtension
-      );
-
-      console.log('Transcription completed successfully:', {
-        length: transcription.length,
-        preview: transcription.substring(0, 100) + '...'
-      });
-
-      return res.json({ transcription });
+      return res.json({ transcription: text, engine });
     } catch (error: any) {
       console.error('Error in audio transcription:', error);
-      console.error('Stack trace:', error.stack);
+      if (error instanceof TranscriptionError || error instanceof TranscriptionUnavailableError) {
+        return res.status(error.statusCode).json({ error: error.message });
+      }
       return res.status(500).json({ 
         error: `Transcription failed: ${error.message}`,
         details: error.stack
@@ -1038,6 +1622,30 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Progress of a recording being transcribed in the background
+  app.get("/api/transcriptions/:jobId", authRequired, async (req: Request, res: Response) => {
+    try {
+      const jobId = parseInt(req.params.jobId);
+      if (isNaN(jobId)) {
+        return res.status(400).json({ error: "Invalid transcription job ID" });
+      }
+
+      const job = await storage.getTranscriptionJob(jobId);
+      if (!job) {
+        return res.status(404).json({ error: "Transcription job not found" });
+      }
+
+      if (job.userId !== (req as AuthenticatedRequest).user?.id) {
+        return res.status(403).json({ error: "You don't have permission to access this transcription job" });
+      }
+
+      res.json({ job: await transcriptionJobView(storage, job) });
+    } catch (error) {
+      console.error("Error in /api/transcriptions/:jobId:", error);
+      return res.status(500).json({ error: "Failed to get transcription job" });
+    }
+  });
+
   // Identity Framework Routes
   app.get('/api/identity-frameworks/:id', authRequired, async (req: AuthenticatedRequest, res: Response) => {
     try {
@@ -1285,7 +1893,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // AI Guidance Routes for Framework Building
-  app.post('/api/framework-guidance', authRequired, async (req: AuthenticatedRequest, res: Response) => {
+  app.post('/api/framework-guidance', authRequired, meterFeature('framework.guidance'), async (req: AuthenticatedRequest, res: Response) => {
     try {
       const { input, componentType, previousComponents, regenerate = false } = req.body;
       const userId = req.user?.id;
@@ -1317,7 +1925,17 @@ export async function registerRoutes(app: Express): Promise<Server> {
         console.log(`[FRAMEWORK GUIDANCE] Generating new guidance for ${componentType}`);
         
         // Generate guidance using Claude
-        guidance = await generateFrameworkSuggestions(input, componentType, previousComponents);
+        const generated = await withFallback(
+          () => generateFrameworkSuggestions(input, componentType, previousComponents),
+          () => getDefaultFrameworkSuggestions(componentType),
+          `generating ${componentType} framework suggestions`
+        );
+        
+        if (generated.fallback) {
+          // Don't cache defaults, so the next request tries the model again
+          return res.json({ guidance: generated.result, fallback: true });
+        }
+        guidance = generated.result;
         
         // Cache the guidance for future use (1 hour expiration)
         suggestionCache.set(cacheKey, guidance);
@@ -1328,8 +1946,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
         console.log(`[FRAMEWORK GUIDANCE] Generated and cached new guidance for ${componentType}`);
       }
       
-      return res.json({ guidance });
+      return res.json({ guidance, fallback: false });
     } catch (error) {
+      if (handleRejectedLLMCall(error, res)) return;
       console.error('[FRAMEWORK GUIDANCE] Error generating guidance:', error);
       return res.status(500).json({ error: "Failed to generate guidance" });
     }
@@ -0,0 +1,54 @@
+import express from 'express';
+import request from 'supertest';
+import { createStorage } from '../../storage';
+import reflectionRoutes from '../reflection-routes';
+
+// The database module connects on import; the routes fall back to MemStorage
+jest.mock('../../db', () => ({ db: undefined }));
+jest.mock('../../auth', () => ({
+  authRequired: (req: any, _res: unknown, next: () => void) => {
+    req.user = { id: 'user-1', email: 'user@example.com', name: 'User' };
+    next();
+  },
+}));
+
+describe('PATCH /api/reflections/:id', () => {
+  const storage = createStorage();
+  const app = express().use(express.json()).use('/api/reflections', reflectionRoutes);
+
+  async function audioReflection(transcriptionStatus: 'pending' | 'completed') {
+    return storage.createReflection({
+      userId: 'user-1',
+      type: 'audio',
+      content: '',
+      audioKey: 'a'.repeat(64),
+      audioType: 'audio/wav',
+      transcription: transcriptionStatus === 'completed' ? 'As transcribed' : undefined,
+      transcriptionStatus,
+    });
+  }
+
+  it('refuses to edit a recording that is still being transcribed', async () => {
+    const reflection = await audioReflection('pending');
+
+    const response = await request(app)
+      .patch(`/api/reflections/${reflection.id}`)
+      .send({ transcription: 'My correction' });
+
+    expect(response.status).toBe(409);
+    expect((await storage.getReflection(reflection.id))?.transcription).toBeFalsy();
+    expect(await storage.getRevisions('reflection', reflection.id)).toEqual([]);
+  });
+
+  it('edits the transcription once it is done', async () => {
+    const reflection = await audioReflection('completed');
+
+    const response = await request(app)
+      .patch(`/api/reflections/${reflection.id}`)
+      .send({ transcription: 'My correction' });
+
+    expect(response.status).toBe(200);
+    expect(response.body.reflection.transcription).toBe('My correction');
+    expect(response.body.revision).not.toBeNull();
+  });
+});
@@ -0,0 +1,276 @@
+import express from 'express';
+import { z } from 'zod';
+import type { Request, Response } from 'express';
+import { actionItemPriorities, actionItemSources, actionItemStatuses } from '@shared/schema';
+import type { ActionItem, ActionItemSource, InsertActionItem } from '@shared/schema';
+import { authRequired } from '../auth';
+import { createStorage } from '../storage';
+import { describeActionItems, editActionItem, syncHalaqaChecklist } from '../lib/action-items';
+
+// Define a type for authenticated requests
+interface AuthenticatedRequest extends Request {
+  user?: {
+    id: string;
+    email: string;
+    name: string;
+  };
+}
+
+const router = express.Router();
+const storage = createStorage();
+
+const MAX_LEGACY_ITEMS = 500;
+
+const dueDateSchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Expected YYYY-MM-DD");
+
+const listQuerySchema = z.object({
+  status: z.enum(actionItemStatuses).optional(),
+  sourceType: z.enum(actionItemSources).optional(),
+  sourceId: z.string().min(1).optional(),
+});
+
+const createActionItemSchema = z.object({
+  text: z.string().trim().min(1).max(500),
+  context: z.string().trim().max(2000).nullable().optional(),
+  sourceType: z.enum(actionItemSources).default('manual'),
+  sourceId: z.union([z.string().min(1), z.number().int()]).transform(String).optional(),
+  dueDate: dueDateSchema.nullable().optional(),
+  priority: z.enum(actionItemPriorities).optional(),
+}).refine(item => (item.sourceType === 'manual') === (item.sourceId === undefined), {
+  message: "Manual items have no sourceId; every other source needs one",
+  path: ['sourceId'],
+});
+
+const updateActionItemSchema = z.object({
+  text: z.string().trim().min(1).max(500).optional(),
+  context: z.string().trim().max(2000).nullable().optional(),
+  dueDate: dueDateSchema.nullable().optional(),
+  priority: z.enum(actionItemPriorities).optional(),
+  status: z.enum(actionItemStatuses).optional(),
+}).refine(edit => Object.keys(edit).length > 0, { message: "Nothing to update" });
+
+// The plan as the client kept it in localStorage before it moved to the server;
+// conversationId there is the id of the reflection the chat opened from
+const legacyPlanSchema = z.object({
+  items: z.array(z.object({
+    text: z.string().trim().min(1).max(500),
+    context: z.string().optional(),
+    conversationId: z.string().optional(),
+    completed: z.boolean().optional(),
+    timestamp: z.number().optional(),
+  })).max(MAX_LEGACY_ITEMS),
+});
+
+/**
+ * The action item with the given id param if the signed-in user owns it;
+ * otherwise sends the error response and returns null
+ */
+async function findOwnedActionItem(req: AuthenticatedRequest, res: Response): Promise<ActionItem | null> {
+  const actionItemId = parseInt(req.params.id);
+  if (isNaN(actionItemId)) {
+    res.status(400).json({ error: "Invalid action item ID format" });
+    return null;
+  }
+
+  const item = await storage.getActionItem(actionItemId);
+  if (!item) {
+    res.status(404).json({ error: "Action item not found" });
+    return null;
+  }
+
+  if (item.userId !== req.user?.id) {
+    res.status(403).json({ error: "You don't have permission to access this action item" });
+    return null;
+  }
+
+  return item;
+}
+
+/**
+ * Whether the user owns the conversation, halaqa or framework an item is added from
+ */
+async function ownsSource(userId: string, sourceType: ActionItemSource, sourceId: string): Promise<boolean> {
+  const numericId = /^\d+$/.test(sourceId) ? parseInt(sourceId) : null;
+  switch (sourceType) {
+    case 'conversation': {
+      const conversation = numericId !== null ? await storage.getConversation(numericId) : undefined;
+      return conversation?.userId === userId;
+    }
+    case 'halaqa': {
+      const halaqa = numericId !== null ? await storage.getHalaqa(numericId) : null;
+      return halaqa?.userId === userId;
+    }
+    case 'framework':
+      return !!(await storage.getFramework(userId, sourceId));
+    case 'manual':
+      return true;
+  }
+}
+
+/**
+ * GET /api/action-items - The signed-in user's action plan, newest first
+ *
+ * Query: status (open | in-progress | completed), sourceType, sourceId.
+ */
+router.get('/', authRequired, async (req: AuthenticatedRequest, res) => {
+  try {
+    const userId = req.user?.id;
+
+    if (!userId) {
+      return res.status(401).json({ error: "Not authenticated" });
+    }
+
+    const result = listQuerySchema.safeParse(req.query);
+    if (!result.success) {
+      return res.status(400).json({
+        error: "Invalid action item filters",
+        details: result.error.format()
+      });
+    }
+
+    const items = await storage.listActionItems(userId, result.data);
+    return res.json({ actionItems: await describeActionItems(storage, items) });
+  } catch (error) {
+    console.error('Error fetching action items:', error);
+    return res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+/**
+ * POST /api/action-items - Add an item to the plan, by hand or from one of
+ * the user's conversations, halaqas or identity frameworks
+ */
+router.post('/', authRequired, async (req: AuthenticatedRequest, res) => {
+  try {
+    const userId = req.user?.id;
+
+    if (!userId) {
+      return res.status(401).json({ error: "Not authenticated" });
+    }
+
+    const result = createActionItemSchema.safeParse(req.body);
+    if (!result.success) {
+      return res.status(400).json({
+        error: "Invalid action item",
+        details: result.error.format()
+      });
+    }
+
+    const { sourceType, sourceId, ...item } = result.data;
+    if (sourceId !== undefined && !(await ownsSource(userId, sourceType, sourceId))) {
+      return res.status(404).json({ error: "Action item source not found" });
+    }
+
+    const [created] = await storage.createActionItems([{ ...item, userId, sourceType, sourceId: sourceId ?? null }]);
+    const [actionItem] = await describeActionItems(storage, [created]);
+    return res.status(201).json({ actionItem });
+  } catch (error) {
+    console.error('Error creating action item:', error);
+    return res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+/**
+ * POST /api/action-items/import - Move a plan kept in the browser's
+ * localStorage to the server. Items already on the plan are skipped, so
+ * importing twice adds nothing.
+ */
+router.post('/import', authRequired, async (req: AuthenticatedRequest, res) => {
+  try {
+    const userId = req.user?.id;
+
+    if (!userId) {
+      return res.status(401).json({ error: "Not authenticated" });
+    }
+
+    const result = legacyPlanSchema.safeParse(req.body);
+    if (!result.success) {
+      return res.status(400).json({
+        error: "Invalid action plan",
+        details: result.error.format()
+      });
+    }
+
+    const existing = await storage.listActionItems(userId);
+    const seen = new Set(existing.map(item => `${item.sourceType}:${item.sourceId}:${item.text}`));
+    const items: InsertActionItem[] = [];
+
+    for (const legacy of result.data.items) {
+      const reflectionId = parseInt(legacy.conversationId ?? '');
+      const conversation = isNaN(reflectionId) ? undefined : await storage.getConversationByReflectionId(reflectionId);
+      const source = conversation?.userId === userId
+        ? { sourceType: 'conversation' as const, sourceId: String(conversation.id) }
+        : { sourceType: 'manual' as const, sourceId: null };
+
+      const key = `${source.sourceType}:${source.sourceId}:${legacy.text}`;
+      if (seen.has(key)) continue;
+      seen.add(key);
+
+      items.push({
+        userId,
+        text: legacy.text,
+        context: legacy.context || null,
+        ...source,
+        status: legacy.completed ? 'completed' : 'open',
+        completedAt: legacy.completed ? new Date(legacy.timestamp ?? Date.now()) : null,
+        // The user chose these items, so they are never replaced by a new generation
+        editedAt: new Date(),
+      });
+    }
+
+    const created = await storage.createActionItems(items);
+    return res.json({ imported: created.length, skipped: result.data.items.length - created.length });
+  } catch (error) {
+    console.error('Error importing action plan:', error);
+    return res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+/**
+ * PATCH /api/action-items/:id - Edit, schedule, prioritize or complete an
+ * item. Completing an item imported from a halaqa ticks it there too.
+ */
+router.patch('/:id', authRequired, async (req: AuthenticatedRequest, res) => {
+  try {
+    const result = updateActionItemSchema.safeParse(req.body);
+    if (!result.success) {
+      return res.status(400).json({
+        error: "Invalid action item edit",
+        details: result.error.format()
+      });
+    }
+
+    const item = await findOwnedActionItem(req, res);
+    if (!item) return;
+
+    const updated = await storage.updateActionItem(item.id, editActionItem(item, result.data));
+    if (updated.status !== item.status) {
+      await syncHalaqaChecklist(storage, updated);
+    }
+
+    const [actionItem] = await describeActionItems(storage, [updated]);
+    return res.json({ actionItem });
+  } catch (error) {
+    console.error('Error updating action item:', error);
+    return res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+/**
+ * DELETE /api/action-items/:id - Remove an item from the plan. A halaqa's
+ * own checklist keeps the item.
+ */
+router.delete('/:id', authRequired, async (req: AuthenticatedRequest, res) => {
+  try {
+    const item = await findOwnedActionItem(req, res);
+    if (!item) return;
+
+    await storage.deleteActionItems([item.id]);
+    return res.json({ success: true });
+  } catch (error) {
+    console.error('Error deleting action item:', error);
+    return res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+export default router;
@@ -0,0 +1,74 @@
+import express from 'express';
+import { z } from 'zod';
+import type { Request } from 'express';
+import { authRequired } from '../auth';
+import { createStorage } from '../storage';
+
+// Define a type for authenticated requests
+interface AuthenticatedRequest extends Request {
+  user?: {
+    id: string;
+    email: string;
+    name: string;
+  };
+}
+
+const router = express.Router();
+const storage = createStorage();
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DEFAULT_RANGE_DAYS = 90;
+const MAX_RANGE_DAYS = 366;
+
+const moodQuerySchema = z.object({
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+});
+
+/**
+ * GET /api/analytics/mood - The signed-in user's mood check-ins over time,
+ * by weekday, and against wird completion
+ *
+ * Query: from / to (dates, inclusive; a bare `to` date covers that whole
+ * day). Defaults to the last 90 days; at most a year at a time.
+ */
+router.get('/mood', authRequired, async (req: AuthenticatedRequest, res) => {
+  try {
+    const userId = req.user?.id;
+
+    if (!userId) {
+      return res.status(401).json({ error: "Not authenticated" });
+    }
+
+    const result = moodQuerySchema.safeParse(req.query);
+    if (!result.success) {
+      return res.status(400).json({
+        error: "Invalid mood analytics range",
+        details: result.error.format()
+      });
+    }
+
+    const { from: requestedFrom, to: requestedTo } = result.data;
+    const to = !requestedTo
+      ? new Date()
+      : /^\d{4}-\d{2}-\d{2}$/.test(String(req.query.to))
+        ? new Date(requestedTo.getTime() + DAY_MS - 1)
+        : requestedTo;
+    const from = requestedFrom ?? new Date(to.getTime() - DEFAULT_RANGE_DAYS * DAY_MS);
+
+    if (from > to) {
+      return res.status(400).json({ error: "`from` must not be after `to`" });
+    }
+    if (to.getTime() - from.getTime() > MAX_RANGE_DAYS * DAY_MS) {
+      return res.status(400).json({ error: `Mood analytics cover at most ${MAX_RANGE_DAYS} days at a time` });
+    }
+
+    const analytics = await storage.getMoodAnalytics(userId, from, to);
+    return res.json(analytics);
+  } catch (error) {
+    console.error('Error computing mood analytics:', error);
+    return res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+export default router;
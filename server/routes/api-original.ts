@@ -1,7 +1,7 @@
 import { Router } from "express";
 import { createStorage } from "../storage";
 import { generateResponse, generateFollowUpQuestions, generateActionItems } from "../lib/anthropic";
-import { TranscriptionService } from "../lib/transcription";
+import { transcribeAudio } from "../lib/transcription";
 import multer from "multer";
 import { Message } from "@shared/schema";
 import { 
@@ -19,9 +19,8 @@ const upload = multer({
   },
 });
 
-// Initialize storage and transcription service
+// Initialize storage
 const storage = createStorage();
-const transcriptionService = new TranscriptionService();
 
 const router = Router();
 
@@ -94,11 +93,7 @@ router.post("/reflection/audio", upload.single("audio"), async (req, res) => {
     console.log("Received audio file, size:", req.file.size);
 
     // Process audio
-    const transcription = await transcriptionService.transcribeAudio(req.file.buffer, "mp3");
-    
-    if (!transcription) {
-      return res.status(400).json({ error: "Failed to transcribe audio" });
-    }
+    const { text: transcription, engine } = await transcribeAudio(req.file.buffer, req.file.mimetype);
 
     console.log("Transcribed audio:", transcription);
 
@@ -107,6 +102,7 @@ router.post("/reflection/audio", upload.single("audio"), async (req, res) => {
       content: transcription,
       type: "audio",
       transcription,
+      transcriptionEngine: engine,
     });
     console.log(`Created audio reflection with ID: ${reflection.id}`);
 
@@ -233,7 +229,7 @@ router.post("/conversation/:id/message", async (req, res) => {
     }
     
     // Add user message
-    const messages = [...conversation.messages, { role: "user", content }];
+    const messages: Message[] = [...conversation.messages, { role: "user", content }];
     
     // Get previous messages as strings for context
     const previousMessages = conversation.messages.map(
@@ -326,7 +322,7 @@ router.post("/conversation/:id/respond", async (req, res) => {
     }
     
     // Add user message
-    const messages = [...conversation.messages, { role: "user", content }];
+    const messages: Message[] = [...conversation.messages, { role: "user", content }];
     
     // Get previous messages as strings for context
     const previousMessages = conversation.messages.map(
@@ -0,0 +1,35 @@
+/**
+ * Playback of stored recordings through signed links, for <audio> elements
+ * that can't send the Authorization header. Links come from
+ * GET /api/reflections/:id/audio/url and GET /api/halaqas/:id/recording/url.
+ */
+import express from 'express';
+import { getAudioStore, sendAudio, verifyPlaybackUrl } from '../lib/audio-store';
+
+const router = express.Router();
+
+/**
+ * GET /api/audio/:key - A recording, honouring Range requests. Needs the
+ * type, expires and signature of a playback link.
+ */
+router.get('/:key', async (req, res) => {
+  try {
+    const type = verifyPlaybackUrl(req.params.key, req.query);
+    if (!type) {
+      return res.status(403).json({ error: "This playback link is invalid or has expired" });
+    }
+
+    const store = getAudioStore();
+    const size = await store.size(req.params.key);
+    if (size === null) {
+      return res.status(404).json({ error: "Recording not found" });
+    }
+
+    await sendAudio(req, res, store, { key: req.params.key, type, size });
+  } catch (error) {
+    console.error('Error streaming recording:', error);
+    if (!res.headersSent) res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+export default router;
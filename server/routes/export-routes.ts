@@ -0,0 +1,191 @@
+import express from 'express';
+import { z } from 'zod';
+import type { Request, Response } from 'express';
+import { exportFormats, exportSources } from '@shared/schema';
+import type { ExportFormat, ExportPrivacy, ExportSource } from '@shared/schema';
+import { authRequired } from '../auth';
+import { createStorage } from '../storage';
+import { getUserProfile } from '../db/index';
+import { buildExportBundle, exportPrivacyOf, PdfUnsupportedTextError, renderExport } from '../lib/export';
+import type { ExportBundle } from '../lib/export';
+
+// Define a type for authenticated requests
+interface AuthenticatedRequest extends Request {
+  user?: {
+    id: string;
+    email: string;
+    name: string;
+  };
+}
+
+const router = express.Router();
+const storage = createStorage();
+
+const formatSchema = z.enum(exportFormats).default('markdown');
+
+const rangeQuerySchema = z.object({
+  format: formatSchema,
+  // Comma-separated, e.g. "reflections,halaqas"
+  sources: z.string()
+    .transform(value => value.split(',').map(source => source.trim()).filter(Boolean))
+    .pipe(z.array(z.enum(exportSources)).min(1))
+    .optional(),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+});
+
+/**
+ * What the user's exports include, from their history preference and profile
+ * privacy settings
+ */
+async function exportPrivacyFor(userId: string): Promise<ExportPrivacy> {
+  const [settings, profile] = await Promise.all([
+    storage.getUserSettings(userId),
+    getUserProfile(userId),
+  ]);
+  return exportPrivacyOf(settings?.preferences, profile?.sharingPreferences);
+}
+
+function sendExport(res: Response, bundle: ExportBundle, format: ExportFormat, filename: string) {
+  const { body, contentType, extension } = renderExport(bundle, format);
+  res.setHeader('Content-Type', contentType);
+  res.setHeader('Content-Disposition', `attachment; filename="${filename}.${extension}"`);
+  return res.send(body);
+}
+
+/**
+ * GET /api/export/settings - What the signed-in user's exports include. These
+ * follow the user's existing settings and are changed there.
+ */
+router.get('/settings', authRequired, async (req: AuthenticatedRequest, res) => {
+  try {
+    const userId = req.user?.id;
+
+    if (!userId) {
+      return res.status(401).json({ error: "Not authenticated" });
+    }
+
+    return res.json(await exportPrivacyFor(userId));
+  } catch (error) {
+    console.error('Error getting export settings:', error);
+    return res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+/**
+ * GET /api/export/conversations/:id?format=markdown|pdf|json - Download one
+ * conversation. Markdown and PDF show the selected branch; JSON has every
+ * branch.
+ */
+router.get('/conversations/:id', authRequired, async (req: AuthenticatedRequest, res) => {
+  try {
+    const userId = req.user?.id;
+
+    if (!userId) {
+      return res.status(401).json({ error: "Not authenticated" });
+    }
+
+    const conversationId = Number(req.params.id);
+    if (!Number.isInteger(conversationId)) {
+      return res.status(400).json({ error: "Invalid conversation ID" });
+    }
+
+    const format = formatSchema.safeParse(req.query.format);
+    if (!format.success) {
+      return res.status(400).json({
+        error: "Invalid export format",
+        details: format.error.format()
+      });
+    }
+
+    const conversation = await storage.getConversation(conversationId);
+    if (!conversation) {
+      return res.status(404).json({ error: "Conversation not found" });
+    }
+    if (conversation.userId !== userId) {
+      return res.status(403).json({ error: "You don't have permission to access this conversation" });
+    }
+
+    const reflection = conversation.reflectionId ? await storage.getReflection(conversation.reflectionId) : undefined;
+    const bundle = buildExportBundle(
+      {
+        reflections: reflection ? [reflection] : [],
+        conversations: [conversation],
+        halaqas: [],
+        wirds: [],
+      },
+      {
+        scope: { kind: 'conversation', conversationId },
+        privacy: await exportPrivacyFor(userId),
+      }
+    );
+    return sendExport(res, bundle, format.data, `sahabai-conversation-${conversationId}`);
+  } catch (error) {
+    if (error instanceof PdfUnsupportedTextError) {
+      return res.status(error.statusCode).json({ error: error.message });
+    }
+    console.error('Error exporting conversation:', error);
+    return res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+/**
+ * GET /api/export?format=markdown|pdf|json - Download the signed-in user's
+ * journal, oldest first
+ *
+ * Query: from / to (dates, inclusive; a bare `to` date covers that whole
+ * day; either may be left open) and sources (comma-separated reflections,
+ * conversations, halaqas, wirds; all by default).
+ */
+router.get('/', authRequired, async (req: AuthenticatedRequest, res) => {
+  try {
+    const userId = req.user?.id;
+
+    if (!userId) {
+      return res.status(401).json({ error: "Not authenticated" });
+    }
+
+    const result = rangeQuerySchema.safeParse(req.query);
+    if (!result.success) {
+      return res.status(400).json({
+        error: "Invalid export",
+        details: result.error.format()
+      });
+    }
+
+    const { format, from, to: requestedTo } = result.data;
+    const sources: ExportSource[] = result.data.sources ?? [...exportSources];
+    const to = requestedTo && /^\d{4}-\d{2}-\d{2}$/.test(String(req.query.to))
+      ? new Date(requestedTo.getTime() + 24 * 60 * 60 * 1000 - 1)
+      : requestedTo;
+
+    if (from && to && from > to) {
+      return res.status(400).json({ error: "`from` must not be after `to`" });
+    }
+
+    const entries = await storage.getJournalEntries(userId, { from, to });
+    const bundle = buildExportBundle(
+      {
+        reflections: sources.includes('reflections') ? entries.reflections : [],
+        conversations: sources.includes('conversations') ? entries.conversations : [],
+        halaqas: sources.includes('halaqas') ? entries.halaqas : [],
+        wirds: sources.includes('wirds') ? entries.wirds : [],
+      },
+      {
+        scope: { kind: 'range', from: from?.toISOString() ?? null, to: to?.toISOString() ?? null, sources },
+        privacy: await exportPrivacyFor(userId),
+      }
+    );
+
+    const days = [from, to].filter(Boolean).map(date => date!.toISOString().slice(0, 10));
+    return sendExport(res, bundle, format, ['sahabai-journal', ...days].join('-'));
+  } catch (error) {
+    if (error instanceof PdfUnsupportedTextError) {
+      return res.status(error.statusCode).json({ error: error.message });
+    }
+    console.error('Error exporting journal:', error);
+    return res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+export default router;
@@ -1,11 +1,30 @@
 import express, { Request, Response } from "express";
 import * as storage from "../storage.js";
-import { Halaqa, HalaqaActionItem } from "@shared/schema";
-import { generateHalaqaActions, generateHalaqaApplicationSuggestions, generateHalaqaWirdSuggestions, generateHalaqaInsights } from "../lib/anthropic.js";
+import { Halaqa, HalaqaActionItem, PromptRef, transcriptFormats } from "@shared/schema";
+import {
+  generateHalaqaActions,
+  generateHalaqaApplicationSuggestions,
+  generateHalaqaWirdSuggestions,
+  generateHalaqaInsights,
+  generateFallbackWirdSuggestions,
+  getFallbackHalaqaActions,
+  withFallback,
+} from "../lib/anthropic.js";
 import { z } from "zod";
 import { v4 } from "uuid";
 import { createLogger } from "../lib/logger.js";
+import { mergePromptRefs, tracePrompts } from "../lib/prompts/index.js";
+import { checkCitations } from "../lib/citations/index.js";
 import { authRequired } from "../auth.js";
+import { AppError } from "../utils/errors.js";
+import { LLMCallRejectedError } from "../lib/llm/index.js";
+import { handleRejectedLLMCall } from "../middleware/error-handler.js";
+import { meterFeature } from "../middleware/usage-scope.js";
+import { diffFields, HALAQA_EDITABLE_FIELDS, toRevisionView, valuesBefore } from "../lib/revisions.js";
+import { syncFromHalaqaChecklist, tryImportActionItems } from "../lib/action-items.js";
+import { getAudioStore, getChunkedUploads, releaseAudio, signPlaybackUrl } from "../lib/audio-store/index.js";
+import { renderTranscript, TranscriptionUnavailableError } from "../lib/transcription/index.js";
+import { getTranscriptionQueue, transcriptionJobView } from "../lib/transcription/queue.js";
 
 // Define the extended Request type that includes user property
 interface AuthenticatedRequest extends Request {
@@ -17,6 +36,53 @@ interface AuthenticatedRequest extends Request {
 
 const router = express.Router();
 const logger = createLogger("halaqaRoutes");
+// The action plan lives in IStorage rather than this module's halaqa helpers
+const actionPlan = storage.createStorage();
+// As are lecture recordings and the uploads they arrive through
+const lectures = storage.createStorage();
+
+const attachRecordingSchema = z.object({
+  uploadId: z.string().uuid(),
+});
+
+const transcriptQuerySchema = z.object({
+  format: z.enum(transcriptFormats).default("json"),
+});
+
+/**
+ * The halaqa with the given id param if the signed-in user owns it;
+ * otherwise sends the error response and returns null
+ */
+async function findOwnedHalaqa(req: AuthenticatedRequest, res: Response): Promise<Halaqa | null> {
+  const halaqaId = parseInt(req.params.id);
+  if (isNaN(halaqaId)) {
+    res.status(400).json({ error: "Invalid halaqa ID format" });
+    return null;
+  }
+
+  const halaqa = await storage.getHalaqa(halaqaId);
+  if (!halaqa) {
+    res.status(404).json({ error: "Halaqa not found" });
+    return null;
+  }
+
+  if (halaqa.userId !== req.user?.id) {
+    res.status(403).json({ error: "You don't have permission to access this halaqa" });
+    return null;
+  }
+
+  return halaqa;
+}
+
+/**
+ * Put a halaqa's generated checklist onto its owner's action plan
+ */
+function importHalaqaActions(halaqa: Halaqa, actionItems: HalaqaActionItem[]) {
+  return tryImportActionItems(actionPlan, halaqa.userId, { type: "halaqa", id: halaqa.id }, actionItems.map(item => ({
+    text: item.description,
+    sourceItemId: item.id,
+  })));
+}
 
 // Add a middleware to log all requests to this router
 router.use((req, res, next) => {
@@ -171,8 +237,42 @@ const updateHalaqaSchema = z.object({
   impact: z.string().min(10),
 });
 
-// PUT /api/halaqas/:id - Update a halaqa
-router.put("/:id", async (req, res) => {
+// Halaqa dates are stored as strings or dates; compare them by day
+function revisionFields(halaqa: Partial<Halaqa>): Record<string, unknown> {
+  return halaqa.date === undefined ? halaqa : { ...halaqa, date: new Date(halaqa.date) };
+}
+
+// Save changed fields with a revision recording who changed what
+async function applyHalaqaEdit(
+  halaqa: Halaqa,
+  values: Partial<Halaqa>,
+  userId: string,
+  restoredFrom?: number
+) {
+  const changes = diffFields(revisionFields(halaqa), revisionFields(values), HALAQA_EDITABLE_FIELDS);
+  if (changes.length === 0) {
+    return { halaqa, revision: null };
+  }
+
+  const updatedHalaqa = await storage.updateHalaqa(halaqa.id, {
+    ...halaqa,
+    ...values,
+    editedAt: new Date(),
+    updatedAt: new Date(),
+  });
+  const revision = await storage.createRevision({
+    entityType: "halaqa",
+    entityId: halaqa.id,
+    userId,
+    changes,
+    restoredFrom: restoredFrom ?? null,
+  });
+
+  return { halaqa: updatedHalaqa, revision: toRevisionView(revision) };
+}
+
+// PUT /api/halaqas/:id - Update a halaqa, recording the change as a revision
+router.put("/:id", authRequired, async (req: AuthenticatedRequest, res: Response) => {
   try {
     const id = req.params.id;
     
@@ -201,12 +301,12 @@ router.put("/:id", async (req, res) => {
       return res.status(404).json({ error: "Halaqa not found" });
     }
     
+    if (existingHalaqa.userId !== req.user?.id) {
+      return res.status(403).json({ error: "You don't have permission to access this halaqa" });
+    }
+    
     // Update the halaqa
-    const updatedHalaqa = await storage.updateHalaqa(halaqaId, {
-      ...existingHalaqa,
-      ...halaqaData,
-      updatedAt: new Date(),
-    });
+    const { halaqa: updatedHalaqa } = await applyHalaqaEdit(existingHalaqa, halaqaData, req.user.id);
     
     res.json(updatedHalaqa);
   } catch (error) {
@@ -215,6 +315,176 @@ router.put("/:id", async (req, res) => {
   }
 });
 
+// GET /api/halaqas/:id/revisions - Edit history of a halaqa, newest first
+router.get("/:id/revisions", authRequired, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const halaqaId = parseInt(req.params.id);
+    if (isNaN(halaqaId)) {
+      return res.status(400).json({ error: "Invalid halaqa ID format" });
+    }
+    
+    const halaqa = await storage.getHalaqa(halaqaId);
+    
+    if (!halaqa) {
+      return res.status(404).json({ error: "Halaqa not found" });
+    }
+    
+    if (halaqa.userId !== req.user?.id) {
+      return res.status(403).json({ error: "You don't have permission to access this halaqa" });
+    }
+    
+    const revisions = await storage.getRevisions("halaqa", halaqaId);
+    res.json({ revisions: revisions.map(toRevisionView) });
+  } catch (error) {
+    console.error("Error fetching halaqa revisions:", error);
+    res.status(500).json({ error: "Failed to fetch halaqa revisions" });
+  }
+});
+
+// POST /api/halaqas/:id/revisions/:revisionId/restore - Undo a revision
+router.post("/:id/revisions/:revisionId/restore", authRequired, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const halaqaId = parseInt(req.params.id);
+    if (isNaN(halaqaId)) {
+      return res.status(400).json({ error: "Invalid halaqa ID format" });
+    }
+    
+    const halaqa = await storage.getHalaqa(halaqaId);
+    
+    if (!halaqa) {
+      return res.status(404).json({ error: "Halaqa not found" });
+    }
+    
+    if (halaqa.userId !== req.user?.id) {
+      return res.status(403).json({ error: "You don't have permission to access this halaqa" });
+    }
+    
+    const revision = await storage.getRevision(parseInt(req.params.revisionId));
+    if (!revision || revision.entityType !== "halaqa" || revision.entityId !== halaqaId) {
+      return res.status(404).json({ error: "Revision not found" });
+    }
+    
+    // The restore is itself a revision, so it can be undone as well
+    const restored = await applyHalaqaEdit(halaqa, valuesBefore(revision) as Partial<Halaqa>, req.user.id, revision.id);
+    res.json(restored);
+  } catch (error) {
+    console.error("Error restoring halaqa revision:", error);
+    res.status(500).json({ error: "Failed to restore halaqa revision" });
+  }
+});
+
+// POST /api/halaqas/:id/recording - Attach a finished chunked upload
+// (see /api/uploads) as the recording of the lecture, replacing any earlier
+// one, and queue it for transcription. Poll GET /api/transcriptions/:jobId
+// for progress; the transcript is saved on the halaqa.
+router.post("/:id/recording", authRequired, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const halaqa = await findOwnedHalaqa(req, res);
+    if (!halaqa) return;
+
+    const result = attachRecordingSchema.safeParse(req.body);
+    if (!result.success) {
+      return res.status(400).json({
+        error: "Invalid recording",
+        details: result.error.format()
+      });
+    }
+
+    const upload = await lectures.getAudioUpload(result.data.uploadId);
+    if (!upload || upload.userId !== req.user!.id) {
+      return res.status(404).json({ error: "Upload not found" });
+    }
+    if (!upload.audioKey) {
+      return res.status(409).json({ error: "The upload hasn't finished" });
+    }
+
+    // Before anything changes, so a halaqa isn't left waiting on a queue that isn't running
+    const queue = getTranscriptionQueue();
+    const previousKey = halaqa.lectureAudioKey;
+    const updated = await lectures.updateHalaqaLecture(halaqa.id, {
+      lectureAudioKey: upload.audioKey,
+      lectureAudioType: upload.mimetype,
+      lectureAudioSize: upload.size,
+      lectureTranscript: null,
+      lectureTranscriptSegments: null,
+      lectureTranscriptionStatus: "pending",
+    });
+    await getChunkedUploads().take(upload);
+    if (previousKey !== upload.audioKey) {
+      await releaseAudio(lectures, getAudioStore(), previousKey);
+    }
+
+    const job = await queue.enqueue({ userId: req.user!.id, halaqaId: halaqa.id });
+    return res.status(202).json({
+      halaqa: updated,
+      transcriptionJob: await transcriptionJobView(lectures, job)
+    });
+  } catch (error) {
+    if (error instanceof TranscriptionUnavailableError) {
+      return res.status(503).json({
+        error: "Transcription service unavailable",
+        details: error.message
+      });
+    }
+    logger.error("Error attaching halaqa recording:", error);
+    return res.status(500).json({ error: "Failed to attach recording" });
+  }
+});
+
+// GET /api/halaqas/:id/transcript - The lecture's transcript with the time
+// of each sentence. format: json (default), srt, vtt, tsv or txt; anything
+// but json is sent as a download.
+router.get("/:id/transcript", authRequired, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const halaqa = await findOwnedHalaqa(req, res);
+    if (!halaqa) return;
+
+    const result = transcriptQuerySchema.safeParse(req.query);
+    if (!result.success) {
+      return res.status(400).json({
+        error: "Invalid transcript format",
+        details: result.error.format()
+      });
+    }
+
+    const { format } = result.data;
+    if (!halaqa.lectureTranscript) {
+      return res.status(404).json({ error: "This halaqa has no lecture transcript" });
+    }
+
+    const transcript = { text: halaqa.lectureTranscript, segments: halaqa.lectureTranscriptSegments ?? [] };
+    if (format === "json") {
+      return res.json(transcript);
+    }
+
+    const { body, contentType, extension } = renderTranscript(transcript, format);
+    res.setHeader("Content-Type", contentType);
+    res.setHeader("Content-Disposition", `attachment; filename="sahabai-halaqa-${halaqa.id}.${extension}"`);
+    return res.send(body);
+  } catch (error) {
+    logger.error("Error exporting halaqa transcript:", error);
+    return res.status(500).json({ error: "Failed to export transcript" });
+  }
+});
+
+// GET /api/halaqas/:id/recording/url - A short-lived link to the lecture
+// recording that needs no Authorization header, for <audio> elements
+router.get("/:id/recording/url", authRequired, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const halaqa = await findOwnedHalaqa(req, res);
+    if (!halaqa) return;
+
+    if (!halaqa.lectureAudioKey) {
+      return res.status(404).json({ error: "This halaqa has no recording" });
+    }
+
+    return res.json(signPlaybackUrl(halaqa.lectureAudioKey, halaqa.lectureAudioType || "audio/webm"));
+  } catch (error) {
+    logger.error("Error signing halaqa recording link:", error);
+    return res.status(500).json({ error: "Failed to sign recording link" });
+  }
+});
+
 // DELETE /api/halaqas/:id - Archive a halaqa
 router.delete("/:id", async (req, res) => {
   try {
@@ -248,7 +518,7 @@ router.delete("/:id", async (req, res) => {
 });
 
 // POST /api/halaqas/:id/actions - Generate action items
-router.post("/:id/actions", authRequired, async (req: AuthenticatedRequest, res: Response) => {
+router.post("/:id/actions", authRequired, meterFeature("halaqa.actions"), async (req: AuthenticatedRequest, res: Response) => {
   try {
     const id = req.params.id;
     
@@ -275,10 +545,13 @@ router.post("/:id/actions", authRequired, async (req: AuthenticatedRequest, res:
     }));
     
     const updatedHalaqa = await storage.updateHalaqaActionItems(halaqaId, actionItemsWithIds);
+    await importHalaqaActions(halaqa, actionItemsWithIds);
     res.json(updatedHalaqa);
   } catch (error) {
+    if (handleRejectedLLMCall(error, res)) return;
     console.error("Error generating action items:", error);
-    res.status(500).json({ error: "Failed to generate action items" });
+    // LLM errors carry their own status (503 unavailable, 502 invalid output)
+    res.status(error instanceof AppError ? error.statusCode : 500).json({ error: "Failed to generate action items" });
   }
 });
 
@@ -329,6 +602,13 @@ router.put("/:id/actions/:actionId", async (req, res) => {
     );
     
     const updatedHalaqa = await storage.updateHalaqaActionItems(halaqaId, updatedActionItems);
+
+    // Complete or reopen the item on the action plan too
+    const updatedItem = updatedActionItems.find(item => item.id === actionId);
+    if (updatedItem) {
+      await syncFromHalaqaChecklist(actionPlan, halaqa.userId, halaqaId, updatedItem);
+    }
+
     res.json(updatedHalaqa);
   } catch (error) {
     console.error("Error updating action item:", error);
@@ -376,7 +656,7 @@ const applicationSuggestionsSchema = z.object({
   emotionsSection: z.string().min(10),
 });
 
-router.post("/suggestions", async (req, res) => {
+router.post("/suggestions", meterFeature("halaqa.suggestions"), async (req, res) => {
   try {
     // Validate request body
     const result = applicationSuggestionsSchema.safeParse(req.body);
@@ -399,13 +679,14 @@ router.post("/suggestions", async (req, res) => {
     
     res.json({ suggestions });
   } catch (error) {
+    if (handleRejectedLLMCall(error, res)) return;
     console.error("Error generating application suggestions:", error);
     res.status(500).json({ error: "Failed to generate application suggestions" });
   }
 });
 
 // POST route for analyzing a halaqa entry (action items + wird suggestions)
-router.post("/:id/analyze", authRequired, async (req: AuthenticatedRequest, res: Response) => {
+router.post("/:id/analyze", authRequired, meterFeature("halaqa.analyze"), async (req: AuthenticatedRequest, res: Response) => {
   try {
     const userId = req.user?.id;
     const halaqaId = parseInt(req.params.id);
@@ -446,7 +727,9 @@ router.post("/:id/analyze", authRequired, async (req: AuthenticatedRequest, res:
       return res.status(200).json({
         message: 'Halaqa already analyzed',
         actionItems: halaqa.actionItems,
-        wirdSuggestions: halaqa.wirdSuggestions
+        wirdSuggestions: halaqa.wirdSuggestions,
+        fallback: { actionItems: false, wirdSuggestions: false },
+        prompts: halaqa.analysisPrompts || []
       });
     }
     
@@ -455,7 +738,11 @@ router.post("/:id/analyze", authRequired, async (req: AuthenticatedRequest, res:
     let actionItemsWithIds: HalaqaActionItem[] = [];
     let wirdSuggestions: any[] = [];
     let wirdSuggestionsSucceeded = false;
+    // Which parts had to use canned suggestions; those are returned but not saved
+    const fallback = { actionItems: false, wirdSuggestions: false };
     let updatedHalaqa: Halaqa | null = null;
+    // Prompt templates used by this analysis, stored with the results
+    let analysisPrompts: PromptRef[] = halaqa.analysisPrompts || [];
     
     try {
       // Generate action items if needed
@@ -464,11 +751,18 @@ router.post("/:id/analyze", authRequired, async (req: AuthenticatedRequest, res:
         
         try {
           // Generate action items using AI
-          actionItems = await generateHalaqaActions(
-            halaqa.keyReflection || "",
-            halaqa.impact || "",
-            personalizationContext
-          );
+          const traced = await tracePrompts(() => withFallback(
+            () => generateHalaqaActions(
+              halaqa.keyReflection || "",
+              halaqa.impact || "",
+              personalizationContext
+            ),
+            getFallbackHalaqaActions,
+            "generating halaqa action items"
+          ));
+          actionItems = traced.result.result;
+          fallback.actionItems = traced.result.fallback;
+          analysisPrompts = mergePromptRefs(analysisPrompts, traced.prompts);
           
           // Add IDs to action items
           actionItemsWithIds = actionItems.map(item => ({
@@ -479,6 +773,7 @@ router.post("/:id/analyze", authRequired, async (req: AuthenticatedRequest, res:
           
           logger.info(`[halaqaRoutes] Generated ${actionItemsWithIds.length} action items for halaqa ${halaqaId}`);
         } catch (actionItemsError) {
+          if (actionItemsError instanceof LLMCallRejectedError) throw actionItemsError;
           logger.error(`[halaqaRoutes] Error generating action items:`, actionItemsError);
           // Continue with analysis even if action items fail
         }
@@ -502,12 +797,20 @@ router.post("/:id/analyze", authRequired, async (req: AuthenticatedRequest, res:
           };
           
           // Generate wird suggestions using AI
-          wirdSuggestions = await generateHalaqaWirdSuggestions(halaqaContent, personalizationContext);
+          const traced = await tracePrompts(() => withFallback(
+            () => generateHalaqaWirdSuggestions(halaqaContent, personalizationContext),
+            generateFallbackWirdSuggestions,
+            "generating halaqa wird suggestions"
+          ));
+          wirdSuggestions = traced.result.result;
+          fallback.wirdSuggestions = traced.result.fallback;
+          analysisPrompts = mergePromptRefs(analysisPrompts, traced.prompts);
           
-          wirdSuggestionsSucceeded = true;
+          wirdSuggestionsSucceeded = !fallback.wirdSuggestions;
           
           logger.info(`[halaqaRoutes] Generated ${wirdSuggestions.length} wird suggestions for halaqa ${halaqaId}`);
         } catch (wirdError) {
+          if (wirdError instanceof LLMCallRejectedError) throw wirdError;
           logger.error(`[halaqaRoutes] Error generating wird suggestions:`, wirdError);
           // Continue with analysis even if wird suggestions fail
         }
@@ -519,22 +822,33 @@ router.post("/:id/analyze", authRequired, async (req: AuthenticatedRequest, res:
       
       // Update the halaqa with the generated content
       try {
-        // Only update if we have new content
-        if (actionItemsWithIds.length > 0 || wirdSuggestions.length > 0) {
+        // Only update if we have new content; fallbacks are left unsaved so a
+        // later analysis can replace them with real suggestions
+        const saveActionItems = actionItemsWithIds.length > 0 && !fallback.actionItems;
+        const saveWirdSuggestions = wirdSuggestions.length > 0 && !fallback.wirdSuggestions;
+        
+        if (saveActionItems || saveWirdSuggestions) {
           logger.info(`[halaqaRoutes] Updating halaqa ${halaqaId} with analysis results`);
           
           const updateData: Partial<Halaqa> = {};
           
-          if (actionItemsWithIds.length > 0) {
+          if (saveActionItems) {
             updateData.actionItems = actionItemsWithIds;
           }
           
-          if (wirdSuggestions.length > 0) {
+          if (saveWirdSuggestions) {
             updateData.wirdSuggestions = wirdSuggestions;
           }
           
+          if (analysisPrompts.length > 0) {
+            updateData.analysisPrompts = analysisPrompts;
+          }
+          
           // Update the halaqa
           updatedHalaqa = await storage.updateHalaqa(halaqaId, updateData);
+          if (saveActionItems) {
+            await importHalaqaActions(halaqa, actionItemsWithIds);
+          }
           
           logger.info(`[halaqaRoutes] Successfully updated halaqa ${halaqaId} with analysis results`);
         }
@@ -543,6 +857,8 @@ router.post("/:id/analyze", authRequired, async (req: AuthenticatedRequest, res:
         // Continue and return the generated data even if update fails
       }
     } catch (analysisError) {
+      // The AI provider is down; fail fast rather than returning an empty analysis
+      if (analysisError instanceof LLMCallRejectedError) throw analysisError;
       logger.error(`[halaqaRoutes] Error during halaqa analysis:`, analysisError);
       // Continue and return any partial results
     }
@@ -555,8 +871,11 @@ router.post("/:id/analyze", authRequired, async (req: AuthenticatedRequest, res:
       actionItems: updatedHalaqa?.actionItems || actionItemsWithIds,
       wirdSuggestions: wirdSuggestions || null,
       wirdSuggestionsSucceeded,
+      fallback,
+      prompts: analysisPrompts,
     });
   } catch (error) {
+    if (handleRejectedLLMCall(error, res)) return;
     logger.error('[halaqaRoutes] Error analyzing halaqa:', error);
     return res.status(500).json({ error: 'An error occurred while analyzing the halaqa' });
   }
@@ -568,7 +887,7 @@ const AnalyzeHalaqaSchema = z.object({
 });
 
 // POST /api/halaqas/analyze - Generate wird suggestions for a halaqa
-router.post("/analyze", authRequired, async (req: AuthenticatedRequest, res: Response) => {
+router.post("/analyze", authRequired, meterFeature("halaqa.analyze"), async (req: AuthenticatedRequest, res: Response) => {
   try {
     const { halaqaId } = AnalyzeHalaqaSchema.parse(req.body);
     
@@ -601,34 +920,52 @@ router.post("/analyze", authRequired, async (req: AuthenticatedRequest, res: Res
       Topic: ${halaqaContent.topic.substring(0, 50)}...
       Key Reflection Length: ${halaqaContent.keyReflection.length} chars
       Impact Length: ${halaqaContent.impact.length} chars
+      Lecture Transcript Length: ${halaqa.lectureTranscript?.length ?? 0} chars
     `);
     
-    // Generate wird suggestions using AI
-    const wirdSuggestions = await generateHalaqaWirdSuggestions(halaqaContent);
-    
-    if (!wirdSuggestions || wirdSuggestions.length === 0) {
-      return res.status(500).json({ error: "Failed to generate wird suggestions" });
-    }
+    // Generate wird suggestions and personalized insights using AI
+    const { result: { result: wirdSuggestions, fallback }, prompts: wirdPrompts } = await tracePrompts(
+      () => withFallback(
+        () => generateHalaqaWirdSuggestions(halaqaContent),
+        generateFallbackWirdSuggestions,
+        "generating halaqa wird suggestions"
+      )
+    );
     
-    // Generate personalized insights
-    const personalizedInsights = await generateHalaqaInsights(halaqaContent);
+    const { result: personalizedInsights, prompts: insightPrompts } = await tracePrompts(
+      () => generateHalaqaInsights({ ...halaqaContent, lectureTranscript: halaqa.lectureTranscript })
+    );
+    const prompts = mergePromptRefs(halaqa.analysisPrompts || [], wirdPrompts, insightPrompts);
     
-    // Save the wird suggestions
-    await storage.saveHalaqaWirdSuggestions(halaqaId, wirdSuggestions);
+    // Save the wird suggestions (unless they are the canned fallback) and
+    // record which prompts produced them
+    if (!fallback) {
+      await storage.saveHalaqaWirdSuggestions(halaqaId, wirdSuggestions);
+    }
+    if (prompts.length > 0) {
+      await storage.updateHalaqa(halaqaId, { analysisPrompts: prompts });
+    }
     
-    // Return both wird suggestions and personalized insights
+    // Return both wird suggestions and personalized insights, flagging any
+    // Quran or hadith citations in the insights that can't be verified
     return res.json({ 
       wirdSuggestions,
-      personalizedInsights
+      personalizedInsights: personalizedInsights.map(insight => {
+        const citations = checkCitations(insight.content);
+        return citations.length > 0 ? { ...insight, citations } : insight;
+      }),
+      fallback,
+      prompts
     });
   } catch (error) {
+    if (handleRejectedLLMCall(error, res)) return;
     logger.error("Error analyzing halaqa entry:", error);
     return res.status(400).json({ error: "Invalid request" });
   }
 });
 
 // POST /api/halaqas/:id/application-suggestions - Generate application suggestions
-router.post("/:id/application-suggestions", authRequired, async (req: AuthenticatedRequest, res: Response) => {
+router.post("/:id/application-suggestions", authRequired, meterFeature("halaqa.application-suggestions"), async (req: AuthenticatedRequest, res: Response) => {
   try {
     const id = req.params.id;
     
@@ -661,6 +998,7 @@ router.post("/:id/application-suggestions", authRequired, async (req: Authentica
     
     res.json({ suggestions });
   } catch (error) {
+    if (handleRejectedLLMCall(error, res)) return;
     console.error("Error generating application suggestions:", error);
     res.status(500).json({ error: "Failed to generate application suggestions" });
   }
@@ -674,7 +1012,7 @@ router.post("/:id/wird-suggestions", (req, res, next) => {
   console.log(`🟢 [HALAQA ROUTES] Base URL:`, req.baseUrl);
   console.log(`🟢 [HALAQA ROUTES] Path:`, req.path);
   authRequired(req, res, next);
-}, async (req: AuthenticatedRequest, res: Response) => {
+}, meterFeature("halaqa.wird-suggestions"), async (req: AuthenticatedRequest, res: Response) => {
   console.log(`🟢 [HALAQA ROUTES] Inside wird-suggestions handler after auth`);
   try {
     const id = req.params.id;
@@ -702,16 +1040,21 @@ router.post("/:id/wird-suggestions", (req, res, next) => {
     
     // Generate wird suggestions based on the halaqa content
     console.log(`🟢 [HALAQA ROUTES] Generating wird suggestions for halaqa: ${halaqa.title}`);
-    const suggestions = await generateHalaqaWirdSuggestions({
-      title: halaqa.title,
-      topic: halaqa.topic,
-      keyReflection: halaqa.keyReflection,
-      impact: halaqa.impact
-    });
+    const { result: suggestions, fallback } = await withFallback(
+      () => generateHalaqaWirdSuggestions({
+        title: halaqa.title,
+        topic: halaqa.topic,
+        keyReflection: halaqa.keyReflection,
+        impact: halaqa.impact
+      }),
+      generateFallbackWirdSuggestions,
+      "generating halaqa wird suggestions"
+    );
     
-    console.log(`🟢 [HALAQA ROUTES] Successfully generated ${suggestions.length} wird suggestions`);
-    res.json({ suggestions });
+    console.log(`🟢 [HALAQA ROUTES] ${fallback ? 'Using fallback' : 'Successfully generated'} ${suggestions.length} wird suggestions`);
+    res.json({ suggestions, fallback });
   } catch (error) {
+    if (handleRejectedLLMCall(error, res)) return;
     console.error("🟢 [HALAQA ROUTES] Error generating wird suggestions:", error);
     res.status(500).json({ error: "Failed to generate wird suggestions" });
   }
@@ -5,6 +5,7 @@ import express from 'express';
 import { log } from '../vite';
 import * as db from '../db';
 import pg from 'pg';
+import { getCircuitSnapshots, getLLMProvider } from '../lib/llm';
 
 const router = express.Router();
 
@@ -78,4 +79,22 @@ router.get('/health', async (req, res) => {
   }
 });
 
+/**
+ * AI provider health: which provider is active and the state of its circuit
+ * breaker. "degraded" means AI features are currently failing fast with 503.
+ */
+router.get('/health/llm', (req, res) => {
+  const provider = getLLMProvider();
+  const circuits = getCircuitSnapshots();
+  const open = circuits.filter(circuit => circuit.state === 'open');
+
+  return res.status(200).json({
+    status: open.length > 0 ? 'degraded' : 'ok',
+    provider: provider.name,
+    configured: provider.isConfigured(),
+    circuits,
+    timestamp: new Date().toISOString()
+  });
+});
+
 export default router; 
\ No newline at end of file
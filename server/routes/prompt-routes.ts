@@ -0,0 +1,116 @@
+import express from 'express';
+import { z } from 'zod';
+import type { Request } from 'express';
+import { promptCategories, promptSeasons } from '@shared/schema';
+import { authRequired } from '../auth';
+import { createStorage } from '../storage';
+import {
+  filterPrompts,
+  findPrompt,
+  getPromptLibrary,
+  promptOfTheDay,
+  RECENT_PROMPT_DAYS,
+} from '../lib/guided-prompts';
+
+// Define a type for authenticated requests
+interface AuthenticatedRequest extends Request {
+  user?: {
+    id: string;
+    email: string;
+    name: string;
+  };
+}
+
+const router = express.Router();
+const storage = createStorage();
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const libraryQuerySchema = z.object({
+  category: z.enum(promptCategories).optional(),
+  season: z.enum(promptSeasons).optional(),
+});
+
+const todayQuerySchema = z.object({
+  // The user's local date, so the prompt changes at their midnight rather than UTC's
+  date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional(),
+});
+
+/**
+ * GET /api/prompts - The guided prompt library
+ *
+ * Query: category, season (only that season's prompts)
+ */
+router.get('/', async (req, res) => {
+  try {
+    const result = libraryQuerySchema.safeParse(req.query);
+    if (!result.success) {
+      return res.status(400).json({
+        error: "Invalid prompt filters",
+        details: result.error.format()
+      });
+    }
+
+    const library = getPromptLibrary();
+    return res.json({
+      version: library.version,
+      prompts: filterPrompts(library.prompts, result.data),
+    });
+  } catch (error) {
+    console.error('Error loading guided prompts:', error);
+    return res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+/**
+ * GET /api/prompts/today - The signed-in user's prompt of the day, skipping
+ * prompts they answered in the last 30 days
+ *
+ * Query: date (YYYY-MM-DD, defaults to today in UTC)
+ */
+router.get('/today', authRequired, async (req: AuthenticatedRequest, res) => {
+  try {
+    const userId = req.user?.id;
+
+    if (!userId) {
+      return res.status(401).json({ error: "Not authenticated" });
+    }
+
+    const result = todayQuerySchema.safeParse(req.query);
+    if (!result.success) {
+      return res.status(400).json({
+        error: "Invalid date",
+        details: result.error.format()
+      });
+    }
+
+    const day = new Date(`${result.data.date ?? new Date().toISOString().slice(0, 10)}T00:00:00Z`);
+    if (isNaN(day.getTime())) {
+      return res.status(400).json({ error: "Invalid date" });
+    }
+
+    const recent = await storage.getAnsweredPromptIds(userId, new Date(day.getTime() - RECENT_PROMPT_DAYS * DAY_MS), day);
+    return res.json(promptOfTheDay(getPromptLibrary(), userId, day, recent));
+  } catch (error) {
+    console.error('Error choosing prompt of the day:', error);
+    return res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+/**
+ * GET /api/prompts/:id - A single prompt, e.g. the one a conversation answered
+ */
+router.get('/:id', async (req, res) => {
+  try {
+    const prompt = findPrompt(req.params.id);
+    if (!prompt) {
+      return res.status(404).json({ error: "Prompt not found" });
+    }
+    return res.json(prompt);
+  } catch (error) {
+    console.error('Error loading guided prompt:', error);
+    return res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+export default router;
@@ -1,6 +1,20 @@
 import express from 'express';
+import { z } from 'zod';
 import { authRequired } from '../auth';
-import type { Request } from 'express';
+import { createStorage } from '../storage';
+import { generateFollowUpQuestions, getFallbackFollowUp, withFallback } from '../lib/anthropic';
+import { checkCitations } from '../lib/citations';
+import { tracePrompts } from '../lib/prompts';
+import { diffFields, REFLECTION_EDITABLE_FIELDS, toRevisionView, valuesBefore } from '../lib/revisions';
+import { getAudioStore, releaseAudio, sendAudio, signPlaybackUrl } from '../lib/audio-store';
+import { renderTranscript } from '../lib/transcription';
+import { handleRejectedLLMCall } from '../middleware/error-handler';
+import { meterFeature } from '../middleware/usage-scope';
+import type { Request, Response } from 'express';
+import { moodCheckInSchema, transcriptFormats } from '@shared/schema';
+import type { Reflection } from '@shared/schema';
+import { appendMessage, withMessageIds } from '@shared/message-tree';
+import { normalizeTag } from '@shared/topics';
 
 // Define a type for authenticated requests
 interface AuthenticatedRequest extends Request {
@@ -12,48 +26,478 @@ interface AuthenticatedRequest extends Request {
 }
 
 const router = express.Router();
+const storage = createStorage();
 
-// Get all reflections
+const DEFAULT_PAGE_SIZE = 20;
+const MAX_PAGE_SIZE = 100;
+
+// Query strings arrive as text; "true"/"false" for hasActionItems. Tags are
+// matched in their normalized form, so "Daily Life" finds "daily-life".
+const listQuerySchema = z.object({
+  limit: z.coerce.number().int().min(1).max(MAX_PAGE_SIZE).default(DEFAULT_PAGE_SIZE),
+  offset: z.coerce.number().int().min(0).default(0),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  type: z.enum(["audio", "text"]).optional(),
+  hasActionItems: z.enum(["true", "false"]).transform(value => value === "true").optional(),
+  tag: z.string().transform(normalizeTag).pipe(z.string().min(1)).optional(),
+});
+
+const editReflectionSchema = z.object({
+  content: z.string().trim().min(1).optional(),
+  transcription: z.string().trim().min(1).optional(),
+  // Replace the first reply's follow-up questions with ones for the edited text
+  regenerateFollowUp: z.boolean().default(false),
+  personalizationContext: z.any().optional(),
+});
+
+type ReflectionEdit = Partial<Pick<Reflection, "content" | "transcription">>;
+
+const transcriptQuerySchema = z.object({
+  format: z.enum(transcriptFormats).default("json"),
+});
+
+/**
+ * The reflection with the given id param if the signed-in user owns it;
+ * otherwise sends the error response and returns null
+ */
+async function findOwnedReflection(req: AuthenticatedRequest, res: Response): Promise<Reflection | null> {
+  const reflectionId = parseInt(req.params.id);
+  if (isNaN(reflectionId)) {
+    res.status(400).json({ error: "Invalid reflection ID format" });
+    return null;
+  }
+
+  const reflection = await storage.getReflection(reflectionId);
+  if (!reflection) {
+    res.status(404).json({ error: "Reflection not found" });
+    return null;
+  }
+
+  if (reflection.userId !== req.user?.id) {
+    res.status(403).json({ error: "You don't have permission to access this reflection" });
+    return null;
+  }
+
+  return reflection;
+}
+
+/**
+ * Refuse to edit a recording that is still being transcribed: the transcript
+ * would be written over the edit without a revision. Sends the 409 and
+ * returns true if so.
+ */
+function rejectWhileTranscribing(reflection: Reflection, res: Response): boolean {
+  if (reflection.transcriptionStatus !== "pending") return false;
+  res.status(409).json({ error: "This recording is still being transcribed. Try again once it has finished." });
+  return true;
+}
+
+/**
+ * The text a reflection's conversation starts from
+ */
+function reflectionText(reflection: Reflection): string {
+  return reflection.type === "audio" ? reflection.transcription ?? "" : reflection.content;
+}
+
+/**
+ * Save an edit with its revision and keep the first message of the
+ * reflection's conversation in step with the edited text. Returns a null
+ * revision when nothing actually changed.
+ */
+async function applyReflectionEdit(reflection: Reflection, edit: ReflectionEdit, userId: string, restoredFrom?: number) {
+  const changes = diffFields(reflection, edit, REFLECTION_EDITABLE_FIELDS);
+  if (changes.length === 0) {
+    return { reflection, revision: null };
+  }
+
+  const updated = await storage.updateReflection(reflection.id, { ...edit, editedAt: new Date() });
+  const revision = await storage.createRevision({
+    entityType: "reflection",
+    entityId: reflection.id,
+    userId,
+    changes,
+    restoredFrom: restoredFrom ?? null,
+  });
+
+  const conversation = await storage.getConversationByReflectionId(reflection.id);
+  if (conversation?.messages[0]?.role === "user") {
+    const messages = [{ ...conversation.messages[0], content: reflectionText(updated) }, ...conversation.messages.slice(1)];
+    await storage.updateConversation(conversation.id, messages);
+  }
+
+  return { reflection: updated, revision: toRevisionView(revision) };
+}
+
+/**
+ * Reply to the reflection again with follow-up questions for its current
+ * text. The new reply starts a branch of its own and is selected; the earlier
+ * reply and everything after it stay as an alternative branch.
+ */
+async function regenerateFollowUp(reflection: Reflection, personalizationContext?: any) {
+  const conversation = await storage.getConversationByReflectionId(reflection.id);
+  if (!conversation) return null;
+
+  const { result: { result: { understanding, questions }, fallback }, prompts } = await tracePrompts(() => withFallback(
+    () => generateFollowUpQuestions(reflectionText(reflection), undefined, personalizationContext),
+    getFallbackFollowUp,
+    "regenerating questions for an edited reflection"
+  ));
+
+  const citations = checkCitations([understanding, ...questions].join("\n"));
+  const messages = withMessageIds(conversation.messages);
+  const reply = appendMessage(messages, {
+    role: "assistant",
+    content: JSON.stringify({ understanding, questions }),
+    prompts,
+    ...(fallback && { fallback }),
+    ...(citations.length > 0 && { citations })
+  }, messages[0]?.id ?? null);
+
+  const updated = await storage.updateConversationBranch(conversation.id, messages, reply.id!);
+  return { conversation: updated, understanding, questions, fallback, citations };
+}
+
+/**
+ * GET /api/reflections - The signed-in user's reflections, newest first
+ *
+ * Query: limit (1-100, default 20), offset, from / to (dates, inclusive),
+ * type (audio | text), hasActionItems (true | false), tag (one of the
+ * conversation's topic tags). A `to` given as a bare date covers that whole
+ * day.
+ */
 router.get('/', authRequired, async (req: AuthenticatedRequest, res) => {
   try {
     const userId = req.user?.id;
-    
+
     if (!userId) {
       return res.status(401).json({ error: "Not authenticated" });
     }
-    
-    // This is a stub - in a real implementation, you would fetch reflections from your storage
-    return res.json({ 
-      success: true,
-      message: "Get reflections endpoint",
-      reflections: [] 
-    });
+
+    const result = listQuerySchema.safeParse(req.query);
+    if (!result.success) {
+      return res.status(400).json({
+        error: "Invalid reflection filters",
+        details: result.error.format()
+      });
+    }
+
+    const { to, ...options } = result.data;
+    const endOfDay = to && /^\d{4}-\d{2}-\d{2}$/.test(String(req.query.to))
+      ? new Date(to.getTime() + 24 * 60 * 60 * 1000 - 1)
+      : to;
+
+    const page = await storage.listReflections(userId, { ...options, to: endOfDay });
+    return res.json(page);
   } catch (error) {
     console.error('Error fetching reflections:', error);
     return res.status(500).json({ error: "Internal server error" });
   }
 });
 
-// Get a single reflection
+/**
+ * GET /api/reflections/tags - The tags on the signed-in user's conversations
+ * with how many conversations have each, most used first
+ */
+router.get('/tags', authRequired, async (req: AuthenticatedRequest, res) => {
+  try {
+    const userId = req.user?.id;
+
+    if (!userId) {
+      return res.status(401).json({ error: "Not authenticated" });
+    }
+
+    const tags = await storage.getConversationTags(userId);
+    return res.json({ tags });
+  } catch (error) {
+    console.error('Error fetching reflection tags:', error);
+    return res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+/**
+ * GET /api/reflections/:id - One of the signed-in user's reflections with
+ * the conversation it started
+ */
 router.get('/:id', authRequired, async (req: AuthenticatedRequest, res) => {
   try {
     const userId = req.user?.id;
-    const reflectionId = req.params.id;
-    
+
     if (!userId) {
       return res.status(401).json({ error: "Not authenticated" });
     }
-    
-    // This is a stub - in a real implementation, you would fetch the reflection from your storage
-    return res.json({ 
-      success: true,
-      message: `Get reflection ${reflectionId} endpoint`,
-      reflection: null
-    });
+
+    const reflectionId = parseInt(req.params.id);
+    if (isNaN(reflectionId)) {
+      return res.status(400).json({ error: "Invalid reflection ID format" });
+    }
+
+    const reflection = await storage.getReflection(reflectionId);
+    if (!reflection) {
+      return res.status(404).json({ error: "Reflection not found" });
+    }
+
+    if (reflection.userId !== userId) {
+      return res.status(403).json({ error: "You don't have permission to access this reflection" });
+    }
+
+    const conversation = await storage.getConversationByReflectionId(reflectionId);
+    return res.json({ reflection, conversation: conversation ?? null });
   } catch (error) {
     console.error('Error fetching reflection:', error);
     return res.status(500).json({ error: "Internal server error" });
   }
 });
 
-export default router; 
\ No newline at end of file
+/**
+ * PATCH /api/reflections/:id - Correct a reflection's text, recording a
+ * revision. Written reflections edit `content`, audio ones `transcription`,
+ * once it has been transcribed. With regenerateFollowUp the first reply's
+ * questions are generated again for the new text.
+ */
+router.patch('/:id', authRequired, meterFeature("reflection.edit"), async (req: AuthenticatedRequest, res) => {
+  try {
+    const reflection = await findOwnedReflection(req, res);
+    if (!reflection) return;
+    if (rejectWhileTranscribing(reflection, res)) return;
+
+    const result = editReflectionSchema.safeParse(req.body);
+    if (!result.success) {
+      return res.status(400).json({
+        error: "Invalid reflection edit",
+        details: result.error.format()
+      });
+    }
+
+    const { content, transcription, regenerateFollowUp: regenerate, personalizationContext } = result.data;
+    const field = reflection.type === "audio" ? "transcription" : "content";
+    const value = reflection.type === "audio" ? transcription : content;
+    if (value === undefined || (reflection.type === "audio" ? content : transcription) !== undefined) {
+      return res.status(400).json({
+        error: reflection.type === "audio"
+          ? "Audio reflections can only have their transcription edited"
+          : "Written reflections can only have their content edited"
+      });
+    }
+
+    const edited = await applyReflectionEdit(reflection, { [field]: value }, req.user!.id);
+    const followUp = regenerate ? await regenerateFollowUp(edited.reflection, personalizationContext) : null;
+    const conversation = followUp?.conversation ?? await storage.getConversationByReflectionId(reflection.id);
+
+    return res.json({
+      ...edited,
+      conversation: conversation ?? null,
+      ...(followUp && {
+        understanding: followUp.understanding,
+        questions: followUp.questions,
+        fallback: followUp.fallback,
+        citations: followUp.citations,
+      }),
+    });
+  } catch (error) {
+    if (handleRejectedLLMCall(error, res)) return;
+    console.error('Error editing reflection:', error);
+    return res.status(500).json({ error: "Failed to edit reflection" });
+  }
+});
+
+/**
+ * DELETE /api/reflections/:id - Delete a reflection with its conversation,
+ * revisions and recording
+ */
+router.delete('/:id', authRequired, async (req: AuthenticatedRequest, res) => {
+  try {
+    const reflection = await findOwnedReflection(req, res);
+    if (!reflection) return;
+
+    await storage.deleteReflection(reflection.id);
+    await releaseAudio(storage, getAudioStore(), reflection.audioKey);
+    return res.json({ success: true });
+  } catch (error) {
+    console.error('Error deleting reflection:', error);
+    return res.status(500).json({ error: "Failed to delete reflection" });
+  }
+});
+
+/**
+ * PUT /api/reflections/:id/mood - Check in (or change) how the user felt
+ * about a reflection. Body: { mood, intensity } with intensity 1-10.
+ */
+router.put('/:id/mood', authRequired, async (req: AuthenticatedRequest, res) => {
+  try {
+    const reflection = await findOwnedReflection(req, res);
+    if (!reflection) return;
+
+    const result = moodCheckInSchema.safeParse(req.body);
+    if (!result.success) {
+      return res.status(400).json({
+        error: "Invalid mood check-in",
+        details: result.error.format()
+      });
+    }
+
+    const updated = await storage.setReflectionMood(reflection.id, result.data.mood, result.data.intensity);
+    return res.json({ reflection: updated });
+  } catch (error) {
+    console.error('Error saving mood check-in:', error);
+    return res.status(500).json({ error: "Failed to save mood" });
+  }
+});
+
+/**
+ * DELETE /api/reflections/:id/mood - Remove a reflection's mood check-in
+ */
+router.delete('/:id/mood', authRequired, async (req: AuthenticatedRequest, res) => {
+  try {
+    const reflection = await findOwnedReflection(req, res);
+    if (!reflection) return;
+
+    const updated = await storage.setReflectionMood(reflection.id, null, null);
+    return res.json({ reflection: updated });
+  } catch (error) {
+    console.error('Error removing mood check-in:', error);
+    return res.status(500).json({ error: "Failed to remove mood" });
+  }
+});
+
+/**
+ * GET /api/reflections/:id/transcript - A voice reflection's transcript with
+ * the time of each sentence. format: json (default), srt, vtt, tsv or txt;
+ * anything but json is sent as a download. Subtitle formats need timings,
+ * which reflections transcribed before they were kept don't have.
+ */
+router.get('/:id/transcript', authRequired, async (req: AuthenticatedRequest, res) => {
+  try {
+    const reflection = await findOwnedReflection(req, res);
+    if (!reflection) return;
+
+    const result = transcriptQuerySchema.safeParse(req.query);
+    if (!result.success) {
+      return res.status(400).json({
+        error: "Invalid transcript format",
+        details: result.error.format()
+      });
+    }
+
+    const { format } = result.data;
+    if (reflection.type !== "audio" || reflection.transcription === null) {
+      return res.status(404).json({ error: "This reflection has no transcript" });
+    }
+
+    const segments = reflection.transcriptSegments ?? [];
+    if (segments.length === 0 && ["srt", "vtt", "tsv"].includes(format)) {
+      return res.status(404).json({ error: "This reflection's transcript has no timings" });
+    }
+
+    if (format === "json") {
+      return res.json({ text: reflection.transcription, segments });
+    }
+
+    // Once corrected, the text no longer matches what the engine heard, so
+    // plain text is the corrected transcription rather than its segments
+    const { body, contentType, extension } = renderTranscript({
+      text: reflection.transcription,
+      segments: format === "txt" && reflection.editedAt ? [] : segments,
+    }, format);
+    res.setHeader('Content-Type', contentType);
+    res.setHeader('Content-Disposition', `attachment; filename="sahabai-reflection-${reflection.id}.${extension}"`);
+    return res.send(body);
+  } catch (error) {
+    console.error('Error exporting reflection transcript:', error);
+    return res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+/**
+ * GET /api/reflections/:id/audio - The recording of a voice reflection,
+ * honouring Range requests so players can seek
+ */
+router.get('/:id/audio', authRequired, async (req: AuthenticatedRequest, res) => {
+  try {
+    const reflection = await findOwnedReflection(req, res);
+    if (!reflection) return;
+
+    if (reflection.type !== "audio" || !reflection.audioKey) {
+      return res.status(404).json({ error: "This reflection has no recording" });
+    }
+
+    const store = getAudioStore();
+    const size = reflection.audioSize ?? await store.size(reflection.audioKey);
+    if (size === null) {
+      return res.status(404).json({ error: "This reflection's recording is no longer available" });
+    }
+
+    await sendAudio(req, res, store, {
+      key: reflection.audioKey,
+      type: reflection.audioType || "audio/webm",
+      size,
+    });
+  } catch (error) {
+    console.error('Error fetching reflection audio:', error);
+    if (!res.headersSent) res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+/**
+ * GET /api/reflections/:id/audio/url - A short-lived link to the recording
+ * that needs no Authorization header, for <audio> elements
+ */
+router.get('/:id/audio/url', authRequired, async (req: AuthenticatedRequest, res) => {
+  try {
+    const reflection = await findOwnedReflection(req, res);
+    if (!reflection) return;
+
+    if (reflection.type !== "audio" || !reflection.audioKey) {
+      return res.status(404).json({ error: "This reflection has no recording" });
+    }
+
+    return res.json(signPlaybackUrl(reflection.audioKey, reflection.audioType || "audio/webm"));
+  } catch (error) {
+    console.error('Error signing reflection audio link:', error);
+    return res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+/**
+ * GET /api/reflections/:id/revisions - Every edit to a reflection, newest
+ * first, with word diffs
+ */
+router.get('/:id/revisions', authRequired, async (req: AuthenticatedRequest, res) => {
+  try {
+    const reflection = await findOwnedReflection(req, res);
+    if (!reflection) return;
+
+    const revisions = await storage.getRevisions("reflection", reflection.id);
+    return res.json({ revisions: revisions.map(toRevisionView) });
+  } catch (error) {
+    console.error('Error fetching reflection revisions:', error);
+    return res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+/**
+ * POST /api/reflections/:id/revisions/:revisionId/restore - Put the text
+ * back the way it was before that revision. The restore is itself recorded
+ * as a revision, so it can be undone too.
+ */
+router.post('/:id/revisions/:revisionId/restore', authRequired, async (req: AuthenticatedRequest, res) => {
+  try {
+    const reflection = await findOwnedReflection(req, res);
+    if (!reflection) return;
+    if (rejectWhileTranscribing(reflection, res)) return;
+
+    const revision = await storage.getRevision(parseInt(req.params.revisionId));
+    if (!revision || revision.entityType !== "reflection" || revision.entityId !== reflection.id) {
+      return res.status(404).json({ error: "Revision not found" });
+    }
+
+    const edited = await applyReflectionEdit(reflection, valuesBefore(revision) as ReflectionEdit, req.user!.id, revision.id);
+    const conversation = await storage.getConversationByReflectionId(reflection.id);
+    return res.json({ ...edited, conversation: conversation ?? null });
+  } catch (error) {
+    console.error('Error restoring reflection revision:', error);
+    return res.status(500).json({ error: "Failed to restore revision" });
+  }
+});
+
+export default router;
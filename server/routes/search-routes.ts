@@ -0,0 +1,75 @@
+import express from 'express';
+import { z } from 'zod';
+import type { Request } from 'express';
+import { searchSources } from '@shared/schema';
+import { authRequired } from '../auth';
+import { createStorage } from '../storage';
+
+// Define a type for authenticated requests
+interface AuthenticatedRequest extends Request {
+  user?: {
+    id: string;
+    email: string;
+    name: string;
+  };
+}
+
+const router = express.Router();
+const storage = createStorage();
+
+const DEFAULT_PAGE_SIZE = 20;
+const MAX_PAGE_SIZE = 50;
+const MAX_QUERY_LENGTH = 200;
+
+const searchQuerySchema = z.object({
+  q: z.string().trim().min(1).max(MAX_QUERY_LENGTH),
+  // Comma-separated, e.g. "reflection,halaqa"
+  sources: z.string()
+    .transform(value => value.split(',').map(source => source.trim()).filter(Boolean))
+    .pipe(z.array(z.enum(searchSources)).min(1))
+    .optional(),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  limit: z.coerce.number().int().min(1).max(MAX_PAGE_SIZE).default(DEFAULT_PAGE_SIZE),
+  offset: z.coerce.number().int().min(0).default(0),
+});
+
+/**
+ * GET /api/search?q=... - Full-text search over the signed-in user's
+ * reflections, conversations, halaqa notes and wird notes, best match first
+ *
+ * q supports "quoted phrases" and -excluded words. Filters: sources
+ * (comma-separated reflection, conversation, halaqa, wird), from / to
+ * (dates, inclusive; a bare `to` date covers that whole day), limit (1-50,
+ * default 20) and offset.
+ */
+router.get('/', authRequired, async (req: AuthenticatedRequest, res) => {
+  try {
+    const userId = req.user?.id;
+
+    if (!userId) {
+      return res.status(401).json({ error: "Not authenticated" });
+    }
+
+    const result = searchQuerySchema.safeParse(req.query);
+    if (!result.success) {
+      return res.status(400).json({
+        error: "Invalid search",
+        details: result.error.format()
+      });
+    }
+
+    const { q, to, ...options } = result.data;
+    const endOfDay = to && /^\d{4}-\d{2}-\d{2}$/.test(String(req.query.to))
+      ? new Date(to.getTime() + 24 * 60 * 60 * 1000 - 1)
+      : to;
+
+    const results = await storage.search(userId, q, { ...options, to: endOfDay });
+    return res.json(results);
+  } catch (error) {
+    console.error('Error searching:', error);
+    return res.status(500).json({ error: "Search failed" });
+  }
+});
+
+export default router;
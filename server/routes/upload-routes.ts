@@ -0,0 +1,147 @@
+/**
+ * Resumable chunked uploads, for recordings too long for a single request.
+ * Start an upload with its size, PUT its bytes a chunk at a time, and after
+ * a dropped connection GET it to find where to carry on from. A finished
+ * upload is attached to whatever it was for, e.g. with
+ * POST /api/halaqas/:id/recording.
+ */
+import express from 'express';
+import { z } from 'zod';
+import { authRequired } from '../auth';
+import { createStorage } from '../storage';
+import { getChunkedUploads, UploadOffsetError } from '../lib/audio-store';
+import { AppError } from '../utils/errors';
+import type { Request, Response } from 'express';
+import type { AudioUpload } from '@shared/schema';
+import { insertAudioUploadSchema } from '@shared/schema';
+
+interface AuthenticatedRequest extends Request {
+  user?: {
+    id: string;
+  };
+}
+
+const router = express.Router();
+const storage = createStorage();
+
+const startUploadSchema = insertAudioUploadSchema.omit({ userId: true });
+
+// "bytes 0-8388607/73400320", or "bytes */73400320" for an empty chunk that
+// finishes a complete upload
+const CONTENT_RANGE_PATTERN = /^bytes (?:(\d+)-(\d+)|\*)\/(\d+)$/;
+
+/**
+ * The upload with the given id param if the signed-in user owns it;
+ * otherwise sends the error response and returns null
+ */
+async function findOwnedUpload(req: AuthenticatedRequest, res: Response): Promise<AudioUpload | null> {
+  const upload = z.string().uuid().safeParse(req.params.id).success
+    ? await storage.getAudioUpload(req.params.id)
+    : undefined;
+  if (!upload) {
+    res.status(404).json({ error: "Upload not found" });
+    return null;
+  }
+
+  if (upload.userId !== req.user?.id) {
+    res.status(403).json({ error: "You don't have permission to access this upload" });
+    return null;
+  }
+
+  return upload;
+}
+
+/**
+ * POST /api/uploads - Start an upload of { size, mimetype }
+ */
+router.post('/', authRequired, async (req: AuthenticatedRequest, res) => {
+  try {
+    const result = startUploadSchema.safeParse(req.body);
+    if (!result.success) {
+      return res.status(400).json({
+        error: "Invalid upload",
+        details: result.error.format()
+      });
+    }
+
+    const uploads = getChunkedUploads();
+    const upload = await uploads.create(req.user!.id, result.data);
+    return res.status(201).json({ upload: uploads.view(upload) });
+  } catch (error) {
+    if (error instanceof AppError) {
+      return res.status(error.statusCode).json({ error: error.message });
+    }
+    console.error('Error starting upload:', error);
+    return res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+/**
+ * GET /api/uploads/:id - How much of an upload has arrived
+ */
+router.get('/:id', authRequired, async (req: AuthenticatedRequest, res) => {
+  try {
+    const upload = await findOwnedUpload(req, res);
+    if (!upload) return;
+
+    return res.json({ upload: getChunkedUploads().view(upload) });
+  } catch (error) {
+    console.error('Error fetching upload:', error);
+    return res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+/**
+ * PUT /api/uploads/:id - The next chunk as the raw request body, placed by
+ * its Content-Range. A chunk that doesn't start where the upload left off
+ * gets 409 with the upload, to resume from its received count; one that
+ * isn't as long as its range says gets 400 and is discarded.
+ */
+router.put('/:id', authRequired, async (req: AuthenticatedRequest, res) => {
+  try {
+    const upload = await findOwnedUpload(req, res);
+    if (!upload) return;
+
+    const range = CONTENT_RANGE_PATTERN.exec(req.header('Content-Range') ?? '');
+    const start = range?.[1] === undefined ? upload.size : parseInt(range[1], 10);
+    const length = range?.[2] === undefined ? 0 : parseInt(range[2], 10) - start + 1;
+    if (!range || parseInt(range[3], 10) !== upload.size || (range[1] !== undefined && length < 1)) {
+      return res.status(400).json({ error: `Expected a Content-Range of bytes start-end/${upload.size}` });
+    }
+
+    const uploads = getChunkedUploads();
+    const updated = await uploads.append(upload, start, length, req);
+    return res.json({ upload: uploads.view(updated) });
+  } catch (error) {
+    if (error instanceof UploadOffsetError) {
+      const upload = await storage.getAudioUpload(req.params.id);
+      return res.status(409).json({
+        error: error.message,
+        upload: upload && getChunkedUploads().view(upload)
+      });
+    }
+    if (error instanceof AppError) {
+      return res.status(error.statusCode).json({ error: error.message });
+    }
+    console.error('Error receiving upload chunk:', error);
+    return res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+/**
+ * DELETE /api/uploads/:id - Abandon an upload
+ */
+router.delete('/:id', authRequired, async (req: AuthenticatedRequest, res) => {
+  try {
+    const upload = await findOwnedUpload(req, res);
+    if (!upload) return;
+
+    await getChunkedUploads().cancel(upload);
+    return res.status(204).send();
+  } catch (error) {
+    console.error('Error cancelling upload:', error);
+    return res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+export default router;
@@ -0,0 +1,59 @@
+import express from 'express';
+import type { Request } from 'express';
+import { authRequired } from '../auth';
+import { createStorage } from '../storage';
+import { getQuotaStatus, quotaHeaders, startOfUtcDay, summarizeUsage } from '../lib/llm';
+
+// Define a type for authenticated requests
+interface AuthenticatedRequest extends Request {
+  user?: {
+    id: string;
+    email: string;
+    name: string;
+  };
+}
+
+const router = express.Router();
+const storage = createStorage();
+
+const DEFAULT_DAYS = 30;
+const MAX_DAYS = 90;
+const HISTORY_LIMIT = 50;
+
+/**
+ * GET /api/usage?days=30 - The signed-in user's AI usage: remaining quota,
+ * totals per feature and per day over the last `days` days, and their most
+ * recent calls
+ */
+router.get('/', authRequired, async (req: AuthenticatedRequest, res) => {
+  try {
+    const userId = req.user?.id;
+
+    if (!userId) {
+      return res.status(401).json({ error: "Not authenticated" });
+    }
+
+    const requestedDays = parseInt(String(req.query.days ?? DEFAULT_DAYS), 10);
+    const days = Number.isNaN(requestedDays) ? DEFAULT_DAYS : Math.min(Math.max(requestedDays, 1), MAX_DAYS);
+    const now = new Date();
+    const since = new Date(startOfUtcDay(now).getTime() - (days - 1) * 24 * 60 * 60 * 1000);
+
+    const [quota, records] = await Promise.all([
+      getQuotaStatus(userId, storage, now),
+      storage.getLlmUsage(userId, { since }),
+    ]);
+
+    res.set(quotaHeaders(quota));
+    return res.json({
+      quota,
+      days,
+      ...summarizeUsage(records, since, now),
+      history: records.slice(0, HISTORY_LIMIT),
+    });
+  } catch (error) {
+    console.error('Error fetching usage:', error);
+    return res.status(500).json({ error: "Failed to fetch usage" });
+  }
+});
+
+export default router;
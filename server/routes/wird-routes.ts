@@ -1,7 +1,9 @@
 import express from "express";
 import * as storageModule from "../storage";
 import { WirdEntry, WirdPractice, InsertWird, WirdSuggestion } from "@shared/schema";
-import { generateWirdRecommendations, generateHalaqaWirdSuggestions } from "../lib/anthropic";
+import { generateWirdRecommendations, generateHalaqaWirdSuggestions, generateWirdSummary } from "../lib/anthropic";
+import { generateText } from "../lib/llm";
+import { buildSystemPrompt } from "../lib/prompts";
 import { z } from "zod";
 import { v4 } from "uuid";
 import { createLogger } from "../lib/logger";
@@ -9,6 +11,9 @@ import { addErrorHandler, createExpressEndpoints } from "trpc-openapi";
 import { v4 as uuidv4 } from "uuid";
 import { AddWirdSchema, WirdPracticeSchema, UpdatePracticesSchema } from "../../shared/schema";
 import { authRequired } from "../auth";
+import { handleRejectedLLMCall } from "../middleware/error-handler";
+import { meterFeature } from "../middleware/usage-scope";
+import { practiceFromSuggestion } from "../lib/wird-practices";
 
 // Define a type for authenticated requests
 interface AuthenticatedRequest extends express.Request {
@@ -337,7 +342,7 @@ router.patch("/:id/practices/:practiceId", async (req, res) => {
 });
 
 // POST /api/wirds/recommendations - Get personalized recommendations
-router.post("/recommendations", async (req, res) => {
+router.post("/recommendations", meterFeature("wird.recommendations"), async (req, res) => {
   try {
     const { userId, history, preferences } = req.body;
     
@@ -350,6 +355,7 @@ router.post("/recommendations", async (req, res) => {
     
     res.json({ recommendations });
   } catch (error) {
+    if (handleRejectedLLMCall(error, res)) return;
     console.error("Error generating wird recommendations:", error);
     res.status(500).json({ error: "Failed to generate recommendations" });
   }
@@ -408,16 +414,11 @@ router.post("/add-suggestion", async (req, res) => {
         date: targetDate.toISOString()
       });
       
-      // Make simple wird practice from suggestion
-      const simplePractice = {
-        name: wirdSuggestion.title || wirdSuggestion.name || "Spiritual Practice",
-        category: wirdSuggestion.type || wirdSuggestion.category || "General",
-        id: wirdSuggestion.id || v4(), // Use existing ID or create new one
-        target: wirdSuggestion.target || 1,
-        completed: 0,
-        unit: wirdSuggestion.unit || "times",
-        isCompleted: false
-      };
+      // The practice records the reflection or halaqa it was suggested by
+      const simplePractice = practiceFromSuggestion(
+        wirdSuggestion,
+        sourceType && sourceId ? { sourceType, sourceId } : undefined
+      );
       
       // Format the date string for lookup
       const dateStr = targetDate.toISOString().split('T')[0];
@@ -443,14 +444,6 @@ router.post("/add-suggestion", async (req, res) => {
           updatedPractices
         );
         
-        // If source information is provided, update the wird with it
-        if (sourceType && sourceId) {
-          await storage.updateWird(wirdForDate.id, {
-            sourceType,
-            sourceId
-          });
-        }
-        
         console.log(`Added practice to existing wird ${wirdForDate.id}`);
       } else {
         // Create a new wird with this practice
@@ -459,8 +452,6 @@ router.post("/add-suggestion", async (req, res) => {
           date: targetDate,
           practices: [simplePractice],
           notes: "",
-          sourceType,
-          sourceId,
         });
         
         console.log(`Created new wird with ID ${result.id}`);
@@ -605,7 +596,7 @@ router.put("/:id/clear-framework", async (req, res) => {
 });
 
 // POST /api/wirds/generate-clear-summary - Generate summary using Anthropic
-router.post("/generate-clear-summary", async (req, res) => {
+router.post("/generate-clear-summary", meterFeature("wird.generate-clear-summary"), async (req, res) => {
   try {
     const { choices } = req.body;
     
@@ -643,6 +634,7 @@ router.post("/generate-clear-summary", async (req, res) => {
     
     res.json({ summary });
   } catch (error) {
+    if (handleRejectedLLMCall(error, res)) return;
     console.error("Error generating CLEAR summary:", error);
     res.status(500).json({ error: "Failed to generate summary" });
   }
@@ -699,7 +691,7 @@ router.post("/generate-suggestions", (req, res, next) => {
   console.log("🔴 [WIRD ROUTES] Request body:", JSON.stringify(req.body));
   console.log("🔴 [WIRD ROUTES] Calling authRequired middleware...");
   authRequired(req, res, next);
-}, async (req: AuthenticatedRequest, res) => {
+}, meterFeature("wird.generate-suggestions"), async (req: AuthenticatedRequest, res) => {
   console.log("🔴 [WIRD ROUTES] Inside POST /generate-suggestions handler after authRequired");
   console.log("[WIRD ROUTES] Received request to /api/wirds/generate-suggestions");
   console.log("[WIRD ROUTES] Request path:", req.path);
@@ -781,39 +773,28 @@ Provide your output as a JSON array of wird suggestion objects with these fields
 Response format must be valid JSON only, no markdown or additional text.
 `;
       
-      const response = await fetch("https://api.anthropic.com/v1/messages", {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-          "x-api-key": process.env.ANTHROPIC_API_KEY || "",
-          "anthropic-version": "2023-06-01"
-        },
-        body: JSON.stringify({
-          model: "claude-3-opus-20240229",
-          max_tokens: 2000,
-          temperature: 0.7,
-          system: "You are an insightful Islamic spiritual guide helping Muslims develop personalized spiritual practices.",
-          messages: [
-            {
-              role: "user",
-              content: customPrompt
-            }
-          ]
-        })
+      const completion = await generateText({
+        feature: "wird.suggestions",
+        model: "claude-3-opus-20240229",
+        maxTokens: 2000,
+        temperature: 0.7,
+        system: buildSystemPrompt({
+          instructions: "In this request you are helping the user develop personalized spiritual practices (wird) that build on their reflection."
+        }),
+        messages: [
+          {
+            role: "user",
+            content: customPrompt
+          }
+        ]
       });
 
-      if (!response.ok) {
-        console.error(`[WIRD ROUTES] Claude API error: ${response.status} - ${response.statusText}`);
-        throw new Error(`Failed to generate wird suggestions: ${response.statusText}`);
-      }
-
-      const data = await response.json();
       let wirdSuggestions = [];
 
       // Parse the response
       try {
         // Extract JSON array from response
-        const content = data.content[0]?.text || "";
+        const content = completion.text;
         console.log("[WIRD ROUTES] Claude response received, length:", content.length);
         const jsonMatch = content.match(/\[[\s\S]*\]/);
         
@@ -850,6 +831,7 @@ Response format must be valid JSON only, no markdown or additional text.
       console.log("[WIRD ROUTES] Returning wird suggestions to client");
       return res.json({ wirdSuggestions });
     } catch (error) {
+      if (handleRejectedLLMCall(error, res)) return;
       console.error("[WIRD ROUTES] Error generating wird suggestions:", error);
       console.error("[WIRD ROUTES] Error details:", JSON.stringify(error, null, 2));
       
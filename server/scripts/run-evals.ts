@@ -0,0 +1,73 @@
+/**
+ * Offline generator evals
+ *
+ * Usage:
+ *   npm run eval -- [options]
+ *
+ * Options:
+ *   --record                 Fetch replies that have no exact recording from the
+ *                            provider configured by LLM_PROVIDER and save them
+ *   --update-snapshots       Accept changed outputs as the new snapshots
+ *   --filter <text>          Only run fixtures whose id contains <text>
+ *   --fixtures <dir>         Fixtures directory [default: server/lib/eval/fixtures]
+ *   --report <file>          Write the JSON report to <file> and Markdown to <file>.md
+ *   --baseline <file>        Compare against a JSON report from an earlier run
+ *   --verbose                Keep the generators' console output
+ *
+ * To review a prompt change: run with --report on main, then on the branch run
+ * with --record --baseline <main report>. Exits non-zero when a fixture fails.
+ */
+import 'dotenv/config';
+import fs from 'fs';
+import { parseArgs } from 'util';
+import { compareReports, EvalReport, formatReport, runEvals } from '../lib/eval';
+
+async function main() {
+  const { values } = parseArgs({
+    options: {
+      record: { type: 'boolean', default: false },
+      'update-snapshots': { type: 'boolean', default: false },
+      filter: { type: 'string' },
+      fixtures: { type: 'string' },
+      report: { type: 'string' },
+      baseline: { type: 'string' },
+      verbose: { type: 'boolean', default: false },
+    },
+  });
+
+  const baseline = values.baseline
+    ? JSON.parse(fs.readFileSync(values.baseline, 'utf8')) as EvalReport
+    : undefined;
+
+  // The generators log every request and reply; keep the report readable
+  const { log, info, warn, error } = console;
+  if (!values.verbose) {
+    console.log = console.info = console.warn = console.error = () => {};
+  }
+
+  let report: EvalReport;
+  try {
+    report = await runEvals({
+      fixturesDir: values.fixtures,
+      filter: values.filter,
+      record: values.record || undefined,
+      updateSnapshots: values['update-snapshots'],
+    });
+  } finally {
+    Object.assign(console, { log, info, warn, error });
+  }
+
+  const markdown = formatReport(report, baseline && compareReports(baseline, report));
+  if (values.report) {
+    fs.writeFileSync(values.report, JSON.stringify(report, null, 2) + '\n');
+    fs.writeFileSync(`${values.report}.md`, markdown);
+  }
+  console.log(markdown);
+
+  process.exitCode = report.summary.failed > 0 ? 1 : 0;
+}
+
+main().catch(error => {
+  console.error('Eval run failed:', error);
+  process.exit(1);
+});
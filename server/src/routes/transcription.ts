@@ -1,66 +1,73 @@
-import { Router } from 'express';
-import multer from 'multer';
-import { TranscriptionService, TranscriptionError } from '../services/transcription';
-import { isAudioFormatSupported, isAwsServicesAvailable } from '../services/aws-config';
+import { Router, Request } from 'express';
+import { TranscriptionError, TranscriptionUnavailableError } from '../../lib/transcription';
+import { AudioTooLargeError, getAudioStore, receiveAudioUpload, releaseAudio } from '../../lib/audio-store';
+import { getTranscriptionQueue, transcriptionJobView } from '../../lib/transcription/queue';
+import { createStorage } from '../../storage';
+import { authRequired } from '../../auth';
+
+interface AuthenticatedRequest extends Request {
+  user?: {
+    id: string;
+  };
+}
+
+const storage = createStorage();
 
 const router = Router();
-const transcriptionService = new TranscriptionService();
 
-// Configure multer for memory storage
-const upload = multer({
-  storage: multer.memoryStorage(),
-  limits: {
-    fileSize: 50 * 1024 * 1024, // 50MB max file size
-  },
-  fileFilter: (req, file, cb) => {
-    // Extract file extension from mimetype
-    const fileType = file.mimetype.split('/')[1];
-    if (isAudioFormatSupported(fileType)) {
-      cb(null, true);
-    } else {
-      cb(new Error(`Unsupported file type: ${fileType}`));
+// Queue a recording for transcription; poll GET /api/transcriptions/:jobId
+// for the text
+router.post('/transcribe', authRequired, async (req, res) => {
+  const store = getAudioStore();
+  let key: string | undefined;
+  try {
+    const upload = await receiveAudioUpload(req, res, store, storage);
+    if (!upload) {
+      return res.status(400).json({ error: 'No audio file provided' });
     }
-  },
-});
 
-// Transcription endpoint
-router.post('/transcribe', upload.single('audio'), async (req, res) => {
-  try {
-    // First check if AWS services are available
-    if (!isAwsServicesAvailable()) {
-      return res.status(503).json({ 
+    key = upload.key;
+    const job = await getTranscriptionQueue().enqueue({
+      userId: (req as AuthenticatedRequest).user!.id,
+      audioKey: upload.key,
+      audioType: upload.mimetype,
+    });
+    key = undefined;
+
+    res.status(202).json({ job: await transcriptionJobView(storage, job) });
+  } catch (error) {
+    console.error('Transcription error:', error);
+
+    if (error instanceof TranscriptionUnavailableError) {
+      return res.status(503).json({
         error: 'Transcription service unavailable',
-        details: 'AWS transcription services are not configured. Please check server configuration.'
+        details: error.message
       });
     }
 
-    if (!req.file) {
-      return res.status(400).json({ error: 'No audio file provided' });
+    if (error instanceof AudioTooLargeError) {
+      return res.status(413).json({
+        error: 'Recording too large',
+        details: error.message
+      });
     }
 
-    const fileType = req.file.mimetype.split('/')[1];
-    const transcribedText = await transcriptionService.transcribeAudio(
-      req.file.buffer,
-      fileType
-    );
-
-    res.json({ text: transcribedText });
-  } catch (error) {
-    console.error('Transcription error:', error);
-    
     // Handle specific transcription errors
     if (error instanceof TranscriptionError) {
-      return res.status(422).json({ 
+      return res.status(422).json({
         error: 'Transcription failed',
         details: error.message
       });
     }
-    
-    res.status(500).json({ 
+
+    res.status(500).json({
       error: 'Failed to transcribe audio',
       details: error instanceof Error ? error.message : 'Unknown error'
     });
+  } finally {
+    // Not queued after all; nothing else needs this copy
+    if (key) await releaseAudio(storage, store, key);
   }
 });
 
-export default router; 
\ No newline at end of file
+export default router;
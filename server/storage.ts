@@ -1,6 +1,5 @@
 import { 
   Reflection, 
-  InsertReflection, 
   Conversation, 
   InsertConversation, 
   UserSettings,
@@ -17,12 +16,52 @@ import {
   WirdSuggestion,
   IdentityFramework,
   FrameworkComponent,
-  HabitTracking
+  HabitTracking,
+  LlmUsage,
+  InsertLlmUsage,
+  ConversationSummary,
+  ReflectionListFilters,
+  ReflectionListItem,
+  ReflectionPage,
+  SearchResults,
+  Revision,
+  InsertRevision,
+  RevisionChange,
+  RevisionEntityType,
+  WirdRow,
+  Mood,
+  MoodAnalytics,
+  MoodCheckIn,
+  JournalEntries,
+  ConversationLabels,
+  TagCount,
+  ActionItem,
+  ActionItemFilters,
+  InsertActionItem,
+  TranscriptionJob,
+  InsertTranscriptionJob,
+  NewReflection,
+  HalaqaLecture,
+  AudioUpload,
+  InsertAudioUpload
 } from "@shared/schema";
-import { db } from "./db";
-import { reflections, conversations, userSettings, halaqas, wirds } from "@shared/schema";
-import { eq, and, desc, gte, lte } from "drizzle-orm";
+import { db, type DbTransaction } from "./db";
+import { reflections, conversations, userSettings, halaqas, wirds, llmUsage, revisions, actionItems, transcriptionJobs, audioUploads } from "@shared/schema";
+import { eq, and, or, desc, gte, inArray, isNotNull, isNull, lt, lte, sql } from "drizzle-orm";
 import { v4 as uuidv4 } from "uuid";
+import {
+  conversationDocument,
+  emptySearchResults,
+  halaqaDocument,
+  reflectionDocument,
+  searchCountsQuery,
+  searchDocuments,
+  SearchOptions,
+  searchPageQuery,
+  searchResultsFromRows,
+  wirdDocument,
+} from "./lib/search";
+import { computeMoodAnalytics } from "./lib/mood";
 
 // For type safety with process.env
 declare global {
@@ -34,12 +73,77 @@ declare global {
   }
 }
 
+export type ReflectionListOptions = ReflectionListFilters & {
+  limit: number;
+  offset: number;
+};
+
+/**
+ * Inclusive; either end may be open
+ */
+export type JournalRange = {
+  from?: Date;
+  to?: Date;
+};
+
+// Halaqas and wirds are dated by day, so a range covers the days it touches (in UTC)
+function dayOf(date: string | Date): string {
+  return typeof date === "string" ? date.slice(0, 10) : date.toISOString().slice(0, 10);
+}
+
+const ABANDONED_JOB_ERROR = "Transcription stopped responding on its last attempt";
+
+/**
+ * A running job with no heartbeat since before staleBefore
+ */
+function isAbandonedJob(job: TranscriptionJob, staleBefore: Date): boolean {
+  return job.status === "running" && (job.heartbeatAt ?? job.startedAt ?? new Date()) < staleBefore;
+}
+
+// isAbandonedJob as a query condition
+function abandonedJob(staleBefore: Date) {
+  return and(
+    eq(transcriptionJobs.status, "running"),
+    lt(sql`coalesce(${transcriptionJobs.heartbeatAt}, ${transcriptionJobs.startedAt})`, staleBefore)
+  );
+}
+
+/**
+ * The wird routes read a wird's row fields (userId, isArchived) directly;
+ * WirdEntry is the shape the client builds from them
+ */
+function toWirdEntry(row: WirdRow): WirdEntry {
+  return row as unknown as WirdEntry;
+}
+
+function inJournalDays(date: string | Date, range: JournalRange): boolean {
+  const day = dayOf(date);
+  return (!range.from || day >= dayOf(range.from)) && (!range.to || day <= dayOf(range.to));
+}
+
 export interface IStorage {
-  createReflection(reflection: InsertReflection): Promise<Reflection>;
+  /** Voice reflections waiting for the transcription worker are created pending */
+  createReflection(reflection: NewReflection): Promise<Reflection>;
   getReflection(id: number): Promise<Reflection | undefined>;
+  updateReflection(id: number, data: Partial<Pick<Reflection, "content" | "transcription" | "editedAt" | "transcriptionEngine" | "transcriptionStatus" | "transcriptSegments">>): Promise<Reflection>;
+  /**
+   * Delete a reflection with its conversation, revisions and transcription
+   * jobs. Its recording is left in the audio store for the caller to release.
+   */
+  deleteReflection(id: number): Promise<void>;
+  /** A user's reflections, newest first */
+  listReflections(userId: string, options: ReflectionListOptions): Promise<ReflectionPage>;
   createConversation(conversation: InsertConversation): Promise<Conversation>;
   getConversation(id: number): Promise<Conversation | undefined>;
+  getConversationByReflectionId(reflectionId: number): Promise<Conversation | undefined>;
   updateConversation(id: number, messages: Message[], actionItems?: string[]): Promise<Conversation>;
+  updateConversationSummary(id: number, summary: ConversationSummary | null): Promise<Conversation>;
+  /** Save the message tree and which branch of it is selected */
+  updateConversationBranch(id: number, messages: Message[], activeMessageId: string): Promise<Conversation>;
+  updateConversationLabels(id: number, labels: ConversationLabels): Promise<Conversation>;
+  updateConversationWirdSuggestions(id: number, suggestions: WirdSuggestion[]): Promise<Conversation>;
+  /** Tags on the user's conversations, most used first */
+  getConversationTags(userId: string): Promise<TagCount[]>;
   getUserSettings(userId: string): Promise<UserSettings | undefined>;
   saveUserSettings(settings: InsertUserSettings): Promise<UserSettings>;
   updateUserSettings(userId: string, settings: Partial<InsertUserSettings>): Promise<UserSettings>;
@@ -49,6 +153,8 @@ export interface IStorage {
   getHalaqasByUserId(userId: string): Promise<Halaqa[]>;
   updateHalaqa(id: number, data: UpdateHalaqa): Promise<Halaqa | null>;
   updateHalaqaActionItems(id: number, actionItems: HalaqaActionItem[]): Promise<Halaqa | null>;
+  /** The lecture recording and its transcript, which the user never edits directly */
+  updateHalaqaLecture(id: number, lecture: Partial<HalaqaLecture>): Promise<Halaqa | null>;
   // WirdhAI methods
   getWirdsByUserId(userId: string): Promise<WirdEntry[]>;
   getWirdByDate(userId: string, date: string): Promise<WirdEntry | null>;
@@ -80,6 +186,61 @@ export interface IStorage {
   deleteHabitTracking(componentId: string): Promise<boolean>;
   createHabitTracking(habitTrackingValues: Partial<HabitTracking>[]): Promise<HabitTracking[]>;
   updateHabitTracking(habitId: string, currentStreak: number, longestStreak: number, lastCompleted: Date): Promise<HabitTracking>;
+  // LLM usage metering
+  recordLlmUsage(usage: InsertLlmUsage): Promise<LlmUsage>;
+  /** Input plus output tokens used by a user since the given time */
+  getLlmTokensUsed(userId: string, since: Date): Promise<number>;
+  /** A user's usage records, newest first */
+  getLlmUsage(userId: string, options?: { since?: Date; limit?: number }): Promise<LlmUsage[]>;
+  // Full-text search over the user's reflections, conversations, halaqas and wirds
+  search(userId: string, query: string, options: SearchOptions): Promise<SearchResults>;
+  // Revision history of edited reflections and halaqas
+  createRevision(revision: InsertRevision): Promise<Revision>;
+  getRevision(id: number): Promise<Revision | undefined>;
+  /** Newest first */
+  getRevisions(entityType: RevisionEntityType, entityId: number): Promise<Revision[]>;
+  // Mood check-ins saved with reflections
+  setReflectionMood(id: number, mood: Mood | null, intensity: number | null): Promise<Reflection>;
+  getMoodAnalytics(userId: string, from: Date, to: Date): Promise<MoodAnalytics>;
+  // Guided prompts the user started conversations from in [since, before)
+  getAnsweredPromptIds(userId: string, since: Date, before: Date): Promise<string[]>;
+  /** Everything the user wrote in the range, oldest first, for export */
+  getJournalEntries(userId: string, range: JournalRange): Promise<JournalEntries>;
+  // The personal action plan
+  /** Newest first */
+  listActionItems(userId: string, filters?: ActionItemFilters): Promise<ActionItem[]>;
+  getActionItem(id: number): Promise<ActionItem | undefined>;
+  createActionItems(items: InsertActionItem[]): Promise<ActionItem[]>;
+  updateActionItem(id: number, data: Partial<InsertActionItem>): Promise<ActionItem>;
+  deleteActionItems(ids: number[]): Promise<void>;
+  // Background transcription jobs
+  createTranscriptionJob(job: InsertTranscriptionJob): Promise<TranscriptionJob>;
+  getTranscriptionJob(id: number): Promise<TranscriptionJob | undefined>;
+  updateTranscriptionJob(id: number, data: Partial<Omit<TranscriptionJob, "id" | "createdAt">>): Promise<TranscriptionJob>;
+  /**
+   * Mark up to `limit` jobs as running, oldest first, and return them: queued
+   * jobs due to run, and jobs with attempts left that have had no heartbeat
+   * since before staleBefore, whose worker is presumed gone
+   */
+  claimTranscriptionJobs(limit: number, staleBefore: Date): Promise<TranscriptionJob[]>;
+  /**
+   * Mark jobs whose worker went away on their last attempt as failed, and
+   * return them
+   */
+  failAbandonedTranscriptionJobs(staleBefore: Date): Promise<TranscriptionJob[]>;
+  /** Queued jobs due to run before this one */
+  countTranscriptionJobsAhead(job: TranscriptionJob): Promise<number>;
+  /** Reflections, halaqa lectures, transcription jobs and finished uploads whose recording is this blob */
+  countAudioReferences(audioKey: string): Promise<number>;
+  // Chunked recording uploads
+  createAudioUpload(upload: InsertAudioUpload): Promise<AudioUpload>;
+  getAudioUpload(id: string): Promise<AudioUpload | undefined>;
+  /** Uploads the user has started and not yet sent every byte of */
+  countUnfinishedAudioUploads(userId: string): Promise<number>;
+  updateAudioUpload(id: string, data: Partial<Omit<AudioUpload, "id" | "userId" | "createdAt">>): Promise<AudioUpload>;
+  deleteAudioUpload(id: string): Promise<void>;
+  /** Uploads last touched before the given time, oldest first */
+  listStaleAudioUploads(before: Date): Promise<AudioUpload[]>;
 }
 
 // Create a singleton instance of MemStorage
@@ -100,14 +261,33 @@ export class MemStorage implements IStorage {
   private currentHalaqaId = 1;
   private currentWirdId = 1;
   private wirdSuggestions: Map<number, WirdSuggestion[]> = new Map();
-
-  async createReflection(reflection: InsertReflection): Promise<Reflection> {
+  private llmUsage: LlmUsage[] = [];
+  private currentLlmUsageId = 1;
+  private revisions: Revision[] = [];
+  private currentRevisionId = 1;
+  private actionItems: Map<number, ActionItem> = new Map();
+  private currentActionItemId = 1;
+  private transcriptionJobs: Map<number, TranscriptionJob> = new Map();
+  private currentTranscriptionJobId = 1;
+  private audioUploads: Map<string, AudioUpload> = new Map();
+
+  async createReflection(reflection: NewReflection): Promise<Reflection> {
     const id = this.currentReflectionId++;
     const newReflection: Reflection = {
       ...reflection,
       id,
+      userId: reflection.userId ?? null,
       timestamp: new Date(),
       transcription: reflection.transcription || null,
+      transcriptionEngine: reflection.transcriptionEngine ?? null,
+      audioKey: reflection.audioKey ?? null,
+      audioType: reflection.audioType ?? null,
+      audioSize: reflection.audioSize ?? null,
+      transcriptionStatus: reflection.transcriptionStatus ?? null,
+      transcriptSegments: null,
+      editedAt: null,
+      mood: reflection.mood ?? null,
+      moodIntensity: reflection.moodIntensity ?? null,
     };
     this.reflections.set(id, newReflection);
     return newReflection;
@@ -117,11 +297,80 @@ export class MemStorage implements IStorage {
     return this.reflections.get(id);
   }
 
+  async updateReflection(id: number, data: Partial<Pick<Reflection, "content" | "transcription" | "editedAt" | "transcriptionEngine" | "transcriptionStatus" | "transcriptSegments">>): Promise<Reflection> {
+    const reflection = await this.getReflection(id);
+    if (!reflection) {
+      throw new Error(`Reflection with id ${id} not found`);
+    }
+
+    const updatedReflection: Reflection = { ...reflection, ...data };
+    this.reflections.set(id, updatedReflection);
+    return updatedReflection;
+  }
+
+  async deleteReflection(id: number): Promise<void> {
+    Array.from(this.conversations.values())
+      .filter(conversation => conversation.reflectionId === id)
+      .forEach(conversation => this.conversations.delete(conversation.id));
+    this.revisions = this.revisions.filter(revision => !(revision.entityType === "reflection" && revision.entityId === id));
+    Array.from(this.transcriptionJobs.values())
+      .filter(job => job.reflectionId === id)
+      .forEach(job => this.transcriptionJobs.delete(job.id));
+    this.reflections.delete(id);
+  }
+
+  async listReflections(userId: string, options: ReflectionListOptions): Promise<ReflectionPage> {
+    const matching: ReflectionListItem[] = [];
+
+    for (const { audioKey, audioType, audioSize, transcriptSegments, ...reflection } of Array.from(this.reflections.values())) {
+      if (reflection.userId !== userId) continue;
+      if (options.type && reflection.type !== options.type) continue;
+      if (options.from && reflection.timestamp < options.from) continue;
+      if (options.to && reflection.timestamp > options.to) continue;
+
+      const conversation = await this.getConversationByReflectionId(reflection.id);
+      const actionItemCount = conversation?.actionItems?.length ?? 0;
+      if (options.hasActionItems !== undefined && options.hasActionItems !== actionItemCount > 0) continue;
+      if (options.tag && !conversation?.tags?.includes(options.tag)) continue;
+
+      matching.push({
+        ...reflection,
+        conversationId: conversation?.id ?? null,
+        messageCount: conversation?.messages.length ?? 0,
+        actionItemCount,
+        title: conversation?.title ?? null,
+        synopsis: conversation?.synopsis ?? null,
+        tags: conversation?.tags ?? [],
+      });
+    }
+
+    matching.sort((a, b) => b.timestamp.getTime() - a.timestamp.getTime() || b.id - a.id);
+    return {
+      reflections: matching.slice(options.offset, options.offset + options.limit),
+      total: matching.length,
+      limit: options.limit,
+      offset: options.offset,
+      hasMore: options.offset + options.limit < matching.length,
+    };
+  }
+
   async createConversation(conversation: InsertConversation): Promise<Conversation> {
     const id = this.currentConversationId++;
     const newConversation: Conversation = {
       ...conversation,
       id,
+      messages: conversation.messages as Message[],
+      reflectionId: conversation.reflectionId ?? null,
+      actionItems: conversation.actionItems ? [...conversation.actionItems] : null,
+      userId: conversation.userId ?? null,
+      promptId: conversation.promptId ?? null,
+      activeMessageId: null,
+      summary: null,
+      title: null,
+      synopsis: null,
+      tags: [],
+      labeling: null,
+      wirdSuggestions: null,
       timestamp: new Date(),
     };
     this.conversations.set(id, newConversation);
@@ -132,6 +381,10 @@ export class MemStorage implements IStorage {
     return this.conversations.get(id);
   }
 
+  async getConversationByReflectionId(reflectionId: number): Promise<Conversation | undefined> {
+    return Array.from(this.conversations.values()).find(c => c.reflectionId === reflectionId);
+  }
+
   async updateConversation(
     id: number,
     messages: Message[],
@@ -151,6 +404,60 @@ export class MemStorage implements IStorage {
     return updatedConversation;
   }
 
+  async updateConversationSummary(id: number, summary: ConversationSummary | null): Promise<Conversation> {
+    const conversation = await this.getConversation(id);
+    if (!conversation) {
+      throw new Error(`Conversation with id ${id} not found`);
+    }
+
+    const updatedConversation: Conversation = { ...conversation, summary };
+    this.conversations.set(id, updatedConversation);
+    return updatedConversation;
+  }
+  async updateConversationBranch(id: number, messages: Message[], activeMessageId: string): Promise<Conversation> {
+    const conversation = await this.getConversation(id);
+    if (!conversation) {
+      throw new Error(`Conversation with id ${id} not found`);
+    }
+
+    const updatedConversation: Conversation = { ...conversation, messages, activeMessageId };
+    this.conversations.set(id, updatedConversation);
+    return updatedConversation;
+  }
+
+  async updateConversationLabels(id: number, labels: ConversationLabels): Promise<Conversation> {
+    const conversation = await this.getConversation(id);
+    if (!conversation) {
+      throw new Error(`Conversation with id ${id} not found`);
+    }
+
+    const updatedConversation: Conversation = { ...conversation, ...labels };
+    this.conversations.set(id, updatedConversation);
+    return updatedConversation;
+  }
+
+  async updateConversationWirdSuggestions(id: number, suggestions: WirdSuggestion[]): Promise<Conversation> {
+    const conversation = await this.getConversation(id);
+    if (!conversation) {
+      throw new Error(`Conversation with id ${id} not found`);
+    }
+
+    const updatedConversation: Conversation = { ...conversation, wirdSuggestions: suggestions };
+    this.conversations.set(id, updatedConversation);
+    return updatedConversation;
+  }
+
+  async getConversationTags(userId: string): Promise<TagCount[]> {
+    const counts = new Map<string, number>();
+    for (const conversation of Array.from(this.conversations.values())) {
+      if (conversation.userId !== userId) continue;
+      for (const tag of conversation.tags ?? []) counts.set(tag, (counts.get(tag) ?? 0) + 1);
+    }
+    return Array.from(counts, ([tag, count]) => ({ tag, count }))
+      .sort((a, b) => b.count - a.count || a.tag.localeCompare(b.tag));
+  }
+
+
   async getUserSettings(userId: string): Promise<UserSettings | undefined> {
     for (const settings of this.userSettingsMap.values()) {
       if (settings.userId === userId) {
@@ -207,6 +514,7 @@ export class MemStorage implements IStorage {
     const newHalaqa: Halaqa = {
       ...halaqa,
       id,
+      speaker: halaqa.speaker ?? null,
       actionItems: [],
       createdAt: now,
       updatedAt: now,
@@ -253,6 +561,15 @@ export class MemStorage implements IStorage {
     return updatedHalaqa;
   }
 
+  async updateHalaqaLecture(id: number, lecture: Partial<HalaqaLecture>): Promise<Halaqa | null> {
+    const halaqa = this.halaqas.get(id);
+    if (!halaqa) return null;
+
+    const updatedHalaqa: Halaqa = { ...halaqa, ...lecture };
+    this.halaqas.set(id, updatedHalaqa);
+    return updatedHalaqa;
+  }
+
   // WirdhAI methods
   async getWirdsByUserId(userId: string): Promise<WirdEntry[]> {
     return Array.from(this.wirds.values())
@@ -284,15 +601,15 @@ export class MemStorage implements IStorage {
     updatedAt?: Date;
   }): Promise<WirdEntry> {
     const id = this.currentWirdId++;
-    const fullData = {
+    const wird = toWirdEntry({
       ...data,
       id,
       isArchived: data.isArchived || false,
       createdAt: data.createdAt || new Date(),
       updatedAt: data.updatedAt || new Date(),
-    };
-    this.wirds.set(id, fullData);
-    return fullData;
+    } as WirdRow);
+    this.wirds.set(id, wird);
+    return wird;
   }
 
   async updateWird(id: number, data: Partial<WirdEntry>): Promise<WirdEntry> {
@@ -652,11 +969,285 @@ export class MemStorage implements IStorage {
     this.habitTracking.set(habitId, updatedTracking);
     return updatedTracking;
   }
+
+  // LLM usage metering
+  async recordLlmUsage(usage: InsertLlmUsage): Promise<LlmUsage> {
+    const record: LlmUsage = {
+      ...usage,
+      userId: usage.userId ?? null,
+      id: this.currentLlmUsageId++,
+      createdAt: new Date(),
+    };
+    this.llmUsage.push(record);
+    return record;
+  }
+
+  async getLlmTokensUsed(userId: string, since: Date): Promise<number> {
+    return this.llmUsage
+      .filter(usage => usage.userId === userId && usage.createdAt >= since)
+      .reduce((total, usage) => total + usage.inputTokens + usage.outputTokens, 0);
+  }
+
+  async getLlmUsage(userId: string, options: { since?: Date; limit?: number } = {}): Promise<LlmUsage[]> {
+    const usage = this.llmUsage
+      .filter(record => record.userId === userId && (!options.since || record.createdAt >= options.since))
+      .reverse();
+    return options.limit ? usage.slice(0, options.limit) : usage;
+  }
+
+  async search(userId: string, query: string, options: SearchOptions): Promise<SearchResults> {
+    const documents = [
+      ...Array.from(this.reflections.values()).filter(r => r.userId === userId).map(reflectionDocument),
+      ...Array.from(this.conversations.values()).filter(c => c.userId === userId).map(conversationDocument),
+      ...(await this.getHalaqasByUserId(userId)).filter(h => !h.isArchived).map(halaqaDocument),
+      ...(await this.getWirdsByUserId(userId)).filter(w => w.notes).map(wirdDocument),
+    ];
+    return searchDocuments(documents, query, options);
+  }
+
+  async createRevision(revision: InsertRevision): Promise<Revision> {
+    const record: Revision = {
+      ...revision,
+      changes: revision.changes as RevisionChange[],
+      restoredFrom: revision.restoredFrom ?? null,
+      id: this.currentRevisionId++,
+      createdAt: new Date(),
+    };
+    this.revisions.push(record);
+    return record;
+  }
+
+  async getRevision(id: number): Promise<Revision | undefined> {
+    return this.revisions.find(revision => revision.id === id);
+  }
+
+  async getRevisions(entityType: RevisionEntityType, entityId: number): Promise<Revision[]> {
+    return this.revisions
+      .filter(revision => revision.entityType === entityType && revision.entityId === entityId)
+      .reverse();
+  }
+  async setReflectionMood(id: number, mood: Mood | null, intensity: number | null): Promise<Reflection> {
+    const reflection = this.reflections.get(id);
+    if (!reflection) throw new Error(`Reflection with ID ${id} not found`);
+
+    const updated: Reflection = { ...reflection, mood, moodIntensity: intensity };
+    this.reflections.set(id, updated);
+    return updated;
+  }
+
+  async getMoodAnalytics(userId: string, from: Date, to: Date): Promise<MoodAnalytics> {
+    const inRange = (date: Date) => date >= from && date <= to;
+    const checkIns: MoodCheckIn[] = Array.from(this.reflections.values())
+      .filter(r => r.userId === userId && r.mood && r.moodIntensity && inRange(r.timestamp))
+      .map(r => ({ reflectionId: r.id, mood: r.mood!, intensity: r.moodIntensity!, timestamp: r.timestamp }));
+    const wirds = (await this.getWirdsByUserId(userId)).filter(w => inRange(new Date(w.date)));
+    return computeMoodAnalytics(checkIns, wirds, from, to);
+  }
+
+  async getAnsweredPromptIds(userId: string, since: Date, before: Date): Promise<string[]> {
+    return Array.from(this.conversations.values())
+      .filter(c => c.userId === userId && c.promptId && c.timestamp >= since && c.timestamp < before)
+      .map(c => c.promptId!);
+  }
+
+  async getJournalEntries(userId: string, range: JournalRange): Promise<JournalEntries> {
+    const inRange = (date: Date) => (!range.from || date >= range.from) && (!range.to || date <= range.to);
+    const wirdRows = Array.from(this.wirds.values()) as unknown as WirdRow[];
+
+    return {
+      reflections: Array.from(this.reflections.values())
+        .filter(r => r.userId === userId && inRange(r.timestamp))
+        .map(({ audioKey, audioType, audioSize, ...reflection }) => reflection)
+        .sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime() || a.id - b.id),
+      conversations: Array.from(this.conversations.values())
+        .filter(c => c.userId === userId && inRange(c.timestamp))
+        .sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime() || a.id - b.id),
+      halaqas: Array.from(this.halaqas.values())
+        .filter(h => h.userId === userId && !h.isArchived && inJournalDays(h.date, range))
+        .sort((a, b) => dayOf(a.date).localeCompare(dayOf(b.date)) || a.id - b.id),
+      wirds: wirdRows
+        .filter(w => w.userId === userId && !w.isArchived && inJournalDays(w.date, range))
+        .sort((a, b) => dayOf(a.date).localeCompare(dayOf(b.date)) || a.id - b.id),
+    };
+  }
+
+  async listActionItems(userId: string, filters: ActionItemFilters = {}): Promise<ActionItem[]> {
+    return Array.from(this.actionItems.values())
+      .filter(item => item.userId === userId
+        && (!filters.status || item.status === filters.status)
+        && (!filters.sourceType || item.sourceType === filters.sourceType)
+        && (filters.sourceId === undefined || item.sourceId === filters.sourceId))
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime() || b.id - a.id);
+  }
+
+  async getActionItem(id: number): Promise<ActionItem | undefined> {
+    return this.actionItems.get(id);
+  }
+
+  async createActionItems(items: InsertActionItem[]): Promise<ActionItem[]> {
+    return items.map(item => {
+      const now = new Date();
+      const record: ActionItem = {
+        ...item,
+        id: this.currentActionItemId++,
+        context: item.context ?? null,
+        sourceId: item.sourceId ?? null,
+        sourceItemId: item.sourceItemId ?? null,
+        dueDate: item.dueDate ?? null,
+        priority: item.priority ?? "medium",
+        status: item.status ?? "open",
+        completedAt: item.completedAt ?? null,
+        editedAt: item.editedAt ?? null,
+        createdAt: now,
+        updatedAt: now,
+      };
+      this.actionItems.set(record.id, record);
+      return record;
+    });
+  }
+
+  async updateActionItem(id: number, data: Partial<InsertActionItem>): Promise<ActionItem> {
+    const item = this.actionItems.get(id);
+    if (!item) throw new Error(`Action item with ID ${id} not found`);
+
+    const updated: ActionItem = { ...item, ...data, updatedAt: new Date() };
+    this.actionItems.set(id, updated);
+    return updated;
+  }
+
+  async deleteActionItems(ids: number[]): Promise<void> {
+    ids.forEach(id => this.actionItems.delete(id));
+  }
+
+  async createTranscriptionJob(job: InsertTranscriptionJob): Promise<TranscriptionJob> {
+    const record: TranscriptionJob = {
+      ...job,
+      id: this.currentTranscriptionJobId++,
+      reflectionId: job.reflectionId ?? null,
+      halaqaId: job.halaqaId ?? null,
+      audioKey: job.audioKey ?? null,
+      audioType: job.audioType ?? null,
+      status: job.status ?? "queued",
+      attempts: job.attempts ?? 0,
+      runAfter: job.runAfter ?? new Date(),
+      error: job.error ?? null,
+      transcription: job.transcription ?? null,
+      segments: null,
+      engine: job.engine ?? null,
+      promptId: job.promptId ?? null,
+      personalizationContext: job.personalizationContext ?? null,
+      conversationId: job.conversationId ?? null,
+      createdAt: new Date(),
+      startedAt: job.startedAt ?? null,
+      finishedAt: job.finishedAt ?? null,
+      heartbeatAt: job.heartbeatAt ?? null,
+      chunkCount: job.chunkCount ?? null,
+      chunksDone: job.chunksDone ?? null,
+    };
+    this.transcriptionJobs.set(record.id, record);
+    return record;
+  }
+
+  async getTranscriptionJob(id: number): Promise<TranscriptionJob | undefined> {
+    return this.transcriptionJobs.get(id);
+  }
+
+  async updateTranscriptionJob(id: number, data: Partial<Omit<TranscriptionJob, "id" | "createdAt">>): Promise<TranscriptionJob> {
+    const job = this.transcriptionJobs.get(id);
+    if (!job) throw new Error(`Transcription job with ID ${id} not found`);
+
+    const updated: TranscriptionJob = { ...job, ...data };
+    this.transcriptionJobs.set(id, updated);
+    return updated;
+  }
+
+  async claimTranscriptionJobs(limit: number, staleBefore: Date): Promise<TranscriptionJob[]> {
+    const now = new Date();
+    const claimable = Array.from(this.transcriptionJobs.values())
+      .filter(job => (job.status === "queued" && job.runAfter <= now)
+        || (isAbandonedJob(job, staleBefore) && job.attempts < job.maxAttempts))
+      .sort((a, b) => a.id - b.id)
+      .slice(0, limit);
+
+    return claimable.map(job => {
+      const claimed: TranscriptionJob = { ...job, status: "running", attempts: job.attempts + 1, startedAt: now, heartbeatAt: now };
+      this.transcriptionJobs.set(job.id, claimed);
+      return claimed;
+    });
+  }
+
+  async failAbandonedTranscriptionJobs(staleBefore: Date): Promise<TranscriptionJob[]> {
+    const now = new Date();
+    return Array.from(this.transcriptionJobs.values())
+      .filter(job => isAbandonedJob(job, staleBefore) && job.attempts >= job.maxAttempts)
+      .map(job => {
+        const failed: TranscriptionJob = { ...job, status: "failed", error: ABANDONED_JOB_ERROR, finishedAt: now };
+        this.transcriptionJobs.set(job.id, failed);
+        return failed;
+      });
+  }
+
+  async countTranscriptionJobsAhead(job: TranscriptionJob): Promise<number> {
+    return Array.from(this.transcriptionJobs.values())
+      .filter(other => other.status === "queued" && other.id < job.id && other.runAfter <= job.runAfter)
+      .length;
+  }
+
+  async countAudioReferences(audioKey: string): Promise<number> {
+    return Array.from(this.reflections.values()).filter(reflection => reflection.audioKey === audioKey).length
+      + Array.from(this.halaqas.values()).filter(halaqa => halaqa.lectureAudioKey === audioKey).length
+      + Array.from(this.transcriptionJobs.values()).filter(job => job.audioKey === audioKey).length
+      + Array.from(this.audioUploads.values()).filter(upload => upload.audioKey === audioKey).length;
+  }
+
+  async createAudioUpload(upload: InsertAudioUpload): Promise<AudioUpload> {
+    const now = new Date();
+    const record: AudioUpload = {
+      ...upload,
+      id: uuidv4(),
+      received: 0,
+      audioKey: null,
+      createdAt: now,
+      updatedAt: now,
+      completedAt: null,
+    };
+    this.audioUploads.set(record.id, record);
+    return record;
+  }
+
+  async getAudioUpload(id: string): Promise<AudioUpload | undefined> {
+    return this.audioUploads.get(id);
+  }
+
+  async countUnfinishedAudioUploads(userId: string): Promise<number> {
+    return Array.from(this.audioUploads.values())
+      .filter(upload => upload.userId === userId && !upload.completedAt).length;
+  }
+
+  async updateAudioUpload(id: string, data: Partial<Omit<AudioUpload, "id" | "userId" | "createdAt">>): Promise<AudioUpload> {
+    const upload = this.audioUploads.get(id);
+    if (!upload) throw new Error(`Audio upload with ID ${id} not found`);
+
+    const updated: AudioUpload = { ...upload, ...data, updatedAt: new Date() };
+    this.audioUploads.set(id, updated);
+    return updated;
+  }
+
+  async deleteAudioUpload(id: string): Promise<void> {
+    this.audioUploads.delete(id);
+  }
+
+  async listStaleAudioUploads(before: Date): Promise<AudioUpload[]> {
+    return Array.from(this.audioUploads.values())
+      .filter(upload => upload.updatedAt < before)
+      .sort((a, b) => a.updatedAt.getTime() - b.updatedAt.getTime());
+  }
+
 }
 
 // Database storage implementation
 export class DbStorage implements IStorage {
-  async createReflection(reflection: InsertReflection): Promise<Reflection> {
+  async createReflection(reflection: NewReflection): Promise<Reflection> {
     if (!db) throw new Error("Database not initialized");
 
     const results = await db
@@ -677,6 +1268,96 @@ export class DbStorage implements IStorage {
     return results[0];
   }
 
+  async updateReflection(id: number, data: Partial<Pick<Reflection, "content" | "transcription" | "editedAt" | "transcriptionEngine" | "transcriptionStatus" | "transcriptSegments">>): Promise<Reflection> {
+    if (!db) throw new Error("Database not initialized");
+
+    const results = await db
+      .update(reflections)
+      .set(data)
+      .where(eq(reflections.id, id))
+      .returning();
+
+    if (results.length === 0) {
+      throw new Error(`Reflection with id ${id} not found`);
+    }
+
+    return results[0];
+  }
+
+  async deleteReflection(id: number): Promise<void> {
+    if (!db) throw new Error("Database not initialized");
+
+    // Transcription jobs go with the reflection (ON DELETE CASCADE)
+    await db.transaction(async (tx: DbTransaction) => {
+      await tx.delete(conversations).where(eq(conversations.reflectionId, id));
+      await tx.delete(revisions).where(and(eq(revisions.entityType, "reflection"), eq(revisions.entityId, id)));
+      await tx.delete(reflections).where(eq(reflections.id, id));
+    });
+  }
+
+  async listReflections(userId: string, options: ReflectionListOptions): Promise<ReflectionPage> {
+    const empty = { reflections: [], total: 0, limit: options.limit, offset: options.offset, hasMore: false };
+    if (!db) return empty;
+
+    const actionItemCount = sql<number>`coalesce(json_array_length(${conversations.actionItems}), 0)`;
+    const conditions = [eq(reflections.userId, userId)];
+    if (options.type) conditions.push(eq(reflections.type, options.type));
+    if (options.from) conditions.push(gte(reflections.timestamp, options.from));
+    if (options.to) conditions.push(lte(reflections.timestamp, options.to));
+    if (options.hasActionItems !== undefined) {
+      conditions.push(options.hasActionItems ? sql`${actionItemCount} > 0` : sql`${actionItemCount} = 0`);
+    }
+    if (options.tag) {
+      conditions.push(sql`${conversations.tags}::jsonb @> ${JSON.stringify([options.tag])}::jsonb`);
+    }
+    const where = and(...conditions);
+
+    const [{ total }] = await db
+      .select({ total: sql<string>`count(*)` })
+      .from(reflections)
+      .leftJoin(conversations, eq(conversations.reflectionId, reflections.id))
+      .where(where);
+
+    const rows: ReflectionListItem[] = await db
+      .select({
+        id: reflections.id,
+        userId: reflections.userId,
+        content: reflections.content,
+        type: reflections.type,
+        timestamp: reflections.timestamp,
+        transcription: reflections.transcription,
+        transcriptionStatus: reflections.transcriptionStatus,
+        editedAt: reflections.editedAt,
+        mood: reflections.mood,
+        moodIntensity: reflections.moodIntensity,
+        conversationId: conversations.id,
+        messageCount: sql<number>`coalesce(json_array_length(${conversations.messages}), 0)`,
+        actionItemCount,
+        title: conversations.title,
+        synopsis: conversations.synopsis,
+        tags: sql<string[]>`coalesce(${conversations.tags}, '[]'::json)`,
+      })
+      .from(reflections)
+      .leftJoin(conversations, eq(conversations.reflectionId, reflections.id))
+      .where(where)
+      .orderBy(desc(reflections.timestamp), desc(reflections.id))
+      .limit(options.limit)
+      .offset(options.offset);
+
+    const count = Number(total);
+    return {
+      reflections: rows.map(row => ({
+        ...row,
+        messageCount: Number(row.messageCount),
+        actionItemCount: Number(row.actionItemCount),
+      })),
+      total: count,
+      limit: options.limit,
+      offset: options.offset,
+      hasMore: options.offset + options.limit < count,
+    };
+  }
+
   async createConversation(conversation: InsertConversation): Promise<Conversation> {
     if (!db) throw new Error("Database not initialized");
 
@@ -698,6 +1379,18 @@ export class DbStorage implements IStorage {
     return results[0];
   }
 
+  async getConversationByReflectionId(reflectionId: number): Promise<Conversation | undefined> {
+    if (!db) return undefined;
+
+    const results = await db
+      .select()
+      .from(conversations)
+      .where(eq(conversations.reflectionId, reflectionId))
+      .orderBy(conversations.id)
+      .limit(1);
+    return results[0];
+  }
+
   async updateConversation(
     id: number,
     messages: Message[],
@@ -723,6 +1416,83 @@ export class DbStorage implements IStorage {
     return results[0];
   }
 
+  async updateConversationSummary(id: number, summary: ConversationSummary | null): Promise<Conversation> {
+    if (!db) throw new Error("Database not initialized");
+
+    const results = await db
+      .update(conversations)
+      .set({ summary })
+      .where(eq(conversations.id, id))
+      .returning();
+
+    if (results.length === 0) {
+      throw new Error(`Conversation with id ${id} not found`);
+    }
+
+    return results[0];
+  }
+  async updateConversationBranch(id: number, messages: Message[], activeMessageId: string): Promise<Conversation> {
+    if (!db) throw new Error("Database not initialized");
+
+    const results = await db
+      .update(conversations)
+      .set({ messages, activeMessageId })
+      .where(eq(conversations.id, id))
+      .returning();
+
+    if (results.length === 0) {
+      throw new Error(`Conversation with id ${id} not found`);
+    }
+
+    return results[0];
+  }
+
+  async updateConversationLabels(id: number, labels: ConversationLabels): Promise<Conversation> {
+    if (!db) throw new Error("Database not initialized");
+
+    const results = await db
+      .update(conversations)
+      .set(labels)
+      .where(eq(conversations.id, id))
+      .returning();
+
+    if (results.length === 0) {
+      throw new Error(`Conversation with id ${id} not found`);
+    }
+
+    return results[0];
+  }
+
+  async updateConversationWirdSuggestions(id: number, suggestions: WirdSuggestion[]): Promise<Conversation> {
+    if (!db) throw new Error("Database not initialized");
+
+    const results = await db
+      .update(conversations)
+      .set({ wirdSuggestions: suggestions })
+      .where(eq(conversations.id, id))
+      .returning();
+
+    if (results.length === 0) {
+      throw new Error(`Conversation with id ${id} not found`);
+    }
+
+    return results[0];
+  }
+
+  async getConversationTags(userId: string): Promise<TagCount[]> {
+    if (!db) return [];
+
+    const results = await db.execute(sql`
+      SELECT tag, count(*) AS count
+      FROM ${conversations}, json_array_elements_text(coalesce(${conversations.tags}, '[]'::json)) AS tag
+      WHERE ${conversations.userId} = ${userId}
+      GROUP BY tag
+      ORDER BY count(*) DESC, tag
+    `);
+    return results.rows.map((row: Record<string, unknown>) => ({ tag: String(row.tag), count: Number(row.count) }));
+  }
+
+
   async getUserSettings(userId: string): Promise<UserSettings | undefined> {
     if (!db) return undefined;
     
@@ -857,6 +1627,17 @@ export class DbStorage implements IStorage {
     return results[0];
   }
 
+  async updateHalaqaLecture(id: number, lecture: Partial<HalaqaLecture>): Promise<Halaqa | null> {
+    if (!db) return null;
+
+    const results = await db
+      .update(halaqas)
+      .set(lecture)
+      .where(eq(halaqas.id, id))
+      .returning();
+    return results[0] ?? null;
+  }
+
   async saveHalaqaWirdSuggestions(halaqaId: number, suggestions: WirdSuggestion[]): Promise<boolean> {
     try {
       if (!db) {
@@ -908,27 +1689,32 @@ export class DbStorage implements IStorage {
 
   // WirdhAI methods
   async getWirdsByUserId(userId: string): Promise<WirdEntry[]> {
-    return Array.from(this.wirds.values())
-      .filter(wird => wird.userId === userId && wird.isArchived === false)
-      .sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime());
+    if (!db) return [];
+
+    const rows = await db
+      .select()
+      .from(wirds)
+      .where(and(eq(wirds.userId, userId), sql`${wirds.isArchived} IS NOT TRUE`))
+      .orderBy(desc(wirds.date));
+    return rows.map(toWirdEntry);
   }
 
   async getWirdByDate(userId: string, date: string): Promise<WirdEntry | null> {
-    try {
-      for (const wird of this.wirds.values()) {
-        if (wird.userId === userId && wird.date === date) {
-          return wird;
-        }
-      }
-      return null;
-    } catch (error) {
-      console.error("Error getting wird by date:", error);
-      return null;
-    }
+    if (!db) return null;
+
+    const [row] = await db
+      .select()
+      .from(wirds)
+      .where(and(eq(wirds.userId, userId), eq(wirds.date, dayOf(date)), sql`${wirds.isArchived} IS NOT TRUE`))
+      .limit(1);
+    return row ? toWirdEntry(row) : null;
   }
 
   async getWird(id: number): Promise<WirdEntry | null> {
-    return this.wirds.get(id) || null;
+    if (!db) return null;
+
+    const [row] = await db.select().from(wirds).where(eq(wirds.id, id)).limit(1);
+    return row ? toWirdEntry(row) : null;
   }
 
   async createWird(data: InsertWird & {
@@ -936,54 +1722,54 @@ export class DbStorage implements IStorage {
     createdAt?: Date;
     updatedAt?: Date;
   }): Promise<WirdEntry> {
-    const id = this.currentWirdId++;
-    const fullData = {
-      ...data,
-      id,
-      isArchived: data.isArchived || false,
-      createdAt: data.createdAt || new Date(),
-      updatedAt: data.updatedAt || new Date(),
-    };
-    this.wirds.set(id, fullData);
-    return fullData;
+    if (!db) throw new Error("Database not initialized");
+
+    const [row] = await db
+      .insert(wirds)
+      .values({
+        userId: data.userId,
+        date: dayOf(data.date as string | Date),
+        practices: data.practices,
+        notes: data.notes ?? null,
+        isArchived: data.isArchived ?? false,
+      })
+      .returning();
+    return toWirdEntry(row);
   }
 
   async updateWird(id: number, data: Partial<WirdEntry>): Promise<WirdEntry> {
-    const wird = this.wirds.get(id);
-    if (!wird) throw new Error(`Wird with id ${id} not found`);
+    if (!db) throw new Error("Database not initialized");
 
-    const updatedWird: WirdEntry = {
-      ...wird,
-      ...data,
-      updatedAt: new Date()
-    };
-    this.wirds.set(id, updatedWird);
-    return updatedWird;
+    // Only what the table keeps; where a practice came from is kept on the practice
+    const { practices, notes, isArchived } = data as Partial<WirdRow>;
+    const [row] = await db
+      .update(wirds)
+      .set({ practices, notes, isArchived, updatedAt: new Date() })
+      .where(eq(wirds.id, id))
+      .returning();
+
+    if (!row) throw new Error(`Wird with id ${id} not found`);
+    return toWirdEntry(row);
   }
 
   async updateWirdPractices(id: number, practices: WirdPractice[]): Promise<WirdEntry> {
-    try {
-      const wird = this.wirds.get(id);
-      if (!wird) throw new Error(`Wird with id ${id} not found`);
-
-      const updatedWird: WirdEntry = {
-        ...wird,
-        practices,
-        updatedAt: new Date()
-      };
-      this.wirds.set(id, updatedWird);
-      return updatedWird;
-    } catch (error) {
-      console.error(`Error updating wird practices: ${error}`);
-      throw error;
-    }
+    return this.updateWird(id, { practices });
   }
 
   async getWirdsByDateRange(userId: string, startDate: string, endDate: string): Promise<WirdEntry[]> {
-    return Array.from(this.wirds.values())
-      .filter(wird => wird.userId === userId && wird.isArchived === false &&
-        wird.date >= new Date(startDate) && wird.date <= new Date(endDate))
-      .sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime());
+    if (!db) return [];
+
+    const rows = await db
+      .select()
+      .from(wirds)
+      .where(and(
+        eq(wirds.userId, userId),
+        sql`${wirds.isArchived} IS NOT TRUE`,
+        gte(wirds.date, dayOf(startDate)),
+        lte(wirds.date, dayOf(endDate))
+      ))
+      .orderBy(desc(wirds.date));
+    return rows.map(toWirdEntry);
   }
 
   // Identity Framework methods
@@ -1462,6 +2248,408 @@ export class DbStorage implements IStorage {
       throw error;
     }
   }
+
+  // LLM usage metering
+  async recordLlmUsage(usage: InsertLlmUsage): Promise<LlmUsage> {
+    if (!db) throw new Error("Database not initialized");
+
+    const results = await db
+      .insert(llmUsage)
+      .values(usage)
+      .returning();
+    return results[0];
+  }
+
+  async getLlmTokensUsed(userId: string, since: Date): Promise<number> {
+    if (!db) return 0;
+
+    const results = await db
+      .select({ total: sql<string>`coalesce(sum(${llmUsage.inputTokens} + ${llmUsage.outputTokens}), 0)` })
+      .from(llmUsage)
+      .where(and(eq(llmUsage.userId, userId), gte(llmUsage.createdAt, since)));
+    return Number(results[0]?.total ?? 0);
+  }
+
+  async getLlmUsage(userId: string, options: { since?: Date; limit?: number } = {}): Promise<LlmUsage[]> {
+    if (!db) return [];
+
+    const conditions = [eq(llmUsage.userId, userId)];
+    if (options.since) conditions.push(gte(llmUsage.createdAt, options.since));
+
+    const query = db
+      .select()
+      .from(llmUsage)
+      .where(and(...conditions))
+      .orderBy(desc(llmUsage.createdAt));
+    return options.limit ? query.limit(options.limit) : query;
+  }
+
+  async search(userId: string, query: string, options: SearchOptions): Promise<SearchResults> {
+    if (!db) return emptySearchResults(query, options);
+
+    const [page, counts] = await Promise.all([
+      db.execute(searchPageQuery(userId, query, options)),
+      db.execute(searchCountsQuery(userId, query, options)),
+    ]);
+    return searchResultsFromRows(page.rows, counts.rows, query, options);
+  }
+
+  async createRevision(revision: InsertRevision): Promise<Revision> {
+    if (!db) throw new Error("Database not initialized");
+
+    const results = await db
+      .insert(revisions)
+      .values(revision)
+      .returning();
+    return results[0];
+  }
+
+  async getRevision(id: number): Promise<Revision | undefined> {
+    if (!db) return undefined;
+
+    const results = await db
+      .select()
+      .from(revisions)
+      .where(eq(revisions.id, id))
+      .limit(1);
+    return results[0];
+  }
+
+  async getRevisions(entityType: RevisionEntityType, entityId: number): Promise<Revision[]> {
+    if (!db) return [];
+
+    return db
+      .select()
+      .from(revisions)
+      .where(and(eq(revisions.entityType, entityType), eq(revisions.entityId, entityId)))
+      .orderBy(desc(revisions.createdAt), desc(revisions.id));
+  }
+
+  async setReflectionMood(id: number, mood: Mood | null, intensity: number | null): Promise<Reflection> {
+    if (!db) throw new Error("Database not initialized");
+
+    const results = await db
+      .update(reflections)
+      .set({ mood, moodIntensity: intensity })
+      .where(eq(reflections.id, id))
+      .returning();
+    if (!results[0]) throw new Error(`Reflection with ID ${id} not found`);
+    return results[0];
+  }
+
+  async getMoodAnalytics(userId: string, from: Date, to: Date): Promise<MoodAnalytics> {
+    if (!db) return computeMoodAnalytics([], [], from, to);
+
+    const [checkIns, wirdRows]: [MoodCheckIn[], WirdRow[]] = await Promise.all([
+      db
+        .select({
+          reflectionId: reflections.id,
+          mood: reflections.mood,
+          intensity: reflections.moodIntensity,
+          timestamp: reflections.timestamp,
+        })
+        .from(reflections)
+        .where(and(
+          eq(reflections.userId, userId),
+          isNotNull(reflections.mood),
+          isNotNull(reflections.moodIntensity),
+          gte(reflections.timestamp, from),
+          lte(reflections.timestamp, to)
+        )),
+      db
+        .select()
+        .from(wirds)
+        .where(and(
+          eq(wirds.userId, userId),
+          sql`${wirds.isArchived} IS NOT TRUE`,
+          gte(wirds.date, from.toISOString().slice(0, 10)),
+          lte(wirds.date, to.toISOString().slice(0, 10))
+        )),
+    ]);
+    return computeMoodAnalytics(checkIns, wirdRows, from, to);
+  }
+
+  async getAnsweredPromptIds(userId: string, since: Date, before: Date): Promise<string[]> {
+    if (!db) return [];
+
+    const results: Array<{ promptId: string | null }> = await db
+      .selectDistinct({ promptId: conversations.promptId })
+      .from(conversations)
+      .where(and(
+        eq(conversations.userId, userId),
+        isNotNull(conversations.promptId),
+        gte(conversations.timestamp, since),
+        lt(conversations.timestamp, before)
+      ));
+    return results.map(row => row.promptId!);
+  }
+
+  async getJournalEntries(userId: string, range: JournalRange): Promise<JournalEntries> {
+    if (!db) return { reflections: [], conversations: [], halaqas: [], wirds: [] };
+
+    const reflectionConditions = [eq(reflections.userId, userId)];
+    const conversationConditions = [eq(conversations.userId, userId)];
+    const halaqaConditions = [eq(halaqas.userId, userId), sql`${halaqas.isArchived} IS NOT TRUE`];
+    const wirdConditions = [eq(wirds.userId, userId), sql`${wirds.isArchived} IS NOT TRUE`];
+    if (range.from) {
+      reflectionConditions.push(gte(reflections.timestamp, range.from));
+      conversationConditions.push(gte(conversations.timestamp, range.from));
+      halaqaConditions.push(gte(halaqas.date, dayOf(range.from)));
+      wirdConditions.push(gte(wirds.date, dayOf(range.from)));
+    }
+    if (range.to) {
+      reflectionConditions.push(lte(reflections.timestamp, range.to));
+      conversationConditions.push(lte(conversations.timestamp, range.to));
+      halaqaConditions.push(lte(halaqas.date, dayOf(range.to)));
+      wirdConditions.push(lte(wirds.date, dayOf(range.to)));
+    }
+
+    const [reflectionRows, conversationRows, halaqaRows, wirdRows] = await Promise.all([
+      db
+        .select({
+          id: reflections.id,
+          userId: reflections.userId,
+          content: reflections.content,
+          type: reflections.type,
+          timestamp: reflections.timestamp,
+          transcription: reflections.transcription,
+          editedAt: reflections.editedAt,
+          mood: reflections.mood,
+          moodIntensity: reflections.moodIntensity,
+        })
+        .from(reflections)
+        .where(and(...reflectionConditions))
+        .orderBy(reflections.timestamp, reflections.id),
+      db
+        .select()
+        .from(conversations)
+        .where(and(...conversationConditions))
+        .orderBy(conversations.timestamp, conversations.id),
+      db
+        .select()
+        .from(halaqas)
+        .where(and(...halaqaConditions))
+        .orderBy(halaqas.date, halaqas.id),
+      db
+        .select()
+        .from(wirds)
+        .where(and(...wirdConditions))
+        .orderBy(wirds.date, wirds.id),
+    ]);
+    return { reflections: reflectionRows, conversations: conversationRows, halaqas: halaqaRows, wirds: wirdRows };
+  }
+
+  async listActionItems(userId: string, filters: ActionItemFilters = {}): Promise<ActionItem[]> {
+    if (!db) return [];
+
+    const conditions = [eq(actionItems.userId, userId)];
+    if (filters.status) conditions.push(eq(actionItems.status, filters.status));
+    if (filters.sourceType) conditions.push(eq(actionItems.sourceType, filters.sourceType));
+    if (filters.sourceId !== undefined) conditions.push(eq(actionItems.sourceId, filters.sourceId));
+
+    return db
+      .select()
+      .from(actionItems)
+      .where(and(...conditions))
+      .orderBy(desc(actionItems.createdAt), desc(actionItems.id));
+  }
+
+  async getActionItem(id: number): Promise<ActionItem | undefined> {
+    if (!db) return undefined;
+
+    const results = await db
+      .select()
+      .from(actionItems)
+      .where(eq(actionItems.id, id))
+      .limit(1);
+    return results[0];
+  }
+
+  async createActionItems(items: InsertActionItem[]): Promise<ActionItem[]> {
+    if (!db) throw new Error("Database not initialized");
+    if (items.length === 0) return [];
+
+    return db
+      .insert(actionItems)
+      .values(items)
+      .returning();
+  }
+
+  async updateActionItem(id: number, data: Partial<InsertActionItem>): Promise<ActionItem> {
+    if (!db) throw new Error("Database not initialized");
+
+    const results = await db
+      .update(actionItems)
+      .set({ ...data, updatedAt: new Date() })
+      .where(eq(actionItems.id, id))
+      .returning();
+    if (!results[0]) throw new Error(`Action item with ID ${id} not found`);
+    return results[0];
+  }
+
+  async deleteActionItems(ids: number[]): Promise<void> {
+    if (!db) throw new Error("Database not initialized");
+    if (ids.length === 0) return;
+
+    await db
+      .delete(actionItems)
+      .where(inArray(actionItems.id, ids));
+  }
+
+  async createTranscriptionJob(job: InsertTranscriptionJob): Promise<TranscriptionJob> {
+    if (!db) throw new Error("Database not initialized");
+
+    const results = await db
+      .insert(transcriptionJobs)
+      .values(job)
+      .returning();
+    return results[0];
+  }
+
+  async getTranscriptionJob(id: number): Promise<TranscriptionJob | undefined> {
+    if (!db) return undefined;
+
+    const results = await db
+      .select()
+      .from(transcriptionJobs)
+      .where(eq(transcriptionJobs.id, id))
+      .limit(1);
+    return results[0];
+  }
+
+  async updateTranscriptionJob(id: number, data: Partial<Omit<TranscriptionJob, "id" | "createdAt">>): Promise<TranscriptionJob> {
+    if (!db) throw new Error("Database not initialized");
+
+    const results = await db
+      .update(transcriptionJobs)
+      .set(data)
+      .where(eq(transcriptionJobs.id, id))
+      .returning();
+    if (!results[0]) throw new Error(`Transcription job with ID ${id} not found`);
+    return results[0];
+  }
+
+  async claimTranscriptionJobs(limit: number, staleBefore: Date): Promise<TranscriptionJob[]> {
+    if (!db) return [];
+
+    const now = new Date();
+    // SKIP LOCKED lets several server instances claim from the queue at once
+    // without taking the same job
+    const claimable = db
+      .select({ id: transcriptionJobs.id })
+      .from(transcriptionJobs)
+      .where(or(
+        and(eq(transcriptionJobs.status, "queued"), lte(transcriptionJobs.runAfter, now)),
+        and(abandonedJob(staleBefore), lt(transcriptionJobs.attempts, transcriptionJobs.maxAttempts))
+      ))
+      .orderBy(transcriptionJobs.id)
+      .limit(limit)
+      .for("update", { skipLocked: true });
+
+    const claimed = await db
+      .update(transcriptionJobs)
+      .set({ status: "running", attempts: sql`${transcriptionJobs.attempts} + 1`, startedAt: now, heartbeatAt: now })
+      .where(inArray(transcriptionJobs.id, claimable))
+      .returning();
+    return claimed.sort((a: TranscriptionJob, b: TranscriptionJob) => a.id - b.id);
+  }
+
+  async failAbandonedTranscriptionJobs(staleBefore: Date): Promise<TranscriptionJob[]> {
+    if (!db) return [];
+
+    return db
+      .update(transcriptionJobs)
+      .set({ status: "failed", error: ABANDONED_JOB_ERROR, finishedAt: new Date() })
+      .where(and(abandonedJob(staleBefore), gte(transcriptionJobs.attempts, transcriptionJobs.maxAttempts)))
+      .returning();
+  }
+
+  async countTranscriptionJobsAhead(job: TranscriptionJob): Promise<number> {
+    if (!db) return 0;
+
+    const results = await db
+      .select({ count: sql<number>`count(*)::int` })
+      .from(transcriptionJobs)
+      .where(and(
+        eq(transcriptionJobs.status, "queued"),
+        lt(transcriptionJobs.id, job.id),
+        lte(transcriptionJobs.runAfter, job.runAfter)
+      ));
+    return results[0]?.count ?? 0;
+  }
+
+  async countAudioReferences(audioKey: string): Promise<number> {
+    if (!db) return 0;
+
+    const counts = await Promise.all([
+      db.select({ count: sql<number>`count(*)::int` }).from(reflections).where(eq(reflections.audioKey, audioKey)),
+      db.select({ count: sql<number>`count(*)::int` }).from(halaqas).where(eq(halaqas.lectureAudioKey, audioKey)),
+      db.select({ count: sql<number>`count(*)::int` }).from(transcriptionJobs).where(eq(transcriptionJobs.audioKey, audioKey)),
+      db.select({ count: sql<number>`count(*)::int` }).from(audioUploads).where(eq(audioUploads.audioKey, audioKey)),
+    ]);
+    return counts.reduce((total: number, [row]: { count: number }[]) => total + (row?.count ?? 0), 0);
+  }
+
+  async createAudioUpload(upload: InsertAudioUpload): Promise<AudioUpload> {
+    if (!db) throw new Error("Database not initialized");
+
+    const results = await db
+      .insert(audioUploads)
+      .values(upload)
+      .returning();
+    return results[0];
+  }
+
+  async getAudioUpload(id: string): Promise<AudioUpload | undefined> {
+    if (!db) return undefined;
+
+    const results = await db
+      .select()
+      .from(audioUploads)
+      .where(eq(audioUploads.id, id))
+      .limit(1);
+    return results[0];
+  }
+
+  async countUnfinishedAudioUploads(userId: string): Promise<number> {
+    if (!db) return 0;
+
+    const [row] = await db
+      .select({ count: sql<number>`count(*)::int` })
+      .from(audioUploads)
+      .where(and(eq(audioUploads.userId, userId), isNull(audioUploads.completedAt)));
+    return row?.count ?? 0;
+  }
+
+  async updateAudioUpload(id: string, data: Partial<Omit<AudioUpload, "id" | "userId" | "createdAt">>): Promise<AudioUpload> {
+    if (!db) throw new Error("Database not initialized");
+
+    const results = await db
+      .update(audioUploads)
+      .set({ ...data, updatedAt: new Date() })
+      .where(eq(audioUploads.id, id))
+      .returning();
+    if (!results[0]) throw new Error(`Audio upload with ID ${id} not found`);
+    return results[0];
+  }
+
+  async deleteAudioUpload(id: string): Promise<void> {
+    if (!db) throw new Error("Database not initialized");
+
+    await db
+      .delete(audioUploads)
+      .where(eq(audioUploads.id, id));
+  }
+
+  async listStaleAudioUploads(before: Date): Promise<AudioUpload[]> {
+    if (!db) return [];
+
+    return db
+      .select()
+      .from(audioUploads)
+      .where(lt(audioUploads.updatedAt, before))
+      .orderBy(audioUploads.updatedAt);
+  }
 }
 
 export function createStorage(): IStorage {
@@ -1845,4 +3033,19 @@ export async function createHabitTracking(habitTrackingValues: Partial<HabitTrac
 export async function updateHabitTracking(habitId: string, currentStreak: number, longestStreak: number, lastCompleted: Date): Promise<HabitTracking> {
   const storage = createStorage();
   return storage.updateHabitTracking(habitId, currentStreak, longestStreak, lastCompleted);
-}
\ No newline at end of file
+}
+
+export async function createRevision(revision: InsertRevision): Promise<Revision> {
+  const storage = createStorage();
+  return storage.createRevision(revision);
+}
+
+export async function getRevision(id: number): Promise<Revision | undefined> {
+  const storage = createStorage();
+  return storage.getRevision(id);
+}
+
+export async function getRevisions(entityType: RevisionEntityType, entityId: number): Promise<Revision[]> {
+  const storage = createStorage();
+  return storage.getRevisions(entityType, entityId);
+}
@@ -0,0 +1,37 @@
+/**
+ * Generated action items often follow the action with why it matters
+ * ("Pray Fajr on time. This builds..."). Split the two so the plan can show
+ * the action on its own.
+ */
+export function splitActionItem(item: string): { action: string; context: string } {
+  // Look for patterns like "...action. Context..." or common transition phrases
+  const transitions = ['. This', '. The', '. In Islam', '. According', '. Based on', '. As'];
+
+  for (const transition of transitions) {
+    const index = item.indexOf(transition);
+    if (index !== -1) {
+      return {
+        action: item.substring(0, index + 1), // Include the period
+        context: item.substring(index + 1).trim()
+      };
+    }
+  }
+
+  // If no transition found, check for a period around the middle of the text
+  const midPoint = Math.floor(item.length / 2);
+  const firstHalf = item.substring(0, midPoint);
+  const lastPeriodInFirstHalf = firstHalf.lastIndexOf('.');
+
+  if (lastPeriodInFirstHalf !== -1 && lastPeriodInFirstHalf > item.length / 4) {
+    return {
+      action: item.substring(0, lastPeriodInFirstHalf + 1),
+      context: item.substring(lastPeriodInFirstHalf + 1).trim()
+    };
+  }
+
+  // If still no clear separation, return the whole string as action
+  return {
+    action: item,
+    context: ''
+  };
+}
@@ -0,0 +1,110 @@
+/**
+ * Conversations as trees of messages
+ *
+ * A conversation's messages are stored flat, in the order they were added,
+ * each pointing at the message it follows. Regenerating a reply or editing a
+ * user turn adds a sibling rather than replacing anything, so every
+ * alternative is kept. The selected branch runs from a root to the
+ * conversation's active message; it's what the user sees and what follow-up
+ * context, action items and insights are built from.
+ *
+ * Messages saved before conversations could branch have no ids. They get ids
+ * from their position and read as a single chain.
+ */
+import type { Message } from "./schema";
+
+/**
+ * A message of the selected branch with the alternatives at its place in the
+ * tree (itself included), oldest first
+ */
+export type BranchMessage = {
+  message: Message;
+  siblingIds: string[];
+};
+
+// Ids are positional, so they stay unique as long as messages are only appended
+function positionalId(index: number): string {
+  return `m${index}`;
+}
+
+/**
+ * The messages with an id and parent on every one of them
+ */
+export function withMessageIds(messages: Message[]): Message[] {
+  let previousId: string | null = null;
+  return messages.map((message, index) => {
+    const withId: Message = message.id
+      ? message
+      : { ...message, id: positionalId(index), parentId: previousId };
+    previousId = withId.id!;
+    return withId;
+  });
+}
+
+/**
+ * Add a message after `parentId` (null starts a new root) and return it as stored
+ */
+export function appendMessage(
+  messages: Message[],
+  message: Omit<Message, "id" | "parentId">,
+  parentId: string | null
+): Message {
+  const appended: Message = { ...message, id: positionalId(messages.length), parentId };
+  messages.push(appended);
+  return appended;
+}
+
+export function findMessage(messages: Message[], id: string): Message | undefined {
+  return messages.find(message => message.id === id);
+}
+
+/**
+ * The branch from a root down to `leafId`. Without a known leaf, the branch
+ * ends at the last message added.
+ */
+export function branchTo(messages: Message[], leafId?: string | null): Message[] {
+  const byId = new Map(messages.map(message => [message.id, message]));
+  let current: Message | undefined = (leafId ? byId.get(leafId) : undefined) ?? messages[messages.length - 1];
+
+  const branch: Message[] = [];
+  while (current) {
+    branch.unshift(current);
+    current = current.parentId ? byId.get(current.parentId) : undefined;
+  }
+  return branch;
+}
+
+/**
+ * The end of the newest line of replies below a message: the branch a user
+ * lands on when switching to it
+ */
+export function latestLeaf(messages: Message[], id: string): string {
+  let leaf = id;
+  for (;;) {
+    const newestChild = messages.filter(message => message.parentId === leaf).pop();
+    if (!newestChild) return leaf;
+    leaf = newestChild.id!;
+  }
+}
+
+/**
+ * Messages at the same place in the tree as `id` (itself included), oldest first
+ */
+export function siblingIds(messages: Message[], id: string): string[] {
+  const message = findMessage(messages, id);
+  if (!message) return [];
+  return messages
+    .filter(other => other.role === message.role && (other.parentId ?? null) === (message.parentId ?? null))
+    .map(other => other.id!);
+}
+
+/**
+ * The selected branch with the alternatives for each of its messages
+ */
+export function describeBranch(messages: Message[], activeMessageId?: string | null): BranchMessage[] {
+  const tree = withMessageIds(messages);
+  return branchTo(tree, activeMessageId).map(message => ({
+    message,
+    siblingIds: siblingIds(tree, message.id!),
+  }));
+}
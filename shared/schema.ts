@@ -2,20 +2,70 @@ import { pgTable, text, serial, timestamp, json, integer, boolean, date, uuid }
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
+// Moods a user can check in with; the same emotions the client's reflection
+// analysis scores, so a check-in can be pre-filled from the text
+export const moods = [
+  "joy", "gratitude", "peace", "hope", "confusion", "sadness", "fear", "anger", "guilt", "loneliness",
+] as const;
+
+export const MOOD_INTENSITY_MAX = 10;
+
+// Themes of the guided prompt library, and the Hijri seasons with prompts of their own
+export const promptCategories = ["self-accounting", "gratitude", "tawbah", "prayer", "relationships"] as const;
+export const promptSeasons = ["ramadan", "dhul-hijjah", "muharram"] as const;
+
+// Speech-to-text engines an audio reflection can be transcribed with
+export const transcriptionEngines = ["aws", "whisper", "fixture"] as const;
+// Where a voice reflection's transcription stands; null for written reflections
+export const transcriptionStatuses = ["pending", "completed", "failed"] as const;
+export const transcriptionJobStatuses = ["queued", "running", "succeeded", "failed"] as const;
+// Formats a timed transcript can be downloaded in, named as whisper names its outputs
+export const transcriptFormats = ["json", "srt", "vtt", "txt", "tsv"] as const;
+
 export const reflections = pgTable("reflections", {
   id: serial("id").primaryKey(),
+  // Null only for rows created before reflections had owners that the
+  // backfill couldn't attribute; those are never listed
+  userId: text("user_id"),
   content: text("content").notNull(),
   type: text("type", { enum: ["audio", "text"] }).notNull(),
   timestamp: timestamp("timestamp").defaultNow().notNull(),
   transcription: text("transcription"),
-  audioData: text("audio_data"),
+  // The recording in the audio store: its SHA-256, mimetype and size in bytes
+  audioKey: text("audio_key"),
+  audioType: text("audio_type"),
+  audioSize: integer("audio_size"),
+  // The engine that transcribed an audio reflection
+  transcriptionEngine: text("transcription_engine", { enum: transcriptionEngines }),
+  transcriptionStatus: text("transcription_status", { enum: transcriptionStatuses }),
+  // When each sentence of the transcription was said, as the engine heard it
+  transcriptSegments: json("transcript_segments").$type<TranscriptSegment[]>(),
+  // Last time the user edited the text; null if never edited
+  editedAt: timestamp("edited_at"),
+  // Mood check-in: how the user felt, 1 (faintly) to 10 (strongly)
+  mood: text("mood", { enum: moods }),
+  moodIntensity: integer("mood_intensity"),
 });
 
 export const conversations = pgTable("conversations", {
   id: serial("id").primaryKey(),
+  // Same owner as the reflection the conversation started from
+  userId: text("user_id"),
   reflectionId: integer("reflection_id").references(() => reflections.id),
   messages: json("messages").$type<Message[]>().notNull(),
   actionItems: json("action_items").$type<string[]>().default([]),
+  summary: json("summary").$type<ConversationSummary>(),
+  // Guided prompt the reflection answered, if it was started from one
+  promptId: text("prompt_id"),
+  // Last message of the selected branch; null means the latest message
+  activeMessageId: text("active_message_id"),
+  // Generated (or user-edited) title, short summary and topic tags
+  title: text("title"),
+  synopsis: text("synopsis"),
+  tags: json("tags").$type<string[]>().default([]),
+  labeling: json("labeling").$type<ConversationLabeling>(),
+  // Wird practices suggested from the conversation, kept like a halaqa's
+  wirdSuggestions: json("wird_suggestions").$type<WirdSuggestion[]>(),
   timestamp: timestamp("timestamp").defaultNow().notNull(),
 });
 
@@ -30,9 +80,19 @@ export const halaqas = pgTable("halaqas", {
   impact: text("impact").notNull(),
   actionItems: json("action_items").$type<HalaqaActionItem[]>().default([]),
   wirdSuggestions: json("wird_suggestions").$type<WirdSuggestion[]>(),
+  analysisPrompts: json("analysis_prompts").$type<PromptRef[]>(),
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
   isArchived: boolean("is_archived").default(false),
+  // Last time the user edited the notes (unlike updatedAt, not bumped by action items)
+  editedAt: timestamp("edited_at"),
+  // A recording of the lecture itself in the audio store, and its transcript
+  lectureAudioKey: text("lecture_audio_key"),
+  lectureAudioType: text("lecture_audio_type"),
+  lectureAudioSize: integer("lecture_audio_size"),
+  lectureTranscript: text("lecture_transcript"),
+  lectureTranscriptSegments: json("lecture_transcript_segments").$type<TranscriptSegment[]>(),
+  lectureTranscriptionStatus: text("lecture_transcription_status", { enum: transcriptionStatuses }),
 });
 
 export const userSettings = pgTable("user_settings", {
@@ -84,9 +144,208 @@ export const habit_tracking = pgTable("habit_tracking", {
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
 });
 
+// One row per model call, for per-user quotas and usage history
+export const llmUsage = pgTable("llm_usage", {
+  id: serial("id").primaryKey(),
+  // Null for calls made outside an authenticated request
+  userId: text("user_id"),
+  // The route-level feature, e.g. "halaqa.analyze"
+  feature: text("feature").notNull(),
+  // The generator that made the call, e.g. "halaqa.actions"
+  generator: text("generator").notNull(),
+  provider: text("provider").notNull(),
+  model: text("model").notNull(),
+  inputTokens: integer("input_tokens").notNull(),
+  outputTokens: integer("output_tokens").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Every edit to a reflection or halaqa, so edits can be reviewed and undone
+export const revisions = pgTable("revisions", {
+  id: serial("id").primaryKey(),
+  entityType: text("entity_type", { enum: ["reflection", "halaqa"] }).notNull(),
+  entityId: integer("entity_id").notNull(),
+  // Who made the edit
+  userId: text("user_id").notNull(),
+  // The edited fields, before and after
+  changes: json("changes").$type<RevisionChange[]>().notNull(),
+  // Set when the edit restored the state from before this earlier revision
+  restoredFrom: integer("restored_from"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const actionItemSources = ["conversation", "halaqa", "framework", "manual"] as const;
+export const actionItemPriorities = ["low", "medium", "high"] as const;
+export const actionItemStatuses = ["open", "in-progress", "completed"] as const;
+
+// The user's personal action plan: items imported from generated action
+// items, or added by hand
+export const actionItems = pgTable("action_items", {
+  id: serial("id").primaryKey(),
+  userId: text("user_id").notNull(),
+  text: text("text").notNull(),
+  // Why the item was suggested, when the generated text explained it
+  context: text("context"),
+  sourceType: text("source_type", { enum: actionItemSources }).notNull(),
+  // Conversation or halaqa id, or identity framework uuid; null for manual items
+  sourceId: text("source_id"),
+  // The halaqa action item it was imported from, kept in step with it
+  sourceItemId: text("source_item_id"),
+  dueDate: date("due_date"),
+  priority: text("priority", { enum: actionItemPriorities }).default("medium").notNull(),
+  status: text("status", { enum: actionItemStatuses }).default("open").notNull(),
+  completedAt: timestamp("completed_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+  // Last time the user changed the item; imports nobody touched are replaced
+  // when their source's action items are generated again
+  editedAt: timestamp("edited_at"),
+});
+
+// Recordings waiting to be transcribed by the worker in
+// server/lib/transcription/queue.ts. A voice reflection's job reads the
+// recording from the reflection and a halaqa lecture's from the halaqa; a
+// standalone one (POST /api/transcribe) carries it until it is done.
+export const transcriptionJobs = pgTable("transcription_jobs", {
+  id: serial("id").primaryKey(),
+  userId: text("user_id").notNull(),
+  reflectionId: integer("reflection_id").references(() => reflections.id, { onDelete: "cascade" }),
+  // A lecture recording, split into chunks and transcribed in parallel
+  halaqaId: integer("halaqa_id").references(() => halaqas.id, { onDelete: "cascade" }),
+  // A standalone recording in the audio store; cleared once transcribed
+  audioKey: text("audio_key"),
+  audioType: text("audio_type"),
+  status: text("status", { enum: transcriptionJobStatuses }).default("queued").notNull(),
+  // Attempts started so far, counting the one running
+  attempts: integer("attempts").default(0).notNull(),
+  maxAttempts: integer("max_attempts").notNull(),
+  // A retried job waits until then
+  runAfter: timestamp("run_after").defaultNow().notNull(),
+  // The last failure
+  error: text("error"),
+  transcription: text("transcription"),
+  segments: json("segments").$type<TranscriptSegment[]>(),
+  engine: text("engine", { enum: transcriptionEngines }),
+  // What the reflection's conversation is opened with once it is transcribed
+  promptId: text("prompt_id"),
+  personalizationContext: json("personalization_context"),
+  conversationId: integer("conversation_id"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  startedAt: timestamp("started_at"),
+  finishedAt: timestamp("finished_at"),
+  // Bumped while a long job makes progress, so it isn't taken for abandoned
+  heartbeatAt: timestamp("heartbeat_at"),
+  // Lecture chunks transcribed so far, out of chunkCount
+  chunkCount: integer("chunk_count"),
+  chunksDone: integer("chunks_done"),
+});
+
+// Recordings uploaded in chunks (server/lib/audio-store/uploads.ts). The
+// bytes received so far are kept on local disk; once all have arrived the
+// recording moves to the audio store and audioKey is set.
+export const audioUploads = pgTable("audio_uploads", {
+  id: uuid("id").defaultRandom().primaryKey(),
+  userId: text("user_id").notNull(),
+  mimetype: text("mimetype").notNull(),
+  // Total size in bytes, declared when the upload starts
+  size: integer("size").notNull(),
+  received: integer("received").default(0).notNull(),
+  audioKey: text("audio_key"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+  completedAt: timestamp("completed_at"),
+});
+
+/**
+ * Identifies the prompt template (and its version) that produced a piece of
+ * generated content
+ */
+export type PromptRef = {
+  name: string;
+  version: number;
+};
+
 export type Message = {
+  /** Unique within the conversation; see shared/message-tree.ts */
+  id?: string;
+  /** The message this one follows; null for the reflection that started the conversation */
+  parentId?: string | null;
   role: "user" | "assistant";
   content: string;
+  /** For user messages: the id the client gave the turn, so a resubmitted turn isn't saved twice */
+  clientMessageId?: string;
+  /** For assistant messages: the prompt templates used to generate it */
+  prompts?: PromptRef[];
+  /** For assistant messages: canned text was used because generation failed */
+  fallback?: boolean;
+  /** For assistant messages: Quran and hadith references found in the reply */
+  citations?: CitationCheck[];
+};
+
+export type CitationStatus = "verified" | "mismatched" | "unknown";
+
+/**
+ * Result of checking a Quran or hadith reference in generated text against
+ * the bundled corpus
+ */
+export type CitationCheck = {
+  kind: "quran" | "hadith";
+  /** The citation as written, e.g. "Surah Al-Baqarah 2:286" */
+  text: string;
+  /** Canonical form of the reference, e.g. "Quran 2:286" or "Sahih al-Bukhari 6018" */
+  reference: string;
+  /**
+   * verified: the reference exists and any quoted wording matches it;
+   * mismatched: the reference doesn't exist or says something else;
+   * unknown: the reference couldn't be checked against the corpus
+   */
+  status: CitationStatus;
+  /** Why the citation isn't verified */
+  reason?: string;
+  /** The cited text as it appears in the corpus */
+  sourceText?: string;
+};
+
+/**
+ * Running summary of a conversation's older messages, sent to the model in
+ * their place once the conversation grows past the summarization threshold.
+ * The messages themselves are kept for display.
+ */
+export type ConversationSummary = {
+  text: string;
+  /** How many leading messages of the conversation the summary covers */
+  messageCount: number;
+  /** Id of the last message covered, to tell which branch the summary is of */
+  lastMessageId?: string;
+  updatedAt: string;
+  /** The prompt templates used to generate it */
+  prompts?: PromptRef[];
+};
+
+export const conversationLabelFields = ["title", "synopsis", "tags"] as const;
+
+export type ConversationLabelField = typeof conversationLabelFields[number];
+
+/**
+ * How a conversation's title, synopsis and tags came about
+ */
+export type ConversationLabeling = {
+  /** Messages on the selected branch when they were last generated */
+  messageCount: number;
+  /** Fields the user has edited; these are kept when the rest is regenerated */
+  edited: ConversationLabelField[];
+  /** The title was made from the reflection's opening words because generation failed */
+  fallback?: boolean;
+  updatedAt: string;
+  /** The prompt templates used to generate them */
+  prompts?: PromptRef[];
+};
+
+export type ConversationLabels = {
+  title: string | null;
+  synopsis: string | null;
+  tags: string[];
+  labeling: ConversationLabeling | null;
 };
 
 export type Masjid = {
@@ -117,6 +376,14 @@ export type WirdPractice = {
   status: 'completed' | 'incomplete';
   count?: number;
   notes?: string;
+  /** Set on practices added from a reflection's or halaqa's suggestions */
+  source?: WirdPracticeSource;
+};
+
+export type WirdPracticeSource = {
+  sourceType: 'reflection' | 'halaqa';
+  /** The reflection's or halaqa's id */
+  sourceId: number;
 };
 
 export type WirdSuggestion = {
@@ -127,6 +394,28 @@ export type WirdSuggestion = {
   category?: string;
   target?: number;
   unit?: string;
+  description?: string;
+  duration?: string;
+  frequency?: string;
+};
+
+/**
+ * A practice added from a reflection's suggestions, and how consistently it
+ * has been done since. Days are YYYY-MM-DD.
+ */
+export type InspiredPractice = {
+  name: string;
+  category: string | null;
+  /** The first day it was on the wird */
+  since: string;
+  /** Days from then until today, both included */
+  days: number;
+  /** Days it was on the wird */
+  daysTracked: number;
+  daysDone: number;
+  /** daysDone / days, 0 to 1 */
+  consistency: number;
+  lastDone: string | null;
 };
 
 export interface CLEARFrameworkChoice {
@@ -166,22 +455,42 @@ export type Halaqa = {
   impact: string;
   actionItems: HalaqaActionItem[] | null;
   wirdSuggestions?: WirdSuggestion[];
+  analysisPrompts?: PromptRef[] | null;
   createdAt: Date;
   updatedAt: Date;
   isArchived: boolean | null;
+  editedAt?: Date | null;
+  lectureAudioKey?: string | null;
+  lectureAudioType?: string | null;
+  lectureAudioSize?: number | null;
+  lectureTranscript?: string | null;
+  lectureTranscriptSegments?: TranscriptSegment[] | null;
+  lectureTranscriptionStatus?: TranscriptionStatus | null;
 };
 
-export const insertReflectionSchema = createInsertSchema(reflections).pick({
+export type HalaqaLecture = Pick<Required<Halaqa>,
+  | "lectureAudioKey" | "lectureAudioType" | "lectureAudioSize" | "lectureTranscript"
+  | "lectureTranscriptSegments" | "lectureTranscriptionStatus"
+>;
+
+// The transcription and the engine that made it are only ever set by the
+// server, from the recording
+export const insertReflectionSchema = createInsertSchema(reflections, {
+  moodIntensity: z.number().int().min(1).max(MOOD_INTENSITY_MAX).nullish(),
+}).pick({
+  userId: true,
   content: true,
   type: true,
-  transcription: true,
-  audioData: true,
+  mood: true,
+  moodIntensity: true,
 });
 
 export const insertConversationSchema = createInsertSchema(conversations).pick({
+  userId: true,
   reflectionId: true,
   messages: true,
   actionItems: true,
+  promptId: true,
 });
 
 export const insertHalaqaSchema = createInsertSchema(halaqas).pick({
@@ -244,7 +553,41 @@ export const updateWirdSchema = createInsertSchema(wirds).pick({
   isArchived: true,
 }).partial();
 
+export const insertLlmUsageSchema = createInsertSchema(llmUsage).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertRevisionSchema = createInsertSchema(revisions).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertActionItemSchema = createInsertSchema(actionItems).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const insertTranscriptionJobSchema = createInsertSchema(transcriptionJobs).omit({
+  id: true,
+  createdAt: true,
+  segments: true,
+});
+
+export const insertAudioUploadSchema = createInsertSchema(audioUploads, {
+  size: z.number().int().positive(),
+}).pick({
+  userId: true,
+  mimetype: true,
+  size: true,
+});
+
 export type InsertReflection = z.infer<typeof insertReflectionSchema>;
+// A reflection as the server saves it: what the client sent, plus the
+// recording it stored and where transcription stands
+export type NewReflection = InsertReflection &
+  Partial<Pick<Reflection, "audioKey" | "audioType" | "audioSize" | "transcription" | "transcriptionEngine" | "transcriptionStatus">>;
 export type InsertConversation = z.infer<typeof insertConversationSchema>;
 export type InsertHalaqa = z.infer<typeof insertHalaqaSchema>;
 export type UpdateHalaqa = z.infer<typeof updateHalaqaSchema>;
@@ -252,10 +595,265 @@ export type InsertUserSettings = z.infer<typeof insertUserSettingsSchema>;
 export type InsertWird = z.infer<typeof insertWirdSchema>;
 export type UpdateWird = z.infer<typeof updateWirdSchema>;
 export type Reflection = typeof reflections.$inferSelect;
+export type ReflectionAudioField = "audioKey" | "audioType" | "audioSize";
 export type Conversation = typeof conversations.$inferSelect;
 export type HalaqaRow = typeof halaqas.$inferSelect;
 export type UserSettings = typeof userSettings.$inferSelect;
 export type WirdRow = typeof wirds.$inferSelect;
+export type InsertLlmUsage = z.infer<typeof insertLlmUsageSchema>;
+export type LlmUsage = typeof llmUsage.$inferSelect;
+export type InsertRevision = z.infer<typeof insertRevisionSchema>;
+export type Revision = typeof revisions.$inferSelect;
+export type RevisionEntityType = Revision["entityType"];
+export type InsertActionItem = z.infer<typeof insertActionItemSchema>;
+export type ActionItem = typeof actionItems.$inferSelect;
+export type ActionItemSource = typeof actionItemSources[number];
+export type ActionItemPriority = typeof actionItemPriorities[number];
+export type ActionItemStatus = typeof actionItemStatuses[number];
+export type InsertTranscriptionJob = z.infer<typeof insertTranscriptionJobSchema>;
+export type TranscriptionJob = typeof transcriptionJobs.$inferSelect;
+export type TranscriptionJobStatus = typeof transcriptionJobStatuses[number];
+export type TranscriptionStatus = typeof transcriptionStatuses[number];
+export type InsertAudioUpload = z.infer<typeof insertAudioUploadSchema>;
+export type AudioUpload = typeof audioUploads.$inferSelect;
+
+export type ActionItemFilters = {
+  status?: ActionItemStatus;
+  sourceType?: ActionItemSource;
+  sourceId?: string;
+};
+
+/**
+ * An action item with what the plan shows of its source: the conversation's
+ * title and the reflection it opens from, the halaqa's or framework's title
+ */
+export type ActionItemView = ActionItem & {
+  sourceTitle: string | null;
+  reflectionId: number | null;
+};
+
+/**
+ * A stretch of a recording and what was said in it. Times are in seconds
+ * from the start; confidence is 0-1 when the engine reports one.
+ */
+export type TranscriptSegment = {
+  start: number;
+  end: number;
+  text: string;
+  confidence: number | null;
+};
+
+/**
+ * A transcription job as GET /api/transcriptions/:jobId reports it
+ */
+export type TranscriptionJobView = Pick<TranscriptionJob,
+  | "id" | "reflectionId" | "halaqaId" | "status" | "attempts" | "maxAttempts" | "error" | "transcription" | "segments" | "engine"
+  | "conversationId" | "createdAt" | "startedAt" | "finishedAt" | "chunkCount" | "chunksDone"
+> & {
+  /** Jobs ahead of this one while it is queued */
+  position: number | null;
+};
+
+/**
+ * A chunked upload as /api/uploads reports it. The next chunk starts at
+ * received and is at most chunkSize bytes.
+ */
+export type AudioUploadView = Pick<AudioUpload, "id" | "mimetype" | "size" | "received" | "createdAt" | "completedAt"> & {
+  chunkSize: number;
+};
+
+/**
+ * One edited field of a revision. Dates are stored as YYYY-MM-DD.
+ */
+export type RevisionChange = {
+  field: string;
+  before: string | null;
+  after: string | null;
+};
+
+/**
+ * A run of text that is unchanged, added or removed between two versions
+ */
+export type DiffSegment = {
+  type: "equal" | "added" | "removed";
+  text: string;
+};
+
+/**
+ * A revision as shown in the revision viewer, with a word diff per field
+ */
+export type RevisionView = Omit<Revision, "changes"> & {
+  changes: Array<RevisionChange & { diff: DiffSegment[] }>;
+};
+
+/**
+ * Filters for listing a user's reflections; dates are inclusive
+ */
+export type ReflectionListFilters = {
+  from?: Date;
+  to?: Date;
+  type?: "audio" | "text";
+  /** Only reflections whose conversation has (or hasn't) action items */
+  hasActionItems?: boolean;
+  /** Only reflections whose conversation is tagged with this topic */
+  tag?: string;
+};
+
+/**
+ * A reflection as listed in history: the audio and its timings are left out,
+ * and the conversation it started is summarized
+ */
+export type ReflectionListItem = Omit<Reflection, ReflectionAudioField | "transcriptSegments"> & {
+  conversationId: number | null;
+  messageCount: number;
+  actionItemCount: number;
+  title: string | null;
+  synopsis: string | null;
+  tags: string[];
+};
+
+/**
+ * A topic tag with how many of the user's conversations carry it
+ */
+export type TagCount = {
+  tag: string;
+  count: number;
+};
+
+export type ReflectionPage = {
+  reflections: ReflectionListItem[];
+  /** Matching reflections across all pages */
+  total: number;
+  limit: number;
+  offset: number;
+  hasMore: boolean;
+};
+
+export type Mood = typeof moods[number];
+export type TranscriptionEngineName = typeof transcriptionEngines[number];
+export type TranscriptFormat = typeof transcriptFormats[number];
+
+export const moodCheckInSchema = z.object({
+  mood: z.enum(moods),
+  intensity: z.number().int().min(1).max(MOOD_INTENSITY_MAX),
+});
+
+export type MoodCheckIn = z.infer<typeof moodCheckInSchema> & {
+  reflectionId: number;
+  timestamp: Date;
+};
+
+/**
+ * Average mood score for a group of check-ins. Scores run from
+ * -MOOD_INTENSITY_MAX (strongly negative) to MOOD_INTENSITY_MAX.
+ */
+export type MoodScore = {
+  averageScore: number | null;
+  count: number;
+};
+
+export type MoodAnalytics = {
+  from: string;
+  to: string;
+  /** One point per day with check-ins, oldest first; dates are YYYY-MM-DD */
+  overTime: Array<MoodScore & { date: string; dominantMood: Mood }>;
+  /** Sunday (0) to Saturday (6) */
+  byWeekday: Array<MoodScore & { weekday: number }>;
+  counts: Record<Mood, number>;
+  wirdCorrelation: {
+    /** Pearson correlation of daily mood with the share of wird practices completed; null with too little data */
+    coefficient: number | null;
+    /** Days with both a check-in and a wird entry */
+    days: number;
+    withCompletedWird: MoodScore;
+    withoutCompletedWird: MoodScore;
+  };
+};
+
+export type PromptCategory = typeof promptCategories[number];
+export type PromptSeason = typeof promptSeasons[number];
+
+/**
+ * A question from the guided prompt library. Ids are stable across library
+ * versions so answered prompts can still be looked up.
+ */
+export type GuidedPrompt = {
+  id: string;
+  category: PromptCategory;
+  text: string;
+  /** Only offered as prompt of the day during this season */
+  season?: PromptSeason;
+};
+
+export type PromptLibrary = {
+  version: number;
+  prompts: GuidedPrompt[];
+};
+
+export type PromptOfTheDay = {
+  prompt: GuidedPrompt;
+  /** YYYY-MM-DD, UTC */
+  date: string;
+  season: PromptSeason | null;
+  version: number;
+};
+
+export const searchSources = ["reflection", "conversation", "halaqa", "wird"] as const;
+
+export type SearchSource = typeof searchSources[number];
+
+export type SearchHit = {
+  source: SearchSource;
+  /** Id of the matching row in the source's table */
+  id: number;
+  title: string;
+  /** Excerpt around the matches, which are wrapped in <mark></mark> */
+  snippet: string;
+  /** Client route that shows the hit */
+  link: string;
+  /** ISO timestamp, or YYYY-MM-DD for halaqas and wirds */
+  date: string;
+  rank: number;
+};
+
+export type SearchResults = {
+  query: string;
+  /** Best matches first */
+  hits: SearchHit[];
+  /** Matches across all pages */
+  total: number;
+  /** Matches across all pages, per source */
+  counts: Record<SearchSource, number>;
+  limit: number;
+  offset: number;
+  hasMore: boolean;
+};
+
+export const exportFormats = ["markdown", "pdf", "json"] as const;
+export const exportSources = ["reflections", "conversations", "halaqas", "wirds"] as const;
+
+export type ExportFormat = typeof exportFormats[number];
+export type ExportSource = typeof exportSources[number];
+
+/**
+ * What the user's exports include, from their existing settings (see
+ * exportPrivacyOf in server/lib/export/bundle.ts)
+ */
+export type ExportPrivacy = {
+  includeMood: boolean;
+  includeAssistantReplies: boolean;
+};
+
+/**
+ * A user's entries in a date range, as read for export. Archived halaqas and
+ * wirds are left out, and so is reflection audio.
+ */
+export type JournalEntries = {
+  reflections: Omit<Reflection, ReflectionAudioField>[];
+  conversations: Conversation[];
+  halaqas: Halaqa[];
+  wirds: WirdRow[];
+};
 
 export type IdentityFramework = {
   id: string;
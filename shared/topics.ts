@@ -0,0 +1,49 @@
+/**
+ * Topics of reflection, spotted by keyword
+ *
+ * Used to tag conversations and, on the client, for implicit
+ * personalization. Matching is by substring on lowercased text, so keywords
+ * also match longer words ("fast" matches "fasting").
+ */
+
+export const TOPIC_KEYWORDS: Record<string, string[]> = {
+  'prayer': ['prayer', 'salah', 'salat', 'namaz', 'worship'],
+  'quran': ['quran', 'qur\'an', 'ayah', 'surah', 'verse'],
+  'fasting': ['fast', 'fasting', 'ramadan', 'sawm', 'iftar', 'suhoor'],
+  'charity': ['charity', 'zakat', 'sadaqah', 'giving', 'donate'],
+  'pilgrimage': ['hajj', 'umrah', 'pilgrimage', 'mecca', 'kaaba'],
+  'faith': ['iman', 'faith', 'belief', 'doubt', 'trust in allah'],
+  'family': ['family', 'marriage', 'parent', 'child', 'spouse', 'relationship'],
+  'ethics': ['ethics', 'morals', 'character', 'akhlaq', 'behavior', 'conduct'],
+  'spirituality': ['spirituality', 'spiritual', 'soul', 'heart', 'nafs', 'ruh'],
+  'community': ['community', 'ummah', 'brotherhood', 'sisterhood', 'mosque', 'masjid'],
+  'knowledge': ['knowledge', 'learning', 'study', 'education', 'ilm'],
+  'daily-life': ['daily', 'routine', 'lifestyle', 'habit', 'discipline'],
+  'challenges': ['challenge', 'difficulty', 'struggle', 'hardship', 'problem'],
+  'gratitude': ['gratitude', 'thankful', 'shukr', 'blessings', 'appreciate'],
+  'patience': ['patience', 'sabr', 'endurance', 'perseverance'],
+  'repentance': ['repentance', 'tawbah', 'forgiveness', 'mercy', 'istighfar'],
+  'mindfulness': ['mindfulness', 'presence', 'awareness', 'intention', 'niyyah'],
+};
+
+/**
+ * The topics mentioned in a text, most mentioned first (ties in
+ * TOPIC_KEYWORDS order)
+ */
+export function extractTopics(text: string): string[] {
+  const lower = text.toLowerCase();
+  const mentions = (keyword: string) => lower.split(keyword).length - 1;
+
+  return Object.entries(TOPIC_KEYWORDS)
+    .map(([topic, keywords]) => ({ topic, count: keywords.reduce((sum, keyword) => sum + mentions(keyword), 0) }))
+    .filter(({ count }) => count > 0)
+    .sort((a, b) => b.count - a.count)
+    .map(({ topic }) => topic);
+}
+
+/**
+ * A user-entered tag in the form topics use: lowercase words joined by hyphens
+ */
+export function normalizeTag(tag: string): string {
+  return tag.trim().toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '');
+}
@@ -1,5 +1,7 @@
 /**
  * Unit tests for the encryption utilities
+ *
+ * @jest-environment node
  */
 
 import {